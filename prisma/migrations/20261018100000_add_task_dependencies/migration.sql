@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "TaskDependency" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "taskId" TEXT NOT NULL,
+    "blockerId" TEXT NOT NULL,
+
+    CONSTRAINT "TaskDependency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskDependency_taskId_idx" ON "TaskDependency"("taskId");
+
+-- CreateIndex
+CREATE INDEX "TaskDependency_blockerId_idx" ON "TaskDependency"("blockerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskDependency_taskId_blockerId_key" ON "TaskDependency"("taskId", "blockerId");
+
+-- AddForeignKey
+ALTER TABLE "TaskDependency" ADD CONSTRAINT "TaskDependency_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskDependency" ADD CONSTRAINT "TaskDependency_blockerId_fkey" FOREIGN KEY ("blockerId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
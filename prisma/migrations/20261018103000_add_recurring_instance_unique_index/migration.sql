@@ -0,0 +1,3 @@
+-- 同一重复系列同一到期日只允许一个实例，防止并发生成重复实例
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_parentTaskId_dueDate_key" ON "Task"("parentTaskId", "dueDate");
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "SchedulerRunStatus" AS ENUM ('RUNNING', 'SUCCESS', 'FAILED', 'IDLE');
+
+-- CreateEnum
+CREATE TYPE "SchedulerRunTrigger" AS ENUM ('SCHEDULE', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "SchedulerJobState" (
+    "jobId" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "pausedUntil" TIMESTAMP(3),
+    "cronExpression" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SchedulerJobState_pkey" PRIMARY KEY ("jobId")
+);
+
+-- CreateTable
+CREATE TABLE "SchedulerJobRun" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "trigger" "SchedulerRunTrigger" NOT NULL DEFAULT 'SCHEDULE',
+    "status" "SchedulerRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "error" TEXT,
+    "affectedUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "summary" TEXT,
+    "idleCount" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "SchedulerJobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SchedulerJobRun_jobId_startedAt_idx" ON "SchedulerJobRun"("jobId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "SchedulerJobRun_startedAt_idx" ON "SchedulerJobRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "SchedulerJobRun_status_idx" ON "SchedulerJobRun"("status");
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "SchedulerJobRun" ADD COLUMN     "instanceId" TEXT,
+ADD COLUMN     "scheduledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SchedulerLease" (
+    "name" TEXT NOT NULL,
+    "holderId" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "renewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SchedulerLease_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateIndex
+CREATE INDEX "SchedulerLease_expiresAt_idx" ON "SchedulerLease"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SchedulerJobRun_jobId_scheduledAt_key" ON "SchedulerJobRun"("jobId", "scheduledAt");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "MagicLinkRequest" (
+    "id" TEXT NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MagicLinkRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MagicLinkRequest_ipAddress_createdAt_idx" ON "MagicLinkRequest"("ipAddress", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MagicLinkRequest_createdAt_idx" ON "MagicLinkRequest"("createdAt");
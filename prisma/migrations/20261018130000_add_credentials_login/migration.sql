@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "passwordUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "LoginAttempt" (
+    "id" TEXT NOT NULL,
+    "identifier" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoginAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_identifier_createdAt_idx" ON "LoginAttempt"("identifier", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_ipAddress_createdAt_idx" ON "LoginAttempt"("ipAddress", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_createdAt_idx" ON "LoginAttempt"("createdAt");
+
+-- AlterTable
+ALTER TABLE "MagicLinkToken" ADD COLUMN     "purpose" TEXT NOT NULL DEFAULT 'sign-in';
+
+-- 移动端此前已设置密码的账号视为已验证邮箱，升级后可继续使用密码登录
+UPDATE "User"
+SET "emailVerified" = CURRENT_TIMESTAMP
+WHERE "password" IS NOT NULL AND "emailVerified" IS NULL;
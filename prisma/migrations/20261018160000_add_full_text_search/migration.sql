@@ -0,0 +1,53 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "Task_title_trgm_idx" ON "Task" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Task_description_trgm_idx" ON "Task" USING GIN ("description" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Task_feedback_trgm_idx" ON "Task" USING GIN ("feedback" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Project_name_trgm_idx" ON "Project" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Project_description_trgm_idx" ON "Project" USING GIN ("description" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Note_title_trgm_idx" ON "Note" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Note_content_trgm_idx" ON "Note" USING GIN ("content" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Journal_content_trgm_idx" ON "Journal" USING GIN ("content" gin_trgm_ops);
+
+-- 全文搜索 tsvector 表达式索引（Prisma schema 无法表达，只在迁移中维护）
+-- 表达式需与 src/server/services/full-text-search.ts 中的 SEARCH_TARGETS 保持一致，否则查询不会使用索引
+
+-- CreateIndex
+CREATE INDEX "Task_search_vector_idx" ON "Task" USING GIN ((
+  setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce("feedback", '')), 'C')
+));
+
+-- CreateIndex
+CREATE INDEX "Note_search_vector_idx" ON "Note" USING GIN ((
+  setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("content", '')), 'B')
+));
+
+-- CreateIndex
+CREATE INDEX "Project_search_vector_idx" ON "Project" USING GIN ((
+  setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'B')
+));
+
+-- CreateIndex
+CREATE INDEX "Journal_search_vector_idx" ON "Journal" USING GIN ((
+  setweight(to_tsvector('simple', coalesce("content", '')), 'A')
+));
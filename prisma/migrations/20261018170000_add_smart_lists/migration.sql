@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "SmartListView" AS ENUM ('LIST', 'KANBAN');
+
+-- AlterTable
+ALTER TABLE "SavedSearch" ADD COLUMN     "isPinned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "viewMode" "SmartListView" NOT NULL DEFAULT 'LIST';
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_createdById_isPinned_idx" ON "SavedSearch"("createdById", "isPinned");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "SavedSearch" ADD COLUMN     "shareToken" TEXT,
+ADD COLUMN     "sourceSearchId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedSearch_shareToken_key" ON "SavedSearch"("shareToken");
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_sourceSearchId_idx" ON "SavedSearch"("sourceSearchId");
+
+-- AddForeignKey
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_sourceSearchId_fkey" FOREIGN KEY ("sourceSearchId") REFERENCES "SavedSearch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
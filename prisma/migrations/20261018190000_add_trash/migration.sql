@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Journal" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Project_createdById_deletedAt_idx" ON "Project"("createdById", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Task_createdById_deletedAt_idx" ON "Task"("createdById", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Note_createdById_deletedAt_idx" ON "Note"("createdById", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Journal_createdById_deletedAt_idx" ON "Journal"("createdById", "deletedAt");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "UndoOperation" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "inverse" TEXT NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "UndoOperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UndoOperation_userId_createdAt_idx" ON "UndoOperation"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UndoOperation" ADD CONSTRAINT "UndoOperation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "TaskFieldChange" (
+    "id" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "note" TEXT,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "taskId" TEXT NOT NULL,
+    "changedById" TEXT NOT NULL,
+
+    CONSTRAINT "TaskFieldChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskFieldChange_taskId_changedAt_idx" ON "TaskFieldChange"("taskId", "changedAt");
+
+-- CreateIndex
+CREATE INDEX "TaskFieldChange_changedById_idx" ON "TaskFieldChange"("changedById");
+
+-- AddForeignKey
+ALTER TABLE "TaskFieldChange" ADD CONSTRAINT "TaskFieldChange_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskFieldChange" ADD CONSTRAINT "TaskFieldChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
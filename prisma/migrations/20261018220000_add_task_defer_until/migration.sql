@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "deferUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Task_deferUntil_idx" ON "Task"("deferUntil");
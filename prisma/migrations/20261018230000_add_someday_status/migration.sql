@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "TaskStatus" ADD VALUE 'SOMEDAY' BEFORE 'DONE';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "somedayReviewedAt" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "WeeklyReview" (
+    "id" TEXT NOT NULL,
+    "currentStep" TEXT NOT NULL DEFAULT 'inbox',
+    "completedSteps" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "notes" TEXT,
+    "counts" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "durationSeconds" INTEGER,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "WeeklyReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WeeklyReview_userId_startedAt_idx" ON "WeeklyReview"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "WeeklyReview_userId_completedAt_idx" ON "WeeklyReview"("userId", "completedAt");
+
+-- AddForeignKey
+ALTER TABLE "WeeklyReview" ADD CONSTRAINT "WeeklyReview_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
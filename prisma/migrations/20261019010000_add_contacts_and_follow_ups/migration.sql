@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "delegatedAt" TIMESTAMP(3),
+ADD COLUMN "followUpAt" TIMESTAMP(3),
+ADD COLUMN "followUpRemindedAt" TIMESTAMP(3),
+ADD COLUMN "waitingForId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Contact" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "Contact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Contact_createdById_idx" ON "Contact"("createdById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contact_createdById_name_key" ON "Contact"("createdById", "name");
+
+-- CreateIndex
+CREATE INDEX "Task_followUpAt_idx" ON "Task"("followUpAt");
+
+-- CreateIndex
+CREATE INDEX "Task_waitingForId_idx" ON "Task"("waitingForId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_waitingForId_fkey" FOREIGN KEY ("waitingForId") REFERENCES "Contact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Contact" ADD CONSTRAINT "Contact_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "EmailDigestKind" AS ENUM ('DAILY', 'WEEKLY');
+
+-- CreateTable
+CREATE TABLE "EmailDigest" (
+    "id" TEXT NOT NULL,
+    "kind" "EmailDigestKind" NOT NULL,
+    "digestDate" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "EmailDigest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailDigest_userId_kind_digestDate_key" ON "EmailDigest"("userId", "kind", "digestDate");
+
+-- CreateIndex
+CREATE INDEX "EmailDigest_sentAt_idx" ON "EmailDigest"("sentAt");
+
+-- AddForeignKey
+ALTER TABLE "EmailDigest" ADD CONSTRAINT "EmailDigest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { type SchedulerRunStatus } from "@prisma/client";
+
+import { api } from "@/utils/api";
+
+interface SchedulerRunHistoryProps {
+  tasks: Array<{ id: string; name: string }>;
+}
+
+const STATUS_OPTIONS: Array<{
+  value: SchedulerRunStatus;
+  label: string;
+  className: string;
+}> = [
+  { value: "SUCCESS", label: "成功", className: "bg-green-100 text-green-800" },
+  { value: "FAILED", label: "失败", className: "bg-red-100 text-red-800" },
+  { value: "RUNNING", label: "执行中", className: "bg-blue-100 text-blue-800" },
+  { value: "IDLE", label: "空闲", className: "bg-gray-100 text-gray-600" },
+];
+
+const TRIGGER_LABELS = {
+  SCHEDULE: "定时",
+  MANUAL: "手动",
+} as const;
+
+// 格式化耗时
+export function formatDuration(durationMs: number | null) {
+  if (durationMs === null) return "-";
+  if (durationMs < 1000) return `${durationMs}ms`;
+  if (durationMs < 60 * 1000) return `${(durationMs / 1000).toFixed(1)}s`;
+  return `${Math.floor(durationMs / 60000)}分${Math.round((durationMs % 60000) / 1000)}秒`;
+}
+
+export function RunStatusBadge({ status }: { status: SchedulerRunStatus }) {
+  const option = STATUS_OPTIONS.find((item) => item.value === status);
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+        option?.className ?? "bg-gray-100 text-gray-800"
+      }`}
+    >
+      {option?.label ?? status}
+    </span>
+  );
+}
+
+// 将执行摘要 JSON 转为可读文本
+function formatSummary(summary: string | null) {
+  if (!summary) return null;
+  try {
+    return Object.entries(JSON.parse(summary) as Record<string, unknown>)
+      .map(([key, value]) => `${key}: ${String(value)}`)
+      .join(", ");
+  } catch {
+    return summary;
+  }
+}
+
+export default function SchedulerRunHistory({
+  tasks,
+}: SchedulerRunHistoryProps) {
+  const [jobId, setJobId] = useState("");
+  const [status, setStatus] = useState<SchedulerRunStatus | "">("");
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = api.scheduler.getRuns.useInfiniteQuery(
+    {
+      jobId: jobId || undefined,
+      status: status || undefined,
+      limit: 20,
+    },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    },
+  );
+
+  const runs = data?.pages.flatMap((page) => page.runs) ?? [];
+  const totalCount = data?.pages[0]?.totalCount ?? 0;
+  const taskNames = new Map(tasks.map((task) => [task.id, task.name]));
+
+  return (
+    <div className="mb-8 rounded-lg border border-gray-200 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-4 border-b border-gray-200 px-6 py-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">执行历史</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            共 {totalCount} 条记录，保留最近 30 天
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={jobId}
+            onChange={(e) => setJobId(e.target.value)}
+            className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">全部任务</option>
+            {tasks.map((task) => (
+              <option key={task.id} value={task.id}>
+                {task.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={status}
+            onChange={(e) =>
+              setStatus(e.target.value as SchedulerRunStatus | "")
+            }
+            className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">全部状态（不含空闲）</option>
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => void refetch()}
+            className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            刷新
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="px-6 py-8 text-center text-sm text-gray-500">
+          正在加载执行历史...
+        </div>
+      ) : runs.length === 0 ? (
+        <div className="px-6 py-8 text-center text-sm text-gray-500">
+          暂无执行记录
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">
+                  任务
+                </th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">
+                  开始时间
+                </th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">
+                  耗时
+                </th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">
+                  状态
+                </th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">
+                  涉及用户
+                </th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">
+                  详情
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {runs.map((run) => (
+                <tr key={run.id}>
+                  <td className="px-6 py-3 whitespace-nowrap text-gray-900">
+                    {taskNames.get(run.jobId) ?? run.jobId}
+                    <span className="ml-2 text-xs text-gray-400">
+                      {TRIGGER_LABELS[run.trigger]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-gray-600">
+                    {new Date(run.startedAt).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-gray-600">
+                    {formatDuration(run.durationMs)}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <RunStatusBadge status={run.status} />
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-gray-600">
+                    {run.affectedUserIds.length}
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">
+                    {run.error ? (
+                      <span className="text-red-600">{run.error}</span>
+                    ) : run.idleCount > 1 ? (
+                      <span className="text-xs text-gray-500">
+                        连续空闲 {run.idleCount} 次，显示最近一次
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-500">
+                        {formatSummary(run.summary)}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div className="border-t border-gray-200 px-6 py-3 text-center">
+          <button
+            onClick={() => void fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {isFetchingNextPage ? "加载中..." : "加载更多"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
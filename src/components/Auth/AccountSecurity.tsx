@@ -0,0 +1,142 @@
+import { type FormEvent, useState } from "react";
+import { ShieldCheckIcon } from "@heroicons/react/24/outline";
+
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { PASSWORD_MIN_LENGTH } from "@/server/api/schemas/account";
+import { api } from "@/utils/api";
+
+const PROVIDER_LABELS: Record<string, string> = {
+  github: "GitHub",
+};
+
+export default function AccountSecurity() {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const { data: securityInfo, refetch } =
+    api.account.getSecurityInfo.useQuery();
+
+  const changePassword = api.account.changePassword.useMutation({
+    onSuccess: () => {
+      showSuccess(securityInfo?.hasPassword ? "密码已修改" : "密码已设置");
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      void refetch();
+    },
+    onError: (error) => {
+      showError(error.message || "修改密码失败");
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      showError("两次输入的新密码不一致");
+      return;
+    }
+    changePassword.mutate({
+      currentPassword: securityInfo?.hasPassword ? currentPassword : undefined,
+      newPassword,
+    });
+  };
+
+  const inputClassName =
+    "block w-full max-w-sm rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center space-x-3">
+        <ShieldCheckIcon className="h-6 w-6 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">账户安全</h2>
+      </div>
+
+      <div className="space-y-6">
+        {/* 登录方式 */}
+        <div>
+          <h3 className="mb-2 text-sm font-medium text-gray-700">登录方式</h3>
+          <ul className="space-y-1 text-sm text-gray-600">
+            <li>
+              邮箱：{securityInfo?.email ?? "-"}
+              {securityInfo?.emailVerified && (
+                <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-800">
+                  已验证
+                </span>
+              )}
+            </li>
+            <li>
+              密码：
+              {securityInfo?.hasPassword
+                ? `已设置${
+                    securityInfo.passwordUpdatedAt
+                      ? `（${new Date(securityInfo.passwordUpdatedAt).toLocaleString()} 更新）`
+                      : ""
+                  }`
+                : "未设置"}
+            </li>
+            {securityInfo?.providers.map((provider) => (
+              <li key={provider}>
+                已关联 {PROVIDER_LABELS[provider] ?? provider} 账号
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* 设置/修改密码 */}
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-700">
+            {securityInfo?.hasPassword ? "修改密码" : "设置密码"}
+          </h3>
+          {!securityInfo?.hasPassword && (
+            <p className="text-sm text-gray-500">
+              设置密码后即可使用邮箱和密码登录
+            </p>
+          )}
+          {securityInfo?.hasPassword && (
+            <input
+              type="password"
+              required
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              placeholder="当前密码"
+              autoComplete="current-password"
+              className={inputClassName}
+            />
+          )}
+          <input
+            type="password"
+            required
+            minLength={PASSWORD_MIN_LENGTH}
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder={`新密码（至少 ${PASSWORD_MIN_LENGTH} 位，包含字母和数字）`}
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            required
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="确认新密码"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={changePassword.isPending || !securityInfo}
+            className="inline-flex items-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {changePassword.isPending
+              ? "保存中..."
+              : securityInfo?.hasPassword
+                ? "修改密码"
+                : "设置密码"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
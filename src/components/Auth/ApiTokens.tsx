@@ -0,0 +1,317 @@
+import { type FormEvent, useState } from "react";
+import { KeyIcon } from "@heroicons/react/24/outline";
+
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { ConfirmModal } from "@/components/UI";
+import { useConfirm } from "@/hooks/useConfirm";
+import {
+  API_TOKEN_RESOURCES,
+  type ApiTokenResource,
+} from "@/server/api/schemas/api-token";
+import { api } from "@/utils/api";
+
+const RESOURCE_LABELS: Record<ApiTokenResource, string> = {
+  tasks: "任务",
+  notes: "笔记",
+  journals: "日记",
+  projects: "项目",
+  tags: "标签",
+};
+
+const EXPIRY_OPTIONS = [
+  { value: "", label: "永不过期" },
+  { value: "30", label: "30 天" },
+  { value: "90", label: "90 天" },
+  { value: "365", label: "1 年" },
+];
+
+type Access = "none" | "read" | "write";
+
+function formatDate(date: Date | null) {
+  return date ? new Date(date).toLocaleString() : "-";
+}
+
+export default function ApiTokens() {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const { confirmState, showConfirm, hideConfirm } = useConfirm();
+  const [name, setName] = useState("");
+  const [access, setAccess] = useState<Record<ApiTokenResource, Access>>({
+    tasks: "write",
+    notes: "none",
+    journals: "write",
+    projects: "read",
+    tags: "read",
+  });
+  const [expiresInDays, setExpiresInDays] = useState("");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens, refetch } = api.apiToken.list.useQuery();
+
+  const createToken = api.apiToken.create.useMutation({
+    onSuccess: (result) => {
+      setCreatedToken(result.token);
+      setName("");
+      void refetch();
+    },
+    onError: (error) => {
+      showError(error.message || "创建令牌失败");
+    },
+  });
+
+  const revokeToken = api.apiToken.revoke.useMutation({
+    onSuccess: () => {
+      showSuccess("令牌已撤销");
+      void refetch();
+    },
+    onError: (error) => {
+      showError(error.message || "撤销令牌失败");
+    },
+  });
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    const scopes = API_TOKEN_RESOURCES.flatMap((resource) =>
+      access[resource] === "none"
+        ? []
+        : [`${resource}:${access[resource]}` as const],
+    );
+    createToken.mutate({
+      name,
+      scopes,
+      expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+    });
+  };
+
+  const handleRevoke = async (id: string, tokenName: string) => {
+    const confirmed = await showConfirm({
+      title: "撤销令牌",
+      message: `确定要撤销令牌「${tokenName}」吗？\n\n撤销后使用该令牌的脚本将立即无法访问。`,
+      confirmText: "撤销",
+      cancelText: "取消",
+      type: "danger",
+    });
+
+    if (confirmed) {
+      revokeToken.mutate({ id });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      showSuccess("已复制到剪贴板");
+    } catch {
+      showError("复制失败，请手动复制");
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center space-x-3">
+        <KeyIcon className="h-6 w-6 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">API 令牌</h2>
+      </div>
+
+      <p className="mb-6 text-sm text-gray-500">
+        脚本和命令行工具可以使用令牌调用 REST API（
+        <code className="rounded bg-gray-100 px-1">/api/v1</code>
+        ），请求时通过{" "}
+        <code className="rounded bg-gray-100 px-1">
+          Authorization: Bearer &lt;令牌&gt;
+        </code>{" "}
+        传递。接口说明见{" "}
+        <a
+          href="/api/v1/openapi.json"
+          target="_blank"
+          rel="noreferrer"
+          className="text-blue-600 hover:text-blue-800"
+        >
+          OpenAPI 文档
+        </a>
+        。
+      </p>
+
+      {/* 新创建的令牌，只显示一次 */}
+      {createdToken && (
+        <div className="mb-6 rounded-md border border-green-200 bg-green-50 p-4">
+          <p className="mb-2 text-sm font-medium text-green-800">
+            令牌已创建，请立即复制保存，关闭后将无法再次查看
+          </p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 rounded bg-white px-2 py-1 text-sm break-all text-gray-900">
+              {createdToken}
+            </code>
+            <button
+              onClick={() => void handleCopy()}
+              className="rounded-md border border-gray-300 bg-white px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              复制
+            </button>
+            <button
+              onClick={() => setCreatedToken(null)}
+              className="rounded-md px-3 py-1 text-sm text-gray-500 hover:text-gray-700"
+            >
+              关闭
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 创建令牌 */}
+      <form
+        onSubmit={handleCreate}
+        className="mb-8 space-y-4 rounded-md border border-gray-200 p-4"
+      >
+        <h3 className="text-sm font-medium text-gray-700">创建令牌</h3>
+        <div className="flex flex-wrap gap-4">
+          <input
+            type="text"
+            required
+            maxLength={50}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="令牌名称，如：日记同步脚本"
+            className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {API_TOKEN_RESOURCES.map((resource) => (
+            <label
+              key={resource}
+              className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2 text-sm"
+            >
+              <span className="text-gray-700">{RESOURCE_LABELS[resource]}</span>
+              <select
+                value={access[resource]}
+                onChange={(e) =>
+                  setAccess({
+                    ...access,
+                    [resource]: e.target.value as Access,
+                  })
+                }
+                className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="none">无权限</option>
+                <option value="read">只读</option>
+                <option value="write">读写</option>
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <button
+          type="submit"
+          disabled={
+            createToken.isPending ||
+            !name.trim() ||
+            API_TOKEN_RESOURCES.every((resource) => access[resource] === "none")
+          }
+          className="inline-flex items-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {createToken.isPending ? "创建中..." : "创建令牌"}
+        </button>
+      </form>
+
+      {/* 令牌列表 */}
+      {!tokens || tokens.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无令牌</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  名称
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  权限
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  最近使用
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  过期时间
+                </th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">
+                  操作
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {tokens.map((token) => {
+                const isExpired =
+                  !!token.expiresAt && new Date(token.expiresAt) <= now;
+                const isActive = !token.revokedAt && !isExpired;
+                return (
+                  <tr key={token.id} className={isActive ? "" : "opacity-60"}>
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">
+                        {token.name}
+                      </div>
+                      <code className="text-xs text-gray-500">
+                        {token.prefix}…
+                      </code>
+                    </td>
+                    <td className="px-4 py-2 text-xs text-gray-600">
+                      {token.scopes.join(", ")}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-600">
+                      {formatDate(token.lastUsedAt)}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-600">
+                      {token.expiresAt ? formatDate(token.expiresAt) : "永不"}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      {token.revokedAt ? (
+                        <span className="text-xs text-gray-500">已撤销</span>
+                      ) : isExpired ? (
+                        <span className="text-xs text-gray-500">已过期</span>
+                      ) : (
+                        <button
+                          onClick={() =>
+                            void handleRevoke(token.id, token.name)
+                          }
+                          disabled={revokeToken.isPending}
+                          className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          撤销
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={confirmState.isOpen}
+        onClose={hideConfirm}
+        onConfirm={confirmState.onConfirm}
+        title={confirmState.title}
+        message={confirmState.message}
+        confirmText={confirmState.confirmText}
+        cancelText={confirmState.cancelText}
+        type={confirmState.type}
+        isLoading={confirmState.isLoading}
+      />
+    </div>
+  );
+}
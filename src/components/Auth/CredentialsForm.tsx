@@ -0,0 +1,186 @@
+import { type FormEvent, useState } from "react";
+
+import { PASSWORD_MIN_LENGTH } from "@/server/api/schemas/account";
+import { api } from "@/utils/api";
+
+type Mode = "signin" | "register" | "forgot";
+
+interface CredentialsFormProps {
+  callbackUrl?: string;
+}
+
+export default function CredentialsForm({ callbackUrl }: CredentialsFormProps) {
+  const [mode, setMode] = useState<Mode>("signin");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const register = api.account.register.useMutation();
+  const requestReset = api.account.requestPasswordReset.useMutation();
+
+  const switchMode = (nextMode: Mode) => {
+    setMode(nextMode);
+    setPassword("");
+    setMessage(null);
+  };
+
+  const signInWithPassword = async () => {
+    const response = await fetch("/api/credentials/sign-in", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password, callbackUrl }),
+    });
+    const result = (await response.json()) as {
+      url?: string;
+      error?: string;
+    };
+
+    if (!response.ok) {
+      setMessage({ type: "error", text: result.error ?? "登录失败" });
+      return;
+    }
+
+    // 会话 Cookie 已写入，刷新页面以加载登录状态
+    window.location.href = result.url ?? callbackUrl ?? "/";
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    try {
+      if (mode === "forgot") {
+        const result = await requestReset.mutateAsync({ email });
+        setMessage({ type: "success", text: result.message });
+        return;
+      }
+
+      if (mode === "register") {
+        // 验证邮箱后才能登录，注册后只提示查收邮件
+        const result = await register.mutateAsync({
+          name: name.trim() || undefined,
+          email,
+          password,
+        });
+        setPassword("");
+        setMessage({ type: "success", text: result.message });
+        return;
+      }
+
+      setIsSigningIn(true);
+      await signInWithPassword();
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "操作失败，请稍后再试",
+      });
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const isSubmitting =
+    isSigningIn || register.isPending || requestReset.isPending;
+
+  const submitLabel = {
+    signin: isSubmitting ? "登录中..." : "登录",
+    register: isSubmitting ? "注册中..." : "注册",
+    forgot: isSubmitting ? "发送中..." : "发送重置密码邮件",
+  }[mode];
+
+  const inputClassName =
+    "block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {mode === "register" && (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="昵称（可选）"
+          maxLength={50}
+          className={inputClassName}
+        />
+      )}
+      <input
+        type="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="邮箱"
+        autoComplete="email"
+        className={inputClassName}
+      />
+      {mode !== "forgot" && (
+        <input
+          type="password"
+          required
+          minLength={mode === "register" ? PASSWORD_MIN_LENGTH : undefined}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={
+            mode === "register"
+              ? `密码（至少 ${PASSWORD_MIN_LENGTH} 位，包含字母和数字）`
+              : "密码"
+          }
+          autoComplete={
+            mode === "register" ? "new-password" : "current-password"
+          }
+          className={inputClassName}
+        />
+      )}
+      <button
+        type="submit"
+        disabled={isSubmitting || !email || (mode !== "forgot" && !password)}
+        className="flex w-full justify-center rounded-md border border-transparent bg-gray-800 px-4 py-2 text-sm font-medium text-white hover:bg-gray-900 focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {submitLabel}
+      </button>
+
+      {message && (
+        <p
+          className={`text-center text-sm ${
+            message.type === "success" ? "text-green-600" : "text-red-600"
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <div className="flex justify-between text-xs">
+        {mode === "signin" ? (
+          <>
+            <button
+              type="button"
+              onClick={() => switchMode("register")}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              没有账号？注册
+            </button>
+            <button
+              type="button"
+              onClick={() => switchMode("forgot")}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              忘记密码
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={() => switchMode("signin")}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            返回登录
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
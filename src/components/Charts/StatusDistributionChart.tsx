@@ -31,6 +31,7 @@ const StatusDistributionChart: React.FC<StatusDistributionChartProps> = ({
     TODO: { label: "待处理", color: "#3b82f6" }, // blue-500
     IN_PROGRESS: { label: "进行中", color: "#f59e0b" }, // amber-500
     WAITING: { label: "等待中", color: "#f97316" }, // orange-500
+    SOMEDAY: { label: "将来/也许", color: "#14b8a6" }, // teal-500
     DONE: { label: "已完成", color: "#10b981" }, // emerald-500
     ARCHIVED: { label: "已归档", color: "#6b7280" }, // gray-500
   };
@@ -1,13 +1,60 @@
-import { type ReactNode } from "react";
+import { type FormEvent, type ReactNode, useState } from "react";
+import { useRouter } from "next/router";
 import { signIn, useSession } from "next-auth/react";
+import CredentialsForm from "@/components/Auth/CredentialsForm";
 import { PageLoading } from "@/components/UI";
 
+const MAGIC_LINK_ERRORS: Record<string, string> = {
+  invalid: "登录链接无效或已过期，请重新获取",
+  failed: "登录失败，请稍后再试",
+};
+
 interface AuthGuardProps {
   children: ReactNode;
 }
 
 export default function AuthGuard({ children }: AuthGuardProps) {
   const { status } = useSession();
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [magicLinkMessage, setMagicLinkMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const queryError = router.query.magicLinkError;
+  const linkError =
+    typeof queryError === "string" ? MAGIC_LINK_ERRORS[queryError] : undefined;
+
+  // 发送邮箱登录链接
+  const handleSendMagicLink = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setMagicLinkMessage(null);
+
+    try {
+      const response = await fetch("/api/magic-link/request", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, callbackUrl: router.asPath }),
+      });
+      const result = (await response.json()) as {
+        message?: string;
+        error?: string;
+      };
+
+      setMagicLinkMessage(
+        response.ok
+          ? { type: "success", text: result.message ?? "登录链接已发送" }
+          : { type: "error", text: result.error ?? "发送失败，请稍后再试" },
+      );
+    } catch {
+      setMagicLinkMessage({ type: "error", text: "发送失败，请检查网络连接" });
+    } finally {
+      setIsSending(false);
+    }
+  };
 
   // 加载中状态
   if (status === "loading") {
@@ -34,6 +81,59 @@ export default function AuthGuard({ children }: AuthGuardProps) {
             >
               使用 GitHub 登录
             </button>
+
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-gray-300" />
+              </div>
+              <div className="relative flex justify-center text-xs">
+                <span className="bg-gray-50 px-2 text-gray-500">
+                  或使用邮箱密码登录
+                </span>
+              </div>
+            </div>
+
+            <CredentialsForm callbackUrl={router.asPath} />
+
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-gray-300" />
+              </div>
+              <div className="relative flex justify-center text-xs">
+                <span className="bg-gray-50 px-2 text-gray-500">
+                  或通过邮件获取登录链接
+                </span>
+              </div>
+            </div>
+
+            <form onSubmit={handleSendMagicLink} className="space-y-3">
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="请输入注册邮箱"
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+              <button
+                type="submit"
+                disabled={isSending || !email}
+                className="flex w-full justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isSending ? "发送中..." : "发送登录链接"}
+              </button>
+              {(magicLinkMessage ?? linkError) && (
+                <p
+                  className={`text-center text-sm ${
+                    magicLinkMessage?.type === "success"
+                      ? "text-green-600"
+                      : "text-red-600"
+                  }`}
+                >
+                  {magicLinkMessage?.text ?? linkError}
+                </p>
+              )}
+            </form>
             <div className="text-center text-xs text-gray-500">
               登录后即可开始使用所有功能
             </div>
@@ -6,6 +6,7 @@ import { useRouter } from "next/router";
 import {
   AdjustmentsHorizontalIcon,
   ArrowRightEndOnRectangleIcon,
+  ArchiveBoxArrowDownIcon,
   Bars3Icon,
   BoltIcon,
   BookmarkIcon,
@@ -16,6 +17,7 @@ import {
   ChevronLeftIcon,
   ChevronRightIcon,
   ChevronUpIcon,
+  ClipboardDocumentCheckIcon,
   ClockIcon,
   CogIcon,
   DocumentDuplicateIcon,
@@ -26,8 +28,10 @@ import {
   ListBulletIcon,
   MagnifyingGlassIcon,
   ShieldCheckIcon,
+  SparklesIcon,
   Squares2X2Icon,
   TagIcon,
+  TrashIcon,
   UserCircleIcon,
   ViewColumnsIcon,
   XMarkIcon,
@@ -37,7 +41,9 @@ import { useSidebarState } from "@/hooks";
 import { useRefresh } from "@/contexts/RefreshContext";
 import { useGlobalShortcuts } from "@/hooks/useGlobalShortcuts";
 import VersionDisplay from "./VersionDisplay";
+import SmartListNav from "./SmartListNav";
 import QuickSearch from "@/components/Search/QuickSearch";
+import { NotificationBell } from "@/components/Notifications";
 import ShortcutHelpModal from "@/components/UI/ShortcutHelpModal";
 import { api } from "@/utils/api";
 
@@ -96,6 +102,18 @@ const navigation: NavigationItem[] = [
         icon: ClockIcon,
         description: "等待他人回复的任务",
       },
+      {
+        name: "将来/也许",
+        href: "/tasks/someday",
+        icon: SparklesIcon,
+        description: "暂不行动、定期回顾的事项",
+      },
+      {
+        name: "推迟任务",
+        href: "/tasks/deferred",
+        icon: ArchiveBoxArrowDownIcon,
+        description: "推迟到以后再出现的任务",
+      },
     ],
   },
   {
@@ -174,6 +192,12 @@ const navigation: NavigationItem[] = [
         icon: CalendarIcon,
         description: "特定时间段的深度分析",
       },
+      {
+        name: "周回顾",
+        href: "/review/weekly",
+        icon: ClipboardDocumentCheckIcon,
+        description: "按 GTD 步骤逐项整理清单",
+      },
     ],
   },
   {
@@ -188,6 +212,12 @@ const navigation: NavigationItem[] = [
         icon: CogIcon,
         description: "个性化配置和偏好设置",
       },
+      {
+        name: "回收站",
+        href: "/trash",
+        icon: TrashIcon,
+        description: "恢复或永久删除已删除的内容",
+      },
       {
         name: "系统管理",
         href: "/admin/scheduler",
@@ -416,7 +446,8 @@ export default function MainLayout({ children }: MainLayoutProps) {
       return router.pathname === "/";
     }
     if (href === "/tasks") {
-      return router.pathname === "/tasks"; // 只匹配精确路径
+      // 只匹配精确路径，智能列表由侧边栏的智能列表项高亮
+      return router.pathname === "/tasks" && !router.query.smartList;
     }
     if (href === "/tasks/next-actions") {
       return router.pathname === "/tasks/next-actions";
@@ -425,7 +456,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
       return router.pathname === "/tasks/waiting";
     }
     if (href === "/tasks/kanban") {
-      return router.pathname === "/tasks/kanban";
+      return router.pathname === "/tasks/kanban" && !router.query.smartList;
     }
     if (href === "/tags") {
       return (
@@ -460,9 +491,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
       return router.pathname === "/analytics";
     }
     if (href === "/review") {
-      return (
-        router.pathname === "/review" || router.pathname.startsWith("/review/")
-      );
+      return router.pathname === "/review";
     }
     return router.pathname.startsWith(href);
   };
@@ -676,6 +705,9 @@ export default function MainLayout({ children }: MainLayoutProps) {
             })}
           </nav>
 
+          {/* 智能列表 */}
+          <SmartListNav onNavigate={() => setSidebarOpen(false)} />
+
           {/* 版本信息显示 */}
           <VersionDisplay position="sidebar" />
         </div>
@@ -889,6 +921,9 @@ export default function MainLayout({ children }: MainLayoutProps) {
               })}
             </nav>
 
+            {/* 智能列表 */}
+            <SmartListNav collapsed={isCollapsed} />
+
             {/* 版本信息显示 */}
             <VersionDisplay collapsed={isCollapsed} position="sidebar" />
           </div>
@@ -926,6 +961,9 @@ export default function MainLayout({ children }: MainLayoutProps) {
               </div>
             </div>
             <div className="flex items-center gap-x-4 lg:gap-x-6">
+              {/* 通知 */}
+              {sessionData?.user && <NotificationBell />}
+
               {/* User menu */}
               {sessionData?.user ? (
                 <div className="flex items-center gap-x-4">
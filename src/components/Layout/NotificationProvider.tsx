@@ -1,7 +1,18 @@
-import React, { createContext, type ReactNode, useContext } from "react";
+import React, {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+} from "react";
 import { NotificationContainer } from "@/components/UI";
 import { useNotifications } from "@/hooks";
 import type { NotificationType } from "@/components/UI/Notification";
+import { api } from "@/utils/api";
+
+// 撤销提示的显示时间
+const UNDO_DURATION = 10000;
 
 interface ShowNotificationOptions {
   title?: string;
@@ -23,6 +34,8 @@ interface NotificationContextType {
   showError: (message: string, options?: ShowNotificationOptions) => string;
   showWarning: (message: string, options?: ShowNotificationOptions) => string;
   showInfo: (message: string, options?: ShowNotificationOptions) => string;
+  // 显示带“撤销”按钮的成功提示，undoId 为服务端返回的操作记录ID
+  showUndo: (message: string, undoId: string) => string;
   removeNotification: (id: string) => void;
   clearAll: () => void;
   clearByType: (type: NotificationType) => void;
@@ -45,14 +58,93 @@ export function NotificationProvider({
   children,
   position = "top-center",
 }: NotificationProviderProps) {
-  const notificationHook = useNotifications();
+  const {
+    notifications,
+    showNotification,
+    showSuccess,
+    showError,
+    showWarning,
+    showInfo,
+    removeNotification,
+    clearAll,
+    clearByType,
+  } = useNotifications();
+  const utils = api.useContext();
+
+  const { mutate: undo } = api.undo.undo.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      // 只刷新被还原的内容，从回收站恢复时同时刷新回收站
+      for (const type of result.affectedTypes) {
+        void utils[type].invalidate();
+      }
+      if (result.restoredFromTrash) {
+        void utils.trash.invalidate();
+      }
+    },
+    onError: (error) => {
+      showError(error.message || "撤销失败");
+    },
+  });
+
+  const showUndo = useCallback(
+    (message: string, undoId: string) => {
+      const id = showSuccess(message, {
+        duration: UNDO_DURATION,
+        action: {
+          label: "撤销",
+          onClick: () => {
+            removeNotification(id);
+            undo({ operationId: undoId });
+          },
+        },
+      });
+      return id;
+    },
+    [showSuccess, removeNotification, undo],
+  );
+
+  // Ctrl+Z 撤销当前用户最近一次操作
+  useEffect(() => {
+    const handleUndoShortcut = () => undo({});
+
+    window.addEventListener("global-shortcut-undo", handleUndoShortcut);
+    return () =>
+      window.removeEventListener("global-shortcut-undo", handleUndoShortcut);
+  }, [undo]);
+
+  // 通知列表变化时不重新创建，避免所有使用通知的组件跟着重新渲染
+  const value = useMemo(
+    () => ({
+      showNotification,
+      showSuccess,
+      showError,
+      showWarning,
+      showInfo,
+      showUndo,
+      removeNotification,
+      clearAll,
+      clearByType,
+    }),
+    [
+      showNotification,
+      showSuccess,
+      showError,
+      showWarning,
+      showInfo,
+      showUndo,
+      removeNotification,
+      clearAll,
+      clearByType,
+    ],
+  );
 
   return (
-    <NotificationContext.Provider value={notificationHook}>
+    <NotificationContext.Provider value={value}>
       {children}
       <NotificationContainer
-        notifications={notificationHook.notifications}
-        onClose={notificationHook.removeNotification}
+        notifications={notifications}
+        onClose={removeNotification}
         position={position}
       />
     </NotificationContext.Provider>
@@ -0,0 +1,104 @@
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { SparklesIcon } from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+
+interface SmartListNavProps {
+  collapsed?: boolean;
+  onNavigate?: () => void;
+}
+
+// 智能列表：固定到侧边栏的保存搜索，显示实时任务数量
+export default function SmartListNav({
+  collapsed = false,
+  onNavigate,
+}: SmartListNavProps) {
+  const router = useRouter();
+
+  const { data: smartLists } = api.search.getSmartLists.useQuery(undefined, {
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000, // 定期刷新数量
+    refetchOnWindowFocus: true,
+  });
+
+  if (!smartLists || smartLists.length === 0) {
+    return null;
+  }
+
+  const activeId =
+    typeof router.query.smartList === "string" ? router.query.smartList : null;
+
+  return (
+    <div className="border-t border-gray-100 px-2 py-3">
+      {!collapsed && (
+        <div className="mb-1 flex items-center justify-between px-2">
+          <span className="text-xs font-semibold tracking-wider text-gray-400 uppercase">
+            智能列表
+          </span>
+          <Link
+            href="/search/saved"
+            className="text-xs text-gray-400 hover:text-gray-600"
+            title="管理智能列表"
+          >
+            管理
+          </Link>
+        </div>
+      )}
+      <div className="space-y-1">
+        {smartLists.map((list) => {
+          const isActive = activeId === list.id;
+          const href =
+            list.viewMode === "KANBAN"
+              ? `/tasks/kanban?smartList=${list.id}`
+              : `/tasks?smartList=${list.id}`;
+
+          return (
+            <Link
+              key={list.id}
+              href={href}
+              onClick={onNavigate}
+              className={`group flex items-center rounded-md px-2 py-1.5 text-sm font-medium ${
+                isActive
+                  ? "bg-blue-100 text-blue-900"
+                  : "text-gray-600 hover:bg-gray-50 hover:text-gray-900"
+              } ${collapsed ? "justify-center" : ""}`}
+              title={list.description ?? list.name}
+            >
+              <SparklesIcon
+                className={`h-4 w-4 flex-shrink-0 ${
+                  isActive
+                    ? "text-blue-500"
+                    : "text-gray-400 group-hover:text-gray-500"
+                } ${collapsed ? "" : "mr-3"}`}
+              />
+              {!collapsed && (
+                <>
+                  <span className="flex-1 truncate">{list.name}</span>
+                  <span
+                    className={`ml-2 rounded-full px-1.5 text-xs ${
+                      isActive
+                        ? "bg-blue-200 text-blue-800"
+                        : "bg-gray-100 text-gray-600"
+                    }`}
+                    title={
+                      list.count === null
+                        ? "搜索条件无效"
+                        : list.countTruncated
+                          ? "匹配关键词的任务过多，只统计了相关性最高的一部分"
+                          : "匹配的任务数量"
+                    }
+                  >
+                    {list.count === null
+                      ? "!"
+                      : `${list.count}${list.countTruncated ? "+" : ""}`}
+                  </span>
+                </>
+              )}
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
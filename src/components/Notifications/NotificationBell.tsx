@@ -0,0 +1,115 @@
+import Link from "next/link";
+import { Popover, Transition } from "@headlessui/react";
+import { BellIcon } from "@heroicons/react/24/outline";
+import { Fragment } from "react";
+
+import { api } from "@/utils/api";
+import { useNotificationCenter } from "@/hooks/useNotificationCenter";
+import NotificationItem from "./NotificationItem";
+
+// 下拉面板中显示的通知数量
+const PREVIEW_LIMIT = 8;
+
+/**
+ * 顶栏通知铃铛：显示未读数量，展开后查看最近的通知
+ */
+export default function NotificationBell() {
+  const {
+    openNotification,
+    markNotificationRead,
+    markAllRead,
+    isMarkingAllRead,
+  } = useNotificationCenter();
+
+  const { data: unread } = api.notification.getUnreadCount.useQuery(undefined, {
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000, // 定期刷新未读数量
+    refetchOnWindowFocus: true,
+  });
+  const unreadCount = unread?.count ?? 0;
+
+  const { data, isLoading } = api.notification.getAll.useQuery(
+    { limit: PREVIEW_LIMIT },
+    { staleTime: 30 * 1000 },
+  );
+
+  return (
+    <Popover className="relative">
+      <Popover.Button
+        className="relative -m-1.5 rounded-full p-1.5 text-gray-400 hover:text-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        title="通知"
+      >
+        <BellIcon className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-red-500 px-1 text-[10px] leading-none font-semibold text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Popover.Button>
+
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="opacity-0 translate-y-1"
+        enterTo="opacity-100 translate-y-0"
+        leave="transition ease-in duration-75"
+        leaveFrom="opacity-100 translate-y-0"
+        leaveTo="opacity-0 translate-y-1"
+      >
+        <Popover.Panel className="ring-opacity-5 absolute right-0 z-50 mt-3 w-80 overflow-hidden rounded-lg bg-white shadow-lg ring-1 ring-black sm:w-96">
+          {({ close }) => (
+            <>
+              <div className="flex items-center justify-between border-b border-gray-100 px-4 py-3">
+                <h3 className="text-sm font-semibold text-gray-900">通知</h3>
+                {unreadCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={markAllRead}
+                    disabled={isMarkingAllRead}
+                    className="text-xs font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                  >
+                    全部标为已读
+                  </button>
+                )}
+              </div>
+
+              <div className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+                {isLoading ? (
+                  <p className="px-4 py-6 text-center text-sm text-gray-500">
+                    加载通知中...
+                  </p>
+                ) : data && data.notifications.length > 0 ? (
+                  data.notifications.map((notification) => (
+                    <NotificationItem
+                      key={notification.id}
+                      notification={notification}
+                      onOpen={(item) => {
+                        openNotification(item);
+                        close();
+                      }}
+                      onMarkRead={markNotificationRead}
+                    />
+                  ))
+                ) : (
+                  <p className="px-4 py-6 text-center text-sm text-gray-500">
+                    暂无通知
+                  </p>
+                )}
+              </div>
+
+              <div className="border-t border-gray-100 px-4 py-2 text-center">
+                <Link
+                  href="/notifications"
+                  onClick={() => close()}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                >
+                  查看全部通知
+                </Link>
+              </div>
+            </>
+          )}
+        </Popover.Panel>
+      </Transition>
+    </Popover>
+  );
+}
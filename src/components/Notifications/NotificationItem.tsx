@@ -0,0 +1,103 @@
+import {
+  BellAlertIcon,
+  BookOpenIcon,
+  CalendarIcon,
+  ClipboardDocumentCheckIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { type Notification, NotificationType } from "@prisma/client";
+
+import { NOTIFICATION_TYPE_LABELS } from "@/server/api/schemas/notification";
+
+const TYPE_STYLES: Record<
+  NotificationType,
+  {
+    icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
+    color: string;
+  }
+> = {
+  [NotificationType.TASK_DUE]: {
+    icon: CalendarIcon,
+    color: "bg-blue-100 text-blue-600",
+  },
+  [NotificationType.TASK_OVERDUE]: {
+    icon: ExclamationTriangleIcon,
+    color: "bg-red-100 text-red-600",
+  },
+  [NotificationType.JOURNAL_REMINDER]: {
+    icon: BookOpenIcon,
+    color: "bg-green-100 text-green-600",
+  },
+  [NotificationType.WEEKLY_REVIEW]: {
+    icon: ClipboardDocumentCheckIcon,
+    color: "bg-purple-100 text-purple-600",
+  },
+  [NotificationType.FOLLOW_UP]: {
+    icon: BellAlertIcon,
+    color: "bg-amber-100 text-amber-600",
+  },
+};
+
+interface NotificationItemProps {
+  notification: Notification;
+  onOpen: (notification: Notification) => void;
+  onMarkRead?: (notification: Notification) => void;
+}
+
+/**
+ * 单条通知：点击后标记为已读并跳转到相关内容
+ */
+export default function NotificationItem({
+  notification,
+  onOpen,
+  onMarkRead,
+}: NotificationItemProps) {
+  const { icon: Icon, color } = TYPE_STYLES[notification.type];
+  const isUnread = !notification.readAt;
+
+  return (
+    <div
+      className={`group flex cursor-pointer items-start gap-3 px-4 py-3 transition-colors hover:bg-gray-50 ${
+        isUnread ? "bg-blue-50/50" : ""
+      }`}
+      onClick={() => onOpen(notification)}
+    >
+      <span className={`mt-0.5 flex-shrink-0 rounded-full p-1.5 ${color}`}>
+        <Icon className="h-4 w-4" />
+      </span>
+      <div className="min-w-0 flex-1">
+        <p
+          className={`text-sm ${isUnread ? "font-medium text-gray-900" : "text-gray-700"}`}
+        >
+          {notification.title}
+        </p>
+        {notification.body && (
+          <p className="mt-0.5 line-clamp-2 text-xs text-gray-500">
+            {notification.body}
+          </p>
+        )}
+        <p className="mt-1 text-xs text-gray-400">
+          {NOTIFICATION_TYPE_LABELS[notification.type]} ·{" "}
+          {new Date(notification.createdAt).toLocaleString("zh-CN")}
+        </p>
+      </div>
+      {isUnread && (
+        <div className="flex flex-shrink-0 flex-col items-end gap-2">
+          <span className="mt-1.5 h-2 w-2 rounded-full bg-blue-500" />
+          {onMarkRead && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onMarkRead(notification);
+              }}
+              className="hidden text-xs text-blue-600 group-hover:block hover:text-blue-500"
+            >
+              标为已读
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+// 站内通知组件导出
+export { default as NotificationBell } from "./NotificationBell";
+export { default as NotificationItem } from "./NotificationItem";
@@ -75,6 +75,10 @@ const TASK_STATUS_CONFIG = {
     label: "等待中",
     color: "bg-purple-100 text-purple-800",
   },
+  [TaskStatus.SOMEDAY]: {
+    label: "将来/也许",
+    color: "bg-teal-100 text-teal-800",
+  },
   [TaskStatus.DONE]: { label: "已完成", color: "bg-green-100 text-green-800" },
   [TaskStatus.ARCHIVED]: {
     label: "已归档",
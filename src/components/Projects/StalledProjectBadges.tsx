@@ -0,0 +1,70 @@
+import {
+  ClockIcon,
+  ExclamationTriangleIcon,
+  PauseCircleIcon,
+} from "@heroicons/react/24/outline";
+
+import {
+  STALLED_PROJECT_REASON_LABELS,
+  type StalledProjectReason,
+} from "@/server/api/schemas/project";
+
+const REASON_STYLES: Record<
+  StalledProjectReason,
+  { className: string; icon: typeof ClockIcon }
+> = {
+  noNextAction: {
+    className: "bg-red-100 text-red-800",
+    icon: ExclamationTriangleIcon,
+  },
+  allWaiting: {
+    className: "bg-yellow-100 text-yellow-800",
+    icon: PauseCircleIcon,
+  },
+  inactive: {
+    className: "bg-gray-100 text-gray-700",
+    icon: ClockIcon,
+  },
+};
+
+interface StalledProjectBadgesProps {
+  stall: {
+    reasons: StalledProjectReason[];
+    lastActivityAt: Date;
+    stalledAfterDays: number;
+  } | null;
+  className?: string;
+}
+
+/**
+ * 项目停滞原因徽标
+ */
+export default function StalledProjectBadges({
+  stall,
+  className = "",
+}: StalledProjectBadgesProps) {
+  if (!stall || stall.reasons.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 ${className}`}>
+      {stall.reasons.map((reason) => {
+        const { className: reasonClassName, icon: Icon } =
+          REASON_STYLES[reason];
+        return (
+          <span
+            key={reason}
+            className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${reasonClassName}`}
+            title={
+              reason === "inactive"
+                ? `最后更新于 ${new Date(stall.lastActivityAt).toLocaleDateString("zh-CN")}，超过 ${stall.stalledAfterDays} 天`
+                : undefined
+            }
+          >
+            <Icon className="mr-1 h-3 w-3" />
+            {STALLED_PROJECT_REASON_LABELS[reason]}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import Link from "next/link";
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import {
+  STALLED_PROJECT_REASON_LABELS,
+  STALLED_PROJECT_REASONS,
+} from "@/server/api/schemas/project";
+import StalledProjectBadges from "./StalledProjectBadges";
+
+// 首页显示的停滞项目数量
+const PREVIEW_LIMIT = 5;
+
+interface StalledProjectsCardProps {
+  enabled?: boolean;
+}
+
+/**
+ * 首页停滞项目卡片：没有停滞项目时不显示
+ */
+export default function StalledProjectsCard({
+  enabled = true,
+}: StalledProjectsCardProps) {
+  const { data } = api.project.getStalled.useQuery(
+    { limit: PREVIEW_LIMIT },
+    {
+      enabled,
+      staleTime: 5 * 60 * 1000, // 5分钟内不重新获取
+      refetchOnWindowFocus: false,
+    },
+  );
+
+  if (!data || data.totalCount === 0) return null;
+
+  return (
+    <div className="overflow-hidden rounded-lg bg-white shadow">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+          <h3 className="flex items-center text-lg font-medium text-gray-900">
+            <ExclamationTriangleIcon className="mr-2 h-5 w-5 text-amber-500" />
+            停滞项目
+            <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-normal text-amber-800">
+              {data.totalCount}
+            </span>
+          </h3>
+          <p className="text-xs text-gray-500">
+            {STALLED_PROJECT_REASONS.filter(
+              (reason) => data.reasonCounts[reason] > 0,
+            )
+              .map(
+                (reason) =>
+                  `${STALLED_PROJECT_REASON_LABELS[reason]} ${data.reasonCounts[reason]}`,
+              )
+              .join(" · ")}
+          </p>
+        </div>
+
+        <ul className="divide-y divide-gray-100">
+          {data.projects.map((project) => (
+            <li
+              key={project.id}
+              className="flex flex-wrap items-center justify-between gap-2 py-2"
+            >
+              <Link
+                href={`/projects/${project.id}`}
+                className="flex min-w-0 items-center gap-2 text-sm font-medium text-gray-900 hover:text-blue-600"
+              >
+                <span
+                  className="h-2.5 w-2.5 flex-shrink-0 rounded-full"
+                  style={{ backgroundColor: project.color ?? "#9ca3af" }}
+                />
+                <span className="truncate">{project.name}</span>
+              </Link>
+              <StalledProjectBadges stall={project.stall} />
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-4">
+          <Link
+            href="/projects?filter=stalled"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            查看全部停滞项目 →
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,3 +2,5 @@
 export { default as ProjectModal } from "./ProjectModal";
 export { default as ProjectTaskList } from "./ProjectTaskList";
 export { default as ProjectNoteList } from "./ProjectNoteList";
+export { default as StalledProjectBadges } from "./StalledProjectBadges";
+export { default as StalledProjectsCard } from "./StalledProjectsCard";
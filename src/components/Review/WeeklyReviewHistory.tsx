@@ -0,0 +1,99 @@
+import { ClipboardDocumentCheckIcon } from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import { SectionLoading } from "@/components/UI";
+import {
+  WEEKLY_REVIEW_STEP_LABELS,
+  WEEKLY_REVIEW_STEPS,
+} from "@/server/api/schemas/weekly-review";
+
+/**
+ * 把秒数格式化为“X小时Y分钟”
+ */
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return "-";
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}小时${minutes % 60}分钟` : `${minutes}分钟`;
+}
+
+/**
+ * 历史周回顾记录：完成时间、用时、各步骤开始与结束时的事项数量和回顾笔记
+ */
+export default function WeeklyReviewHistory() {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    api.weeklyReview.getHistory.useInfiniteQuery(
+      { limit: 10 },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor },
+    );
+
+  const reviews = data?.pages.flatMap((page) => page.reviews) ?? [];
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h3 className="mb-4 flex items-center text-lg font-medium text-gray-900">
+        <ClipboardDocumentCheckIcon className="mr-2 h-5 w-5 text-blue-500" />
+        历史回顾
+        <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-normal text-gray-600">
+          {data?.pages[0]?.totalCount ?? 0}
+        </span>
+      </h3>
+
+      {isLoading ? (
+        <SectionLoading message="正在加载回顾记录..." />
+      ) : reviews.length === 0 ? (
+        <p className="py-2 text-sm text-gray-500">还没有完成过周回顾</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {reviews.map((review) => (
+            <li key={review.id} className="py-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-medium text-gray-900">
+                  {review.completedAt &&
+                    new Date(review.completedAt).toLocaleString("zh-CN")}
+                </p>
+                <p className="text-xs text-gray-500">
+                  用时 {formatDuration(review.durationSeconds)} · 完成{" "}
+                  {review.completedSteps.length}/{WEEKLY_REVIEW_STEPS.length} 步
+                </p>
+              </div>
+
+              {(review.counts.before ?? review.counts.after) && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {WEEKLY_REVIEW_STEPS.map((step) => (
+                    <span
+                      key={step}
+                      className="rounded-md bg-gray-50 px-2 py-1 text-xs text-gray-600"
+                    >
+                      {WEEKLY_REVIEW_STEP_LABELS[step]}{" "}
+                      {review.counts.before?.[step] ?? "-"} →{" "}
+                      {review.counts.after?.[step] ?? "-"}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {review.notes && (
+                <p className="mt-2 text-sm whitespace-pre-wrap text-gray-700">
+                  {review.notes}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <div className="mt-4 text-center">
+          <button
+            onClick={() => void fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isFetchingNextPage ? "加载中..." : "加载更多"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
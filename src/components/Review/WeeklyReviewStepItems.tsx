@@ -0,0 +1,468 @@
+import { useState } from "react";
+import Link from "next/link";
+import {
+  ArchiveBoxIcon,
+  ArrowUpCircleIcon,
+  ArrowUturnLeftIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  FolderOpenIcon,
+  PencilIcon,
+  PlusIcon,
+  SparklesIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { TaskStatus } from "@prisma/client";
+
+import { api } from "@/utils/api";
+import { SectionLoading } from "@/components/UI";
+import { type TagData, TagList } from "@/components/Tags";
+import TaskModal from "@/components/Tasks/TaskModal";
+import DeferTaskModal from "@/components/Tasks/DeferTaskModal";
+import PromoteSomedayModal from "@/components/Tasks/PromoteSomedayModal";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import {
+  WEEKLY_REVIEW_CALENDAR_DAYS,
+  type WeeklyReviewStep,
+} from "@/server/api/schemas/weekly-review";
+
+// 各步骤的说明和空状态提示
+const STEP_HINTS: Record<WeeklyReviewStep, { hint: string; empty: string }> = {
+  inbox: {
+    hint: "逐条处理收集到的想法：能行动的转为待办，暂不行动的放入将来/也许，不需要的删除",
+    empty: "收集箱已清空",
+  },
+  nextActions: {
+    hint: "检查每个下一步行动是否仍然有效：已完成的勾掉，暂时做不了的推迟或放入将来/也许",
+    empty: "没有待办的下一步行动",
+  },
+  waiting: {
+    hint: "跟进等待中的事项：已有结果的标记完成，需要自己推进的转回待办",
+    empty: "等待清单是空的",
+  },
+  projects: {
+    hint: "这些活跃项目没有待办或进行中的任务，为它们补上下一步行动，或归档已经结束的项目",
+    empty: "每个活跃项目都有下一步行动",
+  },
+  someday: {
+    hint: "看看哪些事项已经可以开始，转为待办；不再感兴趣的归档",
+    empty: "将来/也许清单是空的",
+  },
+  calendar: {
+    hint: `已逾期和未来 ${WEEKLY_REVIEW_CALENDAR_DAYS} 天内到期的任务，以及即将重新出现的推迟任务`,
+    empty: `未来 ${WEEKLY_REVIEW_CALENDAR_DAYS} 天没有安排`,
+  },
+};
+
+interface WeeklyReviewStepItemsProps {
+  step: WeeklyReviewStep;
+  onChanged?: () => void;
+}
+
+/**
+ * 周回顾某一步骤的事项列表，每项带有该步骤需要的快捷操作
+ */
+export default function WeeklyReviewStepItems({
+  step,
+  onChanged,
+}: WeeklyReviewStepItemsProps) {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const utils = api.useContext();
+
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [newTaskProjectId, setNewTaskProjectId] = useState<string | null>(null);
+  const [deferringTask, setDeferringTask] = useState<{
+    id: string;
+    title: string;
+    deferUntil: Date | null;
+  } | null>(null);
+  const [promotingTask, setPromotingTask] = useState<{
+    id: string;
+    title: string;
+    projectId: string | null;
+  } | null>(null);
+
+  const { data, isLoading } = api.weeklyReview.getStepItems.useQuery({ step });
+
+  const handleChanged = () => {
+    void utils.weeklyReview.getStepItems.invalidate();
+    void utils.weeklyReview.getCounts.invalidate();
+    void utils.task.invalidate();
+    void utils.someday.invalidate();
+    void utils.project.invalidate();
+    onChanged?.();
+  };
+
+  const updateStatus = api.task.updateStatus.useMutation({
+    onSuccess: () => {
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "更新任务状态失败");
+    },
+  });
+
+  const deleteTask = api.task.delete.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "删除任务失败");
+    },
+  });
+
+  const archiveProject = api.project.archive.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "归档项目失败");
+    },
+  });
+
+  const isMutating =
+    updateStatus.isPending || deleteTask.isPending || archiveProject.isPending;
+
+  const changeStatus = (id: string, status: TaskStatus, note: string) => {
+    updateStatus.mutate({ id, status, note });
+  };
+
+  const actionClass =
+    "inline-flex items-center gap-1 rounded-md px-2 py-1 text-sm hover:bg-gray-100 disabled:opacity-50";
+
+  const renderTaskActions = (
+    task: NonNullable<typeof data>["tasks"][number],
+  ) => {
+    switch (step) {
+      case "inbox":
+        return (
+          <>
+            <button
+              onClick={() =>
+                changeStatus(task.id, TaskStatus.TODO, "周回顾：转为待办")
+              }
+              disabled={isMutating}
+              className={`${actionClass} text-blue-600`}
+            >
+              <ArrowUpCircleIcon className="h-4 w-4" />
+              转为待办
+            </button>
+            <button
+              onClick={() =>
+                changeStatus(
+                  task.id,
+                  TaskStatus.SOMEDAY,
+                  "周回顾：放入将来/也许",
+                )
+              }
+              disabled={isMutating}
+              className={`${actionClass} text-teal-600`}
+            >
+              <SparklesIcon className="h-4 w-4" />
+              将来/也许
+            </button>
+            <button
+              onClick={() => deleteTask.mutate({ id: task.id })}
+              disabled={isMutating}
+              className={`${actionClass} text-gray-400 hover:text-red-600`}
+              title="删除"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </>
+        );
+      case "nextActions":
+        return (
+          <>
+            <button
+              onClick={() =>
+                changeStatus(task.id, TaskStatus.DONE, "周回顾：标记完成")
+              }
+              disabled={isMutating}
+              className={`${actionClass} text-green-600`}
+            >
+              <CheckCircleIcon className="h-4 w-4" />
+              完成
+            </button>
+            <button
+              onClick={() =>
+                setDeferringTask({
+                  id: task.id,
+                  title: task.title,
+                  deferUntil: task.deferUntil,
+                })
+              }
+              className={`${actionClass} text-gray-600`}
+            >
+              <ClockIcon className="h-4 w-4" />
+              推迟
+            </button>
+            <button
+              onClick={() =>
+                changeStatus(
+                  task.id,
+                  TaskStatus.SOMEDAY,
+                  "周回顾：放入将来/也许",
+                )
+              }
+              disabled={isMutating}
+              className={`${actionClass} text-teal-600`}
+            >
+              <SparklesIcon className="h-4 w-4" />
+              将来/也许
+            </button>
+          </>
+        );
+      case "waiting":
+        return (
+          <>
+            <button
+              onClick={() =>
+                changeStatus(task.id, TaskStatus.DONE, "周回顾：等待事项已完成")
+              }
+              disabled={isMutating}
+              className={`${actionClass} text-green-600`}
+            >
+              <CheckCircleIcon className="h-4 w-4" />
+              完成
+            </button>
+            <button
+              onClick={() =>
+                changeStatus(task.id, TaskStatus.TODO, "周回顾：转回待办")
+              }
+              disabled={isMutating}
+              className={`${actionClass} text-blue-600`}
+            >
+              <ArrowUturnLeftIcon className="h-4 w-4" />
+              转回待办
+            </button>
+          </>
+        );
+      case "someday":
+        return (
+          <>
+            <button
+              onClick={() =>
+                setPromotingTask({
+                  id: task.id,
+                  title: task.title,
+                  projectId: task.projectId,
+                })
+              }
+              className={`${actionClass} text-blue-600`}
+            >
+              <ArrowUpCircleIcon className="h-4 w-4" />
+              转为待办
+            </button>
+            <button
+              onClick={() =>
+                changeStatus(task.id, TaskStatus.ARCHIVED, "周回顾：归档")
+              }
+              disabled={isMutating}
+              className={`${actionClass} text-gray-600`}
+            >
+              <ArchiveBoxIcon className="h-4 w-4" />
+              归档
+            </button>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderTaskMeta = (task: NonNullable<typeof data>["tasks"][number]) => {
+    const parts: string[] = [];
+    if (step === "waiting") {
+      if (task.waitingFor) {
+        parts.push(`等待 ${task.waitingFor.name}`);
+      }
+      if (task.waitingReason) {
+        parts.push(`等待：${task.waitingReason}`);
+      }
+      if (task.followUpAt) {
+        const isDue = new Date(task.followUpAt) <= new Date();
+        parts.push(
+          `${isDue ? "需要跟进 · " : ""}跟进 ${new Date(task.followUpAt).toLocaleDateString("zh-CN")}`,
+        );
+      }
+    }
+    if (step === "calendar") {
+      if (task.dueDate) {
+        const isOverdue = new Date(task.dueDate) < new Date();
+        parts.push(
+          `${isOverdue ? "已逾期 · " : ""}截止 ${new Date(task.dueDate).toLocaleDateString("zh-CN")}`,
+        );
+      }
+      if (task.deferUntil) {
+        parts.push(
+          `${new Date(task.deferUntil).toLocaleDateString("zh-CN")} 重新出现`,
+        );
+      }
+    } else {
+      parts.push(
+        `${new Date(task.updatedAt).toLocaleDateString("zh-CN")} 起未变动`,
+      );
+    }
+    return parts.join(" · ");
+  };
+
+  const tasks = data?.tasks ?? [];
+  const projects = data?.projects ?? [];
+  const isEmpty = tasks.length === 0 && projects.length === 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{STEP_HINTS[step].hint}</p>
+
+      {isLoading ? (
+        <SectionLoading message="正在加载回顾事项..." />
+      ) : isEmpty ? (
+        <div className="rounded-lg border border-dashed border-gray-300 py-10 text-center">
+          <CheckCircleIcon className="mx-auto h-10 w-10 text-green-400" />
+          <p className="mt-3 text-sm text-gray-500">{STEP_HINTS[step].empty}</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+          {tasks.map((task) => (
+            <div
+              key={task.id}
+              className="flex flex-col gap-2 px-4 py-3 hover:bg-gray-50 sm:flex-row sm:items-start"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="truncate font-medium text-gray-900">
+                  {task.title}
+                </div>
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  {task.project && (
+                    <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                      {task.project.name}
+                    </span>
+                  )}
+                  {task.tags.length > 0 && (
+                    <TagList
+                      tags={task.tags.map(
+                        (tagRelation) => tagRelation.tag as TagData,
+                      )}
+                      size="sm"
+                      variant="default"
+                      showIcon={true}
+                      maxDisplay={3}
+                      className="flex-wrap"
+                    />
+                  )}
+                  <span className="text-xs text-gray-400">
+                    {renderTaskMeta(task)}
+                  </span>
+                </div>
+              </div>
+              <div className="flex flex-shrink-0 flex-wrap items-center gap-1">
+                {renderTaskActions(task)}
+                <button
+                  onClick={() => setEditingTaskId(task.id)}
+                  className="rounded-md p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                  title="编辑"
+                >
+                  <PencilIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {projects.map((project) => (
+            <div
+              key={project.id}
+              className="flex flex-col gap-2 px-4 py-3 hover:bg-gray-50 sm:flex-row sm:items-center"
+            >
+              <div className="flex min-w-0 flex-1 items-center gap-2">
+                <span
+                  className="h-3 w-3 flex-shrink-0 rounded-full"
+                  style={{ backgroundColor: project.color ?? "#6b7280" }}
+                />
+                <div className="min-w-0">
+                  <div className="truncate font-medium text-gray-900">
+                    {project.name}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {project._count.tasks > 0
+                      ? `${project._count.tasks} 个未完成任务，但没有可执行的下一步`
+                      : "没有未完成的任务"}
+                  </div>
+                </div>
+              </div>
+              <div className="flex flex-shrink-0 flex-wrap items-center gap-1">
+                <button
+                  onClick={() => setNewTaskProjectId(project.id)}
+                  className={`${actionClass} text-blue-600`}
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  添加下一步
+                </button>
+                <Link
+                  href={`/projects/${project.id}`}
+                  className={`${actionClass} text-gray-600`}
+                >
+                  <FolderOpenIcon className="h-4 w-4" />
+                  查看
+                </Link>
+                <button
+                  onClick={() =>
+                    archiveProject.mutate({ id: project.id, isArchived: true })
+                  }
+                  disabled={isMutating}
+                  className={`${actionClass} text-gray-600`}
+                >
+                  <ArchiveBoxIcon className="h-4 w-4" />
+                  归档
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data && data.totalCount > tasks.length + projects.length && (
+        <p className="text-center text-xs text-gray-500">
+          仅显示前 {tasks.length + projects.length} 项，共 {data.totalCount} 项
+        </p>
+      )}
+
+      {/* 编辑任务 / 为项目添加下一步 */}
+      <TaskModal
+        isOpen={!!editingTaskId || !!newTaskProjectId}
+        onClose={() => {
+          setEditingTaskId(null);
+          setNewTaskProjectId(null);
+        }}
+        taskId={editingTaskId ?? undefined}
+        defaultProjectId={newTaskProjectId ?? undefined}
+        defaultStatus={newTaskProjectId ? TaskStatus.TODO : undefined}
+        onSuccess={handleChanged}
+      />
+
+      {deferringTask && (
+        <DeferTaskModal
+          isOpen={!!deferringTask}
+          onClose={() => setDeferringTask(null)}
+          taskId={deferringTask.id}
+          taskTitle={deferringTask.title}
+          currentDeferUntil={deferringTask.deferUntil}
+          onSuccess={handleChanged}
+        />
+      )}
+
+      {promotingTask && (
+        <PromoteSomedayModal
+          isOpen={!!promotingTask}
+          onClose={() => setPromotingTask(null)}
+          taskId={promotingTask.id}
+          taskTitle={promotingTask.title}
+          currentProjectId={promotingTask.projectId}
+          onSuccess={handleChanged}
+        />
+      )}
+    </div>
+  );
+}
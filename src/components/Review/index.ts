@@ -0,0 +1,3 @@
+// 周回顾组件导出
+export { default as WeeklyReviewStepItems } from "./WeeklyReviewStepItems";
+export { default as WeeklyReviewHistory } from "./WeeklyReviewHistory";
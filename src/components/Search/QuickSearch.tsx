@@ -12,7 +12,7 @@ interface QuickSearchProps {
 }
 
 export default function QuickSearch({
-  placeholder = "搜索任务、笔记、项目、日记... (输入 # 选择标签)",
+  placeholder = "搜索任务、笔记、项目、日记... (输入 # 选择标签，支持 status:todo 等条件)",
   className = "",
 }: QuickSearchProps) {
   const [query, setQuery] = useState("");
@@ -191,6 +191,11 @@ export default function QuickSearch({
             void router.push(`/search${filter}`);
           }
           break;
+        case "query-completion":
+          // 查询语句补全：替换输入内容，保持建议列表打开以便继续输入
+          setQuery(suggestion.value);
+          inputRef.current?.focus();
+          return;
         default:
           // 默认：普通搜索
           setQuery(suggestion.text);
@@ -245,8 +250,8 @@ export default function QuickSearch({
   const handleSearch = (searchQuery?: string) => {
     const finalQuery = searchQuery || query;
     if (finalQuery.trim()) {
-      // 检查是否是标签搜索
-      if (finalQuery.startsWith("#")) {
+      // 检查是否是标签搜索（包含查询语句时交给搜索页解析）
+      if (finalQuery.startsWith("#") && !finalQuery.includes(":")) {
         const tagName = finalQuery.substring(1).trim();
         void router.push(
           `/search?q=${encodeURIComponent(tagName)}&searchBy=tag`,
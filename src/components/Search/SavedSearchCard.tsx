@@ -12,13 +12,25 @@ import {
   ChartBarIcon,
   ArrowsUpDownIcon,
   AdjustmentsHorizontalIcon,
+  ShareIcon,
+  SparklesIcon,
 } from "@heroicons/react/24/outline";
+import { SparklesIcon as SparklesSolidIcon } from "@heroicons/react/24/solid";
+
+import { formatSearchQuery } from "@/utils/search-query";
 
 interface SavedSearch {
   id: string;
   name: string;
   description?: string | null;
   searchParams: any;
+  isPinned?: boolean;
+  isPublic?: boolean;
+  sourceSearch?: {
+    name: string;
+    createdBy: { name: string | null };
+  } | null;
+  _count?: { subscribers: number };
   createdAt: string | Date;
   updatedAt: string | Date;
 }
@@ -46,6 +58,8 @@ interface SavedSearchCardProps {
   onEdit: (search: SavedSearch) => void;
   onEditConditions: (search: SavedSearch) => void;
   onDelete: (searchId: string, searchName: string) => void;
+  onTogglePin?: (search: SavedSearch) => void;
+  onShare?: (search: SavedSearch) => void;
   generateSearchSummary: (
     searchParams: any,
     tags?: any[],
@@ -66,6 +80,8 @@ export default function SavedSearchCard({
   onEdit,
   onEditConditions,
   onDelete,
+  onTogglePin,
+  onShare,
   generateSearchSummary,
   generateSearchConditions,
   tags = [],
@@ -116,6 +132,38 @@ export default function SavedSearchCard({
     >
       {/* 操作按钮 */}
       <div className="absolute right-3 top-3 flex gap-1 opacity-0 transition-opacity duration-200 group-hover:opacity-100">
+        {onTogglePin && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onTogglePin(search);
+            }}
+            className="rounded-md p-1.5 text-gray-400 transition-colors hover:bg-amber-50 hover:text-amber-600"
+            title={
+              search.isPinned ? "从侧边栏移除" : "固定到侧边栏作为智能列表"
+            }
+          >
+            {search.isPinned ? (
+              <SparklesSolidIcon className="h-4 w-4 text-amber-500" />
+            ) : (
+              <SparklesIcon className="h-4 w-4" />
+            )}
+          </button>
+        )}
+
+        {onShare && !search.sourceSearch && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onShare(search);
+            }}
+            className="rounded-md p-1.5 text-gray-400 transition-colors hover:bg-green-50 hover:text-green-600"
+            title="共享"
+          >
+            <ShareIcon className="h-4 w-4" />
+          </button>
+        )}
+
         <button
           onClick={(e) => {
             e.stopPropagation();
@@ -152,10 +200,34 @@ export default function SavedSearchCard({
 
       {/* 主要内容 */}
       <div className="cursor-pointer pr-24" onClick={() => onLoad(search)}>
-        <h4 className="truncate text-base font-medium text-gray-900">
-          {search.name}
+        <h4 className="flex items-center gap-2 text-base font-medium text-gray-900">
+          <span className="truncate">{search.name}</span>
+          {search.isPinned && (
+            <span className="inline-flex flex-shrink-0 items-center rounded-full bg-amber-50 px-2 py-0.5 text-xs font-normal text-amber-700">
+              智能列表
+            </span>
+          )}
         </h4>
 
+        {/* 共享和订阅状态 */}
+        {(search.isPublic === true || !!search.sourceSearch) && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {search.isPublic && (
+              <span className="inline-flex items-center rounded-full bg-green-50 px-2 py-0.5 text-xs text-green-700">
+                已共享 · {search._count?.subscribers ?? 0} 人订阅
+              </span>
+            )}
+            {search.sourceSearch && (
+              <span
+                className="inline-flex items-center rounded-full bg-indigo-50 px-2 py-0.5 text-xs text-indigo-700"
+                title={`订阅自「${search.sourceSearch.name}」，搜索条件随共享者更新`}
+              >
+                订阅自 {search.sourceSearch.createdBy.name ?? "其他用户"}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* 描述 */}
         {search.description && (
           <p className="mt-1 line-clamp-2 text-sm text-gray-600">
@@ -233,6 +305,22 @@ export default function SavedSearchCard({
           </div>
         </div>
 
+        {/* 查询语句 */}
+        {(() => {
+          const queryString = formatSearchQuery(search.searchParams, {
+            tags,
+            projects,
+          });
+          return queryString ? (
+            <code
+              className="mt-3 block truncate rounded bg-gray-50 px-2 py-1 font-mono text-xs text-gray-600"
+              title={queryString}
+            >
+              {queryString}
+            </code>
+          ) : null;
+        })()}
+
         {/* 创建时间 */}
         <p className="mt-2 text-xs text-gray-400">
           更新于 {formatDate(search.updatedAt)}
@@ -10,6 +10,12 @@ import {
 } from "@heroicons/react/24/outline";
 import { Priority, TaskStatus } from "@prisma/client";
 
+import {
+  getSearchTerms,
+  splitHighlightFragments,
+  type HighlightFragment,
+} from "@/utils/search-highlight";
+
 interface SearchResultItemProps {
   type: "task" | "note" | "project" | "journal";
   item: any;
@@ -21,6 +27,11 @@ interface SearchResultItemProps {
 const calculateRelevanceScore = (item: any, query: string): number => {
   if (!query?.trim()) return 0;
 
+  // 服务端全文搜索返回的相关性得分（标题命中约为 1）
+  if (typeof item.searchRank === "number") {
+    return Math.min(Math.round(item.searchRank * 10), 10);
+  }
+
   const searchTerms = query
     .toLowerCase()
     .split(" ")
@@ -91,24 +102,26 @@ export default function SearchResultItem({
     );
   };
 
-  const highlightText = (text: string, query?: string) => {
-    if (!query || !text) return text;
-
-    const regex = new RegExp(`(${query})`, "gi");
-    const parts = text.split(regex);
-
-    return parts.map((part, index) =>
-      regex.test(part) ? (
+  const renderFragments = (fragments: HighlightFragment[]) =>
+    fragments.map((fragment, index) =>
+      fragment.match ? (
         <mark
           key={index}
           className="rounded bg-yellow-200 px-1 text-yellow-900"
         >
-          {part}
+          {fragment.text}
         </mark>
       ) : (
-        part
+        fragment.text
       ),
     );
+
+  const highlightText = (text: string, query?: string) => {
+    if (!query || !text) return text;
+
+    return renderFragments(
+      splitHighlightFragments(text, getSearchTerms(query)),
+    );
   };
 
   const getStatusColor = (status: TaskStatus) => {
@@ -121,6 +134,8 @@ export default function SearchResultItem({
         return "bg-yellow-100 text-yellow-800";
       case TaskStatus.WAITING:
         return "bg-purple-100 text-purple-800";
+      case TaskStatus.SOMEDAY:
+        return "bg-teal-100 text-teal-800";
       case TaskStatus.DONE:
         return "bg-green-100 text-green-800";
       case TaskStatus.ARCHIVED:
@@ -140,6 +155,8 @@ export default function SearchResultItem({
         return "进行中";
       case TaskStatus.WAITING:
         return "等待中";
+      case TaskStatus.SOMEDAY:
+        return "将来/也许";
       case TaskStatus.DONE:
         return "已完成";
       case TaskStatus.ARCHIVED:
@@ -289,11 +306,17 @@ export default function SearchResultItem({
             </div>
           </div>
 
-          {/* 内容预览 */}
-          {(item.description || item.content) && (
+          {/* 内容预览：优先显示全文搜索命中的摘要 */}
+          {item.searchSnippet ? (
             <p className="mt-2 line-clamp-2 text-sm leading-relaxed text-gray-600">
-              {highlightText(item.description || item.content, query)}
+              {renderFragments(item.searchSnippet.fragments)}
             </p>
+          ) : (
+            (item.description || item.content) && (
+              <p className="mt-2 line-clamp-2 text-sm leading-relaxed text-gray-600">
+                {highlightText(item.description || item.content, query)}
+              </p>
+            )
           )}
 
           {/* 元数据行 */}
@@ -7,8 +7,14 @@ import {
   TagIcon,
   ClockIcon,
   BookmarkIcon,
+  CommandLineIcon,
+  FunnelIcon,
 } from "@heroicons/react/24/outline";
 import { api } from "@/utils/api";
+import {
+  getSearchQueryCompletions,
+  parseSearchQuery,
+} from "@/utils/search-query";
 
 interface SearchSuggestion {
   type: string;
@@ -17,6 +23,8 @@ interface SearchSuggestion {
   id?: string;
   color?: string;
   filter?: string;
+  value?: string; // 查询语句补全后的完整输入
+  description?: string;
 }
 
 interface SearchSuggestionsProps {
@@ -35,12 +43,35 @@ export default function SearchSuggestions({
   const [selectedIndex, setSelectedIndex] = useState(0);
   const suggestionsRef = useRef<HTMLDivElement>(null);
 
+  // 查询语句（如 status:todo tag:@电脑）需要标签和项目名称来校验和补全
+  const hasQueryFilters = query.includes(":");
+  const { data: lookupTags } = api.tag.getAll.useQuery(
+    { limit: 100, includeCount: false },
+    { enabled: hasQueryFilters && isVisible, staleTime: 10 * 60 * 1000 },
+  );
+  const { data: lookupProjects } = api.project.getAll.useQuery(
+    { limit: 100 },
+    { enabled: hasQueryFilters && isVisible, staleTime: 10 * 60 * 1000 },
+  );
+  const queryLookup = {
+    tags: lookupTags?.tags,
+    projects: lookupProjects?.projects,
+  };
+  const parsedQuery = parseSearchQuery(query, queryLookup);
+  const queryCompletions = getSearchQueryCompletions(query, queryLookup);
+  const isQueryLanguage =
+    parsedQuery.filterCount > 0 || parsedQuery.errors.length > 0;
+
   // 获取搜索建议
   const { data: suggestions, isLoading } = api.search.suggestions.useQuery(
     { query: query.startsWith("#") ? query.substring(1) : query, limit: 8 },
     {
       enabled:
-        !!query && query.length >= 2 && !query.startsWith("#") && isVisible,
+        !!query &&
+        query.length >= 2 &&
+        !query.startsWith("#") &&
+        !isQueryLanguage &&
+        isVisible,
       staleTime: 60 * 1000, // 增加缓存时间
     },
   );
@@ -106,6 +137,20 @@ export default function SearchSuggestions({
   };
 
   const allSuggestions = [
+    // 查询语句补全
+    ...queryCompletions.map((completion) => ({
+      type: "query-completion",
+      text: completion.label,
+      icon: CommandLineIcon,
+      value: completion.value,
+      description: completion.description,
+    })),
+
+    // 按查询语句搜索
+    ...(isQueryLanguage && queryCompletions.length === 0
+      ? [{ type: "query", text: query.trim(), icon: FunnelIcon }]
+      : []),
+
     // 标签搜索优先（当输入 # 时）
     ...(query.startsWith("#") ? getTagSuggestions() : []),
 
@@ -120,8 +165,8 @@ export default function SearchSuggestions({
         }))
       : []),
 
-    // 普通搜索建议（非标签搜索时）
-    ...(!query.startsWith("#")
+    // 普通搜索建议（非标签搜索、非查询语句时）
+    ...(!query.startsWith("#") && !isQueryLanguage
       ? [
           ...(suggestions?.tasks?.map((task: any) => ({
             type: "task",
@@ -179,7 +224,7 @@ export default function SearchSuggestions({
         case "Enter":
           e.preventDefault();
           if (allSuggestions[selectedIndex]) {
-            onSelect(allSuggestions[selectedIndex].text);
+            onSelect(allSuggestions[selectedIndex]);
           }
           break;
         case "Escape":
@@ -218,7 +263,12 @@ export default function SearchSuggestions({
 
   if (
     !isVisible ||
-    (query.length >= 2 && !query.startsWith("#") && !suggestions && !isLoading)
+    (query.length >= 2 &&
+      !query.startsWith("#") &&
+      !isQueryLanguage &&
+      queryCompletions.length === 0 &&
+      !suggestions &&
+      !isLoading)
   ) {
     return null;
   }
@@ -239,6 +289,10 @@ export default function SearchSuggestions({
         return "快速搜索";
       case "saved-search":
         return "快速搜索";
+      case "query-completion":
+        return "筛选条件";
+      case "query":
+        return "按条件搜索";
       default:
         return "";
     }
@@ -260,6 +314,9 @@ export default function SearchSuggestions({
         return "text-indigo-600";
       case "saved-search":
         return "text-indigo-600";
+      case "query-completion":
+      case "query":
+        return "text-blue-600";
       default:
         return "text-gray-600";
     }
@@ -287,6 +344,8 @@ export default function SearchSuggestions({
                     ? "bg-blue-50 text-blue-900"
                     : "text-gray-900"
                 }`}
+                // 保持输入框焦点，补全查询语句后可以继续输入
+                onMouseDown={(e) => e.preventDefault()}
                 onClick={() => onSelect(suggestion)}
                 onMouseEnter={() => setSelectedIndex(index)}
               >
@@ -301,7 +360,14 @@ export default function SearchSuggestions({
                     />
                   )}
                 </div>
-                <span className="flex-1 truncate">{suggestion.text}</span>
+                <span className="flex-1 truncate">
+                  {suggestion.text}
+                  {"description" in suggestion && suggestion.description && (
+                    <span className="ml-2 text-xs text-gray-400">
+                      {suggestion.description}
+                    </span>
+                  )}
+                </span>
                 {suggestion.type === "saved-search" ? (
                   <span className="inline-flex items-center rounded-full bg-indigo-100 px-2 py-0.5 text-xs font-medium text-indigo-800">
                     <BookmarkIcon className="mr-1 h-3 w-3" />
@@ -335,18 +401,34 @@ export default function SearchSuggestions({
         </div>
       )}
 
+      {/* 查询语句错误 */}
+      {parsedQuery.errors.length > 0 && (
+        <ul className="space-y-1 border-t border-gray-100 px-4 py-2 text-xs text-red-600">
+          {parsedQuery.errors.map((error) => (
+            <li key={`${error.start}-${error.message}`}>
+              <code className="mr-1 rounded bg-red-50 px-1">
+                {query.slice(error.start, error.end)}
+              </code>
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* 搜索提示 */}
       <div className="border-t border-gray-100 px-4 py-2 text-xs text-gray-500">
         <div className="flex items-center justify-between">
           <span>↑↓ 选择 • Enter 确认 • Esc 关闭</span>
           <span>
-            {query === "#"
-              ? "选择标签进行筛选"
-              : query.startsWith("#")
-                ? "标签筛选模式"
-                : query.length < 2
-                  ? "快速搜索功能"
-                  : "支持搜索任务、笔记、项目、日记"}
+            {isQueryLanguage
+              ? "按条件搜索"
+              : query === "#"
+                ? "选择标签进行筛选"
+                : query.startsWith("#")
+                  ? "标签筛选模式"
+                  : query.length < 2
+                    ? "快速搜索功能"
+                    : "支持搜索任务、笔记、项目、日记"}
           </span>
         </div>
       </div>
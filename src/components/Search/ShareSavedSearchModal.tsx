@@ -0,0 +1,142 @@
+import {
+  ClipboardDocumentIcon,
+  ShareIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { api } from "@/utils/api";
+
+interface ShareSavedSearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged?: () => void;
+  search: {
+    id: string;
+    name: string;
+    isPublic: boolean;
+    shareToken?: string | null;
+    subscriberCount: number;
+  } | null;
+}
+
+export function getSharedSearchUrl(token: string) {
+  const origin = typeof window === "undefined" ? "" : window.location.origin;
+  return `${origin}/search/shared/${token}`;
+}
+
+export default function ShareSavedSearchModal({
+  isOpen,
+  onClose,
+  onChanged,
+  search,
+}: ShareSavedSearchModalProps) {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const setSharing = api.search.setSharing.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.isPublic ? "已开启共享" : "已取消共享，原链接已失效");
+      onChanged?.();
+    },
+    onError: (error) => {
+      showError(error.message || "更新共享设置失败");
+    },
+  });
+
+  if (!isOpen || !search) return null;
+
+  const { isPublic, shareToken } = search;
+  const shareUrl = shareToken ? getSharedSearchUrl(shareToken) : "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      showSuccess("共享链接已复制");
+    } catch {
+      showError("复制失败，请手动复制");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="bg-opacity-25 fixed inset-0 bg-black"
+          onClick={onClose}
+        />
+
+        <div className="relative w-full max-w-lg rounded-lg bg-white p-6 shadow-xl">
+          <div className="mb-4 flex items-center justify-between">
+            <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+              <ShareIcon className="h-5 w-5 text-blue-600" />
+              共享「{search.name}」
+            </h3>
+            <button
+              onClick={onClose}
+              className="rounded-md p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              disabled={setSharing.isPending}
+              onChange={(e) =>
+                setSharing.mutate({ id: search.id, isPublic: e.target.checked })
+              }
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900">
+                通过链接共享
+              </span>
+              <span className="block text-sm text-gray-500">
+                获得链接的用户可以导入或订阅此搜索，搜索在他们自己的数据上执行，不会看到你的任何内容。
+              </span>
+            </span>
+          </label>
+
+          {isPublic && shareToken && (
+            <div className="mt-4 space-y-3">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={shareUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 rounded-md border border-gray-300 bg-gray-50 px-3 py-2 font-mono text-xs text-gray-700"
+                />
+                <button
+                  onClick={() => void handleCopy()}
+                  className="inline-flex items-center gap-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <ClipboardDocumentIcon className="h-4 w-4" />
+                  复制
+                </button>
+              </div>
+              <p className="text-sm text-gray-600">
+                {search.subscriberCount > 0
+                  ? `${search.subscriberCount} 人订阅了此搜索，修改搜索条件后会同步给订阅者。`
+                  : "暂无订阅者。"}
+              </p>
+              <p className="text-xs text-gray-400">
+                取消共享会使链接失效，已订阅的副本将转为订阅者自己的搜索。
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={onClose}
+              className="rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              完成
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { Fragment, useState } from "react";
+import { type WebhookDeliveryStatus } from "@prisma/client";
+
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { formatDuration } from "@/components/Admin/SchedulerRunHistory";
+import { api } from "@/utils/api";
+
+interface WebhookDeliveryLogProps {
+  endpointId: string;
+  endpointName: string;
+  onClose: () => void;
+}
+
+const STATUS_OPTIONS: Array<{
+  value: WebhookDeliveryStatus;
+  label: string;
+  className: string;
+}> = [
+  { value: "SUCCESS", label: "成功", className: "bg-green-100 text-green-800" },
+  { value: "FAILED", label: "失败", className: "bg-red-100 text-red-800" },
+  {
+    value: "PENDING",
+    label: "等待重试",
+    className: "bg-yellow-100 text-yellow-800",
+  },
+];
+
+export function DeliveryStatusBadge({
+  status,
+}: {
+  status: WebhookDeliveryStatus;
+}) {
+  const option = STATUS_OPTIONS.find((item) => item.value === status);
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+        option?.className ?? "bg-gray-100 text-gray-800"
+      }`}
+    >
+      {option?.label ?? status}
+    </span>
+  );
+}
+
+// 格式化 JSON 请求体，便于查看
+function formatPayload(payload: string) {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+}
+
+export default function WebhookDeliveryLog({
+  endpointId,
+  endpointName,
+  onClose,
+}: WebhookDeliveryLogProps) {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const [status, setStatus] = useState<WebhookDeliveryStatus | "">("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = api.webhook.getDeliveries.useInfiniteQuery(
+    {
+      endpointId,
+      status: status || undefined,
+      limit: 20,
+    },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    },
+  );
+
+  const redeliver = api.webhook.redeliver.useMutation({
+    onSuccess: (delivery) => {
+      if (delivery.status === "SUCCESS") {
+        showSuccess("重新投递成功");
+      } else {
+        showError(`重新投递失败：${delivery.error ?? "未知错误"}`);
+      }
+      void refetch();
+    },
+    onError: (error) => {
+      showError(error.message || "重新投递失败");
+    },
+  });
+
+  const deliveries = data?.pages.flatMap((page) => page.deliveries) ?? [];
+  const totalCount = data?.pages[0]?.totalCount ?? 0;
+
+  return (
+    <div className="mt-6 rounded-md border border-gray-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 border-b border-gray-200 px-4 py-3">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">
+            投递记录：{endpointName}
+          </h3>
+          <p className="mt-1 text-xs text-gray-500">
+            共 {totalCount} 条记录，保留最近 30 天
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={status}
+            onChange={(e) =>
+              setStatus(e.target.value as WebhookDeliveryStatus | "")
+            }
+            className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">全部状态</option>
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => void refetch()}
+            className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            刷新
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-md px-3 py-2 text-sm text-gray-500 hover:text-gray-700"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="px-4 py-8 text-center text-sm text-gray-500">
+          正在加载投递记录...
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="px-4 py-8 text-center text-sm text-gray-500">
+          暂无投递记录
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  事件
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  时间
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  状态
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  响应
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  尝试次数
+                </th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">
+                  操作
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {deliveries.map((delivery) => (
+                <Fragment key={delivery.id}>
+                  <tr>
+                    <td className="px-4 py-2 font-mono text-xs whitespace-nowrap text-gray-900">
+                      {delivery.event}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-600">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <DeliveryStatusBadge status={delivery.status} />
+                      {delivery.status === "PENDING" &&
+                        delivery.nextAttemptAt && (
+                          <div className="mt-1 text-xs text-gray-400">
+                            下次重试：
+                            {new Date(
+                              delivery.nextAttemptAt,
+                            ).toLocaleTimeString()}
+                          </div>
+                        )}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {delivery.responseStatus ?? "-"}
+                      <span className="ml-2 text-xs text-gray-400">
+                        {formatDuration(delivery.durationMs)}
+                      </span>
+                      {delivery.error && (
+                        <div className="text-xs text-red-600">
+                          {delivery.error}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-600">
+                      {delivery.attempts}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() =>
+                          setExpandedId(
+                            expandedId === delivery.id ? null : delivery.id,
+                          )
+                        }
+                        className="mr-3 text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        {expandedId === delivery.id ? "收起" : "详情"}
+                      </button>
+                      <button
+                        onClick={() => redeliver.mutate({ id: delivery.id })}
+                        disabled={redeliver.isPending}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        重新投递
+                      </button>
+                    </td>
+                  </tr>
+                  {expandedId === delivery.id && (
+                    <tr>
+                      <td colSpan={6} className="bg-gray-50 px-4 py-3">
+                        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+                          <div>
+                            <div className="mb-1 text-xs font-medium text-gray-500">
+                              请求体
+                            </div>
+                            <pre className="max-h-64 overflow-auto rounded bg-white p-2 text-xs text-gray-800">
+                              {formatPayload(delivery.payload)}
+                            </pre>
+                          </div>
+                          <div>
+                            <div className="mb-1 text-xs font-medium text-gray-500">
+                              响应内容
+                            </div>
+                            <pre className="max-h-64 overflow-auto rounded bg-white p-2 text-xs whitespace-pre-wrap text-gray-800">
+                              {delivery.responseBody ?? "-"}
+                            </pre>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div className="border-t border-gray-200 px-4 py-3 text-center">
+          <button
+            onClick={() => void fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {isFetchingNextPage ? "加载中..." : "加载更多"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,450 @@
+import { type FormEvent, useState } from "react";
+import { BoltIcon } from "@heroicons/react/24/outline";
+
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import WebhookDeliveryLog, {
+  DeliveryStatusBadge,
+} from "@/components/Settings/WebhookDeliveryLog";
+import { ConfirmModal } from "@/components/UI";
+import { useConfirm } from "@/hooks/useConfirm";
+import {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENTS,
+  type WebhookEvent,
+} from "@/server/api/schemas/webhook";
+import { api } from "@/utils/api";
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+}
+
+const EMPTY_FORM: WebhookForm = {
+  name: "",
+  url: "",
+  events: ["task.created", "task.status_changed"],
+  enabled: true,
+};
+
+const VERIFY_EXAMPLE = `const expected = "sha256=" + crypto
+  .createHmac("sha256", secret)
+  .update(\`\${timestamp}.\${rawBody}\`)
+  .digest("hex");`;
+
+export default function Webhooks() {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const { confirmState, showConfirm, hideConfirm } = useConfirm();
+  const [form, setForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [shownSecret, setShownSecret] = useState<{
+    name: string;
+    secret: string;
+  } | null>(null);
+  const [logEndpoint, setLogEndpoint] = useState<{
+    id: string;
+    name: string;
+  } | null>(null);
+
+  const utils = api.useContext();
+  const { data: webhooks, refetch } = api.webhook.list.useQuery();
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const createWebhook = api.webhook.create.useMutation({
+    onSuccess: (webhook) => {
+      setShownSecret({ name: webhook.name, secret: webhook.secret });
+      resetForm();
+      void refetch();
+    },
+    onError: (error) => {
+      showError(error.message || "创建 Webhook 失败");
+    },
+  });
+
+  const updateWebhook = api.webhook.update.useMutation({
+    onSuccess: () => {
+      showSuccess("Webhook 已更新");
+      resetForm();
+      void refetch();
+    },
+    onError: (error) => {
+      showError(error.message || "更新 Webhook 失败");
+    },
+  });
+
+  const deleteWebhook = api.webhook.delete.useMutation({
+    onSuccess: (_, { id }) => {
+      showSuccess("Webhook 已删除");
+      if (logEndpoint?.id === id) setLogEndpoint(null);
+      if (editingId === id) resetForm();
+      void refetch();
+    },
+    onError: (error) => {
+      showError(error.message || "删除 Webhook 失败");
+    },
+  });
+
+  const rotateSecret = api.webhook.rotateSecret.useMutation({
+    onError: (error) => {
+      showError(error.message || "轮换签名密钥失败");
+    },
+  });
+
+  const sendTest = api.webhook.sendTest.useMutation({
+    onSuccess: (delivery) => {
+      if (delivery.status === "SUCCESS") {
+        showSuccess(`测试事件已送达，响应状态 ${delivery.responseStatus}`);
+      } else {
+        showError(`测试事件发送失败：${delivery.error ?? "未知错误"}`);
+      }
+      void refetch();
+      void utils.webhook.getDeliveries.invalidate();
+    },
+    onError: (error) => {
+      showError(error.message || "发送测试事件失败");
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (editingId) {
+      updateWebhook.mutate({ id: editingId, ...form });
+    } else {
+      createWebhook.mutate(form);
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setForm({
+      ...form,
+      events: form.events.includes(event)
+        ? form.events.filter((item) => item !== event)
+        : [...form.events, event],
+    });
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    const confirmed = await showConfirm({
+      title: "删除 Webhook",
+      message: `确定要删除 Webhook「${name}」吗？\n\n投递记录会一并删除，等待重试的事件将不再发送。`,
+      confirmText: "删除",
+      cancelText: "取消",
+      type: "danger",
+    });
+
+    if (confirmed) {
+      deleteWebhook.mutate({ id });
+    }
+  };
+
+  const handleRotate = async (id: string, name: string) => {
+    const confirmed = await showConfirm({
+      title: "轮换签名密钥",
+      message: `确定要为「${name}」生成新的签名密钥吗？\n\n旧密钥立即失效，请同步更新接收方的校验配置。`,
+      confirmText: "轮换",
+      cancelText: "取消",
+      type: "warning",
+    });
+
+    if (confirmed) {
+      rotateSecret.mutate(
+        { id },
+        {
+          onSuccess: ({ secret }) => {
+            setShownSecret({ name, secret });
+            void refetch();
+          },
+        },
+      );
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shownSecret) return;
+    try {
+      await navigator.clipboard.writeText(shownSecret.secret);
+      showSuccess("已复制到剪贴板");
+    } catch {
+      showError("复制失败，请手动复制");
+    }
+  };
+
+  const isSaving = createWebhook.isPending || updateWebhook.isPending;
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center space-x-3">
+        <BoltIcon className="h-6 w-6 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Webhooks</h2>
+      </div>
+
+      <div className="mb-6 space-y-2 text-sm text-gray-500">
+        <p>
+          任务、笔记、日记发生变化时，系统会向配置的地址发送 JSON 格式的 POST
+          请求。响应 2xx 视为成功，失败后按指数退避自动重试，最多尝试 6 次。
+        </p>
+        <p>
+          每个请求带有{" "}
+          <code className="rounded bg-gray-100 px-1">X-Webhook-Timestamp</code>{" "}
+          和{" "}
+          <code className="rounded bg-gray-100 px-1">X-Webhook-Signature</code>{" "}
+          请求头，接收方可用签名密钥校验请求来源；同一事件重新投递时{" "}
+          <code className="rounded bg-gray-100 px-1">X-Webhook-Id</code>{" "}
+          不变，可据此去重：
+        </p>
+        <pre className="overflow-x-auto rounded bg-gray-100 p-3 text-xs text-gray-700">
+          {VERIFY_EXAMPLE}
+        </pre>
+      </div>
+
+      {/* 新的签名密钥，只显示一次 */}
+      {shownSecret && (
+        <div className="mb-6 rounded-md border border-green-200 bg-green-50 p-4">
+          <p className="mb-2 text-sm font-medium text-green-800">
+            「{shownSecret.name}
+            」的签名密钥，请立即复制保存，关闭后将无法再次查看
+          </p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 rounded bg-white px-2 py-1 text-sm break-all text-gray-900">
+              {shownSecret.secret}
+            </code>
+            <button
+              onClick={() => void handleCopy()}
+              className="rounded-md border border-gray-300 bg-white px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              复制
+            </button>
+            <button
+              onClick={() => setShownSecret(null)}
+              className="rounded-md px-3 py-1 text-sm text-gray-500 hover:text-gray-700"
+            >
+              关闭
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 创建/编辑 Webhook */}
+      <form
+        onSubmit={handleSubmit}
+        className="mb-8 space-y-4 rounded-md border border-gray-200 p-4"
+      >
+        <h3 className="text-sm font-medium text-gray-700">
+          {editingId ? "编辑 Webhook" : "添加 Webhook"}
+        </h3>
+        <div className="flex flex-wrap gap-4">
+          <input
+            type="text"
+            required
+            maxLength={50}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="名称，如：同步到团队看板"
+            className="block w-56 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+          <input
+            type="url"
+            required
+            maxLength={500}
+            value={form.url}
+            onChange={(e) => setForm({ ...form, url: e.target.value })}
+            placeholder="https://example.com/webhooks/gtd"
+            className="block min-w-0 flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {WEBHOOK_EVENTS.map((event) => (
+            <label
+              key={event}
+              className="flex items-center space-x-2 rounded-md bg-gray-50 px-3 py-2 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={form.events.includes(event)}
+                onChange={() => toggleEvent(event)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-700">
+                {WEBHOOK_EVENT_LABELS[event]}
+              </span>
+              <code className="text-xs text-gray-400">{event}</code>
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>启用</span>
+        </label>
+
+        <div className="flex items-center space-x-2">
+          <button
+            type="submit"
+            disabled={
+              isSaving ||
+              !form.name.trim() ||
+              !form.url.trim() ||
+              form.events.length === 0
+            }
+            className="inline-flex items-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSaving ? "保存中..." : editingId ? "保存" : "添加 Webhook"}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-md px-4 py-2 text-sm text-gray-500 hover:text-gray-700"
+            >
+              取消
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Webhook 列表 */}
+      {!webhooks || webhooks.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无 Webhook</p>
+      ) : (
+        <div className="space-y-3">
+          {webhooks.map((webhook) => (
+            <div
+              key={webhook.id}
+              className={`rounded-md border border-gray-200 p-4 ${
+                webhook.enabled ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">
+                      {webhook.name}
+                    </span>
+                    {!webhook.enabled && (
+                      <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                        已停用
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm break-all text-gray-600">
+                    {webhook.url}
+                  </div>
+                  <div className="mt-1 text-xs text-gray-500">
+                    {webhook.events
+                      .map(
+                        (event) =>
+                          WEBHOOK_EVENT_LABELS[event as WebhookEvent] ?? event,
+                      )
+                      .join("、")}
+                  </div>
+                  <div className="mt-1 flex items-center space-x-2 text-xs text-gray-500">
+                    <span>
+                      密钥：<code>{webhook.secretPreview}</code>
+                    </span>
+                    {webhook.lastDelivery && (
+                      <>
+                        <span>·</span>
+                        <span>
+                          最近投递：
+                          {new Date(
+                            webhook.lastDelivery.createdAt,
+                          ).toLocaleString()}
+                        </span>
+                        <DeliveryStatusBadge
+                          status={webhook.lastDelivery.status}
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <button
+                    onClick={() => sendTest.mutate({ id: webhook.id })}
+                    disabled={sendTest.isPending}
+                    className="font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    发送测试事件
+                  </button>
+                  <button
+                    onClick={() =>
+                      setLogEndpoint({ id: webhook.id, name: webhook.name })
+                    }
+                    className="text-gray-600 hover:text-gray-900"
+                  >
+                    投递记录
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingId(webhook.id);
+                      setForm({
+                        name: webhook.name,
+                        url: webhook.url,
+                        events: webhook.events.filter(
+                          (event): event is WebhookEvent =>
+                            (WEBHOOK_EVENTS as readonly string[]).includes(
+                              event,
+                            ),
+                        ),
+                        enabled: webhook.enabled,
+                      });
+                    }}
+                    className="text-gray-600 hover:text-gray-900"
+                  >
+                    编辑
+                  </button>
+                  <button
+                    onClick={() => void handleRotate(webhook.id, webhook.name)}
+                    disabled={rotateSecret.isPending}
+                    className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                  >
+                    轮换密钥
+                  </button>
+                  <button
+                    onClick={() => void handleDelete(webhook.id, webhook.name)}
+                    disabled={deleteWebhook.isPending}
+                    className="font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    删除
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {logEndpoint && (
+        <WebhookDeliveryLog
+          key={logEndpoint.id}
+          endpointId={logEndpoint.id}
+          endpointName={logEndpoint.name}
+          onClose={() => setLogEndpoint(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={confirmState.isOpen}
+        onClose={hideConfirm}
+        onConfirm={confirmState.onConfirm}
+        title={confirmState.title}
+        message={confirmState.message}
+        confirmText={confirmState.confirmText}
+        cancelText={confirmState.cancelText}
+        type={confirmState.type}
+        isLoading={confirmState.isLoading}
+      />
+    </div>
+  );
+}
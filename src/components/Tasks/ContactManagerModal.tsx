@@ -0,0 +1,316 @@
+import { Fragment, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { PencilIcon, TrashIcon, XMarkIcon } from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import { ConfirmModal } from "@/components/UI";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { useConfirm } from "@/hooks/useConfirm";
+
+interface ContactManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+interface ContactForm {
+  name: string;
+  email: string;
+  phone: string;
+  note: string;
+}
+
+const EMPTY_FORM: ContactForm = { name: "", email: "", phone: "", note: "" };
+
+/**
+ * 联系人管理：新建、编辑和删除等待对象
+ */
+export default function ContactManagerModal({
+  isOpen,
+  onClose,
+  onChanged,
+}: ContactManagerModalProps) {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const { confirmState, showConfirm, hideConfirm } = useConfirm();
+  const [form, setForm] = useState<ContactForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const utils = api.useContext();
+
+  const { data: contacts, isLoading } = api.contact.getAll.useQuery(undefined, {
+    enabled: isOpen,
+  });
+
+  const handleChanged = () => {
+    void utils.contact.getAll.invalidate();
+    onChanged?.();
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const createContact = api.contact.create.useMutation({
+    onSuccess: () => {
+      showSuccess("联系人已创建");
+      resetForm();
+      handleChanged();
+    },
+    onError: (error) => showError(error.message ?? "创建联系人失败"),
+  });
+
+  const updateContact = api.contact.update.useMutation({
+    onSuccess: () => {
+      showSuccess("联系人已更新");
+      resetForm();
+      handleChanged();
+    },
+    onError: (error) => showError(error.message ?? "更新联系人失败"),
+  });
+
+  const deleteContact = api.contact.delete.useMutation({
+    onSuccess: (data) => {
+      showSuccess(data.message);
+      if (editingId) resetForm();
+      handleChanged();
+    },
+    onError: (error) => showError(error.message ?? "删除联系人失败"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    if (editingId) {
+      updateContact.mutate({
+        id: editingId,
+        name: form.name.trim(),
+        email: form.email.trim() || null,
+        phone: form.phone.trim() || null,
+        note: form.note.trim() || null,
+      });
+    } else {
+      createContact.mutate({
+        name: form.name.trim(),
+        email: form.email.trim() || undefined,
+        phone: form.phone.trim() || undefined,
+        note: form.note.trim() || undefined,
+      });
+    }
+  };
+
+  const handleDelete = async (id: string, name: string, waiting: number) => {
+    const confirmed = await showConfirm({
+      title: "删除联系人",
+      message:
+        waiting > 0
+          ? `确定要删除联系人「${name}」吗？\n\n有 ${waiting} 个等待中的任务指定了此联系人，删除后这些任务的等待对象会被清空。`
+          : `确定要删除联系人「${name}」吗？`,
+      confirmText: "删除",
+      cancelText: "取消",
+      type: "danger",
+    });
+
+    if (confirmed) {
+      deleteContact.mutate({ id });
+    }
+  };
+
+  const isSaving = createContact.isPending || updateContact.isPending;
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="bg-opacity-25 fixed inset-0 bg-black" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                {/* 标题栏 */}
+                <div className="mb-4 flex items-center justify-between">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg leading-6 font-medium text-gray-900"
+                  >
+                    管理联系人
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md text-gray-400 hover:text-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {/* 联系人列表 */}
+                <div className="mb-4 max-h-64 overflow-y-auto rounded-md border border-gray-200">
+                  {isLoading ? (
+                    <p className="p-4 text-center text-sm text-gray-500">
+                      加载联系人中...
+                    </p>
+                  ) : contacts && contacts.length > 0 ? (
+                    <ul className="divide-y divide-gray-100">
+                      {contacts.map((contact) => (
+                        <li
+                          key={contact.id}
+                          className={`flex items-center justify-between gap-2 px-3 py-2 ${
+                            editingId === contact.id ? "bg-blue-50" : ""
+                          }`}
+                        >
+                          <div className="min-w-0">
+                            <p className="truncate text-sm font-medium text-gray-900">
+                              {contact.name}
+                            </p>
+                            <p className="truncate text-xs text-gray-500">
+                              {[contact.email, contact.phone]
+                                .filter(Boolean)
+                                .join(" · ") || "无联系方式"}
+                              {` · 等待中 ${contact._count.waitingTasks}`}
+                            </p>
+                          </div>
+                          <div className="flex flex-shrink-0 items-center gap-1">
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setEditingId(contact.id);
+                                setForm({
+                                  name: contact.name,
+                                  email: contact.email ?? "",
+                                  phone: contact.phone ?? "",
+                                  note: contact.note ?? "",
+                                });
+                              }}
+                              className="rounded-md p-1.5 text-gray-400 hover:bg-blue-100 hover:text-blue-600"
+                              title="编辑"
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                void handleDelete(
+                                  contact.id,
+                                  contact.name,
+                                  contact._count.waitingTasks,
+                                )
+                              }
+                              disabled={deleteContact.isPending}
+                              className="rounded-md p-1.5 text-gray-400 hover:bg-red-100 hover:text-red-600 disabled:opacity-50"
+                              title="删除"
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="p-4 text-center text-sm text-gray-500">
+                      还没有联系人
+                    </p>
+                  )}
+                </div>
+
+                {/* 新建/编辑表单 */}
+                <form onSubmit={handleSubmit} className="space-y-3">
+                  <h4 className="text-sm font-medium text-gray-700">
+                    {editingId ? "编辑联系人" : "新建联系人"}
+                  </h4>
+                  <input
+                    type="text"
+                    required
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    maxLength={100}
+                    placeholder="姓名 *"
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                  <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                    <input
+                      type="email"
+                      value={form.email}
+                      onChange={(e) =>
+                        setForm({ ...form, email: e.target.value })
+                      }
+                      placeholder="邮箱"
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={form.phone}
+                      onChange={(e) =>
+                        setForm({ ...form, phone: e.target.value })
+                      }
+                      maxLength={50}
+                      placeholder="电话"
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <input
+                    type="text"
+                    value={form.note}
+                    onChange={(e) => setForm({ ...form, note: e.target.value })}
+                    maxLength={500}
+                    placeholder="备注"
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+
+                  <div className="flex justify-end space-x-3 pt-2">
+                    {editingId && (
+                      <button
+                        type="button"
+                        onClick={resetForm}
+                        className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                      >
+                        取消编辑
+                      </button>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={isSaving || !form.name.trim()}
+                      className="rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {isSaving ? "保存中..." : editingId ? "保存" : "添加"}
+                    </button>
+                  </div>
+                </form>
+
+                <ConfirmModal
+                  isOpen={confirmState.isOpen}
+                  onClose={hideConfirm}
+                  onConfirm={confirmState.onConfirm}
+                  title={confirmState.title}
+                  message={confirmState.message}
+                  confirmText={confirmState.confirmText}
+                  cancelText={confirmState.cancelText}
+                  type={confirmState.type}
+                  isLoading={confirmState.isLoading}
+                />
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+
+import { api } from "@/utils/api";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+
+interface ContactSelectProps {
+  id?: string;
+  value?: string;
+  onChange: (contactId: string | undefined) => void;
+  disabled?: boolean;
+}
+
+// 选择该项时切换为新建联系人输入框
+const CREATE_OPTION = "__create__";
+
+/**
+ * 等待对象选择器：从联系人中选择，也可以直接新建联系人
+ */
+export default function ContactSelect({
+  id,
+  value,
+  onChange,
+  disabled = false,
+}: ContactSelectProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState("");
+  const { showError } = useGlobalNotifications();
+  const utils = api.useContext();
+
+  const { data: contacts, isLoading } = api.contact.getAll.useQuery();
+
+  const createContact = api.contact.create.useMutation({
+    onSuccess: (contact) => {
+      void utils.contact.getAll.invalidate();
+      onChange(contact.id);
+      setIsCreating(false);
+      setNewName("");
+    },
+    onError: (error) => {
+      showError(`创建联系人失败: ${error.message}`);
+    },
+  });
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    createContact.mutate({ name });
+  };
+
+  if (isCreating) {
+    return (
+      <div className="mt-1 flex gap-2">
+        <input
+          id={id}
+          type="text"
+          autoFocus
+          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleCreate();
+            } else if (e.key === "Escape") {
+              e.preventDefault();
+              setIsCreating(false);
+            }
+          }}
+          placeholder="输入联系人姓名..."
+          maxLength={100}
+        />
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={!newName.trim() || createContact.isPending}
+          className="flex-shrink-0 rounded-md bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          添加
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsCreating(false)}
+          className="flex-shrink-0 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          取消
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <select
+      id={id}
+      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+      value={value ?? ""}
+      disabled={disabled || isLoading}
+      onChange={(e) => {
+        if (e.target.value === CREATE_OPTION) {
+          setIsCreating(true);
+          return;
+        }
+        onChange(e.target.value || undefined);
+      }}
+    >
+      <option value="">{isLoading ? "加载联系人中..." : "未指定"}</option>
+      {contacts?.map((contact) => (
+        <option key={contact.id} value={contact.id}>
+          {contact.name}
+        </option>
+      ))}
+      <option value={CREATE_OPTION}>+ 新建联系人...</option>
+    </select>
+  );
+}
@@ -0,0 +1,257 @@
+import { Fragment, useState, useEffect } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { api } from "@/utils/api";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { getLocalDateString } from "@/utils/timezone";
+
+interface DeferTaskModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  taskId: string;
+  taskTitle: string;
+  currentDeferUntil?: Date | null;
+  onSuccess?: () => void;
+}
+
+// 快捷推迟选项，返回推迟到的日期
+const quickOptions: Array<{ label: string; getDate: () => Date }> = [
+  {
+    label: "明天",
+    getDate: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 1);
+      return date;
+    },
+  },
+  {
+    label: "3天后",
+    getDate: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 3);
+      return date;
+    },
+  },
+  {
+    label: "下周一",
+    getDate: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7));
+      return date;
+    },
+  },
+  {
+    label: "下个月",
+    getDate: () => {
+      const date = new Date();
+      date.setMonth(date.getMonth() + 1, 1);
+      return date;
+    },
+  },
+];
+
+export default function DeferTaskModal({
+  isOpen,
+  onClose,
+  taskId,
+  taskTitle,
+  currentDeferUntil,
+  onSuccess,
+}: DeferTaskModalProps) {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const [selectedDate, setSelectedDate] = useState<string>("");
+  const [selectedQuickOption, setSelectedQuickOption] = useState<number | null>(
+    null,
+  );
+
+  // 推迟任务 mutation
+  const deferTask = api.task.defer.useMutation({
+    onSuccess: (data) => {
+      showSuccess(data.message);
+      onSuccess?.();
+      onClose();
+    },
+    onError: (error) => {
+      showError(error.message ?? "推迟任务失败");
+    },
+  });
+
+  // 初始化表单数据，默认推迟到明天
+  useEffect(() => {
+    if (isOpen) {
+      if (currentDeferUntil) {
+        setSelectedDate(getLocalDateString(new Date(currentDeferUntil)));
+        setSelectedQuickOption(null);
+      } else {
+        setSelectedDate(getLocalDateString(quickOptions[0]!.getDate()));
+        setSelectedQuickOption(0);
+      }
+    }
+  }, [isOpen, currentDeferUntil]);
+
+  const handleQuickDefer = (optionIndex: number) => {
+    const option = quickOptions[optionIndex];
+    if (!option) return;
+    setSelectedDate(getLocalDateString(option.getDate()));
+    setSelectedQuickOption(optionIndex);
+  };
+
+  const handleManualDateChange = (value: string) => {
+    setSelectedDate(value);
+    setSelectedQuickOption(null);
+  };
+
+  // 处理提交
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedDate) {
+      showError("请选择推迟日期");
+      return;
+    }
+
+    // 推迟到所选日期的当天开始
+    const deferUntil = new Date(`${selectedDate}T00:00:00`);
+    if (deferUntil <= new Date()) {
+      showError("推迟日期需要晚于今天");
+      return;
+    }
+
+    deferTask.mutate({ id: taskId, deferUntil });
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="bg-opacity-25 fixed inset-0 bg-black" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                {/* 标题栏 */}
+                <div className="mb-4 flex items-center justify-between">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg leading-6 font-medium text-gray-900"
+                  >
+                    推迟任务
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md text-gray-400 hover:text-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {/* 任务信息 */}
+                <div className="mb-4 rounded-lg bg-gray-50 p-3">
+                  <h4 className="mb-2 font-medium text-gray-900">
+                    {taskTitle}
+                  </h4>
+                  <p className="text-sm text-gray-600">
+                    推迟期间任务不会出现在下一步行动、看板和首页，到期后自动重新出现
+                  </p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {/* 快捷推迟选项 */}
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700">
+                      快捷推迟
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {quickOptions.map((option, index) => (
+                        <button
+                          key={option.label}
+                          type="button"
+                          onClick={() => handleQuickDefer(index)}
+                          className={`rounded-md border px-3 py-2 text-sm transition-colors focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                            selectedQuickOption === index
+                              ? "border-blue-500 bg-blue-100 text-blue-800 shadow-sm"
+                              : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* 自定义日期 */}
+                  <div>
+                    <label
+                      htmlFor="deferUntil"
+                      className="mb-1 block text-sm font-medium text-gray-700"
+                    >
+                      推迟到 *
+                    </label>
+                    <input
+                      type="date"
+                      id="deferUntil"
+                      value={selectedDate}
+                      min={getLocalDateString(quickOptions[0]!.getDate())}
+                      onChange={(e) => handleManualDateChange(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                      required
+                    />
+                  </div>
+
+                  {/* 操作按钮 */}
+                  <div className="flex justify-end space-x-3 pt-4">
+                    {currentDeferUntil && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          deferTask.mutate({ id: taskId, deferUntil: null })
+                        }
+                        disabled={deferTask.isPending}
+                        className="mr-auto rounded-md px-4 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                      >
+                        立即显示
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    >
+                      取消
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={deferTask.isPending || !selectedDate}
+                      className="rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {deferTask.isPending ? "推迟中..." : "确认推迟"}
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,251 @@
+import { Fragment, useState, useEffect } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { api } from "@/utils/api";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { getLocalDateString } from "@/utils/timezone";
+
+interface FollowUpModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  taskId: string;
+  taskTitle: string;
+  waitingForName?: string | null;
+  onSuccess?: () => void;
+}
+
+// 下一次跟进的快捷选项
+const quickOptions: Array<{ label: string; days: number }> = [
+  { label: "明天", days: 1 },
+  { label: "3天后", days: 3 },
+  { label: "下周", days: 7 },
+  { label: "两周后", days: 14 },
+];
+
+const getDateAfterDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+/**
+ * 记录一次跟进，并安排下一次跟进日期或结束跟进
+ */
+export default function FollowUpModal({
+  isOpen,
+  onClose,
+  taskId,
+  taskTitle,
+  waitingForName,
+  onSuccess,
+}: FollowUpModalProps) {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const [selectedDate, setSelectedDate] = useState<string>("");
+  const [selectedQuickOption, setSelectedQuickOption] = useState<number | null>(
+    null,
+  );
+  const [note, setNote] = useState("");
+
+  const recordFollowUp = api.task.recordFollowUp.useMutation({
+    onSuccess: (data) => {
+      showSuccess(data.message);
+      onSuccess?.();
+      onClose();
+    },
+    onError: (error) => {
+      showError(error.message ?? "记录跟进失败");
+    },
+  });
+
+  // 打开时默认安排在3天后再次跟进
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedDate(getLocalDateString(getDateAfterDays(3)));
+      setSelectedQuickOption(1);
+      setNote("");
+    }
+  }, [isOpen]);
+
+  const handleQuickOption = (optionIndex: number) => {
+    const option = quickOptions[optionIndex];
+    if (!option) return;
+    setSelectedDate(getLocalDateString(getDateAfterDays(option.days)));
+    setSelectedQuickOption(optionIndex);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedDate) {
+      showError("请选择下次跟进日期");
+      return;
+    }
+
+    recordFollowUp.mutate({
+      id: taskId,
+      nextFollowUpAt: new Date(`${selectedDate}T00:00:00`),
+      note: note.trim() || undefined,
+    });
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="bg-opacity-25 fixed inset-0 bg-black" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                {/* 标题栏 */}
+                <div className="mb-4 flex items-center justify-between">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg leading-6 font-medium text-gray-900"
+                  >
+                    记录跟进
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md text-gray-400 hover:text-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {/* 任务信息 */}
+                <div className="mb-4 rounded-lg bg-gray-50 p-3">
+                  <h4 className="mb-2 font-medium text-gray-900">
+                    {taskTitle}
+                  </h4>
+                  <p className="text-sm text-gray-600">
+                    {waitingForName
+                      ? `已联系 ${waitingForName}？安排下一次跟进的日期`
+                      : "已跟进这件事？安排下一次跟进的日期"}
+                  </p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {/* 快捷选项 */}
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-gray-700">
+                      下次跟进
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {quickOptions.map((option, index) => (
+                        <button
+                          key={option.label}
+                          type="button"
+                          onClick={() => handleQuickOption(index)}
+                          className={`rounded-md border px-3 py-2 text-sm transition-colors focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                            selectedQuickOption === index
+                              ? "border-blue-500 bg-blue-100 text-blue-800 shadow-sm"
+                              : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* 自定义日期 */}
+                  <div>
+                    <label
+                      htmlFor="nextFollowUpAt"
+                      className="mb-1 block text-sm font-medium text-gray-700"
+                    >
+                      跟进日期 *
+                    </label>
+                    <input
+                      type="date"
+                      id="nextFollowUpAt"
+                      value={selectedDate}
+                      min={getLocalDateString(getDateAfterDays(1))}
+                      onChange={(e) => {
+                        setSelectedDate(e.target.value);
+                        setSelectedQuickOption(null);
+                      }}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                      required
+                    />
+                  </div>
+
+                  {/* 跟进备注 */}
+                  <div>
+                    <label
+                      htmlFor="followUpNote"
+                      className="mb-1 block text-sm font-medium text-gray-700"
+                    >
+                      备注
+                    </label>
+                    <textarea
+                      id="followUpNote"
+                      rows={2}
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      maxLength={500}
+                      placeholder="例如：已发邮件催促，对方说周五前回复"
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                  </div>
+
+                  {/* 操作按钮 */}
+                  <div className="flex justify-end space-x-3 pt-4">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        recordFollowUp.mutate({
+                          id: taskId,
+                          nextFollowUpAt: null,
+                          note: note.trim() || undefined,
+                        })
+                      }
+                      disabled={recordFollowUp.isPending}
+                      className="mr-auto rounded-md px-4 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                    >
+                      结束跟进
+                    </button>
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    >
+                      取消
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={recordFollowUp.isPending || !selectedDate}
+                      className="rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {recordFollowUp.isPending ? "保存中..." : "确认跟进"}
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
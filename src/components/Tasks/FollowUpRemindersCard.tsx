@@ -0,0 +1,72 @@
+import Link from "next/link";
+import { BellAlertIcon } from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+
+// 首页显示的跟进提醒数量
+const PREVIEW_LIMIT = 5;
+
+interface FollowUpRemindersCardProps {
+  enabled?: boolean;
+}
+
+/**
+ * 首页等待跟进提醒：跟进日期已到的等待任务，没有提醒时不显示
+ */
+export default function FollowUpRemindersCard({
+  enabled = true,
+}: FollowUpRemindersCardProps) {
+  const { data: reminders } = api.task.getFollowUpReminders.useQuery(
+    undefined,
+    {
+      enabled,
+      staleTime: 5 * 60 * 1000, // 5分钟内不重新获取
+      refetchOnWindowFocus: false,
+    },
+  );
+
+  if (!reminders || reminders.length === 0) return null;
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-red-200 bg-red-50 shadow">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="mb-4 flex items-center text-lg font-medium text-gray-900">
+          <BellAlertIcon className="mr-2 h-5 w-5 text-red-500" />
+          需要跟进
+          <span className="ml-2 rounded-full bg-red-100 px-2 py-0.5 text-xs font-normal text-red-800">
+            {reminders.length}
+          </span>
+        </h3>
+
+        <ul className="divide-y divide-red-100">
+          {reminders.slice(0, PREVIEW_LIMIT).map((task) => (
+            <li
+              key={task.id}
+              className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm"
+            >
+              <span className="min-w-0 truncate font-medium text-gray-900">
+                {task.title}
+              </span>
+              <span className="flex-shrink-0 text-xs text-gray-600">
+                {task.waitingFor ? `等待 ${task.waitingFor.name} · ` : ""}
+                跟进日期{" "}
+                {task.followUpAt
+                  ? new Date(task.followUpAt).toLocaleDateString("zh-CN")
+                  : "-"}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-4">
+          <Link
+            href="/tasks/waiting"
+            className="text-sm font-medium text-red-700 hover:text-red-600"
+          >
+            前往等待清单跟进 →
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
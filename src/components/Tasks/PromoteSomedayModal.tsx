@@ -0,0 +1,153 @@
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { api } from "@/utils/api";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+
+interface PromoteSomedayModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  taskId: string;
+  taskTitle: string;
+  currentProjectId?: string | null;
+  onSuccess?: () => void;
+}
+
+export default function PromoteSomedayModal({
+  isOpen,
+  onClose,
+  taskId,
+  taskTitle,
+  currentProjectId,
+  onSuccess,
+}: PromoteSomedayModalProps) {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const [projectId, setProjectId] = useState<string>("");
+
+  const { data: projects, isLoading: isLoadingProjects } =
+    api.project.getAll.useQuery({ limit: 50 }, { enabled: isOpen });
+
+  // 转为待办 mutation
+  const promoteTask = api.someday.promote.useMutation({
+    onSuccess: (data) => {
+      showSuccess(data.message);
+      onSuccess?.();
+      onClose();
+    },
+    onError: (error) => {
+      showError(error.message ?? "转为待办失败");
+    },
+  });
+
+  // 初始化为当前项目
+  useEffect(() => {
+    if (isOpen) {
+      setProjectId(currentProjectId ?? "");
+    }
+  }, [isOpen, currentProjectId]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    promoteTask.mutate({ id: taskId, projectId: projectId || null });
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="bg-opacity-25 fixed inset-0 bg-black" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                {/* 标题栏 */}
+                <div className="mb-4 flex items-center justify-between">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg leading-6 font-medium text-gray-900"
+                  >
+                    转为待办
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md text-gray-400 hover:text-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {/* 任务信息 */}
+                <div className="mb-4 rounded-lg bg-gray-50 p-3">
+                  <h4 className="font-medium text-gray-900">{taskTitle}</h4>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {/* 项目选择 */}
+                  <div>
+                    <label
+                      htmlFor="promoteProjectId"
+                      className="mb-1 block text-sm font-medium text-gray-700"
+                    >
+                      所属项目
+                    </label>
+                    <select
+                      id="promoteProjectId"
+                      value={projectId}
+                      onChange={(e) => setProjectId(e.target.value)}
+                      disabled={isLoadingProjects}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    >
+                      <option value="">无项目</option>
+                      {projects?.projects.map((project) => (
+                        <option key={project.id} value={project.id}>
+                          {project.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* 操作按钮 */}
+                  <div className="flex justify-end space-x-3 pt-4">
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    >
+                      取消
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={promoteTask.isPending}
+                      className="rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {promoteTask.isPending ? "转换中..." : "转为待办"}
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
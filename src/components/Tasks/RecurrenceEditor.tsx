@@ -0,0 +1,378 @@
+import React, { useMemo } from "react";
+
+import {
+  describeRule,
+  formatDateOnly,
+  getOccurrences,
+  parseDateOnly,
+  patternToRule,
+  type RecurringPattern,
+  toUTCDay,
+  validateRRule,
+} from "@/utils/recurrence";
+
+interface RecurrenceEditorProps {
+  value: RecurringPattern | null;
+  onChange: (pattern: RecurringPattern | null) => void;
+  startDate?: string; // 表单中的截止日期（YYYY-MM-DD），作为预览起点
+}
+
+const RECURRENCE_TYPES: Array<{
+  value: RecurringPattern["type"];
+  label: string;
+}> = [
+  { value: "daily", label: "天" },
+  { value: "weekly", label: "周" },
+  { value: "monthly", label: "月" },
+  { value: "yearly", label: "年" },
+  { value: "custom", label: "自定义 RRULE" },
+];
+
+const WEEKDAYS = [
+  { value: 1, label: "一" },
+  { value: 2, label: "二" },
+  { value: 3, label: "三" },
+  { value: 4, label: "四" },
+  { value: 5, label: "五" },
+  { value: 6, label: "六" },
+  { value: 0, label: "日" },
+];
+
+const WEEK_ORDINALS = [
+  { value: 1, label: "第一个" },
+  { value: 2, label: "第二个" },
+  { value: 3, label: "第三个" },
+  { value: 4, label: "第四个" },
+  { value: -1, label: "最后一个" },
+];
+
+const PREVIEW_COUNT = 10;
+
+const DEFAULT_PATTERN: RecurringPattern = {
+  type: "weekly",
+  interval: 1,
+  mode: "fixed",
+};
+
+export default function RecurrenceEditor({
+  value,
+  onChange,
+  startDate,
+}: RecurrenceEditorProps) {
+  const update = (changes: Partial<RecurringPattern>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const rruleError =
+    value?.type === "custom" ? validateRRule(value.rrule ?? "") : null;
+
+  // 预览接下来的发生日期
+  const preview = useMemo(() => {
+    if (!value || rruleError) return null;
+
+    try {
+      const start =
+        parseDateOnly(value.startDate ?? startDate ?? "") ??
+        toUTCDay(new Date());
+      const rule = patternToRule(value, start);
+      return {
+        description: describeRule(rule),
+        dates: getOccurrences(rule, start, { limit: PREVIEW_COUNT }),
+      };
+    } catch {
+      return null;
+    }
+  }, [value, rruleError, startDate]);
+
+  const endType =
+    value?.count !== undefined ? "count" : value?.until ? "until" : "never";
+  const monthlyByWeekday =
+    value?.type === "monthly" && value.weekOfMonth !== undefined;
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_PATTERN : null)}
+        />
+        重复任务
+      </label>
+
+      {value && (
+        <div className="space-y-3 rounded-md border border-gray-200 p-4">
+          {/* 频率 */}
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span>每</span>
+            {value.type !== "custom" && (
+              <input
+                type="number"
+                min={1}
+                max={365}
+                className="w-20 rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                value={value.interval}
+                onChange={(e) =>
+                  update({
+                    interval: Math.min(
+                      365,
+                      Math.max(1, Number(e.target.value) || 1),
+                    ),
+                  })
+                }
+              />
+            )}
+            <select
+              className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              value={value.type}
+              onChange={(e) =>
+                onChange({
+                  type: e.target.value as RecurringPattern["type"],
+                  interval: value.interval,
+                  mode: value.mode,
+                  count: value.count,
+                  until: value.until,
+                  startDate: value.startDate,
+                })
+              }
+            >
+              {RECURRENCE_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 每周：选择星期 */}
+          {value.type === "weekly" && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((weekday) => {
+                const selected = value.daysOfWeek?.includes(weekday.value);
+                return (
+                  <button
+                    key={weekday.value}
+                    type="button"
+                    className={`h-8 w-8 rounded-full text-sm ${
+                      selected
+                        ? "bg-blue-600 text-white"
+                        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                    onClick={() =>
+                      update({
+                        daysOfWeek: selected
+                          ? value.daysOfWeek?.filter(
+                              (day) => day !== weekday.value,
+                            )
+                          : [...(value.daysOfWeek ?? []), weekday.value],
+                      })
+                    }
+                  >
+                    {weekday.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* 每月：按日期或按星期 */}
+          {value.type === "monthly" && (
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={!monthlyByWeekday}
+                  onChange={() =>
+                    update({
+                      weekOfMonth: undefined,
+                      daysOfWeek: undefined,
+                      dayOfMonth: value.dayOfMonth ?? 1,
+                    })
+                  }
+                />
+                每月第
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  disabled={monthlyByWeekday}
+                  className="w-20 rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+                  value={value.dayOfMonth ?? 1}
+                  onChange={(e) =>
+                    update({
+                      dayOfMonth: Math.min(
+                        31,
+                        Math.max(1, Number(e.target.value) || 1),
+                      ),
+                    })
+                  }
+                />
+                天
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={monthlyByWeekday}
+                  onChange={() =>
+                    update({
+                      dayOfMonth: undefined,
+                      weekOfMonth: 1,
+                      daysOfWeek: [1],
+                    })
+                  }
+                />
+                每月
+                <select
+                  disabled={!monthlyByWeekday}
+                  className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+                  value={value.weekOfMonth ?? 1}
+                  onChange={(e) =>
+                    update({ weekOfMonth: Number(e.target.value) })
+                  }
+                >
+                  {WEEK_ORDINALS.map((ordinal) => (
+                    <option key={ordinal.value} value={ordinal.value}>
+                      {ordinal.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  disabled={!monthlyByWeekday}
+                  className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+                  value={value.daysOfWeek?.[0] ?? 1}
+                  onChange={(e) =>
+                    update({ daysOfWeek: [Number(e.target.value)] })
+                  }
+                >
+                  {WEEKDAYS.map((weekday) => (
+                    <option key={weekday.value} value={weekday.value}>
+                      周{weekday.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {/* 自定义 RRULE */}
+          {value.type === "custom" && (
+            <div>
+              <input
+                type="text"
+                className={`block w-full rounded-md font-mono text-sm shadow-sm ${
+                  rruleError
+                    ? "border-red-300 focus:border-red-500 focus:ring-red-500"
+                    : "border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+                }`}
+                placeholder="例如 FREQ=MONTHLY;BYDAY=-1FR"
+                value={value.rrule ?? ""}
+                onChange={(e) => update({ rrule: e.target.value })}
+              />
+              {rruleError && (
+                <p className="mt-1 text-xs text-red-600">{rruleError}</p>
+              )}
+            </div>
+          )}
+
+          {/* 重复方式 */}
+          <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={value.mode !== "afterCompletion"}
+                onChange={() => update({ mode: "fixed" })}
+              />
+              按固定日程
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={value.mode === "afterCompletion"}
+                onChange={() => update({ mode: "afterCompletion" })}
+              />
+              完成后再开始计算
+            </label>
+          </div>
+
+          {/* 结束条件 */}
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span>结束：</span>
+            <select
+              className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              value={endType}
+              onChange={(e) =>
+                update({
+                  count: e.target.value === "count" ? 10 : undefined,
+                  until:
+                    e.target.value === "until"
+                      ? formatDateOnly(toUTCDay(new Date()))
+                      : undefined,
+                })
+              }
+            >
+              <option value="never">永不</option>
+              <option value="count">重复次数</option>
+              <option value="until">截止日期</option>
+            </select>
+            {endType === "count" && (
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                className="w-24 rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                value={value.count}
+                onChange={(e) =>
+                  update({
+                    count: Math.min(
+                      1000,
+                      Math.max(1, Number(e.target.value) || 1),
+                    ),
+                  })
+                }
+              />
+            )}
+            {endType === "until" && (
+              <input
+                type="date"
+                className="rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                value={value.until}
+                onChange={(e) => update({ until: e.target.value })}
+              />
+            )}
+          </div>
+
+          {/* 预览 */}
+          {preview && (
+            <div className="rounded-md bg-gray-50 p-3 text-xs text-gray-600">
+              <p className="font-medium text-gray-700">{preview.description}</p>
+              {value.mode === "afterCompletion" && (
+                <p className="mt-1 text-gray-500">
+                  下一次日期从实际完成日期起算，以下按每次都在到期日完成估算
+                </p>
+              )}
+              {preview.dates.length > 0 ? (
+                <ol className="mt-2 grid grid-cols-2 gap-1">
+                  {preview.dates.map((date, index) => (
+                    <li key={date.getTime()}>
+                      {index + 1}.{" "}
+                      {date.toLocaleDateString("zh-CN", {
+                        timeZone: "UTC",
+                        year: "numeric",
+                        month: "2-digit",
+                        day: "2-digit",
+                        weekday: "short",
+                      })}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="mt-2">没有后续的发生日期</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import Link from "next/link";
+import { useRouter } from "next/router";
+import {
+  ListBulletIcon,
+  SparklesIcon,
+  ViewColumnsIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { type SmartListView } from "@prisma/client";
+
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { api } from "@/utils/api";
+import { formatSearchQuery } from "@/utils/search-query";
+
+interface SmartListHeaderProps {
+  smartListId: string;
+  view: SmartListView;
+  totalCount?: number;
+}
+
+// 智能列表信息栏：在任务列表和看板中显示当前智能列表，并支持切换默认视图
+export default function SmartListHeader({
+  smartListId,
+  view,
+  totalCount,
+}: SmartListHeaderProps) {
+  const router = useRouter();
+  const { showError } = useGlobalNotifications();
+  const utils = api.useContext();
+
+  const { data: smartList, error } = api.search.getSavedSearchById.useQuery(
+    { id: smartListId },
+    { staleTime: 5 * 60 * 1000 },
+  );
+
+  // 用于将标签和项目 ID 显示为名称
+  const { data: tagsData } = api.tag.getAll.useQuery(
+    { limit: 100 },
+    { staleTime: 5 * 60 * 1000 },
+  );
+  const { data: projectsData } = api.project.getAll.useQuery(
+    { limit: 100 },
+    { staleTime: 5 * 60 * 1000 },
+  );
+
+  const updateSmartList = api.search.updateSmartList.useMutation({
+    onSuccess: () => {
+      void utils.search.getSmartLists.invalidate();
+      void utils.search.getSavedSearchById.invalidate({ id: smartListId });
+    },
+    onError: (err) => {
+      showError(err.message || "更新智能列表失败");
+    },
+  });
+
+  // 切换视图，同时记住为该智能列表的默认视图
+  const switchView = (viewMode: SmartListView) => {
+    if (viewMode === view) return;
+    if (smartList?.viewMode !== viewMode) {
+      updateSmartList.mutate({ id: smartListId, viewMode });
+    }
+    void router.push(
+      viewMode === "KANBAN"
+        ? `/tasks/kanban?smartList=${smartListId}`
+        : `/tasks?smartList=${smartListId}`,
+    );
+  };
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+        <span>{error.message}</span>
+        <Link
+          href={view === "KANBAN" ? "/tasks/kanban" : "/tasks"}
+          className="font-medium hover:text-red-900"
+        >
+          查看全部任务
+        </Link>
+      </div>
+    );
+  }
+
+  const queryString = smartList
+    ? formatSearchQuery(smartList.searchParams, {
+        tags: tagsData?.tags,
+        projects: projectsData?.projects,
+      })
+    : "";
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <SparklesIcon className="h-5 w-5 flex-shrink-0 text-blue-500" />
+          <span className="truncate font-medium text-blue-900">
+            {smartList?.name ?? "智能列表"}
+          </span>
+          {totalCount !== undefined && (
+            <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800">
+              {totalCount} 个任务
+            </span>
+          )}
+        </div>
+        {smartList?.description && (
+          <p className="mt-1 text-sm text-blue-800">{smartList.description}</p>
+        )}
+        {queryString && (
+          <code className="mt-1 block truncate text-xs text-blue-700">
+            {queryString}
+          </code>
+        )}
+      </div>
+
+      <div className="flex flex-shrink-0 items-center gap-2">
+        <div className="flex rounded-md shadow-sm">
+          <button
+            onClick={() => switchView("LIST")}
+            className={`rounded-l-md border px-3 py-1.5 text-sm font-medium ${
+              view === "LIST"
+                ? "border-blue-300 bg-white text-blue-700"
+                : "border-gray-300 bg-white text-gray-500 hover:bg-gray-50"
+            }`}
+            title="列表视图"
+          >
+            <ListBulletIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => switchView("KANBAN")}
+            className={`rounded-r-md border-t border-r border-b px-3 py-1.5 text-sm font-medium ${
+              view === "KANBAN"
+                ? "border-blue-300 bg-white text-blue-700"
+                : "border-gray-300 bg-white text-gray-500 hover:bg-gray-50"
+            }`}
+            title="看板视图"
+          >
+            <ViewColumnsIcon className="h-4 w-4" />
+          </button>
+        </div>
+        <Link
+          href="/search/saved"
+          className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          编辑
+        </Link>
+        <Link
+          href={view === "KANBAN" ? "/tasks/kanban" : "/tasks"}
+          className="rounded-md p-1.5 text-blue-400 hover:bg-blue-100 hover:text-blue-600"
+          title="退出智能列表"
+        >
+          <XMarkIcon className="h-5 w-5" />
+        </Link>
+      </div>
+    </div>
+  );
+}
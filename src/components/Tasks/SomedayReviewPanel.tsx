@@ -0,0 +1,141 @@
+import { useState } from "react";
+import Link from "next/link";
+import {
+  ArrowUpCircleIcon,
+  CheckCircleIcon,
+  SparklesIcon,
+} from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import PromoteSomedayModal from "@/components/Tasks/PromoteSomedayModal";
+
+// 回顾面板中显示的事项数量
+const PREVIEW_LIMIT = 5;
+
+/**
+ * 周回顾中的将来/也许清单：显示最久未动的事项，可转为待办或标记已回顾
+ */
+export default function SomedayReviewPanel() {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const utils = api.useContext();
+  const [promotingTask, setPromotingTask] = useState<{
+    id: string;
+    title: string;
+    projectId: string | null;
+  } | null>(null);
+
+  const { data: reviewStatus } = api.someday.getReviewStatus.useQuery();
+  const { data: somedayData, isLoading } = api.someday.getList.useQuery({
+    limit: PREVIEW_LIMIT,
+  });
+
+  const markReviewed = api.someday.markReviewed.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      void utils.someday.getReviewStatus.invalidate();
+    },
+    onError: (error) => {
+      showError(error.message || "标记回顾失败");
+    },
+  });
+
+  const handlePromoted = () => {
+    void utils.someday.invalidate();
+    void utils.task.invalidate();
+  };
+
+  const tasks = somedayData?.tasks ?? [];
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="flex items-center text-lg font-medium text-gray-900">
+          <SparklesIcon className="mr-2 h-5 w-5 text-teal-500" />
+          将来/也许
+          <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-normal text-gray-600">
+            {reviewStatus?.count ?? 0}
+          </span>
+          {reviewStatus?.isDue && (
+            <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-normal text-amber-800">
+              需要回顾
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-2">
+          <Link
+            href="/tasks/someday"
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            查看全部
+          </Link>
+          <button
+            onClick={() => markReviewed.mutate()}
+            disabled={markReviewed.isPending || !reviewStatus?.count}
+            className="inline-flex items-center gap-1 rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <CheckCircleIcon className="h-4 w-4" />
+            完成回顾
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-3 text-sm text-gray-500">
+        {reviewStatus?.reviewedAt
+          ? `上次回顾于 ${new Date(reviewStatus.reviewedAt).toLocaleDateString("zh-CN")}`
+          : "还没有回顾过将来/也许清单"}
+        ，逐项看看哪些已经可以开始行动
+      </p>
+
+      {isLoading ? (
+        <p className="py-2 text-sm text-gray-500">加载中...</p>
+      ) : tasks.length === 0 ? (
+        <p className="py-2 text-sm text-gray-500">将来/也许清单是空的</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {tasks.map((task) => (
+            <li
+              key={task.id}
+              className="flex items-center justify-between gap-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-gray-900">
+                  {task.title}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {task.project ? `${task.project.name} · ` : ""}
+                  {new Date(task.updatedAt).toLocaleDateString("zh-CN")}{" "}
+                  起未变动
+                </p>
+              </div>
+              <button
+                onClick={() =>
+                  setPromotingTask({
+                    id: task.id,
+                    title: task.title,
+                    projectId: task.projectId,
+                  })
+                }
+                className="inline-flex flex-shrink-0 items-center gap-1 rounded-md px-2 py-1 text-sm text-blue-600 hover:bg-blue-50"
+              >
+                <ArrowUpCircleIcon className="h-4 w-4" />
+                转为待办
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {promotingTask && (
+        <PromoteSomedayModal
+          isOpen={!!promotingTask}
+          onClose={() => setPromotingTask(null)}
+          taskId={promotingTask.id}
+          taskTitle={promotingTask.title}
+          currentProjectId={promotingTask.projectId}
+          onSuccess={handlePromoted}
+        />
+      )}
+    </div>
+  );
+}
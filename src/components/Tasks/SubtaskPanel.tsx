@@ -0,0 +1,268 @@
+import React, { useState } from "react";
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { TaskStatus } from "@prisma/client";
+
+import { api } from "@/utils/api";
+import { getTaskProgress, isTaskClosed } from "@/utils/task-progress";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+
+interface SubtaskPanelProps {
+  taskId: string;
+}
+
+export default function SubtaskPanel({ taskId }: SubtaskPanelProps) {
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+  const [newChecklistTitle, setNewChecklistTitle] = useState("");
+  const { showSuccess, showError } = useGlobalNotifications();
+  const utils = api.useContext();
+
+  const { data, isLoading } = api.task.getSubtasks.useQuery(
+    { id: taskId },
+    { enabled: !!taskId, refetchOnWindowFocus: false },
+  );
+
+  const subtasks = data?.subtasks ?? [];
+  const checklistItems = data?.checklistItems ?? [];
+  const progress = getTaskProgress({ subtasks, checklistItems });
+
+  // 子项变化后刷新任务相关缓存
+  const handleChanged = () => {
+    void utils.task.getSubtasks.invalidate({ id: taskId });
+    void utils.task.getByStatus.invalidate();
+    void utils.task.getAll.invalidate();
+  };
+
+  const createSubtask = api.task.create.useMutation({
+    onSuccess: () => {
+      setNewSubtaskTitle("");
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(`添加子任务失败: ${error.message}`);
+    },
+  });
+
+  const updateSubtaskStatus = api.task.updateStatus.useMutation({
+    onSuccess: (result) => {
+      if (result.parentAutoCompleted?.completed) {
+        showSuccess("所有子项已完成，父任务已自动完成");
+        void utils.task.getById.invalidate({ id: taskId });
+      }
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(`更新子任务失败: ${error.message}`);
+    },
+  });
+
+  const deleteSubtask = api.task.delete.useMutation({
+    onSuccess: handleChanged,
+    onError: (error) => {
+      showError(`删除子任务失败: ${error.message}`);
+    },
+  });
+
+  const addChecklistItem = api.task.addChecklistItem.useMutation({
+    onSuccess: () => {
+      setNewChecklistTitle("");
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(`添加检查项失败: ${error.message}`);
+    },
+  });
+
+  const updateChecklistItem = api.task.updateChecklistItem.useMutation({
+    onSuccess: (result) => {
+      if (result.taskAutoCompleted.completed) {
+        showSuccess("所有子项已完成，任务已自动完成");
+        void utils.task.getById.invalidate({ id: taskId });
+      }
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(`更新检查项失败: ${error.message}`);
+    },
+  });
+
+  const deleteChecklistItem = api.task.deleteChecklistItem.useMutation({
+    onSuccess: handleChanged,
+    onError: (error) => {
+      showError(`删除检查项失败: ${error.message}`);
+    },
+  });
+
+  const handleAddSubtask = () => {
+    const title = newSubtaskTitle.trim();
+    if (!title || createSubtask.isPending) return;
+    createSubtask.mutate({ title, parentId: taskId, status: TaskStatus.TODO });
+  };
+
+  const handleAddChecklistItem = () => {
+    const title = newChecklistTitle.trim();
+    if (!title || addChecklistItem.isPending) return;
+    addChecklistItem.mutate({ taskId, title });
+  };
+
+  // 回车添加，避免触发外层表单提交
+  const handleEnter =
+    (action: () => void) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === "Enter") {
+        e.preventDefault();
+        action();
+      }
+    };
+
+  return (
+    <div className="space-y-4 rounded-md border border-gray-200 p-4">
+      {/* 进度 */}
+      <div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium text-gray-700">子任务与检查项</span>
+          {isLoading ? (
+            <span className="text-xs text-gray-400">加载中...</span>
+          ) : (
+            progress && (
+              <span className="text-xs text-gray-500">
+                {progress.completed}/{progress.total}（{progress.percent}%）
+              </span>
+            )
+          )}
+        </div>
+        {progress && (
+          <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-gray-200">
+            <div
+              className="h-full bg-green-500 transition-all duration-300"
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* 子任务 */}
+      <div>
+        <p className="mb-2 text-xs font-medium text-gray-500">子任务</p>
+        <ul className="space-y-1">
+          {subtasks.map((subtask) => {
+            const closed = isTaskClosed(subtask.status);
+            return (
+              <li
+                key={subtask.id}
+                className="group flex items-center justify-between rounded px-1 py-1 hover:bg-gray-50"
+              >
+                <label className="flex min-w-0 flex-1 items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    checked={closed}
+                    disabled={updateSubtaskStatus.isPending}
+                    onChange={() =>
+                      updateSubtaskStatus.mutate({
+                        id: subtask.id,
+                        status: closed ? TaskStatus.TODO : TaskStatus.DONE,
+                      })
+                    }
+                  />
+                  <span
+                    className={`truncate ${closed ? "text-gray-400 line-through" : "text-gray-800"}`}
+                    title={subtask.title}
+                  >
+                    {subtask.title}
+                  </span>
+                </label>
+                <button
+                  type="button"
+                  className="ml-2 text-gray-300 opacity-0 transition-opacity group-hover:opacity-100 hover:text-red-500"
+                  onClick={() => deleteSubtask.mutate({ id: subtask.id })}
+                  title="删除子任务"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="mt-2 flex items-center gap-2">
+          <input
+            type="text"
+            className="block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder="添加子任务..."
+            value={newSubtaskTitle}
+            onChange={(e) => setNewSubtaskTitle(e.target.value)}
+            onKeyDown={handleEnter(handleAddSubtask)}
+          />
+          <button
+            type="button"
+            className="rounded-md p-1.5 text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+            onClick={handleAddSubtask}
+            disabled={!newSubtaskTitle.trim() || createSubtask.isPending}
+            title="添加子任务"
+          >
+            <PlusIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* 检查项 */}
+      <div>
+        <p className="mb-2 text-xs font-medium text-gray-500">检查项</p>
+        <ul className="space-y-1">
+          {checklistItems.map((item) => (
+            <li
+              key={item.id}
+              className="group flex items-center justify-between rounded px-1 py-1 hover:bg-gray-50"
+            >
+              <label className="flex min-w-0 flex-1 items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  checked={item.isCompleted}
+                  disabled={updateChecklistItem.isPending}
+                  onChange={() =>
+                    updateChecklistItem.mutate({
+                      id: item.id,
+                      isCompleted: !item.isCompleted,
+                    })
+                  }
+                />
+                <span
+                  className={`truncate ${item.isCompleted ? "text-gray-400 line-through" : "text-gray-800"}`}
+                  title={item.title}
+                >
+                  {item.title}
+                </span>
+              </label>
+              <button
+                type="button"
+                className="ml-2 text-gray-300 opacity-0 transition-opacity group-hover:opacity-100 hover:text-red-500"
+                onClick={() => deleteChecklistItem.mutate({ id: item.id })}
+                title="删除检查项"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-2 flex items-center gap-2">
+          <input
+            type="text"
+            className="block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder="添加检查项..."
+            value={newChecklistTitle}
+            onChange={(e) => setNewChecklistTitle(e.target.value)}
+            onKeyDown={handleEnter(handleAddChecklistItem)}
+          />
+          <button
+            type="button"
+            className="rounded-md p-1.5 text-green-600 hover:bg-green-50 disabled:opacity-50"
+            onClick={handleAddChecklistItem}
+            disabled={!newChecklistTitle.trim() || addChecklistItem.isPending}
+            title="添加检查项"
+          >
+            <PlusIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import {
+  ArrowPathIcon,
+  ChatBubbleLeftEllipsisIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ClockIcon,
+  PencilSquareIcon,
+  PlusCircleIcon,
+} from "@heroicons/react/24/outline";
+import { Priority, TaskStatus } from "@prisma/client";
+
+import { api } from "@/utils/api";
+import { TASK_HISTORY_FIELD_LABELS } from "@/server/api/schemas/task";
+
+interface TaskActivityTimelineProps {
+  taskId: string;
+}
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  [TaskStatus.IDEA]: "想法",
+  [TaskStatus.TODO]: "待办",
+  [TaskStatus.IN_PROGRESS]: "进行中",
+  [TaskStatus.WAITING]: "等待中",
+  [TaskStatus.SOMEDAY]: "将来/也许",
+  [TaskStatus.DONE]: "已完成",
+  [TaskStatus.ARCHIVED]: "已归档",
+};
+
+const PRIORITY_LABELS: Record<Priority, string> = {
+  [Priority.LOW]: "低",
+  [Priority.MEDIUM]: "中",
+  [Priority.HIGH]: "高",
+  [Priority.URGENT]: "紧急",
+};
+
+// 长文本字段只显示开头
+const PREVIEW_LENGTH = 60;
+
+function formatValue(field: string, value: string | null) {
+  if (!value) return "空";
+  if (field === "priority") {
+    return PRIORITY_LABELS[value as Priority] ?? value;
+  }
+  return value.length > PREVIEW_LENGTH
+    ? `${value.slice(0, PREVIEW_LENGTH)}...`
+    : value;
+}
+
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}小时${minutes}分钟`;
+  if (minutes > 0) return `${minutes}分钟`;
+  return `${seconds}秒`;
+}
+
+export default function TaskActivityTimeline({
+  taskId,
+}: TaskActivityTimelineProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const { data: activity, isLoading } = api.task.getActivity.useQuery(
+    { id: taskId },
+    { enabled: isExpanded, refetchOnWindowFocus: false },
+  );
+
+  return (
+    <div className="rounded-md border border-gray-200">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        {isExpanded ? (
+          <ChevronDownIcon className="h-4 w-4" />
+        ) : (
+          <ChevronRightIcon className="h-4 w-4" />
+        )}
+        活动记录
+      </button>
+
+      {isExpanded && (
+        <div className="max-h-72 overflow-y-auto border-t border-gray-200 px-3 py-2">
+          {isLoading ? (
+            <p className="py-2 text-sm text-gray-500">加载活动记录中...</p>
+          ) : !activity?.length ? (
+            <p className="py-2 text-sm text-gray-500">暂无活动记录</p>
+          ) : (
+            <ol className="space-y-3">
+              {activity.map((item) => {
+                let icon: React.ReactNode;
+                let content: React.ReactNode;
+                let note: string | null = null;
+
+                switch (item.type) {
+                  case "created":
+                    icon = <PlusCircleIcon className="h-4 w-4 text-gray-400" />;
+                    content = "创建了任务";
+                    break;
+                  case "status":
+                    icon = <ArrowPathIcon className="h-4 w-4 text-blue-500" />;
+                    content = item.fromStatus
+                      ? `状态从「${STATUS_LABELS[item.fromStatus]}」变为「${STATUS_LABELS[item.toStatus]}」`
+                      : `状态设为「${STATUS_LABELS[item.toStatus]}」`;
+                    note = item.note;
+                    break;
+                  case "time":
+                    icon = <ClockIcon className="h-4 w-4 text-green-500" />;
+                    content = item.endTime
+                      ? `计时 ${formatDuration(item.duration ?? 0)}`
+                      : "开始计时";
+                    note = item.description;
+                    break;
+                  case "field":
+                    if (item.field === "feedback") {
+                      icon = (
+                        <ChatBubbleLeftEllipsisIcon className="h-4 w-4 text-purple-500" />
+                      );
+                      content = item.newValue
+                        ? `填写了反馈：${formatValue(item.field, item.newValue)}`
+                        : "清除了反馈";
+                    } else {
+                      icon = (
+                        <PencilSquareIcon className="h-4 w-4 text-orange-500" />
+                      );
+                      content = `${TASK_HISTORY_FIELD_LABELS[item.field]}从「${formatValue(item.field, item.oldValue)}」改为「${formatValue(item.field, item.newValue)}」`;
+                    }
+                    note = item.note;
+                    break;
+                }
+
+                return (
+                  <li key={item.id} className="flex gap-2 text-sm">
+                    <span className="mt-0.5 flex-shrink-0">{icon}</span>
+                    <div className="min-w-0 flex-1">
+                      <p className="break-words text-gray-800">{content}</p>
+                      {note && (
+                        <p className="text-xs break-words text-gray-500">
+                          {note}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-400">
+                        {new Date(item.at).toLocaleString("zh-CN")}
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
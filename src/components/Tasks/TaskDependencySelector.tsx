@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { MagnifyingGlassIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { type TaskStatus } from "@prisma/client";
+
+import { api } from "@/utils/api";
+import { isTaskClosed } from "@/utils/task-progress";
+
+export interface BlockerTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+interface TaskDependencySelectorProps {
+  taskId?: string; // 当前任务（编辑模式），不能选择自身
+  value: BlockerTask[];
+  onChange: (blockers: BlockerTask[]) => void;
+  blocking?: BlockerTask[]; // 依赖当前任务的后续任务，仅用于展示
+}
+
+export default function TaskDependencySelector({
+  taskId,
+  value,
+  onChange,
+  blocking = [],
+}: TaskDependencySelectorProps) {
+  const [search, setSearch] = useState("");
+
+  const trimmedSearch = search.trim();
+  const { data, isFetching } = api.task.getAll.useQuery(
+    { search: trimmedSearch, limit: 10 },
+    { enabled: trimmedSearch.length > 0, refetchOnWindowFocus: false },
+  );
+
+  const selectedIds = new Set(value.map((blocker) => blocker.id));
+  const candidates = (data?.tasks ?? []).filter(
+    (task) => task.id !== taskId && !selectedIds.has(task.id),
+  );
+
+  const handleAdd = (blocker: BlockerTask) => {
+    onChange([...value, blocker]);
+    setSearch("");
+  };
+
+  const handleRemove = (blockerId: string) => {
+    onChange(value.filter((blocker) => blocker.id !== blockerId));
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* 已选前置任务 */}
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((blocker) => (
+            <span
+              key={blocker.id}
+              className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs font-medium ${
+                isTaskClosed(blocker.status)
+                  ? "bg-green-100 text-green-800 line-through"
+                  : "bg-amber-100 text-amber-800"
+              }`}
+            >
+              {blocker.title}
+              <button
+                type="button"
+                onClick={() => handleRemove(blocker.id)}
+                className="rounded-full hover:bg-black/10"
+                title="移除前置任务"
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* 搜索添加 */}
+      <div className="relative">
+        <MagnifyingGlassIcon className="pointer-events-none absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          className="block w-full rounded-md border-gray-300 pl-9 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          placeholder="搜索任务添加为前置任务..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => {
+            // 避免触发外层表单提交
+            if (e.key === "Enter") e.preventDefault();
+          }}
+        />
+        {trimmedSearch && (
+          <div className="absolute z-10 mt-1 max-h-48 w-full overflow-auto rounded-md border border-gray-200 bg-white shadow-lg">
+            {isFetching ? (
+              <p className="px-3 py-2 text-xs text-gray-400">搜索中...</p>
+            ) : candidates.length > 0 ? (
+              candidates.map((task) => (
+                <button
+                  key={task.id}
+                  type="button"
+                  className="block w-full truncate px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                  onClick={() =>
+                    handleAdd({
+                      id: task.id,
+                      title: task.title,
+                      status: task.status,
+                    })
+                  }
+                >
+                  {task.title}
+                </button>
+              ))
+            ) : (
+              <p className="px-3 py-2 text-xs text-gray-400">没有匹配的任务</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 后续任务 */}
+      {blocking.length > 0 && (
+        <p className="text-xs text-gray-500">
+          阻塞中的后续任务：
+          {blocking.map((task) => task.title).join("、")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,22 @@ import { XMarkIcon } from "@heroicons/react/24/outline";
 import { TaskStatus, TaskType, Priority } from "@prisma/client";
 
 import { api } from "@/utils/api";
+import {
+  parseRecurringPattern,
+  type RecurringPattern,
+  validateRRule,
+} from "@/utils/recurrence";
+import { getLocalDateString } from "@/utils/timezone";
 import { ButtonLoading } from "@/components/UI";
 import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
 import { TagSelector } from "@/components/Tags";
+import ContactSelect from "@/components/Tasks/ContactSelect";
+import RecurrenceEditor from "@/components/Tasks/RecurrenceEditor";
+import SubtaskPanel from "@/components/Tasks/SubtaskPanel";
+import TaskActivityTimeline from "@/components/Tasks/TaskActivityTimeline";
+import TaskDependencySelector, {
+  type BlockerTask,
+} from "@/components/Tasks/TaskDependencySelector";
 
 interface TaskModalProps {
   isOpen: boolean;
@@ -14,6 +27,7 @@ interface TaskModalProps {
   taskId?: string;
   onSuccess?: () => void;
   defaultProjectId?: string; // 默认项目ID
+  defaultStatus?: TaskStatus; // 新建任务的默认状态
 }
 
 interface TaskFormData {
@@ -24,8 +38,15 @@ interface TaskFormData {
   status: TaskStatus;
   dueDate?: string;
   dueTime?: string;
+  deferUntil?: string;
+  waitingForId?: string;
+  delegatedAt?: string;
+  followUpAt?: string;
   projectId?: string;
   tagIds: string[];
+  autoComplete: boolean;
+  blockers: BlockerTask[];
+  recurrence: RecurringPattern | null;
 }
 
 const TASK_TYPES = [
@@ -38,6 +59,7 @@ const TASK_STATUSES = [
   { value: TaskStatus.TODO, label: "待办" },
   { value: TaskStatus.IN_PROGRESS, label: "进行中" },
   { value: TaskStatus.WAITING, label: "等待中" },
+  { value: TaskStatus.SOMEDAY, label: "将来/也许" },
   { value: TaskStatus.DONE, label: "已完成" },
   { value: TaskStatus.ARCHIVED, label: "已归档" },
 ];
@@ -55,14 +77,18 @@ export default function TaskModal({
   taskId,
   onSuccess,
   defaultProjectId,
+  defaultStatus = TaskStatus.IDEA,
 }: TaskModalProps) {
   const [formData, setFormData] = useState<TaskFormData>({
     title: "",
     description: "",
     type: TaskType.NORMAL,
-    status: TaskStatus.IDEA,
+    status: defaultStatus,
     tagIds: [],
     projectId: defaultProjectId, // 设置默认项目ID
+    autoComplete: false,
+    blockers: [],
+    recurrence: null,
   });
 
   const isEditing = !!taskId;
@@ -120,8 +146,25 @@ export default function TaskModal({
             ? taskDetail.dueDate.toISOString().split("T")[0]
             : undefined,
           dueTime: taskDetail.dueTime ?? undefined,
+          deferUntil: taskDetail.deferUntil
+            ? getLocalDateString(taskDetail.deferUntil)
+            : undefined,
+          waitingForId: taskDetail.waitingForId ?? undefined,
+          delegatedAt: taskDetail.delegatedAt
+            ? getLocalDateString(taskDetail.delegatedAt)
+            : undefined,
+          followUpAt: taskDetail.followUpAt
+            ? getLocalDateString(taskDetail.followUpAt)
+            : undefined,
           projectId: taskDetail.projectId ?? undefined,
           tagIds: sortedTags.map((t) => t.tag.id),
+          autoComplete: taskDetail.autoComplete,
+          blockers: taskDetail.blockedBy.map(
+            (dependency) => dependency.blocker,
+          ),
+          recurrence: taskDetail.isRecurring
+            ? parseRecurringPattern(taskDetail.recurringPattern)
+            : null,
         });
       } else if (!isEditing) {
         // 创建模式：重置表单为默认值
@@ -173,9 +216,12 @@ export default function TaskModal({
       title: "",
       description: "",
       type: TaskType.NORMAL,
-      status: TaskStatus.IDEA,
+      status: defaultStatus,
       tagIds: [],
       projectId: defaultProjectId, // 重置时保持默认项目ID
+      autoComplete: false,
+      blockers: [],
+      recurrence: null,
     });
   };
 
@@ -190,10 +236,40 @@ export default function TaskModal({
       return;
     }
 
+    // 验证自定义重复规则
+    if (formData.recurrence?.type === "custom") {
+      const rruleError = validateRRule(formData.recurrence.rrule ?? "");
+      if (rruleError) {
+        showError(`重复规则无效: ${rruleError}`);
+        return;
+      }
+    }
+
     try {
+      const { blockers, recurrence, ...restFormData } = formData;
+      // 重复系列的实例以原始任务的重复规则为准，不在实例上修改
+      const recurrenceData = taskDetail?.parentTaskId
+        ? {}
+        : {
+            isRecurring: !!recurrence,
+            recurringPattern: recurrence ?? undefined,
+          };
       const submitData = {
-        ...formData,
+        ...restFormData,
+        ...recurrenceData,
+        blockedByIds: blockers.map((blocker) => blocker.id),
         dueDate: formData.dueDate ? new Date(formData.dueDate) : undefined,
+        // 推迟到所选日期的当天开始
+        deferUntil: formData.deferUntil
+          ? new Date(`${formData.deferUntil}T00:00:00`)
+          : undefined,
+        waitingForId: formData.waitingForId || undefined,
+        delegatedAt: formData.delegatedAt
+          ? new Date(`${formData.delegatedAt}T00:00:00`)
+          : undefined,
+        followUpAt: formData.followUpAt
+          ? new Date(`${formData.followUpAt}T00:00:00`)
+          : undefined,
         projectId: formData.projectId || undefined,
         priority: formData.priority || undefined,
       };
@@ -202,6 +278,14 @@ export default function TaskModal({
         await updateTask.mutateAsync({
           id: taskId,
           ...submitData,
+          // 清空推迟日期时立即显示
+          deferUntil: submitData.deferUntil ?? null,
+          // 清空等待对象或跟进日期时一并清除
+          waitingForId: submitData.waitingForId ?? null,
+          followUpAt: submitData.followUpAt ?? null,
+          // 取消重复时清除重复规则
+          ...(!taskDetail?.parentTaskId &&
+            !recurrence && { recurringPattern: null }),
         });
       } else {
         await createTask.mutateAsync(submitData);
@@ -352,6 +436,16 @@ export default function TaskModal({
                   </div>
                 ) : (
                   <form onSubmit={handleSubmit} className="space-y-6">
+                    {/* 所属父任务（子任务时显示） */}
+                    {isEditing && taskDetail?.parent && (
+                      <div className="rounded-md bg-gray-50 px-3 py-2 text-sm text-gray-600">
+                        所属父任务：
+                        <span className="font-medium text-gray-900">
+                          {taskDetail.parent.title}
+                        </span>
+                      </div>
+                    )}
+
                     {/* 任务标题 */}
                     <div>
                       <label
@@ -582,6 +676,106 @@ export default function TaskModal({
                       </div>
                     )}
 
+                    {/* 等待对象和跟进日期 - 只在等待中时显示 */}
+                    {formData.status === TaskStatus.WAITING && (
+                      <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+                        <div>
+                          <label
+                            htmlFor="waitingFor"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            等待对象
+                          </label>
+                          <ContactSelect
+                            id="waitingFor"
+                            value={formData.waitingForId}
+                            onChange={(waitingForId) =>
+                              setFormData((prev) => ({
+                                ...prev,
+                                waitingForId,
+                                // 首次指定等待对象时委派日期默认为今天
+                                delegatedAt:
+                                  prev.delegatedAt ??
+                                  (waitingForId
+                                    ? getLocalDateString(new Date())
+                                    : undefined),
+                              }))
+                            }
+                          />
+                        </div>
+
+                        <div>
+                          <label
+                            htmlFor="delegatedAt"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            委派日期
+                          </label>
+                          <input
+                            type="date"
+                            id="delegatedAt"
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                            value={formData.delegatedAt ?? ""}
+                            onChange={(e) =>
+                              setFormData({
+                                ...formData,
+                                delegatedAt: e.target.value || undefined,
+                              })
+                            }
+                          />
+                        </div>
+
+                        <div>
+                          <label
+                            htmlFor="followUpAt"
+                            className="block text-sm font-medium text-gray-700"
+                          >
+                            跟进日期
+                          </label>
+                          <input
+                            type="date"
+                            id="followUpAt"
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                            value={formData.followUpAt ?? ""}
+                            onChange={(e) =>
+                              setFormData({
+                                ...formData,
+                                followUpAt: e.target.value || undefined,
+                              })
+                            }
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            到期后会提醒你跟进
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* 推迟日期 */}
+                    <div>
+                      <label
+                        htmlFor="deferUntil"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        推迟到
+                      </label>
+                      <input
+                        type="date"
+                        id="deferUntil"
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:w-1/2 sm:text-sm"
+                        value={formData.deferUntil ?? ""}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            deferUntil: e.target.value || undefined,
+                          })
+                        }
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        可选，设置后任务在该日期之前不出现在下一步行动、看板和首页
+                      </p>
+                    </div>
+
                     {/* 标签选择 */}
                     <div>
                       <label className="mb-2 block text-sm font-medium text-gray-700">
@@ -604,6 +798,71 @@ export default function TaskModal({
                       )}
                     </div>
 
+                    {/* 重复设置 */}
+                    <div>
+                      {taskDetail?.parentTask ? (
+                        <p className="text-sm text-gray-500">
+                          🔁 此任务是重复任务 &quot;
+                          {taskDetail.parentTask.title}
+                          &quot; 的实例，重复规则以原始任务为准
+                        </p>
+                      ) : (
+                        <RecurrenceEditor
+                          value={formData.recurrence}
+                          onChange={(recurrence) =>
+                            setFormData({ ...formData, recurrence })
+                          }
+                          startDate={formData.dueDate}
+                        />
+                      )}
+                    </div>
+
+                    {/* 前置任务 */}
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-gray-700">
+                        前置任务
+                      </label>
+                      <TaskDependencySelector
+                        taskId={taskId}
+                        value={formData.blockers}
+                        onChange={(blockers) =>
+                          setFormData({ ...formData, blockers })
+                        }
+                        blocking={taskDetail?.blocking.map(
+                          (dependency) => dependency.task,
+                        )}
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        前置任务未完成时，待办任务会自动转为等待中；前置任务全部完成后自动恢复为待办
+                      </p>
+                    </div>
+
+                    {/* 子任务与检查项 - 仅在编辑顶层任务时显示 */}
+                    {isEditing && taskId && !taskDetail?.parentId && (
+                      <div className="space-y-2">
+                        <SubtaskPanel taskId={taskId} />
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            checked={formData.autoComplete}
+                            onChange={(e) =>
+                              setFormData({
+                                ...formData,
+                                autoComplete: e.target.checked,
+                              })
+                            }
+                          />
+                          所有子任务和检查项完成后自动完成此任务
+                        </label>
+                      </div>
+                    )}
+
+                    {/* 活动记录 - 仅在编辑时显示 */}
+                    {isEditing && taskId && (
+                      <TaskActivityTimeline taskId={taskId} />
+                    )}
+
                     {/* 提交按钮 */}
                     <div className="flex justify-end space-x-3 pt-6">
                       <button
@@ -40,6 +40,7 @@ export default function ShortcutHelpModal({
       shortcuts: [
         { ...GLOBAL_SHORTCUTS.QUICK_CAPTURE },
         { ...GLOBAL_SHORTCUTS.TODAY_JOURNAL },
+        { ...GLOBAL_SHORTCUTS.UNDO },
         { ...GLOBAL_SHORTCUTS.HELP },
       ],
     },
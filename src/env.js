@@ -15,6 +15,8 @@ export const env = createEnv({
     AUTH_GITHUB_SECRET: z.string(),
     DATABASE_URL: z.string().url(),
     NEXTAUTH_URL: z.string().url().optional(),
+    // 应用前的反向代理层数，大于 0 时才信任 X-Forwarded-For 中的客户端 IP
+    TRUSTED_PROXY_COUNT: z.coerce.number().int().min(0).default(0),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
@@ -25,6 +27,26 @@ export const env = createEnv({
       .optional(),
     LOG_FORMAT: z.enum(["json", "pretty"]).default("json").optional(),
     LOG_DIR: z.string().default("/app/logs").optional(),
+    // 定时任务配置
+    SCHEDULER_TIMEZONE: z.string().optional(),
+    // 邮件配置
+    // 生产环境必须通过 SMTP 真正发送邮件，其他方式不会发出登录和重置密码邮件
+    MAIL_TRANSPORT:
+      process.env.NODE_ENV === "production"
+        ? z.literal("smtp")
+        : z.enum(["smtp", "file", "console"]).default("console"),
+    MAIL_FROM: z.string().default("Infer GTD <no-reply@localhost>"),
+    MAIL_FILE_DIR: z.string().default("./.mail"),
+    SMTP_HOST:
+      process.env.NODE_ENV === "production"
+        ? z.string()
+        : z.string().optional(),
+    SMTP_PORT: z.coerce.number().int().default(587),
+    SMTP_SECURE: z.enum(["true", "false"]).default("false"),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+    // Webhook 配置
+    WEBHOOK_ALLOW_PRIVATE_TARGETS: z.enum(["true", "false"]).default("false"),
   },
 
   /**
@@ -46,10 +68,21 @@ export const env = createEnv({
     AUTH_GITHUB_SECRET: process.env.AUTH_GITHUB_SECRET,
     DATABASE_URL: process.env.DATABASE_URL,
     NEXTAUTH_URL: process.env.NEXTAUTH_URL,
+    TRUSTED_PROXY_COUNT: process.env.TRUSTED_PROXY_COUNT,
     NODE_ENV: process.env.NODE_ENV,
     LOG_LEVEL: process.env.LOG_LEVEL,
     LOG_FORMAT: process.env.LOG_FORMAT,
     LOG_DIR: process.env.LOG_DIR,
+    SCHEDULER_TIMEZONE: process.env.SCHEDULER_TIMEZONE,
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT,
+    MAIL_FROM: process.env.MAIL_FROM,
+    MAIL_FILE_DIR: process.env.MAIL_FILE_DIR,
+    SMTP_HOST: process.env.SMTP_HOST,
+    SMTP_PORT: process.env.SMTP_PORT,
+    SMTP_SECURE: process.env.SMTP_SECURE,
+    SMTP_USER: process.env.SMTP_USER,
+    SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+    WEBHOOK_ALLOW_PRIVATE_TARGETS: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -69,6 +69,14 @@ export const GLOBAL_SHORTCUTS = {
     preventDefault: true,
   },
 
+  UNDO: {
+    key: "z",
+    ctrlKey: true,
+    metaKey: true,
+    description: "撤销上一步操作",
+    preventDefault: true,
+  },
+
   // 帮助
   HELP: {
     key: "h",
@@ -137,6 +145,9 @@ export function useGlobalShortcuts() {
         case "TODAY_JOURNAL":
           navigateTo("/journal");
           break;
+        case "UNDO":
+          window.dispatchEvent(new CustomEvent("global-shortcut-undo"));
+          break;
         case "HELP":
           window.dispatchEvent(new CustomEvent("global-shortcut-help"));
           break;
@@ -0,0 +1,59 @@
+import { useCallback } from "react";
+import { useRouter } from "next/router";
+import { type Notification } from "@prisma/client";
+
+import { api } from "@/utils/api";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+
+/**
+ * 站内通知的通用操作：打开（标记已读并跳转）、标记已读、全部已读
+ */
+export function useNotificationCenter() {
+  const router = useRouter();
+  const utils = api.useContext();
+  const { showSuccess, showError } = useGlobalNotifications();
+
+  const invalidate = useCallback(() => {
+    void utils.notification.getAll.invalidate();
+    void utils.notification.getUnreadCount.invalidate();
+  }, [utils]);
+
+  const markRead = api.notification.markRead.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => showError(error.message ?? "标记通知失败"),
+  });
+
+  const markAllRead = api.notification.markAllRead.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      invalidate();
+    },
+    onError: (error) => showError(error.message ?? "标记通知失败"),
+  });
+
+  const openNotification = useCallback(
+    (notification: Notification) => {
+      if (!notification.readAt) {
+        markRead.mutate({ id: notification.id });
+      }
+      if (notification.link) {
+        void router.push(notification.link);
+      }
+    },
+    [markRead, router],
+  );
+
+  const markNotificationRead = useCallback(
+    (notification: Notification) => {
+      markRead.mutate({ id: notification.id });
+    },
+    [markRead],
+  );
+
+  return {
+    openNotification,
+    markNotificationRead,
+    markAllRead: () => markAllRead.mutate(),
+    isMarkingAllRead: markAllRead.isPending,
+  };
+}
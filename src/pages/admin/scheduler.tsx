@@ -5,6 +5,7 @@
  * 1. 查看定时任务状态
  * 2. 手动执行任务
  * 3. 查看执行历史
+ * 4. 启用/禁用、暂停/恢复任务，修改执行频率
  */
 
 import { useState } from "react";
@@ -15,20 +16,39 @@ import {
   CheckCircleIcon,
   ClockIcon,
   ExclamationTriangleIcon,
+  PauseIcon,
+  PencilSquareIcon,
   PlayIcon,
 } from "@heroicons/react/24/outline";
 
 import { api } from "@/utils/api";
+import { getNextCronRun, validateCronExpression } from "@/utils/cron";
+import SchedulerRunHistory, {
+  formatDuration,
+  RunStatusBadge,
+} from "@/components/Admin/SchedulerRunHistory";
 import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
 import MainLayout from "@/components/Layout/MainLayout";
 import AdminGuard from "@/components/Layout/AdminGuard";
 
+const PAUSE_OPTIONS = [
+  { label: "暂停 1 小时", hours: 1 },
+  { label: "暂停 1 天", hours: 24 },
+  { label: "暂停到手动恢复", hours: null },
+];
+
 function SchedulerPage() {
   const router = useRouter();
   const { showSuccess, showError } = useGlobalNotifications();
   const [selectedDate, setSelectedDate] = useState<string>(
     new Date().toISOString().split("T")[0]!,
   );
+  const [editingCron, setEditingCron] = useState<{
+    taskId: string;
+    value: string;
+  } | null>(null);
+  const [pauseMenuTaskId, setPauseMenuTaskId] = useState<string | null>(null);
+  const utils = api.useContext();
 
   // 获取调度器状态
   const {
@@ -61,8 +81,46 @@ function SchedulerPage() {
     onError: (error) => {
       showError(error.message || "执行失败");
     },
+    onSettled: () => {
+      void utils.scheduler.getRuns.invalidate();
+    },
   });
 
+  // 任务配置变更后刷新状态
+  const handleConfigChanged = (result: { message: string }) => {
+    showSuccess(result.message);
+    setEditingCron(null);
+    setPauseMenuTaskId(null);
+    void refetchStatus();
+  };
+
+  // 启用/禁用任务、修改执行频率
+  const updateTask = api.scheduler.updateTask.useMutation({
+    onSuccess: handleConfigChanged,
+    onError: (error) => {
+      showError(error.message || "更新任务配置失败");
+    },
+  });
+
+  // 暂停任务
+  const pauseTask = api.scheduler.pauseTask.useMutation({
+    onSuccess: handleConfigChanged,
+    onError: (error) => {
+      showError(error.message || "暂停任务失败");
+    },
+  });
+
+  // 恢复任务
+  const resumeTask = api.scheduler.resumeTask.useMutation({
+    onSuccess: handleConfigChanged,
+    onError: (error) => {
+      showError(error.message || "恢复任务失败");
+    },
+  });
+
+  const isUpdatingTask =
+    updateTask.isPending || pauseTask.isPending || resumeTask.isPending;
+
   // 处理手动执行日记生成
   const handleExecuteJournalGeneration = () => {
     const targetDate = new Date(selectedDate);
@@ -74,6 +132,27 @@ function SchedulerPage() {
     executeTask.mutate({ taskId });
   };
 
+  // 处理暂停任务
+  const handlePauseTask = (taskId: string, hours: number | null) => {
+    pauseTask.mutate({
+      taskId,
+      until: hours ? new Date(Date.now() + hours * 60 * 60 * 1000) : undefined,
+    });
+  };
+
+  // 编辑中的 cron 表达式校验结果和下次执行时间预览
+  const cronError = editingCron
+    ? validateCronExpression(editingCron.value)
+    : null;
+  const getCronPreview = (timeZone: string) => {
+    if (!editingCron || cronError) return null;
+    try {
+      return getNextCronRun(editingCron.value, new Date(), timeZone);
+    } catch {
+      return null;
+    }
+  };
+
   // 格式化下次执行时间
   const formatNextRun = (nextRun: string | Date | null) => {
     if (!nextRun) return "未调度";
@@ -183,6 +262,42 @@ function SchedulerPage() {
               )}
             </div>
           </div>
+
+          <div className="mt-4 grid gap-2 border-t border-gray-100 pt-4 text-sm text-gray-600 sm:grid-cols-2">
+            <div>
+              当前实例:{" "}
+              <code className="rounded bg-gray-100 px-1">
+                {schedulerStatus?.data.instanceId}
+              </code>
+              {schedulerStatus?.data.isLeader && (
+                <span className="ml-2 inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-800">
+                  主节点
+                </span>
+              )}
+            </div>
+            <div>
+              主节点:{" "}
+              {schedulerStatus?.data.leader ? (
+                <>
+                  <code className="rounded bg-gray-100 px-1">
+                    {schedulerStatus.data.leader.holderId}
+                  </code>
+                  {schedulerStatus.data.leader.isExpired ? (
+                    <span className="ml-2 text-red-600">租约已过期</span>
+                  ) : (
+                    <span className="ml-2 text-gray-500">
+                      租约至{" "}
+                      {new Date(
+                        schedulerStatus.data.leader.expiresAt,
+                      ).toLocaleTimeString()}
+                    </span>
+                  )}
+                </>
+              ) : (
+                "暂无"
+              )}
+            </div>
+          </div>
         </div>
 
         {/* 定时任务列表 */}
@@ -205,24 +320,135 @@ function SchedulerPage() {
                       </h4>
                       <span
                         className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
-                          task.enabled
-                            ? "bg-green-100 text-green-800"
-                            : "bg-gray-100 text-gray-800"
+                          !task.enabled
+                            ? "bg-gray-100 text-gray-800"
+                            : task.paused
+                              ? "bg-yellow-100 text-yellow-800"
+                              : "bg-green-100 text-green-800"
                         }`}
                       >
-                        {task.enabled ? "启用" : "禁用"}
+                        {!task.enabled
+                          ? "禁用"
+                          : task.paused
+                            ? "已暂停"
+                            : "启用"}
                       </span>
                     </div>
 
                     <div className="mt-2 space-y-1 text-sm text-gray-600">
+                      {editingCron?.taskId === task.id ? (
+                        <div className="space-y-1">
+                          <div className="flex items-center space-x-2">
+                            <span>执行频率:</span>
+                            <input
+                              type="text"
+                              value={editingCron.value}
+                              onChange={(e) =>
+                                setEditingCron({
+                                  taskId: task.id,
+                                  value: e.target.value,
+                                })
+                              }
+                              className={`w-48 rounded-md font-mono text-sm shadow-sm ${
+                                cronError
+                                  ? "border-red-300 focus:border-red-500 focus:ring-red-500"
+                                  : "border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+                              }`}
+                              placeholder="分 时 日 月 周"
+                            />
+                            <button
+                              onClick={() =>
+                                updateTask.mutate({
+                                  taskId: task.id,
+                                  cronExpression: editingCron.value,
+                                })
+                              }
+                              disabled={!!cronError || isUpdatingTask}
+                              className="rounded-md bg-blue-600 px-2.5 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              保存
+                            </button>
+                            {task.cronExpression !==
+                              task.defaultCronExpression && (
+                              <button
+                                onClick={() =>
+                                  updateTask.mutate({
+                                    taskId: task.id,
+                                    cronExpression: null,
+                                  })
+                                }
+                                disabled={isUpdatingTask}
+                                className="rounded-md border border-gray-300 px-2.5 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                              >
+                                恢复默认
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setEditingCron(null)}
+                              className="rounded-md px-2.5 py-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+                            >
+                              取消
+                            </button>
+                          </div>
+                          {cronError ? (
+                            <p className="text-xs text-red-600">{cronError}</p>
+                          ) : (
+                            <p className="text-xs text-gray-500">
+                              修改后下次执行:{" "}
+                              {formatNextRun(getCronPreview(task.timeZone))}
+                              ，默认值 <code>{task.defaultCronExpression}</code>
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="flex items-center">
+                          执行频率:{" "}
+                          <code className="mx-1 rounded bg-gray-100 px-1">
+                            {task.cronExpression}
+                          </code>
+                          ({task.timeZone})
+                          <button
+                            onClick={() =>
+                              setEditingCron({
+                                taskId: task.id,
+                                value: task.cronExpression,
+                              })
+                            }
+                            className="ml-2 text-gray-400 hover:text-blue-600"
+                            title="修改执行频率"
+                          >
+                            <PencilSquareIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
                       <div>
-                        执行频率:{" "}
-                        <code className="rounded bg-gray-100 px-1">
-                          {task.cronExpression}
-                        </code>{" "}
-                        (每分钟检查一次)
+                        下次执行:{" "}
+                        {task.paused
+                          ? task.pausedUntil
+                            ? `已暂停至 ${new Date(task.pausedUntil).toLocaleString()}`
+                            : "已暂停，需手动恢复"
+                          : formatNextRun(task.nextRun)}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span title="没有处理任何内容的定时执行不保存记录">
+                          上次执行:
+                        </span>
+                        {task.lastRun ? (
+                          <>
+                            <span>
+                              {new Date(
+                                task.lastRun.startedAt,
+                              ).toLocaleString()}
+                            </span>
+                            <RunStatusBadge status={task.lastRun.status} />
+                            <span className="text-xs text-gray-500">
+                              耗时 {formatDuration(task.lastRun.durationMs)}
+                            </span>
+                          </>
+                        ) : (
+                          <span>暂无记录</span>
+                        )}
                       </div>
-                      <div>下次执行: {formatNextRun(task.nextRun)}</div>
                       {task.id === "auto-generate-journal" &&
                         scheduleStats?.data && (
                           <div className="mt-2 inline-block rounded-md border border-emerald-200 bg-gradient-to-r from-emerald-50 to-blue-50 px-2.5 py-2">
@@ -251,7 +477,58 @@ function SchedulerPage() {
                     </div>
                   </div>
 
-                  <div className="flex items-center space-x-2">
+                  <div className="relative flex items-center space-x-2">
+                    <button
+                      onClick={() =>
+                        updateTask.mutate({
+                          taskId: task.id,
+                          enabled: !task.enabled,
+                        })
+                      }
+                      disabled={isUpdatingTask}
+                      className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {task.enabled ? "禁用" : "启用"}
+                    </button>
+                    {task.enabled &&
+                      (task.paused ? (
+                        <button
+                          onClick={() => resumeTask.mutate({ taskId: task.id })}
+                          disabled={isUpdatingTask}
+                          className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <PlayIcon className="mr-1 h-4 w-4" />
+                          恢复
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() =>
+                            setPauseMenuTaskId(
+                              pauseMenuTaskId === task.id ? null : task.id,
+                            )
+                          }
+                          disabled={isUpdatingTask}
+                          className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <PauseIcon className="mr-1 h-4 w-4" />
+                          暂停
+                        </button>
+                      ))}
+                    {pauseMenuTaskId === task.id && (
+                      <div className="absolute top-full right-0 z-10 mt-1 w-40 rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+                        {PAUSE_OPTIONS.map((option) => (
+                          <button
+                            key={option.label}
+                            onClick={() =>
+                              handlePauseTask(task.id, option.hours)
+                            }
+                            className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     <button
                       onClick={() => handleExecuteTask(task.id)}
                       disabled={executeTask.isPending}
@@ -267,6 +544,9 @@ function SchedulerPage() {
           </div>
         </div>
 
+        {/* 执行历史 */}
+        <SchedulerRunHistory tasks={schedulerStatus?.data.tasks ?? []} />
+
         {/* 手动操作区域 */}
         <div className="rounded-lg border border-gray-200 bg-white p-6">
           <h3 className="mb-2 text-lg font-medium text-gray-900">手动操作</h3>
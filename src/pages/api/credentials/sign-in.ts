@@ -0,0 +1,72 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { z } from "zod";
+
+import { credentialsSignInSchema } from "@/server/api/schemas/account";
+import {
+  createUserSession,
+  getClientIp,
+  getSafeCallbackUrl,
+  setSessionCookie,
+} from "@/server/auth/session";
+import { db } from "@/server/db";
+import { authenticateWithPassword } from "@/server/services/credentials-auth";
+import { serverLoggers } from "@/utils/logger-server";
+
+const requestSchema = credentialsSignInSchema.extend({
+  callbackUrl: z.string().optional(),
+});
+
+/**
+ * 邮箱密码登录
+ * 在 Pages Router 中处理以便取得连接的对端地址，按 IP 限流不依赖客户端可伪造的请求头；
+ * 登录成功后与邮箱链接登录一样创建 NextAuth 数据库会话
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const parsed = requestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res
+      .status(400)
+      .json({ error: parsed.error.errors[0]?.message ?? "参数错误" });
+  }
+
+  try {
+    const result = await authenticateWithPassword(db, {
+      email: parsed.data.email,
+      password: parsed.data.password,
+      ipAddress: getClientIp(
+        req.headers["x-forwarded-for"],
+        req.socket.remoteAddress,
+      ),
+    });
+
+    if (result.status === "rate_limited") {
+      return res
+        .status(429)
+        .json({ error: "登录失败次数过多，请 15 分钟后再试" });
+    }
+    if (result.status === "invalid") {
+      return res.status(401).json({ error: "邮箱或密码不正确" });
+    }
+
+    const session = await createUserSession(db, result.user.id);
+    setSessionCookie(req, res, session);
+
+    return res.status(200).json({
+      success: true,
+      url: getSafeCallbackUrl(parsed.data.callbackUrl),
+    });
+  } catch (error) {
+    serverLoggers.auth.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      "邮箱密码登录出错",
+    );
+    return res.status(500).json({ error: "登录失败，请稍后再试" });
+  }
+}
@@ -0,0 +1,79 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { z } from "zod";
+
+import {
+  getAppOrigin,
+  getClientIp,
+  getSafeCallbackUrl,
+} from "@/server/auth/session";
+import { db } from "@/server/db";
+import {
+  isMagicLinkRequestRateLimited,
+  requestMagicLink,
+} from "@/server/services/magic-link";
+import { serverLoggers } from "@/utils/logger-server";
+
+const requestSchema = z.object({
+  email: z.string().trim().email("邮箱格式不正确"),
+  callbackUrl: z.string().optional(),
+});
+
+/**
+ * 申请邮箱登录链接
+ * 无论邮箱是否注册、邮件是否发送成功，都在相同时机返回相同的提示，避免被用来探测注册邮箱
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const parsed = requestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res
+      .status(400)
+      .json({ error: parsed.error.errors[0]?.message ?? "参数错误" });
+  }
+
+  const baseUrl = getAppOrigin();
+  if (!baseUrl) {
+    serverLoggers.auth.error("未配置 NEXTAUTH_URL，无法发送邮箱登录链接");
+    return res.status(500).json({ error: "邮箱登录暂不可用，请联系管理员" });
+  }
+
+  try {
+    const ipAddress = getClientIp(
+      req.headers["x-forwarded-for"],
+      req.socket.remoteAddress,
+    );
+    if (await isMagicLinkRequestRateLimited(db, ipAddress)) {
+      return res.status(429).json({ error: "请求过于频繁，请稍后再试" });
+    }
+  } catch (error) {
+    serverLoggers.auth.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      "检查邮箱登录链接申请频率失败",
+    );
+    return res.status(500).json({ error: "发送登录链接失败，请稍后再试" });
+  }
+
+  // 查询用户和发送邮件在后台进行，不等待完成：已注册邮箱需要等待发送邮件，等待会让响应时间泄露邮箱是否注册；
+  // 发送失败只记录日志。发送过于频繁（throttled）同理按成功处理
+  void requestMagicLink(db, {
+    email: parsed.data.email,
+    baseUrl,
+    callbackUrl: getSafeCallbackUrl(parsed.data.callbackUrl),
+  }).catch((error: unknown) => {
+    serverLoggers.auth.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      "发送邮箱登录链接失败",
+    );
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: "如果该邮箱已注册，登录链接已发送，请查收邮件",
+  });
+}
@@ -0,0 +1,69 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+
+import {
+  createUserSession,
+  getSafeCallbackUrl,
+  isSameOriginRequest,
+  setSessionCookie,
+} from "@/server/auth/session";
+import { db } from "@/server/db";
+import { consumeMagicLinkToken } from "@/server/services/magic-link";
+import { serverLoggers } from "@/utils/logger-server";
+
+/**
+ * 通过邮件中的登录链接登录
+ * GET 只跳转到确认页（邮件安全网关、链接预览会预取链接，不能在 GET 时消费令牌），
+ * 确认页以表单 POST 提交令牌：令牌有效时创建 NextAuth 会话并跳转到 callbackUrl，否则跳转回首页提示错误；
+ * 只接受本站确认页提交的请求，防止登录 CSRF
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method === "GET") {
+    const params = new URLSearchParams();
+    for (const key of ["token", "callbackUrl"]) {
+      const value = req.query[key];
+      if (typeof value === "string") {
+        params.set(key, value);
+      }
+    }
+    return res.redirect(302, `/magic-link?${params.toString()}`);
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  if (!isSameOriginRequest(req)) {
+    serverLoggers.auth.warn(
+      { origin: req.headers.origin, referer: req.headers.referer },
+      "邮箱链接登录：请求来源不是本站，已拒绝",
+    );
+    return res.redirect(303, "/?magicLinkError=invalid");
+  }
+
+  const { token, callbackUrl } = (req.body ?? {}) as Record<string, unknown>;
+  if (typeof token !== "string" || !token) {
+    return res.redirect(303, "/?magicLinkError=invalid");
+  }
+
+  try {
+    const userId = await consumeMagicLinkToken(db, token);
+    if (!userId) {
+      return res.redirect(303, "/?magicLinkError=invalid");
+    }
+
+    const session = await createUserSession(db, userId);
+    setSessionCookie(req, res, session);
+
+    serverLoggers.auth.info({ userId }, "邮箱链接登录成功");
+    return res.redirect(303, getSafeCallbackUrl(callbackUrl));
+  } catch (error) {
+    serverLoggers.auth.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      "邮箱链接登录失败",
+    );
+    return res.redirect(303, "/?magicLinkError=failed");
+  }
+}
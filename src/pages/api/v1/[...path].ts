@@ -0,0 +1,16 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+
+import { handleRestRequest } from "@/server/api/rest/handler";
+
+/**
+ * REST API v1 入口，接口定义见 src/server/api/rest/routes.ts
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  const { path } = req.query;
+  const segments = Array.isArray(path) ? path : path ? [path] : [];
+
+  await handleRestRequest(req, res, segments);
+}
@@ -0,0 +1,16 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+
+import { generateOpenApiDocument } from "@/server/api/rest/openapi";
+import { getAppOrigin } from "@/server/auth/session";
+
+/**
+ * REST API v1 的 OpenAPI 文档
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // 未配置访问地址时使用相对路径
+  return res.status(200).json(generateOpenApiDocument(getAppOrigin() ?? ""));
+}
@@ -12,6 +12,7 @@ import {
   DocumentTextIcon,
   PlusIcon,
   PlayIcon,
+  SparklesIcon,
 } from "@heroicons/react/24/outline";
 import { TaskStatus } from "@prisma/client";
 
@@ -20,9 +21,11 @@ import MainLayout from "@/components/Layout/MainLayout";
 import AuthGuard from "@/components/Layout/AuthGuard";
 import { QueryLoading, SectionLoading } from "@/components/UI";
 import { usePageRefresh } from "@/hooks/usePageRefresh";
+import FollowUpRemindersCard from "@/components/Tasks/FollowUpRemindersCard";
 import TaskModal from "@/components/Tasks/TaskModal";
 import ActivityHeatmap from "@/components/Charts/ActivityHeatmap";
 import PinnedNotesCarousel from "@/components/Home/PinnedNotesCarousel";
+import { StalledProjectsCard } from "@/components/Projects";
 
 // 任务标题hover显示组件
 interface TaskTitleHoverProps {
@@ -87,7 +90,7 @@ const Home: NextPage = () => {
     error: tasksError,
     refetch: refetchTasks,
   } = api.task.getAll.useQuery(
-    { limit: 5 },
+    { limit: 5, hideDeferred: true },
     {
       enabled: !!sessionData,
       staleTime: 2 * 60 * 1000, // 2分钟内不重新获取
@@ -187,6 +190,16 @@ const Home: NextPage = () => {
     },
   );
 
+  // 将来/也许清单的回顾提醒
+  const { data: somedayReview } = api.someday.getReviewStatus.useQuery(
+    undefined,
+    {
+      enabled: !!sessionData,
+      staleTime: 5 * 60 * 1000, // 5分钟内不重新获取
+      refetchOnWindowFocus: false,
+    },
+  );
+
   // 计算总的加载状态
   const isLoading =
     isLoadingStats ||
@@ -290,6 +303,20 @@ const Home: NextPage = () => {
         </Head>
 
         <div className="space-y-6">
+          {/* 将来/也许回顾提醒 */}
+          {somedayReview?.isDue && (
+            <Link
+              href="/tasks/someday"
+              className="flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 hover:bg-amber-100"
+            >
+              <SparklesIcon className="h-5 w-5 flex-shrink-0" />
+              <span>
+                将来/也许清单中有 {somedayReview.count}{" "}
+                个事项，已经一段时间没有回顾了，看看哪些可以开始行动
+              </span>
+            </Link>
+          )}
+
           {/* 欢迎区域 - 左右分割布局 */}
           <div className="overflow-hidden rounded-lg bg-white shadow">
             <div className="px-4 py-5 sm:p-6">
@@ -492,6 +519,12 @@ const Home: NextPage = () => {
             </div>
           </div>
 
+          {/* 等待跟进提醒 */}
+          <FollowUpRemindersCard enabled={!!sessionData} />
+
+          {/* 停滞项目 */}
+          <StalledProjectsCard enabled={!!sessionData} />
+
           {/* 活动热力图 */}
           <div className="overflow-hidden rounded-lg bg-white shadow">
             <div className="px-4 py-5 sm:p-6">
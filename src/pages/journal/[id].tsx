@@ -111,7 +111,7 @@ const JournalDetailPage: NextPage = () => {
   const handleDelete = async () => {
     const confirmed = await showConfirm({
       title: "删除日记",
-      message: "确定要删除这篇日记吗？此操作无法撤销。",
+      message: "确定要删除这篇日记吗？删除后可以在回收站中恢复。",
       confirmText: "删除",
       cancelText: "取消",
       type: "danger",
@@ -197,7 +197,7 @@ const JournalListPage: NextPage = () => {
 
     const confirmed = await showConfirm({
       title: "删除日记",
-      message: `确定要删除 ${new Date(journal.date).toLocaleDateString("zh-CN")} 的日记吗？此操作无法撤销。`,
+      message: `确定要删除 ${new Date(journal.date).toLocaleDateString("zh-CN")} 的日记吗？删除后可以在回收站中恢复。`,
       confirmText: "删除",
       cancelText: "取消",
       type: "danger",
@@ -214,7 +214,7 @@ const JournalListPage: NextPage = () => {
 
     const confirmed = await showConfirm({
       title: "批量删除日记",
-      message: `确定要删除选中的 ${selectedJournals.size} 篇日记吗？此操作无法撤销。`,
+      message: `确定要删除选中的 ${selectedJournals.size} 篇日记吗？删除后可以在回收站中恢复。`,
       confirmText: "删除",
       cancelText: "取消",
       type: "danger",
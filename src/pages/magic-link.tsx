@@ -0,0 +1,73 @@
+/**
+ * 邮箱链接登录确认页面
+ *
+ * 邮件中的登录链接指向本页，用户点击按钮后才提交令牌完成登录，
+ * 避免邮件安全网关、链接预览预取链接时提前消费一次性令牌
+ */
+
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+
+export default function MagicLinkPage() {
+  const router = useRouter();
+  const token =
+    typeof router.query.token === "string" ? router.query.token : "";
+  const callbackUrl =
+    typeof router.query.callbackUrl === "string"
+      ? router.query.callbackUrl
+      : "";
+
+  return (
+    <>
+      <Head>
+        <title>邮箱链接登录 | Infer GTD</title>
+      </Head>
+
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="w-full max-w-md space-y-6">
+          <div className="text-center">
+            <h2 className="mt-6 text-3xl font-bold tracking-tight text-gray-900">
+              邮箱链接登录
+            </h2>
+          </div>
+
+          {router.isReady && !token ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-red-600">
+                登录链接无效，请在登录页重新申请
+              </p>
+              <Link
+                href="/"
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                返回登录
+              </Link>
+            </div>
+          ) : (
+            <form
+              method="post"
+              action="/api/magic-link/verify"
+              className="space-y-3"
+            >
+              <input type="hidden" name="token" value={token} />
+              {callbackUrl && (
+                <input type="hidden" name="callbackUrl" value={callbackUrl} />
+              )}
+              <p className="text-center text-sm text-gray-600">
+                点击下面的按钮完成登录，登录链接只能使用一次
+              </p>
+              <button
+                type="submit"
+                disabled={!token}
+                className="flex w-full justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                继续登录
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -114,7 +114,7 @@ const NoteDetailPage: NextPage = () => {
 
     const confirmed = await showConfirm({
       title: "确认删除笔记",
-      message: `确定要删除笔记"${note.title}"吗？\n\n此操作无法撤销，笔记的所有内容都将被永久删除。`,
+      message: `确定要删除笔记"${note.title}"吗？\n\n删除后可以在回收站中恢复。`,
       confirmText: "删除",
       cancelText: "取消",
       type: "danger",
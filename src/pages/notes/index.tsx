@@ -232,7 +232,7 @@ const NotesPage: NextPage = () => {
 
     const confirmed = await showConfirm({
       title: "确认删除笔记",
-      message: `确定要删除笔记"${noteTitle}"吗？\n\n此操作无法撤销，笔记的所有内容都将被永久删除。`,
+      message: `确定要删除笔记"${noteTitle}"吗？\n\n删除后可以在回收站中恢复。`,
       confirmText: "删除",
       cancelText: "取消",
       type: "danger",
@@ -304,7 +304,7 @@ const NotesPage: NextPage = () => {
     const noteCount = selectedNotes.size;
     const confirmed = await showConfirm({
       title: "确认删除笔记",
-      message: `确定要删除选中的 ${noteCount} 篇笔记吗？\n\n删除后无法恢复，请谨慎操作。`,
+      message: `确定要删除选中的 ${noteCount} 篇笔记吗？\n\n删除后可以在回收站中恢复。`,
       confirmText: "删除",
       cancelText: "取消",
       type: "danger",
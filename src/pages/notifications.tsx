@@ -0,0 +1,160 @@
+/**
+ * 通知中心页面
+ *
+ * 功能：
+ * 1. 查看全部或未读的站内通知
+ * 2. 点击通知标记已读并跳转到相关内容
+ * 3. 全部标记为已读
+ */
+
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useState } from "react";
+import { BellIcon } from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import MainLayout from "@/components/Layout/MainLayout";
+import AuthGuard from "@/components/Layout/AuthGuard";
+import { SectionLoading } from "@/components/UI";
+import { NotificationItem } from "@/components/Notifications";
+import { useNotificationCenter } from "@/hooks/useNotificationCenter";
+import { usePageRefresh } from "@/hooks/usePageRefresh";
+
+const NotificationsPage: NextPage = () => {
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const {
+    openNotification,
+    markNotificationRead,
+    markAllRead,
+    isMarkingAllRead,
+  } = useNotificationCenter();
+
+  const { data: unread } = api.notification.getUnreadCount.useQuery();
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = api.notification.getAll.useInfiniteQuery(
+    { limit: 20, unreadOnly },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor },
+  );
+
+  usePageRefresh(() => {
+    void refetch();
+  }, [refetch]);
+
+  const notifications = data?.pages.flatMap((page) => page.notifications) ?? [];
+  const unreadCount = unread?.count ?? 0;
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <Head>
+          <title>通知 | Infer GTD</title>
+          <meta name="description" content="任务截止、日记、周回顾和跟进提醒" />
+        </Head>
+
+        <div className="space-y-6">
+          {/* 页面标题 */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+                <BellIcon className="h-7 w-7 text-gray-500" />
+                通知
+              </h1>
+              <p className="mt-1 text-sm text-gray-500">
+                可以在
+                <Link
+                  href="/settings"
+                  className="mx-1 text-blue-600 hover:text-blue-800"
+                >
+                  设置
+                </Link>
+                中选择接收哪些提醒以及提醒时间
+              </p>
+            </div>
+            <button
+              onClick={markAllRead}
+              disabled={unreadCount === 0 || isMarkingAllRead}
+              className="inline-flex items-center gap-2 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              全部标为已读
+            </button>
+          </div>
+
+          {/* 筛选 */}
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex space-x-6">
+              {[
+                { value: false, label: "全部" },
+                { value: true, label: "未读" },
+              ].map((tab) => (
+                <button
+                  key={tab.label}
+                  onClick={() => setUnreadOnly(tab.value)}
+                  className={`flex items-center gap-2 border-b-2 px-1 py-3 text-sm font-medium ${
+                    unreadOnly === tab.value
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                  }`}
+                >
+                  {tab.label}
+                  {tab.value && unreadCount > 0 && (
+                    <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs text-red-700">
+                      {unreadCount}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {/* 通知列表 */}
+          {isLoading ? (
+            <SectionLoading message="加载通知中..." />
+          ) : notifications.length > 0 ? (
+            <div className="divide-y divide-gray-100 overflow-hidden rounded-lg border border-gray-200 bg-white">
+              {notifications.map((notification) => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onOpen={openNotification}
+                  onMarkRead={markNotificationRead}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <BellIcon className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                {unreadOnly ? "没有未读通知" : "暂无通知"}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                任务即将到期、逾期或需要跟进时，会在这里提醒你
+              </p>
+            </div>
+          )}
+
+          {hasNextPage && (
+            <div className="text-center">
+              <button
+                onClick={() => void fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isFetchingNextPage ? "加载中..." : "加载更多"}
+              </button>
+            </div>
+          )}
+        </div>
+      </MainLayout>
+    </AuthGuard>
+  );
+};
+
+export default NotificationsPage;
@@ -30,6 +30,7 @@ import {
   ProjectModal,
   ProjectTaskList,
   ProjectNoteList,
+  StalledProjectBadges,
 } from "@/components/Projects";
 import TaskModal from "@/components/Tasks/TaskModal";
 import { NoteModal } from "@/components/Notes";
@@ -46,6 +47,10 @@ const TASK_STATUS_CONFIG = {
     label: "等待中",
     color: "bg-purple-100 text-purple-800",
   },
+  [TaskStatus.SOMEDAY]: {
+    label: "将来/也许",
+    color: "bg-teal-100 text-teal-800",
+  },
   [TaskStatus.DONE]: { label: "已完成", color: "bg-green-100 text-green-800" },
   [TaskStatus.ARCHIVED]: {
     label: "已归档",
@@ -182,7 +187,7 @@ const ProjectDetailPage: NextPage = () => {
     const noteCount = project._count?.notes || 0;
     const hasRelatedContent = taskCount > 0 || noteCount > 0;
 
-    let confirmMessage = `确定要删除项目 "${project.name}" 吗？此操作不可撤销。`;
+    let confirmMessage = `确定要删除项目 "${project.name}" 吗？删除后可以在回收站中恢复。`;
     let confirmTitle = "删除项目";
 
     if (hasRelatedContent) {
@@ -346,6 +351,9 @@ const ProjectDetailPage: NextPage = () => {
                                 已归档
                               </span>
                             )}
+                            <StalledProjectBadges
+                              stall={projectStats?.stall ?? null}
+                            />
                           </div>
                           {project.description && (
                             <p className="mt-2 text-gray-600">
@@ -449,6 +457,23 @@ const ProjectDetailPage: NextPage = () => {
                               ? `${Math.round(projectStats.completionRate)}%`
                               : "0%"}
                           </p>
+                          {projectStats &&
+                            projectStats.subtaskProgress.totalSubtasks +
+                              projectStats.subtaskProgress.totalChecklistItems >
+                              0 && (
+                              <p className="mt-1 text-xs text-gray-500">
+                                子项进度{" "}
+                                {projectStats.subtaskProgress
+                                  .completedSubtasks +
+                                  projectStats.subtaskProgress
+                                    .completedChecklistItems}
+                                /
+                                {projectStats.subtaskProgress.totalSubtasks +
+                                  projectStats.subtaskProgress
+                                    .totalChecklistItems}
+                                （{projectStats.subtaskProgress.percent}%）
+                              </p>
+                            )}
                         </div>
                       </div>
                     </div>
@@ -1,13 +1,11 @@
 import { type NextPage } from "next";
 import Head from "next/head";
-import Link from "next/link";
 import { useRouter } from "next/router";
 import { useSession } from "next-auth/react";
 import { useState, useMemo, useEffect } from "react";
 import {
   PlusIcon,
   MagnifyingGlassIcon,
-  FunnelIcon,
   Squares2X2Icon,
   ListBulletIcon,
   ArchiveBoxIcon,
@@ -23,21 +21,23 @@ import {
 import { Menu, Transition } from "@headlessui/react";
 import { Fragment } from "react";
 
-import { api } from "@/utils/api";
+import { api, type RouterOutputs } from "@/utils/api";
 import MainLayout from "@/components/Layout/MainLayout";
 import AuthGuard from "@/components/Layout/AuthGuard";
 import { QueryLoading, SectionLoading, ConfirmModal } from "@/components/UI";
 import { usePageRefresh } from "@/hooks/usePageRefresh";
 import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
 import { useConfirm } from "@/hooks/useConfirm";
-import { ProjectModal } from "@/components/Projects";
+import { ProjectModal, StalledProjectBadges } from "@/components/Projects";
 
 // 视图模式类型
 type ViewMode = "grid" | "list";
 
+type ProjectListItem = RouterOutputs["project"]["getAll"]["projects"][number];
+
 // 项目卡片组件
 interface ProjectCardProps {
-  project: any;
+  project: ProjectListItem;
   viewMode: ViewMode;
   onEdit: () => void;
   onArchive: () => void;
@@ -87,6 +87,7 @@ function ProjectCard({
                   已归档
                 </span>
               )}
+              <StalledProjectBadges stall={project.stall} className="mt-1" />
             </div>
           </div>
 
@@ -211,6 +212,7 @@ function ProjectCard({
                 已归档
               </span>
             )}
+            <StalledProjectBadges stall={project.stall} />
           </div>
           {project.description && (
             <p className="mt-1 line-clamp-1 text-sm text-gray-600">
@@ -316,6 +318,7 @@ const ProjectsPage: NextPage = () => {
   // 状态管理
   const [searchQuery, setSearchQuery] = useState("");
   const [includeArchived, setIncludeArchived] = useState(false);
+  const [stalledOnly, setStalledOnly] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>("grid");
   const [isProjectModalOpen, setIsProjectModalOpen] = useState(false);
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
@@ -326,11 +329,19 @@ const ProjectsPage: NextPage = () => {
     () => ({
       search: searchQuery.trim() || undefined,
       includeArchived,
+      stalledOnly,
       limit: 20,
     }),
-    [searchQuery, includeArchived],
+    [searchQuery, includeArchived, stalledOnly],
   );
 
+  // 从首页等入口带 ?filter=stalled 进入时只看停滞项目
+  useEffect(() => {
+    if (router.isReady && router.query.filter === "stalled") {
+      setStalledOnly(true);
+    }
+  }, [router.isReady, router.query.filter]);
+
   // 获取项目数据 - 使用无限查询支持分页
   const {
     data: projectsData,
@@ -426,7 +437,7 @@ const ProjectsPage: NextPage = () => {
     const noteCount = project._count?.notes || 0;
     const hasRelatedContent = taskCount > 0 || noteCount > 0;
 
-    let confirmMessage = `确定要删除项目 "${project.name}" 吗？此操作不可撤销。`;
+    let confirmMessage = `确定要删除项目 "${project.name}" 吗？删除后可以在回收站中恢复。`;
     let confirmTitle = "删除项目";
 
     if (hasRelatedContent) {
@@ -546,6 +557,17 @@ const ProjectsPage: NextPage = () => {
                   />
                   <span className="ml-2 text-sm text-gray-700">包含已归档</span>
                 </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={stalledOnly}
+                    onChange={(e) => setStalledOnly(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    只看停滞项目
+                  </span>
+                </label>
               </div>
             </div>
 
@@ -620,10 +642,12 @@ const ProjectsPage: NextPage = () => {
               <div className="py-12 text-center">
                 <FolderIcon className="mx-auto h-12 w-12 text-gray-400" />
                 <h3 className="mt-2 text-sm font-medium text-gray-900">
-                  暂无项目
+                  {stalledOnly ? "没有停滞的项目" : "暂无项目"}
                 </h3>
                 <p className="mt-1 text-sm text-gray-500">
-                  开始创建您的第一个项目来组织工作
+                  {stalledOnly
+                    ? "每个活跃项目都有下一步行动，并且最近有更新"
+                    : "开始创建您的第一个项目来组织工作"}
                 </p>
                 <div className="mt-6">
                   <button
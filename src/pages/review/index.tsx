@@ -1,6 +1,7 @@
 import { type NextPage } from "next";
 import { useSession } from "next-auth/react";
 import Head from "next/head";
+import Link from "next/link";
 import { useState, useMemo, useCallback } from "react";
 import {
   ChevronLeftIcon,
@@ -13,6 +14,7 @@ import {
   CalendarIcon,
   TableCellsIcon,
   PresentationChartLineIcon,
+  ClipboardDocumentCheckIcon,
 } from "@heroicons/react/24/outline";
 
 import { api } from "@/utils/api";
@@ -28,6 +30,7 @@ import {
   DailyCompletionChart,
 } from "@/components/Charts";
 import { usePageRefresh } from "@/hooks/usePageRefresh";
+import SomedayReviewPanel from "@/components/Tasks/SomedayReviewPanel";
 import { TaskStatus, type Priority } from "@prisma/client";
 import {
   getUTCDateRange,
@@ -252,6 +255,7 @@ const TaskReviewPage: NextPage = () => {
       TODO: 0,
       IN_PROGRESS: 0,
       WAITING: 0,
+      SOMEDAY: 0,
       DONE: 0,
       ARCHIVED: 0,
     };
@@ -522,6 +526,14 @@ const TaskReviewPage: NextPage = () => {
 
             {/* 时间范围选择器和图表切换 */}
             <div className="flex items-center gap-4">
+              <Link
+                href="/review/weekly"
+                className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700"
+              >
+                <ClipboardDocumentCheckIcon className="h-4 w-4" />
+                周回顾向导
+              </Link>
+
               <div className="flex rounded-lg border border-gray-300 bg-white">
                 {(Object.keys(TIME_RANGE_CONFIG) as TimeRange[]).map(
                   (range) => (
@@ -798,6 +810,7 @@ const TaskReviewPage: NextPage = () => {
                               "TODO",
                               "IN_PROGRESS",
                               "WAITING",
+                              "SOMEDAY",
                               "DONE",
                               "ARCHIVED",
                             ] as TaskStatus[]
@@ -813,6 +826,7 @@ const TaskReviewPage: NextPage = () => {
                               TODO: "bg-blue-500",
                               IN_PROGRESS: "bg-yellow-500",
                               WAITING: "bg-purple-500",
+                              SOMEDAY: "bg-teal-500",
                               DONE: "bg-green-500",
                               ARCHIVED: "bg-gray-400",
                             };
@@ -821,6 +835,7 @@ const TaskReviewPage: NextPage = () => {
                               TODO: "待处理",
                               IN_PROGRESS: "进行中",
                               WAITING: "等待中",
+                              SOMEDAY: "将来/也许",
                               DONE: "已完成",
                               ARCHIVED: "已归档",
                             };
@@ -1047,6 +1062,9 @@ const TaskReviewPage: NextPage = () => {
                       </div>
                     )}
 
+                    {/* 将来/也许回顾 */}
+                    <SomedayReviewPanel />
+
                     {/* 数据详情表格 */}
                     <div className="space-y-6">
                       {/* 优先级分布数据表 */}
@@ -1144,6 +1162,10 @@ const TaskReviewPage: NextPage = () => {
                                   color: "#f59e0b",
                                 },
                                 WAITING: { label: "等待中", color: "#f97316" },
+                                SOMEDAY: {
+                                  label: "将来/也许",
+                                  color: "#14b8a6",
+                                },
                                 DONE: { label: "已完成", color: "#10b981" },
                                 ARCHIVED: { label: "已归档", color: "#6b7280" },
                               }).map(([status, config]) => {
@@ -0,0 +1,391 @@
+/**
+ * 周回顾向导页面
+ *
+ * 功能：
+ * 1. 按 GTD 周回顾的步骤逐步处理：清空收集箱、下一步行动、等待清单、缺少下一步的项目、将来/也许、未来日程
+ * 2. 每一步列出相关事项并提供快捷操作
+ * 3. 回顾进度随时保存，可以中途离开后继续
+ * 4. 完成时记录笔记、用时和各步骤的事项数量，查看历史回顾
+ */
+
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  ArrowLeftIcon,
+  ArrowRightIcon,
+  CheckCircleIcon,
+  CheckIcon,
+  ClipboardDocumentCheckIcon,
+  PlayIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import MainLayout from "@/components/Layout/MainLayout";
+import AuthGuard from "@/components/Layout/AuthGuard";
+import { ConfirmModal, SectionLoading } from "@/components/UI";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { useConfirm } from "@/hooks";
+import { usePageRefresh } from "@/hooks/usePageRefresh";
+import {
+  WeeklyReviewHistory,
+  WeeklyReviewStepItems,
+} from "@/components/Review";
+import {
+  WEEKLY_REVIEW_STEP_LABELS,
+  WEEKLY_REVIEW_STEPS,
+  type WeeklyReviewStep,
+} from "@/server/api/schemas/weekly-review";
+
+const isWeeklyReviewStep = (value: string): value is WeeklyReviewStep =>
+  (WEEKLY_REVIEW_STEPS as readonly string[]).includes(value);
+
+const WeeklyReviewPage: NextPage = () => {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const { confirmState, showConfirm, hideConfirm } = useConfirm();
+  const utils = api.useContext();
+
+  const [notes, setNotes] = useState("");
+
+  const {
+    data: review,
+    isLoading,
+    refetch: refetchCurrent,
+  } = api.weeklyReview.getCurrent.useQuery();
+  const { data: counts, refetch: refetchCounts } =
+    api.weeklyReview.getCounts.useQuery();
+
+  usePageRefresh(() => {
+    void refetchCurrent();
+    void refetchCounts();
+    void utils.weeklyReview.getStepItems.invalidate();
+    void utils.weeklyReview.getHistory.invalidate();
+  }, [refetchCurrent, refetchCounts]);
+
+  // 加载回顾或笔记保存后同步笔记
+  const savedNotes = review?.notes ?? "";
+  useEffect(() => {
+    setNotes(savedNotes);
+  }, [review?.id, savedNotes]);
+
+  const currentStep: WeeklyReviewStep =
+    review && isWeeklyReviewStep(review.currentStep)
+      ? review.currentStep
+      : WEEKLY_REVIEW_STEPS[0];
+  const completedSteps = (review?.completedSteps ?? []).filter(
+    isWeeklyReviewStep,
+  );
+  const stepIndex = WEEKLY_REVIEW_STEPS.indexOf(currentStep);
+  const isLastStep = stepIndex === WEEKLY_REVIEW_STEPS.length - 1;
+
+  const startReview = api.weeklyReview.start.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      void utils.weeklyReview.getCurrent.invalidate();
+    },
+    onError: (error) => {
+      showError(error.message || "开始回顾失败");
+    },
+  });
+
+  const updateProgress = api.weeklyReview.updateProgress.useMutation({
+    onSuccess: (updated) => {
+      utils.weeklyReview.getCurrent.setData(undefined, updated);
+    },
+    onError: (error) => {
+      showError(error.message || "保存回顾进度失败");
+    },
+  });
+
+  const completeReview = api.weeklyReview.complete.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      setNotes("");
+      void utils.weeklyReview.invalidate();
+      void utils.someday.getReviewStatus.invalidate();
+    },
+    onError: (error) => {
+      showError(error.message || "完成回顾失败");
+    },
+  });
+
+  const discardReview = api.weeklyReview.discard.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      setNotes("");
+      void utils.weeklyReview.getCurrent.invalidate();
+    },
+    onError: (error) => {
+      showError(error.message || "放弃回顾失败");
+    },
+  });
+
+  // 跳转到指定步骤，前进时把当前步骤标记为已完成
+  const goToStep = (step: WeeklyReviewStep) => {
+    if (!review || step === currentStep) return;
+
+    const movingForward =
+      WEEKLY_REVIEW_STEPS.indexOf(step) >
+      WEEKLY_REVIEW_STEPS.indexOf(currentStep);
+    updateProgress.mutate({
+      id: review.id,
+      currentStep: step,
+      completedSteps: movingForward
+        ? [...completedSteps, currentStep]
+        : completedSteps,
+      notes,
+    });
+  };
+
+  const handleSaveNotes = () => {
+    if (!review || notes === (review.notes ?? "")) return;
+    updateProgress.mutate({
+      id: review.id,
+      currentStep,
+      notes,
+    });
+  };
+
+  const handleComplete = () => {
+    if (!review) return;
+    completeReview.mutate({ id: review.id, notes });
+  };
+
+  const handleDiscard = async () => {
+    if (!review) return;
+
+    const confirmed = await showConfirm({
+      title: "放弃回顾",
+      message: "确定要放弃这次回顾吗？\n\n回顾进度和笔记不会被保存。",
+      confirmText: "放弃",
+      cancelText: "取消",
+      type: "danger",
+    });
+
+    if (confirmed) {
+      discardReview.mutate({ id: review.id });
+    }
+  };
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <Head>
+          <title>周回顾 | Infer GTD</title>
+          <meta name="description" content="GTD 周回顾向导" />
+        </Head>
+
+        <div className="space-y-6">
+          {/* 页面标题 */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+                <ClipboardDocumentCheckIcon className="h-7 w-7 text-blue-500" />
+                周回顾
+              </h1>
+              <p className="mt-1 text-sm text-gray-500">
+                每周一次，清空收集箱、更新清单，让系统重新值得信赖
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/review"
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                返回任务回顾
+              </Link>
+              {review && (
+                <button
+                  onClick={() => void handleDiscard()}
+                  disabled={discardReview.isPending}
+                  className="inline-flex items-center gap-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                  放弃回顾
+                </button>
+              )}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <SectionLoading message="正在加载周回顾..." />
+          ) : !review ? (
+            <>
+              {/* 开始回顾 */}
+              <div className="rounded-lg border border-gray-200 bg-white p-6">
+                <h2 className="text-lg font-medium text-gray-900">
+                  开始一次新的周回顾
+                </h2>
+                <p className="mt-1 text-sm text-gray-500">
+                  按顺序走完以下步骤，每一步都可以直接处理列出的事项，中途离开后可以继续
+                </p>
+                <ol className="mt-4 grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                  {WEEKLY_REVIEW_STEPS.map((step, index) => (
+                    <li
+                      key={step}
+                      className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2 text-sm"
+                    >
+                      <span className="text-gray-700">
+                        {index + 1}. {WEEKLY_REVIEW_STEP_LABELS[step]}
+                      </span>
+                      <span className="rounded-full bg-white px-2 py-0.5 text-xs text-gray-600">
+                        {counts?.[step] ?? "-"}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+                <button
+                  onClick={() => startReview.mutate()}
+                  disabled={startReview.isPending}
+                  className="mt-6 inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <PlayIcon className="h-4 w-4" />
+                  {startReview.isPending ? "正在开始..." : "开始回顾"}
+                </button>
+              </div>
+
+              <WeeklyReviewHistory />
+            </>
+          ) : (
+            <>
+              {/* 步骤导航 */}
+              <nav className="overflow-x-auto rounded-lg border border-gray-200 bg-white p-2">
+                <ol className="flex min-w-max gap-1">
+                  {WEEKLY_REVIEW_STEPS.map((step, index) => {
+                    const isCurrent = step === currentStep;
+                    const isDone = completedSteps.includes(step);
+                    return (
+                      <li key={step}>
+                        <button
+                          onClick={() => goToStep(step)}
+                          disabled={updateProgress.isPending}
+                          className={`flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+                            isCurrent
+                              ? "bg-blue-600 text-white"
+                              : isDone
+                                ? "text-green-700 hover:bg-green-50"
+                                : "text-gray-600 hover:bg-gray-50"
+                          }`}
+                        >
+                          <span
+                            className={`flex h-5 w-5 items-center justify-center rounded-full text-xs ${
+                              isCurrent
+                                ? "bg-white text-blue-600"
+                                : isDone
+                                  ? "bg-green-100 text-green-700"
+                                  : "bg-gray-100 text-gray-600"
+                            }`}
+                          >
+                            {isDone && !isCurrent ? (
+                              <CheckIcon className="h-3 w-3" />
+                            ) : (
+                              index + 1
+                            )}
+                          </span>
+                          {WEEKLY_REVIEW_STEP_LABELS[step]}
+                          <span
+                            className={`rounded-full px-1.5 text-xs ${
+                              isCurrent ? "bg-blue-500" : "bg-gray-100"
+                            }`}
+                          >
+                            {counts?.[step] ?? "-"}
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </nav>
+
+              {/* 当前步骤 */}
+              <div className="rounded-lg border border-gray-200 bg-white p-6">
+                <h2 className="mb-2 text-lg font-medium text-gray-900">
+                  第 {stepIndex + 1} 步：
+                  {WEEKLY_REVIEW_STEP_LABELS[currentStep]}
+                </h2>
+                <WeeklyReviewStepItems key={currentStep} step={currentStep} />
+              </div>
+
+              {/* 回顾笔记 */}
+              <div className="rounded-lg border border-gray-200 bg-white p-6">
+                <label
+                  htmlFor="weeklyReviewNotes"
+                  className="mb-2 block text-sm font-medium text-gray-700"
+                >
+                  回顾笔记
+                </label>
+                <textarea
+                  id="weeklyReviewNotes"
+                  rows={4}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  onBlur={handleSaveNotes}
+                  maxLength={5000}
+                  placeholder="这周的收获、卡住的地方、下周的重点..."
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-400">
+                  开始于 {new Date(review.startedAt).toLocaleString("zh-CN")}
+                  ，离开输入框时自动保存
+                </p>
+              </div>
+
+              {/* 步骤切换 */}
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() =>
+                    goToStep(WEEKLY_REVIEW_STEPS[stepIndex - 1] ?? currentStep)
+                  }
+                  disabled={stepIndex === 0 || updateProgress.isPending}
+                  className="inline-flex items-center gap-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ArrowLeftIcon className="h-4 w-4" />
+                  上一步
+                </button>
+                {isLastStep ? (
+                  <button
+                    onClick={handleComplete}
+                    disabled={completeReview.isPending}
+                    className="inline-flex items-center gap-1 rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <CheckCircleIcon className="h-4 w-4" />
+                    {completeReview.isPending ? "保存中..." : "完成回顾"}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() =>
+                      goToStep(
+                        WEEKLY_REVIEW_STEPS[stepIndex + 1] ?? currentStep,
+                      )
+                    }
+                    disabled={updateProgress.isPending}
+                    className="inline-flex items-center gap-1 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    下一步
+                    <ArrowRightIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <ConfirmModal
+          isOpen={confirmState.isOpen}
+          onClose={hideConfirm}
+          onConfirm={confirmState.onConfirm}
+          title={confirmState.title}
+          message={confirmState.message}
+          confirmText={confirmState.confirmText}
+          cancelText={confirmState.cancelText}
+          type={confirmState.type}
+          isLoading={discardReview.isPending}
+        />
+      </MainLayout>
+    </AuthGuard>
+  );
+};
+
+export default WeeklyReviewPage;
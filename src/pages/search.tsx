@@ -28,6 +28,7 @@ import { useConfirm } from "@/hooks";
 import SavedSearchModal, {
   type SavedSearchFormData,
 } from "@/components/Search/SavedSearchModal";
+import { formatSearchQuery, parseSearchQuery } from "@/utils/search-query";
 
 // 搜索结果类型
 interface SearchResults {
@@ -37,6 +38,7 @@ interface SearchResults {
   journals: any[];
   totalCount: number;
   nextCursor?: string;
+  truncated?: boolean; // 匹配关键词的内容过多，只检查了相关性最高的一部分
 }
 
 const SearchPage: NextPage = () => {
@@ -144,10 +146,29 @@ const SearchPage: NextPage = () => {
     maxTimeSpent,
   ]);
 
+  // 获取标签和项目用于筛选
+  const { data: tags, refetch: refetchTags } = api.tag.getAll.useQuery(
+    { limit: 100 },
+    { enabled: !!sessionData },
+  );
+
+  const { data: projects, refetch: refetchProjects } =
+    api.project.getAll.useQuery({ limit: 100 }, { enabled: !!sessionData });
+
+  // 解析搜索框中的查询语句（如 status:todo tag:@电脑 due:<7d）
+  const queryLookup = useMemo(
+    () => ({ tags: tags?.tags, projects: projects?.projects }),
+    [tags?.tags, projects?.projects],
+  );
+  const parsedQuery = useMemo(
+    () => parseSearchQuery(query, queryLookup),
+    [query, queryLookup],
+  );
+
   // 构建搜索参数
   const searchParams = useMemo(() => {
     const params: any = {
-      query: query.trim() || undefined,
+      query: parsedQuery.params.query,
       searchIn,
       sortBy,
       sortOrder,
@@ -173,9 +194,12 @@ const SearchPage: NextPage = () => {
     if (minTimeSpent !== null) params.minTimeSpent = minTimeSpent;
     if (maxTimeSpent !== null) params.maxTimeSpent = maxTimeSpent;
 
+    // 查询语句中的条件优先于筛选面板
+    Object.assign(params, parsedQuery.params);
+
     return params;
   }, [
-    query,
+    parsedQuery,
     searchIn,
     taskStatus,
     taskType,
@@ -215,15 +239,6 @@ const SearchPage: NextPage = () => {
     },
   );
 
-  // 获取标签和项目用于筛选
-  const { data: tags, refetch: refetchTags } = api.tag.getAll.useQuery(
-    { limit: 100 },
-    { enabled: !!sessionData },
-  );
-
-  const { data: projects, refetch: refetchProjects } =
-    api.project.getAll.useQuery({ limit: 100 }, { enabled: !!sessionData });
-
   // 注册页面刷新函数
   usePageRefresh(() => {
     void Promise.all([refetch(), refetchTags(), refetchProjects()]);
@@ -703,6 +718,7 @@ const SearchPage: NextPage = () => {
           TODO: "待办",
           IN_PROGRESS: "进行中",
           WAITING: "等待中",
+          SOMEDAY: "将来/也许",
           DONE: "已完成",
           COMPLETED: "已完成",
           ARCHIVED: "已归档",
@@ -935,13 +951,31 @@ const SearchPage: NextPage = () => {
                   <MagnifyingGlassIcon className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 transform text-gray-400" />
                   <input
                     type="text"
-                    placeholder="搜索任务、笔记、项目、日记... "
+                    placeholder="搜索任务、笔记、项目、日记... 支持 status:todo tag:@电脑 due:<7d 等条件"
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
                     onKeyPress={(e) => e.key === "Enter" && handleSearch()}
-                    className="block w-full rounded-md border border-gray-300 py-3 pl-10 pr-3 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    className={`block w-full rounded-md border py-3 pl-10 pr-3 text-sm focus:outline-none focus:ring-1 ${
+                      parsedQuery.errors.length > 0
+                        ? "border-red-300 focus:border-red-500 focus:ring-red-500"
+                        : "border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+                    }`}
                   />
                 </div>
+
+                {/* 查询语句错误 */}
+                {parsedQuery.errors.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs text-red-600">
+                    {parsedQuery.errors.map((error) => (
+                      <li key={`${error.start}-${error.message}`}>
+                        <code className="mr-1 rounded bg-red-50 px-1">
+                          {query.slice(error.start, error.end)}
+                        </code>
+                        {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
               <button
                 onClick={handleSearch}
@@ -986,6 +1020,16 @@ const SearchPage: NextPage = () => {
                   >
                     清除所有筛选
                   </button>
+                  <button
+                    onClick={() => {
+                      setQuery(formatSearchQuery(searchParams, queryLookup));
+                      clearFilters();
+                    }}
+                    className="self-start text-sm text-blue-600 hover:text-blue-800 sm:self-auto"
+                    title={formatSearchQuery(searchParams, queryLookup)}
+                  >
+                    转为查询语句
+                  </button>
                 </div>
 
                 <div className="flex flex-wrap gap-2">
@@ -1026,6 +1070,7 @@ const SearchPage: NextPage = () => {
                             TODO: "待办",
                             IN_PROGRESS: "进行中",
                             WAITING: "等待中",
+                            SOMEDAY: "将来/也许",
                             DONE: "已完成",
                             ARCHIVED: "已归档",
                             CANCELLED: "已取消",
@@ -1443,7 +1488,7 @@ const SearchPage: NextPage = () => {
             <SearchResults
               results={searchResults}
               isLoading={isLoading}
-              query={query}
+              query={parsedQuery.params.query ?? ""}
               searchIn={searchIn}
               onTaskClick={handleTaskClick}
               displayLimit={displayLimit}
@@ -1866,7 +1911,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({
     );
   }
 
-  const { tasks, notes, projects, journals, totalCount } = results;
+  const { tasks, notes, projects, journals, totalCount, truncated } = results;
 
   // 创建所有结果的混合数组，用于统一分页
   const allResults = [
@@ -1933,6 +1978,11 @@ const SearchResults: React.FC<SearchResultsProps> = ({
                 </>
               )}
             </p>
+            {truncated && (
+              <p className="mt-1 text-xs text-amber-600">
+                匹配关键词的内容过多，只检查了相关性最高的一部分，请使用更具体的关键词
+              </p>
+            )}
 
             {/* 结果类型分布 */}
             <div className="mt-2 flex items-center gap-4 text-xs text-gray-500">
@@ -2133,6 +2183,7 @@ function getStatusLabel(status: TaskStatus): string {
     [TaskStatus.TODO]: "待办",
     [TaskStatus.IN_PROGRESS]: "进行中",
     [TaskStatus.WAITING]: "等待",
+    [TaskStatus.SOMEDAY]: "将来/也许",
     [TaskStatus.DONE]: "完成",
     [TaskStatus.ARCHIVED]: "归档",
   };
@@ -2155,6 +2206,7 @@ function getStatusColor(status: TaskStatus): string {
     [TaskStatus.TODO]: "bg-blue-100 text-blue-800",
     [TaskStatus.IN_PROGRESS]: "bg-yellow-100 text-yellow-800",
     [TaskStatus.WAITING]: "bg-orange-100 text-orange-800",
+    [TaskStatus.SOMEDAY]: "bg-teal-100 text-teal-800",
     [TaskStatus.DONE]: "bg-green-100 text-green-800",
     [TaskStatus.ARCHIVED]: "bg-orange-100 text-orange-700",
   };
@@ -13,14 +13,20 @@ import { usePageRefresh } from "@/hooks/usePageRefresh";
 import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
 import { useConfirm } from "@/hooks";
 import SavedSearchCard from "@/components/Search/SavedSearchCard";
+import ShareSavedSearchModal from "@/components/Search/ShareSavedSearchModal";
 import SavedSearchModal, {
   type SavedSearchFormData,
 } from "@/components/Search/SavedSearchModal";
+import {
+  formatSearchQuery,
+  type SearchQueryParams,
+} from "@/utils/search-query";
 
 const SavedSearchesPage: NextPage = () => {
   const { data: sessionData } = useSession();
   const router = useRouter();
   const { showSuccess, showError } = useGlobalNotifications();
+  const utils = api.useContext();
   const { showConfirm, confirmState, hideConfirm } = useConfirm();
 
   // 状态管理
@@ -31,6 +37,7 @@ const SavedSearchesPage: NextPage = () => {
   const [editingSearchId, setEditingSearchId] = useState<string | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [sharingSearchId, setSharingSearchId] = useState<string | null>(null);
 
   // API 调用
   const {
@@ -58,6 +65,7 @@ const SavedSearchesPage: NextPage = () => {
   const updateSavedSearchMutation = api.search.updateSavedSearch.useMutation({
     onSuccess: (data) => {
       void refetchSavedSearches();
+      void utils.search.getSmartLists.invalidate();
       showSuccess(`搜索 "${data.name}" 更新成功`);
       setIsSavedSearchModalOpen(false);
     },
@@ -74,6 +82,7 @@ const SavedSearchesPage: NextPage = () => {
   const deleteSavedSearchMutation = api.search.deleteSavedSearch.useMutation({
     onSuccess: () => {
       void refetchSavedSearches();
+      void utils.search.getSmartLists.invalidate();
       showSuccess("保存的搜索已删除");
     },
     onError: (error) => {
@@ -81,6 +90,30 @@ const SavedSearchesPage: NextPage = () => {
     },
   });
 
+  // 固定到侧边栏 / 取消固定
+  const updateSmartListMutation = api.search.updateSmartList.useMutation({
+    onSuccess: (_data, variables) => {
+      void refetchSavedSearches();
+      void utils.search.getSmartLists.invalidate();
+      showSuccess(
+        variables.isPinned ? "已固定到侧边栏智能列表" : "已从侧边栏移除",
+      );
+    },
+    onError: (error) => {
+      showError(error.message || "更新智能列表失败");
+    },
+  });
+
+  const handleTogglePin = useCallback(
+    (search: { id: string; isPinned?: boolean }) => {
+      updateSmartListMutation.mutate({
+        id: search.id,
+        isPinned: !search.isPinned,
+      });
+    },
+    [updateSmartListMutation],
+  );
+
   // 生成搜索条件摘要（结构化）
   const generateSearchConditions = useCallback(
     (searchParams: any, tags?: any[], projects?: any[]) => {
@@ -140,6 +173,7 @@ const SavedSearchesPage: NextPage = () => {
           TODO: "待办",
           IN_PROGRESS: "进行中",
           WAITING: "等待中",
+          SOMEDAY: "将来/也许",
           DONE: "已完成",
           COMPLETED: "已完成",
           ARCHIVED: "已归档",
@@ -486,8 +520,13 @@ const SavedSearchesPage: NextPage = () => {
       const params = new URLSearchParams();
       const searchParams = search.searchParams;
 
-      // 基础搜索参数
-      if (searchParams.query) params.set("q", searchParams.query);
+      // 基础搜索参数，相对日期条件（如 due:<7d）以查询语句的形式带上，打开时按当天计算
+      const { query: keywords, relativeDates } = searchParams as Pick<
+        SearchQueryParams,
+        "query" | "relativeDates"
+      >;
+      const query = formatSearchQuery({ query: keywords, relativeDates });
+      if (query) params.set("q", query);
       if (searchParams.searchIn)
         params.set("searchIn", searchParams.searchIn.join(","));
 
@@ -760,8 +799,7 @@ const SavedSearchesPage: NextPage = () => {
         // 更新现有搜索
         updateSavedSearchMutation.mutate({
           id: editingSearchId,
-          ...formData,
-          searchParams: {}, // 编辑时不更新搜索参数
+          ...formData, // 编辑时不更新搜索参数
         });
       }
     },
@@ -776,6 +814,9 @@ const SavedSearchesPage: NextPage = () => {
         search.description?.toLowerCase().includes(searchQuery.toLowerCase()),
     ) || [];
 
+  const sharingSearch =
+    savedSearches?.find((search) => search.id === sharingSearchId) ?? null;
+
   if (!sessionData) {
     return null;
   }
@@ -837,6 +878,8 @@ const SavedSearchesPage: NextPage = () => {
                       onEdit={handleOpenSaveModal}
                       onEditConditions={handleEditSearchConditions}
                       onDelete={handleDeleteSavedSearch}
+                      onTogglePin={handleTogglePin}
+                      onShare={(search) => setSharingSearchId(search.id)}
                       generateSearchSummary={generateSearchSummary}
                       generateSearchConditions={generateSearchConditions}
                       tags={tags?.tags || []}
@@ -881,6 +924,24 @@ const SavedSearchesPage: NextPage = () => {
             isLoading={updateSavedSearchMutation.isPending}
           />
 
+          {/* 共享模态框 */}
+          <ShareSavedSearchModal
+            isOpen={!!sharingSearch}
+            onClose={() => setSharingSearchId(null)}
+            onChanged={() => void refetchSavedSearches()}
+            search={
+              sharingSearch
+                ? {
+                    id: sharingSearch.id,
+                    name: sharingSearch.name,
+                    isPublic: sharingSearch.isPublic,
+                    shareToken: sharingSearch.shareToken,
+                    subscriberCount: sharingSearch._count.subscribers,
+                  }
+                : null
+            }
+          />
+
           {/* 确认模态框 */}
           <ConfirmModal
             isOpen={confirmState.isOpen}
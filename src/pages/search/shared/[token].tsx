@@ -0,0 +1,183 @@
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useSession } from "next-auth/react";
+import {
+  ArrowDownTrayIcon,
+  BellAlertIcon,
+  ExclamationTriangleIcon,
+  ShareIcon,
+} from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import MainLayout from "@/components/Layout/MainLayout";
+import AuthGuard from "@/components/Layout/AuthGuard";
+import { SectionLoading } from "@/components/UI";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { formatSearchQuery } from "@/utils/search-query";
+
+const SharedSearchPage: NextPage = () => {
+  const router = useRouter();
+  const { data: sessionData } = useSession();
+  const { showSuccess, showError } = useGlobalNotifications();
+  const utils = api.useContext();
+
+  const token =
+    typeof router.query.token === "string" ? router.query.token : "";
+
+  const {
+    data: sharedSearch,
+    isLoading,
+    error,
+  } = api.search.getShared.useQuery(
+    { token },
+    { enabled: !!sessionData && !!token, retry: false },
+  );
+
+  // 条件已映射到当前用户自己的标签和项目
+  const { data: tagsData } = api.tag.getAll.useQuery(
+    { limit: 100 },
+    { enabled: !!sessionData },
+  );
+  const { data: projectsData } = api.project.getAll.useQuery(
+    { limit: 100 },
+    { enabled: !!sessionData },
+  );
+
+  const importShared = api.search.importShared.useMutation({
+    onSuccess: (result, variables) => {
+      void utils.search.getSavedSearches.invalidate();
+      void utils.search.getShared.invalidate({ token });
+      showSuccess(
+        variables.subscribe
+          ? `已订阅「${result.savedSearch.name}」`
+          : `已导入「${result.savedSearch.name}」`,
+      );
+      void router.push("/search/saved");
+    },
+    onError: (err) => {
+      showError(err.message || "导入共享搜索失败");
+    },
+  });
+
+  const queryString = sharedSearch
+    ? formatSearchQuery(sharedSearch.searchParams, {
+        tags: tagsData?.tags,
+        projects: projectsData?.projects,
+      })
+    : "";
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <Head>
+          <title>共享的搜索 | Infer GTD</title>
+        </Head>
+
+        <div className="mx-auto max-w-2xl">
+          {isLoading ? (
+            <SectionLoading message="正在加载共享的搜索..." />
+          ) : error || !sharedSearch ? (
+            <div className="rounded-lg border border-gray-200 bg-white p-8 text-center">
+              <ShareIcon className="mx-auto h-12 w-12 text-gray-300" />
+              <h1 className="mt-4 text-lg font-medium text-gray-900">
+                {error?.message ?? "共享链接无效"}
+              </h1>
+              <Link
+                href="/search/saved"
+                className="mt-4 inline-block text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                返回保存的搜索
+              </Link>
+            </div>
+          ) : (
+            <div className="rounded-lg border border-gray-200 bg-white p-6">
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <ShareIcon className="h-4 w-4" />
+                {sharedSearch.ownerName ?? "其他用户"} 共享的搜索 ·{" "}
+                {sharedSearch.subscriberCount} 人订阅
+              </div>
+              <h1 className="mt-2 text-2xl font-bold text-gray-900">
+                {sharedSearch.name}
+              </h1>
+              {sharedSearch.description && (
+                <p className="mt-2 text-gray-600">{sharedSearch.description}</p>
+              )}
+
+              <div className="mt-4">
+                <div className="mb-1 text-xs font-medium text-gray-500">
+                  搜索条件
+                </div>
+                <code className="block rounded bg-gray-50 px-3 py-2 font-mono text-sm text-gray-700">
+                  {queryString || "无特定条件"}
+                </code>
+              </div>
+
+              {sharedSearch.unmatched.length > 0 && (
+                <div className="mt-4 flex gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                  <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                  <span>
+                    你没有以下同名的标签或项目，这些条件将被忽略：
+                    {sharedSearch.unmatched.join("、")}
+                  </span>
+                </div>
+              )}
+
+              <p className="mt-4 text-sm text-gray-500">
+                搜索只会在你自己的任务、笔记和日记上执行。订阅后，共享者修改搜索条件时会自动同步；导入则得到一份独立的副本。
+              </p>
+
+              <div className="mt-6 flex flex-wrap gap-3">
+                {sharedSearch.isOwner ? (
+                  <p className="text-sm text-gray-600">
+                    这是你共享的搜索，可以在
+                    <Link
+                      href="/search/saved"
+                      className="mx-1 font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      保存的搜索
+                    </Link>
+                    中管理共享设置。
+                  </p>
+                ) : (
+                  <>
+                    {sharedSearch.subscriptionId ? (
+                      <span className="inline-flex items-center gap-2 rounded-md bg-green-50 px-4 py-2 text-sm font-medium text-green-700">
+                        <BellAlertIcon className="h-4 w-4" />
+                        已订阅
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() =>
+                          importShared.mutate({ token, subscribe: true })
+                        }
+                        disabled={importShared.isPending}
+                        className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <BellAlertIcon className="h-4 w-4" />
+                        订阅
+                      </button>
+                    )}
+                    <button
+                      onClick={() =>
+                        importShared.mutate({ token, subscribe: false })
+                      }
+                      disabled={importShared.isPending}
+                      className="inline-flex items-center gap-2 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <ArrowDownTrayIcon className="h-4 w-4" />
+                      导入副本
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </MainLayout>
+    </AuthGuard>
+  );
+};
+
+export default SharedSearchPage;
@@ -4,32 +4,75 @@
  * 功能：
  * 1. 日记自动生成设置
  * 2. 通知设置
- * 3. 界面设置
+ * 3. 邮件摘要（每日摘要、每周总结、发送时间和时区）
+ * 4. 重复任务设置
+ * 5. 推迟任务设置
+ * 6. 将来/也许回顾间隔
+ * 7. 停滞项目判定天数
+ * 8. 回收站保留天数
+ * 9. 界面设置
+ * 10. 账户安全（设置/修改密码）
+ * 11. API 令牌
+ * 12. Webhooks
  */
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import Head from "next/head";
 import {
+  ArchiveBoxArrowDownIcon,
+  ArrowPathIcon,
   CogIcon,
   BookOpenIcon,
   BellIcon,
   PaintBrushIcon,
   ClockIcon,
+  EnvelopeIcon,
+  ShieldCheckIcon,
+  SparklesIcon,
+  KeyIcon,
+  BoltIcon,
+  FolderIcon,
+  TrashIcon,
 } from "@heroicons/react/24/outline";
 
 import { api } from "@/utils/api";
 import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
 import MainLayout from "@/components/Layout/MainLayout";
 import AuthGuard from "@/components/Layout/AuthGuard";
+import AccountSecurity from "@/components/Auth/AccountSecurity";
+import ApiTokens from "@/components/Auth/ApiTokens";
+import Webhooks from "@/components/Settings/Webhooks";
 import { useConfirm } from "@/hooks/useConfirm";
 import { ConfirmModal } from "@/components/UI";
-import type { UserSettings } from "@/server/api/schemas/user-settings";
+import type {
+  DeferredTaskSettings,
+  EmailDigestSettings,
+  NotificationSettings,
+  ProjectSettings,
+  RecurringTaskSettings,
+  SomedaySettings,
+  TrashSettings,
+  UserSettings,
+} from "@/server/api/schemas/user-settings";
+
+const WEEKDAY_LABELS = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
 
 function SettingsPage() {
   const { showSuccess, showError } = useGlobalNotifications();
   const { confirmState, showConfirm, hideConfirm } = useConfirm();
   const [activeTab, setActiveTab] = useState<
-    "journal" | "notifications" | "ui"
+    | "journal"
+    | "notifications"
+    | "emailDigest"
+    | "recurring"
+    | "deferred"
+    | "someday"
+    | "projects"
+    | "trash"
+    | "ui"
+    | "security"
+    | "apiTokens"
+    | "webhooks"
   >("journal");
 
   // 获取用户设置
@@ -73,6 +116,79 @@ function SettingsPage() {
   const autoJournalSettings =
     (settings?.autoJournalGeneration as AutoJournalSettings) || {};
 
+  const storedNotificationSettings = settings?.notifications as
+    | Partial<NotificationSettings>
+    | undefined;
+  const notificationSettings: NotificationSettings = {
+    journalReminder: storedNotificationSettings?.journalReminder ?? false,
+    reminderTime: storedNotificationSettings?.reminderTime ?? "21:00",
+    taskDeadlineReminder:
+      storedNotificationSettings?.taskDeadlineReminder ?? true,
+    weeklyReview: storedNotificationSettings?.weeklyReview ?? false,
+    weeklyReviewDay: storedNotificationSettings?.weeklyReviewDay ?? 5,
+  };
+
+  const storedEmailDigestSettings = settings?.emailDigest as
+    | Partial<EmailDigestSettings>
+    | undefined;
+  const emailDigestSettings: EmailDigestSettings = {
+    daily: storedEmailDigestSettings?.daily ?? false,
+    weekly: storedEmailDigestSettings?.weekly ?? false,
+    weeklyDay: storedEmailDigestSettings?.weeklyDay ?? 1,
+    sendTime: storedEmailDigestSettings?.sendTime ?? "07:30",
+    timezone: storedEmailDigestSettings?.timezone ?? "",
+  };
+
+  // 可选的时区：浏览器支持的全部 IANA 时区，并确保包含当前设置的时区
+  const browserTimeZone = useMemo(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone,
+    [],
+  );
+  const timeZoneOptions = useMemo(() => {
+    const zones = new Set(Intl.supportedValuesOf("timeZone"));
+    zones.add(browserTimeZone);
+    if (emailDigestSettings.timezone) {
+      zones.add(emailDigestSettings.timezone);
+    }
+    return Array.from(zones).sort();
+  }, [browserTimeZone, emailDigestSettings.timezone]);
+
+  const storedRecurringSettings = settings?.recurringTasks as
+    | Partial<RecurringTaskSettings>
+    | undefined;
+  const recurringTaskSettings: RecurringTaskSettings = {
+    generateAheadDays: storedRecurringSettings?.generateAheadDays ?? 7,
+    missedOccurrences: storedRecurringSettings?.missedOccurrences ?? "latest",
+  };
+
+  const storedDeferredSettings = settings?.deferredTasks as
+    | Partial<DeferredTaskSettings>
+    | undefined;
+  const deferredTaskSettings: DeferredTaskSettings = {
+    promoteIdeas: storedDeferredSettings?.promoteIdeas ?? true,
+  };
+
+  const storedSomedaySettings = settings?.someday as
+    | Partial<SomedaySettings>
+    | undefined;
+  const somedaySettings: SomedaySettings = {
+    reviewIntervalDays: storedSomedaySettings?.reviewIntervalDays ?? 30,
+  };
+
+  const storedProjectSettings = settings?.projects as
+    | Partial<ProjectSettings>
+    | undefined;
+  const projectSettings: ProjectSettings = {
+    stalledAfterDays: storedProjectSettings?.stalledAfterDays ?? 14,
+  };
+
+  const storedTrashSettings = settings?.trash as
+    | Partial<TrashSettings>
+    | undefined;
+  const trashSettings: TrashSettings = {
+    retentionDays: storedTrashSettings?.retentionDays ?? 30,
+  };
+
   // 处理设置更新
   const handleUpdateSettings = (newSettings: Partial<UserSettings>) => {
     // 确保保留当前的role字段
@@ -102,7 +218,16 @@ function SettingsPage() {
   const tabs = [
     { id: "journal", name: "日记自动生成", icon: BookOpenIcon },
     { id: "notifications", name: "通知设置", icon: BellIcon },
+    { id: "emailDigest", name: "邮件摘要", icon: EnvelopeIcon },
+    { id: "recurring", name: "重复任务", icon: ArrowPathIcon },
+    { id: "deferred", name: "推迟任务", icon: ArchiveBoxArrowDownIcon },
+    { id: "someday", name: "将来/也许", icon: SparklesIcon },
+    { id: "projects", name: "项目", icon: FolderIcon },
+    { id: "trash", name: "回收站", icon: TrashIcon },
     { id: "ui", name: "界面设置", icon: PaintBrushIcon },
+    { id: "security", name: "账户安全", icon: ShieldCheckIcon },
+    { id: "apiTokens", name: "API 令牌", icon: KeyIcon },
+    { id: "webhooks", name: "Webhooks", icon: BoltIcon },
   ] as const;
 
   return (
@@ -354,7 +479,571 @@ function SettingsPage() {
                       通知设置
                     </h2>
                   </div>
-                  <p className="text-gray-500">通知功能正在开发中...</p>
+                  <div className="space-y-6">
+                    {/* 任务截止提醒 */}
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-900">
+                          任务截止提醒
+                        </h3>
+                        <p className="text-sm text-gray-500">
+                          任务今天或明天到期、以及逾期时发送通知
+                        </p>
+                      </div>
+                      <label className="relative inline-flex cursor-pointer items-center">
+                        <input
+                          type="checkbox"
+                          checked={notificationSettings.taskDeadlineReminder}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              notifications: {
+                                ...notificationSettings,
+                                taskDeadlineReminder: e.target.checked,
+                              },
+                            })
+                          }
+                          className="peer sr-only"
+                        />
+                        <div className="peer h-6 w-11 rounded-full bg-gray-200 peer-checked:bg-blue-600 peer-focus:ring-4 peer-focus:ring-blue-300 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+                      </label>
+                    </div>
+
+                    {/* 日记提醒 */}
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-900">
+                          日记提醒
+                        </h3>
+                        <p className="text-sm text-gray-500">
+                          到提醒时间还没有写当天的日记时发送通知
+                        </p>
+                      </div>
+                      <label className="relative inline-flex cursor-pointer items-center">
+                        <input
+                          type="checkbox"
+                          checked={notificationSettings.journalReminder}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              notifications: {
+                                ...notificationSettings,
+                                journalReminder: e.target.checked,
+                              },
+                            })
+                          }
+                          className="peer sr-only"
+                        />
+                        <div className="peer h-6 w-11 rounded-full bg-gray-200 peer-checked:bg-blue-600 peer-focus:ring-4 peer-focus:ring-blue-300 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+                      </label>
+                    </div>
+
+                    {/* 周回顾提醒 */}
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-900">
+                          周回顾提醒
+                        </h3>
+                        <p className="text-sm text-gray-500">
+                          在选定的日子提醒做周回顾，最近已完成回顾时不提醒
+                        </p>
+                      </div>
+                      <label className="relative inline-flex cursor-pointer items-center">
+                        <input
+                          type="checkbox"
+                          checked={notificationSettings.weeklyReview}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              notifications: {
+                                ...notificationSettings,
+                                weeklyReview: e.target.checked,
+                              },
+                            })
+                          }
+                          className="peer sr-only"
+                        />
+                        <div className="peer h-6 w-11 rounded-full bg-gray-200 peer-checked:bg-blue-600 peer-focus:ring-4 peer-focus:ring-blue-300 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+                      </label>
+                    </div>
+
+                    {/* 周回顾提醒日 */}
+                    {notificationSettings.weeklyReview && (
+                      <div>
+                        <label className="mb-2 block text-sm font-medium text-gray-700">
+                          周回顾提醒日
+                        </label>
+                        <select
+                          value={notificationSettings.weeklyReviewDay}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              notifications: {
+                                ...notificationSettings,
+                                weeklyReviewDay: Number(e.target.value),
+                              },
+                            })
+                          }
+                          className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        >
+                          {WEEKDAY_LABELS.map((label, day) => (
+                            <option key={label} value={day}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {/* 提醒时间 */}
+                    {(notificationSettings.journalReminder ||
+                      notificationSettings.weeklyReview) && (
+                      <div>
+                        <label className="mb-2 block text-sm font-medium text-gray-700">
+                          提醒时间
+                        </label>
+                        <div className="flex items-center space-x-2">
+                          <ClockIcon className="h-5 w-5 text-gray-400" />
+                          <input
+                            type="time"
+                            value={notificationSettings.reminderTime}
+                            onChange={(e) =>
+                              e.target.value &&
+                              handleUpdateSettings({
+                                notifications: {
+                                  ...notificationSettings,
+                                  reminderTime: e.target.value,
+                                },
+                              })
+                            }
+                            className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                          />
+                        </div>
+                        <p className="mt-1 text-sm text-gray-500">
+                          日记提醒和周回顾提醒的发送时间
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* 邮件摘要设置 */}
+              {activeTab === "emailDigest" && (
+                <div className="p-6">
+                  <div className="mb-6 flex items-center space-x-3">
+                    <EnvelopeIcon className="h-6 w-6 text-blue-600" />
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      邮件摘要
+                    </h2>
+                  </div>
+                  <div className="space-y-6">
+                    {/* 每日摘要 */}
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-900">
+                          每日摘要
+                        </h3>
+                        <p className="text-sm text-gray-500">
+                          每天早上发送今天到期、已逾期、需要跟进的任务和昨天完成的任务；没有任何内容时不发送
+                        </p>
+                      </div>
+                      <label className="relative inline-flex cursor-pointer items-center">
+                        <input
+                          type="checkbox"
+                          checked={emailDigestSettings.daily}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              emailDigest: {
+                                ...emailDigestSettings,
+                                daily: e.target.checked,
+                              },
+                            })
+                          }
+                          className="peer sr-only"
+                        />
+                        <div className="peer h-6 w-11 rounded-full bg-gray-200 peer-checked:bg-blue-600 peer-focus:ring-4 peer-focus:ring-blue-300 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+                      </label>
+                    </div>
+
+                    {/* 每周总结 */}
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-900">
+                          每周总结
+                        </h3>
+                        <p className="text-sm text-gray-500">
+                          在选定的日子发送最近一周的完成情况、记录用时和接下来一周到期的任务
+                        </p>
+                      </div>
+                      <label className="relative inline-flex cursor-pointer items-center">
+                        <input
+                          type="checkbox"
+                          checked={emailDigestSettings.weekly}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              emailDigest: {
+                                ...emailDigestSettings,
+                                weekly: e.target.checked,
+                              },
+                            })
+                          }
+                          className="peer sr-only"
+                        />
+                        <div className="peer h-6 w-11 rounded-full bg-gray-200 peer-checked:bg-blue-600 peer-focus:ring-4 peer-focus:ring-blue-300 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+                      </label>
+                    </div>
+
+                    {/* 每周总结发送日 */}
+                    {emailDigestSettings.weekly && (
+                      <div>
+                        <label className="mb-2 block text-sm font-medium text-gray-700">
+                          每周总结发送日
+                        </label>
+                        <select
+                          value={emailDigestSettings.weeklyDay}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              emailDigest: {
+                                ...emailDigestSettings,
+                                weeklyDay: Number(e.target.value),
+                              },
+                            })
+                          }
+                          className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        >
+                          {WEEKDAY_LABELS.map((label, day) => (
+                            <option key={label} value={day}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {(emailDigestSettings.daily ||
+                      emailDigestSettings.weekly) && (
+                      <>
+                        {/* 发送时间 */}
+                        <div>
+                          <label className="mb-2 block text-sm font-medium text-gray-700">
+                            发送时间
+                          </label>
+                          <div className="flex items-center space-x-2">
+                            <ClockIcon className="h-5 w-5 text-gray-400" />
+                            <input
+                              type="time"
+                              value={emailDigestSettings.sendTime}
+                              onChange={(e) =>
+                                e.target.value &&
+                                handleUpdateSettings({
+                                  emailDigest: {
+                                    ...emailDigestSettings,
+                                    sendTime: e.target.value,
+                                  },
+                                })
+                              }
+                              className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                            />
+                          </div>
+                        </div>
+
+                        {/* 时区 */}
+                        <div>
+                          <label className="mb-2 block text-sm font-medium text-gray-700">
+                            时区
+                          </label>
+                          <div className="flex flex-wrap items-center gap-3">
+                            <select
+                              value={emailDigestSettings.timezone}
+                              onChange={(e) =>
+                                handleUpdateSettings({
+                                  emailDigest: {
+                                    ...emailDigestSettings,
+                                    timezone: e.target.value,
+                                  },
+                                })
+                              }
+                              className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                            >
+                              <option value="">服务器时区</option>
+                              {timeZoneOptions.map((zone) => (
+                                <option key={zone} value={zone}>
+                                  {zone}
+                                </option>
+                              ))}
+                            </select>
+                            {emailDigestSettings.timezone !==
+                              browserTimeZone && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  handleUpdateSettings({
+                                    emailDigest: {
+                                      ...emailDigestSettings,
+                                      timezone: browserTimeZone,
+                                    },
+                                  })
+                                }
+                                className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                              >
+                                使用当前浏览器时区（{browserTimeZone}）
+                              </button>
+                            )}
+                          </div>
+                          <p className="mt-1 text-sm text-gray-500">
+                            发送时间以及摘要中的&ldquo;今天&rdquo;和&ldquo;昨天&rdquo;都按该时区计算
+                          </p>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* 重复任务设置 */}
+              {activeTab === "recurring" && (
+                <div className="p-6">
+                  <div className="mb-6 flex items-center space-x-3">
+                    <ArrowPathIcon className="h-6 w-6 text-blue-600" />
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      重复任务
+                    </h2>
+                  </div>
+
+                  <div className="space-y-6">
+                    {/* 提前生成天数 */}
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-gray-700">
+                        提前生成天数
+                      </label>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="number"
+                          min={0}
+                          max={60}
+                          value={recurringTaskSettings.generateAheadDays}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              recurringTasks: {
+                                ...recurringTaskSettings,
+                                generateAheadDays: Math.min(
+                                  60,
+                                  Math.max(0, Number(e.target.value) || 0),
+                                ),
+                              },
+                            })
+                          }
+                          className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <span className="text-sm text-gray-500">天</span>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500">
+                        定时任务每小时为固定周期的重复任务生成未来 N
+                        天内到期的实例；设为 0 则只在完成时生成下一次
+                      </p>
+                    </div>
+
+                    {/* 错过的实例 */}
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-gray-700">
+                        错过的实例
+                      </label>
+                      <select
+                        value={recurringTaskSettings.missedOccurrences}
+                        onChange={(e) =>
+                          handleUpdateSettings({
+                            recurringTasks: {
+                              ...recurringTaskSettings,
+                              missedOccurrences: e.target
+                                .value as RecurringTaskSettings["missedOccurrences"],
+                            },
+                          })
+                        }
+                        className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      >
+                        <option value="latest">只补生成最近一次</option>
+                        <option value="all">全部补生成</option>
+                        <option value="skip">跳过</option>
+                      </select>
+                      <p className="mt-1 text-sm text-gray-500">
+                        服务停机期间错过的到期日的处理方式
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* 推迟任务设置 */}
+              {activeTab === "deferred" && (
+                <div className="p-6">
+                  <div className="mb-6 flex items-center space-x-3">
+                    <ArchiveBoxArrowDownIcon className="h-6 w-6 text-blue-600" />
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      推迟任务
+                    </h2>
+                  </div>
+
+                  <div className="space-y-6">
+                    {/* 想法转为待办 */}
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-900">
+                          到期的想法转为待办
+                        </h3>
+                        <p className="text-sm text-gray-500">
+                          推迟日期到达时，把状态为“想法”的任务转为待办，使其出现在下一步行动中
+                        </p>
+                      </div>
+                      <label className="relative inline-flex cursor-pointer items-center">
+                        <input
+                          type="checkbox"
+                          checked={deferredTaskSettings.promoteIdeas}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              deferredTasks: {
+                                ...deferredTaskSettings,
+                                promoteIdeas: e.target.checked,
+                              },
+                            })
+                          }
+                          className="peer sr-only"
+                        />
+                        <div className="peer h-6 w-11 rounded-full bg-gray-200 peer-checked:bg-blue-600 peer-focus:ring-4 peer-focus:ring-blue-300 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* 将来/也许设置 */}
+              {activeTab === "someday" && (
+                <div className="p-6">
+                  <div className="mb-6 flex items-center space-x-3">
+                    <SparklesIcon className="h-6 w-6 text-blue-600" />
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      将来/也许
+                    </h2>
+                  </div>
+
+                  <div className="space-y-6">
+                    {/* 回顾间隔 */}
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-gray-700">
+                        回顾间隔
+                      </label>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="number"
+                          min={1}
+                          max={365}
+                          value={somedaySettings.reviewIntervalDays}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              someday: {
+                                ...somedaySettings,
+                                reviewIntervalDays: Math.min(
+                                  365,
+                                  Math.max(1, Number(e.target.value) || 1),
+                                ),
+                              },
+                            })
+                          }
+                          className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <span className="text-sm text-gray-500">天</span>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500">
+                        距离上次回顾超过该天数后，在首页和将来/也许页面提醒回顾清单
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* 项目设置 */}
+              {activeTab === "projects" && (
+                <div className="p-6">
+                  <div className="mb-6 flex items-center space-x-3">
+                    <FolderIcon className="h-6 w-6 text-blue-600" />
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      项目
+                    </h2>
+                  </div>
+
+                  <div className="space-y-6">
+                    {/* 停滞判定天数 */}
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-gray-700">
+                        停滞判定
+                      </label>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="number"
+                          min={1}
+                          max={365}
+                          value={projectSettings.stalledAfterDays}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              projects: {
+                                ...projectSettings,
+                                stalledAfterDays: Math.min(
+                                  365,
+                                  Math.max(1, Number(e.target.value) || 1),
+                                ),
+                              },
+                            })
+                          }
+                          className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <span className="text-sm text-gray-500">天</span>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500">
+                        活跃项目超过该天数没有任何任务或笔记更新时标记为停滞；没有下一步行动或只剩等待中的任务也会被标记
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* 回收站设置 */}
+              {activeTab === "trash" && (
+                <div className="p-6">
+                  <div className="mb-6 flex items-center space-x-3">
+                    <TrashIcon className="h-6 w-6 text-blue-600" />
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      回收站
+                    </h2>
+                  </div>
+
+                  <div className="space-y-6">
+                    {/* 保留天数 */}
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-gray-700">
+                        保留天数
+                      </label>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="number"
+                          min={1}
+                          max={365}
+                          value={trashSettings.retentionDays}
+                          onChange={(e) =>
+                            handleUpdateSettings({
+                              trash: {
+                                ...trashSettings,
+                                retentionDays: Math.min(
+                                  365,
+                                  Math.max(1, Number(e.target.value) || 1),
+                                ),
+                              },
+                            })
+                          }
+                          className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <span className="text-sm text-gray-500">天</span>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500">
+                        删除的任务、笔记、日记和项目在回收站中保留的天数，到期后由定时任务永久删除
+                      </p>
+                    </div>
+                  </div>
                 </div>
               )}
 
@@ -371,20 +1060,35 @@ function SettingsPage() {
                 </div>
               )}
 
-              {/* 操作按钮 */}
-              <div className="border-t border-gray-200 px-6 py-4">
-                <div className="flex justify-between">
-                  <button
-                    onClick={handleResetSettings}
-                    disabled={resetSettings.isPending}
-                    className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
-                  >
-                    重置为默认值
-                  </button>
+              {/* 账户安全 */}
+              {activeTab === "security" && <AccountSecurity />}
 
-                  <div className="text-sm text-gray-500">设置会自动保存</div>
-                </div>
-              </div>
+              {/* API 令牌 */}
+              {activeTab === "apiTokens" && <ApiTokens />}
+
+              {/* Webhooks */}
+              {activeTab === "webhooks" && <Webhooks />}
+
+              {/* 操作按钮（账户安全、API 令牌、Webhooks 页单独保存） */}
+              {activeTab !== "security" &&
+                activeTab !== "apiTokens" &&
+                activeTab !== "webhooks" && (
+                  <div className="border-t border-gray-200 px-6 py-4">
+                    <div className="flex justify-between">
+                      <button
+                        onClick={handleResetSettings}
+                        disabled={resetSettings.isPending}
+                        className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        重置为默认值
+                      </button>
+
+                      <div className="text-sm text-gray-500">
+                        设置会自动保存
+                      </div>
+                    </div>
+                  </div>
+                )}
             </div>
           </div>
         </div>
@@ -0,0 +1,117 @@
+/**
+ * 重置密码页面
+ *
+ * 通过邮件中的链接访问，无需登录
+ */
+
+import { type FormEvent, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+
+import { PASSWORD_MIN_LENGTH } from "@/server/api/schemas/account";
+import { api } from "@/utils/api";
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const token =
+    typeof router.query.token === "string" ? router.query.token : "";
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const resetPassword = api.account.resetPassword.useMutation({
+    onError: (err) => {
+      setError(err.message || "重置密码失败");
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (newPassword !== confirmPassword) {
+      setError("两次输入的新密码不一致");
+      return;
+    }
+    resetPassword.mutate({ token, newPassword });
+  };
+
+  const inputClassName =
+    "block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+  return (
+    <>
+      <Head>
+        <title>重置密码 | Infer GTD</title>
+      </Head>
+
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="w-full max-w-md space-y-6">
+          <div className="text-center">
+            <h2 className="mt-6 text-3xl font-bold tracking-tight text-gray-900">
+              重置密码
+            </h2>
+          </div>
+
+          {resetPassword.isSuccess ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-green-600">
+                密码已重置，所有设备上的登录已失效，请使用新密码登录
+              </p>
+              <Link
+                href="/"
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                前往登录
+              </Link>
+            </div>
+          ) : router.isReady && !token ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-red-600">
+                重置链接无效，请在登录页重新申请
+              </p>
+              <Link
+                href="/"
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                返回登录
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input
+                type="password"
+                required
+                minLength={PASSWORD_MIN_LENGTH}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder={`新密码（至少 ${PASSWORD_MIN_LENGTH} 位，包含字母和数字）`}
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="确认新密码"
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+              <button
+                type="submit"
+                disabled={resetPassword.isPending || !token}
+                className="flex w-full justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {resetPassword.isPending ? "提交中..." : "重置密码"}
+              </button>
+              {error && (
+                <p className="text-center text-sm text-red-600">{error}</p>
+              )}
+            </form>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -85,13 +85,17 @@ const StreamPage: NextPage = () => {
     },
   });
 
-  const handleConvertToTask = async (ideaId: string) => {
+  const handleConvertToTask = async (
+    ideaId: string,
+    status: "TODO" | "SOMEDAY" = "TODO",
+  ) => {
     setConvertingTaskId(ideaId); // 设置当前转换的任务ID
     try {
       await convertToTask.mutateAsync({
         id: ideaId,
-        status: "TODO",
-        note: "从想法转换为待办任务",
+        status,
+        note:
+          status === "SOMEDAY" ? "从想法放入将来/也许" : "从想法转换为待办任务",
       });
     } catch (error) {
       console.error("转换任务失败:", error);
@@ -322,7 +326,18 @@ const StreamPage: NextPage = () => {
                         </div>
 
                         {/* 操作按钮 */}
-                        <div className="ml-4 flex-shrink-0">
+                        <div className="ml-4 flex flex-shrink-0 gap-2">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              handleConvertToTask(idea.id, "SOMEDAY")
+                            }
+                            disabled={convertingTaskId === idea.id}
+                            className="inline-flex items-center rounded-md bg-white px-2 py-1 text-xs font-semibold text-gray-700 shadow-sm ring-1 ring-gray-300 ring-inset hover:bg-gray-50 disabled:opacity-50"
+                            title="暂不行动，放入将来/也许清单定期回顾"
+                          >
+                            将来/也许
+                          </button>
                           <button
                             type="button"
                             onClick={() => handleConvertToTask(idea.id)}
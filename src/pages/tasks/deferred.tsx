@@ -0,0 +1,277 @@
+/**
+ * 推迟任务页面
+ *
+ * 功能：
+ * 1. 按重新出现的日期分组查看推迟中的任务
+ * 2. 立即显示、修改推迟日期或编辑任务
+ */
+
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import {
+  ArchiveBoxArrowDownIcon,
+  CalendarIcon,
+  EyeIcon,
+  PencilIcon,
+} from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import MainLayout from "@/components/Layout/MainLayout";
+import AuthGuard from "@/components/Layout/AuthGuard";
+import { SectionLoading } from "@/components/UI";
+import TaskModal from "@/components/Tasks/TaskModal";
+import DeferTaskModal from "@/components/Tasks/DeferTaskModal";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { usePageRefresh } from "@/hooks/usePageRefresh";
+import { type TagData, TagList } from "@/components/Tags";
+import { getLocalDateString } from "@/utils/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 距离重新出现还有几天
+function formatRemaining(dateKey: string) {
+  const today = new Date(`${getLocalDateString(new Date())}T00:00:00`);
+  const days = Math.round(
+    (new Date(`${dateKey}T00:00:00`).getTime() - today.getTime()) / DAY_MS,
+  );
+  if (days <= 1) return "明天";
+  return `${days} 天后`;
+}
+
+const DeferredTasksPage: NextPage = () => {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const utils = api.useContext();
+
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [deferringTask, setDeferringTask] = useState<{
+    id: string;
+    title: string;
+    deferUntil: Date | null;
+  } | null>(null);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = api.task.getDeferred.useInfiniteQuery(
+    { limit: 50 },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor },
+  );
+
+  usePageRefresh(() => {
+    void refetch();
+  }, [refetch]);
+
+  const tasks = useMemo(
+    () => data?.pages.flatMap((page) => page.tasks) ?? [],
+    [data],
+  );
+  const totalCount = data?.pages[0]?.totalCount ?? 0;
+
+  // 按重新出现的日期分组（查询结果已按日期排序）
+  const groups = useMemo(() => {
+    const result: Array<{ date: string; tasks: typeof tasks }> = [];
+    for (const task of tasks) {
+      if (!task.deferUntil) continue;
+      const date = getLocalDateString(task.deferUntil);
+      const last = result[result.length - 1];
+      if (last?.date === date) {
+        last.tasks.push(task);
+      } else {
+        result.push({ date, tasks: [task] });
+      }
+    }
+    return result;
+  }, [tasks]);
+
+  const handleChanged = () => {
+    void utils.task.invalidate();
+  };
+
+  const deferTask = api.task.defer.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "恢复显示失败");
+    },
+  });
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <Head>
+          <title>推迟任务 | Infer GTD</title>
+          <meta name="description" content="推迟到以后再出现的任务" />
+        </Head>
+
+        <div className="space-y-6">
+          {/* 页面标题 */}
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+              <ArchiveBoxArrowDownIcon className="h-7 w-7 text-gray-500" />
+              推迟任务
+              {totalCount > 0 && (
+                <span className="rounded-full bg-gray-100 px-2 py-0.5 text-sm font-medium text-gray-600">
+                  {totalCount}
+                </span>
+              )}
+            </h1>
+            <p className="mt-1 text-sm text-gray-500">
+              推迟的任务在到期前不会出现在下一步行动、看板和首页，到期当天自动重新出现。可以在
+              <Link
+                href="/settings"
+                className="mx-1 text-blue-600 hover:text-blue-800"
+              >
+                设置
+              </Link>
+              中选择是否把到期的想法转为待办
+            </p>
+          </div>
+
+          {/* 列表 */}
+          {isLoading ? (
+            <SectionLoading message="正在加载推迟任务..." />
+          ) : groups.length === 0 ? (
+            <div className="rounded-lg border border-gray-200 bg-white py-12 text-center">
+              <ArchiveBoxArrowDownIcon className="mx-auto h-12 w-12 text-gray-300" />
+              <p className="mt-4 text-sm text-gray-500">没有推迟中的任务</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {groups.map((group) => (
+                <section key={group.date}>
+                  <h2 className="mb-2 flex items-center gap-2 text-sm font-semibold text-gray-700">
+                    <CalendarIcon className="h-4 w-4" />
+                    {new Date(`${group.date}T00:00:00`).toLocaleDateString(
+                      "zh-CN",
+                      { month: "long", day: "numeric", weekday: "short" },
+                    )}
+                    <span className="font-normal text-gray-500">
+                      · {formatRemaining(group.date)}重新出现
+                    </span>
+                  </h2>
+                  <div className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+                    {group.tasks.map((task) => (
+                      <div
+                        key={task.id}
+                        className="flex items-start gap-3 px-4 py-3 hover:bg-gray-50"
+                      >
+                        <div className="min-w-0 flex-1">
+                          <div className="truncate font-medium text-gray-900">
+                            {task.title}
+                          </div>
+                          {task.description && (
+                            <p className="mt-0.5 line-clamp-2 text-sm text-gray-500">
+                              {task.description}
+                            </p>
+                          )}
+                          {(!!task.project || task.tags.length > 0) && (
+                            <div className="mt-2 flex flex-wrap items-center gap-2">
+                              {task.project && (
+                                <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                                  {task.project.name}
+                                </span>
+                              )}
+                              {task.tags.length > 0 && (
+                                <TagList
+                                  tags={task.tags.map(
+                                    (tagRelation) => tagRelation.tag as TagData,
+                                  )}
+                                  size="sm"
+                                  variant="default"
+                                  showIcon={true}
+                                  maxDisplay={4}
+                                  className="flex-wrap"
+                                />
+                              )}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex flex-shrink-0 gap-1">
+                          <button
+                            onClick={() =>
+                              deferTask.mutate({
+                                id: task.id,
+                                deferUntil: null,
+                              })
+                            }
+                            disabled={deferTask.isPending}
+                            className="rounded-md p-2 text-gray-400 hover:bg-blue-50 hover:text-blue-600 disabled:opacity-50"
+                            title="立即显示"
+                          >
+                            <EyeIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() =>
+                              setDeferringTask({
+                                id: task.id,
+                                title: task.title,
+                                deferUntil: task.deferUntil,
+                              })
+                            }
+                            className="rounded-md p-2 text-gray-400 hover:bg-yellow-100 hover:text-yellow-600"
+                            title="修改推迟日期"
+                          >
+                            <CalendarIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setEditingTaskId(task.id)}
+                            className="rounded-md p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                            title="编辑任务"
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          )}
+
+          {hasNextPage && (
+            <div className="text-center">
+              <button
+                onClick={() => void fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isFetchingNextPage ? "加载中..." : "加载更多"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* 任务模态框 */}
+        <TaskModal
+          isOpen={!!editingTaskId}
+          onClose={() => setEditingTaskId(null)}
+          taskId={editingTaskId ?? undefined}
+          onSuccess={handleChanged}
+        />
+
+        {/* 推迟任务模态框 */}
+        {deferringTask && (
+          <DeferTaskModal
+            isOpen={!!deferringTask}
+            onClose={() => setDeferringTask(null)}
+            taskId={deferringTask.id}
+            taskTitle={deferringTask.title}
+            currentDeferUntil={deferringTask.deferUntil}
+            onSuccess={handleChanged}
+          />
+        )}
+      </MainLayout>
+    </AuthGuard>
+  );
+};
+
+export default DeferredTasksPage;
@@ -20,6 +20,7 @@ import AuthGuard from "@/components/Layout/AuthGuard";
 import { ConfirmModal, QueryLoading, SectionLoading } from "@/components/UI";
 import TaskModal from "@/components/Tasks/TaskModal";
 import TaskFeedbackModal from "@/components/Tasks/TaskFeedbackModal";
+import SmartListHeader from "@/components/Tasks/SmartListHeader";
 import TimeEntryModal from "@/components/TimeEntryModal";
 import { usePageRefresh } from "@/hooks/usePageRefresh";
 import { useConfirm } from "@/hooks";
@@ -93,6 +94,12 @@ const TaskListPage: NextPage = () => {
   const router = useRouter();
   const { data: sessionData } = useSession();
 
+  // 智能列表（来自侧边栏），在其搜索条件的基础上叠加页面筛选
+  const smartListId =
+    typeof router.query.smartList === "string"
+      ? router.query.smartList
+      : undefined;
+
   // 状态管理
   const [viewMode, setViewMode] = useState<ViewMode>("list");
   const [sortField, setSortField] = useState<SortField>("sortOrder");
@@ -116,7 +123,7 @@ const TaskListPage: NextPage = () => {
   const { confirmState, showConfirm, hideConfirm, setLoading } = useConfirm();
 
   // 全局通知系统
-  const { showSuccess, showError } = useGlobalNotifications();
+  const { showSuccess, showError, showUndo } = useGlobalNotifications();
 
   // 筛选状态
   const [filters, setFilters] = useState<FilterState>({
@@ -153,8 +160,12 @@ const TaskListPage: NextPage = () => {
       params.tagIds = filters.tagIds;
     }
 
+    if (smartListId) {
+      params.smartListId = smartListId;
+    }
+
     return params;
-  }, [filters]);
+  }, [filters, smartListId]);
 
   // 获取任务数据 - 使用无限查询支持分页
   const {
@@ -166,7 +177,7 @@ const TaskListPage: NextPage = () => {
     isFetchingNextPage,
     refetch,
   } = api.task.getAll.useInfiniteQuery(queryParams, {
-    enabled: !!sessionData,
+    enabled: !!sessionData && router.isReady,
     staleTime: 30 * 1000, // 30秒缓存
     refetchOnWindowFocus: true,
     refetchOnMount: true,
@@ -196,17 +207,19 @@ const TaskListPage: NextPage = () => {
 
   // 批量更新任务
   const batchUpdateTasks = api.task.batchUpdate.useMutation({
-    onSuccess: () => {
+    onSuccess: (result) => {
       void refetch();
       setSelectedTasks(new Set());
+      showUndo(result.message, result.undoId);
     },
   });
 
   // 批量删除任务
   const batchDeleteTasks = api.task.batchDelete.useMutation({
-    onSuccess: () => {
+    onSuccess: (result) => {
       void refetch();
       setSelectedTasks(new Set());
+      showUndo(result.message, result.undoId);
     },
     onError: () => {
       // 错误处理已在mutation中统一处理
@@ -297,7 +310,7 @@ const TaskListPage: NextPage = () => {
     const taskCount = selectedTasks.size;
     const confirmed = await showConfirm({
       title: "确认删除任务",
-      message: `确定要删除选中的 ${taskCount} 个任务吗？\n\n删除后无法恢复，请谨慎操作。`,
+      message: `确定要删除选中的 ${taskCount} 个任务吗？\n\n删除后可以在回收站中恢复。`,
       confirmText: "删除",
       cancelText: "取消",
       type: "danger",
@@ -332,9 +345,13 @@ const TaskListPage: NextPage = () => {
     setEditingTaskId(null);
     // 清除URL参数
     if (router.query.edit) {
-      void router.replace("/tasks", undefined, { shallow: true });
+      void router.replace(
+        smartListId ? `/tasks?smartList=${smartListId}` : "/tasks",
+        undefined,
+        { shallow: true },
+      );
     }
-  }, [router]);
+  }, [router, smartListId]);
 
   // 处理任务模态框成功
   const handleTaskModalSuccess = useCallback(() => {
@@ -534,8 +551,9 @@ const TaskListPage: NextPage = () => {
             TODO: 2,
             IN_PROGRESS: 3,
             WAITING: 4,
-            DONE: 5,
-            ARCHIVED: 6,
+            SOMEDAY: 5,
+            DONE: 6,
+            ARCHIVED: 7,
           };
           aValue = statusOrder[a.status];
           bValue = statusOrder[b.status];
@@ -565,8 +583,9 @@ const TaskListPage: NextPage = () => {
         TODO: 2,
         IN_PROGRESS: 3,
         WAITING: 4,
-        DONE: 5,
-        ARCHIVED: 6,
+        SOMEDAY: 5,
+        DONE: 6,
+        ARCHIVED: 7,
       };
       const statusResult = statusOrder[a.status] - statusOrder[b.status];
       if (statusResult !== 0) return statusResult;
@@ -665,7 +684,9 @@ const TaskListPage: NextPage = () => {
                 </button>
                 <button
                   onClick={() => {
-                    window.location.href = "/tasks/kanban";
+                    window.location.href = smartListId
+                      ? `/tasks/kanban?smartList=${smartListId}`
+                      : "/tasks/kanban";
                   }}
                   className="rounded-r-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
                   title="切换到看板视图"
@@ -689,6 +710,15 @@ const TaskListPage: NextPage = () => {
             </div>
           </div>
 
+          {/* 智能列表信息 */}
+          {smartListId && (
+            <SmartListHeader
+              smartListId={smartListId}
+              view="LIST"
+              totalCount={tasksData?.pages[0]?.totalCount}
+            />
+          )}
+
           {/* 筛选面板 */}
           {showFilters && (
             <div className="rounded-lg border border-gray-200 bg-white p-4">
@@ -723,6 +753,7 @@ const TaskListPage: NextPage = () => {
                       { value: TaskStatus.TODO, label: "待办" },
                       { value: TaskStatus.IN_PROGRESS, label: "进行中" },
                       { value: TaskStatus.WAITING, label: "等待中" },
+                      { value: TaskStatus.SOMEDAY, label: "将来/也许" },
                       { value: TaskStatus.DONE, label: "已完成" },
                       { value: TaskStatus.ARCHIVED, label: "已归档" },
                     ].map((status) => (
@@ -945,6 +976,7 @@ const TaskListPage: NextPage = () => {
                     <option value={TaskStatus.TODO}>待办</option>
                     <option value={TaskStatus.IN_PROGRESS}>进行中</option>
                     <option value={TaskStatus.WAITING}>等待中</option>
+                    <option value={TaskStatus.SOMEDAY}>将来/也许</option>
                     <option value={TaskStatus.DONE}>已完成</option>
                     <option value={TaskStatus.ARCHIVED}>已归档</option>
                   </select>
@@ -1169,6 +1201,7 @@ function getStatusLabel(status: TaskStatus): string {
     [TaskStatus.TODO]: "待办",
     [TaskStatus.IN_PROGRESS]: "进行中",
     [TaskStatus.WAITING]: "等待中",
+    [TaskStatus.SOMEDAY]: "将来/也许",
     [TaskStatus.DONE]: "已完成",
     [TaskStatus.ARCHIVED]: "已归档",
   };
@@ -1209,6 +1242,7 @@ function TaskListCard({
     TODO: "bg-blue-100 text-blue-800",
     IN_PROGRESS: "bg-yellow-100 text-yellow-800",
     WAITING: "bg-purple-100 text-purple-800",
+    SOMEDAY: "bg-teal-100 text-teal-800",
     DONE: "bg-green-100 text-green-800",
     ARCHIVED: "bg-gray-100 text-gray-800",
   };
@@ -1692,6 +1726,7 @@ function TimeTrackingTaskCard({
     TODO: "bg-blue-100 text-blue-800",
     IN_PROGRESS: "bg-yellow-100 text-yellow-800",
     WAITING: "bg-purple-100 text-purple-800",
+    SOMEDAY: "bg-teal-100 text-teal-800",
     DONE: "bg-green-100 text-green-800",
     ARCHIVED: "bg-gray-100 text-gray-800",
   };
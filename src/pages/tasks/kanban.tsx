@@ -45,11 +45,14 @@ import TaskFeedbackModal from "@/components/Tasks/TaskFeedbackModal";
 import TaskWaitingReasonModal from "@/components/Tasks/TaskWaitingReasonModal";
 import TimeEntryModal from "@/components/TimeEntryModal";
 import PostponeTaskModal from "@/components/Tasks/PostponeTaskModal";
+import SmartListHeader from "@/components/Tasks/SmartListHeader";
 import { ConfirmModal, PageLoading } from "@/components/UI";
 import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
 import { usePageRefresh } from "@/hooks/usePageRefresh";
 import { useConfirm } from "@/hooks";
 import { type TagData, TagList } from "@/components/Tags";
+import { getTaskProgress } from "@/utils/task-progress";
+import { getOpenBlockers } from "@/utils/task-dependencies";
 
 // 看板列配置
 const KANBAN_COLUMNS = [
@@ -112,6 +115,11 @@ type TaskWithRelations = Task & {
     startTime: Date;
     endTime?: Date | null;
   }>;
+  subtasks?: Array<{ id: string; status: TaskStatus }>;
+  checklistItems?: Array<{ id: string; isCompleted: boolean }>;
+  blockedBy?: Array<{
+    blocker: { id: string; title: string; status: TaskStatus };
+  }>;
   _count: {
     timeEntries: number;
     statusHistory: number;
@@ -174,6 +182,7 @@ const KanbanPage: NextPage = () => {
     [TaskStatus.TODO]: [],
     [TaskStatus.IN_PROGRESS]: [],
     [TaskStatus.WAITING]: [],
+    [TaskStatus.SOMEDAY]: [],
     [TaskStatus.DONE]: [],
     [TaskStatus.ARCHIVED]: [],
   });
@@ -187,7 +196,7 @@ const KanbanPage: NextPage = () => {
   );
 
   // 通知系统
-  const { showSuccess, showError } = useGlobalNotifications();
+  const { showSuccess, showError, showUndo } = useGlobalNotifications();
 
   // 确认对话框
   const { confirmState, showConfirm, hideConfirm } = useConfirm();
@@ -226,12 +235,18 @@ const KanbanPage: NextPage = () => {
     return columnCollisions;
   };
 
+  // 智能列表（来自侧边栏）：每一列只显示符合其搜索条件的任务
+  const smartListId =
+    typeof router.query.smartList === "string"
+      ? router.query.smartList
+      : undefined;
+
   // 为每个状态单独获取任务数据
   // 使用 useInfiniteQuery 来实现真正的分页加载，避免数据清空
   const ideaTasks = api.task.getByStatus.useInfiniteQuery(
-    { status: TaskStatus.IDEA, limit: 10 },
+    { status: TaskStatus.IDEA, limit: 10, smartListId },
     {
-      enabled: !!sessionData,
+      enabled: !!sessionData && router.isReady,
       staleTime: 30 * 1000,
       refetchOnWindowFocus: true,
       getNextPageParam: (lastPage) => lastPage.nextCursor,
@@ -239,9 +254,9 @@ const KanbanPage: NextPage = () => {
   );
 
   const todoTasks = api.task.getByStatus.useInfiniteQuery(
-    { status: TaskStatus.TODO, limit: 10 },
+    { status: TaskStatus.TODO, limit: 10, smartListId },
     {
-      enabled: !!sessionData,
+      enabled: !!sessionData && router.isReady,
       staleTime: 30 * 1000,
       refetchOnWindowFocus: true,
       getNextPageParam: (lastPage) => lastPage.nextCursor,
@@ -249,9 +264,9 @@ const KanbanPage: NextPage = () => {
   );
 
   const inProgressTasks = api.task.getByStatus.useInfiniteQuery(
-    { status: TaskStatus.IN_PROGRESS, limit: 10 },
+    { status: TaskStatus.IN_PROGRESS, limit: 10, smartListId },
     {
-      enabled: !!sessionData,
+      enabled: !!sessionData && router.isReady,
       staleTime: 30 * 1000,
       refetchOnWindowFocus: true,
       getNextPageParam: (lastPage) => lastPage.nextCursor,
@@ -259,9 +274,9 @@ const KanbanPage: NextPage = () => {
   );
 
   const waitingTasks = api.task.getByStatus.useInfiniteQuery(
-    { status: TaskStatus.WAITING, limit: 10 },
+    { status: TaskStatus.WAITING, limit: 10, smartListId },
     {
-      enabled: !!sessionData,
+      enabled: !!sessionData && router.isReady,
       staleTime: 30 * 1000,
       refetchOnWindowFocus: true,
       getNextPageParam: (lastPage) => lastPage.nextCursor,
@@ -269,9 +284,9 @@ const KanbanPage: NextPage = () => {
   );
 
   const doneTasks = api.task.getByStatus.useInfiniteQuery(
-    { status: TaskStatus.DONE, limit: 10 },
+    { status: TaskStatus.DONE, limit: 10, smartListId },
     {
-      enabled: !!sessionData,
+      enabled: !!sessionData && router.isReady,
       staleTime: 30 * 1000,
       refetchOnWindowFocus: true,
       getNextPageParam: (lastPage) => lastPage.nextCursor,
@@ -433,6 +448,7 @@ const KanbanPage: NextPage = () => {
       [TaskStatus.TODO]: [],
       [TaskStatus.IN_PROGRESS]: [],
       [TaskStatus.WAITING]: [],
+      [TaskStatus.SOMEDAY]: [],
       [TaskStatus.DONE]: [],
       [TaskStatus.ARCHIVED]: [],
     };
@@ -510,12 +526,20 @@ const KanbanPage: NextPage = () => {
 
   // 任务状态更新
   const updateTaskStatus = api.task.updateStatus.useMutation({
-    onSuccess: (_, variables) => {
+    onSuccess: (result, variables) => {
       const columnTitle = KANBAN_COLUMNS.find(
         (col) => col.status === variables.status,
       )?.title;
       showSuccess(`任务已移动到"${columnTitle}"`);
 
+      // 完成任务后可能生成了重复实例或解除了等待任务，需要刷新其他列
+      if (result.nextInstance || result.releasedTasks?.length) {
+        if (result.nextInstance) {
+          showSuccess(`已生成下一次重复任务 "${result.nextInstance.title}"`);
+        }
+        void refetchAll();
+      }
+
       // 清除乐观更新状态
       setOptimisticUpdates((prev) => {
         const newState = { ...prev };
@@ -673,7 +697,7 @@ const KanbanPage: NextPage = () => {
 
   // 更新任务位置（新方案：邻接插入 + 稀疏排序）
   const updatePosition = api.task.updatePosition.useMutation({
-    onSuccess: (_, variables) => {
+    onSuccess: (result, variables) => {
       // 立即清理更新状态
       setUpdatingTasks((prev) => {
         const newSet = new Set(prev);
@@ -694,6 +718,7 @@ const KanbanPage: NextPage = () => {
           [TaskStatus.TODO]: [],
           [TaskStatus.IN_PROGRESS]: [],
           [TaskStatus.WAITING]: [],
+          [TaskStatus.SOMEDAY]: [],
           [TaskStatus.DONE]: [],
           [TaskStatus.ARCHIVED]: [],
         });
@@ -717,7 +742,7 @@ const KanbanPage: NextPage = () => {
         }
       }
 
-      showSuccess("任务位置已更新");
+      showUndo("任务位置已更新", result.undoId);
     },
     onError: (error) => {
       showError(error.message ?? "更新任务位置失败");
@@ -727,6 +752,7 @@ const KanbanPage: NextPage = () => {
         [TaskStatus.TODO]: [],
         [TaskStatus.IN_PROGRESS]: [],
         [TaskStatus.WAITING]: [],
+        [TaskStatus.SOMEDAY]: [],
         [TaskStatus.DONE]: [],
         [TaskStatus.ARCHIVED]: [],
       });
@@ -1082,7 +1108,7 @@ const KanbanPage: NextPage = () => {
 
     const confirmed = await showConfirm({
       title: "确认删除任务",
-      message: `确定要删除任务"${taskTitle}"吗？\n\n此操作无法撤销，任务的所有相关数据（包括时间记录、状态历史等）都将被永久删除。`,
+      message: `确定要删除任务"${taskTitle}"吗？\n\n任务和子任务会移到回收站，时间记录、状态历史等数据保留，可以在回收站中恢复。`,
       confirmText: "删除",
       cancelText: "取消",
       type: "danger",
@@ -1517,6 +1543,11 @@ const KanbanPage: NextPage = () => {
             </button>
           </div>
 
+          {/* 智能列表信息 */}
+          {smartListId && (
+            <SmartListHeader smartListId={smartListId} view="KANBAN" />
+          )}
+
           {/* 看板列 */}
           <DndContext
             sensors={sensors}
@@ -2055,6 +2086,8 @@ function TaskCard({
   };
 
   const deadlineInfo = getDeadlineInfo(task);
+  const subtaskProgress = getTaskProgress(task);
+  const openBlockers = getOpenBlockers(task);
 
   // 限时任务的样式配置（方案A：渐进式增强）
   const getDeadlineCardStyles = () => {
@@ -2347,6 +2380,42 @@ function TaskCard({
         )}
       </div>
 
+      {/* 子任务与检查项进度 */}
+      {subtaskProgress && (
+        <div
+          className="mb-3"
+          title={`子任务与检查项：已完成 ${subtaskProgress.completed}/${subtaskProgress.total}`}
+        >
+          <div className="mb-1 flex items-center justify-between text-xs text-gray-500">
+            <span>☑ 子项进度</span>
+            <span>
+              {subtaskProgress.completed}/{subtaskProgress.total}
+            </span>
+          </div>
+          <div className="h-1 overflow-hidden rounded-full bg-gray-200">
+            <div
+              className={`h-full transition-all duration-300 ${
+                subtaskProgress.completed === subtaskProgress.total
+                  ? "bg-green-500"
+                  : "bg-blue-500"
+              }`}
+              style={{ width: `${subtaskProgress.percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* 前置任务 */}
+      {openBlockers.length > 0 && (
+        <div
+          className="mb-3 truncate text-xs text-amber-700"
+          title={`被阻塞于：${openBlockers.map((blocker) => blocker.title).join("、")}`}
+        >
+          🔗 被阻塞于 {openBlockers[0]!.title}
+          {openBlockers.length > 1 && ` 等 ${openBlockers.length} 个任务`}
+        </div>
+      )}
+
       {/* 底部信息 - 重新设计为垂直布局 */}
       <div className="space-y-2">
         {/* 第一行：优先级（仅在有优先级时显示） */}
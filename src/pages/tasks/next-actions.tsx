@@ -22,7 +22,9 @@ import MainLayout from "@/components/Layout/MainLayout";
 import AuthGuard from "@/components/Layout/AuthGuard";
 import { QueryLoading, SectionLoading } from "@/components/UI";
 import TaskModal from "@/components/Tasks/TaskModal";
+import DeferTaskModal from "@/components/Tasks/DeferTaskModal";
 import { usePageRefresh } from "@/hooks/usePageRefresh";
+import { hasOpenBlockers } from "@/utils/task-dependencies";
 
 // 上下文类型定义
 interface ContextGroup {
@@ -58,6 +60,9 @@ type TaskWithRelations = {
     startTime: Date;
     endTime?: Date | null;
   }>;
+  blockedBy?: Array<{
+    blocker: { id: string; title: string; status: TaskStatus };
+  }>;
   _count: {
     timeEntries: number;
     statusHistory: number;
@@ -71,6 +76,10 @@ const NextActionsPage: NextPage = () => {
   const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const [selectedContext, setSelectedContext] = useState<string | null>(null);
+  const [deferringTask, setDeferringTask] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
 
   // 获取下一步行动任务（TODO和IN_PROGRESS状态）
   const {
@@ -82,6 +91,7 @@ const NextActionsPage: NextPage = () => {
     {
       limit: 100,
       // 不设置status筛选，在客户端筛选下一步行动
+      hideDeferred: true,
     },
     {
       enabled: !!sessionData,
@@ -176,11 +186,16 @@ const NextActionsPage: NextPage = () => {
     [startTimer],
   );
 
-  // 延期任务
-  const handleDefer = useCallback(async (taskId: string) => {
-    // TODO: 实现延期功能，可以打开一个日期选择器
-    console.log("延期任务:", taskId);
-  }, []);
+  // 推迟任务
+  const handleDefer = useCallback(
+    (taskId: string) => {
+      const task = tasksData?.tasks.find((item) => item.id === taskId);
+      if (task) {
+        setDeferringTask({ id: task.id, title: task.title });
+      }
+    },
+    [tasksData],
+  );
 
   // 委派任务
   const handleDelegate = useCallback(
@@ -259,11 +274,12 @@ const NextActionsPage: NextPage = () => {
   const contextGroups = useMemo((): ContextGroup[] => {
     const tasks = tasksData?.tasks ?? [];
 
-    // 筛选下一步行动（TODO和IN_PROGRESS状态）
+    // 筛选下一步行动（TODO和IN_PROGRESS状态，且没有未完成的前置任务）
     const nextActionTasks = tasks.filter(
       (task) =>
-        task.status === TaskStatus.TODO ||
-        task.status === TaskStatus.IN_PROGRESS,
+        (task.status === TaskStatus.TODO ||
+          task.status === TaskStatus.IN_PROGRESS) &&
+        !hasOpenBlockers(task),
     );
 
     // 定义上下文组
@@ -489,6 +505,17 @@ const NextActionsPage: NextPage = () => {
           taskId={editingTaskId ?? undefined}
           onSuccess={handleTaskModalSuccess}
         />
+
+        {/* 推迟任务模态框 */}
+        {deferringTask && (
+          <DeferTaskModal
+            isOpen={!!deferringTask}
+            onClose={() => setDeferringTask(null)}
+            taskId={deferringTask.id}
+            taskTitle={deferringTask.title}
+            onSuccess={() => void refetch()}
+          />
+        )}
       </MainLayout>
     </AuthGuard>
   );
@@ -733,12 +760,12 @@ function NextActionCard({
             </button>
           )}
 
-          {/* 延期 */}
+          {/* 推迟 */}
           <button
             onClick={onDefer}
             disabled={isUpdating}
             className="rounded-md p-2 text-gray-400 hover:bg-yellow-100 hover:text-yellow-600 disabled:opacity-50"
-            title="延期"
+            title="推迟"
           >
             <CalendarIcon className="h-4 w-4" />
           </button>
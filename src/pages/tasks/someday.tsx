@@ -0,0 +1,329 @@
+/**
+ * 将来/也许页面
+ *
+ * 功能：
+ * 1. 快速记录暂不行动的事项
+ * 2. 查看和搜索将来/也许清单，按最久未动排序
+ * 3. 一键转为待办并指定项目，或归档不再考虑的事项
+ * 4. 回顾提醒和完成回顾
+ */
+
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useState } from "react";
+import {
+  ArchiveBoxIcon,
+  ArrowUpCircleIcon,
+  CheckCircleIcon,
+  MagnifyingGlassIcon,
+  PencilIcon,
+  PlusIcon,
+  SparklesIcon,
+} from "@heroicons/react/24/outline";
+import { TaskStatus, TaskType } from "@prisma/client";
+
+import { api } from "@/utils/api";
+import MainLayout from "@/components/Layout/MainLayout";
+import AuthGuard from "@/components/Layout/AuthGuard";
+import { SectionLoading } from "@/components/UI";
+import TaskModal from "@/components/Tasks/TaskModal";
+import PromoteSomedayModal from "@/components/Tasks/PromoteSomedayModal";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { usePageRefresh } from "@/hooks/usePageRefresh";
+import { type TagData, TagList } from "@/components/Tags";
+
+const SomedayPage: NextPage = () => {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const utils = api.useContext();
+
+  const [newItem, setNewItem] = useState("");
+  const [search, setSearch] = useState("");
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [promotingTask, setPromotingTask] = useState<{
+    id: string;
+    title: string;
+    projectId: string | null;
+  } | null>(null);
+
+  const { data: reviewStatus, refetch: refetchReviewStatus } =
+    api.someday.getReviewStatus.useQuery();
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = api.someday.getList.useInfiniteQuery(
+    { limit: 30, search: search.trim() || undefined },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor },
+  );
+
+  usePageRefresh(() => {
+    void refetchReviewStatus();
+    void refetch();
+  }, [refetchReviewStatus, refetch]);
+
+  const tasks = data?.pages.flatMap((page) => page.tasks) ?? [];
+
+  const handleChanged = () => {
+    void utils.someday.invalidate();
+    void utils.task.invalidate();
+  };
+
+  const createItem = api.task.create.useMutation({
+    onSuccess: () => {
+      setNewItem("");
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "添加失败");
+    },
+  });
+
+  const archiveTask = api.task.updateStatus.useMutation({
+    onSuccess: () => {
+      showSuccess("已归档");
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "归档失败");
+    },
+  });
+
+  const markReviewed = api.someday.markReviewed.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      void refetchReviewStatus();
+    },
+    onError: (error) => {
+      showError(error.message || "标记回顾失败");
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+
+    createItem.mutate({
+      title: newItem.trim(),
+      type: TaskType.NORMAL,
+      status: TaskStatus.SOMEDAY,
+    });
+  };
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <Head>
+          <title>将来/也许 | Infer GTD</title>
+          <meta name="description" content="暂不行动、定期回顾的事项" />
+        </Head>
+
+        <div className="space-y-6">
+          {/* 页面标题 */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+                <SparklesIcon className="h-7 w-7 text-teal-500" />
+                将来/也许
+                {(reviewStatus?.count ?? 0) > 0 && (
+                  <span className="rounded-full bg-gray-100 px-2 py-0.5 text-sm font-medium text-gray-600">
+                    {reviewStatus?.count}
+                  </span>
+                )}
+              </h1>
+              <p className="mt-1 text-sm text-gray-500">
+                {reviewStatus?.reviewedAt
+                  ? `上次回顾于 ${new Date(reviewStatus.reviewedAt).toLocaleDateString("zh-CN")}`
+                  : "还没有回顾过"}
+                ，每 {reviewStatus?.intervalDays ?? 30} 天提醒一次，可以在
+                <Link
+                  href="/settings"
+                  className="mx-1 text-blue-600 hover:text-blue-800"
+                >
+                  设置
+                </Link>
+                中修改
+              </p>
+            </div>
+            <button
+              onClick={() => markReviewed.mutate()}
+              disabled={markReviewed.isPending || !reviewStatus?.count}
+              className="inline-flex items-center gap-2 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <CheckCircleIcon className="h-4 w-4" />
+              完成回顾
+            </button>
+          </div>
+
+          {/* 回顾提醒 */}
+          {reviewStatus?.isDue && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              该回顾将来/也许清单了：逐项看看哪些已经可以开始行动，哪些不再需要，回顾完点击“完成回顾”。
+            </div>
+          )}
+
+          {/* 快速添加 */}
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              placeholder="记下以后可能想做的事..."
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!newItem.trim() || createItem.isPending}
+              className="inline-flex flex-shrink-0 items-center gap-1 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <PlusIcon className="h-4 w-4" />
+              添加
+            </button>
+          </form>
+
+          {/* 搜索 */}
+          <div className="relative">
+            <MagnifyingGlassIcon className="pointer-events-none absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="搜索将来/也许..."
+              className="block w-full rounded-md border-gray-300 pl-9 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+
+          {/* 列表 */}
+          {isLoading ? (
+            <SectionLoading message="正在加载将来/也许..." />
+          ) : tasks.length === 0 ? (
+            <div className="rounded-lg border border-gray-200 bg-white py-12 text-center">
+              <SparklesIcon className="mx-auto h-12 w-12 text-gray-300" />
+              <p className="mt-4 text-sm text-gray-500">
+                {search.trim() ? "没有匹配的事项" : "将来/也许清单是空的"}
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+              {tasks.map((task) => (
+                <div
+                  key={task.id}
+                  className="flex items-start gap-3 px-4 py-3 hover:bg-gray-50"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-medium text-gray-900">
+                      {task.title}
+                    </div>
+                    {task.description && (
+                      <p className="mt-0.5 line-clamp-2 text-sm text-gray-500">
+                        {task.description}
+                      </p>
+                    )}
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      {task.project && (
+                        <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                          {task.project.name}
+                        </span>
+                      )}
+                      {task.tags.length > 0 && (
+                        <TagList
+                          tags={task.tags.map(
+                            (tagRelation) => tagRelation.tag as TagData,
+                          )}
+                          size="sm"
+                          variant="default"
+                          showIcon={true}
+                          maxDisplay={4}
+                          className="flex-wrap"
+                        />
+                      )}
+                      <span className="text-xs text-gray-400">
+                        {new Date(task.updatedAt).toLocaleDateString("zh-CN")}{" "}
+                        起未变动
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-1">
+                    <button
+                      onClick={() =>
+                        setPromotingTask({
+                          id: task.id,
+                          title: task.title,
+                          projectId: task.projectId,
+                        })
+                      }
+                      className="inline-flex items-center gap-1 rounded-md px-2 py-1 text-sm text-blue-600 hover:bg-blue-50"
+                      title="转为待办"
+                    >
+                      <ArrowUpCircleIcon className="h-4 w-4" />
+                      转为待办
+                    </button>
+                    <button
+                      onClick={() => setEditingTaskId(task.id)}
+                      className="rounded-md p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                      title="编辑"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() =>
+                        archiveTask.mutate({
+                          id: task.id,
+                          status: TaskStatus.ARCHIVED,
+                          note: "从将来/也许归档",
+                        })
+                      }
+                      disabled={archiveTask.isPending}
+                      className="rounded-md p-2 text-gray-400 hover:bg-gray-100 hover:text-gray-600 disabled:opacity-50"
+                      title="归档"
+                    >
+                      <ArchiveBoxIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {hasNextPage && (
+            <div className="text-center">
+              <button
+                onClick={() => void fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isFetchingNextPage ? "加载中..." : "加载更多"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* 任务模态框 */}
+        <TaskModal
+          isOpen={!!editingTaskId}
+          onClose={() => setEditingTaskId(null)}
+          taskId={editingTaskId ?? undefined}
+          onSuccess={handleChanged}
+        />
+
+        {/* 转为待办模态框 */}
+        {promotingTask && (
+          <PromoteSomedayModal
+            isOpen={!!promotingTask}
+            onClose={() => setPromotingTask(null)}
+            taskId={promotingTask.id}
+            taskTitle={promotingTask.title}
+            currentProjectId={promotingTask.projectId}
+            onSuccess={handleChanged}
+          />
+        )}
+      </MainLayout>
+    </AuthGuard>
+  );
+};
+
+export default SomedayPage;
@@ -4,15 +4,15 @@ import { useSession } from "next-auth/react";
 import { useCallback, useMemo, useState } from "react";
 import {
   ArrowPathIcon,
+  BellAlertIcon,
   CalendarIcon,
-  ChatBubbleLeftRightIcon,
   CheckIcon,
   ClockIcon,
-  EnvelopeIcon,
   ExclamationTriangleIcon,
-  PhoneIcon,
+  LinkIcon,
   PlusIcon,
   UserIcon,
+  UsersIcon,
 } from "@heroicons/react/24/outline";
 import { Priority, TaskStatus, type TaskType } from "@prisma/client";
 
@@ -20,11 +20,14 @@ import { api } from "@/utils/api";
 import MainLayout from "@/components/Layout/MainLayout";
 import AuthGuard from "@/components/Layout/AuthGuard";
 import { QueryLoading, SectionLoading } from "@/components/UI";
+import ContactManagerModal from "@/components/Tasks/ContactManagerModal";
+import FollowUpModal from "@/components/Tasks/FollowUpModal";
 import TaskModal from "@/components/Tasks/TaskModal";
 import { usePageRefresh } from "@/hooks/usePageRefresh";
 import { type TagData, TagList } from "@/components/Tags";
+import { getOpenBlockers } from "@/utils/task-dependencies";
 
-// 等待类型定义
+// 按等待对象分组，未指定等待对象的任务归入同一组
 interface WaitingGroup {
   id: string;
   name: string;
@@ -34,6 +37,13 @@ interface WaitingGroup {
   tasks: TaskWithRelations[];
 }
 
+// 未指定等待对象的分组ID
+const UNASSIGNED_GROUP_ID = "unassigned";
+
+// 跟进日期已到（含今天）
+const isFollowUpDue = (task: TaskWithRelations) =>
+  !!task.followUpAt && new Date(task.followUpAt) <= new Date();
+
 // 扩展Task类型以包含关联数据
 type TaskWithRelations = {
   id: string;
@@ -45,6 +55,15 @@ type TaskWithRelations = {
   dueDate?: Date | null;
   dueTime?: string | null;
   completedAt?: Date | null;
+  waitingReason?: string | null;
+  delegatedAt?: Date | null;
+  followUpAt?: Date | null;
+  waitingFor?: {
+    id: string;
+    name: string;
+    email?: string | null;
+    phone?: string | null;
+  } | null;
   totalTimeSpent: number;
   isTimerActive: boolean;
   createdAt: Date;
@@ -58,6 +77,9 @@ type TaskWithRelations = {
     startTime: Date;
     endTime?: Date | null;
   }>;
+  blockedBy?: Array<{
+    blocker: { id: string; title: string; status: TaskStatus };
+  }>;
   _count: {
     timeEntries: number;
     statusHistory: number;
@@ -73,6 +95,10 @@ const WaitingPage: NextPage = () => {
   const [selectedWaitingType, setSelectedWaitingType] = useState<string | null>(
     null,
   );
+  const [followUpTask, setFollowUpTask] = useState<TaskWithRelations | null>(
+    null,
+  );
+  const [isContactManagerOpen, setIsContactManagerOpen] = useState(false);
 
   // 获取等待中的任务
   const {
@@ -166,123 +192,67 @@ const WaitingPage: NextPage = () => {
     [updateTaskStatus],
   );
 
-  // 跟进提醒
-  const handleFollowUp = useCallback(async (taskId: string) => {
-    // TODO: 实现跟进提醒功能，可以发送通知或创建提醒任务
-    console.log("跟进提醒:", taskId);
-  }, []);
+  // 记录跟进
+  const handleFollowUp = useCallback(
+    (taskId: string) => {
+      setFollowUpTask(
+        tasksData?.tasks.find((task) => task.id === taskId) ?? null,
+      );
+    },
+    [tasksData?.tasks],
+  );
 
-  // 根据标签判断等待类型
-  const getWaitingType = useCallback((task: TaskWithRelations): string => {
-    const waitingTags = task.tags.map((t) => t.tag.name.toLowerCase());
-
-    if (
-      waitingTags.some(
-        (tag) =>
-          tag.includes("回复") || tag.includes("邮件") || tag.includes("email"),
-      )
-    ) {
-      return "email";
-    }
-    if (
-      waitingTags.some(
-        (tag) =>
-          tag.includes("电话") || tag.includes("通话") || tag.includes("phone"),
-      )
-    ) {
-      return "phone";
-    }
-    if (
-      waitingTags.some(
-        (tag) =>
-          tag.includes("会议") ||
-          tag.includes("讨论") ||
-          tag.includes("meeting"),
-      )
-    ) {
-      return "meeting";
-    }
-    if (
-      waitingTags.some(
-        (tag) =>
-          tag.includes("审批") ||
-          tag.includes("批准") ||
-          tag.includes("approval"),
-      )
-    ) {
-      return "approval";
-    }
-    if (
-      waitingTags.some(
-        (tag) =>
-          tag.includes("他人") ||
-          tag.includes("委派") ||
-          tag.includes("delegate"),
-      )
-    ) {
-      return "delegate";
+  // 按等待对象分组任务，需要跟进的任务排在前面
+  const waitingGroups = useMemo((): WaitingGroup[] => {
+    const tasks = [...(tasksData?.tasks ?? [])].sort((a, b) => {
+      const dueDiff = Number(isFollowUpDue(b)) - Number(isFollowUpDue(a));
+      if (dueDiff !== 0) return dueDiff;
+      return (
+        (a.followUpAt?.getTime() ?? Infinity) -
+        (b.followUpAt?.getTime() ?? Infinity)
+      );
+    });
+
+    const groups = new Map<string, WaitingGroup>();
+    for (const task of tasks) {
+      const contact = task.waitingFor;
+      const id = contact?.id ?? UNASSIGNED_GROUP_ID;
+      let group = groups.get(id);
+      if (!group) {
+        group = contact
+          ? {
+              id,
+              name: contact.name,
+              icon: UserIcon,
+              color: "bg-indigo-100 text-indigo-800 border-indigo-200",
+              description:
+                [contact.email, contact.phone].filter(Boolean).join(" · ") ||
+                "等待此人回复或处理的事项",
+              tasks: [],
+            }
+          : {
+              id,
+              name: "未指定",
+              icon: ClockIcon,
+              color: "bg-gray-100 text-gray-800 border-gray-200",
+              description: "没有指定等待对象的事项",
+              tasks: [],
+            };
+        groups.set(id, group);
+      }
+      group.tasks.push(task);
     }
 
-    // 默认等待类型
-    return "general";
-  }, []);
-
-  // 按等待类型分组任务
-  const waitingGroups = useMemo((): WaitingGroup[] => {
-    const tasks = tasksData?.tasks ?? [];
-
-    // 定义等待类型组
-    const waitingTypes: Omit<WaitingGroup, "tasks">[] = [
-      {
-        id: "email",
-        name: "等待回复",
-        icon: EnvelopeIcon,
-        color: "bg-blue-100 text-blue-800 border-blue-200",
-        description: "等待邮件回复或信息反馈",
-      },
-      {
-        id: "phone",
-        name: "等待通话",
-        icon: PhoneIcon,
-        color: "bg-green-100 text-green-800 border-green-200",
-        description: "等待电话回复或通话安排",
-      },
-      {
-        id: "meeting",
-        name: "等待会议",
-        icon: ChatBubbleLeftRightIcon,
-        color: "bg-purple-100 text-purple-800 border-purple-200",
-        description: "等待会议安排或讨论结果",
-      },
-      {
-        id: "approval",
-        name: "等待审批",
-        icon: ExclamationTriangleIcon,
-        color: "bg-orange-100 text-orange-800 border-orange-200",
-        description: "等待上级审批或决策",
-      },
-      {
-        id: "delegate",
-        name: "委派他人",
-        icon: UserIcon,
-        color: "bg-indigo-100 text-indigo-800 border-indigo-200",
-        description: "委派给他人处理的任务",
-      },
-      {
-        id: "general",
-        name: "其他等待",
-        icon: ClockIcon,
-        color: "bg-gray-100 text-gray-800 border-gray-200",
-        description: "其他类型的等待事项",
-      },
-    ];
-
-    // 按等待类型分组任务
-    return waitingTypes.map((waitingType) => ({
-      ...waitingType,
-      tasks: tasks.filter((task) => getWaitingType(task) === waitingType.id),
-    }));
-  }, [tasksData?.tasks, getWaitingType]);
+    // 有需要跟进任务的联系人排在前面，其余按姓名排序，未指定放在最后
+    return Array.from(groups.values()).sort((a, b) => {
+      if (a.id === UNASSIGNED_GROUP_ID) return 1;
+      if (b.id === UNASSIGNED_GROUP_ID) return -1;
+      const dueDiff =
+        b.tasks.filter(isFollowUpDue).length -
+        a.tasks.filter(isFollowUpDue).length;
+      return dueDiff !== 0 ? dueDiff : a.name.localeCompare(b.name, "zh-CN");
+    });
+  }, [tasksData?.tasks]);
 
   // 筛选后的等待组（只显示有任务的组，或者选中的组）
   const filteredWaitingGroups = useMemo(() => {
@@ -317,15 +287,26 @@ const WaitingPage: NextPage = () => {
         sum +
         group.tasks.filter((task) => {
           const daysSinceCreated = Math.floor(
-            (new Date().getTime() - new Date(task.createdAt).getTime()) /
+            (new Date().getTime() -
+              new Date(task.delegatedAt ?? task.createdAt).getTime()) /
               (1000 * 60 * 60 * 24),
           );
           return daysSinceCreated >= 7; // 等待超过7天
         }).length,
       0,
     );
+    const followUpDueTasks = waitingGroups.reduce(
+      (sum, group) => sum + group.tasks.filter(isFollowUpDue).length,
+      0,
+    );
 
-    return { totalTasks, urgentTasks, overdueTasks, longWaitingTasks };
+    return {
+      totalTasks,
+      urgentTasks,
+      overdueTasks,
+      longWaitingTasks,
+      followUpDueTasks,
+    };
   }, [waitingGroups]);
 
   return (
@@ -356,6 +337,12 @@ const WaitingPage: NextPage = () => {
                   <ClockIcon className="h-4 w-4" />
                   {stats.totalTasks} 个等待
                 </span>
+                {stats.followUpDueTasks > 0 && (
+                  <span className="flex items-center gap-1 text-red-600">
+                    <BellAlertIcon className="h-4 w-4" />
+                    {stats.followUpDueTasks} 个待跟进
+                  </span>
+                )}
                 {stats.urgentTasks > 0 && (
                   <span className="flex items-center gap-1 text-red-600">
                     <ExclamationTriangleIcon className="h-4 w-4" />
@@ -376,6 +363,15 @@ const WaitingPage: NextPage = () => {
                 )}
               </div>
 
+              {/* 联系人管理 */}
+              <button
+                onClick={() => setIsContactManagerOpen(true)}
+                className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:outline-none"
+              >
+                <UsersIcon className="mr-2 h-4 w-4" />
+                联系人
+              </button>
+
               {/* 新建任务按钮 */}
               <button
                 onClick={() => setIsTaskModalOpen(true)}
@@ -387,7 +383,7 @@ const WaitingPage: NextPage = () => {
             </div>
           </div>
 
-          {/* 等待类型筛选 */}
+          {/* 等待对象筛选 */}
           <div className="flex flex-wrap gap-2">
             <button
               onClick={() => setSelectedWaitingType(null)}
@@ -467,6 +463,26 @@ const WaitingPage: NextPage = () => {
           onClose={handleTaskModalClose}
           taskId={editingTaskId ?? undefined}
           onSuccess={handleTaskModalSuccess}
+          defaultStatus={TaskStatus.WAITING}
+        />
+
+        {/* 记录跟进模态框 */}
+        {followUpTask && (
+          <FollowUpModal
+            isOpen={!!followUpTask}
+            onClose={() => setFollowUpTask(null)}
+            taskId={followUpTask.id}
+            taskTitle={followUpTask.title}
+            waitingForName={followUpTask.waitingFor?.name}
+            onSuccess={() => void refetch()}
+          />
+        )}
+
+        {/* 联系人管理模态框 */}
+        <ContactManagerModal
+          isOpen={isContactManagerOpen}
+          onClose={() => setIsContactManagerOpen(false)}
+          onChanged={() => void refetch()}
         />
       </MainLayout>
     </AuthGuard>
@@ -564,17 +580,28 @@ function WaitingTaskCard({
   // 判断是否逾期
   const isOverdue = task.dueDate && new Date(task.dueDate) < new Date();
 
-  // 计算等待天数
+  // 跟进日期已到
+  const followUpDue = isFollowUpDue(task);
+
+  // 计算等待天数（从委派日期开始计算）
   const waitingDays = Math.floor(
-    (new Date().getTime() - new Date(task.createdAt).getTime()) /
+    (new Date().getTime() -
+      new Date(task.delegatedAt ?? task.createdAt).getTime()) /
       (1000 * 60 * 60 * 24),
   );
 
   // 判断是否长期等待
   const isLongWaiting = waitingDays >= 7;
 
+  // 尚未完成的前置任务
+  const openBlockers = getOpenBlockers(task);
+
   return (
-    <div className="p-6 transition-colors hover:bg-gray-50">
+    <div
+      className={`p-6 transition-colors ${
+        followUpDue ? "bg-red-50 hover:bg-red-100" : "hover:bg-gray-50"
+      }`}
+    >
       <div className="flex items-start justify-between">
         {/* 任务信息 */}
         <div className="min-w-0 flex-1">
@@ -601,6 +628,12 @@ function WaitingTaskCard({
 
                 {/* 等待时间提醒 */}
                 <div className="ml-4 flex items-center gap-2">
+                  {followUpDue && (
+                    <span className="inline-flex items-center gap-1 rounded-full bg-red-100 px-2 py-1 text-xs font-medium text-red-800">
+                      <BellAlertIcon className="h-3 w-3" />
+                      需要跟进
+                    </span>
+                  )}
                   {isLongWaiting && (
                     <span className="inline-flex items-center rounded-full bg-purple-100 px-2 py-1 text-xs font-medium text-purple-800">
                       等待 {waitingDays} 天
@@ -620,6 +653,30 @@ function WaitingTaskCard({
                 </p>
               )}
 
+              {/* 等待原因和前置任务 */}
+              {(!!task.waitingReason || openBlockers.length > 0) && (
+                <div className="mt-2 space-y-1 text-sm">
+                  {task.waitingReason && (
+                    <p className="text-gray-700">
+                      <span className="text-gray-500">等待原因：</span>
+                      {task.waitingReason}
+                    </p>
+                  )}
+                  {openBlockers.length > 0 && (
+                    <p className="flex flex-wrap items-center gap-1 text-amber-700">
+                      <LinkIcon className="h-4 w-4" />
+                      <span>被阻塞于：</span>
+                      {openBlockers.map((blocker, index) => (
+                        <span key={blocker.id}>
+                          {blocker.title}
+                          {index < openBlockers.length - 1 && "、"}
+                        </span>
+                      ))}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* 标签和项目 */}
               <div className="mt-2 flex flex-wrap gap-1">
                 {task.project && (
@@ -680,6 +737,25 @@ function WaitingTaskCard({
                   等待 {waitingDays} 天
                 </span>
 
+                {/* 委派日期 */}
+                {task.delegatedAt && (
+                  <span className="flex items-center gap-1">
+                    <UserIcon className="h-3 w-3" />
+                    委派于{" "}
+                    {new Date(task.delegatedAt).toLocaleDateString("zh-CN")}
+                  </span>
+                )}
+
+                {/* 跟进日期 */}
+                {task.followUpAt && (
+                  <span
+                    className={`flex items-center gap-1 ${followUpDue ? "font-medium text-red-600" : ""}`}
+                  >
+                    <BellAlertIcon className="h-3 w-3" />
+                    跟进 {new Date(task.followUpAt).toLocaleDateString("zh-CN")}
+                  </span>
+                )}
+
                 {/* 时间统计 */}
                 {task.totalTimeSpent > 0 && (
                   <span className="flex items-center gap-1">
@@ -693,12 +769,14 @@ function WaitingTaskCard({
 
         {/* 快速操作按钮 */}
         <div className="ml-4 flex items-center gap-1">
-          {/* 跟进提醒 */}
+          {/* 记录跟进 */}
           <button
             onClick={onFollowUp}
             disabled={isUpdating}
-            className="rounded-md p-2 text-gray-400 hover:bg-blue-100 hover:text-blue-600 disabled:opacity-50"
-            title="跟进提醒"
+            className={`rounded-md p-2 hover:bg-blue-100 hover:text-blue-600 disabled:opacity-50 ${
+              followUpDue ? "text-red-500" : "text-gray-400"
+            }`}
+            title="记录跟进"
           >
             <ArrowPathIcon className="h-4 w-4" />
           </button>
@@ -0,0 +1,384 @@
+/**
+ * 回收站页面
+ *
+ * 功能：
+ * 1. 按类型查看已删除的任务、笔记、日记和项目
+ * 2. 恢复或永久删除（支持批量）
+ * 3. 清空回收站
+ */
+
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useState } from "react";
+import {
+  ArrowUturnLeftIcon,
+  BookOpenIcon,
+  DocumentTextIcon,
+  FolderIcon,
+  ListBulletIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+
+import { api } from "@/utils/api";
+import MainLayout from "@/components/Layout/MainLayout";
+import AuthGuard from "@/components/Layout/AuthGuard";
+import { ConfirmModal, SectionLoading } from "@/components/UI";
+import { useGlobalNotifications } from "@/components/Layout/NotificationProvider";
+import { useConfirm } from "@/hooks";
+import { usePageRefresh } from "@/hooks/usePageRefresh";
+import {
+  TRASH_ITEM_TYPE_LABELS,
+  type TrashItemType,
+} from "@/server/api/schemas/trash";
+
+const TABS: Array<{
+  type: TrashItemType;
+  icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
+}> = [
+  { type: "task", icon: ListBulletIcon },
+  { type: "note", icon: DocumentTextIcon },
+  { type: "journal", icon: BookOpenIcon },
+  { type: "project", icon: FolderIcon },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatRemaining(purgeAt: Date) {
+  const days = Math.ceil((new Date(purgeAt).getTime() - Date.now()) / DAY_MS);
+  return days <= 1 ? "即将永久删除" : `${days} 天后永久删除`;
+}
+
+const TrashPage: NextPage = () => {
+  const { showSuccess, showError } = useGlobalNotifications();
+  const { confirmState, showConfirm, hideConfirm } = useConfirm();
+  const utils = api.useContext();
+
+  const [activeType, setActiveType] = useState<TrashItemType>("task");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const { data: summary, refetch: refetchSummary } =
+    api.trash.getSummary.useQuery();
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = api.trash.getItems.useInfiniteQuery(
+    { type: activeType, limit: 20 },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor },
+  );
+
+  usePageRefresh(() => {
+    void refetchSummary();
+    void refetch();
+  }, [refetchSummary, refetch]);
+
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+  const typeLabel = TRASH_ITEM_TYPE_LABELS[activeType];
+
+  // 回收站变化后刷新对应模块的数据
+  const handleChanged = () => {
+    setSelectedIds(new Set());
+    void utils.trash.invalidate();
+    void utils.task.invalidate();
+    void utils.note.invalidate();
+    void utils.journal.invalidate();
+    void utils.project.invalidate();
+    void utils.search.getSmartLists.invalidate();
+  };
+
+  const restore = api.trash.restore.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "恢复失败");
+    },
+  });
+
+  const deletePermanently = api.trash.deletePermanently.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "永久删除失败");
+    },
+  });
+
+  const emptyTrash = api.trash.empty.useMutation({
+    onSuccess: (result) => {
+      showSuccess(result.message);
+      handleChanged();
+    },
+    onError: (error) => {
+      showError(error.message || "清空回收站失败");
+    },
+  });
+
+  const isMutating =
+    restore.isPending || deletePermanently.isPending || emptyTrash.isPending;
+
+  const switchType = (type: TrashItemType) => {
+    setActiveType(type);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected =
+    items.length > 0 && items.every((item) => selectedIds.has(item.id));
+
+  const handleDeletePermanently = async (ids: string[]) => {
+    const confirmed = await showConfirm({
+      title: "永久删除",
+      message: `确定要永久删除 ${ids.length} 个${typeLabel}吗？\n\n永久删除后无法恢复。`,
+      confirmText: "永久删除",
+      cancelText: "取消",
+      type: "danger",
+    });
+
+    if (confirmed) {
+      deletePermanently.mutate({ type: activeType, ids });
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const confirmed = await showConfirm({
+      title: "清空回收站",
+      message:
+        "确定要清空回收站吗？\n\n所有已删除的内容都将被永久删除，无法恢复。",
+      confirmText: "清空",
+      cancelText: "取消",
+      type: "danger",
+    });
+
+    if (confirmed) {
+      emptyTrash.mutate({});
+    }
+  };
+
+  const totalInTrash = summary
+    ? Object.values(summary.counts).reduce((sum, count) => sum + count, 0)
+    : 0;
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <Head>
+          <title>回收站 | Infer GTD</title>
+          <meta name="description" content="恢复或永久删除已删除的内容" />
+        </Head>
+
+        <div className="space-y-6">
+          {/* 页面标题 */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+                <TrashIcon className="h-7 w-7 text-gray-500" />
+                回收站
+              </h1>
+              <p className="mt-1 text-sm text-gray-500">
+                删除的内容保留 {summary?.retentionDays ?? 30}{" "}
+                天后自动永久删除，可以在
+                <Link
+                  href="/settings"
+                  className="mx-1 text-blue-600 hover:text-blue-800"
+                >
+                  设置
+                </Link>
+                中修改保留天数
+              </p>
+            </div>
+            <button
+              onClick={() => void handleEmptyTrash()}
+              disabled={totalInTrash === 0 || isMutating}
+              className="inline-flex items-center gap-2 rounded-md border border-red-300 bg-white px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <TrashIcon className="h-4 w-4" />
+              清空回收站
+            </button>
+          </div>
+
+          {/* 类型切换 */}
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex space-x-6">
+              {TABS.map(({ type, icon: Icon }) => (
+                <button
+                  key={type}
+                  onClick={() => switchType(type)}
+                  className={`flex items-center gap-2 border-b-2 px-1 py-3 text-sm font-medium ${
+                    activeType === type
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  {TRASH_ITEM_TYPE_LABELS[type]}
+                  <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                    {summary?.counts[type] ?? 0}
+                  </span>
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {/* 批量操作 */}
+          {items.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-gray-200 bg-white px-4 py-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() =>
+                    setSelectedIds(
+                      allSelected
+                        ? new Set()
+                        : new Set(items.map((item) => item.id)),
+                    )
+                  }
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {selectedIds.size > 0
+                  ? `已选择 ${selectedIds.size} 项`
+                  : "全选"}
+              </label>
+              {selectedIds.size > 0 && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() =>
+                      restore.mutate({
+                        type: activeType,
+                        ids: Array.from(selectedIds),
+                      })
+                    }
+                    disabled={isMutating}
+                    className="inline-flex items-center gap-1 rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <ArrowUturnLeftIcon className="h-4 w-4" />
+                    恢复
+                  </button>
+                  <button
+                    onClick={() =>
+                      void handleDeletePermanently(Array.from(selectedIds))
+                    }
+                    disabled={isMutating}
+                    className="inline-flex items-center gap-1 rounded-md border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                    永久删除
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 列表 */}
+          {isLoading ? (
+            <SectionLoading message="正在加载回收站..." />
+          ) : items.length === 0 ? (
+            <div className="rounded-lg border border-gray-200 bg-white py-12 text-center">
+              <TrashIcon className="mx-auto h-12 w-12 text-gray-300" />
+              <p className="mt-4 text-sm text-gray-500">
+                回收站中没有已删除的{typeLabel}
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+              {items.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-start gap-3 px-4 py-3 hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(item.id)}
+                    onChange={() => toggleSelected(item.id)}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-medium text-gray-900">
+                      {item.date
+                        ? `${new Date(item.date).toLocaleDateString("zh-CN")} 的日记`
+                        : item.title}
+                    </div>
+                    {item.detail && (
+                      <p className="mt-0.5 line-clamp-2 text-sm text-gray-500">
+                        {item.detail}
+                      </p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-400">
+                      删除于 {new Date(item.deletedAt).toLocaleString("zh-CN")}{" "}
+                      · {formatRemaining(item.purgeAt)}
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-2">
+                    <button
+                      onClick={() =>
+                        restore.mutate({ type: activeType, ids: [item.id] })
+                      }
+                      disabled={isMutating}
+                      className="rounded-md px-2 py-1 text-sm text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                      title="恢复"
+                    >
+                      恢复
+                    </button>
+                    <button
+                      onClick={() => void handleDeletePermanently([item.id])}
+                      disabled={isMutating}
+                      className="rounded-md px-2 py-1 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      title="永久删除"
+                    >
+                      永久删除
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {hasNextPage && (
+            <div className="text-center">
+              <button
+                onClick={() => void fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isFetchingNextPage ? "加载中..." : "加载更多"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <ConfirmModal
+          isOpen={confirmState.isOpen}
+          onClose={hideConfirm}
+          onConfirm={confirmState.onConfirm}
+          title={confirmState.title}
+          message={confirmState.message}
+          confirmText={confirmState.confirmText}
+          cancelText={confirmState.cancelText}
+          type={confirmState.type}
+          isLoading={isMutating}
+        />
+      </MainLayout>
+    </AuthGuard>
+  );
+};
+
+export default TrashPage;
@@ -0,0 +1,175 @@
+/**
+ * REST API（/api/v1）请求处理
+ *
+ * 1. 通过 Authorization: Bearer <令牌> 认证，并校验令牌权限范围
+ * 2. 合并路径参数、查询参数和请求体，按输入 Schema 转换类型
+ * 3. 以令牌所属用户的身份调用对应的 tRPC 过程
+ * 4. 将 TRPCError 转换为 HTTP 状态码和 JSON 错误
+ */
+
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { ZodError } from "zod";
+
+import { createCaller } from "@/server/api/root";
+import { coerceInput, getProcedureInputSchema } from "@/server/api/rest/input";
+import {
+  getRequiredScope,
+  hasRequiredScope,
+  matchRestRoute,
+} from "@/server/api/rest/routes";
+import { createInnerTRPCContext } from "@/server/api/trpc";
+import { getClientIp } from "@/server/auth/session";
+import { db } from "@/server/db";
+import { authenticateApiToken } from "@/server/services/api-token";
+import { serverLoggers } from "@/utils/logger-server";
+
+interface RestErrorBody {
+  error: {
+    code: string;
+    message: string;
+    issues?: ZodError["issues"];
+  };
+}
+
+function sendError(
+  res: NextApiResponse<RestErrorBody>,
+  status: number,
+  code: string,
+  message: string,
+  issues?: ZodError["issues"],
+) {
+  return res.status(status).json({ error: { code, message, issues } });
+}
+
+function getBearerToken(req: NextApiRequest): string | null {
+  const header = req.headers.authorization;
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  return match?.[1] ?? null;
+}
+
+// 按点分路径取出 caller 上的过程函数
+function getCallerProcedure(
+  caller: ReturnType<typeof createCaller>,
+  path: string,
+): (input: unknown) => Promise<unknown> {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (target, key) => (target as Record<string, unknown>)[key],
+      caller,
+    ) as (input: unknown) => Promise<unknown>;
+}
+
+export async function handleRestRequest(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  segments: string[],
+) {
+  const matched = matchRestRoute(req.method ?? "GET", segments);
+  if (!matched.route) {
+    if (matched.allowedMethods.length > 0) {
+      res.setHeader("Allow", matched.allowedMethods.join(", "));
+      return sendError(res, 405, "METHOD_NOT_SUPPORTED", "不支持该请求方法");
+    }
+    return sendError(res, 404, "NOT_FOUND", "接口不存在");
+  }
+  const { route, params } = matched;
+
+  const token = getBearerToken(req);
+  const authenticated = token ? await authenticateApiToken(db, token) : null;
+  if (!authenticated) {
+    res.setHeader("WWW-Authenticate", 'Bearer realm="api"');
+    return sendError(res, 401, "UNAUTHORIZED", "API 令牌无效、已过期或已撤销");
+  }
+
+  if (!hasRequiredScope(authenticated.scopes, route)) {
+    return sendError(
+      res,
+      403,
+      "FORBIDDEN",
+      `令牌缺少 ${getRequiredScope(route)} 权限`,
+    );
+  }
+
+  // 合并参数：路径参数优先，其次请求体，最后查询参数
+  const schema = getProcedureInputSchema(route.procedure);
+  // path 是 Next.js 动态路由参数，不属于接口输入
+  const query = Object.fromEntries(
+    Object.entries(req.query).filter(([key]) => key !== "path"),
+  );
+  const body: unknown = req.body;
+  if (
+    route.method !== "GET" &&
+    route.method !== "DELETE" &&
+    body !== undefined &&
+    body !== "" &&
+    (typeof body !== "object" || body === null || Array.isArray(body))
+  ) {
+    return sendError(res, 400, "BAD_REQUEST", "请求体必须是 JSON 对象");
+  }
+  const rawInput = {
+    ...(schema ? (coerceInput(schema, query, true) as object) : query),
+    ...(schema && typeof body === "object"
+      ? (coerceInput(schema, body) as object)
+      : {}),
+    ...params,
+  };
+
+  const ctx = createInnerTRPCContext({
+    session: {
+      user: {
+        id: authenticated.user.id,
+        name: authenticated.user.name,
+        email: authenticated.user.email,
+        image: authenticated.user.image,
+      },
+      expires: new Date(Date.now() + 60 * 1000).toISOString(),
+    },
+    ipAddress: getClientIp(
+      req.headers["x-forwarded-for"],
+      req.socket.remoteAddress,
+    ),
+  });
+  const caller = createCaller(ctx);
+
+  try {
+    const result = await getCallerProcedure(caller, route.procedure)(rawInput);
+    return res.status(route.successStatus ?? 200).json(result ?? null);
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      const status = getHTTPStatusCodeFromError(error);
+      if (error.cause instanceof ZodError) {
+        return sendError(
+          res,
+          status,
+          error.code,
+          error.cause.issues[0]?.message ?? "参数错误",
+          error.cause.issues,
+        );
+      }
+      if (status >= 500) {
+        serverLoggers.app.error(
+          {
+            procedure: route.procedure,
+            tokenId: authenticated.tokenId,
+            error: error.message,
+          },
+          "REST API 请求失败",
+        );
+      }
+      return sendError(res, status, error.code, error.message);
+    }
+
+    serverLoggers.app.error(
+      {
+        procedure: route.procedure,
+        tokenId: authenticated.tokenId,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "REST API 请求失败",
+    );
+    return sendError(res, 500, "INTERNAL_SERVER_ERROR", "服务器内部错误");
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * REST 请求参数处理
+ *
+ * tRPC 客户端通过 superjson 传输 Date 等类型，REST 调用方只能传字符串，
+ * 这里按过程的输入 Schema 把查询参数和 JSON 中的值转换为对应类型，再交给 tRPC 校验
+ */
+
+import { type AnyProcedure } from "@trpc/server";
+import { z } from "zod";
+
+import { appRouter } from "@/server/api/root";
+import { type ProcedurePath } from "@/server/api/rest/routes";
+
+/**
+ * 获取过程的输入 Schema
+ */
+export function getProcedureInputSchema(
+  path: ProcedurePath,
+): z.ZodTypeAny | null {
+  // 运行时 _def.procedures 是以点分路径为键的扁平结构
+  const procedure = (
+    appRouter._def.procedures as unknown as Record<
+      string,
+      AnyProcedure | undefined
+    >
+  )[path];
+  const input = procedure?._def.inputs[0];
+  return input instanceof z.ZodType ? input : null;
+}
+
+// 去掉 optional/nullable/default/effects 等包装，得到实际类型
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrapSchema(schema.unwrap() as z.ZodTypeAny);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return unwrapSchema(schema.removeDefault() as z.ZodTypeAny);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrapSchema(schema.innerType() as z.ZodTypeAny);
+  }
+  return schema;
+}
+
+/**
+ * 按 Schema 转换参数类型
+ * @param fromQuery 参数来自查询字符串时，数组允许用逗号分隔或重复传参
+ */
+export function coerceInput(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  fromQuery = false,
+): unknown {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  const inner = unwrapSchema(schema);
+
+  if (inner instanceof z.ZodObject) {
+    if (typeof value !== "object" || Array.isArray(value)) return value;
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        shape[key] ? coerceInput(shape[key], item, fromQuery) : item,
+      ]),
+    );
+  }
+
+  if (inner instanceof z.ZodArray) {
+    const items =
+      fromQuery && typeof value === "string"
+        ? value.split(",").filter(Boolean)
+        : value;
+    return Array.isArray(items)
+      ? items.map((item) =>
+          coerceInput(inner.element as z.ZodTypeAny, item, fromQuery),
+        )
+      : items;
+  }
+
+  if (fromQuery && Array.isArray(value)) {
+    // 非数组参数重复传入时取最后一个
+    return coerceInput(schema, value[value.length - 1], fromQuery);
+  }
+
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  if (inner instanceof z.ZodDate) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  if (fromQuery && inner instanceof z.ZodNumber) {
+    const number = Number(value);
+    return value.trim() === "" || Number.isNaN(number) ? value : number;
+  }
+  if (fromQuery && inner instanceof z.ZodBoolean) {
+    if (value === "true") return true;
+    if (value === "false") return false;
+  }
+
+  return value;
+}
@@ -0,0 +1,163 @@
+/**
+ * 根据 REST 路由表和 tRPC 过程的输入 Schema 生成 OpenAPI 3.0 文档
+ */
+
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+import { getProcedureInputSchema } from "@/server/api/rest/input";
+import {
+  getPathParamNames,
+  getRequiredScope,
+  REST_ROUTES,
+} from "@/server/api/rest/routes";
+import { API_TOKEN_RESOURCES } from "@/server/api/schemas/api-token";
+
+type JsonSchema = {
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  description?: string;
+  [key: string]: unknown;
+};
+
+const TAG_DESCRIPTIONS: Record<(typeof API_TOKEN_RESOURCES)[number], string> = {
+  tasks: "任务",
+  notes: "笔记",
+  journals: "日记",
+  projects: "项目",
+  tags: "标签",
+};
+
+const ERROR_RESPONSE = {
+  description: "错误",
+  content: {
+    "application/json": {
+      schema: { $ref: "#/components/schemas/Error" },
+    },
+  },
+};
+
+function toJsonSchema(path: Parameters<typeof getProcedureInputSchema>[0]) {
+  const schema = getProcedureInputSchema(path);
+  if (!schema) return null;
+
+  return zodToJsonSchema(schema, {
+    target: "openApi3",
+    $refStrategy: "none",
+    dateStrategy: "format:date-time",
+  }) as JsonSchema;
+}
+
+export function generateOpenApiDocument(baseUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of REST_ROUTES) {
+    const inputSchema = toJsonSchema(route.procedure);
+    const pathParams = getPathParamNames(route.path);
+    const properties = { ...(inputSchema?.properties ?? {}) };
+    const required = (inputSchema?.required ?? []).filter(
+      (name) => !pathParams.includes(name),
+    );
+
+    const parameters: unknown[] = pathParams.map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: properties[name] ?? { type: "string" },
+    }));
+    for (const name of pathParams) {
+      delete properties[name];
+    }
+
+    const hasBody = route.method !== "GET" && route.method !== "DELETE";
+    if (!hasBody) {
+      for (const [name, schema] of Object.entries(properties)) {
+        parameters.push({
+          name,
+          in: "query",
+          required: required.includes(name),
+          schema,
+          ...(schema.type === "array" ? { style: "form", explode: false } : {}),
+        });
+      }
+    }
+
+    const status = String(route.successStatus ?? 200);
+    paths[route.path] ??= {};
+    paths[route.path]![route.method.toLowerCase()] = {
+      operationId: route.procedure.replace(".", "_"),
+      summary: route.summary,
+      description: `需要权限：\`${getRequiredScope(route)}\`${
+        route.access === "read" ? "（或对应的 write 权限）" : ""
+      }`,
+      tags: [route.resource],
+      parameters,
+      ...(hasBody && Object.keys(properties).length > 0
+        ? {
+            requestBody: {
+              required: required.length > 0,
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties,
+                    ...(required.length > 0 ? { required } : {}),
+                    additionalProperties: false,
+                  },
+                },
+              },
+            },
+          }
+        : {}),
+      responses: {
+        [status]: {
+          description: "成功",
+          content: { "application/json": { schema: {} } },
+        },
+        "400": ERROR_RESPONSE,
+        "401": ERROR_RESPONSE,
+        "403": ERROR_RESPONSE,
+        "404": ERROR_RESPONSE,
+      },
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Infer GTD REST API",
+      version: "1.0.0",
+      description:
+        "使用个人 API 令牌访问任务、笔记、日记、项目和标签。令牌在「用户设置 → API 令牌」中创建，请求时通过 `Authorization: Bearer <令牌>` 传递。",
+    },
+    servers: [{ url: `${baseUrl}/api/v1` }],
+    security: [{ bearerAuth: [] }],
+    tags: API_TOKEN_RESOURCES.map((resource) => ({
+      name: resource,
+      description: TAG_DESCRIPTIONS[resource],
+    })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          properties: {
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                issues: { type: "array", items: { type: "object" } },
+              },
+              required: ["code", "message"],
+            },
+          },
+          required: ["error"],
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * REST API（/api/v1）路由表
+ *
+ * 每个接口对应一个 tRPC 过程，请求参数校验、权限和业务逻辑都复用 tRPC 路由；
+ * OpenAPI 文档也由这里的定义和过程的输入 Schema 生成
+ */
+
+import { type inferRouterInputs } from "@trpc/server";
+
+import { type AppRouter } from "@/server/api/root";
+import {
+  type ApiTokenResource,
+  type ApiTokenScope,
+} from "@/server/api/schemas/api-token";
+
+type RouterInputs = inferRouterInputs<AppRouter>;
+
+// 形如 "task.getAll" 的过程路径
+export type ProcedurePath = {
+  [R in keyof RouterInputs]: `${R & string}.${keyof RouterInputs[R] & string}`;
+}[keyof RouterInputs];
+
+export type RestMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface RestRoute {
+  method: RestMethod;
+  // 路径参数使用 {name} 形式，如 /tasks/{id}
+  path: string;
+  procedure: ProcedurePath;
+  resource: ApiTokenResource;
+  access: "read" | "write";
+  summary: string;
+  // 成功时的 HTTP 状态码，默认 200
+  successStatus?: number;
+}
+
+export const REST_ROUTES: RestRoute[] = [
+  // 任务
+  {
+    method: "GET",
+    path: "/tasks",
+    procedure: "task.getAll",
+    resource: "tasks",
+    access: "read",
+    summary: "获取任务列表",
+  },
+  {
+    method: "POST",
+    path: "/tasks",
+    procedure: "task.create",
+    resource: "tasks",
+    access: "write",
+    summary: "创建任务",
+    successStatus: 201,
+  },
+  {
+    method: "GET",
+    path: "/tasks/{id}",
+    procedure: "task.getById",
+    resource: "tasks",
+    access: "read",
+    summary: "获取任务详情",
+  },
+  {
+    method: "PATCH",
+    path: "/tasks/{id}",
+    procedure: "task.update",
+    resource: "tasks",
+    access: "write",
+    summary: "更新任务",
+  },
+  {
+    method: "DELETE",
+    path: "/tasks/{id}",
+    procedure: "task.delete",
+    resource: "tasks",
+    access: "write",
+    summary: "删除任务",
+  },
+  {
+    method: "POST",
+    path: "/tasks/{id}/status",
+    procedure: "task.updateStatus",
+    resource: "tasks",
+    access: "write",
+    summary: "更新任务状态",
+  },
+
+  // 笔记
+  {
+    method: "GET",
+    path: "/notes",
+    procedure: "note.getAll",
+    resource: "notes",
+    access: "read",
+    summary: "获取笔记列表",
+  },
+  {
+    method: "POST",
+    path: "/notes",
+    procedure: "note.create",
+    resource: "notes",
+    access: "write",
+    summary: "创建笔记",
+    successStatus: 201,
+  },
+  {
+    method: "GET",
+    path: "/notes/{id}",
+    procedure: "note.getById",
+    resource: "notes",
+    access: "read",
+    summary: "获取笔记详情",
+  },
+  {
+    method: "PATCH",
+    path: "/notes/{id}",
+    procedure: "note.update",
+    resource: "notes",
+    access: "write",
+    summary: "更新笔记",
+  },
+  {
+    method: "DELETE",
+    path: "/notes/{id}",
+    procedure: "note.delete",
+    resource: "notes",
+    access: "write",
+    summary: "删除笔记",
+  },
+
+  // 日记
+  {
+    method: "GET",
+    path: "/journals",
+    procedure: "journal.getAll",
+    resource: "journals",
+    access: "read",
+    summary: "获取日记列表",
+  },
+  {
+    method: "POST",
+    path: "/journals",
+    procedure: "journal.create",
+    resource: "journals",
+    access: "write",
+    summary: "创建日记",
+    successStatus: 201,
+  },
+  {
+    method: "PUT",
+    path: "/journals",
+    procedure: "journal.upsert",
+    resource: "journals",
+    access: "write",
+    summary: "创建或覆盖指定日期的日记",
+  },
+  {
+    method: "GET",
+    path: "/journals/{id}",
+    procedure: "journal.getById",
+    resource: "journals",
+    access: "read",
+    summary: "获取日记详情",
+  },
+  {
+    method: "PATCH",
+    path: "/journals/{id}",
+    procedure: "journal.update",
+    resource: "journals",
+    access: "write",
+    summary: "更新日记",
+  },
+  {
+    method: "DELETE",
+    path: "/journals/{id}",
+    procedure: "journal.delete",
+    resource: "journals",
+    access: "write",
+    summary: "删除日记",
+  },
+
+  // 项目
+  {
+    method: "GET",
+    path: "/projects",
+    procedure: "project.getAll",
+    resource: "projects",
+    access: "read",
+    summary: "获取项目列表",
+  },
+  {
+    method: "POST",
+    path: "/projects",
+    procedure: "project.create",
+    resource: "projects",
+    access: "write",
+    summary: "创建项目",
+    successStatus: 201,
+  },
+  {
+    method: "GET",
+    path: "/projects/{id}",
+    procedure: "project.getById",
+    resource: "projects",
+    access: "read",
+    summary: "获取项目详情",
+  },
+  {
+    method: "PATCH",
+    path: "/projects/{id}",
+    procedure: "project.update",
+    resource: "projects",
+    access: "write",
+    summary: "更新项目",
+  },
+  {
+    method: "DELETE",
+    path: "/projects/{id}",
+    procedure: "project.delete",
+    resource: "projects",
+    access: "write",
+    summary: "删除项目",
+  },
+
+  // 标签
+  {
+    method: "GET",
+    path: "/tags",
+    procedure: "tag.getAll",
+    resource: "tags",
+    access: "read",
+    summary: "获取标签列表",
+  },
+  {
+    method: "POST",
+    path: "/tags",
+    procedure: "tag.create",
+    resource: "tags",
+    access: "write",
+    summary: "创建标签",
+    successStatus: 201,
+  },
+  {
+    method: "GET",
+    path: "/tags/{id}",
+    procedure: "tag.getById",
+    resource: "tags",
+    access: "read",
+    summary: "获取标签详情",
+  },
+  {
+    method: "PATCH",
+    path: "/tags/{id}",
+    procedure: "tag.update",
+    resource: "tags",
+    access: "write",
+    summary: "更新标签",
+  },
+  {
+    method: "DELETE",
+    path: "/tags/{id}",
+    procedure: "tag.delete",
+    resource: "tags",
+    access: "write",
+    summary: "删除标签",
+  },
+];
+
+/**
+ * 接口要求的权限范围
+ */
+export function getRequiredScope(route: RestRoute): ApiTokenScope {
+  return `${route.resource}:${route.access}`;
+}
+
+/**
+ * 令牌是否满足接口权限（write 权限包含 read）
+ */
+export function hasRequiredScope(scopes: string[], route: RestRoute): boolean {
+  return route.access === "read"
+    ? scopes.includes(`${route.resource}:read`) ||
+        scopes.includes(`${route.resource}:write`)
+    : scopes.includes(`${route.resource}:write`);
+}
+
+/**
+ * 提取路径参数名，如 /tasks/{id}/status -> ["id"]
+ */
+export function getPathParamNames(path: string): string[] {
+  return [...path.matchAll(/\{(\w+)\}/g)].map((match) => match[1]!);
+}
+
+/**
+ * 按请求方法和路径匹配路由
+ * @returns 匹配的路由和路径参数；路径存在但方法不匹配时返回 allowedMethods
+ */
+export function matchRestRoute(
+  method: string,
+  segments: string[],
+):
+  | { route: RestRoute; params: Record<string, string> }
+  | { route: null; allowedMethods: RestMethod[] } {
+  const allowedMethods: RestMethod[] = [];
+
+  for (const route of REST_ROUTES) {
+    const routeSegments = route.path.split("/").filter(Boolean);
+    if (routeSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matched = routeSegments.every((routeSegment, index) => {
+      const segment = segments[index]!;
+      const param = /^\{(\w+)\}$/.exec(routeSegment);
+      if (param) {
+        // Next.js 已对 req.query.path 解码，不能再次解码
+        params[param[1]!] = segment;
+        return true;
+      }
+      return routeSegment === segment;
+    });
+    if (!matched) continue;
+
+    if (route.method === method) {
+      return { route, params };
+    }
+    allowedMethods.push(route.method);
+  }
+
+  return { route: null, allowedMethods };
+}
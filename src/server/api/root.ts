@@ -1,4 +1,4 @@
-import { createTRPCRouter } from "@/server/api/trpc";
+import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 import { taskRouter } from "@/server/api/routers/task";
 import { projectRouter } from "@/server/api/routers/project";
 import { noteRouter } from "@/server/api/routers/note";
@@ -7,6 +7,15 @@ import { tagRouter } from "@/server/api/routers/tag";
 import { searchRouter } from "@/server/api/routers/search";
 import { schedulerRouter } from "@/server/api/routers/scheduler";
 import { userSettingsRouter } from "@/server/api/routers/user-settings";
+import { accountRouter } from "@/server/api/routers/account";
+import { apiTokenRouter } from "@/server/api/routers/api-token";
+import { webhookRouter } from "@/server/api/routers/webhook";
+import { trashRouter } from "@/server/api/routers/trash";
+import { undoRouter } from "@/server/api/routers/undo";
+import { somedayRouter } from "@/server/api/routers/someday";
+import { weeklyReviewRouter } from "@/server/api/routers/weekly-review";
+import { contactRouter } from "@/server/api/routers/contact";
+import { notificationRouter } from "@/server/api/routers/notification";
 
 /**
  * This is the primary router for your server.
@@ -22,17 +31,26 @@ export const appRouter = createTRPCRouter({
   search: searchRouter,
   scheduler: schedulerRouter,
   userSettings: userSettingsRouter,
+  account: accountRouter,
+  apiToken: apiTokenRouter,
+  webhook: webhookRouter,
+  trash: trashRouter,
+  undo: undoRouter,
+  someday: somedayRouter,
+  weeklyReview: weeklyReviewRouter,
+  contact: contactRouter,
+  notification: notificationRouter,
 });
 
 // export type definition of API
 export type AppRouter = typeof appRouter;
 
-// ❌ v10.0.0 不支持 createCallerFactory
-// /**
-//  * Create a server-side caller for the tRPC API.
-//  * @example
-//  * const trpc = createCaller(createContext);
-//  * const res = await trpc.post.all();
-//  *       ^? Post[]
-//  */
-// export const createCaller = createCallerFactory(appRouter);
+/**
+ * Create a server-side caller for the tRPC API.
+ * REST API（/api/v1）通过它复用路由逻辑
+ * @example
+ * const trpc = createCaller(createContext);
+ * const res = await trpc.post.all();
+ *       ^? Post[]
+ */
+export const createCaller = createCallerFactory(appRouter);
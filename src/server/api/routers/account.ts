@@ -0,0 +1,198 @@
+/**
+ * 账户安全 API 路由
+ *
+ * 功能：
+ * 1. 邮箱注册（登录由 /api/credentials/sign-in 处理）
+ * 2. 查看登录方式、设置或修改密码
+ * 3. 通过邮件重置密码
+ */
+
+import { TRPCError } from "@trpc/server";
+
+import {
+  changePasswordSchema,
+  registerSchema,
+  requestPasswordResetSchema,
+  resetPasswordSchema,
+} from "@/server/api/schemas/account";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "@/server/api/trpc";
+import { getAppOrigin } from "@/server/auth/session";
+import {
+  changePassword,
+  isEmailRequestRateLimited,
+  registerUser,
+  requestPasswordReset,
+  resetPassword,
+} from "@/server/services/credentials-auth";
+
+/**
+ * 发送邮件的公开请求超过频率限制时拒绝
+ * 不区分邮箱是否注册，不会泄露邮箱信息
+ */
+async function assertEmailRequestAllowed(
+  ...args: Parameters<typeof isEmailRequestRateLimited>
+): Promise<void> {
+  if (await isEmailRequestRateLimited(...args)) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "请求过于频繁，请稍后再试",
+    });
+  }
+}
+
+/**
+ * 邮件中链接使用的访问地址，未配置 NEXTAUTH_URL 时拒绝发送邮件
+ */
+function requireAppOrigin(): string {
+  const origin = getAppOrigin();
+  if (!origin) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "服务器未配置访问地址，暂时无法发送邮件",
+    });
+  }
+  return origin;
+}
+
+export const accountRouter = createTRPCRouter({
+  // 邮箱注册（无论邮箱是否注册都返回相同的提示）
+  register: publicProcedure
+    .input(registerSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertEmailRequestAllowed(ctx.db, {
+          action: "register",
+          email: input.email,
+          ipAddress: ctx.ipAddress,
+        });
+        await registerUser(ctx.db, {
+          ...input,
+          baseUrl: requireAppOrigin(),
+        });
+        return {
+          success: true,
+          message: "请查收邮件，点击邮件中的链接完成注册并登录",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "注册失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 获取账户安全信息
+  getSecurityInfo: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const user = await ctx.db.user.findUnique({
+        where: { id: ctx.session.user.id },
+        select: {
+          email: true,
+          emailVerified: true,
+          password: true,
+          passwordUpdatedAt: true,
+          accounts: { select: { provider: true } },
+        },
+      });
+
+      if (!user) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "用户不存在" });
+      }
+
+      return {
+        email: user.email,
+        emailVerified: user.emailVerified,
+        hasPassword: !!user.password,
+        passwordUpdatedAt: user.passwordUpdatedAt,
+        providers: [...new Set(user.accounts.map((item) => item.provider))],
+      };
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取账户安全信息失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 设置或修改密码
+  changePassword: protectedProcedure
+    .input(changePasswordSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await changePassword(ctx.db, ctx.session.user.id, input);
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "修改密码失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 申请重置密码（无论邮箱是否注册都返回相同的提示）
+  requestPasswordReset: publicProcedure
+    .input(requestPasswordResetSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertEmailRequestAllowed(ctx.db, {
+          action: "password-reset",
+          email: input.email,
+          ipAddress: ctx.ipAddress,
+        });
+        // 发送过于频繁（throttled）时同样返回成功提示，只有已注册邮箱会被限流，区别对待会泄露邮箱是否注册
+        await requestPasswordReset(ctx.db, {
+          email: input.email,
+          baseUrl: requireAppOrigin(),
+        });
+
+        return {
+          success: true,
+          message: "如果该邮箱已注册，重置密码邮件已发送，请查收",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "发送重置密码邮件失败，请稍后再试",
+          cause: error,
+        });
+      }
+    }),
+
+  // 通过邮件链接重置密码
+  resetPassword: publicProcedure
+    .input(resetPasswordSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await resetPassword(ctx.db, input);
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "重置密码失败",
+          cause: error,
+        });
+      }
+    }),
+});
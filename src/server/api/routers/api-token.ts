@@ -0,0 +1,73 @@
+/**
+ * API 令牌管理路由
+ *
+ * 功能：
+ * 1. 列出当前用户的令牌
+ * 2. 创建令牌（明文只返回一次）
+ * 3. 撤销令牌
+ */
+
+import { TRPCError } from "@trpc/server";
+
+import {
+  apiTokenIdSchema,
+  createApiTokenSchema,
+} from "@/server/api/schemas/api-token";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+} from "@/server/services/api-token";
+
+export const apiTokenRouter = createTRPCRouter({
+  // 获取令牌列表
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listApiTokens(ctx.db, ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取令牌列表失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 创建令牌
+  create: protectedProcedure
+    .input(createApiTokenSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await createApiToken(ctx.db, ctx.session.user.id, input);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "创建令牌失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 撤销令牌
+  revoke: protectedProcedure
+    .input(apiTokenIdSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await revokeApiToken(ctx.db, ctx.session.user.id, input.id);
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "撤销令牌失败",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -0,0 +1,160 @@
+/**
+ * 联系人路由
+ *
+ * 功能：
+ * 1. 管理等待对象（委派或等待回复的人）
+ * 2. 列出联系人及其等待中的任务数量
+ */
+
+import { Prisma, TaskStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import {
+  contactIdSchema,
+  createContactSchema,
+  getContactsSchema,
+  updateContactSchema,
+} from "@/server/api/schemas/contact";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+
+/**
+ * 姓名重复时转为友好的错误
+ */
+function rethrowDuplicateName(error: unknown): never {
+  if (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  ) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "已存在同名联系人",
+    });
+  }
+  throw error;
+}
+
+export const contactRouter = createTRPCRouter({
+  // 获取联系人列表
+  getAll: protectedProcedure
+    .input(getContactsSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.db.contact.findMany({
+          where: {
+            createdById: ctx.session.user.id,
+            ...(input.search && {
+              name: { contains: input.search, mode: "insensitive" as const },
+            }),
+          },
+          take: input.limit,
+          orderBy: { name: "asc" },
+          include: {
+            _count: {
+              select: {
+                waitingTasks: {
+                  where: { status: TaskStatus.WAITING, deletedAt: null },
+                },
+              },
+            },
+          },
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取联系人失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 创建联系人
+  create: protectedProcedure
+    .input(createContactSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await ctx.db.contact
+          .create({
+            data: { ...input, createdById: ctx.session.user.id },
+          })
+          .catch(rethrowDuplicateName);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "创建联系人失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 更新联系人
+  update: protectedProcedure
+    .input(updateContactSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+
+      try {
+        const contact = await ctx.db.contact.findFirst({
+          where: { id, createdById: ctx.session.user.id },
+          select: { id: true },
+        });
+
+        if (!contact) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "联系人不存在或无权限修改",
+          });
+        }
+
+        return await ctx.db.contact
+          .update({ where: { id }, data })
+          .catch(rethrowDuplicateName);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "更新联系人失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 删除联系人（关联任务的等待对象会被清空）
+  delete: protectedProcedure
+    .input(contactIdSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const contact = await ctx.db.contact.findFirst({
+          where: { id: input.id, createdById: ctx.session.user.id },
+          select: { id: true, name: true },
+        });
+
+        if (!contact) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "联系人不存在或无权限删除",
+          });
+        }
+
+        await ctx.db.contact.delete({ where: { id: input.id } });
+
+        return {
+          success: true,
+          message: `联系人 "${contact.name}" 已删除`,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "删除联系人失败",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -14,6 +14,7 @@ import {
   autoGenerateJournalSchema,
 } from "@/server/api/schemas/journal";
 import { autoGenerateJournalForUser } from "@/server/services/journal-auto-generator";
+import { assertNoTrashedJournal, moveToTrash } from "@/server/services/trash";
 
 export const journalRouter = createTRPCRouter({
   // 创建日记
@@ -37,6 +38,7 @@ export const journalRouter = createTRPCRouter({
               lte: endOfDay,
             },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
         });
 
@@ -47,6 +49,12 @@ export const journalRouter = createTRPCRouter({
           });
         }
 
+        await assertNoTrashedJournal(
+          ctx.db,
+          ctx.session.user.id,
+          normalizedDate,
+        );
+
         // 创建日记
         const journal = await ctx.db.journal.create({
           data: {
@@ -88,6 +96,7 @@ export const journalRouter = createTRPCRouter({
               lte: endOfDay,
             },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
         });
 
@@ -119,6 +128,7 @@ export const journalRouter = createTRPCRouter({
       try {
         const where: any = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
         };
 
         // 日期范围筛选
@@ -187,7 +197,7 @@ export const journalRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       try {
         const journal = await ctx.db.journal.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
         });
 
         if (!journal || journal.createdById !== ctx.session.user.id) {
@@ -219,7 +229,7 @@ export const journalRouter = createTRPCRouter({
       try {
         // 验证日记所有权
         const existingJournal = await ctx.db.journal.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: { createdById: true },
         });
 
@@ -259,7 +269,7 @@ export const journalRouter = createTRPCRouter({
       try {
         // 验证日记所有权
         const journal = await ctx.db.journal.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, date: true },
         });
 
@@ -270,14 +280,12 @@ export const journalRouter = createTRPCRouter({
           });
         }
 
-        // 删除日记
-        await ctx.db.journal.delete({
-          where: { id: input.id },
-        });
+        // 移到回收站
+        await moveToTrash(ctx.db, ctx.session.user.id, "journal", [input.id]);
 
         return {
           success: true,
-          message: `${journal.date.toLocaleDateString()} 的日志已删除`,
+          message: `${journal.date.toLocaleDateString()} 的日志已移到回收站`,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -300,6 +308,12 @@ export const journalRouter = createTRPCRouter({
         const normalizedDate = new Date(input.date);
         normalizedDate.setHours(0, 0, 0, 0);
 
+        await assertNoTrashedJournal(
+          ctx.db,
+          ctx.session.user.id,
+          normalizedDate,
+        );
+
         // 使用 upsert 操作
         const journal = await ctx.db.journal.upsert({
           where: {
@@ -338,6 +352,7 @@ export const journalRouter = createTRPCRouter({
       try {
         const where: any = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
           content: {
             contains: query,
             mode: "insensitive" as const,
@@ -389,6 +404,7 @@ export const journalRouter = createTRPCRouter({
       try {
         const where: any = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
         };
 
         if (input.startDate || input.endDate) {
@@ -426,7 +442,7 @@ export const journalRouter = createTRPCRouter({
 
         // 计算连续记录天数
         const recentJournals = await ctx.db.journal.findMany({
-          where: { createdById: ctx.session.user.id },
+          where: { createdById: ctx.session.user.id, deletedAt: null },
           orderBy: { date: "desc" },
           take: 365, // 最多查看一年
           select: { date: true },
@@ -490,6 +506,7 @@ export const journalRouter = createTRPCRouter({
         const journals = await ctx.db.journal.findMany({
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             date: {
               gte: startDate,
               lte: endDate,
@@ -550,7 +567,7 @@ export const journalRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       try {
         const journals = await ctx.db.journal.findMany({
-          where: { createdById: ctx.session.user.id },
+          where: { createdById: ctx.session.user.id, deletedAt: null },
           orderBy: { date: "desc" },
           take: input.limit,
           select: {
@@ -586,6 +603,7 @@ export const journalRouter = createTRPCRouter({
         by: ["template"],
         where: {
           createdById: ctx.session.user.id,
+          deletedAt: null,
           template: { not: null },
         },
         _count: { template: true },
@@ -620,6 +638,7 @@ export const journalRouter = createTRPCRouter({
         const journals = await ctx.db.journal.findMany({
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             date: { gte: startDate },
           },
           orderBy: { date: "asc" },
@@ -704,6 +723,7 @@ export const journalRouter = createTRPCRouter({
           where: {
             id: { in: input.journalIds },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
           select: { id: true, date: true },
         });
@@ -715,14 +735,17 @@ export const journalRouter = createTRPCRouter({
           });
         }
 
-        // 批量删除
-        await ctx.db.journal.deleteMany({
-          where: { id: { in: input.journalIds } },
-        });
+        // 批量移到回收站
+        await moveToTrash(
+          ctx.db,
+          ctx.session.user.id,
+          "journal",
+          input.journalIds,
+        );
 
         return {
           success: true,
-          message: `已删除 ${journals.length} 篇日志`,
+          message: `已将 ${journals.length} 篇日志移到回收站`,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -755,7 +778,7 @@ export const journalRouter = createTRPCRouter({
           // 获取生成的日记对象
           const journal = result.journalId
             ? await ctx.db.journal.findUnique({
-                where: { id: result.journalId },
+                where: { id: result.journalId, deletedAt: null },
               })
             : null;
 
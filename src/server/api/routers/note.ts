@@ -14,6 +14,8 @@ import {
   unlinkNoteFromTaskSchema,
   updateNoteSchema,
 } from "@/server/api/schemas/note";
+import { moveToTrash } from "@/server/services/trash";
+import { emitWebhookEvent } from "@/server/services/webhooks";
 
 export const noteRouter = createTRPCRouter({
   // 创建笔记
@@ -26,7 +28,7 @@ export const noteRouter = createTRPCRouter({
         // 验证项目所有权（如果指定了项目）
         if (input.projectId) {
           const project = await ctx.db.project.findUnique({
-            where: { id: input.projectId },
+            where: { id: input.projectId, deletedAt: null },
             select: { createdById: true },
           });
 
@@ -61,6 +63,7 @@ export const noteRouter = createTRPCRouter({
             where: {
               id: { in: linkedTaskIds },
               createdById: ctx.session.user.id,
+              deletedAt: null,
             },
           });
 
@@ -98,6 +101,7 @@ export const noteRouter = createTRPCRouter({
               },
             },
             linkedTasks: {
+              where: { deletedAt: null },
               select: {
                 id: true,
                 title: true,
@@ -107,6 +111,18 @@ export const noteRouter = createTRPCRouter({
           },
         });
 
+        await emitWebhookEvent(ctx.db, ctx.session.user.id, "note.created", {
+          note: {
+            id: note.id,
+            title: note.title,
+            content: note.content,
+            projectId: note.projectId,
+            tags: note.tags.map(({ tag }) => tag.name),
+            linkedTaskIds: note.linkedTasks.map((task) => task.id),
+            createdAt: note.createdAt.toISOString(),
+          },
+        });
+
         return note;
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -137,6 +153,7 @@ export const noteRouter = createTRPCRouter({
       try {
         const where = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
           ...filters,
           ...(includeArchived ? {} : { isArchived: false }),
           ...(search && {
@@ -174,6 +191,7 @@ export const noteRouter = createTRPCRouter({
                 },
               },
               linkedTasks: {
+                where: { deletedAt: null },
                 select: {
                   id: true,
                   title: true,
@@ -182,7 +200,7 @@ export const noteRouter = createTRPCRouter({
               },
               _count: {
                 select: {
-                  linkedTasks: true,
+                  linkedTasks: { where: { deletedAt: null } },
                 },
               },
             },
@@ -216,7 +234,7 @@ export const noteRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       try {
         const note = await ctx.db.note.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           include: {
             project: true,
             tags: {
@@ -225,6 +243,7 @@ export const noteRouter = createTRPCRouter({
               },
             },
             linkedTasks: {
+              where: { deletedAt: null },
               include: {
                 project: {
                   select: {
@@ -271,7 +290,7 @@ export const noteRouter = createTRPCRouter({
       try {
         // 验证笔记所有权
         const existingNote = await ctx.db.note.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: { createdById: true },
         });
 
@@ -285,7 +304,7 @@ export const noteRouter = createTRPCRouter({
         // 验证项目所有权（如果更新了项目）
         if (updateData.projectId) {
           const project = await ctx.db.project.findUnique({
-            where: { id: updateData.projectId },
+            where: { id: updateData.projectId, deletedAt: null },
             select: { createdById: true },
           });
 
@@ -320,6 +339,7 @@ export const noteRouter = createTRPCRouter({
             where: {
               id: { in: linkedTaskIds },
               createdById: ctx.session.user.id,
+              deletedAt: null,
             },
           });
 
@@ -358,6 +378,7 @@ export const noteRouter = createTRPCRouter({
               },
             },
             linkedTasks: {
+              where: { deletedAt: null },
               select: {
                 id: true,
                 title: true,
@@ -387,7 +408,7 @@ export const noteRouter = createTRPCRouter({
       try {
         // 验证笔记所有权
         const note = await ctx.db.note.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, title: true },
         });
 
@@ -398,14 +419,12 @@ export const noteRouter = createTRPCRouter({
           });
         }
 
-        // 删除笔记（级联删除相关数据）
-        await ctx.db.note.delete({
-          where: { id: input.id },
-        });
+        // 移到回收站，标签和任务关联保留
+        await moveToTrash(ctx.db, ctx.session.user.id, "note", [input.id]);
 
         return {
           success: true,
-          message: `笔记 "${note.title}" 已删除`,
+          message: `笔记 "${note.title}" 已移到回收站`,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -426,7 +445,7 @@ export const noteRouter = createTRPCRouter({
       try {
         // 验证笔记所有权
         const note = await ctx.db.note.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, title: true, isArchived: true },
         });
 
@@ -478,7 +497,7 @@ export const noteRouter = createTRPCRouter({
       try {
         // 验证笔记所有权
         const note = await ctx.db.note.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, title: true, isPinned: true },
         });
 
@@ -530,7 +549,7 @@ export const noteRouter = createTRPCRouter({
       try {
         // 验证笔记所有权
         const note = await ctx.db.note.findUnique({
-          where: { id: input.noteId },
+          where: { id: input.noteId, deletedAt: null },
           select: { createdById: true, title: true },
         });
 
@@ -543,7 +562,7 @@ export const noteRouter = createTRPCRouter({
 
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.taskId },
+          where: { id: input.taskId, deletedAt: null },
           select: { createdById: true, title: true },
         });
 
@@ -604,7 +623,7 @@ export const noteRouter = createTRPCRouter({
       try {
         // 验证笔记所有权
         const note = await ctx.db.note.findUnique({
-          where: { id: input.noteId },
+          where: { id: input.noteId, deletedAt: null },
           select: { createdById: true, title: true },
         });
 
@@ -617,7 +636,7 @@ export const noteRouter = createTRPCRouter({
 
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.taskId },
+          where: { id: input.taskId, deletedAt: null },
           select: { createdById: true, title: true },
         });
 
@@ -663,6 +682,7 @@ export const noteRouter = createTRPCRouter({
       try {
         const where = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
           ...(projectId && { projectId }),
           ...(includeArchived ? {} : { isArchived: false }),
           OR: [
@@ -691,7 +711,7 @@ export const noteRouter = createTRPCRouter({
             },
             _count: {
               select: {
-                linkedTasks: true,
+                linkedTasks: { where: { deletedAt: null } },
               },
             },
           },
@@ -724,6 +744,7 @@ export const noteRouter = createTRPCRouter({
       try {
         const where: any = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
         };
 
         if (input.projectId) {
@@ -747,7 +768,7 @@ export const noteRouter = createTRPCRouter({
             where: {
               ...where,
               linkedTasks: {
-                some: {},
+                some: { deletedAt: null },
               },
             },
           }),
@@ -781,6 +802,7 @@ export const noteRouter = createTRPCRouter({
           where: {
             id: { in: input.noteIds },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
           select: { id: true, title: true, isArchived: true },
         });
@@ -818,12 +840,15 @@ export const noteRouter = createTRPCRouter({
             break;
 
           case "delete":
-            await ctx.db.note.deleteMany({
-              where: { id: { in: input.noteIds } },
-            });
+            await moveToTrash(
+              ctx.db,
+              ctx.session.user.id,
+              "note",
+              input.noteIds,
+            );
             result = {
               success: true,
-              message: `已删除 ${notes.length} 篇笔记`,
+              message: `已将 ${notes.length} 篇笔记移到回收站`,
             };
             break;
 
@@ -837,7 +862,7 @@ export const noteRouter = createTRPCRouter({
 
             // 验证目标项目所有权
             const targetProject = await ctx.db.project.findUnique({
-              where: { id: input.targetProjectId },
+              where: { id: input.targetProjectId, deletedAt: null },
               select: { createdById: true, name: true },
             });
 
@@ -895,6 +920,7 @@ export const noteRouter = createTRPCRouter({
             createdById: ctx.session.user.id,
             isPinned: true,
             isArchived: false,
+            deletedAt: null,
           },
           take: input.limit,
           orderBy: [
@@ -0,0 +1,136 @@
+/**
+ * 站内通知路由
+ *
+ * 功能：
+ * 1. 分页获取通知列表，可只看未读
+ * 2. 获取未读数量（用于顶栏铃铛）
+ * 3. 标记单条或全部通知为已读
+ */
+
+import { TRPCError } from "@trpc/server";
+
+import {
+  getNotificationsSchema,
+  notificationIdSchema,
+} from "@/server/api/schemas/notification";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+
+export const notificationRouter = createTRPCRouter({
+  // 获取通知列表
+  getAll: protectedProcedure
+    .input(getNotificationsSchema)
+    .query(async ({ ctx, input }) => {
+      const { limit, cursor, unreadOnly } = input;
+
+      try {
+        const where = {
+          userId: ctx.session.user.id,
+          ...(unreadOnly && { readAt: null }),
+        };
+
+        const [notifications, totalCount] = await Promise.all([
+          ctx.db.notification.findMany({
+            where,
+            take: limit + 1,
+            cursor: cursor ? { id: cursor } : undefined,
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          }),
+          ctx.db.notification.count({ where }),
+        ]);
+
+        let nextCursor: typeof cursor | undefined = undefined;
+        if (notifications.length > limit) {
+          const nextItem = notifications.pop();
+          nextCursor = nextItem!.id;
+        }
+
+        return {
+          notifications,
+          nextCursor,
+          totalCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取通知失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 获取未读数量
+  getUnreadCount: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const count = await ctx.db.notification.count({
+        where: { userId: ctx.session.user.id, readAt: null },
+      });
+      return { count };
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取未读通知数量失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 标记为已读
+  markRead: protectedProcedure
+    .input(notificationIdSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await ctx.db.notification.updateMany({
+          where: { id: input.id, userId: ctx.session.user.id, readAt: null },
+          data: { readAt: new Date() },
+        });
+
+        if (result.count === 0) {
+          const exists = await ctx.db.notification.count({
+            where: { id: input.id, userId: ctx.session.user.id },
+          });
+          if (!exists) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "通知不存在或无权限访问",
+            });
+          }
+        }
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "标记通知失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 全部标记为已读
+  markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      const result = await ctx.db.notification.updateMany({
+        where: { userId: ctx.session.user.id, readAt: null },
+        data: { readAt: new Date() },
+      });
+
+      return {
+        success: true,
+        count: result.count,
+        message:
+          result.count > 0
+            ? `已将 ${result.count} 条通知标记为已读`
+            : "没有未读通知",
+      };
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "标记通知失败",
+        cause: error,
+      });
+    }
+  }),
+});
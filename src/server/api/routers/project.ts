@@ -1,6 +1,7 @@
 import { TRPCError } from "@trpc/server";
-import { TaskStatus } from "@prisma/client";
+import { type Prisma, TaskStatus } from "@prisma/client";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { CLOSED_TASK_STATUSES } from "@/utils/task-progress";
 import { getLocalDateString } from "@/utils/timezone";
 import {
   archiveProjectSchema,
@@ -10,9 +11,16 @@ import {
   getProjectsSchema,
   getProjectStatsSchema,
   getProjectTasksSchema,
+  getStalledProjectsSchema,
   projectIdSchema,
   updateProjectSchema,
 } from "@/server/api/schemas/project";
+import {
+  analyzeProjectStalls,
+  countStallReasons,
+} from "@/server/services/stalled-projects";
+import { moveToTrash } from "@/server/services/trash";
+import { recordUndoOperation, type UndoInverse } from "@/server/services/undo";
 
 export const projectRouter = createTRPCRouter({
   // 创建项目
@@ -26,6 +34,7 @@ export const projectRouter = createTRPCRouter({
             name: input.name,
             createdById: ctx.session.user.id,
             isArchived: false,
+            deletedAt: null,
           },
         });
 
@@ -61,12 +70,21 @@ export const projectRouter = createTRPCRouter({
   getAll: protectedProcedure
     .input(getProjectsSchema)
     .query(async ({ ctx, input }) => {
-      const { limit, cursor, search, includeArchived } = input;
+      const { limit, cursor, search, includeArchived, stalledOnly } = input;
 
       try {
+        // 只看停滞项目时先找出停滞项目的ID
+        const stalledIds = stalledOnly
+          ? Array.from(await analyzeProjectStalls(ctx.db, ctx.session.user.id))
+              .filter(([, stall]) => stall.reasons.length > 0)
+              .map(([projectId]) => projectId)
+          : undefined;
+
         const where = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
           ...(includeArchived ? {} : { isArchived: false }),
+          ...(stalledIds && { id: { in: stalledIds } }),
           ...(search && {
             OR: [
               { name: { contains: search, mode: "insensitive" as const } },
@@ -85,8 +103,8 @@ export const projectRouter = createTRPCRouter({
           include: {
             _count: {
               select: {
-                tasks: true,
-                notes: true,
+                tasks: { where: { deletedAt: null } },
+                notes: { where: { deletedAt: null } },
               },
             },
           },
@@ -98,8 +116,21 @@ export const projectRouter = createTRPCRouter({
           nextCursor = nextItem!.id;
         }
 
+        // 标记停滞的项目
+        const stalls = await analyzeProjectStalls(
+          ctx.db,
+          ctx.session.user.id,
+          projects.map((project) => project.id),
+        );
+
         return {
-          projects,
+          projects: projects.map((project) => {
+            const stall = stalls.get(project.id);
+            return {
+              ...project,
+              stall: stall && stall.reasons.length > 0 ? stall : null,
+            };
+          }),
           nextCursor,
         };
       } catch (error) {
@@ -117,9 +148,10 @@ export const projectRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       try {
         const project = await ctx.db.project.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           include: {
             tasks: {
+              where: { deletedAt: null },
               orderBy: { createdAt: "desc" },
               take: 10,
               include: {
@@ -131,6 +163,7 @@ export const projectRouter = createTRPCRouter({
               },
             },
             notes: {
+              where: { deletedAt: null },
               orderBy: { updatedAt: "desc" },
               take: 5,
               select: {
@@ -141,8 +174,8 @@ export const projectRouter = createTRPCRouter({
             },
             _count: {
               select: {
-                tasks: true,
-                notes: true,
+                tasks: { where: { deletedAt: null } },
+                notes: { where: { deletedAt: null } },
               },
             },
           },
@@ -177,7 +210,7 @@ export const projectRouter = createTRPCRouter({
       try {
         // 验证项目所有权
         const existingProject = await ctx.db.project.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: { createdById: true, name: true },
         });
 
@@ -198,6 +231,7 @@ export const projectRouter = createTRPCRouter({
               name: updateData.name,
               createdById: ctx.session.user.id,
               isArchived: false,
+              deletedAt: null,
               id: { not: id },
             },
           });
@@ -217,8 +251,8 @@ export const projectRouter = createTRPCRouter({
           include: {
             _count: {
               select: {
-                tasks: true,
-                notes: true,
+                tasks: { where: { deletedAt: null } },
+                notes: { where: { deletedAt: null } },
               },
             },
           },
@@ -244,14 +278,14 @@ export const projectRouter = createTRPCRouter({
       try {
         // 验证项目所有权
         const project = await ctx.db.project.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: {
             createdById: true,
             name: true,
             _count: {
               select: {
-                tasks: true,
-                notes: true,
+                tasks: { where: { deletedAt: null } },
+                notes: { where: { deletedAt: null } },
               },
             },
           },
@@ -272,14 +306,12 @@ export const projectRouter = createTRPCRouter({
           });
         }
 
-        // 删除项目
-        await ctx.db.project.delete({
-          where: { id: input.id },
-        });
+        // 移到回收站
+        await moveToTrash(ctx.db, ctx.session.user.id, "project", [input.id]);
 
         return {
           success: true,
-          message: `项目 "${project.name}" 已删除`,
+          message: `项目 "${project.name}" 已移到回收站`,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -300,7 +332,7 @@ export const projectRouter = createTRPCRouter({
       try {
         // 验证项目所有权
         const project = await ctx.db.project.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, name: true, isArchived: true },
         });
 
@@ -352,7 +384,7 @@ export const projectRouter = createTRPCRouter({
       try {
         // 验证项目所有权
         const project = await ctx.db.project.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, name: true },
         });
 
@@ -363,18 +395,13 @@ export const projectRouter = createTRPCRouter({
           });
         }
 
-        const where: any = {
+        const where: Prisma.TaskWhereInput = {
           projectId: input.id,
+          deletedAt: null,
         };
 
         if (input.startDate || input.endDate) {
-          where.createdAt = {};
-          if (input.startDate) {
-            where.createdAt.gte = input.startDate;
-          }
-          if (input.endDate) {
-            where.createdAt.lte = input.endDate;
-          }
+          where.createdAt = { gte: input.startDate, lte: input.endDate };
         }
 
         // 获取任务统计
@@ -387,6 +414,10 @@ export const projectRouter = createTRPCRouter({
           totalNotes,
           recentTasks,
           recentNotes,
+          totalSubtasks,
+          completedSubtasks,
+          totalChecklistItems,
+          completedChecklistItems,
         ] = await Promise.all([
           ctx.db.task.count({ where }),
           ctx.db.task.count({ where: { ...where, status: TaskStatus.DONE } }),
@@ -404,7 +435,9 @@ export const projectRouter = createTRPCRouter({
             where,
             _sum: { totalTimeSpent: true },
           }),
-          ctx.db.note.count({ where: { projectId: input.id } }),
+          ctx.db.note.count({
+            where: { projectId: input.id, deletedAt: null },
+          }),
           // 获取最近的任务和笔记用于计算活跃天数
           ctx.db.task.findMany({
             where,
@@ -412,10 +445,23 @@ export const projectRouter = createTRPCRouter({
             orderBy: { updatedAt: "desc" },
           }),
           ctx.db.note.findMany({
-            where: { projectId: input.id },
+            where: { projectId: input.id, deletedAt: null },
             select: { createdAt: true, updatedAt: true },
             orderBy: { updatedAt: "desc" },
           }),
+          // 子任务和检查项进度
+          ctx.db.task.count({ where: { ...where, parentId: { not: null } } }),
+          ctx.db.task.count({
+            where: {
+              ...where,
+              parentId: { not: null },
+              status: { in: CLOSED_TASK_STATUSES },
+            },
+          }),
+          ctx.db.taskChecklistItem.count({ where: { task: where } }),
+          ctx.db.taskChecklistItem.count({
+            where: { task: where, isCompleted: true },
+          }),
         ]);
 
         // 计算活跃天数（基于任务和笔记的创建/更新日期）
@@ -435,6 +481,10 @@ export const projectRouter = createTRPCRouter({
         const completionRate =
           totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
 
+        const stall = (
+          await analyzeProjectStalls(ctx.db, ctx.session.user.id, [input.id])
+        ).get(input.id);
+
         return {
           projectName: project.name,
           totalTasks,
@@ -442,6 +492,7 @@ export const projectRouter = createTRPCRouter({
           completionRate: Math.round(completionRate * 100) / 100,
           totalNotes,
           activeDays, // 添加活跃天数
+          stall: stall && stall.reasons.length > 0 ? stall : null, // 停滞原因，已归档或未停滞时为 null
           statusCounts: statusCounts.reduce(
             (acc, item) => {
               acc[item.status] = item._count.status;
@@ -459,6 +510,20 @@ export const projectRouter = createTRPCRouter({
             {} as Record<string, number>,
           ),
           totalTimeSpent: totalTimeSpent._sum.totalTimeSpent ?? 0,
+          subtaskProgress: {
+            totalSubtasks,
+            completedSubtasks,
+            totalChecklistItems,
+            completedChecklistItems,
+            percent:
+              totalSubtasks + totalChecklistItems > 0
+                ? Math.round(
+                    ((completedSubtasks + completedChecklistItems) /
+                      (totalSubtasks + totalChecklistItems)) *
+                      100,
+                  )
+                : 0,
+          },
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -472,6 +537,44 @@ export const projectRouter = createTRPCRouter({
       }
     }),
 
+  // 获取停滞的项目（最久没有更新的在前）
+  getStalled: protectedProcedure
+    .input(getStalledProjectsSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        const stalls = Array.from(
+          await analyzeProjectStalls(ctx.db, ctx.session.user.id),
+        )
+          .filter(([, stall]) => stall.reasons.length > 0)
+          .sort(
+            ([, a], [, b]) =>
+              a.lastActivityAt.getTime() - b.lastActivityAt.getTime(),
+          );
+
+        const shown = stalls.slice(0, input.limit);
+        const projects = await ctx.db.project.findMany({
+          where: { id: { in: shown.map(([projectId]) => projectId) } },
+          select: { id: true, name: true, color: true },
+        });
+        const projectMap = new Map(projects.map((p) => [p.id, p]));
+
+        return {
+          projects: shown.flatMap(([projectId, stall]) => {
+            const project = projectMap.get(projectId);
+            return project ? [{ ...project, stall }] : [];
+          }),
+          totalCount: stalls.length,
+          reasonCounts: countStallReasons(stalls.map(([, stall]) => stall)),
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取停滞项目失败",
+          cause: error,
+        });
+      }
+    }),
+
   // 获取项目任务
   getTasks: protectedProcedure
     .input(getProjectTasksSchema)
@@ -481,7 +584,7 @@ export const projectRouter = createTRPCRouter({
       try {
         // 验证项目所有权
         const project = await ctx.db.project.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: { createdById: true },
         });
 
@@ -494,6 +597,7 @@ export const projectRouter = createTRPCRouter({
 
         const where = {
           projectId: id,
+          deletedAt: null,
           ...filters,
         };
 
@@ -553,7 +657,7 @@ export const projectRouter = createTRPCRouter({
       try {
         // 验证项目所有权
         const project = await ctx.db.project.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: { createdById: true },
         });
 
@@ -566,6 +670,7 @@ export const projectRouter = createTRPCRouter({
 
         const where = {
           projectId: id,
+          deletedAt: null,
           ...(search && {
             OR: [
               { title: { contains: search, mode: "insensitive" as const } },
@@ -586,6 +691,7 @@ export const projectRouter = createTRPCRouter({
               },
             },
             linkedTasks: {
+              where: { deletedAt: null },
               select: {
                 id: true,
                 title: true,
@@ -627,6 +733,7 @@ export const projectRouter = createTRPCRouter({
           where: {
             id: { in: input.projectIds },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
           select: { id: true, name: true, isArchived: true },
         });
@@ -639,6 +746,9 @@ export const projectRouter = createTRPCRouter({
         }
 
         let result: { success: boolean; message: string };
+        // 撤销时的描述和逆操作
+        let description: string;
+        let inverse: UndoInverse;
 
         switch (input.operation) {
           case "archive":
@@ -650,6 +760,13 @@ export const projectRouter = createTRPCRouter({
               success: true,
               message: `已归档 ${projects.length} 个项目`,
             };
+            description = `归档 ${projects.length} 个项目`;
+            inverse = {
+              projects: projects.map(({ id, isArchived }) => ({
+                id,
+                isArchived,
+              })),
+            };
             break;
 
           case "unarchive":
@@ -661,6 +778,13 @@ export const projectRouter = createTRPCRouter({
               success: true,
               message: `已恢复 ${projects.length} 个项目`,
             };
+            description = `取消归档 ${projects.length} 个项目`;
+            inverse = {
+              projects: projects.map(({ id, isArchived }) => ({
+                id,
+                isArchived,
+              })),
+            };
             break;
 
           case "delete":
@@ -670,8 +794,8 @@ export const projectRouter = createTRPCRouter({
               include: {
                 _count: {
                   select: {
-                    tasks: true,
-                    notes: true,
+                    tasks: { where: { deletedAt: null } },
+                    notes: { where: { deletedAt: null } },
                   },
                 },
               },
@@ -688,12 +812,19 @@ export const projectRouter = createTRPCRouter({
               });
             }
 
-            await ctx.db.project.deleteMany({
-              where: { id: { in: input.projectIds } },
-            });
+            await moveToTrash(
+              ctx.db,
+              ctx.session.user.id,
+              "project",
+              input.projectIds,
+            );
             result = {
               success: true,
-              message: `已删除 ${projects.length} 个项目`,
+              message: `已将 ${projects.length} 个项目移到回收站`,
+            };
+            description = `删除 ${projects.length} 个项目`;
+            inverse = {
+              trash: [{ type: "project", ids: input.projectIds }],
             };
             break;
 
@@ -704,7 +835,15 @@ export const projectRouter = createTRPCRouter({
             });
         }
 
-        return result;
+        const undoId = await recordUndoOperation(
+          ctx.db,
+          ctx.session.user.id,
+          "project.batchOperation",
+          description,
+          inverse,
+        );
+
+        return { ...result, undoId };
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
@@ -4,27 +4,63 @@
  * 功能：
  * 1. 查看调度器状态
  * 2. 手动执行任务
- * 3. 管理任务开关
+ * 3. 管理任务开关（启用/禁用、暂停/恢复、修改 cron）
+ * 4. 分页查询执行历史
+ * 5. 查看多实例部署时的主节点
  */
 
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
+import { SchedulerRunStatus } from "@prisma/client";
 import {
   createTRPCRouter,
   protectedProcedure,
   adminProcedure,
 } from "@/server/api/trpc";
 import { taskScheduler } from "@/server/services/scheduler";
+import {
+  getLeaseHolder,
+  SCHEDULER_LEASE_NAME,
+} from "@/server/services/scheduler-lock";
 import { autoGenerateJournalForUser } from "@/server/services/journal-auto-generator";
+import { validateCronExpression } from "@/utils/cron";
 
 export const schedulerRouter = createTRPCRouter({
   // 获取调度器状态
   getStatus: adminProcedure.query(async ({ ctx }) => {
     try {
       const status = taskScheduler.getTaskStatus();
+
+      // 每个任务的最近一次执行记录
+      const lastRuns = await ctx.db.schedulerJobRun.findMany({
+        where: { jobId: { in: status.tasks.map((task) => task.id) } },
+        distinct: ["jobId"],
+        orderBy: { startedAt: "desc" },
+      });
+      const lastRunMap = new Map(lastRuns.map((run) => [run.jobId, run]));
+
+      // 当前持有租约的主节点
+      const lease = await getLeaseHolder(ctx.db, SCHEDULER_LEASE_NAME);
+
       return {
         success: true,
-        data: status,
+        data: {
+          ...status,
+          leader: lease
+            ? {
+                holderId: lease.holderId,
+                acquiredAt: lease.acquiredAt,
+                renewedAt: lease.renewedAt,
+                expiresAt: lease.expiresAt,
+                isExpired: lease.expiresAt < new Date(),
+                isCurrentInstance: lease.holderId === status.instanceId,
+              }
+            : null,
+          tasks: status.tasks.map((task) => ({
+            ...task,
+            lastRun: lastRunMap.get(task.id) ?? null,
+          })),
+        },
       };
     } catch (error) {
       throw new TRPCError({
@@ -153,4 +189,186 @@ export const schedulerRouter = createTRPCRouter({
       });
     }
   }),
+
+  // 分页获取执行历史
+  getRuns: adminProcedure
+    .input(
+      z.object({
+        jobId: z.string().optional(),
+        status: z.nativeEnum(SchedulerRunStatus).optional(),
+        limit: z.number().min(1).max(100).default(20),
+        cursor: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const { jobId, status, limit, cursor } = input;
+
+      try {
+        const where = {
+          ...(jobId && { jobId }),
+          // 未指定状态时不显示空闲执行，每分钟执行的任务大多数时候无事可做
+          status: status ?? { not: SchedulerRunStatus.IDLE },
+        };
+
+        const totalCount = await ctx.db.schedulerJobRun.count({ where });
+
+        const runs = await ctx.db.schedulerJobRun.findMany({
+          where,
+          take: limit + 1,
+          cursor: cursor ? { id: cursor } : undefined,
+          orderBy: [{ startedAt: "desc" }, { id: "desc" }],
+        });
+
+        let nextCursor: typeof cursor | undefined = undefined;
+        if (runs.length > limit) {
+          const nextItem = runs.pop();
+          nextCursor = nextItem!.id;
+        }
+
+        return {
+          runs,
+          nextCursor,
+          totalCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取执行历史失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 启用/禁用任务，修改 cron 表达式（传 null 恢复默认）
+  updateTask: adminProcedure
+    .input(
+      z.object({
+        taskId: z.string(),
+        enabled: z.boolean().optional(),
+        cronExpression: z.string().trim().nullable().optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const { taskId, enabled, cronExpression } = input;
+
+      if (cronExpression) {
+        const cronError = validateCronExpression(cronExpression);
+        if (cronError) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: cronError,
+          });
+        }
+      }
+
+      try {
+        const updated = await taskScheduler.updateTask(taskId, {
+          enabled,
+          cronExpression,
+        });
+
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "任务不存在",
+          });
+        }
+
+        return {
+          success: true,
+          message: "任务配置已更新",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "更新任务配置失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 暂停任务（不指定时间则一直暂停到手动恢复）
+  pauseTask: adminProcedure
+    .input(
+      z.object({
+        taskId: z.string(),
+        until: z.date().optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      if (input.until && input.until <= new Date()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "暂停截止时间必须晚于当前时间",
+        });
+      }
+
+      try {
+        const updated = await taskScheduler.updateTask(input.taskId, {
+          paused: true,
+          pausedUntil: input.until ?? null,
+        });
+
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "任务不存在",
+          });
+        }
+
+        return {
+          success: true,
+          message: "任务已暂停",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "暂停任务失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 恢复已暂停的任务
+  resumeTask: adminProcedure
+    .input(
+      z.object({
+        taskId: z.string(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const updated = await taskScheduler.updateTask(input.taskId, {
+          paused: false,
+          pausedUntil: null,
+        });
+
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "任务不存在",
+          });
+        }
+
+        return {
+          success: true,
+          message: "任务已恢复",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "恢复任务失败",
+          cause: error,
+        });
+      }
+    }),
 });
@@ -1,120 +1,56 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { Priority, TagType, TaskStatus, TaskType } from "@prisma/client";
+import { type Prisma } from "@prisma/client";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
-
-// 高级搜索 Schema
-const advancedSearchSchema = z.object({
-  // 基础搜索
-  query: z.string().optional(),
-
-  // 内容类型
-  searchIn: z
-    .array(z.enum(["tasks", "notes", "projects", "journals"]))
-    .default(["tasks"]),
-
-  // 任务特定筛选
-  taskStatus: z.array(z.nativeEnum(TaskStatus)).optional(),
-  taskType: z.array(z.nativeEnum(TaskType)).optional(),
-  priority: z.array(z.nativeEnum(Priority)).optional(),
-
-  // 标签筛选
-  tagIds: z.array(z.string().cuid()).optional(),
-  tagTypes: z.array(z.nativeEnum(TagType)).optional(),
-
-  // 项目筛选
-  projectIds: z.array(z.string().cuid()).optional(),
-
-  // 日期筛选
-  createdAfter: z.date().optional(),
-  createdBefore: z.date().optional(),
-  updatedAfter: z.date().optional(),
-  updatedBefore: z.date().optional(),
-  dueAfter: z.date().optional(),
-  dueBefore: z.date().optional(),
-
-  // 时间筛选
-  hasTimeTracking: z.boolean().optional(),
-  minTimeSpent: z.number().min(0).optional(), // 秒
-  maxTimeSpent: z.number().min(0).optional(), // 秒
-
-  // 状态筛选
-  isCompleted: z.boolean().optional(),
-  isOverdue: z.boolean().optional(),
-  isRecurring: z.boolean().optional(),
-  hasDescription: z.boolean().optional(),
-
-  // 排序
-  sortBy: z
-    .enum([
-      "relevance",
-      "createdAt",
-      "updatedAt",
-      "dueDate",
-      "priority",
-      "title",
-      "timeSpent",
-    ])
-    .default("relevance"),
-  sortOrder: z.enum(["asc", "desc"]).default("desc"),
-
-  // 分页
-  limit: z.number().min(1).max(100).default(20),
-  cursor: z.string().cuid().optional(),
-});
-
-// 保存的搜索 Schema
-const savedSearchSchema = z.object({
-  name: z.string().min(1, "搜索名称不能为空").max(100, "搜索名称过长"),
-  description: z.string().max(500, "描述过长").optional(),
-  searchParams: advancedSearchSchema,
-  isPublic: z.boolean().default(false),
-});
-
-const searchIdSchema = z.object({
-  id: z.string().cuid("无效的搜索ID"),
-});
-
-// 搜索建议 Schema
-const searchSuggestionsSchema = z.object({
-  query: z.string().min(1, "查询不能为空"),
-  type: z
-    .enum(["all", "tasks", "notes", "journals", "tags", "projects"])
-    .default("all"),
-  limit: z.number().min(1).max(20).default(10),
-});
+import {
+  advancedSearchSchema,
+  savedSearchSchema,
+  searchIdSchema,
+  searchSuggestionsSchema,
+  updateSmartListSchema,
+  setSavedSearchSharingSchema,
+  sharedSearchTokenSchema,
+  importSharedSearchSchema,
+  type StoredSearchParams,
+} from "@/server/api/schemas/search";
+import {
+  findFullTextMatches,
+  rankSearchResults,
+} from "@/server/services/full-text-search";
+import {
+  buildTaskSearchWhere,
+  getExclusionFilters,
+} from "@/server/services/search-filters";
+import { getSmartListsWithCounts } from "@/server/services/smart-lists";
+import {
+  generateShareToken,
+  getSharedSearch,
+  importSharedSearch,
+  setSavedSearchSharing,
+  syncSubscribedSearches,
+} from "@/server/services/saved-search-sharing";
+import { resolveRelativeDates } from "@/utils/search-query";
 
 export const searchRouter = createTRPCRouter({
   // 高级搜索
   advanced: protectedProcedure
     .input(advancedSearchSchema)
-    .query(async ({ ctx, input }) => {
+    .query(async ({ ctx, input: rawInput }) => {
+      const input = resolveRelativeDates(rawInput);
       const {
         query,
         searchIn,
         limit,
-        cursor,
         sortBy,
         sortOrder,
-        taskStatus,
-        taskType,
-        priority,
         tagIds,
-        tagTypes,
+        excludeTagIds,
         projectIds,
+        excludeProjectIds,
         createdAfter,
         createdBefore,
         updatedAfter,
         updatedBefore,
-        dueAfter,
-        dueBefore,
-        hasTimeTracking,
-        minTimeSpent,
-        maxTimeSpent,
-        isCompleted,
-        isOverdue,
-        isRecurring,
-        hasDescription,
       } = input;
 
       try {
@@ -125,89 +61,48 @@ export const searchRouter = createTRPCRouter({
           journals: [],
           totalCount: 0,
           nextCursor: undefined,
+          truncated: false, // 匹配关键词的内容过多，只检查了相关性最高的一部分
+        };
+
+        // 有关键词时通过全文索引按相关性分批找出匹配内容，并在每批中按其余筛选条件过滤
+        const searchQuery = query?.trim() ?? "";
+        const sortByRelevance = !!searchQuery && sortBy === "relevance";
+        const findMatches = async (
+          target: "tasks" | "notes" | "projects" | "journals",
+          filter: (ids: string[]) => Promise<Array<{ id: string }>>,
+        ) => {
+          if (!searchQuery) return undefined;
+
+          const matches = await findFullTextMatches(
+            ctx.db,
+            ctx.session.user.id,
+            target,
+            searchQuery,
+            async (ids) => (await filter(ids)).map((item) => item.id),
+            // 按相关性排序时只需要最相关的 limit 条
+            sortByRelevance ? limit : undefined,
+          );
+          if (matches.truncated) Object.assign(results, { truncated: true });
+          return matches.ranks;
         };
 
         // 搜索任务
         if (searchIn.includes("tasks")) {
-          const taskWhere: any = {
-            createdById: ctx.session.user.id,
-            ...(query && {
-              OR: [
-                { title: { contains: query, mode: "insensitive" as const } },
-                {
-                  description: {
-                    contains: query,
-                    mode: "insensitive" as const,
-                  },
-                },
-              ],
-            }),
-            ...(taskStatus && { status: { in: taskStatus } }),
-            ...(taskType && { type: { in: taskType } }),
-            ...(priority && { priority: { in: priority } }),
-            ...(projectIds && { projectId: { in: projectIds } }),
-            ...(createdAfter && { createdAt: { gte: createdAfter } }),
-            ...(createdBefore && { createdAt: { lte: createdBefore } }),
-            ...(updatedAfter && { updatedAt: { gte: updatedAfter } }),
-            ...(updatedBefore && { updatedAt: { lte: updatedBefore } }),
-            ...(dueAfter && { dueDate: { gte: dueAfter } }),
-            ...(dueBefore && { dueDate: { lte: dueBefore } }),
-            ...(isCompleted !== undefined && {
-              status: isCompleted ? TaskStatus.DONE : { not: TaskStatus.DONE },
+          const taskRanks = await findMatches("tasks", (ids) =>
+            ctx.db.task.findMany({
+              where: buildTaskSearchWhere(ctx.session.user.id, input, ids),
+              select: { id: true },
             }),
-            ...(isOverdue && {
-              dueDate: { lt: new Date() },
-              status: { not: TaskStatus.DONE },
-            }),
-            ...(isRecurring !== undefined && { isRecurring }),
-            ...(hasDescription !== undefined && {
-              description: hasDescription ? { not: null } : null,
-            }),
-            ...(tagIds && {
-              tags: {
-                some: {
-                  tagId: { in: tagIds },
-                },
-              },
-            }),
-            ...(tagTypes && {
-              tags: {
-                some: {
-                  tag: {
-                    type: { in: tagTypes },
-                  },
-                },
-              },
-            }),
-          };
-
-          // 时间筛选需要聚合查询
-          if (
-            hasTimeTracking !== undefined ||
-            minTimeSpent !== undefined ||
-            maxTimeSpent !== undefined
-          ) {
-            // 这里需要更复杂的查询，暂时简化处理
-            if (hasTimeTracking !== undefined) {
-              taskWhere.totalTimeSpent = hasTimeTracking ? { gt: 0 } : 0;
-            }
-            if (minTimeSpent !== undefined) {
-              taskWhere.totalTimeSpent = {
-                ...taskWhere.totalTimeSpent,
-                gte: minTimeSpent,
-              };
-            }
-            if (maxTimeSpent !== undefined) {
-              taskWhere.totalTimeSpent = {
-                ...taskWhere.totalTimeSpent,
-                lte: maxTimeSpent,
-              };
-            }
-          }
+          );
+          const taskWhere = buildTaskSearchWhere(
+            ctx.session.user.id,
+            input,
+            taskRanks && Array.from(taskRanks.keys()),
+          );
 
           const tasks = await ctx.db.task.findMany({
             where: taskWhere,
-            take: limit,
+            take: sortByRelevance ? undefined : limit,
             orderBy: getTaskOrderBy(sortBy, sortOrder),
             include: {
               project: true,
@@ -229,26 +124,33 @@ export const searchRouter = createTRPCRouter({
             },
           });
 
-          results.tasks = tasks;
-          results.totalCount += tasks.length;
+          results.tasks = taskRanks
+            ? rankSearchResults(tasks, taskRanks, {
+                query: searchQuery,
+                limit,
+                sortByRelevance,
+                getSnippetFields: (task) => [
+                  ["description", task.description],
+                  ["feedback", task.feedback],
+                ],
+              })
+            : tasks;
+          results.totalCount += results.tasks.length;
         }
 
         // 搜索笔记
         if (searchIn.includes("notes")) {
-          const noteWhere: any = {
+          const noteWhere: Prisma.NoteWhereInput = {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             isArchived: false, // 默认不搜索归档的笔记
-            ...(query && {
-              OR: [
-                { title: { contains: query, mode: "insensitive" as const } },
-                { content: { contains: query, mode: "insensitive" as const } },
-              ],
-            }),
             ...(projectIds && { projectId: { in: projectIds } }),
-            ...(createdAfter && { createdAt: { gte: createdAfter } }),
-            ...(createdBefore && { createdAt: { lte: createdBefore } }),
-            ...(updatedAfter && { updatedAt: { gte: updatedAfter } }),
-            ...(updatedBefore && { updatedAt: { lte: updatedBefore } }),
+            ...((createdAfter ?? createdBefore) && {
+              createdAt: { gte: createdAfter, lte: createdBefore },
+            }),
+            ...((updatedAfter ?? updatedBefore) && {
+              updatedAt: { gte: updatedAfter, lte: updatedBefore },
+            }),
             ...(tagIds && {
               tags: {
                 some: {
@@ -256,11 +158,21 @@ export const searchRouter = createTRPCRouter({
                 },
               },
             }),
+            AND: getExclusionFilters(excludeTagIds, excludeProjectIds),
           };
+          const noteRanks = await findMatches("notes", (ids) =>
+            ctx.db.note.findMany({
+              where: { ...noteWhere, id: { in: ids } },
+              select: { id: true },
+            }),
+          );
 
           const notes = await ctx.db.note.findMany({
-            where: noteWhere,
-            take: limit,
+            where: {
+              ...noteWhere,
+              ...(noteRanks && { id: { in: Array.from(noteRanks.keys()) } }),
+            },
+            take: sortByRelevance ? undefined : limit,
             orderBy: getNoteOrderBy(sortBy, sortOrder),
             include: {
               project: true,
@@ -270,6 +182,7 @@ export const searchRouter = createTRPCRouter({
                 },
               },
               linkedTasks: {
+                where: { deletedAt: null },
                 select: {
                   id: true,
                   title: true,
@@ -279,70 +192,108 @@ export const searchRouter = createTRPCRouter({
             },
           });
 
-          results.notes = notes;
-          results.totalCount += notes.length;
+          results.notes = noteRanks
+            ? rankSearchResults(notes, noteRanks, {
+                query: searchQuery,
+                limit,
+                sortByRelevance,
+                getSnippetFields: (note) => [["content", note.content]],
+              })
+            : notes;
+          results.totalCount += results.notes.length;
         }
 
         // 搜索项目
         // 注意：项目不支持标签系统，所以当有标签筛选时跳过项目搜索
         if (searchIn.includes("projects") && (!tagIds || tagIds.length === 0)) {
-          const projectWhere: any = {
+          const projectWhere: Prisma.ProjectWhereInput = {
             createdById: ctx.session.user.id,
-            ...(query && {
-              OR: [
-                { name: { contains: query, mode: "insensitive" as const } },
-                {
-                  description: {
-                    contains: query,
-                    mode: "insensitive" as const,
-                  },
-                },
-              ],
+            deletedAt: null,
+            ...((createdAfter ?? createdBefore) && {
+              createdAt: { gte: createdAfter, lte: createdBefore },
+            }),
+            ...((updatedAfter ?? updatedBefore) && {
+              updatedAt: { gte: updatedAfter, lte: updatedBefore },
             }),
-            ...(createdAfter && { createdAt: { gte: createdAfter } }),
-            ...(createdBefore && { createdAt: { lte: createdBefore } }),
-            ...(updatedAfter && { updatedAt: { gte: updatedAfter } }),
-            ...(updatedBefore && { updatedAt: { lte: updatedBefore } }),
           };
 
+          const projectRanks = await findMatches("projects", (ids) =>
+            ctx.db.project.findMany({
+              where: { ...projectWhere, id: { in: ids } },
+              select: { id: true },
+            }),
+          );
+
           const projects = await ctx.db.project.findMany({
-            where: projectWhere,
-            take: limit,
+            where: {
+              ...projectWhere,
+              ...(projectRanks && {
+                id: { in: Array.from(projectRanks.keys()) },
+              }),
+            },
+            take: sortByRelevance ? undefined : limit,
             orderBy: getProjectOrderBy(sortBy, sortOrder),
             include: {
               _count: {
                 select: {
-                  tasks: true,
-                  notes: true,
+                  tasks: { where: { deletedAt: null } },
+                  notes: { where: { deletedAt: null } },
                 },
               },
             },
           });
 
-          results.projects = projects;
-          results.totalCount += projects.length;
+          results.projects = projectRanks
+            ? rankSearchResults(projects, projectRanks, {
+                query: searchQuery,
+                limit,
+                sortByRelevance,
+                getSnippetFields: (project) => [
+                  ["description", project.description],
+                ],
+              })
+            : projects;
+          results.totalCount += results.projects.length;
         }
 
         // 搜索日记
         // 注意：日记不支持标签系统，所以当有标签筛选时跳过日记搜索
         if (searchIn.includes("journals") && (!tagIds || tagIds.length === 0)) {
-          const journalWhere: any = {
+          const journalWhere: Prisma.JournalWhereInput = {
             createdById: ctx.session.user.id,
-            ...(query && {
-              content: { contains: query, mode: "insensitive" as const },
+            deletedAt: null,
+            ...((createdAfter ?? createdBefore) && {
+              date: { gte: createdAfter, lte: createdBefore },
             }),
-            ...(createdAfter && { date: { gte: createdAfter } }),
-            ...(createdBefore && { date: { lte: createdBefore } }),
           };
 
+          const journalRanks = await findMatches("journals", (ids) =>
+            ctx.db.journal.findMany({
+              where: { ...journalWhere, id: { in: ids } },
+              select: { id: true },
+            }),
+          );
+
           const journals = await ctx.db.journal.findMany({
-            where: journalWhere,
-            take: limit,
+            where: {
+              ...journalWhere,
+              ...(journalRanks && {
+                id: { in: Array.from(journalRanks.keys()) },
+              }),
+            },
+            take: sortByRelevance ? undefined : limit,
             orderBy: { date: sortOrder },
           });
 
-          results.journals = journals;
-          results.totalCount += journals.length;
+          results.journals = journalRanks
+            ? rankSearchResults(journals, journalRanks, {
+                query: searchQuery,
+                limit,
+                sortByRelevance,
+                getSnippetFields: (journal) => [["content", journal.content]],
+              })
+            : journals;
+          results.totalCount += results.journals.length;
         }
 
         return results;
@@ -374,6 +325,7 @@ export const searchRouter = createTRPCRouter({
           const tasks = await ctx.db.task.findMany({
             where: {
               createdById: ctx.session.user.id,
+              deletedAt: null,
               title: { contains: query, mode: "insensitive" as const },
             },
             select: {
@@ -391,6 +343,7 @@ export const searchRouter = createTRPCRouter({
           const notes = await ctx.db.note.findMany({
             where: {
               createdById: ctx.session.user.id,
+              deletedAt: null,
               isArchived: false, // 排除归档笔记
               OR: [
                 { title: { contains: query, mode: "insensitive" as const } },
@@ -412,6 +365,7 @@ export const searchRouter = createTRPCRouter({
           const journals = await ctx.db.journal.findMany({
             where: {
               createdById: ctx.session.user.id,
+              deletedAt: null,
               content: { contains: query, mode: "insensitive" as const },
             },
             select: {
@@ -448,6 +402,7 @@ export const searchRouter = createTRPCRouter({
           const projects = await ctx.db.project.findMany({
             where: {
               createdById: ctx.session.user.id,
+              deletedAt: null,
               name: { contains: query, mode: "insensitive" as const },
             },
             select: {
@@ -495,6 +450,7 @@ export const searchRouter = createTRPCRouter({
           data: {
             ...input,
             searchParams: JSON.stringify(input.searchParams),
+            shareToken: input.isPublic ? generateShareToken() : null,
             createdById: ctx.session.user.id,
           },
         });
@@ -519,6 +475,12 @@ export const searchRouter = createTRPCRouter({
         where: {
           createdById: ctx.session.user.id,
         },
+        include: {
+          sourceSearch: {
+            select: { name: true, createdBy: { select: { name: true } } },
+          },
+          _count: { select: { subscribers: true } },
+        },
         orderBy: { updatedAt: "desc" },
       });
 
@@ -535,6 +497,105 @@ export const searchRouter = createTRPCRouter({
     }
   }),
 
+  // 获取固定到侧边栏的智能列表及任务数量
+  getSmartLists: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getSmartListsWithCounts(ctx.db, ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取智能列表失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 固定/取消固定智能列表、设置默认视图
+  updateSmartList: protectedProcedure
+    .input(updateSmartListSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+
+      try {
+        const result = await ctx.db.savedSearch.updateMany({
+          where: { id, createdById: ctx.session.user.id },
+          data,
+        });
+
+        if (result.count === 0) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "保存的搜索不存在或无权限操作",
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "更新智能列表失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 公开/取消公开保存的搜索
+  setSharing: protectedProcedure
+    .input(setSavedSearchSharingSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await setSavedSearchSharing(ctx.db, ctx.session.user.id, input);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "更新共享设置失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 通过共享链接查看搜索
+  getShared: protectedProcedure
+    .input(sharedSearchTokenSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        return await getSharedSearch(ctx.db, ctx.session.user.id, input.token);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取共享搜索失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 导入或订阅共享搜索
+  importShared: protectedProcedure
+    .input(importSharedSearchSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await importSharedSearch(ctx.db, ctx.session.user.id, input);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "导入共享搜索失败",
+          cause: error,
+        });
+      }
+    }),
+
   // 获取单个保存搜索详情
   getSavedSearchById: protectedProcedure
     .input(searchIdSchema)
@@ -553,7 +614,9 @@ export const searchRouter = createTRPCRouter({
 
         return {
           ...savedSearch,
-          searchParams: JSON.parse(savedSearch.searchParams),
+          searchParams: JSON.parse(
+            savedSearch.searchParams,
+          ) as StoredSearchParams,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -574,7 +637,8 @@ export const searchRouter = createTRPCRouter({
         id: z.string().cuid("无效的搜索ID"),
         name: z.string().min(1, "搜索名称不能为空").max(100, "搜索名称过长"),
         description: z.string().max(500, "描述过长").optional(),
-        searchParams: advancedSearchSchema,
+        // 不传入时保留原有搜索条件（仅修改名称和描述）
+        searchParams: advancedSearchSchema.optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
@@ -582,7 +646,12 @@ export const searchRouter = createTRPCRouter({
         // 验证搜索所有权
         const existingSearch = await ctx.db.savedSearch.findUnique({
           where: { id: input.id },
-          select: { createdById: true, name: true },
+          select: {
+            createdById: true,
+            name: true,
+            searchParams: true,
+            sourceSearchId: true,
+          },
         });
 
         if (
@@ -613,15 +682,28 @@ export const searchRouter = createTRPCRouter({
           }
         }
 
+        const searchParams = input.searchParams
+          ? JSON.stringify(input.searchParams)
+          : existingSearch.searchParams;
+        const paramsChanged = searchParams !== existingSearch.searchParams;
+
         const updatedSearch = await ctx.db.savedSearch.update({
           where: { id: input.id },
           data: {
             name: input.name,
             description: input.description,
-            searchParams: JSON.stringify(input.searchParams),
+            searchParams,
+            // 订阅者修改搜索条件后不再跟随共享搜索更新
+            ...(paramsChanged &&
+              existingSearch.sourceSearchId && { sourceSearchId: null }),
           },
         });
 
+        // 共享搜索的条件变化时同步给订阅者
+        if (paramsChanged) {
+          await syncSubscribedSearches(ctx.db, input.id);
+        }
+
         return updatedSearch;
       } catch (error) {
         if (error instanceof TRPCError) {
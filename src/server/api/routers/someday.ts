@@ -0,0 +1,147 @@
+/**
+ * 将来/也许路由
+ *
+ * 功能：
+ * 1. 获取将来/也许清单
+ * 2. 获取回顾状态、标记已回顾
+ * 3. 一键转为待办并指定项目
+ */
+
+import { TaskStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import {
+  getSomedayTasksSchema,
+  promoteSomedayTaskSchema,
+} from "@/server/api/schemas/someday";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import {
+  getSomedayReviewStatus,
+  markSomedayReviewed,
+  promoteSomedayTask,
+} from "@/server/services/someday";
+
+export const somedayRouter = createTRPCRouter({
+  // 获取将来/也许清单（最久未动的在前，便于回顾）
+  getList: protectedProcedure
+    .input(getSomedayTasksSchema)
+    .query(async ({ ctx, input }) => {
+      const { search, limit, cursor } = input;
+
+      try {
+        const where = {
+          createdById: ctx.session.user.id,
+          status: TaskStatus.SOMEDAY,
+          deletedAt: null,
+          ...(search && {
+            OR: [
+              { title: { contains: search, mode: "insensitive" as const } },
+              {
+                description: { contains: search, mode: "insensitive" as const },
+              },
+            ],
+          }),
+        };
+
+        const [tasks, totalCount] = await Promise.all([
+          ctx.db.task.findMany({
+            where,
+            take: limit + 1,
+            cursor: cursor ? { id: cursor } : undefined,
+            orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+            include: {
+              project: true,
+              tags: {
+                include: {
+                  tag: true,
+                },
+                orderBy: { sortOrder: "asc" },
+              },
+            },
+          }),
+          ctx.db.task.count({ where }),
+        ]);
+
+        let nextCursor: typeof cursor | undefined = undefined;
+        if (tasks.length > limit) {
+          const nextItem = tasks.pop();
+          nextCursor = nextItem!.id;
+        }
+
+        return {
+          tasks,
+          nextCursor,
+          totalCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取将来/也许清单失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 获取回顾状态
+  getReviewStatus: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getSomedayReviewStatus(ctx.db, ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取回顾状态失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 标记已回顾
+  markReviewed: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      const reviewedAt = await markSomedayReviewed(ctx.db, ctx.session.user.id);
+
+      return {
+        success: true,
+        message: "已完成将来/也许清单的回顾",
+        reviewedAt,
+      };
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "标记回顾失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 转为待办
+  promote: protectedProcedure
+    .input(promoteSomedayTaskSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const task = await ctx.db.$transaction((tx) =>
+          promoteSomedayTask(
+            tx,
+            ctx.session.user.id,
+            input.id,
+            input.projectId,
+          ),
+        );
+
+        return {
+          success: true,
+          message: `"${task.title}" 已转为待办`,
+          task,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "转为待办失败",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -193,8 +193,8 @@ export const tagRouter = createTRPCRouter({
             include: {
               _count: {
                 select: {
-                  taskTags: true,
-                  noteTags: true,
+                  taskTags: { where: { task: { deletedAt: null } } },
+                  noteTags: { where: { note: { deletedAt: null } } },
                 },
               },
             },
@@ -241,8 +241,8 @@ export const tagRouter = createTRPCRouter({
           include: {
             _count: {
               select: {
-                taskTags: true,
-                noteTags: true,
+                taskTags: { where: { task: { deletedAt: null } } },
+                noteTags: { where: { note: { deletedAt: null } } },
               },
             },
           },
@@ -278,8 +278,8 @@ export const tagRouter = createTRPCRouter({
           include: {
             _count: {
               select: {
-                taskTags: true,
-                noteTags: true,
+                taskTags: { where: { task: { deletedAt: null } } },
+                noteTags: { where: { note: { deletedAt: null } } },
               },
             },
           },
@@ -305,8 +305,8 @@ export const tagRouter = createTRPCRouter({
           include: {
             _count: {
               select: {
-                taskTags: true,
-                noteTags: true,
+                taskTags: { where: { task: { deletedAt: null } } },
+                noteTags: { where: { note: { deletedAt: null } } },
               },
             },
           },
@@ -385,8 +385,8 @@ export const tagRouter = createTRPCRouter({
           include: {
             _count: {
               select: {
-                taskTags: true,
-                noteTags: true,
+                taskTags: { where: { task: { deletedAt: null } } },
+                noteTags: { where: { note: { deletedAt: null } } },
               },
             },
           },
@@ -453,7 +453,8 @@ export const tagRouter = createTRPCRouter({
           if (noteCount > 0) {
             message += `• 被 ${noteCount} 个笔记使用\n`;
           }
-          message += "\n请先移除这些引用，然后再删除标签。";
+          message +=
+            "\n请先移除这些引用（包括回收站中的内容），然后再删除标签。";
 
           throw new TRPCError({
             code: "CONFLICT",
@@ -590,7 +591,7 @@ export const tagRouter = createTRPCRouter({
 
           throw new TRPCError({
             code: "CONFLICT",
-            message: `以下标签正在被使用，无法删除:\n\n${referencedNames}\n\n请先移除这些引用，然后再删除标签。`,
+            message: `以下标签正在被使用，无法删除:\n\n${referencedNames}\n\n请先移除这些引用（包括回收站中的内容），然后再删除标签。`,
           });
         }
 
@@ -4,19 +4,65 @@ import { TaskStatus, TaskType } from "@prisma/client";
 
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import { getLocalDateString } from "@/utils/timezone";
+import { hasOpenBlockers } from "@/utils/task-dependencies";
+import { handleTaskCompleted } from "@/server/services/task-completion";
+import {
+  markTaskWaitingIfBlocked,
+  releaseDependentTasks,
+  releaseTaskIfUnblocked,
+  validateBlockers,
+} from "@/server/services/task-dependencies";
+import { getNotDeferredTaskWhere } from "@/server/services/task-defer";
+import {
+  assertContactOwned,
+  getFollowUpReminderWhere,
+  recordFollowUp,
+} from "@/server/services/task-follow-up";
+import { autoCompleteTaskIfReady } from "@/server/services/task-hierarchy";
+import { createNextRecurringInstance } from "@/server/services/task-recurrence";
+import { getSmartListTaskWhere } from "@/server/services/smart-lists";
+import {
+  getTaskActivity,
+  getTaskHistoryStates,
+  recordTaskFieldChanges,
+} from "@/server/services/task-history";
+import { moveTasksToTrash } from "@/server/services/trash";
+import {
+  recordTaskStatusChange,
+  recordTaskStatusChanges,
+} from "@/server/services/task-status";
+import {
+  recordUndoOperation,
+  snapshotTasks,
+  type TaskSnapshot,
+  taskSnapshotSelect,
+  toTaskSnapshot,
+} from "@/server/services/undo";
+import {
+  emitTaskCreatedEvent,
+  emitWebhookEvent,
+  toWebhookTask,
+} from "@/server/services/webhooks";
 import {
   batchDeleteTasksSchema,
   batchUpdateTasksSchema,
+  checklistItemIdSchema,
+  createChecklistItemSchema,
   createTaskSchema,
+  deferTaskSchema,
   getDailyActivitySchema,
+  getDeferredTasksSchema,
   getTasksByStatusSchema,
   getTasksSchema,
   getTaskStatsSchema,
   getTimeEntriesSchema,
   postponeTaskSchema,
+  recordFollowUpSchema,
+  reorderChecklistItemsSchema,
   setRecurringSchema,
   taskIdSchema,
   timeTrackingSchema,
+  updateChecklistItemSchema,
   updateTaskFeedbackSchema,
   updateTaskSchema,
   updateTaskStatusSchema,
@@ -28,13 +74,13 @@ export const taskRouter = createTRPCRouter({
   create: protectedProcedure
     .input(createTaskSchema)
     .mutation(async ({ ctx, input }) => {
-      const { tagIds, ...taskData } = input;
+      const { tagIds, blockedByIds, recurringPattern, ...taskData } = input;
 
       try {
         // 验证项目所有权（如果指定了项目）
         if (input.projectId) {
           const project = await ctx.db.project.findUnique({
-            where: { id: input.projectId },
+            where: { id: input.projectId, deletedAt: null },
             select: { createdById: true },
           });
 
@@ -46,6 +92,42 @@ export const taskRouter = createTRPCRouter({
           }
         }
 
+        // 验证父任务（如果创建的是子任务）
+        if (input.parentId) {
+          const parentTask = await ctx.db.task.findUnique({
+            where: { id: input.parentId, deletedAt: null },
+            select: { createdById: true, parentId: true, projectId: true },
+          });
+
+          if (!parentTask || parentTask.createdById !== ctx.session.user.id) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "父任务不存在或无权限访问",
+            });
+          }
+
+          // 只支持一层子任务，避免无限嵌套
+          if (parentTask.parentId) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "子任务下不能再创建子任务",
+            });
+          }
+
+          // 子任务默认继承父任务的项目
+          taskData.projectId ??= parentTask.projectId ?? undefined;
+        }
+
+        // 验证前置任务（如果指定了依赖）
+        if (blockedByIds && blockedByIds.length > 0) {
+          await validateBlockers(
+            ctx.db,
+            null,
+            blockedByIds,
+            ctx.session.user.id,
+          );
+        }
+
         // 验证标签所有权（如果指定了标签）
         if (tagIds && tagIds.length > 0) {
           const tags = await ctx.db.tag.findMany({
@@ -63,11 +145,22 @@ export const taskRouter = createTRPCRouter({
           }
         }
 
+        // 验证等待对象（如果指定了联系人），委派日期默认为现在
+        if (taskData.waitingForId) {
+          await assertContactOwned(
+            ctx.db,
+            ctx.session.user.id,
+            taskData.waitingForId,
+          );
+          taskData.delegatedAt ??= new Date();
+        }
+
         // 获取当前状态下的最小 sortOrder 值，新任务排在第一位
         const minSortOrder = await ctx.db.task.findFirst({
           where: {
             createdById: ctx.session.user.id,
             status: taskData.status ?? TaskStatus.TODO,
+            deletedAt: null,
           },
           select: { sortOrder: true },
           orderBy: { sortOrder: "asc" },
@@ -80,6 +173,9 @@ export const taskRouter = createTRPCRouter({
         const task = await ctx.db.task.create({
           data: {
             ...taskData,
+            recurringPattern: recurringPattern
+              ? JSON.stringify(recurringPattern)
+              : undefined,
             sortOrder: nextSortOrder,
             createdById: ctx.session.user.id,
             tags: tagIds
@@ -90,6 +186,13 @@ export const taskRouter = createTRPCRouter({
                   })),
                 }
               : undefined,
+            blockedBy: blockedByIds
+              ? {
+                  create: blockedByIds.map((blockerId) => ({
+                    blocker: { connect: { id: blockerId } },
+                  })),
+                }
+              : undefined,
           },
           include: {
             project: true,
@@ -117,6 +220,17 @@ export const taskRouter = createTRPCRouter({
           },
         });
 
+        await emitTaskCreatedEvent(ctx.db, task);
+
+        // 前置任务未完成时，待办任务自动转为等待中
+        if (
+          blockedByIds &&
+          blockedByIds.length > 0 &&
+          (await markTaskWaitingIfBlocked(ctx.db, task.id, ctx.session.user.id))
+        ) {
+          task.status = TaskStatus.WAITING;
+        }
+
         return task;
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -147,12 +261,15 @@ export const taskRouter = createTRPCRouter({
         completedBefore,
         dueAfter,
         dueBefore,
+        smartListId,
+        hideDeferred,
         ...filters
       } = input;
 
       try {
         const where: any = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
           ...filters,
           ...(search && {
             OR: [
@@ -200,6 +317,21 @@ export const taskRouter = createTRPCRouter({
           if (dueBefore) where.dueDate.lte = dueBefore;
         }
 
+        // 智能列表的搜索条件
+        if (smartListId) {
+          const smartListWhere = await getSmartListTaskWhere(
+            ctx.db,
+            ctx.session.user.id,
+            smartListId,
+          );
+          where.AND = [...(where.AND ?? []), smartListWhere];
+        }
+
+        // 隐藏尚未到推迟日期的任务
+        if (hideDeferred) {
+          where.AND = [...(where.AND ?? []), getNotDeferredTaskWhere()];
+        }
+
         // 并行获取任务列表和总数
         const [tasks, totalCount] = await Promise.all([
           ctx.db.task.findMany({
@@ -215,6 +347,7 @@ export const taskRouter = createTRPCRouter({
             ],
             include: {
               project: true,
+              waitingFor: true,
               tags: {
                 include: {
                   tag: true,
@@ -225,6 +358,19 @@ export const taskRouter = createTRPCRouter({
                 where: { endTime: null },
                 take: 1,
               },
+              // 子任务和检查项进度
+              subtasks: {
+                where: { deletedAt: null },
+                select: { id: true, status: true },
+              },
+              checklistItems: { select: { id: true, isCompleted: true } },
+              // 前置任务
+              blockedBy: {
+                where: { blocker: { deletedAt: null } },
+                select: {
+                  blocker: { select: { id: true, title: true, status: true } },
+                },
+              },
               _count: {
                 select: {
                   timeEntries: true,
@@ -248,6 +394,9 @@ export const taskRouter = createTRPCRouter({
           totalCount,
         };
       } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
           message: "获取任务列表失败",
@@ -260,12 +409,36 @@ export const taskRouter = createTRPCRouter({
   getByStatus: protectedProcedure
     .input(getTasksByStatusSchema)
     .query(async ({ ctx, input }) => {
-      const { status, limit, cursor } = input;
+      const {
+        status,
+        limit,
+        cursor,
+        includeSubtasks,
+        smartListId,
+        includeDeferred,
+      } = input;
 
       try {
         const where = {
           createdById: ctx.session.user.id,
           status: status,
+          deletedAt: null,
+          // 子任务默认在父任务内展示，不作为独立卡片
+          ...(!includeSubtasks && { parentId: null }),
+          AND: [
+            // 推迟日期未到的任务默认不显示
+            ...(includeDeferred ? [] : [getNotDeferredTaskWhere()]),
+            // 智能列表的搜索条件
+            ...(smartListId
+              ? [
+                  await getSmartListTaskWhere(
+                    ctx.db,
+                    ctx.session.user.id,
+                    smartListId,
+                  ),
+                ]
+              : []),
+          ],
         };
 
         // 并行获取任务列表和总数
@@ -292,6 +465,19 @@ export const taskRouter = createTRPCRouter({
                 where: { endTime: null },
                 take: 1,
               },
+              // 子任务和检查项进度
+              subtasks: {
+                where: { deletedAt: null },
+                select: { id: true, status: true },
+              },
+              checklistItems: { select: { id: true, isCompleted: true } },
+              // 前置任务
+              blockedBy: {
+                where: { blocker: { deletedAt: null } },
+                select: {
+                  blocker: { select: { id: true, title: true, status: true } },
+                },
+              },
               _count: {
                 select: {
                   timeEntries: true,
@@ -315,6 +501,9 @@ export const taskRouter = createTRPCRouter({
           totalCount,
         };
       } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
           message: "获取任务列表失败",
@@ -329,7 +518,7 @@ export const taskRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       try {
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           include: {
             project: true,
             tags: {
@@ -350,12 +539,33 @@ export const taskRouter = createTRPCRouter({
               orderBy: { changedAt: "desc" },
             },
             linkedNotes: {
+              where: { deletedAt: null },
               select: {
                 id: true,
                 title: true,
                 updatedAt: true,
               },
             },
+            parent: {
+              select: { id: true, title: true, status: true },
+            },
+            parentTask: {
+              select: { id: true, title: true },
+            },
+            blockedBy: {
+              where: { blocker: { deletedAt: null } },
+              select: {
+                blocker: { select: { id: true, title: true, status: true } },
+              },
+              orderBy: { createdAt: "asc" },
+            },
+            blocking: {
+              where: { task: { deletedAt: null } },
+              select: {
+                task: { select: { id: true, title: true, status: true } },
+              },
+              orderBy: { createdAt: "asc" },
+            },
           },
         });
 
@@ -383,13 +593,31 @@ export const taskRouter = createTRPCRouter({
   update: protectedProcedure
     .input(updateTaskSchema)
     .mutation(async ({ ctx, input }) => {
-      const { id, tagIds, status, ...updateData } = input;
+      const {
+        id,
+        tagIds,
+        blockedByIds,
+        recurringPattern,
+        status,
+        ...updateData
+      } = input;
 
       try {
         // 验证任务所有权并获取当前状态
         const existingTask = await ctx.db.task.findUnique({
-          where: { id },
-          select: { createdById: true, status: true, title: true },
+          where: { id, deletedAt: null },
+          select: {
+            createdById: true,
+            status: true,
+            title: true,
+            parentId: true,
+            waitingForId: true,
+            followUpAt: true,
+            blockedBy: {
+              where: { blocker: { deletedAt: null } },
+              select: { blocker: { select: { status: true } } },
+            },
+          },
         });
 
         if (!existingTask || existingTask.createdById !== ctx.session.user.id) {
@@ -402,7 +630,7 @@ export const taskRouter = createTRPCRouter({
         // 验证项目所有权（如果更新了项目）
         if (updateData.projectId) {
           const project = await ctx.db.project.findUnique({
-            where: { id: updateData.projectId },
+            where: { id: updateData.projectId, deletedAt: null },
             select: { createdById: true },
           });
 
@@ -431,11 +659,43 @@ export const taskRouter = createTRPCRouter({
           }
         }
 
+        // 验证前置任务（如果更新了依赖）
+        if (blockedByIds && blockedByIds.length > 0) {
+          await validateBlockers(ctx.db, id, blockedByIds, ctx.session.user.id);
+        }
+
+        // 验证等待对象（如果更新了联系人），换了新的联系人时委派日期默认为现在
+        if (updateData.waitingForId) {
+          await assertContactOwned(
+            ctx.db,
+            ctx.session.user.id,
+            updateData.waitingForId,
+          );
+          if (
+            updateData.waitingForId !== existingTask.waitingForId &&
+            updateData.delegatedAt === undefined
+          ) {
+            updateData.delegatedAt = new Date();
+          }
+        }
+
+        // 记录变更前的字段，用于生成变更历史
+        const historyBefore = await getTaskHistoryStates(ctx.db, [id]);
+
         // 处理状态变更
         const statusChanged =
           status !== undefined && status !== existingTask.status;
         const finalUpdateData = { ...updateData };
 
+        // 重新设置跟进日期后，之前发出的跟进提醒不再有效
+        if (
+          updateData.followUpAt !== undefined &&
+          updateData.followUpAt?.getTime() !==
+            existingTask.followUpAt?.getTime()
+        ) {
+          (finalUpdateData as any).followUpRemindedAt = null;
+        }
+
         if (statusChanged) {
           // 如果状态变为已完成，记录完成时间并增加完成次数
           if (status === TaskStatus.DONE) {
@@ -461,6 +721,11 @@ export const taskRouter = createTRPCRouter({
           where: { id },
           data: {
             ...finalUpdateData,
+            ...(recurringPattern !== undefined && {
+              recurringPattern: recurringPattern
+                ? JSON.stringify(recurringPattern)
+                : null,
+            }),
             ...(tagIds !== undefined && {
               tags: {
                 deleteMany: {},
@@ -470,6 +735,14 @@ export const taskRouter = createTRPCRouter({
                 })),
               },
             }),
+            ...(blockedByIds !== undefined && {
+              blockedBy: {
+                deleteMany: {},
+                create: blockedByIds.map((blockerId) => ({
+                  blocker: { connect: { id: blockerId } },
+                })),
+              },
+            }),
           },
           include: {
             project: true,
@@ -482,17 +755,61 @@ export const taskRouter = createTRPCRouter({
           },
         });
 
+        await recordTaskFieldChanges(
+          ctx.db,
+          ctx.session.user.id,
+          historyBefore,
+        );
+
         // 如果状态发生了变化，创建状态历史记录
         if (statusChanged) {
-          await ctx.db.taskStatusHistory.create({
-            data: {
-              fromStatus: existingTask.status,
-              toStatus: status,
-              taskId: id,
-              changedById: ctx.session.user.id,
-              note: "任务更新时状态变更",
-            },
+          await recordTaskStatusChange(ctx.db, {
+            fromStatus: existingTask.status,
+            toStatus: status,
+            taskId: id,
+            changedById: ctx.session.user.id,
+            note: "任务更新时状态变更",
           });
+
+          // 子任务完成后检查父任务是否可以自动完成
+          if (status === TaskStatus.DONE && existingTask.parentId) {
+            await autoCompleteTaskIfReady(
+              ctx.db,
+              existingTask.parentId,
+              ctx.session.user.id,
+            );
+          }
+
+          // 任务完成后解除后续任务的等待状态、生成重复任务的下一个实例
+          if (status === TaskStatus.DONE) {
+            await handleTaskCompleted(ctx.db, id, ctx.session.user.id);
+          }
+
+          // 任务归档后解除后续任务的等待状态
+          if (status === TaskStatus.ARCHIVED) {
+            await releaseDependentTasks(
+              ctx.db,
+              id,
+              ctx.session.user.id,
+              "archived",
+            );
+          }
+        }
+
+        if (blockedByIds !== undefined) {
+          // 前置任务未完成时，待办任务自动转为等待中；移除了所有未完成的前置任务时解除等待
+          if (await markTaskWaitingIfBlocked(ctx.db, id, ctx.session.user.id)) {
+            task.status = TaskStatus.WAITING;
+          } else if (
+            await releaseTaskIfUnblocked(
+              ctx.db,
+              id,
+              ctx.session.user.id,
+              hasOpenBlockers(existingTask),
+            )
+          ) {
+            task.status = TaskStatus.TODO;
+          }
         }
 
         return task;
@@ -515,7 +832,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, title: true },
         });
 
@@ -526,12 +843,13 @@ export const taskRouter = createTRPCRouter({
           });
         }
 
-        // 删除任务（级联删除相关数据）
-        await ctx.db.task.delete({
-          where: { id: input.id },
-        });
+        // 移到回收站（子任务一起移入）
+        await moveTasksToTrash(ctx.db, ctx.session.user.id, [input.id]);
 
-        return { success: true, message: `任务 "${task.title}" 已删除` };
+        return {
+          success: true,
+          message: `任务 "${task.title}" 已移到回收站`,
+        };
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
@@ -551,8 +869,13 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权并获取当前状态
         const existingTask = await ctx.db.task.findUnique({
-          where: { id: input.id },
-          select: { createdById: true, status: true, title: true },
+          where: { id: input.id, deletedAt: null },
+          select: {
+            createdById: true,
+            status: true,
+            title: true,
+            parentId: true,
+          },
         });
 
         if (!existingTask || existingTask.createdById !== ctx.session.user.id) {
@@ -594,20 +917,48 @@ export const taskRouter = createTRPCRouter({
         });
 
         // 创建状态历史记录
-        await ctx.db.taskStatusHistory.create({
-          data: {
-            fromStatus,
-            toStatus,
-            taskId: input.id,
-            changedById: ctx.session.user.id,
-            note: input.note,
-          },
-        });
+        await recordTaskStatusChange(ctx.db, {
+          fromStatus,
+          toStatus,
+          taskId: input.id,
+          changedById: ctx.session.user.id,
+          note: input.note,
+        });
+
+        // 子任务完成后检查父任务是否可以自动完成
+        const parentAutoCompleted =
+          toStatus === TaskStatus.DONE && existingTask.parentId
+            ? await autoCompleteTaskIfReady(
+                ctx.db,
+                existingTask.parentId,
+                ctx.session.user.id,
+              )
+            : { completed: false };
+
+        // 任务完成后解除后续任务的等待状态、生成重复任务的下一个实例
+        const completion =
+          toStatus === TaskStatus.DONE
+            ? await handleTaskCompleted(ctx.db, input.id, ctx.session.user.id)
+            : null;
+
+        // 任务归档后解除后续任务的等待状态
+        const archivedReleased =
+          toStatus === TaskStatus.ARCHIVED
+            ? await releaseDependentTasks(
+                ctx.db,
+                input.id,
+                ctx.session.user.id,
+                "archived",
+              )
+            : [];
 
         return {
           success: true,
           message: `任务 "${existingTask.title}" 状态已更新为 ${toStatus}`,
           task,
+          parentAutoCompleted,
+          releasedTasks: completion?.releasedTasks ?? archivedReleased,
+          nextInstance: completion?.nextInstance.task,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -634,7 +985,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, status: true, title: true },
         });
 
@@ -665,14 +1016,12 @@ export const taskRouter = createTRPCRouter({
         });
 
         // 创建状态历史记录
-        await ctx.db.taskStatusHistory.create({
-          data: {
-            fromStatus: task.status,
-            toStatus: input.newStatus,
-            taskId: input.id,
-            changedById: ctx.session.user.id,
-            note: input.note ?? "任务重启",
-          },
+        await recordTaskStatusChange(ctx.db, {
+          fromStatus: task.status,
+          toStatus: input.newStatus,
+          taskId: input.id,
+          changedById: ctx.session.user.id,
+          note: input.note ?? "任务重启",
         });
 
         return {
@@ -704,7 +1053,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, status: true, title: true },
         });
 
@@ -733,15 +1082,21 @@ export const taskRouter = createTRPCRouter({
         });
 
         // 创建状态历史记录
-        await ctx.db.taskStatusHistory.create({
-          data: {
-            fromStatus: task.status,
-            toStatus: TaskStatus.ARCHIVED,
-            taskId: input.id,
-            changedById: ctx.session.user.id,
-            note: input.note ?? "任务归档",
-          },
-        });
+        await recordTaskStatusChange(ctx.db, {
+          fromStatus: task.status,
+          toStatus: TaskStatus.ARCHIVED,
+          taskId: input.id,
+          changedById: ctx.session.user.id,
+          note: input.note ?? "任务归档",
+        });
+
+        // 任务归档后解除后续任务的等待状态
+        await releaseDependentTasks(
+          ctx.db,
+          input.id,
+          ctx.session.user.id,
+          "archived",
+        );
 
         return {
           success: true,
@@ -767,7 +1122,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: {
             createdById: true,
             title: true,
@@ -881,6 +1236,16 @@ export const taskRouter = createTRPCRouter({
           },
         });
 
+        if (updatedTask.status !== task.status) {
+          await recordTaskStatusChange(ctx.db, {
+            fromStatus: task.status,
+            toStatus: updatedTask.status,
+            taskId: input.id,
+            changedById: ctx.session.user.id,
+            note: "开始计时，任务转为进行中",
+          });
+        }
+
         // 收集被中断任务的更新信息
         const interruptedTasksInfo = [];
         for (const activeTask of activeTimerTasks) {
@@ -896,6 +1261,32 @@ export const taskRouter = createTRPCRouter({
           }
         }
 
+        for (const interrupted of interruptedTasksInfo) {
+          await emitWebhookEvent(
+            ctx.db,
+            ctx.session.user.id,
+            "task.timer_stopped",
+            {
+              task: {
+                id: interrupted.id,
+                title: interrupted.title,
+                totalTimeSpent: interrupted.totalTimeSpent,
+              },
+              reason: "interrupted",
+            },
+          );
+        }
+        await emitWebhookEvent(
+          ctx.db,
+          ctx.session.user.id,
+          "task.timer_started",
+          {
+            task: toWebhookTask(updatedTask),
+            startedAt: now.toISOString(),
+            description: input.description ?? null,
+          },
+        );
+
         return {
           success: true,
           message: `开始为任务 "${task.title}" 计时`,
@@ -921,7 +1312,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: {
             createdById: true,
             title: true,
@@ -986,6 +1377,17 @@ export const taskRouter = createTRPCRouter({
         const timeString =
           hours > 0 ? `${hours}小时${minutes}分钟` : `${minutes}分钟`;
 
+        await emitWebhookEvent(
+          ctx.db,
+          ctx.session.user.id,
+          "task.timer_stopped",
+          {
+            task: toWebhookTask(updatedTask),
+            reason: "paused",
+            sessionDuration,
+          },
+        );
+
         return {
           success: true,
           message: `任务 "${task.title}" 计时已暂停，本次用时 ${timeString}`,
@@ -1011,7 +1413,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: {
             createdById: true,
             title: true,
@@ -1075,15 +1477,27 @@ export const taskRouter = createTRPCRouter({
         });
 
         // 创建状态历史记录
-        await ctx.db.taskStatusHistory.create({
-          data: {
-            fromStatus: TaskStatus.IN_PROGRESS,
-            toStatus: TaskStatus.DONE,
-            taskId: input.id,
-            changedById: ctx.session.user.id,
-            note: "计时结束，任务完成",
+        await recordTaskStatusChange(ctx.db, {
+          fromStatus: TaskStatus.IN_PROGRESS,
+          toStatus: TaskStatus.DONE,
+          taskId: input.id,
+          changedById: ctx.session.user.id,
+          note: "计时结束，任务完成",
+        });
+
+        // 任务完成后解除后续任务的等待状态、生成重复任务的下一个实例
+        await handleTaskCompleted(ctx.db, input.id, ctx.session.user.id);
+
+        await emitWebhookEvent(
+          ctx.db,
+          ctx.session.user.id,
+          "task.timer_stopped",
+          {
+            task: toWebhookTask(updatedTask),
+            reason: "completed",
+            sessionDuration,
           },
-        });
+        );
 
         const hours = Math.floor(sessionDuration / 3600);
         const minutes = Math.floor((sessionDuration % 3600) / 60);
@@ -1115,7 +1529,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: { createdById: true, title: true },
         });
 
@@ -1163,13 +1577,12 @@ export const taskRouter = createTRPCRouter({
       try {
         // 获取原始重复任务
         const originalTask = await ctx.db.task.findUnique({
-          where: { id: input.id },
-          include: {
-            tags: {
-              include: {
-                tag: true,
-              },
-            },
+          where: { id: input.id, deletedAt: null },
+          select: {
+            createdById: true,
+            title: true,
+            isRecurring: true,
+            recurringPattern: true,
           },
         });
 
@@ -1187,95 +1600,28 @@ export const taskRouter = createTRPCRouter({
           });
         }
 
-        const pattern = JSON.parse(originalTask.recurringPattern);
-        const now = new Date();
-        let nextDueDate: Date | null = null;
+        const result = await createNextRecurringInstance(
+          ctx.db,
+          input.id,
+          ctx.session.user.id,
+        );
 
-        // 计算下一个到期日期
-        switch (pattern.type) {
-          case "daily":
-            nextDueDate = new Date(
-              now.getTime() + pattern.interval * 24 * 60 * 60 * 1000,
-            );
-            break;
-          case "weekly":
-            nextDueDate = new Date(
-              now.getTime() + pattern.interval * 7 * 24 * 60 * 60 * 1000,
-            );
-            break;
-          case "monthly":
-            nextDueDate = new Date(now);
-            nextDueDate.setMonth(nextDueDate.getMonth() + pattern.interval);
-            break;
-          case "yearly":
-            nextDueDate = new Date(now);
-            nextDueDate.setFullYear(
-              nextDueDate.getFullYear() + pattern.interval,
-            );
-            break;
+        if (!result.task) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              result.reason === "finished"
+                ? "重复规则已结束，不再生成新实例"
+                : "重复规则无效",
+          });
         }
 
-        // 获取TODO状态下的最小sortOrder值，新循环任务排在第一位
-        const minSortOrder = await ctx.db.task.findFirst({
-          where: {
-            createdById: ctx.session.user.id,
-            status: TaskStatus.TODO,
-          },
-          select: { sortOrder: true },
-          orderBy: { sortOrder: "asc" },
-        });
-
-        const nextSortOrder = (minSortOrder?.sortOrder ?? 1) - 1;
-
-        // 创建新的任务实例
-        const newTask = await ctx.db.task.create({
-          data: {
-            title: originalTask.title,
-            description: originalTask.description,
-            type: originalTask.type,
-            priority: originalTask.priority,
-            status: TaskStatus.TODO,
-            sortOrder: nextSortOrder, // 新循环任务排在第一位
-            dueDate: nextDueDate,
-            dueTime: pattern.time ?? originalTask.dueTime,
-            isRecurring: true,
-            recurringPattern: originalTask.recurringPattern,
-            parentTaskId: originalTask.id,
-            projectId: originalTask.projectId,
-            createdById: ctx.session.user.id,
-            tags: {
-              create: originalTask.tags.map((taskTag) => ({
-                tag: { connect: { id: taskTag.tag.id } },
-                sortOrder: taskTag.sortOrder ?? 0, // 保持原有的sortOrder
-              })),
-            },
-          },
-          include: {
-            project: true,
-            tags: {
-              include: {
-                tag: true,
-              },
-              orderBy: { sortOrder: "asc" }, // 按sortOrder排序
-            },
-          },
-        });
-
-        // 创建状态历史记录
-        await ctx.db.taskStatusHistory.create({
-          data: {
-            fromStatus: null,
-            toStatus: TaskStatus.TODO,
-            taskId: newTask.id,
-            changedById: ctx.session.user.id,
-            note: "重复任务实例创建",
-          },
-        });
-
         return {
           success: true,
-          message: `已生成重复任务 "${originalTask.title}" 的新实例`,
-          task: newTask,
+          message: result.created
+            ? `已生成重复任务 "${originalTask.title}" 的新实例`
+            : `重复任务 "${originalTask.title}" 的下一个实例已存在`,
+          task: result.task,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -1296,7 +1642,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 获取原任务详情
         const originalTask = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           include: {
             tags: {
               include: {
@@ -1371,6 +1717,8 @@ export const taskRouter = createTRPCRouter({
           },
         });
 
+        await emitTaskCreatedEvent(ctx.db, newTask);
+
         return {
           success: true,
           message: `任务 "${originalTask.title}" 已重新安排到待办列表`,
@@ -1402,6 +1750,7 @@ export const taskRouter = createTRPCRouter({
           where: {
             id: { in: input.taskIds },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
           include: {
             tags: {
@@ -1478,6 +1827,8 @@ export const taskRouter = createTRPCRouter({
               },
             });
 
+            await emitTaskCreatedEvent(ctx.db, newTask);
+
             return newTask;
           }),
         );
@@ -1563,6 +1914,7 @@ export const taskRouter = createTRPCRouter({
       try {
         const where: any = {
           createdById: ctx.session.user.id,
+          deletedAt: null,
         };
 
         if (input.projectId) {
@@ -1654,8 +2006,8 @@ export const taskRouter = createTRPCRouter({
       try {
         // 1) 基本校验与上下文
         const existing = await ctx.db.task.findUnique({
-          where: { id },
-          select: { id: true, title: true, status: true, createdById: true },
+          where: { id, deletedAt: null },
+          select: { ...taskSnapshotSelect, title: true, createdById: true },
         });
         if (!existing || existing.createdById !== ctx.session.user.id) {
           throw new TRPCError({
@@ -1685,6 +2037,21 @@ export const taskRouter = createTRPCRouter({
 
         // 在事务中执行，避免竞态
         const result = await ctx.db.$transaction(async (tx) => {
+          // 撤销时还原的任务字段（包括局部重排影响的邻域任务）
+          const snapshots: TaskSnapshot[] = [
+            toTaskSnapshot({
+              id: existing.id,
+              status: existing.status,
+              priority: existing.priority,
+              projectId: existing.projectId,
+              sortOrder: existing.sortOrder,
+              completedAt: existing.completedAt,
+              completedCount: existing.completedCount,
+              isTimerActive: existing.isTimerActive,
+              timerStartedAt: existing.timerStartedAt,
+            }),
+          ];
+
           // 3) 计算新的 sortOrder
           let newOrder: number | null = null;
 
@@ -1739,6 +2106,9 @@ export const taskRouter = createTRPCRouter({
               const t = windowTasks[i]!;
               const desired = i * GAP;
               if (t.sortOrder !== desired) {
+                if (t.id !== id) {
+                  snapshots.push({ id: t.id, sortOrder: t.sortOrder });
+                }
                 await tx.task.update({
                   where: { id: t.id },
                   data: { sortOrder: desired },
@@ -1769,24 +2139,50 @@ export const taskRouter = createTRPCRouter({
 
           // 6) 状态历史（仅在状态变更时记录）
           if (targetStatus !== existing.status) {
-            await tx.taskStatusHistory.create({
-              data: {
-                fromStatus: existing.status,
-                toStatus: targetStatus,
-                taskId: id,
-                changedById: ctx.session.user.id,
-                note: note ?? "邻接插入更新状态/位置",
-              },
+            await recordTaskStatusChange(tx, {
+              fromStatus: existing.status,
+              toStatus: targetStatus,
+              taskId: id,
+              changedById: ctx.session.user.id,
+              note: note ?? "邻接插入更新状态/位置",
             });
           }
 
-          return updated;
+          // 7) 任务完成后解除后续任务的等待状态、生成重复任务的下一个实例
+          if (
+            targetStatus !== existing.status &&
+            targetStatus === TaskStatus.DONE
+          ) {
+            await handleTaskCompleted(tx, id, ctx.session.user.id);
+          }
+          if (
+            targetStatus !== existing.status &&
+            targetStatus === TaskStatus.ARCHIVED
+          ) {
+            await releaseDependentTasks(
+              tx,
+              id,
+              ctx.session.user.id,
+              "archived",
+            );
+          }
+
+          const undoId = await recordUndoOperation(
+            tx,
+            ctx.session.user.id,
+            "task.updatePosition",
+            `移动任务 "${existing.title}"`,
+            { tasks: snapshots },
+          );
+
+          return { task: updated, undoId };
         });
 
         return {
           success: true,
           message: `任务 "${existing.title}" 位置已更新`,
-          task: result,
+          task: result.task,
+          undoId: result.undoId,
         };
       } catch (error) {
         if (error instanceof TRPCError) throw error;
@@ -1810,6 +2206,7 @@ export const taskRouter = createTRPCRouter({
           where: {
             id: { in: taskIds },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
           select: { id: true, title: true, status: true },
         });
@@ -1821,6 +2218,15 @@ export const taskRouter = createTRPCRouter({
           });
         }
 
+        // 记录更新前的状态，用于撤销
+        const inverse = await snapshotTasks(
+          ctx.db,
+          ctx.session.user.id,
+          taskIds,
+          { includeTags: updates.tagIds !== undefined },
+        );
+        const historyBefore = await getTaskHistoryStates(ctx.db, taskIds);
+
         // 准备更新数据
         const updateData: any = {};
 
@@ -1854,23 +2260,42 @@ export const taskRouter = createTRPCRouter({
           where: {
             id: { in: taskIds },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
           data: updateData,
         });
 
         // 如果状态发生了变化，为每个任务创建状态历史记录
         if (updates.status !== undefined) {
-          const statusHistoryData = tasks.map((task) => ({
-            fromStatus: task.status,
-            toStatus: updates.status!,
-            taskId: task.id,
-            changedById: ctx.session.user.id,
-            note: "批量状态更新",
-          }));
+          await recordTaskStatusChanges(
+            ctx.db,
+            tasks.map((task) => ({
+              fromStatus: task.status,
+              toStatus: updates.status!,
+              taskId: task.id,
+              changedById: ctx.session.user.id,
+              note: "批量状态更新",
+            })),
+          );
 
-          await ctx.db.taskStatusHistory.createMany({
-            data: statusHistoryData,
-          });
+          // 任务完成后解除后续任务的等待状态、生成重复任务的下一个实例
+          if (updates.status === TaskStatus.DONE) {
+            for (const task of tasks) {
+              await handleTaskCompleted(ctx.db, task.id, ctx.session.user.id);
+            }
+          }
+
+          // 任务归档后解除后续任务的等待状态
+          if (updates.status === TaskStatus.ARCHIVED) {
+            for (const task of tasks) {
+              await releaseDependentTasks(
+                ctx.db,
+                task.id,
+                ctx.session.user.id,
+                "archived",
+              );
+            }
+          }
         }
 
         // 处理标签更新（如果需要）
@@ -1898,10 +2323,26 @@ export const taskRouter = createTRPCRouter({
           }
         }
 
+        await recordTaskFieldChanges(
+          ctx.db,
+          ctx.session.user.id,
+          historyBefore,
+          "批量更新",
+        );
+
+        const undoId = await recordUndoOperation(
+          ctx.db,
+          ctx.session.user.id,
+          "task.batchUpdate",
+          `批量更新 ${updatedTasks.count} 个任务`,
+          inverse,
+        );
+
         return {
           success: true,
           message: `成功更新 ${updatedTasks.count} 个任务`,
           updatedCount: updatedTasks.count,
+          undoId,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -1927,6 +2368,7 @@ export const taskRouter = createTRPCRouter({
           where: {
             id: { in: taskIds },
             createdById: ctx.session.user.id,
+            deletedAt: null,
           },
           select: { id: true, title: true },
         });
@@ -1938,18 +2380,26 @@ export const taskRouter = createTRPCRouter({
           });
         }
 
-        // 批量删除任务（级联删除相关数据）
-        const deletedTasks = await ctx.db.task.deleteMany({
-          where: {
-            id: { in: taskIds },
-            createdById: ctx.session.user.id,
-          },
-        });
+        // 批量移到回收站（子任务一起移入）
+        const deletedCount = await moveTasksToTrash(
+          ctx.db,
+          ctx.session.user.id,
+          taskIds,
+        );
+
+        const undoId = await recordUndoOperation(
+          ctx.db,
+          ctx.session.user.id,
+          "task.batchDelete",
+          `删除 ${tasks.length} 个任务`,
+          { trash: [{ type: "task", ids: taskIds }] },
+        );
 
         return {
           success: true,
-          message: `成功删除 ${deletedTasks.count} 个任务`,
-          deletedCount: deletedTasks.count,
+          message: `已将 ${tasks.length} 个任务移到回收站`,
+          deletedCount,
+          undoId,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -1972,7 +2422,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权
         const existingTask = await ctx.db.task.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: { createdById: true, title: true, status: true },
         });
 
@@ -1983,6 +2433,8 @@ export const taskRouter = createTRPCRouter({
           });
         }
 
+        const historyBefore = await getTaskHistoryStates(ctx.db, [id]);
+
         // 更新任务反馈
         const task = await ctx.db.task.update({
           where: { id },
@@ -1998,6 +2450,12 @@ export const taskRouter = createTRPCRouter({
           },
         });
 
+        await recordTaskFieldChanges(
+          ctx.db,
+          ctx.session.user.id,
+          historyBefore,
+        );
+
         return {
           success: true,
           message: `任务 "${existingTask.title}" 反馈已保存`,
@@ -2021,7 +2479,7 @@ export const taskRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       try {
         const task = await ctx.db.task.findUnique({
-          where: { id: input.id },
+          where: { id: input.id, deletedAt: null },
           select: {
             id: true,
             title: true,
@@ -2050,6 +2508,287 @@ export const taskRouter = createTRPCRouter({
       }
     }),
 
+  // 获取任务活动时间线（状态变更、计时、反馈和字段变更）
+  getActivity: protectedProcedure
+    .input(taskIdSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        const task = await ctx.db.task.findUnique({
+          where: { id: input.id, deletedAt: null },
+          select: { createdById: true },
+        });
+
+        if (!task || task.createdById !== ctx.session.user.id) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "任务不存在或无权限访问",
+          });
+        }
+
+        return await getTaskActivity(ctx.db, input.id);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取任务活动记录失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 获取子任务和检查项
+  getSubtasks: protectedProcedure
+    .input(taskIdSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        const task = await ctx.db.task.findUnique({
+          where: { id: input.id, deletedAt: null },
+          select: {
+            id: true,
+            createdById: true,
+            autoComplete: true,
+            subtasks: {
+              where: { deletedAt: null },
+              select: {
+                id: true,
+                title: true,
+                status: true,
+                priority: true,
+                dueDate: true,
+              },
+              orderBy: { createdAt: "asc" },
+            },
+            checklistItems: {
+              orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+            },
+          },
+        });
+
+        if (!task || task.createdById !== ctx.session.user.id) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "任务不存在或无权限访问",
+          });
+        }
+
+        return {
+          id: task.id,
+          autoComplete: task.autoComplete,
+          subtasks: task.subtasks,
+          checklistItems: task.checklistItems,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取子任务失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 添加检查项
+  addChecklistItem: protectedProcedure
+    .input(createChecklistItemSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // 验证任务所有权
+        const task = await ctx.db.task.findUnique({
+          where: { id: input.taskId, deletedAt: null },
+          select: { createdById: true },
+        });
+
+        if (!task || task.createdById !== ctx.session.user.id) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "任务不存在或无权限修改",
+          });
+        }
+
+        // 新检查项排在最后
+        const maxSortOrder = await ctx.db.taskChecklistItem.findFirst({
+          where: { taskId: input.taskId },
+          select: { sortOrder: true },
+          orderBy: { sortOrder: "desc" },
+        });
+
+        const item = await ctx.db.taskChecklistItem.create({
+          data: {
+            title: input.title,
+            taskId: input.taskId,
+            sortOrder: (maxSortOrder?.sortOrder ?? -1) + 1,
+          },
+        });
+
+        return {
+          success: true,
+          message: "检查项已添加",
+          item,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "添加检查项失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 更新检查项（内容或完成状态）
+  updateChecklistItem: protectedProcedure
+    .input(updateChecklistItemSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, title, isCompleted } = input;
+
+      try {
+        // 验证检查项所属任务的所有权
+        const existingItem = await ctx.db.taskChecklistItem.findUnique({
+          where: { id },
+          select: { taskId: true, task: { select: { createdById: true } } },
+        });
+
+        if (
+          !existingItem ||
+          existingItem.task.createdById !== ctx.session.user.id
+        ) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "检查项不存在或无权限修改",
+          });
+        }
+
+        const item = await ctx.db.taskChecklistItem.update({
+          where: { id },
+          data: {
+            ...(title !== undefined && { title }),
+            ...(isCompleted !== undefined && {
+              isCompleted,
+              completedAt: isCompleted ? new Date() : null,
+            }),
+          },
+        });
+
+        // 勾选检查项后检查任务是否可以自动完成
+        const taskAutoCompleted = isCompleted
+          ? await autoCompleteTaskIfReady(
+              ctx.db,
+              existingItem.taskId,
+              ctx.session.user.id,
+            )
+          : { completed: false };
+
+        return {
+          success: true,
+          message: "检查项已更新",
+          item,
+          taskAutoCompleted,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "更新检查项失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 删除检查项
+  deleteChecklistItem: protectedProcedure
+    .input(checklistItemIdSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const existingItem = await ctx.db.taskChecklistItem.findUnique({
+          where: { id: input.id },
+          select: { task: { select: { createdById: true } } },
+        });
+
+        if (
+          !existingItem ||
+          existingItem.task.createdById !== ctx.session.user.id
+        ) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "检查项不存在或无权限删除",
+          });
+        }
+
+        await ctx.db.taskChecklistItem.delete({
+          where: { id: input.id },
+        });
+
+        return { success: true, message: "检查项已删除" };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "删除检查项失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 检查项排序
+  reorderChecklistItems: protectedProcedure
+    .input(reorderChecklistItemsSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const task = await ctx.db.task.findUnique({
+          where: { id: input.taskId, deletedAt: null },
+          select: {
+            createdById: true,
+            checklistItems: { select: { id: true } },
+          },
+        });
+
+        if (!task || task.createdById !== ctx.session.user.id) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "任务不存在或无权限修改",
+          });
+        }
+
+        const ownedIds = new Set(task.checklistItems.map((item) => item.id));
+        if (input.itemIds.some((itemId) => !ownedIds.has(itemId))) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "部分检查项不属于该任务",
+          });
+        }
+
+        await ctx.db.$transaction(
+          input.itemIds.map((itemId, index) =>
+            ctx.db.taskChecklistItem.update({
+              where: { id: itemId },
+              data: { sortOrder: index },
+            }),
+          ),
+        );
+
+        return { success: true, message: "检查项顺序已更新" };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "更新检查项顺序失败",
+          cause: error,
+        });
+      }
+    }),
+
   // 延期任务
   postponeTask: protectedProcedure
     .input(postponeTaskSchema)
@@ -2059,7 +2798,7 @@ export const taskRouter = createTRPCRouter({
       try {
         // 验证任务所有权和类型
         const existingTask = await ctx.db.task.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: {
             createdById: true,
             title: true,
@@ -2098,6 +2837,8 @@ export const taskRouter = createTRPCRouter({
           });
         }
 
+        const historyBefore = await getTaskHistoryStates(ctx.db, [id]);
+
         // 更新任务截止时间
         const task = await ctx.db.task.update({
           where: { id },
@@ -2144,18 +2885,14 @@ export const taskRouter = createTRPCRouter({
         const isAdvance = oldDateTime && newDateTime < oldDateTime;
         const actionText = isAdvance ? "提前" : "延期";
 
-        // 记录时间调整操作到状态历史
-        await ctx.db.taskStatusHistory.create({
-          data: {
-            fromStatus: existingTask.status,
-            toStatus: existingTask.status,
-            taskId: id,
-            changedById: ctx.session.user.id,
-            note:
-              note ??
-              `任务${actionText}至 ${dueDate.toLocaleDateString("zh-CN")}${dueTime ? ` ${dueTime}` : ""}`,
-          },
-        });
+        // 记录截止时间的变更和调整原因
+        await recordTaskFieldChanges(
+          ctx.db,
+          ctx.session.user.id,
+          historyBefore,
+          note ??
+            `任务${actionText}至 ${dueDate.toLocaleDateString("zh-CN")}${dueTime ? ` ${dueTime}` : ""}`,
+        );
 
         const oldDateText = existingTask.dueDate
           ? `${existingTask.dueDate.toLocaleDateString("zh-CN")}${existingTask.dueTime ? ` ${existingTask.dueTime}` : ""}`
@@ -2180,6 +2917,161 @@ export const taskRouter = createTRPCRouter({
       }
     }),
 
+  // 推迟任务（deferUntil 为 null 时立即显示）
+  defer: protectedProcedure
+    .input(deferTaskSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, deferUntil } = input;
+
+      try {
+        const existingTask = await ctx.db.task.findUnique({
+          where: { id, deletedAt: null },
+          select: { createdById: true, title: true },
+        });
+
+        if (!existingTask || existingTask.createdById !== ctx.session.user.id) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "任务不存在或无权限修改",
+          });
+        }
+
+        const historyBefore = await getTaskHistoryStates(ctx.db, [id]);
+
+        const task = await ctx.db.task.update({
+          where: { id },
+          data: { deferUntil },
+        });
+
+        await recordTaskFieldChanges(
+          ctx.db,
+          ctx.session.user.id,
+          historyBefore,
+        );
+
+        return {
+          success: true,
+          message: deferUntil
+            ? `任务 "${existingTask.title}" 已推迟到 ${deferUntil.toLocaleDateString("zh-CN")}`
+            : `任务 "${existingTask.title}" 已恢复显示`,
+          task,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "推迟任务失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 获取推迟中的任务（按重新出现的日期排序）
+  getDeferred: protectedProcedure
+    .input(getDeferredTasksSchema)
+    .query(async ({ ctx, input }) => {
+      const { limit, cursor } = input;
+
+      try {
+        const where = {
+          createdById: ctx.session.user.id,
+          deletedAt: null,
+          deferUntil: { gt: new Date() },
+        };
+
+        const [tasks, totalCount] = await Promise.all([
+          ctx.db.task.findMany({
+            where,
+            take: limit + 1,
+            cursor: cursor ? { id: cursor } : undefined,
+            orderBy: [{ deferUntil: "asc" }, { createdAt: "desc" }],
+            include: {
+              project: true,
+              tags: {
+                include: {
+                  tag: true,
+                },
+                orderBy: { sortOrder: "asc" },
+              },
+            },
+          }),
+          ctx.db.task.count({ where }),
+        ]);
+
+        let nextCursor: typeof cursor | undefined = undefined;
+        if (tasks.length > limit) {
+          const nextItem = tasks.pop();
+          nextCursor = nextItem!.id;
+        }
+
+        return {
+          tasks,
+          nextCursor,
+          totalCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取推迟中的任务失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 记录一次跟进（nextFollowUpAt 为 null 时结束跟进）
+  recordFollowUp: protectedProcedure
+    .input(recordFollowUpSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const task = await recordFollowUp(
+          ctx.db,
+          ctx.session.user.id,
+          input.id,
+          input.nextFollowUpAt,
+          input.note,
+        );
+
+        return {
+          success: true,
+          message: input.nextFollowUpAt
+            ? `已记录跟进，下次跟进日期 ${input.nextFollowUpAt.toLocaleDateString("zh-CN")}`
+            : "已记录跟进，不再安排跟进",
+          task,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "记录跟进失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 获取已到跟进日期、尚未处理的等待任务
+  getFollowUpReminders: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await ctx.db.task.findMany({
+        where: getFollowUpReminderWhere(ctx.session.user.id),
+        orderBy: [{ followUpAt: "asc" }, { createdAt: "desc" }],
+        include: {
+          project: true,
+          waitingFor: true,
+        },
+      });
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取跟进提醒失败",
+        cause: error,
+      });
+    }
+  }),
+
   // 获取每日活动数据
   getDailyActivity: protectedProcedure
     .input(getDailyActivitySchema)
@@ -2200,6 +3092,7 @@ export const taskRouter = createTRPCRouter({
           by: ["createdAt"],
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             createdAt: {
               gte: startDate,
               lte: endDate,
@@ -2215,6 +3108,7 @@ export const taskRouter = createTRPCRouter({
           by: ["completedAt"],
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             completedAt: {
               gte: startDate,
               lte: endDate,
@@ -2231,6 +3125,7 @@ export const taskRouter = createTRPCRouter({
           by: ["createdAt"],
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             createdAt: {
               gte: startDate,
               lte: endDate,
@@ -2246,6 +3141,7 @@ export const taskRouter = createTRPCRouter({
           by: ["createdAt"],
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             createdAt: {
               gte: startDate,
               lte: endDate,
@@ -2260,6 +3156,7 @@ export const taskRouter = createTRPCRouter({
         const allTasks = await ctx.db.task.findMany({
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             updatedAt: {
               gte: startDate,
               lte: endDate,
@@ -2289,6 +3186,7 @@ export const taskRouter = createTRPCRouter({
         const allNotes = await ctx.db.note.findMany({
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             updatedAt: {
               gte: startDate,
               lte: endDate,
@@ -2318,6 +3216,7 @@ export const taskRouter = createTRPCRouter({
         const allJournals = await ctx.db.journal.findMany({
           where: {
             createdById: ctx.session.user.id,
+            deletedAt: null,
             updatedAt: {
               gte: startDate,
               lte: endDate,
@@ -0,0 +1,157 @@
+/**
+ * 回收站路由
+ *
+ * 功能：
+ * 1. 按类型列出已删除的任务、笔记、日记和项目
+ * 2. 恢复、永久删除、清空回收站
+ */
+
+import { TRPCError } from "@trpc/server";
+
+import {
+  emptyTrashSchema,
+  getTrashItemsSchema,
+  TRASH_ITEM_TYPE_LABELS,
+  TRASH_ITEM_TYPES,
+  trashItemsSchema,
+} from "@/server/api/schemas/trash";
+import { getUserSettingsSection } from "@/server/api/schemas/user-settings";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import {
+  deleteFromTrash,
+  getTrashCounts,
+  getTrashItems,
+  restoreFromTrash,
+} from "@/server/services/trash";
+
+export const trashRouter = createTRPCRouter({
+  // 获取各类型数量和保留天数
+  getSummary: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const [counts, user] = await Promise.all([
+        getTrashCounts(ctx.db, ctx.session.user.id),
+        ctx.db.user.findUnique({
+          where: { id: ctx.session.user.id },
+          select: { settings: true },
+        }),
+      ]);
+
+      return {
+        counts,
+        retentionDays: getUserSettingsSection(user?.settings ?? null, "trash")
+          .retentionDays,
+      };
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取回收站信息失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 获取某类型的已删除内容
+  getItems: protectedProcedure
+    .input(getTrashItemsSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        const user = await ctx.db.user.findUnique({
+          where: { id: ctx.session.user.id },
+          select: { settings: true },
+        });
+
+        return await getTrashItems(
+          ctx.db,
+          ctx.session.user.id,
+          input,
+          getUserSettingsSection(user?.settings ?? null, "trash").retentionDays,
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取回收站列表失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 恢复
+  restore: protectedProcedure
+    .input(trashItemsSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const restoredCount = await ctx.db.$transaction((tx) =>
+          restoreFromTrash(tx, ctx.session.user.id, input.type, input.ids),
+        );
+
+        return {
+          success: true,
+          message: `已恢复 ${restoredCount} 个${TRASH_ITEM_TYPE_LABELS[input.type]}`,
+          restoredCount,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "恢复失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 永久删除
+  deletePermanently: protectedProcedure
+    .input(trashItemsSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const deletedCount = await deleteFromTrash(
+          ctx.db,
+          ctx.session.user.id,
+          input.type,
+          input.ids,
+        );
+
+        return {
+          success: true,
+          message: `已永久删除 ${deletedCount} 个${TRASH_ITEM_TYPE_LABELS[input.type]}`,
+          deletedCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "永久删除失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 清空回收站
+  empty: protectedProcedure
+    .input(emptyTrashSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const types = input.type ? [input.type] : TRASH_ITEM_TYPES;
+        const deletedCount = await ctx.db.$transaction(async (tx) => {
+          let count = 0;
+          for (const type of types) {
+            count += await deleteFromTrash(tx, ctx.session.user.id, type);
+          }
+          return count;
+        });
+
+        return {
+          success: true,
+          message: `已清空回收站，永久删除 ${deletedCount} 项`,
+          deletedCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "清空回收站失败",
+          cause: error,
+        });
+      }
+    }),
+});
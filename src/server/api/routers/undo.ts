@@ -0,0 +1,42 @@
+/**
+ * 撤销路由
+ *
+ * 功能：
+ * 1. 撤销批量更新、批量删除、项目批量操作和看板拖拽
+ */
+
+import { TRPCError } from "@trpc/server";
+
+import { undoOperationSchema } from "@/server/api/schemas/undo";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { undoOperation } from "@/server/services/undo";
+
+export const undoRouter = createTRPCRouter({
+  // 撤销指定操作或最近一次操作
+  undo: protectedProcedure
+    .input(undoOperationSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await ctx.db.$transaction((tx) =>
+          undoOperation(tx, ctx.session.user.id, input.operationId),
+        );
+
+        return {
+          success: true,
+          message: `已撤销：${result.description}`,
+          action: result.action,
+          affectedTypes: result.affectedTypes,
+          restoredFromTrash: result.restoredFromTrash,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "撤销失败",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -13,6 +13,7 @@ import {
   userSettingsSchema,
   updateUserSettingsSchema,
   getUserSettingsSchema,
+  getUserSettingsSection,
   type UserSettings,
 } from "@/server/api/schemas/user-settings";
 
@@ -33,6 +34,30 @@ const defaultSettings: UserSettings = {
     reminderTime: "21:00",
     taskDeadlineReminder: true,
     weeklyReview: false,
+    weeklyReviewDay: 5,
+  },
+  emailDigest: {
+    daily: false,
+    weekly: false,
+    weeklyDay: 1,
+    sendTime: "07:30",
+    timezone: "",
+  },
+  recurringTasks: {
+    generateAheadDays: 7,
+    missedOccurrences: "latest",
+  },
+  deferredTasks: {
+    promoteIdeas: true,
+  },
+  someday: {
+    reviewIntervalDays: 30,
+  },
+  projects: {
+    stalledAfterDays: 14,
+  },
+  trash: {
+    retentionDays: 30,
   },
   ui: {
     theme: "system",
@@ -42,6 +67,42 @@ const defaultSettings: UserSettings = {
   },
 };
 
+/**
+ * 解析用户设置 JSON，缺失或校验失败的分组使用默认设置
+ */
+function parseUserSettings(settings: string | null): UserSettings {
+  let role: UserSettings["role"] = defaultSettings.role;
+  if (settings) {
+    try {
+      const parsedRole = userSettingsSchema.shape.role.safeParse(
+        (JSON.parse(settings) as Record<string, unknown>).role,
+      );
+      if (parsedRole.success) {
+        role = parsedRole.data;
+      }
+    } catch (error) {
+      // 如果解析失败，使用默认设置
+      console.warn("解析用户设置失败，使用默认设置:", error);
+    }
+  }
+
+  return {
+    role,
+    autoJournalGeneration: getUserSettingsSection(
+      settings,
+      "autoJournalGeneration",
+    ),
+    notifications: getUserSettingsSection(settings, "notifications"),
+    emailDigest: getUserSettingsSection(settings, "emailDigest"),
+    recurringTasks: getUserSettingsSection(settings, "recurringTasks"),
+    deferredTasks: getUserSettingsSection(settings, "deferredTasks"),
+    someday: getUserSettingsSection(settings, "someday"),
+    projects: getUserSettingsSection(settings, "projects"),
+    trash: getUserSettingsSection(settings, "trash"),
+    ui: getUserSettingsSection(settings, "ui"),
+  };
+}
+
 export const userSettingsRouter = createTRPCRouter({
   // 获取用户设置
   get: protectedProcedure
@@ -61,31 +122,7 @@ export const userSettingsRouter = createTRPCRouter({
         }
 
         // 解析用户设置，如果不存在则使用默认设置
-        let userSettings: UserSettings = defaultSettings;
-        if (user.settings) {
-          try {
-            const parsedSettings = JSON.parse(user.settings);
-            // 合并默认设置和用户设置，确保所有字段都存在
-            userSettings = {
-              role: parsedSettings.role || defaultSettings.role,
-              autoJournalGeneration: {
-                ...defaultSettings.autoJournalGeneration,
-                ...parsedSettings.autoJournalGeneration,
-              },
-              notifications: {
-                ...defaultSettings.notifications,
-                ...parsedSettings.notifications,
-              },
-              ui: {
-                ...defaultSettings.ui,
-                ...parsedSettings.ui,
-              },
-            };
-          } catch (error) {
-            // 如果解析失败，使用默认设置
-            console.warn("解析用户设置失败，使用默认设置:", error);
-          }
-        }
+        const userSettings = parseUserSettings(user.settings);
 
         // 如果指定了类别，只返回该类别的设置
         if (input?.category) {
@@ -135,29 +172,7 @@ export const userSettingsRouter = createTRPCRouter({
         }
 
         // 合并现有设置和新设置
-        let currentSettings: UserSettings = defaultSettings;
-        if (user.settings) {
-          try {
-            const parsedSettings = JSON.parse(user.settings);
-            currentSettings = {
-              role: parsedSettings.role || defaultSettings.role,
-              autoJournalGeneration: {
-                ...defaultSettings.autoJournalGeneration,
-                ...parsedSettings.autoJournalGeneration,
-              },
-              notifications: {
-                ...defaultSettings.notifications,
-                ...parsedSettings.notifications,
-              },
-              ui: {
-                ...defaultSettings.ui,
-                ...parsedSettings.ui,
-              },
-            };
-          } catch (error) {
-            console.warn("解析现有用户设置失败，使用默认设置:", error);
-          }
-        }
+        const currentSettings = parseUserSettings(user.settings);
 
         // 合并新设置，确保role字段被保留
         const updatedSettings: UserSettings = {
@@ -178,6 +193,42 @@ export const userSettingsRouter = createTRPCRouter({
                 ...validatedSettings.notifications,
               }
             : currentSettings.notifications,
+          emailDigest: validatedSettings.emailDigest
+            ? {
+                ...currentSettings.emailDigest,
+                ...validatedSettings.emailDigest,
+              }
+            : currentSettings.emailDigest,
+          recurringTasks: validatedSettings.recurringTasks
+            ? {
+                ...currentSettings.recurringTasks,
+                ...validatedSettings.recurringTasks,
+              }
+            : currentSettings.recurringTasks,
+          deferredTasks: validatedSettings.deferredTasks
+            ? {
+                ...currentSettings.deferredTasks,
+                ...validatedSettings.deferredTasks,
+              }
+            : currentSettings.deferredTasks,
+          someday: validatedSettings.someday
+            ? {
+                ...currentSettings.someday,
+                ...validatedSettings.someday,
+              }
+            : currentSettings.someday,
+          projects: validatedSettings.projects
+            ? {
+                ...currentSettings.projects,
+                ...validatedSettings.projects,
+              }
+            : currentSettings.projects,
+          trash: validatedSettings.trash
+            ? {
+                ...currentSettings.trash,
+                ...validatedSettings.trash,
+              }
+            : currentSettings.trash,
           ui: validatedSettings.ui
             ? {
                 ...currentSettings.ui,
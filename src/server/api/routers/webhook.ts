@@ -0,0 +1,176 @@
+/**
+ * Webhook 管理路由
+ *
+ * 功能：
+ * 1. Webhook 的增删改查、轮换签名密钥
+ * 2. 发送测试事件
+ * 3. 查询投递记录、重新投递
+ */
+
+import { TRPCError } from "@trpc/server";
+
+import {
+  createWebhookSchema,
+  getWebhookDeliveriesSchema,
+  updateWebhookSchema,
+  webhookDeliveryIdSchema,
+  webhookIdSchema,
+} from "@/server/api/schemas/webhook";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  listWebhooks,
+  redeliverWebhook,
+  rotateWebhookSecret,
+  sendTestWebhook,
+  updateWebhook,
+} from "@/server/services/webhooks";
+
+export const webhookRouter = createTRPCRouter({
+  // 获取 Webhook 列表
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listWebhooks(ctx.db, ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取 Webhook 列表失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 创建 Webhook（返回完整签名密钥）
+  create: protectedProcedure
+    .input(createWebhookSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await createWebhook(ctx.db, ctx.session.user.id, input);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "创建 Webhook 失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 更新 Webhook
+  update: protectedProcedure
+    .input(updateWebhookSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await updateWebhook(ctx.db, ctx.session.user.id, input);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "更新 Webhook 失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 删除 Webhook（投递记录一并删除）
+  delete: protectedProcedure
+    .input(webhookIdSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await deleteWebhook(ctx.db, ctx.session.user.id, input.id);
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "删除 Webhook 失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 轮换签名密钥
+  rotateSecret: protectedProcedure
+    .input(webhookIdSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const secret = await rotateWebhookSecret(
+          ctx.db,
+          ctx.session.user.id,
+          input.id,
+        );
+        return { secret };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "轮换签名密钥失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 发送测试事件
+  sendTest: protectedProcedure
+    .input(webhookIdSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await sendTestWebhook(ctx.db, ctx.session.user.id, input.id);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "发送测试事件失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 获取投递记录
+  getDeliveries: protectedProcedure
+    .input(getWebhookDeliveriesSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        return await getWebhookDeliveries(ctx.db, ctx.session.user.id, input);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取投递记录失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 重新投递
+  redeliver: protectedProcedure
+    .input(webhookDeliveryIdSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await redeliverWebhook(ctx.db, ctx.session.user.id, input.id);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "重新投递失败",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -0,0 +1,231 @@
+/**
+ * 周回顾路由
+ *
+ * 功能：
+ * 1. 开始或继续进行中的周回顾
+ * 2. 获取各步骤需要回顾的事项和数量
+ * 3. 保存回顾进度，完成或放弃回顾
+ * 4. 查看历史回顾记录
+ */
+
+import { TRPCError } from "@trpc/server";
+
+import {
+  completeWeeklyReviewSchema,
+  discardWeeklyReviewSchema,
+  getWeeklyReviewHistorySchema,
+  getWeeklyReviewStepItemsSchema,
+  updateWeeklyReviewProgressSchema,
+} from "@/server/api/schemas/weekly-review";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import {
+  completeWeeklyReview,
+  findWeeklyReviewInProgress,
+  getOwnWeeklyReviewInProgress,
+  getWeeklyReviewCounts,
+  getWeeklyReviewStepItems,
+  parseWeeklyReviewCounts,
+  startWeeklyReview,
+} from "@/server/services/weekly-review";
+
+export const weeklyReviewRouter = createTRPCRouter({
+  // 获取进行中的回顾（没有时返回 null）
+  getCurrent: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await findWeeklyReviewInProgress(ctx.db, ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取进行中的回顾失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 开始回顾，已有进行中的回顾时继续它
+  start: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      const { review, resumed } = await startWeeklyReview(
+        ctx.db,
+        ctx.session.user.id,
+      );
+
+      return {
+        success: true,
+        message: resumed ? "继续上次未完成的回顾" : "周回顾已开始",
+        review,
+        resumed,
+      };
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "开始回顾失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 获取各步骤当前的事项数量
+  getCounts: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getWeeklyReviewCounts(ctx.db, ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "获取回顾统计失败",
+        cause: error,
+      });
+    }
+  }),
+
+  // 获取某一步骤需要回顾的事项
+  getStepItems: protectedProcedure
+    .input(getWeeklyReviewStepItemsSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        return await getWeeklyReviewStepItems(
+          ctx.db,
+          ctx.session.user.id,
+          input.step,
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取回顾事项失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 保存回顾进度
+  updateProgress: protectedProcedure
+    .input(updateWeeklyReviewProgressSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getOwnWeeklyReviewInProgress(
+          ctx.db,
+          ctx.session.user.id,
+          input.id,
+        );
+
+        return await ctx.db.weeklyReview.update({
+          where: { id: input.id },
+          data: {
+            currentStep: input.currentStep,
+            ...(input.completedSteps && {
+              completedSteps: Array.from(new Set(input.completedSteps)),
+            }),
+            ...(input.notes !== undefined && { notes: input.notes }),
+          },
+        });
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "保存回顾进度失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 完成回顾
+  complete: protectedProcedure
+    .input(completeWeeklyReviewSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const review = await ctx.db.$transaction((tx) =>
+          completeWeeklyReview(tx, ctx.session.user.id, input.id, input.notes),
+        );
+
+        return {
+          success: true,
+          message: "周回顾已完成",
+          review,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "完成回顾失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 放弃进行中的回顾
+  discard: protectedProcedure
+    .input(discardWeeklyReviewSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getOwnWeeklyReviewInProgress(
+          ctx.db,
+          ctx.session.user.id,
+          input.id,
+        );
+        await ctx.db.weeklyReview.delete({ where: { id: input.id } });
+
+        return {
+          success: true,
+          message: "已放弃这次回顾",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "放弃回顾失败",
+          cause: error,
+        });
+      }
+    }),
+
+  // 获取已完成的回顾记录（最近的在前）
+  getHistory: protectedProcedure
+    .input(getWeeklyReviewHistorySchema)
+    .query(async ({ ctx, input }) => {
+      const { limit, cursor } = input;
+
+      try {
+        const where = {
+          userId: ctx.session.user.id,
+          completedAt: { not: null },
+        };
+
+        const [reviews, totalCount] = await Promise.all([
+          ctx.db.weeklyReview.findMany({
+            where,
+            take: limit + 1,
+            cursor: cursor ? { id: cursor } : undefined,
+            orderBy: [{ completedAt: "desc" }, { id: "desc" }],
+          }),
+          ctx.db.weeklyReview.count({ where }),
+        ]);
+
+        let nextCursor: typeof cursor | undefined = undefined;
+        if (reviews.length > limit) {
+          const nextItem = reviews.pop();
+          nextCursor = nextItem!.id;
+        }
+
+        return {
+          reviews: reviews.map((review) => ({
+            ...review,
+            counts: parseWeeklyReviewCounts(review.counts),
+          })),
+          nextCursor,
+          totalCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "获取回顾记录失败",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+// 密码 Schema：至少 8 位，同时包含字母和数字
+export const passwordSchema = z
+  .string()
+  .min(PASSWORD_MIN_LENGTH, `密码至少需要 ${PASSWORD_MIN_LENGTH} 个字符`)
+  .max(128, "密码不能超过 128 个字符")
+  .regex(/[A-Za-z]/, "密码需要包含字母")
+  .regex(/\d/, "密码需要包含数字");
+
+// 邮箱 Schema
+export const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email("邮箱格式不正确");
+
+// 邮箱密码登录 Schema
+export const credentialsSignInSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, "请输入密码").max(128),
+});
+
+// 注册 Schema
+export const registerSchema = z.object({
+  name: z.string().trim().max(50, "昵称不能超过 50 个字符").optional(),
+  email: emailSchema,
+  password: passwordSchema,
+});
+
+// 设置/修改密码 Schema（尚未设置密码时不需要当前密码）
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().max(128).optional(),
+  newPassword: passwordSchema,
+});
+
+// 申请重置密码 Schema
+export const requestPasswordResetSchema = z.object({
+  email: emailSchema,
+});
+
+// 重置密码 Schema
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "重置链接无效"),
+  newPassword: passwordSchema,
+});
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// REST API 可访问的资源
+export const API_TOKEN_RESOURCES = [
+  "tasks",
+  "notes",
+  "journals",
+  "projects",
+  "tags",
+] as const;
+
+export type ApiTokenResource = (typeof API_TOKEN_RESOURCES)[number];
+
+// 权限范围：<资源>:read 只读，<资源>:write 读写
+export const API_TOKEN_SCOPES = API_TOKEN_RESOURCES.flatMap((resource) => [
+  `${resource}:read` as const,
+  `${resource}:write` as const,
+]);
+
+export type ApiTokenScope = `${ApiTokenResource}:${"read" | "write"}`;
+
+export const apiTokenScopeSchema = z.enum(
+  API_TOKEN_SCOPES as [ApiTokenScope, ...ApiTokenScope[]],
+);
+
+// 创建令牌 Schema
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "令牌名称不能为空").max(50, "令牌名称过长"),
+  scopes: z.array(apiTokenScopeSchema).min(1, "至少选择一个权限"),
+  // 有效天数，不填表示永不过期
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+// 令牌ID Schema
+export const apiTokenIdSchema = z.object({
+  id: z.string().cuid("无效的令牌ID"),
+});
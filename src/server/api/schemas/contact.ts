@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+// 联系人创建 Schema
+export const createContactSchema = z.object({
+  name: z.string().trim().min(1, "姓名不能为空").max(100, "姓名过长"),
+  email: z.string().email("邮箱格式无效").max(200).optional(),
+  phone: z.string().max(50, "电话过长").optional(),
+  note: z.string().max(500, "备注过长").optional(),
+});
+
+// 联系人更新 Schema（email/phone/note 传入 null 时清空）
+export const updateContactSchema = z.object({
+  id: z.string().cuid("无效的联系人ID"),
+  name: z
+    .string()
+    .trim()
+    .min(1, "姓名不能为空")
+    .max(100, "姓名过长")
+    .optional(),
+  email: z.string().email("邮箱格式无效").max(200).nullable().optional(),
+  phone: z.string().max(50, "电话过长").nullable().optional(),
+  note: z.string().max(500, "备注过长").nullable().optional(),
+});
+
+// 联系人ID Schema
+export const contactIdSchema = z.object({
+  id: z.string().cuid("无效的联系人ID"),
+});
+
+// 联系人查询 Schema
+export const getContactsSchema = z
+  .object({
+    search: z.string().max(100).optional(),
+    limit: z.number().min(1).max(200).default(100),
+  })
+  .optional()
+  .default({});
+
+export type CreateContactInput = z.infer<typeof createContactSchema>;
+export type UpdateContactInput = z.infer<typeof updateContactSchema>;
+export type GetContactsInput = z.infer<typeof getContactsSchema>;
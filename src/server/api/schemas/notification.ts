@@ -0,0 +1,24 @@
+import { type NotificationType } from "@prisma/client";
+import { z } from "zod";
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  TASK_DUE: "即将到期",
+  TASK_OVERDUE: "已逾期",
+  JOURNAL_REMINDER: "日记提醒",
+  WEEKLY_REVIEW: "周回顾提醒",
+  FOLLOW_UP: "等待跟进",
+};
+
+// 通知列表查询 Schema
+export const getNotificationsSchema = z.object({
+  limit: z.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+  unreadOnly: z.boolean().default(false),
+});
+
+// 通知ID Schema
+export const notificationIdSchema = z.object({
+  id: z.string().cuid("无效的通知ID"),
+});
+
+export type GetNotificationsInput = z.infer<typeof getNotificationsSchema>;
@@ -1,5 +1,23 @@
 import { z } from "zod";
 
+// 项目停滞的原因
+export const STALLED_PROJECT_REASONS = [
+  "noNextAction",
+  "allWaiting",
+  "inactive",
+] as const;
+
+export type StalledProjectReason = (typeof STALLED_PROJECT_REASONS)[number];
+
+export const STALLED_PROJECT_REASON_LABELS: Record<
+  StalledProjectReason,
+  string
+> = {
+  noNextAction: "缺少下一步",
+  allWaiting: "全部在等待",
+  inactive: "长期未更新",
+};
+
 // 项目创建 Schema
 export const createProjectSchema = z.object({
   name: z.string().min(1, "项目名称不能为空").max(100, "项目名称过长"),
@@ -31,6 +49,7 @@ export const getProjectsSchema = z.object({
   limit: z.number().min(1).max(100).default(50),
   cursor: z.string().cuid().optional(),
   search: z.string().max(100).optional(),
+  stalledOnly: z.boolean().default(false), // 只返回停滞的项目
 });
 
 // 项目ID Schema
@@ -51,11 +70,27 @@ export const getProjectStatsSchema = z.object({
   endDate: z.date().optional(),
 });
 
+// 停滞项目查询 Schema
+export const getStalledProjectsSchema = z
+  .object({
+    limit: z.number().min(1).max(100).default(20),
+  })
+  .optional()
+  .default({});
+
 // 项目任务查询 Schema
 export const getProjectTasksSchema = z.object({
   id: z.string().cuid("无效的项目ID"),
   status: z
-    .enum(["IDEA", "TODO", "IN_PROGRESS", "WAITING", "DONE", "ARCHIVED"])
+    .enum([
+      "IDEA",
+      "TODO",
+      "IN_PROGRESS",
+      "WAITING",
+      "SOMEDAY",
+      "DONE",
+      "ARCHIVED",
+    ])
     .optional(),
   priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional(),
   limit: z.number().min(1).max(100).default(50),
@@ -90,6 +125,7 @@ export type GetProjectsInput = z.infer<typeof getProjectsSchema>;
 export type ProjectIdInput = z.infer<typeof projectIdSchema>;
 export type ArchiveProjectInput = z.infer<typeof archiveProjectSchema>;
 export type GetProjectStatsInput = z.infer<typeof getProjectStatsSchema>;
+export type GetStalledProjectsInput = z.infer<typeof getStalledProjectsSchema>;
 export type GetProjectTasksInput = z.infer<typeof getProjectTasksSchema>;
 export type GetProjectNotesInput = z.infer<typeof getProjectNotesSchema>;
 export type BatchProjectOperationInput = z.infer<
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import {
+  Priority,
+  SmartListView,
+  TagType,
+  TaskStatus,
+  TaskType,
+} from "@prisma/client";
+
+// 高级搜索 Schema
+export const advancedSearchSchema = z.object({
+  // 基础搜索
+  query: z.string().optional(),
+
+  // 内容类型
+  searchIn: z
+    .array(z.enum(["tasks", "notes", "projects", "journals"]))
+    .default(["tasks"]),
+
+  // 任务特定筛选
+  taskStatus: z.array(z.nativeEnum(TaskStatus)).optional(),
+  taskType: z.array(z.nativeEnum(TaskType)).optional(),
+  priority: z.array(z.nativeEnum(Priority)).optional(),
+
+  // 标签筛选
+  tagIds: z.array(z.string().cuid()).optional(),
+  excludeTagIds: z.array(z.string().cuid()).optional(),
+  tagTypes: z.array(z.nativeEnum(TagType)).optional(),
+
+  // 项目筛选
+  projectIds: z.array(z.string().cuid()).optional(),
+  excludeProjectIds: z.array(z.string().cuid()).optional(),
+
+  // 日期筛选
+  createdAfter: z.date().optional(),
+  createdBefore: z.date().optional(),
+  updatedAfter: z.date().optional(),
+  updatedBefore: z.date().optional(),
+  dueAfter: z.date().optional(),
+  dueBefore: z.date().optional(),
+  // 相对日期条件的原始写法（如 due:<7d、created:today），搜索时按当天重新计算上面的日期，
+  // 保存的搜索不会固定在保存当天的日期
+  relativeDates: z
+    .object({
+      created: z.string().max(50).optional(),
+      updated: z.string().max(50).optional(),
+      due: z.string().max(50).optional(),
+    })
+    .optional(),
+
+  // 时间筛选
+  hasTimeTracking: z.boolean().optional(),
+  minTimeSpent: z.number().min(0).optional(), // 秒
+  maxTimeSpent: z.number().min(0).optional(), // 秒
+
+  // 状态筛选
+  isCompleted: z.boolean().optional(),
+  isOverdue: z.boolean().optional(),
+  isRecurring: z.boolean().optional(),
+  hasDescription: z.boolean().optional(),
+
+  // 排序
+  sortBy: z
+    .enum([
+      "relevance",
+      "createdAt",
+      "updatedAt",
+      "dueDate",
+      "priority",
+      "title",
+      "timeSpent",
+    ])
+    .default("relevance"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+
+  // 分页
+  limit: z.number().min(1).max(100).default(20),
+  cursor: z.string().cuid().optional(),
+});
+
+// 保存的搜索 Schema
+export const savedSearchSchema = z.object({
+  name: z.string().min(1, "搜索名称不能为空").max(100, "搜索名称过长"),
+  description: z.string().max(500, "描述过长").optional(),
+  searchParams: advancedSearchSchema,
+  isPublic: z.boolean().default(false),
+});
+
+export const searchIdSchema = z.object({
+  id: z.string().cuid("无效的搜索ID"),
+});
+
+// 搜索建议 Schema
+export const searchSuggestionsSchema = z.object({
+  query: z.string().min(1, "查询不能为空"),
+  type: z
+    .enum(["all", "tasks", "notes", "journals", "tags", "projects"])
+    .default("all"),
+  limit: z.number().min(1).max(20).default(10),
+});
+
+// 智能列表设置 Schema
+export const updateSmartListSchema = z.object({
+  id: z.string().cuid("无效的搜索ID"),
+  isPinned: z.boolean().optional(),
+  viewMode: z.nativeEnum(SmartListView).optional(),
+});
+
+// 共享设置 Schema
+export const setSavedSearchSharingSchema = z.object({
+  id: z.string().cuid("无效的搜索ID"),
+  isPublic: z.boolean(),
+});
+
+export const sharedSearchTokenSchema = z.object({
+  token: z.string().min(16, "无效的共享链接").max(64, "无效的共享链接"),
+});
+
+export const importSharedSearchSchema = sharedSearchTokenSchema.extend({
+  subscribe: z.boolean().default(false), // true：订阅，随共享者更新；false：导入独立副本
+});
+
+export type AdvancedSearchInput = z.input<typeof advancedSearchSchema>;
+export type AdvancedSearchParams = z.infer<typeof advancedSearchSchema>;
+
+type SearchDateKey =
+  | "createdAfter"
+  | "createdBefore"
+  | "updatedAfter"
+  | "updatedBefore"
+  | "dueAfter"
+  | "dueBefore";
+
+// 保存的搜索条件以 JSON 存储，读取后日期为 ISO 字符串
+export type StoredSearchParams = Omit<AdvancedSearchInput, SearchDateKey> &
+  Partial<Record<SearchDateKey, string>>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+// 将来/也许清单查询 Schema
+export const getSomedayTasksSchema = z.object({
+  search: z.string().max(200).optional(),
+  limit: z.number().min(1).max(100).default(50),
+  cursor: z.string().cuid().optional(),
+});
+
+// 转为待办 Schema（传入 projectId 时同时设置项目，null 表示移出项目）
+export const promoteSomedayTaskSchema = z.object({
+  id: z.string().cuid("无效的任务ID"),
+  projectId: z.string().cuid("无效的项目ID").nullable().optional(),
+});
+
+export type GetSomedayTasksInput = z.infer<typeof getSomedayTasksSchema>;
+export type PromoteSomedayTaskInput = z.infer<typeof promoteSomedayTaskSchema>;
@@ -1,6 +1,54 @@
 import { z } from "zod";
 import { Priority, TaskStatus, TaskType } from "@prisma/client";
 
+import { validateRRule } from "@/utils/recurrence";
+
+// 重复规则 Schema（type 为 custom 时使用 RRULE）
+export const recurringPatternSchema = z
+  .object({
+    type: z.enum(["daily", "weekly", "monthly", "yearly", "custom"]),
+    interval: z.number().min(1).max(365),
+    time: z
+      .string()
+      .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .optional(),
+    daysOfWeek: z.array(z.number().min(0).max(6)).optional(), // 0=Sunday, 6=Saturday
+    dayOfMonth: z.number().min(1).max(31).optional(),
+    weekOfMonth: z.number().int().min(-1).max(5).optional(), // -1=最后一个
+    rrule: z.string().max(500, "重复规则过长").optional(),
+    count: z.number().int().min(1).max(1000).optional(),
+    until: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式无效")
+      .optional(),
+    startDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式无效")
+      .optional(),
+    mode: z.enum(["fixed", "afterCompletion"]).default("fixed"),
+  })
+  .superRefine((pattern, ctx) => {
+    if (pattern.type === "custom") {
+      const error = pattern.rrule
+        ? validateRRule(pattern.rrule)
+        : "自定义重复需要填写 RRULE";
+      if (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["rrule"],
+          message: error,
+        });
+      }
+    }
+    if (pattern.count !== undefined && pattern.until) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["count"],
+        message: "重复次数和截止日期不能同时设置",
+      });
+    }
+  });
+
 // 基础任务创建 Schema
 export const createTaskSchema = z.object({
   title: z.string().min(1, "任务标题不能为空").max(200, "任务标题过长"),
@@ -13,8 +61,21 @@ export const createTaskSchema = z.object({
     .string()
     .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, "时间格式无效")
     .optional(),
+  deferUntil: z.date().optional(), // 推迟到该日期才出现在下一步行动
+  // 等待对象和跟进日期
+  waitingForId: z.string().cuid("无效的联系人ID").optional(),
+  delegatedAt: z.date().optional(),
+  followUpAt: z.date().optional(),
   projectId: z.string().cuid("无效的项目ID").optional(),
   tagIds: z.array(z.string().cuid("无效的标签ID")).optional(),
+  // 子任务相关字段
+  parentId: z.string().cuid("无效的父任务ID").optional(),
+  autoComplete: z.boolean().optional(),
+  // 前置任务（阻塞本任务的任务）
+  blockedByIds: z.array(z.string().cuid("无效的前置任务ID")).optional(),
+  // 重复设置
+  isRecurring: z.boolean().optional(),
+  recurringPattern: recurringPatternSchema.optional(),
 });
 
 // 任务更新 Schema
@@ -34,11 +95,23 @@ export const updateTaskSchema = z.object({
     .string()
     .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, "时间格式无效")
     .optional(),
+  deferUntil: z.date().nullable().optional(), // 传入 null 时取消推迟
   projectId: z.string().cuid("无效的项目ID").optional(),
   tagIds: z.array(z.string().cuid("无效的标签ID")).optional(),
   // 反馈和等待原因相关字段
   feedback: z.string().max(1000, "反馈内容过长").optional(),
   waitingReason: z.string().max(1000, "等待原因过长").optional(),
+  // 等待对象和跟进日期，传入 null 时清除
+  waitingForId: z.string().cuid("无效的联系人ID").nullable().optional(),
+  delegatedAt: z.date().nullable().optional(),
+  followUpAt: z.date().nullable().optional(),
+  // 子任务全部完成后是否自动完成
+  autoComplete: z.boolean().optional(),
+  // 前置任务（阻塞本任务的任务），传入时整体替换
+  blockedByIds: z.array(z.string().cuid("无效的前置任务ID")).optional(),
+  // 重复设置，recurringPattern 传入 null 时清除
+  isRecurring: z.boolean().optional(),
+  recurringPattern: recurringPatternSchema.nullable().optional(),
 });
 
 // 任务状态更新 Schema
@@ -67,6 +140,10 @@ export const getTasksSchema = z.object({
   completedBefore: z.date().optional(),
   dueAfter: z.date().optional(),
   dueBefore: z.date().optional(),
+  // 智能列表（保存的搜索）ID，与其他筛选条件同时生效
+  smartListId: z.string().cuid("无效的智能列表ID").optional(),
+  // 隐藏尚未到推迟日期的任务
+  hideDeferred: z.boolean().optional(),
 });
 
 // 任务ID Schema
@@ -78,18 +155,7 @@ export const taskIdSchema = z.object({
 export const setRecurringSchema = z.object({
   id: z.string().cuid("无效的任务ID"),
   isRecurring: z.boolean(),
-  recurringPattern: z
-    .object({
-      type: z.enum(["daily", "weekly", "monthly", "yearly", "custom"]),
-      interval: z.number().min(1).max(365),
-      time: z
-        .string()
-        .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
-        .optional(),
-      daysOfWeek: z.array(z.number().min(0).max(6)).optional(), // 0=Sunday, 6=Saturday
-      dayOfMonth: z.number().min(1).max(31).optional(),
-    })
-    .optional(),
+  recurringPattern: recurringPatternSchema.optional(),
 });
 
 // 时间追踪 Schema
@@ -161,11 +227,92 @@ export const postponeTaskSchema = z.object({
   note: z.string().max(500, "备注过长").optional(),
 });
 
+// 记录变更历史的任务字段
+export const TASK_HISTORY_FIELDS = [
+  "title",
+  "description",
+  "dueDate",
+  "dueTime",
+  "deferUntil",
+  "priority",
+  "project",
+  "waitingFor",
+  "followUpAt",
+  "tags",
+  "feedback",
+] as const;
+
+export type TaskHistoryField = (typeof TASK_HISTORY_FIELDS)[number];
+
+export const TASK_HISTORY_FIELD_LABELS: Record<TaskHistoryField, string> = {
+  title: "标题",
+  description: "描述",
+  dueDate: "截止日期",
+  dueTime: "截止时间",
+  deferUntil: "推迟到",
+  priority: "优先级",
+  project: "项目",
+  waitingFor: "等待对象",
+  followUpAt: "跟进日期",
+  tags: "标签",
+  feedback: "反馈",
+};
+
+// 检查项创建 Schema
+export const createChecklistItemSchema = z.object({
+  taskId: z.string().cuid("无效的任务ID"),
+  title: z.string().min(1, "检查项内容不能为空").max(200, "检查项内容过长"),
+});
+
+// 检查项更新 Schema
+export const updateChecklistItemSchema = z.object({
+  id: z.string().cuid("无效的检查项ID"),
+  title: z
+    .string()
+    .min(1, "检查项内容不能为空")
+    .max(200, "检查项内容过长")
+    .optional(),
+  isCompleted: z.boolean().optional(),
+});
+
+// 检查项ID Schema
+export const checklistItemIdSchema = z.object({
+  id: z.string().cuid("无效的检查项ID"),
+});
+
+// 检查项排序 Schema
+export const reorderChecklistItemsSchema = z.object({
+  taskId: z.string().cuid("无效的任务ID"),
+  itemIds: z.array(z.string().cuid("无效的检查项ID")).min(1),
+});
+
 // 按状态获取任务 Schema
 export const getTasksByStatusSchema = z.object({
   status: z.nativeEnum(TaskStatus, { required_error: "状态不能为空" }),
   limit: z.number().min(1).max(100).default(20),
   cursor: z.string().cuid().optional(),
+  includeSubtasks: z.boolean().default(false), // 是否包含子任务
+  smartListId: z.string().cuid("无效的智能列表ID").optional(), // 智能列表看板
+  includeDeferred: z.boolean().default(false), // 是否包含尚未到推迟日期的任务
+});
+
+// 推迟任务 Schema（deferUntil 为 null 时立即显示）
+export const deferTaskSchema = z.object({
+  id: z.string().cuid("无效的任务ID"),
+  deferUntil: z.date().nullable(),
+});
+
+// 记录跟进 Schema（nextFollowUpAt 为 null 时不再安排跟进）
+export const recordFollowUpSchema = z.object({
+  id: z.string().cuid("无效的任务ID"),
+  nextFollowUpAt: z.date().nullable(),
+  note: z.string().max(500, "备注过长").optional(),
+});
+
+// 推迟中的任务查询 Schema
+export const getDeferredTasksSchema = z.object({
+  limit: z.number().min(1).max(100).default(50),
+  cursor: z.string().cuid().optional(),
 });
 
 // 导出类型
@@ -183,4 +330,13 @@ export type GetTaskStatsInput = z.infer<typeof getTaskStatsSchema>;
 export type GetDailyActivityInput = z.infer<typeof getDailyActivitySchema>;
 export type BatchUpdateTasksInput = z.infer<typeof batchUpdateTasksSchema>;
 export type BatchDeleteTasksInput = z.infer<typeof batchDeleteTasksSchema>;
+export type DeferTaskInput = z.infer<typeof deferTaskSchema>;
+export type GetDeferredTasksInput = z.infer<typeof getDeferredTasksSchema>;
+export type RecordFollowUpInput = z.infer<typeof recordFollowUpSchema>;
 export type UpdateTaskFeedbackInput = z.infer<typeof updateTaskFeedbackSchema>;
+export type CreateChecklistItemInput = z.infer<
+  typeof createChecklistItemSchema
+>;
+export type UpdateChecklistItemInput = z.infer<
+  typeof updateChecklistItemSchema
+>;
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+// 回收站中的内容类型
+export const TRASH_ITEM_TYPES = ["task", "note", "journal", "project"] as const;
+
+export type TrashItemType = (typeof TRASH_ITEM_TYPES)[number];
+
+export const TRASH_ITEM_TYPE_LABELS: Record<TrashItemType, string> = {
+  task: "任务",
+  note: "笔记",
+  journal: "日记",
+  project: "项目",
+};
+
+// 回收站列表查询 Schema
+export const getTrashItemsSchema = z.object({
+  type: z.enum(TRASH_ITEM_TYPES),
+  limit: z.number().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+// 恢复 / 永久删除 Schema
+export const trashItemsSchema = z.object({
+  type: z.enum(TRASH_ITEM_TYPES),
+  ids: z
+    .array(z.string().cuid("无效的ID"))
+    .min(1, "至少选择一项")
+    .max(100, "一次最多操作100项"),
+});
+
+// 清空回收站 Schema（不指定类型时清空全部）
+export const emptyTrashSchema = z.object({
+  type: z.enum(TRASH_ITEM_TYPES).optional(),
+});
+
+export type GetTrashItemsInput = z.infer<typeof getTrashItemsSchema>;
@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// 撤销操作 Schema（不指定操作时撤销最近一次操作）
+export const undoOperationSchema = z.object({
+  operationId: z.string().cuid("无效的操作ID").optional(),
+});
+
+export type UndoOperationInput = z.infer<typeof undoOperationSchema>;
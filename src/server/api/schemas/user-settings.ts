@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { isValidTimeZone } from "@/utils/cron";
+
 // 用户设置 Schema
 export const userSettingsSchema = z.object({
   // 用户角色
@@ -31,6 +33,62 @@ export const userSettingsSchema = z.object({
         .default("21:00"), // 提醒时间
       taskDeadlineReminder: z.boolean().default(true), // 任务截止提醒
       weeklyReview: z.boolean().default(false), // 周回顾提醒
+      weeklyReviewDay: z.number().int().min(0).max(6).default(5), // 周回顾提醒在星期几（0为周日）
+    })
+    .optional(),
+
+  // 邮件摘要设置
+  emailDigest: z
+    .object({
+      daily: z.boolean().default(false), // 每日早间摘要
+      weekly: z.boolean().default(false), // 每周总结
+      weeklyDay: z.number().int().min(0).max(6).default(1), // 每周总结在星期几发送（0为周日）
+      sendTime: z
+        .string()
+        .regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+        .default("07:30"), // 发送时间
+      timezone: z
+        .string()
+        .refine((value) => value === "" || isValidTimeZone(value), {
+          message: "无效的时区",
+        })
+        .default(""), // 按该时区计算发送时间和"今天"，留空使用服务器时区
+    })
+    .optional(),
+
+  // 重复任务设置
+  recurringTasks: z
+    .object({
+      generateAheadDays: z.number().int().min(0).max(60).default(7), // 提前生成未来N天内的实例，0表示只在完成时生成
+      missedOccurrences: z.enum(["skip", "latest", "all"]).default("latest"), // 错过的实例：跳过/只补最近一次/全部补上
+    })
+    .optional(),
+
+  // 推迟任务设置
+  deferredTasks: z
+    .object({
+      promoteIdeas: z.boolean().default(true), // 到达推迟日期时把"想法"状态的任务转为待办
+    })
+    .optional(),
+
+  // 将来/也许设置
+  someday: z
+    .object({
+      reviewIntervalDays: z.number().int().min(1).max(365).default(30), // 每隔N天提醒回顾将来/也许清单
+    })
+    .optional(),
+
+  // 项目设置
+  projects: z
+    .object({
+      stalledAfterDays: z.number().int().min(1).max(365).default(14), // 项目超过N天没有任何更新视为停滞
+    })
+    .optional(),
+
+  // 回收站设置
+  trash: z
+    .object({
+      retentionDays: z.number().int().min(1).max(365).default(30), // 删除的内容保留N天后自动永久删除
     })
     .optional(),
 
@@ -56,7 +114,17 @@ export const updateUserSettingsSchema = z.object({
 export const getUserSettingsSchema = z
   .object({
     category: z
-      .enum(["autoJournalGeneration", "notifications", "ui"])
+      .enum([
+        "autoJournalGeneration",
+        "notifications",
+        "emailDigest",
+        "recurringTasks",
+        "deferredTasks",
+        "someday",
+        "projects",
+        "trash",
+        "ui",
+      ])
       .optional(),
   })
   .optional()
@@ -67,4 +135,39 @@ export type AutoJournalSettings = NonNullable<
   UserSettings["autoJournalGeneration"]
 >;
 export type NotificationSettings = NonNullable<UserSettings["notifications"]>;
+export type EmailDigestSettings = NonNullable<UserSettings["emailDigest"]>;
+export type RecurringTaskSettings = NonNullable<UserSettings["recurringTasks"]>;
+export type DeferredTaskSettings = NonNullable<UserSettings["deferredTasks"]>;
+export type SomedaySettings = NonNullable<UserSettings["someday"]>;
+export type ProjectSettings = NonNullable<UserSettings["projects"]>;
+export type TrashSettings = NonNullable<UserSettings["trash"]>;
 export type UISettings = NonNullable<UserSettings["ui"]>;
+
+// 可以单独读取的设置分组
+export type UserSettingsSection = Exclude<keyof UserSettings, "role">;
+
+/**
+ * 从用户设置 JSON 中读取某一分组的设置，缺失、格式错误或校验失败时使用默认值
+ */
+export function getUserSettingsSection<K extends UserSettingsSection>(
+  settings: string | null,
+  section: K,
+): NonNullable<UserSettings[K]> {
+  const schema = (
+    userSettingsSchema.shape[section] as z.ZodOptional<z.ZodTypeAny>
+  ).unwrap();
+
+  let rawSettings: unknown;
+  if (settings) {
+    try {
+      rawSettings = (JSON.parse(settings) as Record<string, unknown>)[section];
+    } catch {
+      // JSON 格式错误时使用默认设置
+    }
+  }
+
+  const parsed = schema.safeParse(rawSettings ?? {});
+  return (parsed.success ? parsed.data : schema.parse({})) as NonNullable<
+    UserSettings[K]
+  >;
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { WebhookDeliveryStatus } from "@prisma/client";
+
+// 可订阅的事件
+export const WEBHOOK_EVENTS = [
+  "task.created",
+  "task.status_changed",
+  "task.timer_started",
+  "task.timer_stopped",
+  "note.created",
+  "journal.auto_generated",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// 测试事件不需要订阅，只能通过"发送测试事件"触发
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "task.created": "任务创建",
+  "task.status_changed": "任务状态变更",
+  "task.timer_started": "开始计时",
+  "task.timer_stopped": "暂停/停止计时",
+  "note.created": "笔记创建",
+  "journal.auto_generated": "日记自动生成",
+};
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url("URL 格式不正确")
+  .max(500, "URL 过长")
+  .refine((url) => /^https?:\/\//i.test(url), "只支持 http 或 https 地址");
+
+// 创建 Webhook Schema
+export const createWebhookSchema = z.object({
+  name: z.string().trim().min(1, "名称不能为空").max(50, "名称过长"),
+  url: webhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "至少选择一个事件"),
+  enabled: z.boolean().default(true),
+});
+
+// 更新 Webhook Schema
+export const updateWebhookSchema = z.object({
+  id: z.string().cuid("无效的 Webhook ID"),
+  name: z.string().trim().min(1, "名称不能为空").max(50, "名称过长").optional(),
+  url: webhookUrlSchema.optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "至少选择一个事件").optional(),
+  enabled: z.boolean().optional(),
+});
+
+// Webhook ID Schema
+export const webhookIdSchema = z.object({
+  id: z.string().cuid("无效的 Webhook ID"),
+});
+
+// 投递记录查询 Schema
+export const getWebhookDeliveriesSchema = z.object({
+  endpointId: z.string().cuid("无效的 Webhook ID"),
+  status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+  limit: z.number().min(1).max(100).default(20),
+  cursor: z.string().cuid().optional(),
+});
+
+// 投递记录ID Schema
+export const webhookDeliveryIdSchema = z.object({
+  id: z.string().cuid("无效的投递记录ID"),
+});
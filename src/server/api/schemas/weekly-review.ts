@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+// 周回顾向导的步骤，按回顾顺序排列
+export const WEEKLY_REVIEW_STEPS = [
+  "inbox",
+  "nextActions",
+  "waiting",
+  "projects",
+  "someday",
+  "calendar",
+] as const;
+
+export type WeeklyReviewStep = (typeof WEEKLY_REVIEW_STEPS)[number];
+
+export const WEEKLY_REVIEW_STEP_LABELS: Record<WeeklyReviewStep, string> = {
+  inbox: "清空收集箱",
+  nextActions: "回顾下一步行动",
+  waiting: "回顾等待清单",
+  projects: "缺少下一步的项目",
+  someday: "回顾将来/也许",
+  calendar: "展望未来日程",
+};
+
+// 日程展望的天数
+export const WEEKLY_REVIEW_CALENDAR_DAYS = 14;
+
+// 获取某一步骤的待回顾事项 Schema
+export const getWeeklyReviewStepItemsSchema = z.object({
+  step: z.enum(WEEKLY_REVIEW_STEPS),
+});
+
+// 保存回顾进度 Schema
+export const updateWeeklyReviewProgressSchema = z.object({
+  id: z.string().cuid("无效的回顾ID"),
+  currentStep: z.enum(WEEKLY_REVIEW_STEPS),
+  completedSteps: z.array(z.enum(WEEKLY_REVIEW_STEPS)).optional(),
+  notes: z.string().max(5000, "回顾笔记不能超过5000个字符").optional(),
+});
+
+// 完成回顾 Schema
+export const completeWeeklyReviewSchema = z.object({
+  id: z.string().cuid("无效的回顾ID"),
+  notes: z.string().max(5000, "回顾笔记不能超过5000个字符").optional(),
+});
+
+// 放弃进行中的回顾 Schema
+export const discardWeeklyReviewSchema = z.object({
+  id: z.string().cuid("无效的回顾ID"),
+});
+
+// 历史回顾查询 Schema
+export const getWeeklyReviewHistorySchema = z.object({
+  limit: z.number().min(1).max(50).default(10),
+  cursor: z.string().cuid().optional(),
+});
+
+export type UpdateWeeklyReviewProgressInput = z.infer<
+  typeof updateWeeklyReviewProgressSchema
+>;
+export type CompleteWeeklyReviewInput = z.infer<
+  typeof completeWeeklyReviewSchema
+>;
+export type GetWeeklyReviewHistoryInput = z.infer<
+  typeof getWeeklyReviewHistorySchema
+>;
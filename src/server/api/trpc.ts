@@ -14,6 +14,7 @@ import superjson from "superjson";
 import { ZodError } from "zod";
 
 import { auth } from "@/server/auth";
+import { getClientIp } from "@/server/auth/session";
 import { db } from "@/server/db";
 import { createAdminMiddleware } from "@/server/api/middleware/admin";
 
@@ -27,6 +28,8 @@ import { createAdminMiddleware } from "@/server/api/middleware/admin";
 
 interface CreateContextOptions {
   session: Session | null;
+  // 客户端 IP，用于登录限流
+  ipAddress?: string | null;
 }
 
 /**
@@ -39,9 +42,10 @@ interface CreateContextOptions {
  *
  * @see https://create.t3.gg/en/usage/trpc#-serverapitrpcts
  */
-const createInnerTRPCContext = (opts: CreateContextOptions) => {
+export const createInnerTRPCContext = (opts: CreateContextOptions) => {
   return {
     session: opts.session,
+    ipAddress: opts.ipAddress ?? null,
     db,
   };
 };
@@ -60,6 +64,10 @@ export const createTRPCContext = async (opts: CreateNextContextOptions) => {
 
   return createInnerTRPCContext({
     session,
+    ipAddress: getClientIp(
+      req.headers["x-forwarded-for"],
+      req.socket.remoteAddress,
+    ),
   });
 };
 
@@ -88,8 +96,12 @@ const t = initTRPC
     },
   });
 
-// ❌ v10.0.0 不支持 createCallerFactory
-// export const createCallerFactory = t.createCallerFactory;
+/**
+ * Create a server-side caller.
+ *
+ * @see https://trpc.io/docs/server/server-side-calls
+ */
+export const createCallerFactory = t.createCallerFactory;
 
 /**
  * 3. ROUTER & PROCEDURE (THE IMPORTANT BIT)
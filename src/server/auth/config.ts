@@ -1,10 +1,9 @@
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { type DefaultSession, type NextAuthConfig } from "next-auth";
+import GitHubProvider from "next-auth/providers/github";
 
 import { db } from "@/server/db";
-import GitHubProvider from "next-auth/providers/github";
-import { createSystemTagsForUser } from "../../../prisma/seed-system-tags";
-import { createDefaultSearchesForUser } from "../../../prisma/seed-default-searches";
+import { initializeNewUser } from "@/server/services/user-onboarding";
 
 /**
  * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
@@ -35,6 +34,9 @@ declare module "next-auth" {
 export const authConfig = {
   providers: [
     GitHubProvider,
+    // 邮箱密码登录没有注册为 Credentials Provider：Auth.js 的 Credentials Provider 只能配合 JWT 会话使用，
+    // 而这里通过 PrismaAdapter 使用数据库会话（GitHub 和邮箱链接登录共用）。
+    // 密码登录由 /api/credentials/sign-in 校验后创建同样的数据库会话，见 @/server/auth/session
     /**
      * ...add more providers here.
      *
@@ -59,20 +61,8 @@ export const authConfig = {
   },
   events: {
     createUser: async ({ user }) => {
-      // 为新用户创建系统预定义标签
-      try {
-        await createSystemTagsForUser(user.id!);
-        console.log(`✅ 为新用户 ${user.email} 创建系统标签成功`);
-      } catch (error) {
-        console.error(`❌ 为新用户 ${user.email} 创建系统标签失败:`, error);
-      }
-
-      // 为新用户创建默认快速搜索
-      try {
-        await createDefaultSearchesForUser(user.id!);
-        console.log(`✅ 为新用户 ${user.email} 创建默认快速搜索成功`);
-      } catch (error) {
-        console.error(`❌ 为新用户 ${user.email} 创建默认快速搜索失败:`, error);
+      if (user.id) {
+        await initializeNewUser({ id: user.id, email: user.email });
       }
     },
   },
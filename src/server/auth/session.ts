@@ -0,0 +1,144 @@
+import { randomBytes } from "crypto";
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { type Prisma, type PrismaClient } from "@prisma/client";
+
+import { env } from "@/env";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// 会话有效期，与 NextAuth 默认的 maxAge 一致
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 为用户创建 NextAuth 数据库会话
+ * 用于邮箱链接、邮箱密码等不经过 OAuth 回调的登录方式
+ */
+export async function createUserSession(
+  db: DbClient,
+  userId: string,
+): Promise<{ sessionToken: string; expires: Date }> {
+  const sessionToken = randomBytes(32).toString("hex");
+  const expires = new Date(Date.now() + SESSION_MAX_AGE_MS);
+
+  await db.session.create({
+    data: { sessionToken, userId, expires },
+  });
+
+  return { sessionToken, expires };
+}
+
+/**
+ * 应用的访问地址，用于生成邮件中的链接
+ * 只使用配置的 NEXTAUTH_URL：Host、X-Forwarded-Proto 请求头可由客户端伪造，据此生成的链接会把令牌发往他人的站点；
+ * 未配置时返回 null，调用方应拒绝发送邮件
+ */
+export function getAppOrigin(): string | null {
+  return env.NEXTAUTH_URL ? new URL(env.NEXTAUTH_URL).origin : null;
+}
+
+/**
+ * 请求是否来自本站页面（Origin 与 NEXTAUTH_URL 一致，没有 Origin 时检查 Referer）
+ * 用于会创建会话的表单提交，防止其他站点提交攻击者自己的令牌，让用户登录到攻击者的账号
+ */
+export function isSameOriginRequest(req: NextApiRequest): boolean {
+  const appOrigin = getAppOrigin();
+  if (!appOrigin) {
+    return false;
+  }
+
+  const origin = req.headers.origin;
+  if (origin) {
+    return origin === appOrigin;
+  }
+
+  const referer = req.headers.referer;
+  if (!referer) {
+    return false;
+  }
+  try {
+    return new URL(referer).origin === appOrigin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 请求是否通过 HTTPS 访问（优先使用 NEXTAUTH_URL）
+ * 与 Auth.js 判断是否使用 __Secure- 前缀 Cookie 的方式一致
+ */
+function isSecureRequest(req: NextApiRequest): boolean {
+  const appOrigin = getAppOrigin();
+  if (appOrigin) {
+    return appOrigin.startsWith("https://");
+  }
+
+  const forwardedProto = req.headers["x-forwarded-proto"];
+  const protocol = Array.isArray(forwardedProto)
+    ? forwardedProto[0]
+    : forwardedProto?.split(",")[0];
+  return protocol === "https";
+}
+
+/**
+ * 获取客户端 IP
+ * 只有配置了 TRUSTED_PROXY_COUNT（应用前的反向代理层数）时才读取 X-Forwarded-For，
+ * 并取最外层代理追加的地址，客户端自行填写的部分会被忽略；否则使用连接的对端地址
+ */
+export function getClientIp(
+  forwardedFor: string | string[] | null | undefined,
+  remoteAddress: string | undefined,
+): string | null {
+  if (env.TRUSTED_PROXY_COUNT > 0 && forwardedFor) {
+    const addresses = (
+      Array.isArray(forwardedFor) ? forwardedFor.join(",") : forwardedFor
+    )
+      .split(",")
+      .map((address) => address.trim())
+      .filter(Boolean);
+    const address = addresses[addresses.length - env.TRUSTED_PROXY_COUNT];
+    if (address) {
+      return address;
+    }
+  }
+  return remoteAddress ?? null;
+}
+
+/**
+ * 写入 NextAuth 会话 Cookie
+ * 名称和属性与 Auth.js 默认配置一致：HTTPS 下使用 __Secure- 前缀
+ */
+export function setSessionCookie(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  session: { sessionToken: string; expires: Date },
+) {
+  const secure = isSecureRequest(req);
+  const name = `${secure ? "__Secure-" : ""}authjs.session-token`;
+
+  res.setHeader(
+    "Set-Cookie",
+    [
+      `${name}=${session.sessionToken}`,
+      "Path=/",
+      `Expires=${session.expires.toUTCString()}`,
+      "HttpOnly",
+      "SameSite=Lax",
+      ...(secure ? ["Secure"] : []),
+    ].join("; "),
+  );
+}
+
+/**
+ * 只允许站内相对路径作为登录后的跳转地址，防止开放重定向
+ */
+export function getSafeCallbackUrl(callbackUrl: unknown): string {
+  if (
+    typeof callbackUrl === "string" &&
+    callbackUrl.startsWith("/") &&
+    !callbackUrl.startsWith("//") &&
+    !callbackUrl.startsWith("/\\")
+  ) {
+    return callbackUrl;
+  }
+  return "/";
+}
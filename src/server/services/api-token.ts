@@ -0,0 +1,192 @@
+/**
+ * 个人 API 令牌服务
+ *
+ * 功能：
+ * 1. 生成令牌（明文只在创建时返回一次，数据库只保存 SHA-256 摘要）
+ * 2. 校验令牌并记录最近使用时间
+ * 3. 列出和撤销令牌
+ */
+
+import { createHash, randomBytes } from "crypto";
+import {
+  type ApiToken,
+  type Prisma,
+  type PrismaClient,
+  type User,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { type ApiTokenScope } from "@/server/api/schemas/api-token";
+import { serverLoggers } from "@/utils/logger-server";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// 令牌前缀，便于识别和密钥扫描
+const TOKEN_PREFIX = "gtd_";
+// 列表中展示的令牌开头字符数
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// 最近使用时间的最小更新间隔，避免每次请求都写库
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+// 每个用户最多持有的有效令牌数
+const MAX_ACTIVE_TOKENS_PER_USER = 20;
+
+export type ApiTokenSummary = Pick<
+  ApiToken,
+  | "id"
+  | "name"
+  | "prefix"
+  | "scopes"
+  | "lastUsedAt"
+  | "expiresAt"
+  | "revokedAt"
+  | "createdAt"
+>;
+
+export interface AuthenticatedApiToken {
+  tokenId: string;
+  scopes: string[];
+  user: Pick<User, "id" | "name" | "email" | "image">;
+}
+
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+const summarySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiTokenSelect;
+
+/**
+ * 创建令牌
+ * @returns 令牌信息和明文令牌（之后无法再次获取）
+ */
+export async function createApiToken(
+  db: DbClient,
+  userId: string,
+  params: { name: string; scopes: ApiTokenScope[]; expiresInDays?: number },
+): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+  const activeCount = await db.apiToken.count({
+    where: {
+      userId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+  });
+  if (activeCount >= MAX_ACTIVE_TOKENS_PER_USER) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `最多只能创建 ${MAX_ACTIVE_TOKENS_PER_USER} 个有效令牌，请先撤销不再使用的令牌`,
+    });
+  }
+
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const apiToken = await db.apiToken.create({
+    data: {
+      userId,
+      name: params.name,
+      tokenHash: hashApiToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: [...new Set(params.scopes)],
+      expiresAt: params.expiresInDays
+        ? new Date(Date.now() + params.expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+    },
+    select: summarySelect,
+  });
+
+  serverLoggers.auth.info(
+    { userId, tokenId: apiToken.id, scopes: apiToken.scopes },
+    "API 令牌已创建",
+  );
+  return { token, apiToken };
+}
+
+/**
+ * 列出用户的令牌（包括已撤销和已过期的）
+ */
+export async function listApiTokens(
+  db: DbClient,
+  userId: string,
+): Promise<ApiTokenSummary[]> {
+  return db.apiToken.findMany({
+    where: { userId },
+    select: summarySelect,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * 撤销令牌，撤销后立即失效
+ * @throws TRPCError NOT_FOUND 令牌不存在或不属于该用户
+ */
+export async function revokeApiToken(
+  db: DbClient,
+  userId: string,
+  tokenId: string,
+): Promise<void> {
+  const result = await db.apiToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "令牌不存在或已撤销",
+    });
+  }
+
+  serverLoggers.auth.info({ userId, tokenId }, "API 令牌已撤销");
+}
+
+/**
+ * 校验令牌
+ * @returns 令牌有效时返回所属用户和权限范围，否则返回 null
+ */
+export async function authenticateApiToken(
+  db: DbClient,
+  token: string,
+): Promise<AuthenticatedApiToken | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const apiToken = await db.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: { select: { id: true, name: true, email: true, image: true } },
+    },
+  });
+
+  const now = new Date();
+  if (
+    !apiToken ||
+    apiToken.revokedAt ||
+    (apiToken.expiresAt && apiToken.expiresAt <= now)
+  ) {
+    return null;
+  }
+
+  if (
+    !apiToken.lastUsedAt ||
+    now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    await db.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    tokenId: apiToken.id,
+    scopes: apiToken.scopes,
+    user: apiToken.user,
+  };
+}
@@ -0,0 +1,506 @@
+/**
+ * 邮箱密码认证服务
+ *
+ * 功能：
+ * 1. 邮箱注册（验证邮箱后才能使用密码登录）、邮箱密码登录，登录失败按"账号 + IP"和 IP 限流，
+ *    注册和申请重置密码等会发送邮件的请求共用该限流
+ * 2. 已登录用户设置或修改密码
+ * 3. 通过邮件重置密码
+ * 4. 清理过期的登录失败记录和重置令牌
+ */
+
+import { randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import { Prisma, type PrismaClient, type User } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { sendMail } from "@/server/services/mailer";
+import {
+  escapeHtml,
+  hashToken,
+  requestMagicLink,
+} from "@/server/services/magic-link";
+import { initializeNewUser } from "@/server/services/user-onboarding";
+import { serverLoggers } from "@/utils/logger-server";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const BCRYPT_ROUNDS = 12;
+// 统计登录失败次数的时间窗口
+export const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+// 时间窗口内同一账号在同一 IP 上/单个 IP 允许的最大失败次数
+// 账号维度的限制带上 IP，他人在别处反复输错密码不会锁住账号本人的登录
+const MAX_FAILURES_PER_ACCOUNT_AND_IP = 5;
+const MAX_FAILURES_PER_IP = 20;
+// 登录失败记录保留时间
+const LOGIN_ATTEMPT_RETENTION_MS = 24 * 60 * 60 * 1000;
+// 重置密码链接有效期
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+// 同一用户两次申请重置之间的最短间隔
+const PASSWORD_RESET_RESEND_INTERVAL_MS = 60 * 1000;
+// VerificationToken 中重置密码令牌的 identifier 前缀
+const PASSWORD_RESET_IDENTIFIER_PREFIX = "password-reset:";
+// 同一邮箱两次发送"邮箱已注册"通知之间的最短间隔
+const REGISTERED_NOTICE_RESEND_INTERVAL_MS = 60 * 60 * 1000;
+// LoginAttempt 中"邮箱已注册"通知发送记录的 identifier 前缀
+const REGISTERED_NOTICE_IDENTIFIER_PREFIX = "registered-notice:";
+
+// 账号不存在时用于比对的哈希，使两种情况的耗时一致，避免通过响应时间探测注册邮箱
+const DUMMY_PASSWORD_HASH =
+  "$2b$12$EYmA/nRFkfmKa1dc3JvZeOgEZGZR/OaO4OJXMh/SN2EcDrSWKgriS";
+
+export type PasswordSignInResult =
+  | { status: "success"; user: Pick<User, "id" | "name" | "email" | "image"> }
+  | { status: "invalid" }
+  | { status: "rate_limited" };
+
+export type PasswordResetRequestResult =
+  | { status: "sent" }
+  | { status: "unknown_user" }
+  | { status: "throttled" };
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export async function verifyPassword(
+  password: string,
+  passwordHash: string,
+): Promise<boolean> {
+  return bcrypt.compare(password, passwordHash);
+}
+
+async function findUserByEmail(db: DbClient, email: string) {
+  return db.user.findFirst({
+    where: { email: { equals: email, mode: "insensitive" } },
+  });
+}
+
+/**
+ * 检查账号在该 IP 上、或该 IP 在时间窗口内的失败次数是否超限
+ */
+async function isRateLimited(
+  db: DbClient,
+  identifier: string,
+  ipAddress: string | null,
+): Promise<boolean> {
+  const since = new Date(Date.now() - LOGIN_WINDOW_MS);
+
+  const [accountFailures, ipFailures] = await Promise.all([
+    db.loginAttempt.count({
+      where: { identifier, ipAddress, createdAt: { gt: since } },
+    }),
+    ipAddress
+      ? db.loginAttempt.count({
+          where: { ipAddress, createdAt: { gt: since } },
+        })
+      : Promise.resolve(0),
+  ]);
+
+  return (
+    accountFailures >= MAX_FAILURES_PER_ACCOUNT_AND_IP ||
+    ipFailures >= MAX_FAILURES_PER_IP
+  );
+}
+
+async function recordFailedAttempt(
+  db: DbClient,
+  identifier: string,
+  ipAddress: string | null,
+) {
+  await db.loginAttempt.create({
+    data: { identifier, ipAddress },
+  });
+}
+
+/**
+ * 注册、申请重置密码等会发送邮件的公开请求的限流
+ * 与登录失败共用计数：同一邮箱在同一 IP 上、或单个 IP 在时间窗口内的请求次数超限时返回 true，否则记录本次请求
+ */
+export async function isEmailRequestRateLimited(
+  db: DbClient,
+  params: {
+    action: "register" | "password-reset";
+    email: string;
+    ipAddress: string | null;
+  },
+): Promise<boolean> {
+  const identifier = `${params.action}:${params.email.trim().toLowerCase()}`;
+
+  if (await isRateLimited(db, identifier, params.ipAddress)) {
+    serverLoggers.auth.warn(
+      { action: params.action, ipAddress: params.ipAddress },
+      "发送邮件的请求过于频繁，已拒绝",
+    );
+    return true;
+  }
+
+  await recordFailedAttempt(db, identifier, params.ipAddress);
+  return false;
+}
+
+/**
+ * 邮箱密码登录
+ * 账号不存在、未设置密码和密码错误统一返回 invalid
+ */
+export async function authenticateWithPassword(
+  db: DbClient,
+  params: { email: string; password: string; ipAddress: string | null },
+): Promise<PasswordSignInResult> {
+  const identifier = params.email.trim().toLowerCase();
+
+  if (await isRateLimited(db, identifier, params.ipAddress)) {
+    serverLoggers.auth.warn(
+      { email: identifier, ipAddress: params.ipAddress },
+      "登录失败次数过多，已限制登录",
+    );
+    return { status: "rate_limited" };
+  }
+
+  const user = await findUserByEmail(db, identifier);
+  const valid = await verifyPassword(
+    params.password,
+    user?.password ?? DUMMY_PASSWORD_HASH,
+  );
+
+  // 注册后尚未验证邮箱的账号不能使用密码登录（通过 GitHub 登录创建的账号不受影响），
+  // 与密码错误返回相同结果，避免通过注册后登录探测邮箱是否已注册
+  const pendingVerification =
+    !!user &&
+    !user.emailVerified &&
+    (await db.account.count({ where: { userId: user.id } })) === 0;
+
+  if (!user?.password || !valid || pendingVerification) {
+    await recordFailedAttempt(db, identifier, params.ipAddress);
+    serverLoggers.auth.info(
+      { email: identifier, ipAddress: params.ipAddress },
+      "邮箱密码登录失败",
+    );
+    return { status: "invalid" };
+  }
+
+  // 登录成功后清除该账号的失败记录
+  await db.loginAttempt.deleteMany({ where: { identifier } });
+
+  serverLoggers.auth.info({ userId: user.id }, "邮箱密码登录成功");
+  return {
+    status: "success",
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      image: user.image,
+    },
+  };
+}
+
+/**
+ * 邮箱注册
+ * 为避免泄露邮箱是否注册，无论邮箱是否已被使用都返回相同的结果：
+ * - 新邮箱：创建账号并发送确认邮件，点击邮件中的链接验证邮箱后才能使用密码登录
+ * - 已注册的邮箱（包括通过 GitHub 登录创建的账号）：不修改账号，只通知邮箱所有者，同一邮箱每小时最多通知一次
+ */
+export async function registerUser(
+  db: DbClient,
+  params: { name?: string; email: string; password: string; baseUrl: string },
+): Promise<void> {
+  const email = params.email.trim().toLowerCase();
+  // 两种情况都计算哈希，使耗时一致
+  const passwordHash = await hashPassword(params.password);
+
+  const existing = await findUserByEmail(db, email);
+  if (existing?.email) {
+    await sendRegisteredNotice(db, existing, params.baseUrl);
+    return;
+  }
+
+  let user: Pick<User, "id" | "email">;
+  try {
+    user = await db.user.create({
+      data: {
+        name: params.name ?? email.split("@")[0],
+        email,
+        password: passwordHash,
+        passwordUpdatedAt: new Date(),
+      },
+      select: { id: true, email: true },
+    });
+  } catch (error) {
+    // 并发注册同一邮箱，按已注册处理
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      serverLoggers.auth.info({ email }, "邮箱注册：邮箱已注册");
+      return;
+    }
+    throw error;
+  }
+
+  await initializeNewUser(user);
+  await requestMagicLink(db, {
+    email,
+    baseUrl: params.baseUrl,
+    purpose: "register",
+  });
+
+  serverLoggers.auth.info({ userId: user.id }, "邮箱注册成功，等待验证邮箱");
+}
+
+/**
+ * 有人使用已注册的邮箱注册时通知邮箱所有者
+ * 距上次通知不足 REGISTERED_NOTICE_RESEND_INTERVAL_MS 时不再发送，避免被用来向他人邮箱反复发信
+ */
+async function sendRegisteredNotice(
+  db: DbClient,
+  user: Pick<User, "id" | "name" | "email">,
+  baseUrl: string,
+): Promise<void> {
+  const identifier = `${REGISTERED_NOTICE_IDENTIFIER_PREFIX}${user.id}`;
+  const recent = await db.loginAttempt.findFirst({
+    where: {
+      identifier,
+      createdAt: {
+        gt: new Date(Date.now() - REGISTERED_NOTICE_RESEND_INTERVAL_MS),
+      },
+    },
+  });
+  if (recent) {
+    serverLoggers.auth.info(
+      { userId: user.id },
+      "邮箱注册：邮箱已注册，近期已通知过所有者",
+    );
+    return;
+  }
+  await db.loginAttempt.create({ data: { identifier } });
+
+  const signInUrl = new URL("/", baseUrl).toString();
+
+  await sendMail({
+    to: user.email!,
+    subject: "你的邮箱已注册 Infer GTD",
+    text: [
+      `${user.name ?? "你好"}，`,
+      "",
+      "有人尝试使用你的邮箱注册 Infer GTD，但该邮箱已经注册过账号，账号信息没有任何变化。",
+      `如果是你本人，请直接登录；忘记密码时可以在登录页通过"忘记密码"重置：${signInUrl}`,
+      "",
+      "如果这不是你本人的操作，请忽略此邮件。",
+    ].join("\n"),
+    html: `<p>${escapeHtml(user.name ?? "你好")}，</p>
+<p>有人尝试使用你的邮箱注册 Infer GTD，但该邮箱已经注册过账号，账号信息没有任何变化。</p>
+<p>如果是你本人，请直接<a href="${escapeHtml(signInUrl)}">登录</a>；忘记密码时可以在登录页通过"忘记密码"重置。</p>
+<p style="color:#6b7280;font-size:12px">如果这不是你本人的操作，请忽略此邮件。</p>`,
+  });
+
+  serverLoggers.auth.info(
+    { userId: user.id },
+    "邮箱注册：邮箱已注册，已通知所有者",
+  );
+}
+
+/**
+ * 设置或修改密码
+ * 已设置过密码时必须提供正确的当前密码；通过 GitHub 登录且从未设置密码的用户可直接设置
+ */
+export async function changePassword(
+  db: DbClient,
+  userId: string,
+  params: { currentPassword?: string; newPassword: string },
+): Promise<void> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, password: true },
+  });
+
+  if (!user) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "用户不存在" });
+  }
+
+  if (user.password) {
+    const identifier = user.email?.toLowerCase() ?? user.id;
+
+    if (await isRateLimited(db, identifier, null)) {
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: "密码错误次数过多，请稍后再试",
+      });
+    }
+
+    if (
+      !params.currentPassword ||
+      !(await verifyPassword(params.currentPassword, user.password))
+    ) {
+      await recordFailedAttempt(db, identifier, null);
+      throw new TRPCError({ code: "BAD_REQUEST", message: "当前密码不正确" });
+    }
+  }
+
+  await db.user.update({
+    where: { id: userId },
+    data: {
+      password: await hashPassword(params.newPassword),
+      passwordUpdatedAt: new Date(),
+    },
+  });
+
+  serverLoggers.auth.info(
+    { userId, isFirstPassword: !user.password },
+    "用户密码已更新",
+  );
+}
+
+/**
+ * 发送重置密码邮件
+ * 为避免泄露邮箱是否注册，调用方对 unknown_user 和 throttled 都应返回与 sent 相同的提示
+ */
+export async function requestPasswordReset(
+  db: DbClient,
+  params: { email: string; baseUrl: string },
+): Promise<PasswordResetRequestResult> {
+  const email = params.email.trim().toLowerCase();
+  const user = await findUserByEmail(db, email);
+
+  if (!user?.email) {
+    serverLoggers.auth.info({ email }, "重置密码：邮箱未注册");
+    return { status: "unknown_user" };
+  }
+
+  const identifier = `${PASSWORD_RESET_IDENTIFIER_PREFIX}${user.id}`;
+  const latest = await db.verificationToken.findFirst({
+    where: { identifier },
+    orderBy: { expires: "desc" },
+  });
+  if (
+    latest &&
+    latest.expires.getTime() - PASSWORD_RESET_TTL_MS >
+      Date.now() - PASSWORD_RESET_RESEND_INTERVAL_MS
+  ) {
+    return { status: "throttled" };
+  }
+
+  // 新链接生效后旧链接作废
+  await db.verificationToken.deleteMany({ where: { identifier } });
+
+  const token = randomBytes(32).toString("base64url");
+  await db.verificationToken.create({
+    data: {
+      identifier,
+      token: hashToken(token),
+      expires: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+    },
+  });
+
+  const url = new URL("/settings/reset-password", params.baseUrl);
+  url.searchParams.set("token", token);
+
+  const minutes = PASSWORD_RESET_TTL_MS / 60000;
+  await sendMail({
+    to: user.email,
+    subject: "重置 Infer GTD 密码",
+    text: [
+      `${user.name ?? "你好"}，`,
+      "",
+      `点击以下链接重置密码（${minutes} 分钟内有效，只能使用一次）：`,
+      url.toString(),
+      "",
+      "如果这不是你本人的操作，请忽略此邮件，你的密码不会被修改。",
+    ].join("\n"),
+    html: `<p>${escapeHtml(user.name ?? "你好")}，</p>
+<p>点击下面的按钮重置密码（${minutes} 分钟内有效，只能使用一次）：</p>
+<p><a href="${escapeHtml(url.toString())}" style="display:inline-block;padding:10px 20px;background:#2563eb;color:#fff;border-radius:6px;text-decoration:none">重置密码</a></p>
+<p style="color:#6b7280;font-size:12px">如果这不是你本人的操作，请忽略此邮件，你的密码不会被修改。</p>`,
+  });
+
+  serverLoggers.auth.info({ userId: user.id }, "重置密码邮件已发送");
+  return { status: "sent" };
+}
+
+/**
+ * 通过邮件中的令牌重置密码
+ * 重置成功后注销该用户的所有会话并清除登录失败记录
+ * @throws TRPCError BAD_REQUEST 令牌无效或已过期
+ */
+export async function resetPassword(
+  db: DbClient,
+  params: { token: string; newPassword: string },
+): Promise<void> {
+  let record;
+  try {
+    // 删除即消费，并发请求只有一个能成功
+    record = await db.verificationToken.delete({
+      where: { token: hashToken(params.token) },
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      record = null;
+    } else {
+      throw error;
+    }
+  }
+
+  if (
+    !record?.identifier.startsWith(PASSWORD_RESET_IDENTIFIER_PREFIX) ||
+    record.expires <= new Date()
+  ) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "重置链接无效或已过期，请重新申请",
+    });
+  }
+
+  const userId = record.identifier.slice(
+    PASSWORD_RESET_IDENTIFIER_PREFIX.length,
+  );
+  const user = await db.user.update({
+    where: { id: userId },
+    data: {
+      password: await hashPassword(params.newPassword),
+      passwordUpdatedAt: new Date(),
+      // 能收到重置邮件即说明邮箱可用
+      emailVerified: new Date(),
+    },
+    select: { id: true, email: true },
+  });
+
+  await db.session.deleteMany({ where: { userId } });
+  if (user.email) {
+    await db.loginAttempt.deleteMany({
+      where: { identifier: user.email.toLowerCase() },
+    });
+  }
+
+  serverLoggers.auth.info({ userId }, "用户已通过邮件重置密码");
+}
+
+/**
+ * 删除过期的登录失败记录和重置密码令牌
+ */
+export async function purgeExpiredCredentialRecords(
+  db: DbClient,
+  now: Date = new Date(),
+): Promise<{ loginAttempts: number; resetTokens: number }> {
+  const [loginAttempts, resetTokens] = await Promise.all([
+    db.loginAttempt.deleteMany({
+      where: {
+        createdAt: {
+          lt: new Date(now.getTime() - LOGIN_ATTEMPT_RETENTION_MS),
+        },
+      },
+    }),
+    db.verificationToken.deleteMany({
+      where: {
+        identifier: { startsWith: PASSWORD_RESET_IDENTIFIER_PREFIX },
+        expires: { lt: now },
+      },
+    }),
+  ]);
+
+  return {
+    loginAttempts: loginAttempts.count,
+    resetTokens: resetTokens.count,
+  };
+}
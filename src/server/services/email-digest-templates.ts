@@ -0,0 +1,288 @@
+/**
+ * 邮件摘要模板
+ *
+ * 功能：
+ * 1. 每日摘要：今天到期、已逾期、需要跟进的任务和昨天完成的任务
+ * 2. 每周总结：本周完成情况、投入时间和接下来一周的安排
+ * 3. 每种摘要同时生成纯文本和 HTML 两种格式
+ */
+
+import { type Priority } from "@prisma/client";
+
+import { type MailMessage } from "@/server/services/mailer";
+import { escapeHtml } from "@/server/services/magic-link";
+
+export interface DigestTask {
+  id: string;
+  title: string;
+  priority: Priority | null;
+  dueDate: Date | null;
+  dueTime: string | null;
+  projectName: string | null;
+  waitingForName: string | null;
+  followUpDate: string | null; // YYYY-MM-DD，用户时区
+  totalTimeSpent: number;
+}
+
+export interface DailyDigestData {
+  userName: string | null;
+  date: string; // YYYY-MM-DD
+  dueToday: DigestTask[];
+  overdue: DigestTask[];
+  followUps: DigestTask[];
+  completedYesterday: DigestTask[];
+  timeSpentYesterday: number; // 昨天记录的总用时（秒）
+}
+
+export interface WeeklyDigestData {
+  userName: string | null;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  completed: DigestTask[];
+  completedCount: number;
+  timeSpent: number; // 本周记录的总用时（秒）
+  upcoming: DigestTask[];
+  overdueCount: number;
+  waitingCount: number;
+}
+
+type DigestMessage = Omit<MailMessage, "to">;
+
+interface DigestSection {
+  title: string;
+  emptyText: string;
+  tasks: DigestTask[];
+  describe: (task: DigestTask) => string;
+  more?: number; // 未列出的任务数量
+}
+
+const PRIORITY_LABELS: Record<Priority, string> = {
+  LOW: "低",
+  MEDIUM: "中",
+  HIGH: "高",
+  URGENT: "紧急",
+};
+
+const WEEKDAY_NAMES = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
+
+/**
+ * 格式化用时，如 "1小时20分钟"，不足1分钟返回空字符串
+ */
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}小时${minutes}分钟` : `${hours}小时`;
+  }
+  return minutes > 0 ? `${minutes}分钟` : "";
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split("T")[0]!;
+}
+
+function formatDateTitle(dateString: string): string {
+  const [year, month, day] = dateString.split("-").map(Number);
+  const weekday = new Date(Date.UTC(year!, month! - 1, day)).getUTCDay();
+  return `${month}月${day}日 ${WEEKDAY_NAMES[weekday]}`;
+}
+
+function describeMeta(task: DigestTask, parts: string[]): string {
+  if (task.priority) {
+    parts.unshift(`优先级${PRIORITY_LABELS[task.priority]}`);
+  }
+  if (task.projectName) {
+    parts.push(`项目：${task.projectName}`);
+  }
+  return parts.join(" · ");
+}
+
+const describeDue = (task: DigestTask) =>
+  describeMeta(task, task.dueTime ? [`${task.dueTime} 截止`] : []);
+
+const describeOverdue = (task: DigestTask) =>
+  describeMeta(task, task.dueDate ? [`截止于 ${formatDay(task.dueDate)}`] : []);
+
+const describeFollowUp = (task: DigestTask) =>
+  describeMeta(task, [
+    `等待：${task.waitingForName ?? "未指定"}`,
+    ...(task.followUpDate ? [`跟进日期 ${task.followUpDate}`] : []),
+  ]);
+
+const describeCompleted = (task: DigestTask) => {
+  const duration = formatDuration(task.totalTimeSpent);
+  return describeMeta(task, duration ? [`用时 ${duration}`] : []);
+};
+
+function taskUrl(baseUrl: string | undefined, task: DigestTask): string | null {
+  return baseUrl ? new URL(`/tasks?edit=${task.id}`, baseUrl).toString() : null;
+}
+
+function renderText(
+  heading: string,
+  summary: string,
+  sections: DigestSection[],
+  footer: string,
+): string {
+  const lines = [heading, "", summary];
+
+  for (const section of sections) {
+    lines.push("", `【${section.title}】`);
+    if (section.tasks.length === 0) {
+      lines.push(section.emptyText);
+      continue;
+    }
+    for (const task of section.tasks) {
+      const meta = section.describe(task);
+      lines.push(`- ${task.title}${meta ? `（${meta}）` : ""}`);
+    }
+    if (section.more) {
+      lines.push(`……还有 ${section.more} 项`);
+    }
+  }
+
+  lines.push("", footer);
+  return lines.join("\n");
+}
+
+function renderHtml(
+  heading: string,
+  summary: string,
+  sections: DigestSection[],
+  footer: string,
+  baseUrl: string | undefined,
+): string {
+  const body = sections
+    .map((section) => {
+      const items =
+        section.tasks.length === 0
+          ? `<p style="margin:4px 0;color:#9ca3af;font-size:14px">${escapeHtml(section.emptyText)}</p>`
+          : `<ul style="margin:4px 0;padding-left:20px">${section.tasks
+              .map((task) => {
+                const url = taskUrl(baseUrl, task);
+                const title = url
+                  ? `<a href="${escapeHtml(url)}" style="color:#2563eb;text-decoration:none">${escapeHtml(task.title)}</a>`
+                  : escapeHtml(task.title);
+                const meta = section.describe(task);
+                return `<li style="margin:4px 0;font-size:14px">${title}${
+                  meta
+                    ? ` <span style="color:#6b7280;font-size:12px">${escapeHtml(meta)}</span>`
+                    : ""
+                }</li>`;
+              })
+              .join("")}</ul>${
+              section.more
+                ? `<p style="margin:4px 0;color:#6b7280;font-size:12px">……还有 ${section.more} 项</p>`
+                : ""
+            }`;
+
+      return `<h3 style="margin:20px 0 4px;font-size:15px;color:#111827">${escapeHtml(section.title)}（${section.tasks.length + (section.more ?? 0)}）</h3>${items}`;
+    })
+    .join("\n");
+
+  return `<div style="max-width:600px;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#374151">
+<h2 style="margin:0 0 8px;font-size:20px;color:#111827">${escapeHtml(heading)}</h2>
+<p style="margin:0;font-size:14px">${escapeHtml(summary)}</p>
+${body}
+<p style="margin-top:24px;color:#6b7280;font-size:12px">${escapeHtml(footer)}</p>
+</div>`;
+}
+
+/**
+ * 每日摘要邮件
+ * @param baseUrl 应用地址，配置后任务标题会链接到任务详情
+ */
+export function renderDailyDigest(
+  data: DailyDigestData,
+  baseUrl?: string,
+): DigestMessage {
+  const heading = `${data.userName ?? "你好"}，早上好`;
+  const timeSpent = formatDuration(data.timeSpentYesterday);
+  const summary = [
+    `今天有 ${data.dueToday.length} 项任务到期`,
+    `${data.overdue.length} 项已逾期`,
+    `${data.followUps.length} 项需要跟进`,
+    `昨天完成了 ${data.completedYesterday.length} 项${timeSpent ? `，共记录用时 ${timeSpent}` : ""}`,
+  ].join("，");
+
+  const sections: DigestSection[] = [
+    {
+      title: "今天到期",
+      emptyText: "今天没有到期的任务",
+      tasks: data.dueToday,
+      describe: describeDue,
+    },
+    {
+      title: "已逾期",
+      emptyText: "没有逾期的任务",
+      tasks: data.overdue,
+      describe: describeOverdue,
+    },
+    {
+      title: "需要跟进",
+      emptyText: "没有需要跟进的等待事项",
+      tasks: data.followUps,
+      describe: describeFollowUp,
+    },
+    {
+      title: "昨天完成",
+      emptyText: "昨天没有完成的任务",
+      tasks: data.completedYesterday,
+      describe: describeCompleted,
+    },
+  ];
+
+  const footer = "你收到这封邮件是因为在 Infer GTD 的设置中开启了每日摘要。";
+
+  return {
+    subject: `今日摘要 · ${formatDateTitle(data.date)}`,
+    text: renderText(heading, summary, sections, footer),
+    html: renderHtml(heading, summary, sections, footer, baseUrl),
+  };
+}
+
+/**
+ * 每周总结邮件
+ * @param baseUrl 应用地址，配置后任务标题会链接到任务详情
+ */
+export function renderWeeklyDigest(
+  data: WeeklyDigestData,
+  baseUrl?: string,
+): DigestMessage {
+  const heading = `${data.userName ?? "你好"}，这是你本周的总结`;
+  const timeSpent = formatDuration(data.timeSpent);
+  const summary = [
+    `本周完成了 ${data.completedCount} 项任务${timeSpent ? `，共记录用时 ${timeSpent}` : ""}`,
+    `接下来一周有 ${data.upcoming.length} 项任务到期`,
+    `当前有 ${data.overdueCount} 项逾期、${data.waitingCount} 项在等待中`,
+  ].join("；");
+
+  const sections: DigestSection[] = [
+    {
+      title: "本周完成",
+      emptyText: "本周没有完成的任务",
+      tasks: data.completed,
+      describe: describeCompleted,
+      more: data.completedCount - data.completed.length,
+    },
+    {
+      title: "接下来一周到期",
+      emptyText: "接下来一周没有到期的任务",
+      tasks: data.upcoming,
+      describe: (task) =>
+        describeMeta(
+          task,
+          task.dueDate ? [`${formatDay(task.dueDate)} 截止`] : [],
+        ),
+    },
+  ];
+
+  const footer =
+    "你收到这封邮件是因为在 Infer GTD 的设置中开启了每周总结。别忘了抽空做一次周回顾。";
+
+  return {
+    subject: `每周总结 · ${formatDateTitle(data.startDate)} - ${formatDateTitle(data.endDate)}`,
+    text: renderText(heading, summary, sections, footer),
+    html: renderHtml(heading, summary, sections, footer, baseUrl),
+  };
+}
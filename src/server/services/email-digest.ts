@@ -0,0 +1,440 @@
+/**
+ * 邮件摘要服务
+ *
+ * 功能：
+ * 1. 每日早间摘要：今天到期、已逾期、需要跟进的任务和昨天完成的任务（含用时）
+ * 2. 每周总结：最近7天的完成情况、投入时间和接下来一周到期的任务
+ * 3. 按用户设置的时区和发送时间发送，每个用户每种摘要每天只发送一次
+ */
+
+import {
+  EmailDigestKind,
+  Prisma,
+  type PrismaClient,
+  TaskStatus,
+} from "@prisma/client";
+
+import { env } from "@/env";
+import { getUserSettingsSection } from "@/server/api/schemas/user-settings";
+import {
+  type DailyDigestData,
+  type DigestTask,
+  renderDailyDigest,
+  renderWeeklyDigest,
+  type WeeklyDigestData,
+} from "@/server/services/email-digest-templates";
+import { sendMail } from "@/server/services/mailer";
+import { serverLoggers } from "@/utils/logger-server";
+import { parseDateOnly } from "@/utils/recurrence";
+import {
+  getZonedDateTime,
+  getZonedStartOfDay,
+  isTimeOfDayDue,
+} from "@/utils/timezone";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 每个分组最多列出的任务数量
+const SECTION_LIMIT = 20;
+// 发送记录保留天数
+const DIGEST_LOG_RETENTION_DAYS = 30;
+
+// 摘要中视为"未完成"的任务状态
+const OPEN_STATUSES = {
+  notIn: [TaskStatus.DONE, TaskStatus.ARCHIVED, TaskStatus.SOMEDAY],
+};
+
+const digestTaskSelect = {
+  id: true,
+  title: true,
+  priority: true,
+  dueDate: true,
+  dueTime: true,
+  followUpAt: true,
+  totalTimeSpent: true,
+  project: { select: { name: true } },
+  waitingFor: { select: { name: true } },
+} satisfies Prisma.TaskSelect;
+
+type DigestTaskRow = Prisma.TaskGetPayload<{
+  select: typeof digestTaskSelect;
+}>;
+
+interface DigestUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+function toDigestTask(task: DigestTaskRow, timeZone?: string): DigestTask {
+  return {
+    id: task.id,
+    title: task.title,
+    priority: task.priority,
+    dueDate: task.dueDate,
+    dueTime: task.dueTime,
+    projectName: task.project?.name ?? null,
+    waitingForName: task.waitingFor?.name ?? null,
+    followUpDate: task.followUpAt
+      ? getZonedDateTime(task.followUpAt, timeZone).date
+      : null,
+    totalTimeSpent: task.totalTimeSpent,
+  };
+}
+
+/**
+ * 统计时间段内记录的用时（秒）
+ */
+async function sumTimeSpent(
+  db: DbClient,
+  userId: string,
+  start: Date,
+  end: Date,
+): Promise<number> {
+  const result = await db.timeEntry.aggregate({
+    where: {
+      createdById: userId,
+      startTime: { gte: start, lt: end },
+      duration: { not: null },
+    },
+    _sum: { duration: true },
+  });
+  return result._sum.duration ?? 0;
+}
+
+/**
+ * 收集每日摘要的内容
+ * @param date 用户所在时区的今天 (YYYY-MM-DD)
+ * @param timeZone 用户时区，用于计算"昨天"的起止时刻
+ */
+export async function buildDailyDigest(
+  db: DbClient,
+  user: { id: string; name: string | null },
+  date: string,
+  timeZone?: string,
+): Promise<DailyDigestData> {
+  // 截止日期按 UTC 日历日存储
+  const today = parseDateOnly(date)!;
+  const tomorrow = new Date(today.getTime() + DAY_MS);
+  const yesterday = new Date(today.getTime() - DAY_MS);
+
+  // 完成时间和跟进日期是真实时刻（跟进日期为所选日期在浏览器时区的零点），
+  // 按用户时区计算昨天、今天的范围
+  const startOfToday = getZonedStartOfDay(date, timeZone);
+  const startOfYesterday = getZonedStartOfDay(
+    yesterday.toISOString().split("T")[0]!,
+    timeZone,
+  );
+  const startOfTomorrow = getZonedStartOfDay(
+    tomorrow.toISOString().split("T")[0]!,
+    timeZone,
+  );
+
+  const baseWhere: Prisma.TaskWhereInput = {
+    createdById: user.id,
+    deletedAt: null,
+  };
+  const orderBy: Prisma.TaskOrderByWithRelationInput[] = [
+    { priority: { sort: "desc", nulls: "last" } },
+    { dueTime: { sort: "asc", nulls: "last" } },
+  ];
+
+  const [dueToday, overdue, followUps, completedYesterday, timeSpent] =
+    await Promise.all([
+      db.task.findMany({
+        where: { ...baseWhere, status: OPEN_STATUSES, dueDate: today },
+        select: digestTaskSelect,
+        orderBy,
+        take: SECTION_LIMIT,
+      }),
+      db.task.findMany({
+        where: { ...baseWhere, status: OPEN_STATUSES, dueDate: { lt: today } },
+        select: digestTaskSelect,
+        orderBy: [{ dueDate: "asc" }, ...orderBy],
+        take: SECTION_LIMIT,
+      }),
+      db.task.findMany({
+        where: {
+          ...baseWhere,
+          status: TaskStatus.WAITING,
+          followUpAt: { lt: startOfTomorrow },
+        },
+        select: digestTaskSelect,
+        orderBy: { followUpAt: "asc" },
+        take: SECTION_LIMIT,
+      }),
+      db.task.findMany({
+        where: {
+          ...baseWhere,
+          status: TaskStatus.DONE,
+          completedAt: { gte: startOfYesterday, lt: startOfToday },
+        },
+        select: digestTaskSelect,
+        orderBy: { completedAt: "asc" },
+        take: SECTION_LIMIT,
+      }),
+      sumTimeSpent(db, user.id, startOfYesterday, startOfToday),
+    ]);
+
+  return {
+    userName: user.name,
+    date,
+    dueToday: dueToday.map((task) => toDigestTask(task, timeZone)),
+    overdue: overdue.map((task) => toDigestTask(task, timeZone)),
+    followUps: followUps.map((task) => toDigestTask(task, timeZone)),
+    completedYesterday: completedYesterday.map((task) =>
+      toDigestTask(task, timeZone),
+    ),
+    timeSpentYesterday: timeSpent,
+  };
+}
+
+/**
+ * 收集每周总结的内容：截至今天之前的7天
+ * @param date 用户所在时区的今天 (YYYY-MM-DD)
+ * @param timeZone 用户时区，用于计算本周的起止时刻
+ */
+export async function buildWeeklyDigest(
+  db: DbClient,
+  user: { id: string; name: string | null },
+  date: string,
+  timeZone?: string,
+): Promise<WeeklyDigestData> {
+  const today = parseDateOnly(date)!;
+  const weekStartDate = new Date(today.getTime() - 7 * DAY_MS);
+  const weekEndDate = new Date(today.getTime() - DAY_MS);
+  const startDate = weekStartDate.toISOString().split("T")[0]!;
+  const endDate = weekEndDate.toISOString().split("T")[0]!;
+
+  const start = getZonedStartOfDay(startDate, timeZone);
+  const end = getZonedStartOfDay(date, timeZone);
+
+  const baseWhere: Prisma.TaskWhereInput = {
+    createdById: user.id,
+    deletedAt: null,
+  };
+  const completedWhere: Prisma.TaskWhereInput = {
+    ...baseWhere,
+    status: TaskStatus.DONE,
+    completedAt: { gte: start, lt: end },
+  };
+
+  const [
+    completed,
+    completedCount,
+    timeSpent,
+    upcoming,
+    overdueCount,
+    waitingCount,
+  ] = await Promise.all([
+    db.task.findMany({
+      where: completedWhere,
+      select: digestTaskSelect,
+      orderBy: { completedAt: "asc" },
+      take: SECTION_LIMIT,
+    }),
+    db.task.count({ where: completedWhere }),
+    sumTimeSpent(db, user.id, start, end),
+    db.task.findMany({
+      where: {
+        ...baseWhere,
+        status: OPEN_STATUSES,
+        dueDate: { gte: today, lt: new Date(today.getTime() + 7 * DAY_MS) },
+      },
+      select: digestTaskSelect,
+      orderBy: [
+        { dueDate: "asc" },
+        { dueTime: { sort: "asc", nulls: "last" } },
+      ],
+      take: SECTION_LIMIT,
+    }),
+    db.task.count({
+      where: { ...baseWhere, status: OPEN_STATUSES, dueDate: { lt: today } },
+    }),
+    db.task.count({ where: { ...baseWhere, status: TaskStatus.WAITING } }),
+  ]);
+
+  return {
+    userName: user.name,
+    startDate,
+    endDate,
+    completed: completed.map((task) => toDigestTask(task, timeZone)),
+    completedCount,
+    timeSpent,
+    upcoming: upcoming.map((task) => toDigestTask(task, timeZone)),
+    overdueCount,
+    waitingCount,
+  };
+}
+
+function isDailyDigestEmpty(data: DailyDigestData): boolean {
+  return (
+    data.dueToday.length === 0 &&
+    data.overdue.length === 0 &&
+    data.followUps.length === 0 &&
+    data.completedYesterday.length === 0
+  );
+}
+
+/**
+ * 占用某天的发送记录，返回记录 ID，已发送过时返回 null
+ */
+async function claimDigest(
+  db: DbClient,
+  userId: string,
+  kind: EmailDigestKind,
+  digestDate: string,
+): Promise<string | null> {
+  try {
+    const record = await db.emailDigest.create({
+      data: { userId, kind, digestDate },
+      select: { id: true },
+    });
+    return record.id;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 发送一封摘要邮件：先占用发送记录再发送，发送失败时释放记录以便下次重试
+ * @returns 是否发送了邮件
+ */
+async function deliverDigest(
+  db: DbClient,
+  user: DigestUser,
+  kind: EmailDigestKind,
+  digestDate: string,
+  message: { subject: string; text: string; html?: string },
+): Promise<boolean> {
+  const claimId = await claimDigest(db, user.id, kind, digestDate);
+  if (!claimId) {
+    return false;
+  }
+
+  try {
+    await sendMail({ to: user.email, ...message });
+  } catch (error) {
+    await db.emailDigest.delete({ where: { id: claimId } }).catch(() => {
+      // 记录已被删除时忽略
+    });
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * 为到了发送时间的用户发送每日摘要和每周总结
+ * - 每日摘要：没有任何内容时不发送
+ * - 每周总结：在设置的星期几发送
+ * @param ignoreTime 手动执行时忽略发送时间和星期（同一天仍只发送一次）
+ */
+export async function sendDueEmailDigests(
+  db: DbClient,
+  now = new Date(),
+  ignoreTime = false,
+): Promise<{ sent: number; failed: number; userIds: string[] }> {
+  const users = await db.user.findMany({
+    where: { email: { not: null }, settings: { not: null } },
+    select: { id: true, name: true, email: true, settings: true },
+  });
+
+  const baseUrl = env.NEXTAUTH_URL;
+  let sent = 0;
+  let failed = 0;
+  const userIds: string[] = [];
+
+  for (const { settings: rawSettings, ...user } of users) {
+    const settings = getUserSettingsSection(rawSettings, "emailDigest");
+    if ((!settings.daily && !settings.weekly) || !user.email) {
+      continue;
+    }
+
+    const timeZone = settings.timezone || env.SCHEDULER_TIMEZONE;
+    const local = getZonedDateTime(now, timeZone);
+    if (!ignoreTime && !isTimeOfDayDue(settings.sendTime, local)) {
+      continue;
+    }
+
+    const recipient: DigestUser = { ...user, email: user.email };
+    let userSent = 0;
+
+    try {
+      if (settings.daily) {
+        const data = await buildDailyDigest(db, user, local.date, timeZone);
+        if (
+          !isDailyDigestEmpty(data) &&
+          (await deliverDigest(
+            db,
+            recipient,
+            EmailDigestKind.DAILY,
+            local.date,
+            renderDailyDigest(data, baseUrl),
+          ))
+        ) {
+          userSent++;
+        }
+      }
+
+      if (
+        settings.weekly &&
+        (ignoreTime || local.weekday === settings.weeklyDay)
+      ) {
+        const data = await buildWeeklyDigest(db, user, local.date, timeZone);
+        if (
+          await deliverDigest(
+            db,
+            recipient,
+            EmailDigestKind.WEEKLY,
+            local.date,
+            renderWeeklyDigest(data, baseUrl),
+          )
+        ) {
+          userSent++;
+        }
+      }
+    } catch (error) {
+      failed++;
+      serverLoggers.mail.error(
+        {
+          userId: user.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "邮件摘要发送失败",
+      );
+    }
+
+    if (userSent > 0) {
+      sent += userSent;
+      userIds.push(user.id);
+    }
+  }
+
+  return { sent, failed, userIds };
+}
+
+/**
+ * 删除超过保留期的发送记录
+ */
+export async function purgeOldEmailDigests(
+  db: DbClient,
+  now = new Date(),
+): Promise<number> {
+  const result = await db.emailDigest.deleteMany({
+    where: {
+      sentAt: {
+        lt: new Date(now.getTime() - DIGEST_LOG_RETENTION_DAYS * DAY_MS),
+      },
+    },
+  });
+  return result.count;
+}
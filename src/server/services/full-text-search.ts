@@ -0,0 +1,241 @@
+/**
+ * 全文搜索服务
+ *
+ * 功能：
+ * 1. 基于 tsvector 表达式索引匹配任务、笔记、项目、日记，并按字段权重计算相关性
+ * 2. 中文等不以空格分词的文本回退到 pg_trgm 索引加速的关键词匹配
+ * 3. 按相关性分批取出匹配内容并交给调用方按其余筛选条件过滤
+ * 4. 按相关性排序搜索结果并附加高亮摘要
+ *
+ * 使用 'simple' 分词配置：不做词干化，避免对中英文混排的内容误判；
+ * 中文整句在 'simple' 下会被视为一个词，因此需要关键词匹配兜底
+ */
+
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+import {
+  buildSearchSnippet,
+  getSearchTerms,
+  type SearchSnippet,
+} from "@/utils/search-highlight";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type FullTextSearchTarget = "tasks" | "notes" | "projects" | "journals";
+
+type SearchWeight = "A" | "B" | "C";
+
+interface SearchField {
+  column: string;
+  weight: SearchWeight;
+}
+
+// 需与迁移 add_full_text_search 中的索引表达式保持一致，否则查询不会使用索引
+const SEARCH_TARGETS: Record<
+  FullTextSearchTarget,
+  { table: string; fields: SearchField[] }
+> = {
+  tasks: {
+    table: "Task",
+    fields: [
+      { column: "title", weight: "A" },
+      { column: "description", weight: "B" },
+      { column: "feedback", weight: "C" },
+    ],
+  },
+  notes: {
+    table: "Note",
+    fields: [
+      { column: "title", weight: "A" },
+      { column: "content", weight: "B" },
+    ],
+  },
+  projects: {
+    table: "Project",
+    fields: [
+      { column: "name", weight: "A" },
+      { column: "description", weight: "B" },
+    ],
+  },
+  journals: {
+    table: "Journal",
+    fields: [{ column: "content", weight: "A" }],
+  },
+};
+
+// 关键词命中字段时的加分，标题命中的结果排在正文命中之前
+const FIELD_MATCH_SCORES: Record<SearchWeight, number> = {
+  A: 1,
+  B: 0.4,
+  C: 0.2,
+};
+
+// 每批取出的匹配数量
+export const FULL_TEXT_BATCH_SIZE = 500;
+// 每种内容最多检查的匹配数量，超出时结果被截断
+export const FULL_TEXT_CANDIDATE_LIMIT = 5000;
+
+export interface FullTextMatches {
+  // 通过筛选的内容：id → 相关性得分，按相关性从高到低排列
+  ranks: Map<string, number>;
+  // 匹配的内容超过检查上限（默认 FULL_TEXT_CANDIDATE_LIMIT），排在后面的没有检查
+  truncated: boolean;
+}
+
+function buildDocumentSql(fields: SearchField[]) {
+  const vectors = fields.map(
+    (field) =>
+      `setweight(to_tsvector('simple', coalesce("${field.column}", '')), '${field.weight}')`,
+  );
+  return Prisma.raw(`(${vectors.join(" || ")})`);
+}
+
+function toLikePattern(term: string) {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+/**
+ * 按相关性取出一批匹配查询的内容
+ * 匹配条件：tsvector 全文匹配，或每个关键词都出现在某个字段中
+ * @returns 按相关性从高到低排列的 id → 相关性得分
+ */
+async function findFullTextMatchBatch(
+  db: DbClient,
+  userId: string,
+  target: FullTextSearchTarget,
+  query: string,
+  offset: number,
+): Promise<Map<string, number>> {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    return new Map();
+  }
+
+  const { table, fields } = SEARCH_TARGETS[target];
+  const document = buildDocumentSql(fields);
+  const tsQuery = Prisma.sql`websearch_to_tsquery('simple', ${query})`;
+
+  const termConditions = terms.map((term) => {
+    const pattern = toLikePattern(term);
+    return Prisma.sql`(${Prisma.join(
+      fields.map(
+        (field) =>
+          Prisma.sql`${Prisma.raw(`"${field.column}"`)} ILIKE ${pattern}`,
+      ),
+      " OR ",
+    )})`;
+  });
+
+  const fieldScores = fields.flatMap((field) =>
+    terms.map(
+      (term) =>
+        Prisma.sql`CASE WHEN ${Prisma.raw(`"${field.column}"`)} ILIKE ${toLikePattern(
+          term,
+        )} THEN ${Prisma.raw(String(FIELD_MATCH_SCORES[field.weight]))} ELSE 0 END`,
+    ),
+  );
+
+  const rows = await db.$queryRaw<Array<{ id: string; rank: number }>>`
+    SELECT
+      "id",
+      (ts_rank_cd(${document}, ${tsQuery}) + ${Prisma.join(fieldScores, " + ")})::float8 AS "rank"
+    FROM ${Prisma.raw(`"${table}"`)}
+    WHERE "createdById" = ${userId}
+      AND "deletedAt" IS NULL
+      AND (
+        ${document} @@ ${tsQuery}
+        OR (${Prisma.join(termConditions, " AND ")})
+      )
+    ORDER BY "rank" DESC, "id"
+    LIMIT ${FULL_TEXT_BATCH_SIZE}
+    OFFSET ${offset}
+  `;
+
+  return new Map(rows.map((row) => [row.id, Number(row.rank)]));
+}
+
+/**
+ * 查找匹配查询、并且符合其余筛选条件的内容
+ * 按相关性分批取出匹配的内容，由 filter 返回其中符合筛选条件的 id，
+ * 直到凑够 needed 条或检查完所有匹配，避免只在前几百条匹配中筛选而漏掉结果
+ * @param filter 返回符合筛选条件的 id
+ * @param needed 只需要相关性最高的前 needed 条时传入
+ * @param candidateLimit 最多检查的匹配数量
+ */
+export async function findFullTextMatches(
+  db: DbClient,
+  userId: string,
+  target: FullTextSearchTarget,
+  query: string,
+  filter: (ids: string[]) => Promise<string[]>,
+  needed = Infinity,
+  candidateLimit = FULL_TEXT_CANDIDATE_LIMIT,
+): Promise<FullTextMatches> {
+  const ranks = new Map<string, number>();
+
+  for (
+    let offset = 0;
+    offset < candidateLimit;
+    offset += FULL_TEXT_BATCH_SIZE
+  ) {
+    const batch = await findFullTextMatchBatch(
+      db,
+      userId,
+      target,
+      query,
+      offset,
+    );
+    if (batch.size === 0) {
+      return { ranks, truncated: false };
+    }
+
+    const kept = new Set(await filter(Array.from(batch.keys())));
+    for (const [id, rank] of batch) {
+      if (kept.has(id)) ranks.set(id, rank);
+    }
+
+    if (batch.size < FULL_TEXT_BATCH_SIZE || ranks.size >= needed) {
+      return { ranks, truncated: false };
+    }
+  }
+
+  return { ranks, truncated: true };
+}
+
+export type RankedSearchResult<T> = T & {
+  searchRank: number;
+  searchSnippet: SearchSnippet | null;
+};
+
+/**
+ * 为搜索结果附加相关性得分和高亮摘要
+ * 按相关性排序时，结果按得分重新排序后截取前 limit 条
+ */
+export function rankSearchResults<T extends { id: string }>(
+  items: T[],
+  ranks: Map<string, number>,
+  options: {
+    query: string;
+    limit: number;
+    sortByRelevance: boolean;
+    getSnippetFields: (
+      item: T,
+    ) => Array<[field: string, text: string | null | undefined]>;
+  },
+): Array<RankedSearchResult<T>> {
+  const ranked = items.map((item) => ({
+    ...item,
+    searchRank: ranks.get(item.id) ?? 0,
+    searchSnippet: buildSearchSnippet(
+      options.getSnippetFields(item),
+      options.query,
+    ),
+  }));
+
+  if (options.sortByRelevance) {
+    // Array.prototype.sort 是稳定排序，得分相同的结果保持原有顺序
+    ranked.sort((a, b) => b.searchRank - a.searchRank);
+  }
+
+  return ranked.slice(0, options.limit);
+}
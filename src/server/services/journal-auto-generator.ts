@@ -8,6 +8,7 @@
  */
 
 import { db } from "@/server/db";
+import { emitWebhookEvent } from "@/server/services/webhooks";
 import { serverLoggers } from "@/utils/logger-server";
 
 export interface AutoGenerateResult {
@@ -19,6 +20,7 @@ export interface AutoGenerateResult {
 
 /**
  * 为指定用户和日期自动生成日记
+ * 日记有新增内容时触发 journal.auto_generated Webhook 事件
  */
 export async function autoGenerateJournalForUser(
   userId: string,
@@ -26,6 +28,42 @@ export async function autoGenerateJournalForUser(
   forceGenerate = false, // 是否强制生成（忽略用户设置）
   templateName = "默认模板", // 模板名称
   respectIncludeSettings = true, // 是否遵循包含信息设置
+): Promise<AutoGenerateResult> {
+  const result = await generateJournalForUser(
+    userId,
+    targetDate,
+    forceGenerate,
+    templateName,
+    respectIncludeSettings,
+  );
+
+  if (result.success && result.journalId && result.tasksCount) {
+    const journal = await db.journal.findUnique({
+      where: { id: result.journalId },
+      select: { id: true, date: true, content: true, template: true },
+    });
+    if (journal) {
+      await emitWebhookEvent(db, userId, "journal.auto_generated", {
+        journal: {
+          id: journal.id,
+          date: journal.date.toISOString(),
+          content: journal.content,
+          template: journal.template,
+        },
+        tasksCount: result.tasksCount,
+      });
+    }
+  }
+
+  return result;
+}
+
+async function generateJournalForUser(
+  userId: string,
+  targetDate: Date,
+  forceGenerate: boolean,
+  templateName: string,
+  respectIncludeSettings: boolean,
 ): Promise<AutoGenerateResult> {
   try {
     // 添加调试日志
@@ -57,6 +95,7 @@ export async function autoGenerateJournalForUser(
     const completedTasks = await db.task.findMany({
       where: {
         createdById: userId,
+        deletedAt: null,
         completedAt: {
           gte: startOfDay,
           lte: endOfDay,
@@ -247,6 +286,14 @@ ${completedTasksList}
       },
     });
 
+    // 当天的日记被用户删除到回收站时不再自动生成
+    if (existingJournal?.deletedAt) {
+      return {
+        success: false,
+        message: "当天的日记在回收站中，跳过自动生成",
+      };
+    }
+
     let journal;
     if (existingJournal) {
       // 更新现有日记，在"今日完成"部分追加任务（去重）
@@ -0,0 +1,233 @@
+/**
+ * 邮箱链接登录服务
+ *
+ * 功能：
+ * 1. 为已有用户签发一次性、限时的登录令牌，并通过邮件发送登录链接
+ * 2. 校验并消费令牌，验证通过即视为邮箱已验证；
+ *    注册时设置的密码只有通过注册确认链接验证后才生效，通过登录链接验证时清除该密码
+ * 3. 按 IP 限制申请频率
+ * 4. 清理过期令牌和申请记录
+ *
+ * 数据库只保存令牌的 SHA-256 摘要，邮件中的原始令牌泄露前无法从数据库还原
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+import { sendMail } from "@/server/services/mailer";
+import { serverLoggers } from "@/utils/logger-server";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// 登录链接有效期
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+// 同一用户两次申请之间的最短间隔
+const MAGIC_LINK_RESEND_INTERVAL_MS = 60 * 1000;
+// 统计单个 IP 申请次数的时间窗口及窗口内允许的最大申请次数
+const MAGIC_LINK_IP_WINDOW_MS = 15 * 60 * 1000;
+const MAX_REQUESTS_PER_IP = 10;
+
+export type MagicLinkRequestResult =
+  | { status: "sent" }
+  | { status: "unknown_user" }
+  | { status: "throttled" };
+
+// 邮件用途：登录，或确认注册邮箱（点击后同样直接登录）
+export type MagicLinkPurpose = "sign-in" | "register";
+
+const MAGIC_LINK_MAIL_TEXT: Record<
+  MagicLinkPurpose,
+  { subject: string; action: string; button: string }
+> = {
+  "sign-in": {
+    subject: "登录 Infer GTD",
+    action: "登录 Infer GTD",
+    button: "登录 Infer GTD",
+  },
+  register: {
+    subject: "确认注册 Infer GTD",
+    action: "验证邮箱并完成注册",
+    button: "完成注册",
+  },
+};
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * 记录一次来自该 IP 的申请，并检查时间窗口内的申请次数是否超限
+ * 不区分邮箱是否注册，超限时直接拒绝不会泄露邮箱信息
+ */
+export async function isMagicLinkRequestRateLimited(
+  db: DbClient,
+  ipAddress: string | null,
+): Promise<boolean> {
+  if (!ipAddress) {
+    return false;
+  }
+
+  const since = new Date(Date.now() - MAGIC_LINK_IP_WINDOW_MS);
+  const count = await db.magicLinkRequest.count({
+    where: { ipAddress, createdAt: { gt: since } },
+  });
+  if (count >= MAX_REQUESTS_PER_IP) {
+    return true;
+  }
+
+  await db.magicLinkRequest.create({ data: { ipAddress } });
+  return false;
+}
+
+/**
+ * 为邮箱对应的用户发送登录链接
+ * 为避免泄露邮箱是否注册，调用方对 unknown_user 和 throttled 都应返回与 sent 相同的提示，
+ * 且不应等待本函数完成后再响应（只有已注册邮箱会等待发送邮件，耗时不同）
+ */
+export async function requestMagicLink(
+  db: DbClient,
+  params: {
+    email: string;
+    baseUrl: string;
+    callbackUrl?: string;
+    purpose?: MagicLinkPurpose;
+  },
+): Promise<MagicLinkRequestResult> {
+  const email = params.email.trim().toLowerCase();
+  const user = await db.user.findFirst({
+    where: { email: { equals: email, mode: "insensitive" } },
+    select: { id: true, email: true, name: true },
+  });
+
+  if (!user?.email) {
+    serverLoggers.auth.info({ email }, "邮箱链接登录：邮箱未注册");
+    return { status: "unknown_user" };
+  }
+
+  const recent = await db.magicLinkToken.findFirst({
+    where: {
+      userId: user.id,
+      createdAt: { gt: new Date(Date.now() - MAGIC_LINK_RESEND_INTERVAL_MS) },
+    },
+  });
+  if (recent) {
+    return { status: "throttled" };
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + MAGIC_LINK_TTL_MS);
+  const purpose = params.purpose ?? "sign-in";
+  await db.magicLinkToken.create({
+    data: { token: hashToken(token), userId: user.id, purpose, expiresAt },
+  });
+
+  // 链接指向确认页，由用户点击按钮提交后才消费令牌，避免邮件安全网关预取链接时提前用掉令牌
+  const url = new URL("/magic-link", params.baseUrl);
+  url.searchParams.set("token", token);
+  if (params.callbackUrl) {
+    url.searchParams.set("callbackUrl", params.callbackUrl);
+  }
+
+  const minutes = MAGIC_LINK_TTL_MS / 60000;
+  const mailText = MAGIC_LINK_MAIL_TEXT[purpose];
+  await sendMail({
+    to: user.email,
+    subject: mailText.subject,
+    text: [
+      `${user.name ?? "你好"}，`,
+      "",
+      `点击以下链接${mailText.action}（${minutes} 分钟内有效，只能使用一次）：`,
+      url.toString(),
+      "",
+      "如果这不是你本人的操作，请忽略此邮件。",
+    ].join("\n"),
+    html: `<p>${escapeHtml(user.name ?? "你好")}，</p>
+<p>点击下面的按钮${mailText.action}（${minutes} 分钟内有效，只能使用一次）：</p>
+<p><a href="${escapeHtml(url.toString())}" style="display:inline-block;padding:10px 20px;background:#2563eb;color:#fff;border-radius:6px;text-decoration:none">${mailText.button}</a></p>
+<p style="color:#6b7280;font-size:12px">如果这不是你本人的操作，请忽略此邮件。</p>`,
+  });
+
+  serverLoggers.auth.info({ userId: user.id }, "邮箱登录链接已发送");
+  return { status: "sent" };
+}
+
+/**
+ * 消费登录令牌（删除即消费，并发请求只有一个能成功）
+ * @returns 令牌有效时返回用户 ID，否则返回 null
+ */
+export async function consumeMagicLinkToken(
+  db: DbClient,
+  token: string,
+): Promise<string | null> {
+  try {
+    const record = await db.magicLinkToken.delete({
+      where: { token: hashToken(token) },
+    });
+
+    if (record.expiresAt <= new Date()) {
+      serverLoggers.auth.info({ userId: record.userId }, "登录链接已过期");
+      return null;
+    }
+
+    if (record.purpose !== "register") {
+      // 未验证邮箱前设置的密码来自注册表单，不能证明出自邮箱所有者（可能是他人抢注），
+      // 通过登录链接验证邮箱时一并清除，只有注册确认链接才能让该密码生效
+      await db.user.updateMany({
+        where: {
+          id: record.userId,
+          emailVerified: null,
+          password: { not: null },
+          accounts: { none: {} },
+        },
+        data: {
+          emailVerified: new Date(),
+          password: null,
+          passwordUpdatedAt: null,
+        },
+      });
+    }
+
+    await db.user.updateMany({
+      where: { id: record.userId, emailVerified: null },
+      data: { emailVerified: new Date() },
+    });
+
+    return record.userId;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 删除过期的登录令牌和超出限流时间窗口的申请记录
+ */
+export async function purgeExpiredMagicLinkRecords(
+  db: DbClient,
+  now: Date = new Date(),
+): Promise<{ tokens: number; requests: number }> {
+  const [tokens, requests] = await Promise.all([
+    db.magicLinkToken.deleteMany({
+      where: { expiresAt: { lt: now } },
+    }),
+    db.magicLinkRequest.deleteMany({
+      where: {
+        createdAt: { lt: new Date(now.getTime() - MAGIC_LINK_IP_WINDOW_MS) },
+      },
+    }),
+  ]);
+  return { tokens: tokens.count, requests: requests.count };
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,156 @@
+/**
+ * 邮件发送服务
+ *
+ * 功能：
+ * 1. 统一的邮件发送接口，按 MAIL_TRANSPORT 选择发送方式
+ * 2. smtp：通过 SMTP 服务器发送
+ * 3. file：写入 MAIL_FILE_DIR 目录，便于本地开发查看
+ * 4. console：只在日志中记录收件人和主题，不输出正文（正文中的登录、重置密码链接可直接登录）
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+import { env } from "@/env";
+import { serverLoggers } from "@/utils/logger-server";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * SMTP 发送
+ */
+function createSmtpTransport(): MailTransport {
+  if (!env.SMTP_HOST) {
+    throw new Error("MAIL_TRANSPORT=smtp 时必须配置 SMTP_HOST");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE === "true",
+    auth: env.SMTP_USER
+      ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+/**
+ * 写入本地文件（.eml 格式，可直接用邮件客户端打开）
+ */
+function createFileTransport(): MailTransport {
+  const directory = path.resolve(env.MAIL_FILE_DIR);
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+  });
+
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail(message);
+
+      await fs.mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${info.messageId.replace(/[^a-zA-Z0-9]/g, "")}.eml`;
+      const filePath = path.join(directory, fileName);
+      await fs.writeFile(filePath, info.message as Buffer);
+
+      serverLoggers.mail.info(
+        { to: message.to, subject: message.subject, filePath },
+        "邮件已写入本地文件",
+      );
+    },
+  };
+}
+
+/**
+ * 输出到日志，只记录收件人和主题
+ */
+function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      serverLoggers.mail.info(
+        {
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+        },
+        "邮件未实际发送",
+      );
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+function getTransport(): MailTransport {
+  if (!transport) {
+    switch (env.MAIL_TRANSPORT) {
+      case "smtp":
+        transport = createSmtpTransport();
+        break;
+      case "file":
+        transport = createFileTransport();
+        break;
+      default:
+        transport = createConsoleTransport();
+    }
+  }
+  return transport;
+}
+
+/**
+ * 替换发送方式（如接入第三方邮件服务）
+ */
+export function setMailTransport(customTransport: MailTransport) {
+  transport = customTransport;
+}
+
+/**
+ * 发送邮件
+ * @throws 发送失败时抛出错误，由调用方决定如何处理
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const currentTransport = getTransport();
+
+  try {
+    await currentTransport.send({ ...message, from: env.MAIL_FROM });
+    serverLoggers.mail.info(
+      {
+        transport: currentTransport.name,
+        to: message.to,
+        subject: message.subject,
+      },
+      "邮件发送成功",
+    );
+  } catch (error) {
+    serverLoggers.mail.error(
+      {
+        transport: currentTransport.name,
+        to: message.to,
+        subject: message.subject,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "邮件发送失败",
+    );
+    throw error;
+  }
+}
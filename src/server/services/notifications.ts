@@ -0,0 +1,269 @@
+/**
+ * 站内通知服务
+ *
+ * 功能：
+ * 1. 创建通知，同一提醒只会发送一次（按 dedupeKey 去重）
+ * 2. 为即将到期和刚刚逾期的任务生成截止提醒
+ * 3. 在用户设置的提醒时间发送日记提醒和周回顾提醒
+ * 4. 清理超过保留期的通知
+ *
+ * "今天"、提醒时间和星期都按 SCHEDULER_TIMEZONE（未设置时为进程时区）计算
+ */
+
+import {
+  NotificationType,
+  type Prisma,
+  type PrismaClient,
+  TaskStatus,
+} from "@prisma/client";
+
+import { env } from "@/env";
+import { getUserSettingsSection } from "@/server/api/schemas/user-settings";
+import { parseDateOnly } from "@/utils/recurrence";
+import {
+  getZonedDateTime,
+  getZonedStartOfDay,
+  isTimeOfDayDue,
+} from "@/utils/timezone";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 只为最近几天内逾期的任务发送逾期提醒，避免首次启用时涌入大量旧任务
+const OVERDUE_LOOKBACK_DAYS = 7;
+// 周回顾完成后这么多天内不再提醒
+const WEEKLY_REVIEW_QUIET_DAYS = 6;
+// 通知保留天数
+export const NOTIFICATION_RETENTION_DAYS = 90;
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  link?: string;
+  taskId?: string;
+  dedupeKey: string;
+}
+
+/**
+ * 批量创建通知，已发送过的提醒（相同 dedupeKey）会被跳过
+ * @returns 实际创建的通知数量
+ */
+export async function createNotifications(
+  db: DbClient,
+  notifications: NotificationInput[],
+): Promise<number> {
+  if (notifications.length === 0) {
+    return 0;
+  }
+
+  const result = await db.notification.createMany({
+    data: notifications,
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/**
+ * 调度时区的今天对应的 UTC 日历日，与任务截止日期的存储方式一致
+ */
+function getToday(now: Date): Date {
+  return parseDateOnly(getZonedDateTime(now, env.SCHEDULER_TIMEZONE).date)!;
+}
+
+/**
+ * 为开启了截止提醒的用户生成任务截止提醒
+ * 今天或明天到期的任务发送到期提醒，最近逾期的任务发送逾期提醒，每个截止日期各提醒一次
+ */
+export async function generateDeadlineNotifications(
+  db: DbClient,
+  now = new Date(),
+): Promise<{ created: number; userIds: string[] }> {
+  const today = getToday(now);
+  const dueUntil = new Date(today.getTime() + 2 * DAY_MS);
+  const overdueSince = new Date(
+    today.getTime() - OVERDUE_LOOKBACK_DAYS * DAY_MS,
+  );
+  const taskWhere: Prisma.TaskWhereInput = {
+    deletedAt: null,
+    status: { notIn: [TaskStatus.DONE, TaskStatus.ARCHIVED] },
+    dueDate: { gte: overdueSince, lt: dueUntil },
+  };
+
+  const users = await db.user.findMany({
+    where: { tasks: { some: taskWhere } },
+    select: { id: true, settings: true },
+  });
+
+  let created = 0;
+  const userIds: string[] = [];
+
+  for (const user of users) {
+    if (
+      !getUserSettingsSection(user.settings, "notifications")
+        .taskDeadlineReminder
+    ) {
+      continue;
+    }
+
+    const tasks = await db.task.findMany({
+      where: { ...taskWhere, createdById: user.id },
+      select: { id: true, title: true, dueDate: true, dueTime: true },
+    });
+
+    const notifications = tasks.map((task): NotificationInput => {
+      const dueDay = task.dueDate!.toISOString().split("T")[0]!;
+      const base = {
+        userId: user.id,
+        taskId: task.id,
+        link: `/tasks?edit=${task.id}`,
+      };
+
+      if (task.dueDate! < today) {
+        return {
+          ...base,
+          type: NotificationType.TASK_OVERDUE,
+          title: `任务已逾期：${task.title}`,
+          body: `截止日期为 ${dueDay}`,
+          dedupeKey: `task-overdue:${task.id}:${dueDay}`,
+        };
+      }
+
+      const dayLabel =
+        task.dueDate!.getTime() === today.getTime() ? "今天" : "明天";
+      return {
+        ...base,
+        type: NotificationType.TASK_DUE,
+        title: `任务${dayLabel}到期：${task.title}`,
+        body: `截止时间 ${dueDay}${task.dueTime ? ` ${task.dueTime}` : ""}`,
+        dedupeKey: `task-due:${task.id}:${dueDay}`,
+      };
+    });
+
+    const count = await createNotifications(db, notifications);
+    if (count > 0) {
+      created += count;
+      userIds.push(user.id);
+    }
+  }
+
+  return { created, userIds };
+}
+
+/**
+ * 在用户设置的提醒时间发送日记提醒和周回顾提醒
+ * - 日记提醒：当天还没有写日记时提醒
+ * - 周回顾提醒：在设置的星期几提醒，最近已完成过周回顾时不提醒
+ * @param ignoreTime 手动执行时忽略提醒时间
+ */
+export async function generateDailyReminders(
+  db: DbClient,
+  now = new Date(),
+  ignoreTime = false,
+): Promise<{ created: number; userIds: string[] }> {
+  const users = await db.user.findMany({
+    where: { settings: { not: null } },
+    select: { id: true, settings: true },
+  });
+
+  const timeZone = env.SCHEDULER_TIMEZONE;
+  const local = getZonedDateTime(now, timeZone);
+  const dateString = local.date;
+  const startOfDay = getZonedStartOfDay(dateString, timeZone);
+  const endOfDay = getZonedStartOfDay(
+    new Date(parseDateOnly(dateString)!.getTime() + DAY_MS)
+      .toISOString()
+      .split("T")[0]!,
+    timeZone,
+  );
+
+  let created = 0;
+  const userIds: string[] = [];
+
+  for (const user of users) {
+    const settings = getUserSettingsSection(user.settings, "notifications");
+    if (!settings.journalReminder && !settings.weeklyReview) {
+      continue;
+    }
+    if (!ignoreTime && !isTimeOfDayDue(settings.reminderTime, local)) {
+      continue;
+    }
+
+    const notifications: NotificationInput[] = [];
+
+    if (settings.journalReminder) {
+      const journal = await db.journal.findFirst({
+        where: {
+          createdById: user.id,
+          deletedAt: null,
+          date: { gte: startOfDay, lt: endOfDay },
+        },
+        select: { id: true },
+      });
+
+      if (!journal) {
+        notifications.push({
+          userId: user.id,
+          type: NotificationType.JOURNAL_REMINDER,
+          title: "今天还没有写日记",
+          body: "花几分钟记录今天的进展和想法吧",
+          link: `/journal/new?date=${dateString}`,
+          dedupeKey: `journal-reminder:${dateString}`,
+        });
+      }
+    }
+
+    if (
+      settings.weeklyReview &&
+      (ignoreTime || local.weekday === settings.weeklyReviewDay)
+    ) {
+      const recentReview = await db.weeklyReview.findFirst({
+        where: {
+          userId: user.id,
+          completedAt: {
+            gte: new Date(now.getTime() - WEEKLY_REVIEW_QUIET_DAYS * DAY_MS),
+          },
+        },
+        select: { id: true },
+      });
+
+      if (!recentReview) {
+        notifications.push({
+          userId: user.id,
+          type: NotificationType.WEEKLY_REVIEW,
+          title: "该做周回顾了",
+          body: "清空收集箱、检查项目和等待清单，为下周做好准备",
+          link: "/review/weekly",
+          dedupeKey: `weekly-review:${dateString}`,
+        });
+      }
+    }
+
+    const count = await createNotifications(db, notifications);
+    if (count > 0) {
+      created += count;
+      userIds.push(user.id);
+    }
+  }
+
+  return { created, userIds };
+}
+
+/**
+ * 删除超过保留期的通知
+ */
+export async function purgeOldNotifications(
+  db: DbClient,
+  now = new Date(),
+): Promise<number> {
+  const result = await db.notification.deleteMany({
+    where: {
+      createdAt: {
+        lt: new Date(now.getTime() - NOTIFICATION_RETENTION_DAYS * DAY_MS),
+      },
+    },
+  });
+  return result.count;
+}
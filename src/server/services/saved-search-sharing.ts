@@ -0,0 +1,347 @@
+/**
+ * 保存搜索共享服务
+ *
+ * 功能：
+ * 1. 公开保存的搜索并生成不可猜测的共享链接，取消公开时链接立即失效
+ * 2. 其他用户通过链接导入副本或订阅（在自己的数据上执行）
+ * 3. 所有者修改搜索条件后同步到订阅者
+ *
+ * 标签和项目在不同用户之间 ID 不同，导入和同步时按名称映射到订阅者自己的标签和项目，
+ * 订阅者没有的标签和项目会被忽略并提示
+ */
+
+import { randomBytes } from "crypto";
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+type SearchParamsRecord = Record<string, unknown>;
+
+const TAG_ID_KEYS = ["tagIds", "excludeTagIds"] as const;
+const PROJECT_ID_KEYS = ["projectIds", "excludeProjectIds"] as const;
+
+export function generateShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+function collectIds(params: SearchParamsRecord, keys: readonly string[]) {
+  const ids = new Set<string>();
+  for (const key of keys) {
+    const value = params[key];
+    if (Array.isArray(value)) {
+      value.forEach((id) => typeof id === "string" && ids.add(id));
+    }
+  }
+  return Array.from(ids);
+}
+
+/**
+ * 将搜索条件中的标签和项目 ID 按名称映射到另一个用户的数据
+ * @returns 映射后的条件，以及目标用户中不存在的标签/项目名称
+ */
+export async function remapSearchParams(
+  db: DbClient,
+  params: SearchParamsRecord,
+  fromUserId: string,
+  toUserId: string,
+): Promise<{ params: SearchParamsRecord; unmatched: string[] }> {
+  if (fromUserId === toUserId) {
+    return { params, unmatched: [] };
+  }
+
+  const tagIds = collectIds(params, TAG_ID_KEYS);
+  const projectIds = collectIds(params, PROJECT_ID_KEYS);
+
+  const [sourceTags, sourceProjects] = await Promise.all([
+    tagIds.length > 0
+      ? db.tag.findMany({
+          where: { id: { in: tagIds }, createdById: fromUserId },
+          select: { id: true, name: true },
+        })
+      : [],
+    projectIds.length > 0
+      ? db.project.findMany({
+          where: { id: { in: projectIds }, createdById: fromUserId },
+          select: { id: true, name: true },
+        })
+      : [],
+  ]);
+
+  const [targetTags, targetProjects] = await Promise.all([
+    sourceTags.length > 0
+      ? db.tag.findMany({
+          where: {
+            createdById: toUserId,
+            name: { in: sourceTags.map((tag) => tag.name) },
+          },
+          select: { id: true, name: true },
+        })
+      : [],
+    sourceProjects.length > 0
+      ? db.project.findMany({
+          where: {
+            createdById: toUserId,
+            name: { in: sourceProjects.map((project) => project.name) },
+            deletedAt: null,
+          },
+          select: { id: true, name: true },
+        })
+      : [],
+  ]);
+
+  const unmatched = new Set<string>();
+  const buildMapping = (
+    sources: Array<{ id: string; name: string }>,
+    targets: Array<{ id: string; name: string }>,
+    formatName: (name: string) => string,
+  ) => {
+    const targetIdByName = new Map(targets.map((item) => [item.name, item.id]));
+    const mapping = new Map<string, string>();
+    for (const source of sources) {
+      const targetId = targetIdByName.get(source.name);
+      if (targetId) {
+        mapping.set(source.id, targetId);
+      } else {
+        unmatched.add(formatName(source.name));
+      }
+    }
+    return mapping;
+  };
+
+  const tagMapping = buildMapping(sourceTags, targetTags, (name) => `#${name}`);
+  const projectMapping = buildMapping(
+    sourceProjects,
+    targetProjects,
+    (name) => `项目「${name}」`,
+  );
+
+  const remapped: SearchParamsRecord = { ...params };
+  const applyMapping = (
+    keys: readonly string[],
+    mapping: Map<string, string>,
+  ) => {
+    for (const key of keys) {
+      const value = remapped[key];
+      if (!Array.isArray(value)) continue;
+
+      const ids = value
+        .map((id) => (typeof id === "string" ? mapping.get(id) : undefined))
+        .filter((id): id is string => !!id);
+      if (ids.length > 0) {
+        remapped[key] = ids;
+      } else {
+        delete remapped[key];
+      }
+    }
+  };
+  applyMapping(TAG_ID_KEYS, tagMapping);
+  applyMapping(PROJECT_ID_KEYS, projectMapping);
+
+  return { params: remapped, unmatched: Array.from(unmatched) };
+}
+
+async function findSharedSearch(db: DbClient, token: string) {
+  const search = await db.savedSearch.findUnique({
+    where: { shareToken: token },
+    include: {
+      createdBy: { select: { name: true } },
+      _count: { select: { subscribers: true } },
+    },
+  });
+  if (!search?.isPublic) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "共享链接无效或已被取消共享",
+    });
+  }
+  return search;
+}
+
+/**
+ * 获取共享搜索的预览（搜索条件已映射到查看者自己的数据）
+ */
+export async function getSharedSearch(
+  db: DbClient,
+  viewerId: string,
+  token: string,
+) {
+  const search = await findSharedSearch(db, token);
+  const isOwner = search.createdById === viewerId;
+
+  const { params, unmatched } = await remapSearchParams(
+    db,
+    JSON.parse(search.searchParams) as SearchParamsRecord,
+    search.createdById,
+    viewerId,
+  );
+
+  const subscription = isOwner
+    ? null
+    : await db.savedSearch.findFirst({
+        where: { createdById: viewerId, sourceSearchId: search.id },
+        select: { id: true },
+      });
+
+  return {
+    name: search.name,
+    description: search.description,
+    ownerName: search.createdBy.name,
+    subscriberCount: search._count.subscribers,
+    isOwner,
+    subscriptionId: subscription?.id ?? null,
+    searchParams: params,
+    unmatched,
+  };
+}
+
+// 名称冲突时追加序号：周回顾 → 周回顾 (2)
+async function getAvailableName(db: DbClient, userId: string, name: string) {
+  const existing = await db.savedSearch.findMany({
+    where: { createdById: userId, name: { startsWith: name } },
+    select: { name: true },
+  });
+  const names = new Set(existing.map((item) => item.name));
+  if (!names.has(name)) {
+    return name;
+  }
+
+  let index = 2;
+  while (names.has(`${name} (${index})`)) {
+    index++;
+  }
+  return `${name} (${index})`;
+}
+
+/**
+ * 导入或订阅共享搜索
+ * 导入得到独立的副本；订阅的副本会随所有者修改搜索条件而更新
+ */
+export async function importSharedSearch(
+  db: DbClient,
+  userId: string,
+  input: { token: string; subscribe: boolean },
+) {
+  const search = await findSharedSearch(db, input.token);
+  if (search.createdById === userId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "不能导入自己共享的搜索",
+    });
+  }
+
+  if (input.subscribe) {
+    const existing = await db.savedSearch.findFirst({
+      where: { createdById: userId, sourceSearchId: search.id },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "已经订阅了该搜索",
+      });
+    }
+  }
+
+  const { params, unmatched } = await remapSearchParams(
+    db,
+    JSON.parse(search.searchParams) as SearchParamsRecord,
+    search.createdById,
+    userId,
+  );
+
+  const savedSearch = await db.savedSearch.create({
+    data: {
+      name: await getAvailableName(db, userId, search.name),
+      description: search.description,
+      searchParams: JSON.stringify(params),
+      createdById: userId,
+      sourceSearchId: input.subscribe ? search.id : null,
+    },
+  });
+
+  return { savedSearch, unmatched };
+}
+
+/**
+ * 公开或取消公开保存的搜索
+ * 取消公开时共享链接失效，已订阅的副本转为订阅者自己的搜索
+ */
+export async function setSavedSearchSharing(
+  db: DbClient,
+  userId: string,
+  input: { id: string; isPublic: boolean },
+) {
+  const search = await db.savedSearch.findFirst({
+    where: { id: input.id, createdById: userId },
+    select: { shareToken: true, sourceSearchId: true },
+  });
+  if (!search) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "保存的搜索不存在或无权限操作",
+    });
+  }
+  if (input.isPublic && search.sourceSearchId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "订阅的搜索不能再次共享",
+    });
+  }
+
+  if (!input.isPublic) {
+    await db.savedSearch.updateMany({
+      where: { sourceSearchId: input.id },
+      data: { sourceSearchId: null },
+    });
+  }
+
+  return db.savedSearch.update({
+    where: { id: input.id },
+    data: {
+      isPublic: input.isPublic,
+      shareToken: input.isPublic
+        ? (search.shareToken ?? generateShareToken())
+        : null,
+    },
+    select: { id: true, isPublic: true, shareToken: true },
+  });
+}
+
+/**
+ * 将共享搜索的最新条件同步到所有订阅者
+ * @returns 同步的订阅数量
+ */
+export async function syncSubscribedSearches(
+  db: DbClient,
+  sourceSearchId: string,
+): Promise<number> {
+  const source = await db.savedSearch.findUnique({
+    where: { id: sourceSearchId },
+    select: {
+      isPublic: true,
+      searchParams: true,
+      createdById: true,
+      subscribers: { select: { id: true, createdById: true } },
+    },
+  });
+  if (!source?.isPublic || source.subscribers.length === 0) {
+    return 0;
+  }
+
+  const sourceParams = JSON.parse(source.searchParams) as SearchParamsRecord;
+  for (const subscriber of source.subscribers) {
+    const { params } = await remapSearchParams(
+      db,
+      sourceParams,
+      source.createdById,
+      subscriber.createdById,
+    );
+    await db.savedSearch.update({
+      where: { id: subscriber.id },
+      data: { searchParams: JSON.stringify(params) },
+    });
+  }
+
+  return source.subscribers.length;
+}
@@ -0,0 +1,194 @@
+/**
+ * 定时任务执行记录与任务状态持久化
+ *
+ * 功能：
+ * 1. 记录每次执行的开始、耗时、结果、错误和涉及的用户（没有处理任何内容的定时执行记为空闲，
+ *    连续的空闲执行合并为一条记录）
+ * 2. 保存管理员对任务的启用/暂停/cron 修改，重启后恢复
+ * 3. 清理过期的执行记录
+ */
+
+import {
+  type Prisma,
+  type PrismaClient,
+  type SchedulerJobState,
+  SchedulerRunStatus,
+  type SchedulerRunTrigger,
+} from "@prisma/client";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface JobRunOutcome {
+  status: SchedulerRunStatus;
+  startedAt: Date;
+  error?: string;
+  affectedUserIds?: string[];
+  summary?: Record<string, unknown>;
+}
+
+export type JobStateChanges = Partial<
+  Pick<
+    SchedulerJobState,
+    "enabled" | "paused" | "pausedUntil" | "cronExpression"
+  >
+>;
+
+/**
+ * 创建一条执行中的记录
+ * 定时执行时 (jobId, scheduledAt) 唯一，多个实例同时执行同一计划时间时只有一个能创建成功
+ * @throws 该计划时间已被其他实例领取时抛出 Prisma P2002 错误
+ */
+export async function startJobRun(
+  db: DbClient,
+  params: {
+    jobId: string;
+    trigger: SchedulerRunTrigger;
+    startedAt: Date;
+    scheduledAt?: Date;
+    instanceId: string;
+  },
+): Promise<string> {
+  const run = await db.schedulerJobRun.create({
+    data: {
+      ...params,
+      status: SchedulerRunStatus.RUNNING,
+    },
+    select: { id: true },
+  });
+  return run.id;
+}
+
+/**
+ * 写入执行结果
+ * 空闲执行的上一条记录同样是空闲时合并到上一条，避免每分钟执行的任务产生大量记录
+ */
+export async function finishJobRun(
+  db: DbClient,
+  runId: string,
+  outcome: JobRunOutcome,
+): Promise<void> {
+  const finishedAt = new Date();
+
+  if (
+    outcome.status === SchedulerRunStatus.IDLE &&
+    (await mergeIdleRun(db, runId, finishedAt, outcome))
+  ) {
+    return;
+  }
+
+  await db.schedulerJobRun.update({
+    where: { id: runId },
+    data: {
+      status: outcome.status,
+      finishedAt,
+      durationMs: finishedAt.getTime() - outcome.startedAt.getTime(),
+      error: outcome.error ?? null,
+      affectedUserIds: outcome.affectedUserIds ?? [],
+      summary: outcome.summary ? JSON.stringify(outcome.summary) : null,
+    },
+  });
+}
+
+/**
+ * 将空闲执行合并到同一任务的上一条空闲记录
+ * 上一条记录改为本次执行的时间并接管本次的计划时间，其他实例仍无法重复执行该计划
+ * @returns 上一条记录不是空闲记录时返回 false
+ */
+async function mergeIdleRun(
+  db: DbClient,
+  runId: string,
+  finishedAt: Date,
+  outcome: JobRunOutcome,
+): Promise<boolean> {
+  const run = await db.schedulerJobRun.findUnique({
+    where: { id: runId },
+    select: { jobId: true, startedAt: true, scheduledAt: true },
+  });
+  if (!run) return false;
+
+  const previous = await db.schedulerJobRun.findFirst({
+    where: {
+      jobId: run.jobId,
+      id: { not: runId },
+      startedAt: { lte: run.startedAt },
+    },
+    orderBy: [{ startedAt: "desc" }, { id: "desc" }],
+    select: { id: true, status: true },
+  });
+  if (previous?.status !== SchedulerRunStatus.IDLE) return false;
+
+  // 先删除本次记录，释放 (jobId, scheduledAt) 唯一约束后再由上一条记录接管
+  await db.schedulerJobRun.delete({ where: { id: runId } });
+  await db.schedulerJobRun.update({
+    where: { id: previous.id },
+    data: {
+      startedAt: run.startedAt,
+      scheduledAt: run.scheduledAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - outcome.startedAt.getTime(),
+      summary: outcome.summary ? JSON.stringify(outcome.summary) : null,
+      idleCount: { increment: 1 },
+    },
+  });
+  return true;
+}
+
+/**
+ * 接管主节点时，将其他实例遗留的执行中定时记录标记为失败
+ */
+export async function failInterruptedRuns(
+  db: DbClient,
+  currentInstanceId: string,
+): Promise<number> {
+  const result = await db.schedulerJobRun.updateMany({
+    where: {
+      status: SchedulerRunStatus.RUNNING,
+      scheduledAt: { not: null },
+      OR: [{ instanceId: null }, { instanceId: { not: currentInstanceId } }],
+    },
+    data: {
+      status: SchedulerRunStatus.FAILED,
+      finishedAt: new Date(),
+      error: "执行实例已停止，执行被中断",
+    },
+  });
+  return result.count;
+}
+
+/**
+ * 读取所有已保存的任务状态
+ */
+export async function loadJobStates(
+  db: DbClient,
+): Promise<Map<string, SchedulerJobState>> {
+  const states = await db.schedulerJobState.findMany();
+  return new Map(states.map((state) => [state.jobId, state]));
+}
+
+/**
+ * 保存任务状态
+ */
+export async function saveJobState(
+  db: DbClient,
+  jobId: string,
+  changes: JobStateChanges,
+): Promise<SchedulerJobState> {
+  return db.schedulerJobState.upsert({
+    where: { jobId },
+    create: { jobId, ...changes },
+    update: changes,
+  });
+}
+
+/**
+ * 删除早于指定时间的执行记录（包括实例异常退出后遗留的执行中记录）
+ */
+export async function purgeJobRuns(
+  db: DbClient,
+  before: Date,
+): Promise<number> {
+  const result = await db.schedulerJobRun.deleteMany({
+    where: { startedAt: { lt: before } },
+  });
+  return result.count;
+}
@@ -0,0 +1,85 @@
+/**
+ * 定时任务调度器主节点租约
+ *
+ * 功能：
+ * 1. 多实例部署时通过数据库租约选出唯一的主节点执行定时任务
+ * 2. 主节点定期续约，实例宕机后租约到期由其他实例接管
+ * 3. 查询当前租约持有者
+ *
+ * 使用租约表而不是 Postgres advisory lock：advisory lock 绑定数据库会话，
+ * 而 Prisma 连接池不保证同一实例的查询始终使用同一个连接
+ */
+
+import {
+  type Prisma,
+  type PrismaClient,
+  type SchedulerLease,
+} from "@prisma/client";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const SCHEDULER_LEASE_NAME = "task-scheduler";
+
+/**
+ * 获取或续约租约
+ * 租约不存在、已过期或本来就由当前实例持有时成功；时间统一使用数据库时钟，避免实例间时钟偏差
+ * @returns 当前实例是否持有租约
+ */
+export async function acquireLease(
+  db: DbClient,
+  name: string,
+  holderId: string,
+  ttlMs: number,
+): Promise<boolean> {
+  const ttlSeconds = ttlMs / 1000;
+
+  const rows = await db.$queryRaw<Array<{ holderId: string }>>`
+    INSERT INTO "SchedulerLease" ("name", "holderId", "acquiredAt", "renewedAt", "expiresAt")
+    VALUES (
+      ${name},
+      ${holderId},
+      NOW() AT TIME ZONE 'UTC',
+      NOW() AT TIME ZONE 'UTC',
+      NOW() AT TIME ZONE 'UTC' + make_interval(secs => ${ttlSeconds})
+    )
+    ON CONFLICT ("name") DO UPDATE SET
+      "holderId" = EXCLUDED."holderId",
+      "acquiredAt" = CASE
+        WHEN "SchedulerLease"."holderId" = EXCLUDED."holderId"
+          THEN "SchedulerLease"."acquiredAt"
+        ELSE EXCLUDED."acquiredAt"
+      END,
+      "renewedAt" = EXCLUDED."renewedAt",
+      "expiresAt" = EXCLUDED."expiresAt"
+    WHERE "SchedulerLease"."holderId" = EXCLUDED."holderId"
+      OR "SchedulerLease"."expiresAt" < NOW() AT TIME ZONE 'UTC'
+    RETURNING "holderId"
+  `;
+
+  return rows.length > 0;
+}
+
+/**
+ * 主动释放租约（仅当前实例持有时），便于其他实例立即接管
+ */
+export async function releaseLease(
+  db: DbClient,
+  name: string,
+  holderId: string,
+): Promise<void> {
+  await db.schedulerLease.deleteMany({
+    where: { name, holderId },
+  });
+}
+
+/**
+ * 查询租约持有者
+ */
+export async function getLeaseHolder(
+  db: DbClient,
+  name: string,
+): Promise<SchedulerLease | null> {
+  return db.schedulerLease.findUnique({
+    where: { name },
+  });
+}
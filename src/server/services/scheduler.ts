@@ -3,24 +3,109 @@
  *
  * 功能：
  * 1. 每天晚上11:55自动生成日记
- * 2. 可扩展的定时任务管理
+ * 2. 每小时提前生成重复任务实例
+ * 3. 可扩展的定时任务管理（完整五段式 cron 表达式，支持时区）
+ * 4. 记录每次执行结果，管理员的启用/暂停/cron 修改在重启后保持
+ * 5. 多实例部署时只有持有租约的主节点执行定时任务，每次计划执行只会执行一次
+ * 6. 每小时清理过期的邮箱登录令牌
+ * 7. 每分钟重试到期的 Webhook 投递，每天清理过期的投递记录
+ * 8. 每天永久删除回收站中超过保留期的内容
+ * 9. 每小时让推迟日期已到的任务重新出现
+ * 10. 每小时为跟进日期已到的等待任务发出跟进提醒
+ * 11. 生成站内通知：每小时发送任务截止提醒，按用户设置的时间发送日记和周回顾提醒
+ * 12. 按用户设置的时区和发送时间发送每日摘要和每周总结邮件
  */
 
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import {
+  Prisma,
+  SchedulerRunStatus,
+  SchedulerRunTrigger,
+} from "@prisma/client";
+
+import { env } from "@/env";
+import { getUserSettingsSection } from "@/server/api/schemas/user-settings";
+import {
+  type CronSchedule,
+  getNextCronRun,
+  isValidTimeZone,
+  parseCronExpression,
+} from "@/utils/cron";
 import { serverLoggers } from "@/utils/logger-server";
+import { purgeOldEmailDigests, sendDueEmailDigests } from "./email-digest";
 import { autoGenerateJournalForAllUsers } from "./journal-auto-generator";
+import { purgeExpiredCredentialRecords } from "./credentials-auth";
+import { purgeExpiredMagicLinkRecords } from "./magic-link";
+import {
+  failInterruptedRuns,
+  finishJobRun,
+  type JobRunOutcome,
+  type JobStateChanges,
+  loadJobStates,
+  purgeJobRuns,
+  saveJobState,
+  startJobRun,
+} from "./scheduler-history";
+import {
+  acquireLease,
+  releaseLease,
+  SCHEDULER_LEASE_NAME,
+} from "./scheduler-lock";
+import {
+  generateDailyReminders,
+  generateDeadlineNotifications,
+  purgeOldNotifications,
+} from "./notifications";
+import { resurfaceDeferredTasks } from "./task-defer";
+import { raiseDueFollowUps } from "./task-follow-up";
+import { pregenerateRecurringInstances } from "./task-recurrence";
+import { purgeExpiredTrash } from "./trash";
+import {
+  processDueWebhookDeliveries,
+  purgeWebhookDeliveries,
+} from "./webhooks";
+
+interface TaskRunContext {
+  manual: boolean; // 手动执行时忽略用户设置的时间限制
+}
+
+interface TaskRunResult {
+  affectedUserIds?: string[];
+  summary?: Record<string, unknown>;
+  idle?: boolean; // 没有处理任何内容，定时执行时记为空闲
+}
 
 interface ScheduledTask {
   id: string;
   name: string;
   cronExpression: string;
-  handler: () => Promise<void>;
+  handler: (context: TaskRunContext) => Promise<TaskRunResult | void>;
   enabled: boolean;
+  timezone?: string; // IANA 时区，未指定时使用 SCHEDULER_TIMEZONE 或进程时区
+  paused?: boolean; // 暂停时保留调度，但跳过执行
+  pausedUntil?: Date | null; // 到期后自动恢复，为空表示一直暂停
 }
 
+// setTimeout 支持的最大延迟（约 24.8 天）
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// 执行记录保留天数
+const RUN_HISTORY_RETENTION_DAYS = 30;
+// Webhook 投递记录保留天数
+const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+// 主节点租约有效期，主节点宕机后最长经过该时间由其他实例接管
+const LEASE_TTL_MS = 60 * 1000;
+// 续约间隔，同时从数据库同步其他实例保存的任务配置
+const LEASE_RENEW_INTERVAL_MS = 15 * 1000;
+
 class TaskScheduler {
   private tasks = new Map<string, ScheduledTask>();
-  private intervals = new Map<string, NodeJS.Timeout>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private defaultCronExpressions = new Map<string, string>();
   private isRunning = false;
+  private isLeader = false;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  readonly instanceId = `${hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
 
   constructor() {
     this.registerDefaultTasks();
@@ -38,6 +123,114 @@ class TaskScheduler {
       handler: this.handleAutoGenerateJournal.bind(this),
       enabled: true,
     });
+
+    // 每小时提前生成重复任务实例（同时补上停机期间错过的实例）
+    this.registerTask({
+      id: "generate-recurring-tasks",
+      name: "提前生成重复任务",
+      cronExpression: "5 * * * *", // 每小时第5分钟
+      handler: this.handleGenerateRecurringTasks.bind(this),
+      enabled: true,
+    });
+
+    // 每小时让推迟日期已到的任务重新出现
+    this.registerTask({
+      id: "resurface-deferred-tasks",
+      name: "推迟任务重新出现",
+      cronExpression: "0 * * * *", // 每小时整点
+      handler: this.handleResurfaceDeferredTasks.bind(this),
+      enabled: true,
+    });
+
+    // 每小时为跟进日期已到的等待任务发出提醒
+    this.registerTask({
+      id: "raise-follow-up-reminders",
+      name: "等待跟进提醒",
+      cronExpression: "10 * * * *", // 每小时第10分钟
+      handler: this.handleRaiseFollowUpReminders.bind(this),
+      enabled: true,
+    });
+
+    // 每小时为即将到期和已逾期的任务发送通知
+    this.registerTask({
+      id: "send-deadline-notifications",
+      name: "任务截止提醒",
+      cronExpression: "20 * * * *", // 每小时第20分钟
+      handler: this.handleSendDeadlineNotifications.bind(this),
+      enabled: true,
+    });
+
+    // 每分钟检查用户设置的提醒时间，发送日记和周回顾提醒
+    this.registerTask({
+      id: "send-daily-reminders",
+      name: "日记和周回顾提醒",
+      cronExpression: "* * * * *",
+      handler: this.handleSendDailyReminders.bind(this),
+      enabled: true,
+    });
+
+    // 每天清理过期的执行记录
+    this.registerTask({
+      id: "cleanup-scheduler-runs",
+      name: "清理定时任务执行记录",
+      cronExpression: "30 3 * * *", // 每天凌晨3:30
+      handler: this.handleCleanupRuns.bind(this),
+      enabled: true,
+    });
+
+    // 每小时清理过期的登录链接、重置密码令牌和登录失败记录
+    this.registerTask({
+      id: "purge-expired-auth-records",
+      name: "清理过期登录记录",
+      cronExpression: "15 * * * *", // 每小时第15分钟
+      handler: this.handlePurgeAuthRecords.bind(this),
+      enabled: true,
+    });
+
+    // 每分钟重试到期的 Webhook 投递
+    this.registerTask({
+      id: "deliver-webhooks",
+      name: "重试 Webhook 投递",
+      cronExpression: "* * * * *",
+      handler: this.handleDeliverWebhooks.bind(this),
+      enabled: true,
+    });
+
+    // 每天清理过期的 Webhook 投递记录
+    this.registerTask({
+      id: "cleanup-webhook-deliveries",
+      name: "清理 Webhook 投递记录",
+      cronExpression: "45 3 * * *", // 每天凌晨3:45
+      handler: this.handleCleanupWebhookDeliveries.bind(this),
+      enabled: true,
+    });
+
+    // 每天按用户设置的保留天数清理回收站
+    this.registerTask({
+      id: "purge-trash",
+      name: "清理回收站",
+      cronExpression: "0 4 * * *", // 每天凌晨4:00
+      handler: this.handlePurgeTrash.bind(this),
+      enabled: true,
+    });
+
+    // 每分钟检查是否到了用户设置的邮件摘要发送时间
+    this.registerTask({
+      id: "send-email-digests",
+      name: "发送邮件摘要",
+      cronExpression: "* * * * *", // 每分钟
+      handler: this.handleSendEmailDigests.bind(this),
+      enabled: true,
+    });
+
+    // 每天清理超过保留期的通知
+    this.registerTask({
+      id: "cleanup-notifications",
+      name: "清理过期通知",
+      cronExpression: "15 4 * * *", // 每天凌晨4:15
+      handler: this.handleCleanupNotifications.bind(this),
+      enabled: true,
+    });
   }
 
   /**
@@ -45,6 +238,7 @@ class TaskScheduler {
    */
   registerTask(task: ScheduledTask) {
     this.tasks.set(task.id, task);
+    this.defaultCronExpressions.set(task.id, task.cronExpression);
     serverLoggers.app.info(
       { taskId: task.id, name: task.name, cron: task.cronExpression },
       "定时任务已注册",
@@ -54,13 +248,20 @@ class TaskScheduler {
   /**
    * 启动调度器
    */
-  start() {
+  async start() {
     if (this.isRunning) {
       serverLoggers.app.warn("定时任务调度器已在运行中");
       return;
     }
 
     this.isRunning = true;
+    await this.syncJobStates();
+    await this.heartbeat();
+
+    // 加载期间调度器已被停止
+    if (!this.isRunning) {
+      return;
+    }
 
     for (const [taskId, task] of this.tasks) {
       if (task.enabled) {
@@ -68,10 +269,16 @@ class TaskScheduler {
       }
     }
 
+    this.heartbeatTimer = setInterval(() => {
+      void this.heartbeat();
+    }, LEASE_RENEW_INTERVAL_MS);
+
     serverLoggers.app.info(
       {
         enabledTasks: Array.from(this.tasks.values()).filter((t) => t.enabled)
           .length,
+        instanceId: this.instanceId,
+        isLeader: this.isLeader,
       },
       "定时任务调度器已启动",
     );
@@ -87,204 +294,422 @@ class TaskScheduler {
 
     this.isRunning = false;
 
-    for (const [taskId, interval] of this.intervals) {
-      clearInterval(interval);
-      this.intervals.delete(taskId);
+    for (const taskId of this.timers.keys()) {
+      this.clearTimer(taskId);
+    }
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    // 主动释放租约，其他实例无需等待过期即可接管
+    if (this.isLeader) {
+      this.isLeader = false;
+      void this.releaseLeadership();
     }
 
     serverLoggers.app.info("定时任务调度器已停止");
   }
 
+  /**
+   * 续约主节点租约，并同步任务配置
+   * 租约空闲或过期时当前实例成为主节点；接管时把上一个主节点未完成的执行记录标记为失败
+   */
+  private async heartbeat() {
+    try {
+      const { db } = await import("@/server/db");
+      const acquired = await acquireLease(
+        db,
+        SCHEDULER_LEASE_NAME,
+        this.instanceId,
+        LEASE_TTL_MS,
+      );
+
+      if (acquired && !this.isLeader) {
+        serverLoggers.app.info(
+          { instanceId: this.instanceId },
+          "当前实例成为定时任务主节点",
+        );
+
+        const interrupted = await failInterruptedRuns(db, this.instanceId);
+        if (interrupted > 0) {
+          serverLoggers.app.warn(
+            { count: interrupted },
+            "上一个主节点中断的定时任务已标记为失败",
+          );
+        }
+      } else if (!acquired && this.isLeader) {
+        serverLoggers.app.warn(
+          { instanceId: this.instanceId },
+          "当前实例已不再是定时任务主节点",
+        );
+      }
+
+      this.isLeader = acquired;
+    } catch (error) {
+      // 无法确认租约时停止执行，避免与其他实例重复执行
+      this.isLeader = false;
+      serverLoggers.app.error(
+        {
+          instanceId: this.instanceId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "定时任务主节点续约失败",
+      );
+    }
+
+    if (this.heartbeatTimer) {
+      await this.syncJobStates();
+    }
+  }
+
+  /**
+   * 释放主节点租约
+   */
+  private async releaseLeadership() {
+    try {
+      const { db } = await import("@/server/db");
+      await releaseLease(db, SCHEDULER_LEASE_NAME, this.instanceId);
+    } catch (error) {
+      serverLoggers.app.warn(
+        { error: error instanceof Error ? error.message : String(error) },
+        "释放定时任务主节点租约失败，等待租约过期",
+      );
+    }
+  }
+
+  /**
+   * 从数据库同步管理员保存的任务状态
+   * 启动时恢复上次的配置；运行中同步其他实例上的修改，启用状态或 cron 变化时重新调度
+   */
+  private async syncJobStates() {
+    try {
+      const { db } = await import("@/server/db");
+      const states = await loadJobStates(db);
+
+      for (const [jobId, state] of states) {
+        const task = this.tasks.get(jobId);
+        if (!task) continue;
+
+        const cronExpression =
+          state.cronExpression ??
+          this.defaultCronExpressions.get(jobId) ??
+          task.cronExpression;
+        const changed =
+          task.enabled !== state.enabled ||
+          task.cronExpression !== cronExpression;
+
+        task.enabled = state.enabled;
+        task.paused = state.paused;
+        task.pausedUntil = state.pausedUntil;
+        task.cronExpression = cronExpression;
+
+        // 启动阶段尚未调度，由 start() 统一调度
+        if (changed && this.heartbeatTimer) {
+          this.rescheduleTask(jobId, task);
+          serverLoggers.app.info(
+            { taskId: jobId, enabled: task.enabled, cron: cronExpression },
+            "已同步其他实例修改的定时任务配置",
+          );
+        }
+      }
+    } catch (error) {
+      serverLoggers.app.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        "加载定时任务状态失败，使用默认配置",
+      );
+    }
+  }
+
+  /**
+   * 按当前配置重新调度任务
+   */
+  private rescheduleTask(taskId: string, task: ScheduledTask) {
+    this.clearTimer(taskId);
+    if (this.isRunning && task.enabled) {
+      this.scheduleTask(taskId, task);
+    }
+  }
+
+  /**
+   * 取消任务的定时器
+   */
+  private clearTimer(taskId: string) {
+    const timer = this.timers.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(taskId);
+    }
+  }
+
   /**
    * 调度单个任务
+   * 每次执行后根据 cron 表达式重新计算下次执行时间，避免固定间隔累积偏差
    */
   private scheduleTask(taskId: string, task: ScheduledTask) {
-    const intervalMs = this.cronToInterval(task.cronExpression);
-
-    if (intervalMs === null) {
+    let schedule: CronSchedule;
+    try {
+      schedule = parseCronExpression(task.cronExpression);
+    } catch (error) {
       serverLoggers.app.error(
-        { taskId, cron: task.cronExpression },
+        {
+          taskId,
+          cron: task.cronExpression,
+          error: error instanceof Error ? error.message : String(error),
+        },
         "无效的cron表达式，跳过任务调度",
       );
       return;
     }
 
-    // 计算下次执行时间
-    const nextRun = this.getNextRunTime(task.cronExpression);
-    const delay = nextRun.getTime() - Date.now();
-
-    // 设置初始延迟执行
-    setTimeout(() => {
-      void this.executeTask(task);
-
-      // 设置周期性执行
-      const interval = setInterval(() => {
-        void this.executeTask(task);
-      }, intervalMs);
+    const timeZone = this.getTaskTimeZone(task);
+    const nextRun = getNextCronRun(schedule, new Date(), timeZone);
+    if (!nextRun) {
+      serverLoggers.app.error(
+        { taskId, cron: task.cronExpression, timeZone },
+        "cron表达式没有可执行的时间，跳过任务调度",
+      );
+      return;
+    }
 
-      this.intervals.set(taskId, interval);
-    }, delay);
+    this.armTimer(taskId, task, schedule, nextRun);
 
     serverLoggers.app.info(
       {
         taskId,
         name: task.name,
+        timeZone,
         nextRun: nextRun.toISOString(),
-        delayMs: delay,
+        delayMs: nextRun.getTime() - Date.now(),
       },
       "定时任务已调度",
     );
   }
 
   /**
-   * 执行任务
+   * 设置到下次执行时间的定时器
+   * setTimeout 的最大延迟约 24.8 天，超出时分段等待
+   */
+  private armTimer(
+    taskId: string,
+    task: ScheduledTask,
+    schedule: CronSchedule,
+    nextRun: Date,
+  ) {
+    const delay = Math.max(0, nextRun.getTime() - Date.now());
+
+    const timer = setTimeout(
+      () => {
+        if (!this.isRunning) return;
+
+        if (nextRun.getTime() > Date.now()) {
+          this.armTimer(taskId, task, schedule, nextRun);
+          return;
+        }
+
+        // 先安排下一次执行，再执行本次任务；以本次计划时间为起点计算，避免定时器提前触发导致重复执行
+        const following = getNextCronRun(
+          schedule,
+          new Date(Math.max(Date.now(), nextRun.getTime())),
+          this.getTaskTimeZone(task),
+        );
+        if (following) {
+          this.armTimer(taskId, task, schedule, following);
+        } else {
+          this.timers.delete(taskId);
+        }
+
+        void this.executeTask(task, SchedulerRunTrigger.SCHEDULE, nextRun);
+      },
+      Math.min(delay, MAX_TIMER_DELAY_MS),
+    );
+
+    this.timers.set(taskId, timer);
+  }
+
+  /**
+   * 执行任务并记录执行结果
+   * 定时执行只在主节点进行，并以 (任务, 计划时间) 领取执行记录，保证每次计划只执行一次
+   * @returns 是否执行成功
    */
-  private async executeTask(task: ScheduledTask) {
+  private async executeTask(
+    task: ScheduledTask,
+    trigger: SchedulerRunTrigger = SchedulerRunTrigger.SCHEDULE,
+    scheduledAt?: Date,
+  ): Promise<boolean> {
+    if (
+      trigger === SchedulerRunTrigger.SCHEDULE &&
+      (!this.isLeader || this.isPaused(task))
+    ) {
+      return false;
+    }
+
     const startTime = Date.now();
+    const { db } = await import("@/server/db");
 
+    let runId: string | null = null;
+    try {
+      runId = await startJobRun(db, {
+        jobId: task.id,
+        trigger,
+        startedAt: new Date(startTime),
+        scheduledAt,
+        instanceId: this.instanceId,
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        serverLoggers.app.info(
+          { taskId: task.id, scheduledAt },
+          "本次计划执行已由其他实例领取，跳过",
+        );
+        return false;
+      }
+
+      serverLoggers.app.error(
+        {
+          taskId: task.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "记录定时任务执行开始失败",
+      );
+    }
+
+    let outcome: JobRunOutcome;
     try {
       serverLoggers.app.info(
-        { taskId: task.id, name: task.name },
+        { taskId: task.id, name: task.name, trigger },
         "开始执行定时任务",
       );
 
-      await task.handler();
+      const result = await task.handler({
+        manual: trigger === SchedulerRunTrigger.MANUAL,
+      });
 
       const duration = Date.now() - startTime;
       serverLoggers.app.info(
         { taskId: task.id, name: task.name, duration },
         "定时任务执行成功",
       );
+      // 空闲的定时执行同样保留记录（执行历史默认不显示，连续的空闲执行合并为一条），以占用该计划时间
+      outcome = {
+        status:
+          result?.idle && trigger === SchedulerRunTrigger.SCHEDULE
+            ? SchedulerRunStatus.IDLE
+            : SchedulerRunStatus.SUCCESS,
+        startedAt: new Date(startTime),
+        affectedUserIds: result?.affectedUserIds,
+        summary: result?.summary,
+      };
     } catch (error) {
       const duration = Date.now() - startTime;
+      const message = error instanceof Error ? error.message : String(error);
       serverLoggers.app.error(
         {
           taskId: task.id,
           name: task.name,
           duration,
-          error: error instanceof Error ? error.message : String(error),
+          error: message,
         },
         "定时任务执行失败",
       );
+      outcome = {
+        status: SchedulerRunStatus.FAILED,
+        startedAt: new Date(startTime),
+        error: message,
+      };
     }
-  }
 
-  /**
-   * 将简化的cron表达式转换为间隔毫秒数
-   * 支持格式: "分 时 日 月 周"
-   */
-  private cronToInterval(cron: string): number | null {
-    const parts = cron.split(" ");
-    if (parts.length !== 5) {
-      return null;
-    }
-
-    const [minute, hour, day, month, weekday] = parts;
-
-    // 支持每分钟执行 (* * * * *)
-    if (
-      minute === "*" &&
-      hour === "*" &&
-      day === "*" &&
-      month === "*" &&
-      weekday === "*"
-    ) {
-      return 60 * 1000; // 1分钟
-    }
-
-    // 支持每小时执行 (分 * * * *)
-    if (hour === "*" && day === "*" && month === "*" && weekday === "*") {
-      return 60 * 60 * 1000; // 1小时
-    }
-
-    // 支持每日执行 (分 时 * * *)
-    if (day === "*" && month === "*" && weekday === "*") {
-      return 24 * 60 * 60 * 1000; // 24小时
+    if (runId) {
+      try {
+        await finishJobRun(db, runId, outcome);
+      } catch (error) {
+        serverLoggers.app.error(
+          {
+            taskId: task.id,
+            runId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "记录定时任务执行结果失败",
+        );
+      }
     }
 
-    return null;
+    return outcome.status !== SchedulerRunStatus.FAILED;
   }
 
   /**
-   * 计算下次执行时间
+   * 任务当前是否处于暂停中（暂停到期后自动恢复）
    */
-  private getNextRunTime(cron: string): Date {
-    const parts = cron.split(" ");
-    const [minute, hour] = parts;
-
-    const now = new Date();
-    const next = new Date();
-
-    // 处理每分钟执行的情况 (* * * * *)
-    if (minute === "*") {
-      // 下一分钟执行
-      next.setTime(now.getTime() + 60 * 1000);
-      next.setSeconds(0, 0);
-      return next;
-    }
-
-    // 处理每小时执行的情况 (0 * * * *)
-    if (hour === "*") {
-      const targetMinute = parseInt(minute || "0");
-      if (isNaN(targetMinute)) {
-        // 如果分钟解析失败，默认下一分钟执行
-        next.setTime(now.getTime() + 60 * 1000);
-        next.setSeconds(0, 0);
-        return next;
-      }
-
-      next.setMinutes(targetMinute, 0, 0);
-
-      // 如果当前小时的目标分钟已过，设置为下一小时
-      if (next <= now) {
-        next.setHours(next.getHours() + 1);
-      }
-
-      return next;
-    }
-
-    // 处理每日执行的情况 (分 时 * * *)
-    const targetHour = parseInt(hour || "0");
-    const targetMinute = parseInt(minute || "0");
-
-    if (isNaN(targetHour) || isNaN(targetMinute)) {
-      // 如果解析失败，默认下一分钟执行
-      next.setTime(now.getTime() + 60 * 1000);
-      next.setSeconds(0, 0);
-      return next;
-    }
-
-    next.setHours(targetHour, targetMinute, 0, 0);
+  private isPaused(task: ScheduledTask): boolean {
+    if (!task.paused) return false;
+    return !task.pausedUntil || task.pausedUntil > new Date();
+  }
 
-    // 如果今天的时间已过，设置为明天
-    if (next <= now) {
-      next.setDate(next.getDate() + 1);
+  /**
+   * 手动执行任务
+   * 忽略暂停状态和用户设置的时间限制
+   */
+  async executeTaskManually(taskId: string): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      serverLoggers.app.error({ taskId }, "任务不存在");
+      return false;
     }
 
-    return next;
+    return this.executeTask(task, SchedulerRunTrigger.MANUAL);
   }
 
   /**
-   * 手动执行任务（用于测试）
+   * 更新任务配置（启用/禁用、暂停/恢复、修改 cron），保存后重新调度
+   * @returns 任务不存在时返回 false
+   * @throws cron 表达式无效时抛出 Error
    */
-  async executeTaskManually(taskId: string): Promise<boolean> {
+  async updateTask(taskId: string, changes: JobStateChanges): Promise<boolean> {
     const task = this.tasks.get(taskId);
     if (!task) {
-      serverLoggers.app.error({ taskId }, "任务不存在");
       return false;
     }
 
-    try {
-      // 特殊处理日记生成任务，手动执行时强制生成
-      if (taskId === "auto-generate-journal") {
-        await this.handleAutoGenerateJournal(true); // 传递 forceExecute = true
-      } else {
-        await this.executeTask(task);
+    const defaultCron = this.defaultCronExpressions.get(taskId);
+    const persisted = { ...changes };
+    if (changes.cronExpression) {
+      parseCronExpression(changes.cronExpression);
+      // 与默认值相同时不单独保存，以后调整默认值时可以跟随
+      if (changes.cronExpression.trim() === defaultCron) {
+        persisted.cronExpression = null;
       }
-      return true;
-    } catch {
-      return false;
     }
+
+    const { db } = await import("@/server/db");
+    await saveJobState(db, taskId, persisted);
+
+    if (changes.enabled !== undefined) task.enabled = changes.enabled;
+    if (changes.paused !== undefined) task.paused = changes.paused;
+    if (changes.pausedUntil !== undefined) {
+      task.pausedUntil = changes.pausedUntil;
+    }
+    if (changes.cronExpression !== undefined) {
+      task.cronExpression =
+        changes.cronExpression?.trim() ?? defaultCron ?? task.cronExpression;
+    }
+
+    this.rescheduleTask(taskId, task);
+
+    serverLoggers.app.info(
+      {
+        taskId,
+        enabled: task.enabled,
+        paused: task.paused,
+        pausedUntil: task.pausedUntil,
+        cron: task.cronExpression,
+      },
+      "定时任务配置已更新",
+    );
+    return true;
   }
 
   /**
@@ -293,23 +718,61 @@ class TaskScheduler {
   getTaskStatus() {
     return {
       isRunning: this.isRunning,
-      tasks: Array.from(this.tasks.values()).map((task) => ({
-        id: task.id,
-        name: task.name,
-        cronExpression: task.cronExpression,
-        enabled: task.enabled,
-        nextRun: task.enabled ? this.getNextRunTime(task.cronExpression) : null,
-      })),
+      instanceId: this.instanceId,
+      isLeader: this.isLeader,
+      tasks: Array.from(this.tasks.values()).map((task) => {
+        const timeZone = this.getTaskTimeZone(task);
+        let nextRun: Date | null = null;
+        if (task.enabled) {
+          try {
+            nextRun = getNextCronRun(task.cronExpression, new Date(), timeZone);
+          } catch {
+            // 无效的cron表达式，不显示下次执行时间
+          }
+        }
+
+        return {
+          id: task.id,
+          name: task.name,
+          cronExpression: task.cronExpression,
+          defaultCronExpression:
+            this.defaultCronExpressions.get(task.id) ?? task.cronExpression,
+          timeZone:
+            timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+          enabled: task.enabled,
+          paused: this.isPaused(task),
+          pausedUntil: this.isPaused(task) ? (task.pausedUntil ?? null) : null,
+          nextRun,
+        };
+      }),
     };
   }
 
+  /**
+   * 获取任务使用的时区，配置无效时回退到进程时区
+   */
+  private getTaskTimeZone(task: ScheduledTask): string | undefined {
+    const timeZone = task.timezone ?? env.SCHEDULER_TIMEZONE;
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      serverLoggers.app.warn(
+        { taskId: task.id, timeZone },
+        "无效的时区配置，使用进程时区",
+      );
+      return undefined;
+    }
+    return timeZone;
+  }
+
   // ========== 具体任务处理器 ==========
 
   /**
    * 自动生成日记任务处理器
    * 检查每个用户的设置，在正确的时间生成日记
    */
-  private async handleAutoGenerateJournal(forceExecute = false) {
+  private async handleAutoGenerateJournal(
+    context: TaskRunContext,
+  ): Promise<TaskRunResult> {
+    const forceExecute = context.manual;
     const now = new Date();
     const currentHour = now.getHours();
     const currentMinute = now.getMinutes();
@@ -335,6 +798,7 @@ class TaskScheduler {
       let processedUsers = 0;
       let successCount = 0;
       let failedCount = 0;
+      const affectedUserIds: string[] = [];
 
       for (const user of users) {
         try {
@@ -382,6 +846,7 @@ class TaskScheduler {
 
             if (result.success > 0) {
               successCount++;
+              affectedUserIds.push(user.id);
               serverLoggers.app.info(
                 { userId: user.id, email: user.email, scheduleTime },
                 "用户定时日记生成成功",
@@ -424,12 +889,342 @@ class TaskScheduler {
           "定时日记生成任务检查完成，无用户需要处理",
         );
       }
+
+      return {
+        affectedUserIds,
+        summary: {
+          processed: processedUsers,
+          success: successCount,
+          failed: failedCount,
+        },
+        idle: processedUsers === 0,
+      };
     } catch (error) {
       serverLoggers.app.error(
         { error: error instanceof Error ? error.message : String(error) },
         "定时日记生成任务执行失败",
       );
+      throw error;
+    }
+  }
+
+  /**
+   * 提前生成重复任务实例处理器
+   * 按每个用户的设置生成未来 N 天内到期的实例
+   */
+  private async handleGenerateRecurringTasks(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const users = await db.user.findMany({
+      where: { tasks: { some: { isRecurring: true, parentTaskId: null } } },
+      select: { id: true, settings: true },
+    });
+
+    let createdCount = 0;
+    let skippedMissedCount = 0;
+    let failedCount = 0;
+    const affectedUserIds: string[] = [];
+
+    for (const user of users) {
+      try {
+        const result = await pregenerateRecurringInstances(
+          db,
+          user.id,
+          getUserSettingsSection(user.settings, "recurringTasks"),
+        );
+        createdCount += result.created;
+        skippedMissedCount += result.skippedMissed;
+        if (result.created > 0) {
+          affectedUserIds.push(user.id);
+        }
+      } catch (error) {
+        failedCount++;
+        serverLoggers.app.error(
+          {
+            userId: user.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "用户重复任务提前生成失败",
+        );
+      }
     }
+
+    serverLoggers.app.info(
+      {
+        users: users.length,
+        created: createdCount,
+        skippedMissed: skippedMissedCount,
+        failed: failedCount,
+      },
+      "重复任务提前生成完成",
+    );
+
+    return {
+      affectedUserIds,
+      summary: {
+        users: users.length,
+        created: createdCount,
+        skippedMissed: skippedMissedCount,
+        failed: failedCount,
+      },
+    };
+  }
+
+  /**
+   * 清理过期执行记录处理器
+   */
+  private async handleCleanupRuns(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const before = new Date(
+      Date.now() - RUN_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const deleted = await purgeJobRuns(db, before);
+    serverLoggers.app.info(
+      { deleted, retentionDays: RUN_HISTORY_RETENTION_DAYS },
+      "定时任务执行记录清理完成",
+    );
+
+    return { summary: { deleted } };
+  }
+
+  /**
+   * 清理过期登录记录处理器
+   */
+  private async handlePurgeAuthRecords(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const { tokens: magicLinkTokens, requests: magicLinkRequests } =
+      await purgeExpiredMagicLinkRecords(db);
+    const { loginAttempts, resetTokens } =
+      await purgeExpiredCredentialRecords(db);
+
+    if (magicLinkTokens + magicLinkRequests + loginAttempts + resetTokens > 0) {
+      serverLoggers.app.info(
+        { magicLinkTokens, magicLinkRequests, loginAttempts, resetTokens },
+        "过期登录记录清理完成",
+      );
+    }
+
+    return {
+      summary: {
+        magicLinkTokens,
+        magicLinkRequests,
+        loginAttempts,
+        resetTokens,
+      },
+    };
+  }
+
+  /**
+   * Webhook 投递重试处理器
+   */
+  private async handleDeliverWebhooks(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const result = await processDueWebhookDeliveries(db);
+
+    return {
+      summary: { ...result },
+      idle: result.delivered + result.failed + result.retrying === 0,
+    };
+  }
+
+  /**
+   * 清理过期 Webhook 投递记录处理器
+   */
+  private async handleCleanupWebhookDeliveries(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const before = new Date(
+      Date.now() - WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const deleted = await purgeWebhookDeliveries(db, before);
+    serverLoggers.app.info(
+      { deleted, retentionDays: WEBHOOK_DELIVERY_RETENTION_DAYS },
+      "Webhook 投递记录清理完成",
+    );
+
+    return { summary: { deleted } };
+  }
+
+  /**
+   * 推迟任务重新出现处理器
+   */
+  private async handleResurfaceDeferredTasks(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const { resurfaced, promoted, userIds } = await resurfaceDeferredTasks(db);
+
+    if (resurfaced > 0) {
+      serverLoggers.app.info(
+        { resurfaced, promoted, users: userIds.length },
+        "推迟任务已重新出现",
+      );
+    }
+
+    return { affectedUserIds: userIds, summary: { resurfaced, promoted } };
+  }
+
+  /**
+   * 等待跟进提醒处理器
+   */
+  private async handleRaiseFollowUpReminders(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const { raised, userIds } = await raiseDueFollowUps(db);
+
+    if (raised > 0) {
+      serverLoggers.app.info(
+        { raised, users: userIds.length },
+        "已发出等待跟进提醒",
+      );
+    }
+
+    return { affectedUserIds: userIds, summary: { raised } };
+  }
+
+  /**
+   * 任务截止提醒处理器
+   */
+  private async handleSendDeadlineNotifications(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const { created, userIds } = await generateDeadlineNotifications(db);
+
+    if (created > 0) {
+      serverLoggers.app.info(
+        { created, users: userIds.length },
+        "已发送任务截止提醒",
+      );
+    }
+
+    return { affectedUserIds: userIds, summary: { created } };
+  }
+
+  /**
+   * 日记和周回顾提醒处理器
+   */
+  private async handleSendDailyReminders(
+    context: TaskRunContext,
+  ): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const { created, userIds } = await generateDailyReminders(
+      db,
+      new Date(),
+      context.manual,
+    );
+
+    if (created > 0) {
+      serverLoggers.app.info(
+        { created, users: userIds.length },
+        "已发送日记和周回顾提醒",
+      );
+    }
+
+    return {
+      affectedUserIds: userIds,
+      summary: { created },
+      idle: created === 0,
+    };
+  }
+
+  /**
+   * 邮件摘要处理器
+   */
+  private async handleSendEmailDigests(
+    context: TaskRunContext,
+  ): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const { sent, failed, userIds } = await sendDueEmailDigests(
+      db,
+      new Date(),
+      context.manual,
+    );
+
+    if (sent > 0 || failed > 0) {
+      serverLoggers.app.info(
+        { sent, failed, users: userIds.length },
+        "已发送邮件摘要",
+      );
+    }
+
+    return {
+      affectedUserIds: userIds,
+      summary: { sent, failed },
+      idle: sent === 0 && failed === 0,
+    };
+  }
+
+  /**
+   * 过期通知清理处理器，同时清理过期的邮件摘要发送记录
+   */
+  private async handleCleanupNotifications(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const deleted = await purgeOldNotifications(db);
+    const digestLogsDeleted = await purgeOldEmailDigests(db);
+
+    return { summary: { deleted, digestLogsDeleted } };
+  }
+
+  /**
+   * 回收站清理处理器
+   */
+  private async handlePurgeTrash(): Promise<TaskRunResult> {
+    const { db } = await import("@/server/db");
+    const inTrash = { some: { deletedAt: { not: null } } };
+    const users = await db.user.findMany({
+      where: {
+        OR: [
+          { tasks: inTrash },
+          { notes: inTrash },
+          { journals: inTrash },
+          { projects: inTrash },
+        ],
+      },
+      select: { id: true, settings: true },
+    });
+
+    const totals = { task: 0, note: 0, journal: 0, project: 0 };
+    let failedCount = 0;
+    const affectedUserIds: string[] = [];
+
+    for (const user of users) {
+      try {
+        const retentionDays = getUserSettingsSection(
+          user.settings,
+          "trash",
+        ).retentionDays;
+        const counts = await purgeExpiredTrash(
+          db,
+          user.id,
+          new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000),
+        );
+
+        const purged =
+          counts.task + counts.note + counts.journal + counts.project;
+        if (purged > 0) {
+          affectedUserIds.push(user.id);
+          totals.task += counts.task;
+          totals.note += counts.note;
+          totals.journal += counts.journal;
+          totals.project += counts.project;
+        }
+      } catch (error) {
+        failedCount++;
+        serverLoggers.app.error(
+          {
+            userId: user.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "用户回收站清理失败",
+        );
+      }
+    }
+
+    serverLoggers.app.info(
+      { users: users.length, ...totals, failed: failedCount },
+      "回收站清理完成",
+    );
+
+    return {
+      affectedUserIds,
+      summary: { users: users.length, ...totals, failed: failedCount },
+    };
   }
 }
 
@@ -440,7 +1235,7 @@ export const taskScheduler = new TaskScheduler();
 if (typeof window === "undefined") {
   // 只在服务器端启动
   process.nextTick(() => {
-    taskScheduler.start();
+    void taskScheduler.start();
   });
 
   // 优雅关闭
@@ -0,0 +1,161 @@
+/**
+ * 搜索筛选条件
+ *
+ * 功能：
+ * 1. 将高级搜索参数转换为任务查询条件（高级搜索和智能列表共用）
+ * 2. 排除指定标签和项目的查询条件
+ * 3. 解析保存的搜索参数（相对日期条件按当天计算）
+ */
+
+import { type Prisma, TaskStatus } from "@prisma/client";
+
+import {
+  advancedSearchSchema,
+  type AdvancedSearchParams,
+} from "@/server/api/schemas/search";
+import { resolveRelativeDates } from "@/utils/search-query";
+
+// 保存的搜索以 JSON 存储，日期字段需要还原为 Date
+const DATE_PARAM_KEYS = [
+  "createdAfter",
+  "createdBefore",
+  "updatedAfter",
+  "updatedBefore",
+  "dueAfter",
+  "dueBefore",
+] as const;
+
+/**
+ * 解析保存的搜索参数，相对日期条件（如 due:<7d）按当天计算
+ * @returns 参数无效时返回 null
+ */
+export function parseSavedSearchParams(
+  searchParams: string,
+): AdvancedSearchParams | null {
+  try {
+    const raw = JSON.parse(searchParams) as Record<string, unknown>;
+    for (const key of DATE_PARAM_KEYS) {
+      if (typeof raw[key] === "string") {
+        raw[key] = new Date(raw[key]);
+      }
+    }
+
+    const result = advancedSearchSchema.safeParse(raw);
+    return result.success ? resolveRelativeDates(result.data) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 排除指定标签和项目（没有项目的内容不会被排除）
+ */
+export function getExclusionFilters(
+  excludeTagIds?: string[],
+  excludeProjectIds?: string[],
+) {
+  return [
+    ...(excludeTagIds?.length
+      ? [{ NOT: { tags: { some: { tagId: { in: excludeTagIds } } } } }]
+      : []),
+    ...(excludeProjectIds?.length
+      ? [
+          {
+            OR: [
+              { projectId: null },
+              { projectId: { notIn: excludeProjectIds } },
+            ],
+          },
+        ]
+      : []),
+  ];
+}
+
+/**
+ * 构建任务搜索条件
+ * @param matchedIds 关键词的全文搜索匹配结果，未传入时不按关键词筛选
+ */
+export function buildTaskSearchWhere(
+  userId: string,
+  params: AdvancedSearchParams,
+  matchedIds?: string[],
+): Prisma.TaskWhereInput {
+  const {
+    taskStatus,
+    taskType,
+    priority,
+    tagIds,
+    excludeTagIds,
+    tagTypes,
+    projectIds,
+    excludeProjectIds,
+    createdAfter,
+    createdBefore,
+    updatedAfter,
+    updatedBefore,
+    dueAfter,
+    dueBefore,
+    hasTimeTracking,
+    minTimeSpent,
+    maxTimeSpent,
+    isCompleted,
+    isOverdue,
+    isRecurring,
+    hasDescription,
+  } = params;
+
+  // 作用于同一字段的条件放入 AND，避免后面的条件覆盖前面的条件
+  const conditions: Prisma.TaskWhereInput[] = [
+    ...getExclusionFilters(excludeTagIds, excludeProjectIds),
+  ];
+  if (taskStatus) {
+    conditions.push({ status: { in: taskStatus } });
+  }
+  if (isCompleted !== undefined) {
+    conditions.push({
+      status: isCompleted ? TaskStatus.DONE : { not: TaskStatus.DONE },
+    });
+  }
+  if (isOverdue) {
+    conditions.push({
+      dueDate: { lt: new Date() },
+      status: { not: TaskStatus.DONE },
+    });
+  }
+  if (tagIds) {
+    conditions.push({ tags: { some: { tagId: { in: tagIds } } } });
+  }
+  if (tagTypes) {
+    conditions.push({ tags: { some: { tag: { type: { in: tagTypes } } } } });
+  }
+  if (hasTimeTracking !== undefined) {
+    conditions.push({ totalTimeSpent: hasTimeTracking ? { gt: 0 } : 0 });
+  }
+
+  return {
+    createdById: userId,
+    deletedAt: null,
+    ...(matchedIds && { id: { in: matchedIds } }),
+    ...(taskType && { type: { in: taskType } }),
+    ...(priority && { priority: { in: priority } }),
+    ...(projectIds && { projectId: { in: projectIds } }),
+    // 同一字段的上下限合并为一个范围
+    ...((createdAfter ?? createdBefore) && {
+      createdAt: { gte: createdAfter, lte: createdBefore },
+    }),
+    ...((updatedAfter ?? updatedBefore) && {
+      updatedAt: { gte: updatedAfter, lte: updatedBefore },
+    }),
+    ...((dueAfter ?? dueBefore) && {
+      dueDate: { gte: dueAfter, lte: dueBefore },
+    }),
+    ...((minTimeSpent ?? maxTimeSpent) !== undefined && {
+      totalTimeSpent: { gte: minTimeSpent, lte: maxTimeSpent },
+    }),
+    ...(isRecurring !== undefined && { isRecurring }),
+    ...(hasDescription !== undefined && {
+      description: hasDescription ? { not: null } : null,
+    }),
+    AND: conditions,
+  };
+}
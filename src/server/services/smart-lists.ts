@@ -0,0 +1,175 @@
+/**
+ * 智能列表服务
+ *
+ * 功能：
+ * 1. 将固定到侧边栏的保存搜索作为智能列表，批量计算实时任务数量
+ * 2. 根据智能列表的搜索条件生成任务查询条件（任务列表和看板共用）
+ *
+ * 计数不会为每个列表执行完整的高级搜索：没有关键词的列表只执行 count 查询，并在同一个事务中批量发送；
+ * 有关键词的列表只检查相关性最高的一批匹配，超出时数量只是下限
+ */
+
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { type AdvancedSearchParams } from "@/server/api/schemas/search";
+import {
+  FULL_TEXT_BATCH_SIZE,
+  findFullTextMatches,
+} from "@/server/services/full-text-search";
+import {
+  buildTaskSearchWhere,
+  parseSavedSearchParams,
+} from "@/server/services/search-filters";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * 在全文搜索的每批匹配中按其余条件筛选任务
+ */
+function findMatchingTasks(
+  db: DbClient,
+  userId: string,
+  params: AdvancedSearchParams,
+  query: string,
+  candidateLimit?: number,
+) {
+  return findFullTextMatches(
+    db,
+    userId,
+    "tasks",
+    query,
+    async (ids) => {
+      const tasks = await db.task.findMany({
+        where: buildTaskSearchWhere(userId, params, ids),
+        select: { id: true },
+      });
+      return tasks.map((task) => task.id);
+    },
+    Infinity,
+    candidateLimit,
+  );
+}
+
+/**
+ * 生成智能列表的任务查询条件
+ * 有关键词时在全文搜索的每批匹配中按其余条件筛选，truncated 表示匹配过多、只检查了一部分
+ */
+async function buildSmartListWhere(
+  db: DbClient,
+  userId: string,
+  params: AdvancedSearchParams,
+): Promise<{ where: Prisma.TaskWhereInput; truncated: boolean }> {
+  const query = params.query?.trim();
+  const matches = query
+    ? await findMatchingTasks(db, userId, params, query)
+    : undefined;
+
+  return {
+    where: buildTaskSearchWhere(
+      userId,
+      params,
+      matches && Array.from(matches.ranks.keys()),
+    ),
+    truncated: matches?.truncated ?? false,
+  };
+}
+
+/**
+ * 获取智能列表的任务查询条件
+ */
+export async function getSmartListTaskWhere(
+  db: DbClient,
+  userId: string,
+  smartListId: string,
+): Promise<Prisma.TaskWhereInput> {
+  const savedSearch = await db.savedSearch.findFirst({
+    where: { id: smartListId, createdById: userId },
+    select: { searchParams: true },
+  });
+  if (!savedSearch) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "智能列表不存在或无权限访问",
+    });
+  }
+
+  const params = parseSavedSearchParams(savedSearch.searchParams);
+  if (!params) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "智能列表的搜索条件无效，请重新编辑搜索条件",
+    });
+  }
+
+  const { where } = await buildSmartListWhere(db, userId, params);
+  return where;
+}
+
+/**
+ * 获取固定到侧边栏的智能列表及任务数量
+ * 搜索条件无效的列表数量为 null；countTruncated 表示关键词匹配过多，数量只是下限
+ */
+export async function getSmartListsWithCounts(
+  db: PrismaClient,
+  userId: string,
+) {
+  const smartLists = await db.savedSearch.findMany({
+    where: { createdById: userId, isPinned: true },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      viewMode: true,
+      searchParams: true,
+    },
+    orderBy: { name: "asc" },
+  });
+  if (smartLists.length === 0) {
+    return [];
+  }
+
+  const paramsList = smartLists.map((list) =>
+    parseSavedSearchParams(list.searchParams),
+  );
+
+  // 有关键词的列表：匹配数即为数量，只检查一批匹配
+  const keywordCounts = await Promise.all(
+    paramsList.map(async (params) => {
+      const query = params?.query?.trim();
+      if (!params || !query) return null;
+
+      const matches = await findMatchingTasks(
+        db,
+        userId,
+        params,
+        query,
+        FULL_TEXT_BATCH_SIZE,
+      );
+      return { count: matches.ranks.size, truncated: matches.truncated };
+    }),
+  );
+
+  // 没有关键词的列表：在同一个事务中批量 count
+  const countableParams = paramsList.filter(
+    (params): params is AdvancedSearchParams =>
+      !!params && !params.query?.trim(),
+  );
+  const counts = await db.$transaction(
+    countableParams.map((params) =>
+      db.task.count({ where: buildTaskSearchWhere(userId, params) }),
+    ),
+  );
+
+  let countIndex = 0;
+  return smartLists.map(({ searchParams: _searchParams, ...list }, index) => {
+    const params = paramsList[index];
+    const keywordCount = keywordCounts[index];
+
+    return {
+      ...list,
+      count: !params ? null : (keywordCount?.count ?? counts[countIndex++]!),
+      countTruncated: keywordCount?.truncated ?? false,
+    };
+  });
+}
@@ -0,0 +1,158 @@
+/**
+ * 将来/也许服务
+ *
+ * 功能：
+ * 1. 按用户设置的间隔判断是否需要回顾将来/也许清单
+ * 2. 记录回顾时间
+ * 3. 把将来/也许事项转为待办，可同时指定项目
+ */
+
+import { type Prisma, type PrismaClient, TaskStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { getUserSettingsSection } from "@/server/api/schemas/user-settings";
+import {
+  getTaskHistoryStates,
+  recordTaskFieldChanges,
+} from "@/server/services/task-history";
+import { recordTaskStatusChange } from "@/server/services/task-status";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SomedayReviewStatus {
+  count: number;
+  reviewedAt: Date | null;
+  intervalDays: number;
+  nextReviewAt: Date | null; // 清单为空时为 null
+  isDue: boolean;
+}
+
+/**
+ * 获取将来/也许清单的回顾状态
+ * 从未回顾过时，以最早放入清单的事项作为起点计算
+ */
+export async function getSomedayReviewStatus(
+  db: DbClient,
+  userId: string,
+  now = new Date(),
+): Promise<SomedayReviewStatus> {
+  const where = {
+    createdById: userId,
+    status: TaskStatus.SOMEDAY,
+    deletedAt: null,
+  };
+
+  const [user, count, oldest] = await Promise.all([
+    db.user.findUnique({
+      where: { id: userId },
+      select: { settings: true, somedayReviewedAt: true },
+    }),
+    db.task.count({ where }),
+    db.task.findFirst({
+      where,
+      orderBy: { updatedAt: "asc" },
+      select: { updatedAt: true },
+    }),
+  ]);
+
+  const intervalDays = getUserSettingsSection(
+    user?.settings ?? null,
+    "someday",
+  ).reviewIntervalDays;
+  const reviewedAt = user?.somedayReviewedAt ?? null;
+  const since = reviewedAt ?? oldest?.updatedAt ?? null;
+  const nextReviewAt =
+    count > 0 && since
+      ? new Date(since.getTime() + intervalDays * DAY_MS)
+      : null;
+
+  return {
+    count,
+    reviewedAt,
+    intervalDays,
+    nextReviewAt,
+    isDue: !!nextReviewAt && nextReviewAt <= now,
+  };
+}
+
+/**
+ * 记录完成了一次将来/也许清单的回顾
+ */
+export async function markSomedayReviewed(
+  db: DbClient,
+  userId: string,
+  now = new Date(),
+): Promise<Date> {
+  await db.user.update({
+    where: { id: userId },
+    data: { somedayReviewedAt: now },
+  });
+  return now;
+}
+
+/**
+ * 把将来/也许事项转为待办
+ * @param projectId 传入时同时设置项目，null 表示移出项目
+ */
+export async function promoteSomedayTask(
+  db: DbClient,
+  userId: string,
+  taskId: string,
+  projectId?: string | null,
+) {
+  const task = await db.task.findFirst({
+    where: { id: taskId, createdById: userId, deletedAt: null },
+    select: { id: true, title: true, status: true },
+  });
+
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "任务不存在或无权限修改",
+    });
+  }
+
+  if (task.status !== TaskStatus.SOMEDAY) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "只有将来/也许中的事项才能转为待办",
+    });
+  }
+
+  if (projectId) {
+    const project = await db.project.findFirst({
+      where: { id: projectId, createdById: userId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!project) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "项目不存在或无权限访问",
+      });
+    }
+  }
+
+  const historyBefore = await getTaskHistoryStates(db, [taskId]);
+
+  const updated = await db.task.update({
+    where: { id: taskId },
+    data: {
+      status: TaskStatus.TODO,
+      ...(projectId !== undefined && { projectId }),
+    },
+  });
+
+  await recordTaskStatusChange(db, {
+    fromStatus: TaskStatus.SOMEDAY,
+    toStatus: TaskStatus.TODO,
+    taskId,
+    changedById: userId,
+    note: "从将来/也许转为待办",
+  });
+
+  await recordTaskFieldChanges(db, userId, historyBefore);
+
+  return updated;
+}
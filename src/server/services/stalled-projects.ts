@@ -0,0 +1,188 @@
+/**
+ * 停滞项目服务
+ *
+ * 功能：
+ * 1. 找出缺少下一步行动（没有未推迟的待办或进行中任务）的活跃项目
+ * 2. 分析项目停滞的原因：缺少下一步、只剩等待中的任务、超过设定天数没有更新
+ */
+
+import { type Prisma, type PrismaClient, TaskStatus } from "@prisma/client";
+
+import {
+  STALLED_PROJECT_REASONS,
+  type StalledProjectReason,
+} from "@/server/api/schemas/project";
+import { getUserSettingsSection } from "@/server/api/schemas/user-settings";
+import { getNotDeferredTaskWhere } from "@/server/services/task-defer";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 可以立即执行的下一步行动：未推迟的待办或进行中任务
+ */
+export function getNextActionTaskWhere(
+  now = new Date(),
+): Prisma.TaskWhereInput {
+  return {
+    status: { in: [TaskStatus.TODO, TaskStatus.IN_PROGRESS] },
+    deletedAt: null,
+    ...getNotDeferredTaskWhere(now),
+  };
+}
+
+/**
+ * 缺少下一步行动的活跃项目
+ */
+export function getProjectsWithoutNextActionWhere(
+  userId: string,
+  now = new Date(),
+): Prisma.ProjectWhereInput {
+  return {
+    createdById: userId,
+    isArchived: false,
+    deletedAt: null,
+    tasks: { none: getNextActionTaskWhere(now) },
+  };
+}
+
+export interface ProjectStallInfo {
+  reasons: StalledProjectReason[]; // 为空表示项目没有停滞
+  lastActivityAt: Date;
+  nextActionCount: number;
+  waitingTaskCount: number;
+  stalledAfterDays: number;
+}
+
+/**
+ * 分析用户活跃项目的停滞情况
+ * @param projectIds 只分析这些项目，不传时分析全部活跃项目；已归档的项目不会出现在结果中
+ */
+export async function analyzeProjectStalls(
+  db: DbClient,
+  userId: string,
+  projectIds?: string[],
+  now = new Date(),
+): Promise<Map<string, ProjectStallInfo>> {
+  const [user, projects] = await Promise.all([
+    db.user.findUnique({
+      where: { id: userId },
+      select: { settings: true },
+    }),
+    db.project.findMany({
+      where: {
+        createdById: userId,
+        isArchived: false,
+        deletedAt: null,
+        ...(projectIds && { id: { in: projectIds } }),
+      },
+      select: { id: true, updatedAt: true },
+    }),
+  ]);
+
+  const result = new Map<string, ProjectStallInfo>();
+  if (projects.length === 0) {
+    return result;
+  }
+
+  const ids = projects.map((project) => project.id);
+  const [nextActionGroups, waitingGroups, taskActivity, noteActivity] =
+    await Promise.all([
+      db.task.groupBy({
+        by: ["projectId"],
+        where: { projectId: { in: ids }, ...getNextActionTaskWhere(now) },
+        _count: { _all: true },
+      }),
+      db.task.groupBy({
+        by: ["projectId"],
+        where: {
+          projectId: { in: ids },
+          status: TaskStatus.WAITING,
+          deletedAt: null,
+        },
+        _count: { _all: true },
+      }),
+      db.task.groupBy({
+        by: ["projectId"],
+        where: { projectId: { in: ids }, deletedAt: null },
+        _max: { updatedAt: true },
+      }),
+      db.note.groupBy({
+        by: ["projectId"],
+        where: { projectId: { in: ids }, deletedAt: null },
+        _max: { updatedAt: true },
+      }),
+    ]);
+
+  const toMap = <T extends { projectId: string | null }, V>(
+    groups: T[],
+    getValue: (group: T) => V,
+  ) =>
+    new Map(
+      groups
+        .filter((group) => group.projectId)
+        .map((group) => [group.projectId!, getValue(group)]),
+    );
+
+  const nextActionCounts = toMap(nextActionGroups, (g) => g._count._all);
+  const waitingCounts = toMap(waitingGroups, (g) => g._count._all);
+  const taskUpdatedAt = toMap(taskActivity, (g) => g._max.updatedAt);
+  const noteUpdatedAt = toMap(noteActivity, (g) => g._max.updatedAt);
+
+  const stalledAfterDays = getUserSettingsSection(
+    user?.settings ?? null,
+    "projects",
+  ).stalledAfterDays;
+  const inactiveBefore = new Date(now.getTime() - stalledAfterDays * DAY_MS);
+
+  for (const project of projects) {
+    const nextActionCount = nextActionCounts.get(project.id) ?? 0;
+    const waitingTaskCount = waitingCounts.get(project.id) ?? 0;
+    const lastActivityAt = [
+      project.updatedAt,
+      taskUpdatedAt.get(project.id),
+      noteUpdatedAt.get(project.id),
+    ].reduce<Date>(
+      (latest, date) => (date && date > latest ? date : latest),
+      project.updatedAt,
+    );
+
+    const reasons: StalledProjectReason[] = [];
+    if (nextActionCount === 0) {
+      reasons.push(waitingTaskCount > 0 ? "allWaiting" : "noNextAction");
+    }
+    if (lastActivityAt < inactiveBefore) {
+      reasons.push("inactive");
+    }
+
+    result.set(project.id, {
+      reasons,
+      lastActivityAt,
+      nextActionCount,
+      waitingTaskCount,
+      stalledAfterDays,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * 按原因统计停滞项目数量
+ */
+export function countStallReasons(
+  stalls: Iterable<ProjectStallInfo>,
+): Record<StalledProjectReason, number> {
+  const counts = Object.fromEntries(
+    STALLED_PROJECT_REASONS.map((reason) => [reason, 0]),
+  ) as Record<StalledProjectReason, number>;
+
+  for (const stall of stalls) {
+    for (const reason of stall.reasons) {
+      counts[reason] += 1;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,36 @@
+/**
+ * 任务完成后的联动处理
+ *
+ * 任务在任何入口（状态更新、拖拽、计时结束、批量更新、自动完成）变为已完成时调用：
+ * 1. 解除依赖该任务的等待中任务
+ * 2. 为重复任务生成下一个实例
+ */
+
+import { type Prisma, type PrismaClient } from "@prisma/client";
+
+import {
+  type ReleasedTask,
+  releaseDependentTasks,
+} from "@/server/services/task-dependencies";
+import {
+  createNextRecurringInstance,
+  type NextInstanceResult,
+} from "@/server/services/task-recurrence";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface TaskCompletedResult {
+  releasedTasks: ReleasedTask[];
+  nextInstance: NextInstanceResult;
+}
+
+export async function handleTaskCompleted(
+  db: DbClient,
+  taskId: string,
+  userId: string,
+): Promise<TaskCompletedResult> {
+  const releasedTasks = await releaseDependentTasks(db, taskId, userId);
+  const nextInstance = await createNextRecurringInstance(db, taskId, userId);
+
+  return { releasedTasks, nextInstance };
+}
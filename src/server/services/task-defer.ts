@@ -0,0 +1,75 @@
+/**
+ * 推迟任务（Tickler）服务
+ *
+ * 功能：
+ * 1. 推迟日期未到的任务不出现在下一步行动、看板和首页
+ * 2. 定时任务在推迟日期到达时让任务重新出现，可选把“想法”转为待办，并记录状态历史
+ */
+
+import { type Prisma, type PrismaClient, TaskStatus } from "@prisma/client";
+
+import { getUserSettingsSection } from "@/server/api/schemas/user-settings";
+import { recordTaskStatusChange } from "@/server/services/task-status";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * 未推迟或推迟日期已到的任务
+ */
+export function getNotDeferredTaskWhere(
+  now = new Date(),
+): Prisma.TaskWhereInput {
+  return { OR: [{ deferUntil: null }, { deferUntil: { lte: now } }] };
+}
+
+/**
+ * 让推迟日期已到的任务重新出现
+ * @returns 重新出现的任务数量、其中由想法转为待办的数量和涉及的用户
+ */
+export async function resurfaceDeferredTasks(
+  db: DbClient,
+  now = new Date(),
+): Promise<{ resurfaced: number; promoted: number; userIds: string[] }> {
+  const tasks = await db.task.findMany({
+    where: { deferUntil: { lte: now }, deletedAt: null },
+    select: {
+      id: true,
+      status: true,
+      createdById: true,
+      createdBy: { select: { settings: true } },
+    },
+  });
+
+  let promoted = 0;
+  for (const task of tasks) {
+    const promote =
+      task.status === TaskStatus.IDEA &&
+      getUserSettingsSection(task.createdBy.settings, "deferredTasks")
+        .promoteIdeas;
+    const toStatus = promote ? TaskStatus.TODO : task.status;
+
+    await db.task.update({
+      where: { id: task.id },
+      data: { deferUntil: null, status: toStatus },
+    });
+
+    // 状态未变化时同样记录，状态历史中可以看到任务何时重新出现
+    await recordTaskStatusChange(db, {
+      fromStatus: task.status,
+      toStatus,
+      taskId: task.id,
+      changedById: task.createdById,
+      note: promote
+        ? "推迟日期已到，任务重新出现并转为待办"
+        : "推迟日期已到，任务重新出现",
+    });
+
+    if (promote) promoted++;
+  }
+
+  return {
+    resurfaced: tasks.length,
+    promoted,
+    userIds: Array.from(new Set(tasks.map((task) => task.createdById))),
+  };
+}
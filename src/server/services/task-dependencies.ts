@@ -0,0 +1,246 @@
+/**
+ * 任务依赖服务
+ *
+ * 功能：
+ * 1. 校验前置任务（所有权、自身依赖、循环依赖）
+ * 2. 存在未完成的前置任务时，将待办任务转为等待中
+ * 3. 前置任务完成、归档、移到回收站或被移除后，自动解除后续任务的等待状态
+ */
+
+import { type Prisma, type PrismaClient, TaskStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { recordTaskStatusChange } from "@/server/services/task-status";
+import { serverLoggers } from "@/utils/logger-server";
+import { hasOpenBlockers } from "@/utils/task-dependencies";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ReleasedTask {
+  id: string;
+  title: string;
+}
+
+// 前置任务不再阻塞后续任务的原因
+export type BlockerClosedReason = "completed" | "archived" | "trashed";
+
+const BLOCKER_CLOSED_LABELS: Record<BlockerClosedReason, string> = {
+  completed: "已完成",
+  archived: "已归档",
+  trashed: "已移到回收站",
+};
+
+/**
+ * 校验前置任务列表
+ * @param taskId 被阻塞的任务，创建任务时为 null（新任务不可能形成循环）
+ */
+export async function validateBlockers(
+  db: DbClient,
+  taskId: string | null,
+  blockerIds: string[],
+  userId: string,
+): Promise<void> {
+  if (blockerIds.length === 0) {
+    return;
+  }
+
+  if (taskId && blockerIds.includes(taskId)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "任务不能依赖自身",
+    });
+  }
+
+  const blockers = await db.task.findMany({
+    where: { id: { in: blockerIds }, createdById: userId, deletedAt: null },
+    select: { id: true },
+  });
+
+  if (blockers.length !== new Set(blockerIds).size) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "部分前置任务不存在或无权限访问",
+    });
+  }
+
+  if (!taskId) {
+    return;
+  }
+
+  // 沿前置任务链向上遍历，如果能回到当前任务则说明存在循环
+  const visited = new Set<string>();
+  let frontier = [...new Set(blockerIds)];
+
+  while (frontier.length > 0) {
+    frontier.forEach((id) => visited.add(id));
+
+    const edges = await db.taskDependency.findMany({
+      where: { taskId: { in: frontier } },
+      select: { blockerId: true },
+    });
+
+    if (edges.some((edge) => edge.blockerId === taskId)) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "不能添加该前置任务，会形成循环依赖",
+      });
+    }
+
+    frontier = [
+      ...new Set(
+        edges.map((edge) => edge.blockerId).filter((id) => !visited.has(id)),
+      ),
+    ];
+  }
+}
+
+/**
+ * 如果任务仍有未完成的前置任务且处于待办状态，则将其转为等待中
+ * @returns 是否发生了状态变更
+ */
+export async function markTaskWaitingIfBlocked(
+  db: DbClient,
+  taskId: string,
+  userId: string,
+): Promise<boolean> {
+  const task = await db.task.findUnique({
+    where: { id: taskId },
+    select: {
+      status: true,
+      blockedBy: {
+        where: { blocker: { deletedAt: null } },
+        select: { blocker: { select: { status: true } } },
+      },
+    },
+  });
+
+  if (task?.status !== TaskStatus.TODO || !hasOpenBlockers(task)) {
+    return false;
+  }
+
+  await db.task.update({
+    where: { id: taskId },
+    data: { status: TaskStatus.WAITING },
+  });
+
+  await recordTaskStatusChange(db, {
+    fromStatus: TaskStatus.TODO,
+    toStatus: TaskStatus.WAITING,
+    taskId,
+    changedById: userId,
+    note: "存在未完成的前置任务，自动转为等待中",
+  });
+
+  return true;
+}
+
+/**
+ * 前置任务关闭后，将所有前置任务均已关闭的等待中任务转为待办
+ */
+export async function releaseDependentTasks(
+  db: DbClient,
+  blockerId: string,
+  userId: string,
+  reason: BlockerClosedReason = "completed",
+): Promise<ReleasedTask[]> {
+  const dependencies = await db.taskDependency.findMany({
+    where: { blockerId, task: { deletedAt: null } },
+    select: {
+      blocker: { select: { title: true } },
+      task: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          createdById: true,
+          blockedBy: {
+            where: { blocker: { deletedAt: null } },
+            select: { blocker: { select: { status: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  const released: ReleasedTask[] = [];
+
+  for (const { blocker, task } of dependencies) {
+    if (
+      task.createdById !== userId ||
+      task.status !== TaskStatus.WAITING ||
+      hasOpenBlockers(task)
+    ) {
+      continue;
+    }
+
+    await db.task.update({
+      where: { id: task.id },
+      data: { status: TaskStatus.TODO },
+    });
+
+    await recordTaskStatusChange(db, {
+      fromStatus: TaskStatus.WAITING,
+      toStatus: TaskStatus.TODO,
+      taskId: task.id,
+      changedById: userId,
+      note: `前置任务 "${blocker.title}" ${BLOCKER_CLOSED_LABELS[reason]}，自动解除等待`,
+    });
+
+    released.push({ id: task.id, title: task.title });
+  }
+
+  if (released.length > 0) {
+    serverLoggers.app.info(
+      { blockerId, userId, reason, releasedCount: released.length },
+      "前置任务已关闭，已解除后续任务等待",
+    );
+  }
+
+  return released;
+}
+
+/**
+ * 编辑前置任务后，原本被阻塞的等待中任务不再有未关闭的前置任务时转为待办
+ * @param wasBlocked 编辑前是否存在未关闭的前置任务，因其他原因（如等待他人）处于等待中的任务不会被解除
+ * @returns 是否发生了状态变更
+ */
+export async function releaseTaskIfUnblocked(
+  db: DbClient,
+  taskId: string,
+  userId: string,
+  wasBlocked: boolean,
+): Promise<boolean> {
+  if (!wasBlocked) {
+    return false;
+  }
+
+  const task = await db.task.findUnique({
+    where: { id: taskId },
+    select: {
+      status: true,
+      blockedBy: {
+        where: { blocker: { deletedAt: null } },
+        select: { blocker: { select: { status: true } } },
+      },
+    },
+  });
+
+  if (task?.status !== TaskStatus.WAITING || hasOpenBlockers(task)) {
+    return false;
+  }
+
+  await db.task.update({
+    where: { id: taskId },
+    data: { status: TaskStatus.TODO },
+  });
+
+  await recordTaskStatusChange(db, {
+    fromStatus: TaskStatus.WAITING,
+    toStatus: TaskStatus.TODO,
+    taskId,
+    changedById: userId,
+    note: "前置任务已移除，自动解除等待",
+  });
+
+  return true;
+}
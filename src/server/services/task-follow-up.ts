@@ -0,0 +1,162 @@
+/**
+ * 等待跟进服务
+ *
+ * 功能：
+ * 1. 校验等待对象（联系人）的所有权
+ * 2. 定时任务在跟进日期到达时为等待中的任务发出提醒，并发送站内通知
+ * 3. 记录一次跟进：安排下一次跟进日期或结束跟进，并写入变更历史
+ * 4. 查询已发出、尚未处理的跟进提醒
+ */
+
+import {
+  NotificationType,
+  type Prisma,
+  type PrismaClient,
+  TaskStatus,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { createNotifications } from "@/server/services/notifications";
+import {
+  getTaskHistoryStates,
+  recordTaskFieldChanges,
+} from "@/server/services/task-history";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * 校验联系人属于当前用户
+ */
+export async function assertContactOwned(
+  db: DbClient,
+  userId: string,
+  contactId: string,
+): Promise<void> {
+  const contact = await db.contact.findFirst({
+    where: { id: contactId, createdById: userId },
+    select: { id: true },
+  });
+
+  if (!contact) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "联系人不存在或无权限访问",
+    });
+  }
+}
+
+/**
+ * 跟进日期已到、提醒已发出但尚未处理的等待任务
+ */
+export function getFollowUpReminderWhere(
+  userId: string,
+): Prisma.TaskWhereInput {
+  return {
+    createdById: userId,
+    status: TaskStatus.WAITING,
+    deletedAt: null,
+    followUpRemindedAt: { not: null },
+  };
+}
+
+/**
+ * 为跟进日期已到的等待任务发出提醒
+ * @returns 发出的提醒数量和涉及的用户
+ */
+export async function raiseDueFollowUps(
+  db: DbClient,
+  now = new Date(),
+): Promise<{ raised: number; userIds: string[] }> {
+  const tasks = await db.task.findMany({
+    where: {
+      status: TaskStatus.WAITING,
+      deletedAt: null,
+      followUpAt: { lte: now },
+      followUpRemindedAt: null,
+    },
+    select: {
+      id: true,
+      title: true,
+      createdById: true,
+      followUpAt: true,
+      waitingFor: { select: { name: true } },
+    },
+  });
+
+  if (tasks.length === 0) {
+    return { raised: 0, userIds: [] };
+  }
+
+  const result = await db.task.updateMany({
+    where: { id: { in: tasks.map((task) => task.id) } },
+    data: { followUpRemindedAt: now },
+  });
+
+  await createNotifications(
+    db,
+    tasks.map((task) => ({
+      userId: task.createdById,
+      type: NotificationType.FOLLOW_UP,
+      title: `该跟进了：${task.title}`,
+      body: task.waitingFor
+        ? `等待 ${task.waitingFor.name} 的回复`
+        : "跟进日期已到",
+      link: "/tasks/waiting",
+      taskId: task.id,
+      dedupeKey: `follow-up:${task.id}:${task.followUpAt!.toISOString()}`,
+    })),
+  );
+
+  return {
+    raised: result.count,
+    userIds: Array.from(new Set(tasks.map((task) => task.createdById))),
+  };
+}
+
+/**
+ * 记录一次跟进
+ * @param nextFollowUpAt 下一次跟进日期，null 表示不再安排跟进
+ */
+export async function recordFollowUp(
+  db: DbClient,
+  userId: string,
+  taskId: string,
+  nextFollowUpAt: Date | null,
+  note?: string,
+) {
+  const task = await db.task.findFirst({
+    where: { id: taskId, createdById: userId, deletedAt: null },
+    select: { id: true, status: true },
+  });
+
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "任务不存在或无权限修改",
+    });
+  }
+
+  if (task.status !== TaskStatus.WAITING) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "只有等待中的任务才能记录跟进",
+    });
+  }
+
+  const historyBefore = await getTaskHistoryStates(db, [taskId]);
+
+  const updated = await db.task.update({
+    where: { id: taskId },
+    data: { followUpAt: nextFollowUpAt, followUpRemindedAt: null },
+    include: { waitingFor: true },
+  });
+
+  await recordTaskFieldChanges(
+    db,
+    userId,
+    historyBefore,
+    note?.trim() ? `已跟进：${note.trim()}` : "已跟进",
+  );
+
+  return updated;
+}
@@ -0,0 +1,87 @@
+/**
+ * 子任务与检查项服务
+ *
+ * 功能：
+ * 1. 子任务、检查项全部完成后自动完成父任务（需父任务开启 autoComplete）
+ * 2. 记录自动完成的状态历史
+ * 3. 自动完成后执行完成联动（解除后续任务等待、生成重复任务实例）
+ */
+
+import { type Prisma, type PrismaClient, TaskStatus } from "@prisma/client";
+
+import { handleTaskCompleted } from "@/server/services/task-completion";
+import { recordTaskStatusChange } from "@/server/services/task-status";
+import { serverLoggers } from "@/utils/logger-server";
+import { getTaskProgress } from "@/utils/task-progress";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface AutoCompleteResult {
+  completed: boolean;
+  taskId?: string;
+  title?: string;
+}
+
+/**
+ * 如果任务开启了自动完成且所有子项均已完成，则将其标记为已完成
+ */
+export async function autoCompleteTaskIfReady(
+  db: DbClient,
+  taskId: string,
+  userId: string,
+): Promise<AutoCompleteResult> {
+  const task = await db.task.findUnique({
+    where: { id: taskId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      autoComplete: true,
+      createdById: true,
+      subtasks: { where: { deletedAt: null }, select: { status: true } },
+      checklistItems: { select: { isCompleted: true } },
+    },
+  });
+
+  if (
+    task?.createdById !== userId ||
+    !task.autoComplete ||
+    task.status === TaskStatus.DONE ||
+    task.status === TaskStatus.ARCHIVED
+  ) {
+    return { completed: false };
+  }
+
+  const progress = getTaskProgress(task);
+  if (!progress || progress.completed < progress.total) {
+    return { completed: false };
+  }
+
+  await db.task.update({
+    where: { id: task.id },
+    data: {
+      status: TaskStatus.DONE,
+      completedAt: new Date(),
+      completedCount: { increment: 1 },
+      isTimerActive: false,
+      timerStartedAt: null,
+    },
+  });
+
+  await recordTaskStatusChange(db, {
+    fromStatus: task.status,
+    toStatus: TaskStatus.DONE,
+    taskId: task.id,
+    changedById: userId,
+    note: "所有子任务和检查项已完成，自动完成",
+  });
+
+  serverLoggers.app.info(
+    { taskId: task.id, userId, total: progress.total },
+    "父任务已自动完成",
+  );
+
+  await handleTaskCompleted(db, task.id, userId);
+
+  return { completed: true, taskId: task.id, title: task.title };
+}
@@ -0,0 +1,228 @@
+/**
+ * 任务变更历史服务
+ *
+ * 功能：
+ * 1. 记录任务字段级的变更（标题、描述、截止日期/时间、推迟日期、优先级、项目、标签、反馈），延期时附带备注
+ * 2. 合并状态历史、计时记录和字段变更，生成任务的活动时间线
+ *
+ * 项目和标签记录变更时的名称，项目或标签之后被删除或改名时历史仍然可读
+ */
+
+import {
+  type Prisma,
+  type PrismaClient,
+  type TaskStatus,
+} from "@prisma/client";
+
+import {
+  TASK_HISTORY_FIELDS,
+  type TaskHistoryField,
+} from "@/server/api/schemas/task";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// 每类记录最多返回的条数
+const ACTIVITY_LIMIT = 100;
+
+// 任务在某一时刻的可追踪字段（均为展示用的文本）
+export type TaskHistoryState = Record<TaskHistoryField, string | null>;
+
+export type TaskActivityItem =
+  | { id: string; type: "created"; at: Date }
+  | {
+      id: string;
+      type: "status";
+      at: Date;
+      fromStatus: TaskStatus | null;
+      toStatus: TaskStatus;
+      note: string | null;
+    }
+  | {
+      id: string;
+      type: "field";
+      at: Date;
+      field: TaskHistoryField;
+      oldValue: string | null;
+      newValue: string | null;
+      note: string | null;
+    }
+  | {
+      id: string;
+      type: "time";
+      at: Date;
+      endTime: Date | null;
+      duration: number | null;
+      description: string | null;
+    };
+
+const taskHistorySelect = {
+  id: true,
+  title: true,
+  description: true,
+  dueDate: true,
+  dueTime: true,
+  deferUntil: true,
+  priority: true,
+  feedback: true,
+  followUpAt: true,
+  project: { select: { name: true } },
+  waitingFor: { select: { name: true } },
+  tags: {
+    select: { tag: { select: { name: true } } },
+    orderBy: { sortOrder: "asc" },
+  },
+} satisfies Prisma.TaskSelect;
+
+function toHistoryState(
+  task: Prisma.TaskGetPayload<{ select: typeof taskHistorySelect }>,
+): TaskHistoryState {
+  return {
+    title: task.title,
+    description: task.description ?? null,
+    dueDate: task.dueDate?.toISOString().split("T")[0] ?? null,
+    dueTime: task.dueTime ?? null,
+    deferUntil: task.deferUntil?.toISOString().split("T")[0] ?? null,
+    priority: task.priority,
+    project: task.project?.name ?? null,
+    waitingFor: task.waitingFor?.name ?? null,
+    followUpAt: task.followUpAt?.toISOString().split("T")[0] ?? null,
+    tags: task.tags.map(({ tag }) => tag.name).join("、") || null,
+    feedback: task.feedback ?? null,
+  };
+}
+
+/**
+ * 读取任务当前的可追踪字段，用于和变更后的状态比较
+ */
+export async function getTaskHistoryStates(
+  db: DbClient,
+  taskIds: string[],
+): Promise<Map<string, TaskHistoryState>> {
+  const tasks = await db.task.findMany({
+    where: { id: { in: taskIds } },
+    select: taskHistorySelect,
+  });
+
+  return new Map(tasks.map((task) => [task.id, toHistoryState(task)]));
+}
+
+/**
+ * 比较变更前后的字段并记录变更历史
+ * @param before getTaskHistoryStates 在变更前读取的状态
+ * @returns 记录的变更数量
+ */
+export async function recordTaskFieldChanges(
+  db: DbClient,
+  userId: string,
+  before: Map<string, TaskHistoryState>,
+  note?: string,
+): Promise<number> {
+  const after = await getTaskHistoryStates(db, Array.from(before.keys()));
+
+  const changes: Prisma.TaskFieldChangeCreateManyInput[] = [];
+  for (const [taskId, oldState] of before) {
+    const newState = after.get(taskId);
+    if (!newState) continue;
+
+    for (const field of TASK_HISTORY_FIELDS) {
+      if (oldState[field] === newState[field]) continue;
+      changes.push({
+        field,
+        oldValue: oldState[field],
+        newValue: newState[field],
+        note: note ?? null,
+        taskId,
+        changedById: userId,
+      });
+    }
+  }
+
+  if (changes.length === 0) return 0;
+
+  const result = await db.taskFieldChange.createMany({ data: changes });
+  return result.count;
+}
+
+/**
+ * 获取任务的活动时间线（按时间倒序）
+ */
+export async function getTaskActivity(
+  db: DbClient,
+  taskId: string,
+): Promise<TaskActivityItem[]> {
+  const [task, statusHistory, fieldChanges, timeEntries] = await Promise.all([
+    db.task.findUnique({
+      where: { id: taskId },
+      select: {
+        createdAt: true,
+        completedAt: true,
+        updatedAt: true,
+        feedback: true,
+      },
+    }),
+    db.taskStatusHistory.findMany({
+      where: { taskId },
+      orderBy: { changedAt: "desc" },
+      take: ACTIVITY_LIMIT,
+    }),
+    db.taskFieldChange.findMany({
+      where: { taskId },
+      orderBy: { changedAt: "desc" },
+      take: ACTIVITY_LIMIT,
+    }),
+    db.timeEntry.findMany({
+      where: { taskId },
+      orderBy: { startTime: "desc" },
+      take: ACTIVITY_LIMIT,
+    }),
+  ]);
+
+  if (!task) return [];
+
+  const items: TaskActivityItem[] = [
+    { id: `created-${taskId}`, type: "created", at: task.createdAt },
+    ...statusHistory.map((history) => ({
+      id: history.id,
+      type: "status" as const,
+      at: history.changedAt,
+      fromStatus: history.fromStatus,
+      toStatus: history.toStatus,
+      note: history.note,
+    })),
+    ...fieldChanges.map((change) => ({
+      id: change.id,
+      type: "field" as const,
+      at: change.changedAt,
+      field: change.field as TaskHistoryField,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      note: change.note,
+    })),
+    ...timeEntries.map((entry) => ({
+      id: entry.id,
+      type: "time" as const,
+      at: entry.startTime,
+      endTime: entry.endTime,
+      duration: entry.duration,
+      description: entry.description,
+    })),
+  ];
+
+  // 开始记录变更历史之前填写的反馈，以完成时间展示
+  if (
+    task.feedback &&
+    !fieldChanges.some((change) => change.field === "feedback")
+  ) {
+    items.push({
+      id: `feedback-${taskId}`,
+      type: "field",
+      at: task.completedAt ?? task.updatedAt,
+      field: "feedback",
+      oldValue: null,
+      newValue: task.feedback,
+      note: null,
+    });
+  }
+
+  return items.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
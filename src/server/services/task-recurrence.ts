@@ -0,0 +1,342 @@
+/**
+ * 重复任务服务
+ *
+ * 功能：
+ * 1. 根据重复规则计算下一个到期日期（固定周期 / 完成后重复）
+ * 2. 生成下一个任务实例（同一系列同一到期日只生成一次）
+ * 3. 规则结束（COUNT/UNTIL）后不再生成
+ * 4. 按用户设置提前生成未来 N 天内的实例，并处理停机期间错过的实例
+ */
+
+import {
+  Prisma,
+  type PrismaClient,
+  type Task,
+  TaskStatus,
+} from "@prisma/client";
+
+import { type RecurringTaskSettings } from "@/server/api/schemas/user-settings";
+import { emitTaskCreatedEvent } from "@/server/services/webhooks";
+import { serverLoggers } from "@/utils/logger-server";
+import {
+  getNextOccurrence,
+  getOccurrences,
+  parseDateOnly,
+  parseRecurringPattern,
+  patternToRule,
+  toUTCDay,
+} from "@/utils/recurrence";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 单个系列每次最多生成的实例数，避免规则配置错误时批量刷屏
+const MAX_INSTANCES_PER_RUN = 60;
+// 单个系列每次最多计算的发生日期数（含错过的日期）
+const MAX_OCCURRENCES_PER_RUN = 1000;
+
+type TemplateTask = Pick<
+  Task,
+  | "title"
+  | "description"
+  | "type"
+  | "priority"
+  | "dueTime"
+  | "projectId"
+  | "recurringPattern"
+> & { tags: Array<{ tagId: string; sortOrder: number | null }> };
+
+export interface PregenerateResult {
+  series: number;
+  created: number;
+  skippedMissed: number;
+}
+
+export interface NextInstanceResult {
+  created: boolean;
+  task?: Task;
+  reason?: "not_recurring" | "finished" | "exists";
+}
+
+/**
+ * 为重复任务生成下一个实例
+ * 实例统一挂在系列的原始任务（parentTaskId 为空的任务）下，并以原始任务的重复规则为准
+ */
+export async function createNextRecurringInstance(
+  db: DbClient,
+  taskId: string,
+  userId: string,
+): Promise<NextInstanceResult> {
+  const task = await db.task.findUnique({
+    where: { id: taskId },
+    include: {
+      tags: { select: { tagId: true, sortOrder: true } },
+      parentTask: {
+        select: {
+          id: true,
+          isRecurring: true,
+          recurringPattern: true,
+          dueDate: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  if (task?.createdById !== userId || !task.isRecurring) {
+    return { created: false, reason: "not_recurring" };
+  }
+
+  const root = task.parentTask ?? task;
+  const pattern = parseRecurringPattern(root.recurringPattern);
+  if (!root.isRecurring || !pattern) {
+    return { created: false, reason: "not_recurring" };
+  }
+
+  const instanceCount =
+    1 + (await db.task.count({ where: { parentTaskId: root.id } }));
+
+  let nextDueDate: Date | null;
+  try {
+    nextDueDate = getNextOccurrence(pattern, {
+      seriesStart: root.dueDate ?? root.createdAt,
+      currentDueDate: task.dueDate,
+      completedAt: task.completedAt ?? new Date(),
+      instanceCount,
+    });
+  } catch (error) {
+    serverLoggers.app.warn(
+      { taskId, error: error instanceof Error ? error.message : error },
+      "重复规则无效，跳过生成下一个实例",
+    );
+    return { created: false, reason: "not_recurring" };
+  }
+
+  if (!nextDueDate) {
+    return { created: false, reason: "finished" };
+  }
+
+  return createRecurringInstance(db, {
+    template: task,
+    rootId: root.id,
+    recurringPattern: root.recurringPattern,
+    dueDate: nextDueDate,
+    dueTime: pattern.time ?? task.dueTime,
+    userId,
+    note: "重复任务实例创建",
+  });
+}
+
+/**
+ * 创建重复系列的一个实例（同一系列同一到期日只生成一个实例）
+ */
+async function createRecurringInstance(
+  db: DbClient,
+  params: {
+    template: TemplateTask;
+    rootId: string;
+    recurringPattern: string | null;
+    dueDate: Date;
+    dueTime: string | null;
+    userId: string;
+    note: string;
+  },
+): Promise<NextInstanceResult> {
+  const { template, rootId, dueDate, userId } = params;
+
+  // 重复完成、重新打开后再完成、定时任务已提前生成等情况下不重复创建
+  const existing = await db.task.findFirst({
+    where: {
+      OR: [{ id: rootId }, { parentTaskId: rootId }],
+      dueDate,
+    },
+  });
+  if (existing) {
+    return { created: false, task: existing, reason: "exists" };
+  }
+
+  // 获取TODO状态下的最小sortOrder值，新循环任务排在第一位
+  const minSortOrder = await db.task.findFirst({
+    where: { createdById: userId, status: TaskStatus.TODO },
+    select: { sortOrder: true },
+    orderBy: { sortOrder: "asc" },
+  });
+
+  let newTask;
+  try {
+    newTask = await db.task.create({
+      data: {
+        title: template.title,
+        description: template.description,
+        type: template.type,
+        priority: template.priority,
+        status: TaskStatus.TODO,
+        sortOrder: (minSortOrder?.sortOrder ?? 0) - 1024,
+        dueDate,
+        dueTime: params.dueTime,
+        isRecurring: true,
+        recurringPattern: params.recurringPattern,
+        parentTaskId: rootId,
+        projectId: template.projectId,
+        createdById: userId,
+        tags: {
+          create: template.tags.map((taskTag) => ({
+            tag: { connect: { id: taskTag.tagId } },
+            sortOrder: taskTag.sortOrder ?? 0, // 保持原有的sortOrder
+          })),
+        },
+      },
+      include: { tags: { select: { tag: { select: { name: true } } } } },
+    });
+  } catch (error) {
+    // 并发生成同一实例时（如重复提交完成、定时任务同时运行），由唯一索引拦截后到的一方
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      const concurrent = await db.task.findFirst({
+        where: { parentTaskId: rootId, dueDate },
+      });
+      return {
+        created: false,
+        task: concurrent ?? undefined,
+        reason: "exists",
+      };
+    }
+    throw error;
+  }
+
+  await db.taskStatusHistory.create({
+    data: {
+      fromStatus: null,
+      toStatus: TaskStatus.TODO,
+      taskId: newTask.id,
+      changedById: userId,
+      note: params.note,
+    },
+  });
+
+  await emitTaskCreatedEvent(db, newTask);
+
+  serverLoggers.app.info(
+    { rootId, newTaskId: newTask.id, userId, dueDate },
+    "已生成重复任务实例",
+  );
+
+  return { created: true, task: newTask };
+}
+
+/**
+ * 为用户的所有重复任务提前生成未来 N 天内到期的实例
+ *
+ * - 只处理固定周期的系列；完成后重复的系列依赖完成时间，仍在完成时生成
+ * - 从系列中最晚的实例之后开始补齐，因此服务停机后重新运行也能追上进度
+ * - 早于今天的实例视为错过，按用户设置跳过、只补最近一次或全部补上
+ */
+export async function pregenerateRecurringInstances(
+  db: DbClient,
+  userId: string,
+  settings: RecurringTaskSettings,
+  now: Date = new Date(),
+): Promise<PregenerateResult> {
+  const result: PregenerateResult = { series: 0, created: 0, skippedMissed: 0 };
+  if (settings.generateAheadDays <= 0) {
+    return result;
+  }
+
+  const today = toUTCDay(now);
+  const yesterday = new Date(today.getTime() - DAY_MS);
+  const horizon = new Date(
+    today.getTime() + settings.generateAheadDays * DAY_MS,
+  );
+
+  const roots = await db.task.findMany({
+    where: {
+      createdById: userId,
+      deletedAt: null,
+      isRecurring: true,
+      parentTaskId: null,
+      recurringPattern: { not: null },
+      status: { not: TaskStatus.ARCHIVED },
+    },
+    include: {
+      tags: { select: { tagId: true, sortOrder: true } },
+      childTasks: {
+        where: { dueDate: { not: null } },
+        orderBy: { dueDate: "desc" },
+        take: 1,
+        include: { tags: { select: { tagId: true, sortOrder: true } } },
+      },
+    },
+  });
+
+  for (const root of roots) {
+    const pattern = parseRecurringPattern(root.recurringPattern);
+    if (!pattern || pattern.mode === "afterCompletion") continue;
+
+    let dueDates: Date[];
+    try {
+      const seriesStart =
+        parseDateOnly(pattern.startDate ?? "") ??
+        toUTCDay(root.dueDate ?? root.createdAt);
+      const latest = root.childTasks[0];
+      // 从系列中最晚的实例之后开始生成；跳过错过的实例时最早从今天开始，
+      // 否则跳过的日期不会生成实例，每次运行都会重新计算并计入 skippedMissed
+      let after = latest?.dueDate ?? root.dueDate ?? root.createdAt;
+      if (settings.missedOccurrences === "skip" && after < yesterday) {
+        after = yesterday;
+      }
+
+      const rule = patternToRule(pattern, seriesStart);
+      dueDates = getOccurrences(rule, seriesStart, {
+        after,
+        limit: MAX_OCCURRENCES_PER_RUN,
+      }).filter((date) => date <= horizon);
+    } catch (error) {
+      serverLoggers.app.warn(
+        {
+          taskId: root.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "重复规则无效，跳过提前生成",
+      );
+      continue;
+    }
+
+    // 处理错过的实例
+    const missed = dueDates.filter((date) => date < today);
+    const upcoming = dueDates.filter((date) => date >= today);
+    const missedToCreate =
+      settings.missedOccurrences === "all"
+        ? missed
+        : settings.missedOccurrences === "latest"
+          ? missed.slice(-1)
+          : [];
+    result.skippedMissed += missed.length - missedToCreate.length;
+
+    const template = root.childTasks[0] ?? root;
+    result.series++;
+
+    const toCreate = [...missedToCreate, ...upcoming].slice(
+      0,
+      MAX_INSTANCES_PER_RUN,
+    );
+    for (const dueDate of toCreate) {
+      const instance = await createRecurringInstance(db, {
+        template,
+        rootId: root.id,
+        recurringPattern: root.recurringPattern,
+        dueDate,
+        dueTime: pattern.time ?? template.dueTime,
+        userId,
+        note:
+          dueDate < today
+            ? "定时任务补生成错过的重复任务实例"
+            : "定时任务提前生成重复任务实例",
+      });
+      if (instance.created) result.created++;
+    }
+  }
+
+  return result;
+}
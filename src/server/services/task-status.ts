@@ -0,0 +1,84 @@
+/**
+ * 任务状态变更记录
+ *
+ * 任务在任何入口（状态更新、编辑、拖拽、批量更新、计时、归档、重启、自动完成、依赖解除、撤销等）
+ * 变更状态后调用：
+ * 1. 记录状态历史
+ * 2. 触发 task.status_changed Webhook 事件
+ */
+
+import {
+  type Prisma,
+  type PrismaClient,
+  type TaskStatus,
+} from "@prisma/client";
+
+import {
+  emitWebhookEvent,
+  toWebhookTask,
+  webhookTaskSelect,
+} from "@/server/services/webhooks";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface TaskStatusChange {
+  taskId: string;
+  fromStatus: TaskStatus;
+  toStatus: TaskStatus;
+  changedById: string;
+  note?: string | null;
+}
+
+/**
+ * 批量记录状态变更；状态未变化的记录只写入历史，不触发事件
+ */
+export async function recordTaskStatusChanges(
+  db: DbClient,
+  changes: TaskStatusChange[],
+): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  await db.taskStatusHistory.createMany({
+    data: changes.map((change) => ({
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      taskId: change.taskId,
+      changedById: change.changedById,
+      note: change.note,
+    })),
+  });
+
+  const changed = changes.filter(
+    (change) => change.fromStatus !== change.toStatus,
+  );
+  if (changed.length === 0) {
+    return;
+  }
+
+  const tasks = await db.task.findMany({
+    where: { id: { in: changed.map((change) => change.taskId) } },
+    select: { ...webhookTaskSelect, createdById: true },
+  });
+  const taskMap = new Map(tasks.map((task) => [task.id, task]));
+
+  for (const change of changed) {
+    const task = taskMap.get(change.taskId);
+    if (!task) continue;
+
+    await emitWebhookEvent(db, task.createdById, "task.status_changed", {
+      task: toWebhookTask(task),
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      note: change.note ?? null,
+    });
+  }
+}
+
+export async function recordTaskStatusChange(
+  db: DbClient,
+  change: TaskStatusChange,
+): Promise<void> {
+  await recordTaskStatusChanges(db, [change]);
+}
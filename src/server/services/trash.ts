@@ -0,0 +1,465 @@
+/**
+ * 回收站服务
+ *
+ * 功能：
+ * 1. 删除任务、笔记、日记和项目时移到回收站（软删除），标签、笔记关联、用时和状态历史全部保留
+ * 2. 按类型列出回收站内容，恢复或永久删除
+ * 3. 定时清理超过保留期的内容
+ *
+ * 删除任务时一并删除其子任务；恢复任务时一并恢复子任务和已删除的父任务，
+ * 恢复任务或笔记时如果所属项目也在回收站中，项目会一起恢复
+ */
+
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import {
+  type GetTrashItemsInput,
+  type TrashItemType,
+} from "@/server/api/schemas/trash";
+import { releaseDependentTasks } from "@/server/services/task-dependencies";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 回收站预览内容的最大长度
+const PREVIEW_LENGTH = 120;
+
+export interface TrashItem {
+  id: string;
+  type: TrashItemType;
+  title: string;
+  date: Date | null; // 日记的日期
+  detail: string | null;
+  deletedAt: Date;
+  purgeAt: Date; // 超过保留期后自动永久删除的时间
+}
+
+function toPreview(text: string | null | undefined) {
+  if (!text) return null;
+  const plain = text.replace(/\s+/g, " ").trim();
+  return plain.length > PREVIEW_LENGTH
+    ? `${plain.slice(0, PREVIEW_LENGTH)}…`
+    : plain || null;
+}
+
+// 沿子任务关系向下收集所有后代任务
+async function collectSubtaskIds(
+  db: DbClient,
+  userId: string,
+  taskIds: string[],
+  deleted: boolean,
+) {
+  const collected = new Set(taskIds);
+  let frontier = taskIds;
+
+  while (frontier.length > 0) {
+    const children = await db.task.findMany({
+      where: {
+        parentId: { in: frontier },
+        createdById: userId,
+        deletedAt: deleted ? { not: null } : null,
+      },
+      select: { id: true },
+    });
+    frontier = children
+      .map((child) => child.id)
+      .filter((id) => !collected.has(id));
+    frontier.forEach((id) => collected.add(id));
+  }
+
+  return Array.from(collected);
+}
+
+/**
+ * 将任务及其子任务移到回收站，并解除只被这些任务阻塞的等待中任务
+ * @returns 移到回收站的任务数量（包含子任务）
+ */
+export async function moveTasksToTrash(
+  db: DbClient,
+  userId: string,
+  taskIds: string[],
+): Promise<number> {
+  const ids = await collectSubtaskIds(db, userId, taskIds, false);
+  const result = await db.task.updateMany({
+    where: { id: { in: ids }, createdById: userId, deletedAt: null },
+    data: { deletedAt: new Date() },
+  });
+
+  for (const id of ids) {
+    await releaseDependentTasks(db, id, userId, "trashed");
+  }
+
+  return result.count;
+}
+
+/**
+ * 将笔记、日记或项目移到回收站
+ */
+export async function moveToTrash(
+  db: DbClient,
+  userId: string,
+  type: Exclude<TrashItemType, "task">,
+  ids: string[],
+): Promise<number> {
+  const where = { id: { in: ids }, createdById: userId, deletedAt: null };
+  const data = { deletedAt: new Date() };
+
+  switch (type) {
+    case "note":
+      return (await db.note.updateMany({ where, data })).count;
+    case "journal":
+      return (await db.journal.updateMany({ where, data })).count;
+    case "project":
+      return (await db.project.updateMany({ where, data })).count;
+  }
+}
+
+/**
+ * 按类型统计回收站中的内容数量
+ */
+export async function getTrashCounts(
+  db: DbClient,
+  userId: string,
+): Promise<Record<TrashItemType, number>> {
+  const where = { createdById: userId, deletedAt: { not: null } };
+  const [task, note, journal, project] = await Promise.all([
+    // 与父任务一起删除的子任务随父任务显示，不单独计数
+    db.task.count({
+      where: {
+        ...where,
+        OR: [{ parentId: null }, { parent: { deletedAt: null } }],
+      },
+    }),
+    db.note.count({ where }),
+    db.journal.count({ where }),
+    db.project.count({ where }),
+  ]);
+
+  return { task, note, journal, project };
+}
+
+/**
+ * 获取回收站中某类内容的列表，按删除时间倒序
+ */
+export async function getTrashItems(
+  db: DbClient,
+  userId: string,
+  input: GetTrashItemsInput,
+  retentionDays: number,
+) {
+  const { type, limit, cursor } = input;
+  const query = {
+    take: limit + 1,
+    cursor: cursor ? { id: cursor } : undefined,
+    orderBy: [{ deletedAt: "desc" as const }, { id: "asc" as const }],
+  };
+  const where = { createdById: userId, deletedAt: { not: null } };
+
+  let rows: Array<Omit<TrashItem, "type" | "purgeAt">>;
+  let totalCount: number;
+
+  switch (type) {
+    case "task": {
+      const taskWhere = {
+        ...where,
+        OR: [{ parentId: null }, { parent: { deletedAt: null } }],
+      };
+      const [tasks, count] = await Promise.all([
+        db.task.findMany({
+          ...query,
+          where: taskWhere,
+          select: {
+            id: true,
+            title: true,
+            deletedAt: true,
+            project: { select: { name: true } },
+            _count: { select: { subtasks: true } },
+          },
+        }),
+        db.task.count({ where: taskWhere }),
+      ]);
+      rows = tasks.map((task) => ({
+        id: task.id,
+        title: task.title,
+        date: null,
+        detail:
+          [
+            task.project ? `项目：${task.project.name}` : null,
+            task._count.subtasks > 0
+              ? `${task._count.subtasks} 个子任务`
+              : null,
+          ]
+            .filter(Boolean)
+            .join(" · ") || null,
+        deletedAt: task.deletedAt!,
+      }));
+      totalCount = count;
+      break;
+    }
+    case "note": {
+      const [notes, count] = await Promise.all([
+        db.note.findMany({
+          ...query,
+          where,
+          select: {
+            id: true,
+            title: true,
+            summary: true,
+            content: true,
+            deletedAt: true,
+          },
+        }),
+        db.note.count({ where }),
+      ]);
+      rows = notes.map((note) => ({
+        id: note.id,
+        title: note.title,
+        date: null,
+        detail: toPreview(note.summary ?? note.content),
+        deletedAt: note.deletedAt!,
+      }));
+      totalCount = count;
+      break;
+    }
+    case "journal": {
+      const [journals, count] = await Promise.all([
+        db.journal.findMany({
+          ...query,
+          where,
+          select: { id: true, date: true, content: true, deletedAt: true },
+        }),
+        db.journal.count({ where }),
+      ]);
+      rows = journals.map((journal) => ({
+        id: journal.id,
+        title: "",
+        date: journal.date,
+        detail: toPreview(journal.content),
+        deletedAt: journal.deletedAt!,
+      }));
+      totalCount = count;
+      break;
+    }
+    case "project": {
+      const [projects, count] = await Promise.all([
+        db.project.findMany({
+          ...query,
+          where,
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            deletedAt: true,
+          },
+        }),
+        db.project.count({ where }),
+      ]);
+      rows = projects.map((project) => ({
+        id: project.id,
+        title: project.name,
+        date: null,
+        detail: toPreview(project.description),
+        deletedAt: project.deletedAt!,
+      }));
+      totalCount = count;
+      break;
+    }
+  }
+
+  let nextCursor: string | undefined = undefined;
+  if (rows.length > limit) {
+    nextCursor = rows.pop()!.id;
+  }
+
+  const items: TrashItem[] = rows.map((row) => ({
+    ...row,
+    type,
+    purgeAt: new Date(row.deletedAt.getTime() + retentionDays * DAY_MS),
+  }));
+
+  return { items, nextCursor, totalCount };
+}
+
+// 恢复项目（如果在回收站中）
+async function restoreProjects(
+  db: DbClient,
+  userId: string,
+  projectIds: Array<string | null>,
+) {
+  const ids = projectIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return 0;
+
+  const result = await db.project.updateMany({
+    where: { id: { in: ids }, createdById: userId, deletedAt: { not: null } },
+    data: { deletedAt: null },
+  });
+  return result.count;
+}
+
+async function restoreTasks(db: DbClient, userId: string, taskIds: string[]) {
+  // 已删除的父任务需要一起恢复，否则恢复的子任务无法显示
+  const ids = new Set(taskIds);
+  let frontier = taskIds;
+  while (frontier.length > 0) {
+    const tasks = await db.task.findMany({
+      where: { id: { in: frontier }, createdById: userId },
+      select: { parent: { select: { id: true, deletedAt: true } } },
+    });
+    frontier = tasks
+      .map((task) => task.parent)
+      .filter((parent) => parent?.deletedAt && !ids.has(parent.id))
+      .map((parent) => parent!.id);
+    frontier.forEach((id) => ids.add(id));
+  }
+
+  const allIds = await collectSubtaskIds(db, userId, Array.from(ids), true);
+  const tasks = await db.task.findMany({
+    where: {
+      id: { in: allIds },
+      createdById: userId,
+      deletedAt: { not: null },
+    },
+    select: { id: true, projectId: true },
+  });
+
+  await restoreProjects(
+    db,
+    userId,
+    tasks.map((task) => task.projectId),
+  );
+  const result = await db.task.updateMany({
+    where: { id: { in: tasks.map((task) => task.id) } },
+    data: { deletedAt: null },
+  });
+  return result.count;
+}
+
+/**
+ * 从回收站恢复
+ * @returns 恢复的数量（任务包含一起恢复的子任务和父任务）
+ */
+export async function restoreFromTrash(
+  db: DbClient,
+  userId: string,
+  type: TrashItemType,
+  ids: string[],
+): Promise<number> {
+  const where = {
+    id: { in: ids },
+    createdById: userId,
+    deletedAt: { not: null },
+  };
+  const data = { deletedAt: null };
+
+  switch (type) {
+    case "task": {
+      const tasks = await db.task.findMany({ where, select: { id: true } });
+      if (tasks.length !== ids.length) break;
+      return restoreTasks(
+        db,
+        userId,
+        tasks.map((task) => task.id),
+      );
+    }
+    case "note": {
+      const notes = await db.note.findMany({
+        where,
+        select: { projectId: true },
+      });
+      if (notes.length !== ids.length) break;
+      await restoreProjects(
+        db,
+        userId,
+        notes.map((note) => note.projectId),
+      );
+      return (await db.note.updateMany({ where, data })).count;
+    }
+    case "journal": {
+      const count = await db.journal.count({ where });
+      if (count !== ids.length) break;
+      return (await db.journal.updateMany({ where, data })).count;
+    }
+    case "project": {
+      const count = await db.project.count({ where });
+      if (count !== ids.length) break;
+      return (await db.project.updateMany({ where, data })).count;
+    }
+  }
+
+  throw new TRPCError({
+    code: "NOT_FOUND",
+    message: "部分内容不在回收站中或无权限操作",
+  });
+}
+
+/**
+ * 永久删除回收站中的内容
+ * @param ids 不指定时删除该类型的全部内容
+ */
+export async function deleteFromTrash(
+  db: DbClient,
+  userId: string,
+  type: TrashItemType,
+  ids?: string[],
+): Promise<number> {
+  const where = {
+    createdById: userId,
+    deletedAt: { not: null },
+    ...(ids && { id: { in: ids } }),
+  };
+
+  switch (type) {
+    case "task":
+      // 子任务通过外键级联删除
+      return (await db.task.deleteMany({ where })).count;
+    case "note":
+      return (await db.note.deleteMany({ where })).count;
+    case "journal":
+      return (await db.journal.deleteMany({ where })).count;
+    case "project":
+      return (await db.project.deleteMany({ where })).count;
+  }
+}
+
+/**
+ * 永久删除某用户回收站中早于指定时间删除的内容
+ */
+export async function purgeExpiredTrash(
+  db: DbClient,
+  userId: string,
+  before: Date,
+): Promise<Record<TrashItemType, number>> {
+  const where = { createdById: userId, deletedAt: { lt: before } };
+
+  // 先删除任务和笔记，再删除项目，避免项目删除时把它们的 projectId 置空
+  const task = (await db.task.deleteMany({ where })).count;
+  const note = (await db.note.deleteMany({ where })).count;
+  const journal = (await db.journal.deleteMany({ where })).count;
+  const project = (await db.project.deleteMany({ where })).count;
+
+  return { task, note, journal, project };
+}
+
+/**
+ * 新建日记前检查回收站中是否有同一天的日记（日期唯一）
+ * 不自动删除回收站中的日记，由用户决定恢复还是永久删除
+ * @throws TRPCError CONFLICT 回收站中有同一天的日记
+ */
+export async function assertNoTrashedJournal(
+  db: DbClient,
+  userId: string,
+  date: Date,
+): Promise<void> {
+  const trashed = await db.journal.findFirst({
+    where: { createdById: userId, date, deletedAt: { not: null } },
+    select: { id: true },
+  });
+
+  if (trashed) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "该日期的日记在回收站中，请先在回收站恢复或永久删除后再保存",
+    });
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * 撤销服务
+ *
+ * 功能：
+ * 1. 批量更新、批量删除、项目批量操作和看板拖拽时记录逆操作
+ * 2. 撤销指定操作，或撤销当前用户最近一次未撤销的操作
+ * 3. 每个用户只保留最近的若干条记录，超过撤销期限的记录自动清理
+ *
+ * 撤销只还原被操作内容本身的字段、标签和回收站状态；
+ * 任务完成时已触发的联动（解除等待、生成重复任务的下一个实例）不会回退
+ */
+
+import {
+  type Prisma,
+  type PrismaClient,
+  type Priority,
+  type TaskStatus,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { type TrashItemType } from "@/server/api/schemas/trash";
+import { recordTaskStatusChange } from "@/server/services/task-status";
+import { restoreFromTrash } from "@/server/services/trash";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// 操作记录可以撤销的时间
+const UNDO_WINDOW_MS = 30 * 60 * 1000;
+// 每个用户保留的操作记录数量
+const MAX_OPERATIONS_PER_USER = 20;
+
+export type UndoAction =
+  | "task.batchUpdate"
+  | "task.batchDelete"
+  | "task.updatePosition"
+  | "project.batchOperation";
+
+// 任务字段快照（只包含需要还原的字段）
+export interface TaskSnapshot {
+  id: string;
+  status?: TaskStatus;
+  priority?: Priority | null;
+  projectId?: string | null;
+  sortOrder?: number;
+  completedAt?: string | null;
+  completedCount?: number;
+  isTimerActive?: boolean;
+  timerStartedAt?: string | null;
+}
+
+// 逆操作
+export interface UndoInverse {
+  tasks?: TaskSnapshot[];
+  taskTags?: Array<{ taskId: string; tagIds: string[] }>;
+  projects?: Array<{ id: string; isArchived: boolean }>;
+  trash?: Array<{ type: TrashItemType; ids: string[] }>; // 从回收站恢复
+}
+
+// 生成快照所需的任务字段
+export const taskSnapshotSelect = {
+  id: true,
+  status: true,
+  priority: true,
+  projectId: true,
+  sortOrder: true,
+  completedAt: true,
+  completedCount: true,
+  isTimerActive: true,
+  timerStartedAt: true,
+} satisfies Prisma.TaskSelect;
+
+export function toTaskSnapshot(
+  task: Prisma.TaskGetPayload<{ select: typeof taskSnapshotSelect }>,
+): TaskSnapshot {
+  return {
+    ...task,
+    completedAt: task.completedAt?.toISOString() ?? null,
+    timerStartedAt: task.timerStartedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * 读取任务当前的字段和标签，作为撤销时的还原目标
+ */
+export async function snapshotTasks(
+  db: DbClient,
+  userId: string,
+  taskIds: string[],
+  options: { includeTags?: boolean } = {},
+): Promise<UndoInverse> {
+  const tasks = await db.task.findMany({
+    where: { id: { in: taskIds }, createdById: userId },
+    select: {
+      ...taskSnapshotSelect,
+      tags: { select: { tagId: true }, orderBy: { sortOrder: "asc" } },
+    },
+  });
+
+  return {
+    tasks: tasks.map(({ tags: _tags, ...task }) => toTaskSnapshot(task)),
+    taskTags: options.includeTags
+      ? tasks.map((task) => ({
+          taskId: task.id,
+          tagIds: task.tags.map((tag) => tag.tagId),
+        }))
+      : undefined,
+  };
+}
+
+/**
+ * 记录一次可撤销的操作
+ * @returns 操作记录ID，客户端用于撤销
+ */
+export async function recordUndoOperation(
+  db: DbClient,
+  userId: string,
+  action: UndoAction,
+  description: string,
+  inverse: UndoInverse,
+): Promise<string> {
+  const now = new Date();
+
+  // 清理已撤销、已过期和超出数量的记录
+  await db.undoOperation.deleteMany({
+    where: {
+      userId,
+      OR: [{ undoneAt: { not: null } }, { expiresAt: { lte: now } }],
+    },
+  });
+  const stale = await db.undoOperation.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_OPERATIONS_PER_USER - 1,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await db.undoOperation.deleteMany({
+      where: { id: { in: stale.map((operation) => operation.id) } },
+    });
+  }
+
+  const operation = await db.undoOperation.create({
+    data: {
+      action,
+      description,
+      inverse: JSON.stringify(inverse),
+      expiresAt: new Date(now.getTime() + UNDO_WINDOW_MS),
+      userId,
+    },
+    select: { id: true },
+  });
+
+  return operation.id;
+}
+
+async function restoreTasks(
+  db: DbClient,
+  userId: string,
+  snapshots: TaskSnapshot[],
+) {
+  const current = await db.task.findMany({
+    where: {
+      id: { in: snapshots.map((snapshot) => snapshot.id) },
+      createdById: userId,
+      deletedAt: null,
+    },
+    select: { id: true, status: true },
+  });
+  const currentStatus = new Map(current.map((task) => [task.id, task.status]));
+
+  // 原项目已被永久删除时不还原项目
+  const projectIds = snapshots
+    .map((snapshot) => snapshot.projectId)
+    .filter((projectId): projectId is string => !!projectId);
+  const projects = projectIds.length
+    ? await db.project.findMany({
+        where: { id: { in: projectIds }, createdById: userId },
+        select: { id: true },
+      })
+    : [];
+  const existingProjectIds = new Set(projects.map((project) => project.id));
+
+  for (const {
+    id,
+    projectId,
+    completedAt,
+    timerStartedAt,
+    ...fields
+  } of snapshots) {
+    const fromStatus = currentStatus.get(id);
+    // 已被删除的任务跳过
+    if (!fromStatus) continue;
+
+    await db.task.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...((projectId === null ||
+          (projectId && existingProjectIds.has(projectId))) && { projectId }),
+        ...(completedAt !== undefined && {
+          completedAt: completedAt ? new Date(completedAt) : null,
+        }),
+        ...(timerStartedAt !== undefined && {
+          timerStartedAt: timerStartedAt ? new Date(timerStartedAt) : null,
+        }),
+      },
+    });
+
+    if (fields.status && fields.status !== fromStatus) {
+      await recordTaskStatusChange(db, {
+        fromStatus,
+        toStatus: fields.status,
+        taskId: id,
+        changedById: userId,
+        note: "撤销操作",
+      });
+    }
+  }
+}
+
+/**
+ * 撤销操作，不指定操作时撤销最近一次未撤销的操作
+ * 需要在事务中调用
+ */
+export async function undoOperation(
+  db: DbClient,
+  userId: string,
+  operationId?: string,
+): Promise<{
+  action: UndoAction;
+  description: string;
+  affectedTypes: TrashItemType[]; // 被还原的内容类型，用于刷新对应列表
+  restoredFromTrash: boolean;
+}> {
+  const operation = await db.undoOperation.findFirst({
+    where: {
+      userId,
+      undoneAt: null,
+      expiresAt: { gt: new Date() },
+      ...(operationId && { id: operationId }),
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!operation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: operationId ? "操作已撤销或已超过撤销期限" : "没有可撤销的操作",
+    });
+  }
+
+  // 先标记为已撤销，避免重复撤销
+  const marked = await db.undoOperation.updateMany({
+    where: { id: operation.id, undoneAt: null },
+    data: { undoneAt: new Date() },
+  });
+  if (marked.count === 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "操作已撤销",
+    });
+  }
+
+  const inverse = JSON.parse(operation.inverse) as UndoInverse;
+
+  for (const { type, ids } of inverse.trash ?? []) {
+    await restoreFromTrash(db, userId, type, ids);
+  }
+
+  if (inverse.tasks?.length) {
+    await restoreTasks(db, userId, inverse.tasks);
+  }
+
+  for (const { taskId, tagIds } of inverse.taskTags ?? []) {
+    const task = await db.task.findFirst({
+      where: { id: taskId, createdById: userId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!task) continue;
+
+    // 已被删除的标签跳过
+    const tags = await db.tag.findMany({
+      where: { id: { in: tagIds }, createdById: userId },
+      select: { id: true },
+    });
+    const existingTagIds = new Set(tags.map((tag) => tag.id));
+
+    await db.taskTag.deleteMany({ where: { taskId } });
+    if (existingTagIds.size > 0) {
+      await db.taskTag.createMany({
+        data: tagIds
+          .filter((tagId) => existingTagIds.has(tagId))
+          .map((tagId, index) => ({
+            taskId,
+            tagId,
+            sortOrder: index,
+          })),
+      });
+    }
+  }
+
+  for (const { id, isArchived } of inverse.projects ?? []) {
+    await db.project.updateMany({
+      where: { id, createdById: userId, deletedAt: null },
+      data: { isArchived },
+    });
+  }
+
+  const affectedTypes = new Set<TrashItemType>(
+    (inverse.trash ?? []).map(({ type }) => type),
+  );
+  if (inverse.tasks?.length || inverse.taskTags?.length) {
+    affectedTypes.add("task");
+  }
+  if (inverse.projects?.length) {
+    affectedTypes.add("project");
+  }
+
+  return {
+    action: operation.action as UndoAction,
+    description: operation.description,
+    affectedTypes: Array.from(affectedTypes),
+    restoredFromTrash: !!inverse.trash?.length,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * 新用户初始化
+ *
+ * 无论通过 GitHub 登录还是邮箱注册创建的用户都需要：
+ * 1. 创建系统预定义标签
+ * 2. 创建默认快速搜索
+ */
+
+import { serverLoggers } from "@/utils/logger-server";
+import { createSystemTagsForUser } from "../../../prisma/seed-system-tags";
+import { createDefaultSearchesForUser } from "../../../prisma/seed-default-searches";
+
+export async function initializeNewUser(user: {
+  id: string;
+  email?: string | null;
+}): Promise<void> {
+  // 为新用户创建系统预定义标签
+  try {
+    await createSystemTagsForUser(user.id);
+    serverLoggers.auth.info(
+      { userId: user.id, email: user.email },
+      "为新用户创建系统标签成功",
+    );
+  } catch (error) {
+    serverLoggers.auth.error(
+      {
+        userId: user.id,
+        email: user.email,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "为新用户创建系统标签失败",
+    );
+  }
+
+  // 为新用户创建默认快速搜索
+  try {
+    await createDefaultSearchesForUser(user.id);
+    serverLoggers.auth.info(
+      { userId: user.id, email: user.email },
+      "为新用户创建默认快速搜索成功",
+    );
+  } catch (error) {
+    serverLoggers.auth.error(
+      {
+        userId: user.id,
+        email: user.email,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "为新用户创建默认快速搜索失败",
+    );
+  }
+}
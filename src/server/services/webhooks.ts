@@ -0,0 +1,703 @@
+/**
+ * Webhook 投递服务
+ *
+ * 功能：
+ * 1. 业务事件发生时为订阅该事件的 Webhook 创建投递记录（投递队列）
+ * 2. 使用 HMAC-SHA256 签名 JSON 请求体并发送，失败后按指数退避重试
+ * 3. 发送测试事件、重新投递历史事件
+ * 4. 管理 Webhook（增删改、轮换签名密钥）和查询投递记录
+ * 5. 清理过期的投递记录
+ *
+ * 签名方式：X-Webhook-Signature = "sha256=" + HMAC_SHA256(secret, `${X-Webhook-Timestamp}.${请求体}`)
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import {
+  type Prisma,
+  type PrismaClient,
+  type Task,
+  type WebhookDelivery,
+  WebhookDeliveryStatus,
+  type WebhookEndpoint,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { type z } from "zod";
+
+import {
+  type createWebhookSchema,
+  type getWebhookDeliveriesSchema,
+  type updateWebhookSchema,
+  WEBHOOK_TEST_EVENT,
+  type WebhookEvent,
+} from "@/server/api/schemas/webhook";
+import { env } from "@/env";
+import { serverLoggers } from "@/utils/logger-server";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// 最多尝试次数（含首次）
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+// 首次重试间隔，之后每次翻倍：30 秒、1 分钟、2 分钟、4 分钟、8 分钟
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// 单次请求超时
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// 领取投递记录后的占用时间，超时未完成（如实例崩溃）会被重新领取
+const CLAIM_TIMEOUT_MS = 60 * 1000;
+// 保存的响应内容最大长度
+const MAX_RESPONSE_BODY_LENGTH = 200;
+// 每次处理队列的最大记录数
+const DEFAULT_BATCH_SIZE = 50;
+// 每个用户最多创建的 Webhook 数
+const MAX_ENDPOINTS_PER_USER = 10;
+// 列表中展示的密钥开头字符数
+const SECRET_PREVIEW_LENGTH = 10;
+
+export interface WebhookPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookQueueResult {
+  delivered: number;
+  failed: number;
+  retrying: number;
+}
+
+type DeliveryWithEndpoint = WebhookDelivery & { endpoint: WebhookEndpoint };
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+}
+
+// 任务事件中的任务信息需要的字段
+export const webhookTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  priority: true,
+  type: true,
+  dueDate: true,
+  projectId: true,
+  parentId: true,
+  totalTimeSpent: true,
+} satisfies Prisma.TaskSelect;
+
+type WebhookTaskFields = Pick<Task, keyof typeof webhookTaskSelect>;
+
+/**
+ * 任务事件中的任务信息
+ */
+export function toWebhookTask(task: WebhookTaskFields) {
+  return {
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    priority: task.priority,
+    type: task.type,
+    dueDate: task.dueDate?.toISOString() ?? null,
+    projectId: task.projectId,
+    parentId: task.parentId,
+    totalTimeSpent: task.totalTimeSpent,
+  };
+}
+
+function buildPayload(
+  event: string,
+  data: Record<string, unknown>,
+): WebhookPayload {
+  return {
+    id: randomUUID(),
+    type: event,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+}
+
+function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+// 禁止投递的地址：本机回环、链路本地（含云服务器元数据地址）、内网和唯一本地地址
+const privateAddresses = new BlockList();
+privateAddresses.addSubnet("0.0.0.0", 8, "ipv4");
+privateAddresses.addSubnet("10.0.0.0", 8, "ipv4");
+privateAddresses.addSubnet("100.64.0.0", 10, "ipv4");
+privateAddresses.addSubnet("127.0.0.0", 8, "ipv4");
+privateAddresses.addSubnet("169.254.0.0", 16, "ipv4");
+privateAddresses.addSubnet("172.16.0.0", 12, "ipv4");
+privateAddresses.addSubnet("192.168.0.0", 16, "ipv4");
+privateAddresses.addSubnet("::", 128, "ipv6");
+privateAddresses.addSubnet("::1", 128, "ipv6");
+privateAddresses.addSubnet("fc00::", 7, "ipv6");
+privateAddresses.addSubnet("fe80::", 10, "ipv6");
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    return privateAddresses.check(address, "ipv4");
+  }
+  // IPv4 映射的 IPv6 地址按 IPv4 判断
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return privateAddresses.check(mapped[1]!, "ipv4");
+  }
+  return privateAddresses.check(address, "ipv6");
+}
+
+const PRIVATE_TARGET_ERROR = "目标地址指向内网，已拒绝投递";
+
+/**
+ * 解析目标主机，拒绝指向内网的地址，避免通过 Webhook 访问服务器内部服务。
+ * 作为请求的 lookup 使用，连接直接使用这里检查过的地址而不再次解析，
+ * 避免检查之后 DNS 记录被改为内网地址（DNS 重绑定）；每次发送（含重试）都会重新解析和检查
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true, verbatim: true }).then(
+    (addresses) => {
+      const [first] = addresses;
+      if (
+        !first ||
+        addresses.some(({ address }) => isPrivateAddress(address))
+      ) {
+        callback(new Error(PRIVATE_TARGET_ERROR), "");
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, first.address, first.family);
+      }
+    },
+    (error: NodeJS.ErrnoException) => callback(error, ""),
+  );
+};
+
+/**
+ * 发送 POST 请求，不跟随重定向
+ * 本地调试接收端时可设置 WEBHOOK_ALLOW_PRIVATE_TARGETS=true 放开内网地址限制
+ */
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<{ status: number; body: string }> {
+  const target = new URL(url);
+  const allowPrivate = env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true";
+
+  // IP 地址不经过 lookup，直接检查
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+  if (!allowPrivate && isIP(hostname) && isPrivateAddress(hostname)) {
+    return Promise.reject(new Error(PRIVATE_TARGET_ERROR));
+  }
+
+  const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = send(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: allowPrivate ? undefined : lookupPublicAddress,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      (res) => {
+        let data = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          if (data.length < MAX_RESPONSE_BODY_LENGTH) data += chunk;
+        });
+        res.on("end", () =>
+          resolve({
+            status: res.statusCode ?? 0,
+            body: data.slice(0, MAX_RESPONSE_BODY_LENGTH),
+          }),
+        );
+        res.on("error", reject);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * 发送一次请求并记录结果
+ */
+async function attemptDelivery(
+  db: DbClient,
+  delivery: DeliveryWithEndpoint,
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const startedAt = Date.now();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await postWebhook(
+      delivery.endpoint.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "Infer-GTD-Webhook/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": signWebhookPayload(
+          delivery.endpoint.secret,
+          timestamp,
+          delivery.payload,
+        ),
+      },
+      delivery.payload,
+    );
+
+    responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status < 200 || response.status >= 300) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const now = new Date();
+  const status = !error
+    ? WebhookDeliveryStatus.SUCCESS
+    : attempts >= WEBHOOK_MAX_ATTEMPTS
+      ? WebhookDeliveryStatus.FAILED
+      : WebhookDeliveryStatus.PENDING;
+
+  const updated = await db.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: now.getTime() - startedAt,
+      deliveredAt: status === WebhookDeliveryStatus.SUCCESS ? now : null,
+      nextAttemptAt:
+        status === WebhookDeliveryStatus.PENDING
+          ? new Date(now.getTime() + getRetryDelay(attempts))
+          : null,
+    },
+  });
+
+  if (error) {
+    serverLoggers.webhook.warn(
+      {
+        deliveryId: delivery.id,
+        endpointId: delivery.endpointId,
+        event: delivery.event,
+        attempts,
+        error,
+      },
+      status === WebhookDeliveryStatus.FAILED
+        ? "Webhook 投递失败，已达到最大重试次数"
+        : "Webhook 投递失败，稍后重试",
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * 处理到期的投递记录
+ * 多实例同时处理时，通过比较 nextAttemptAt 乐观领取，保证每条记录同一时间只被一个实例发送
+ */
+export async function processDueWebhookDeliveries(
+  db: DbClient,
+  options: { ids?: string[]; limit?: number } = {},
+): Promise<WebhookQueueResult> {
+  const now = new Date();
+  const result: WebhookQueueResult = { delivered: 0, failed: 0, retrying: 0 };
+
+  const candidates = await db.webhookDelivery.findMany({
+    where: {
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: { lte: now },
+      ...(options.ids ? { id: { in: options.ids } } : {}),
+    },
+    include: { endpoint: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: options.limit ?? DEFAULT_BATCH_SIZE,
+  });
+
+  for (const candidate of candidates) {
+    const claimed = await db.webhookDelivery.updateMany({
+      where: {
+        id: candidate.id,
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: candidate.nextAttemptAt,
+      },
+      data: { nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS) },
+    });
+    if (claimed.count === 0) continue;
+
+    // 投递期间 Webhook 被停用的，不再发送
+    if (!candidate.endpoint.enabled) {
+      await db.webhookDelivery.update({
+        where: { id: candidate.id },
+        data: {
+          status: WebhookDeliveryStatus.FAILED,
+          nextAttemptAt: null,
+          error: "Webhook 已停用，取消投递",
+        },
+      });
+      result.failed++;
+      continue;
+    }
+
+    const delivery = await attemptDelivery(db, candidate);
+    if (delivery.status === WebhookDeliveryStatus.SUCCESS) {
+      result.delivered++;
+    } else if (delivery.status === WebhookDeliveryStatus.FAILED) {
+      result.failed++;
+    } else {
+      result.retrying++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 触发业务事件
+ * 为订阅该事件的 Webhook 创建投递记录并立即尝试发送；发送失败由定时任务重试。
+ * 在事务中调用时投递记录随事务提交，由定时任务在提交后发送。
+ * 不会抛出错误，避免影响业务操作
+ */
+export async function emitWebhookEvent(
+  db: DbClient,
+  userId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { userId, enabled: true, events: { has: event } },
+      select: { id: true },
+    });
+    if (endpoints.length === 0) return;
+
+    const payload = buildPayload(event, data);
+    const now = new Date();
+    const deliveries = await db.webhookDelivery.createManyAndReturn({
+      data: endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        eventId: payload.id,
+        event,
+        payload: JSON.stringify(payload),
+        nextAttemptAt: now,
+      })),
+      select: { id: true },
+    });
+
+    // 事务未提交前投递记录对其他连接不可见，留给定时任务发送
+    if (!("$transaction" in db)) return;
+
+    void processDueWebhookDeliveries(db, {
+      ids: deliveries.map((delivery) => delivery.id),
+    }).catch((error: unknown) => {
+      serverLoggers.webhook.error(
+        {
+          event,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Webhook 投递出错",
+      );
+    });
+  } catch (error) {
+    serverLoggers.webhook.error(
+      {
+        userId,
+        event,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "创建 Webhook 投递记录失败",
+    );
+  }
+}
+
+/**
+ * 触发任务创建事件（新建、复制、生成重复任务实例）
+ */
+export async function emitTaskCreatedEvent(
+  db: DbClient,
+  task: WebhookTaskFields & {
+    createdById: string;
+    tags: { tag: { name: string } }[];
+  },
+): Promise<void> {
+  await emitWebhookEvent(db, task.createdById, "task.created", {
+    task: {
+      ...toWebhookTask(task),
+      tags: task.tags.map(({ tag }) => tag.name),
+    },
+  });
+}
+
+async function findUserEndpoint(
+  db: DbClient,
+  userId: string,
+  endpointId: string,
+): Promise<WebhookEndpoint> {
+  const endpoint = await db.webhookEndpoint.findFirst({
+    where: { id: endpointId, userId },
+  });
+  if (!endpoint) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Webhook 不存在或无权限访问",
+    });
+  }
+  return endpoint;
+}
+
+/**
+ * 列出当前用户的 Webhook（密钥只返回开头部分）及最近一次投递
+ */
+export async function listWebhooks(db: DbClient, userId: string) {
+  const endpoints = await db.webhookEndpoint.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    include: {
+      deliveries: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: {
+          id: true,
+          event: true,
+          status: true,
+          responseStatus: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  return endpoints.map(({ secret, deliveries, ...endpoint }) => ({
+    ...endpoint,
+    secretPreview: `${secret.slice(0, SECRET_PREVIEW_LENGTH)}…`,
+    lastDelivery: deliveries[0] ?? null,
+  }));
+}
+
+/**
+ * 创建 Webhook
+ * @returns Webhook 信息，包含完整密钥
+ */
+export async function createWebhook(
+  db: DbClient,
+  userId: string,
+  params: z.infer<typeof createWebhookSchema>,
+): Promise<WebhookEndpoint> {
+  const count = await db.webhookEndpoint.count({ where: { userId } });
+  if (count >= MAX_ENDPOINTS_PER_USER) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `最多只能创建 ${MAX_ENDPOINTS_PER_USER} 个 Webhook，请先删除不再使用的 Webhook`,
+    });
+  }
+
+  const endpoint = await db.webhookEndpoint.create({
+    data: {
+      ...params,
+      events: [...new Set(params.events)],
+      secret: generateWebhookSecret(),
+      userId,
+    },
+  });
+
+  serverLoggers.webhook.info(
+    { userId, endpointId: endpoint.id, events: endpoint.events },
+    "创建 Webhook",
+  );
+
+  return endpoint;
+}
+
+export async function updateWebhook(
+  db: DbClient,
+  userId: string,
+  params: z.infer<typeof updateWebhookSchema>,
+) {
+  const { id, events, ...data } = params;
+  await findUserEndpoint(db, userId, id);
+
+  return db.webhookEndpoint.update({
+    where: { id },
+    data: {
+      ...data,
+      ...(events ? { events: [...new Set(events)] } : {}),
+    },
+    omit: { secret: true },
+  });
+}
+
+export async function deleteWebhook(
+  db: DbClient,
+  userId: string,
+  endpointId: string,
+): Promise<void> {
+  await findUserEndpoint(db, userId, endpointId);
+  await db.webhookEndpoint.delete({ where: { id: endpointId } });
+
+  serverLoggers.webhook.info({ userId, endpointId }, "删除 Webhook");
+}
+
+/**
+ * 轮换签名密钥，旧密钥立即失效
+ * @returns 新密钥
+ */
+export async function rotateWebhookSecret(
+  db: DbClient,
+  userId: string,
+  endpointId: string,
+): Promise<string> {
+  await findUserEndpoint(db, userId, endpointId);
+  const { secret } = await db.webhookEndpoint.update({
+    where: { id: endpointId },
+    data: { secret: generateWebhookSecret() },
+    select: { secret: true },
+  });
+
+  serverLoggers.webhook.info({ userId, endpointId }, "轮换 Webhook 签名密钥");
+
+  return secret;
+}
+
+/**
+ * 分页查询投递记录
+ */
+export async function getWebhookDeliveries(
+  db: DbClient,
+  userId: string,
+  params: z.infer<typeof getWebhookDeliveriesSchema>,
+) {
+  const { endpointId, status, limit, cursor } = params;
+  await findUserEndpoint(db, userId, endpointId);
+
+  const where: Prisma.WebhookDeliveryWhereInput = {
+    endpointId,
+    ...(status ? { status } : {}),
+  };
+
+  const [deliveries, totalCount] = await Promise.all([
+    db.webhookDelivery.findMany({
+      where,
+      take: limit + 1,
+      cursor: cursor ? { id: cursor } : undefined,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    }),
+    db.webhookDelivery.count({ where }),
+  ]);
+
+  let nextCursor: typeof cursor | undefined = undefined;
+  if (deliveries.length > limit) {
+    const nextItem = deliveries.pop();
+    nextCursor = nextItem!.id;
+  }
+
+  return { deliveries, nextCursor, totalCount };
+}
+
+/**
+ * 立即发送一条投递记录（测试事件、重新投递），失败时同样进入重试队列
+ */
+async function createAndDeliver(
+  db: DbClient,
+  endpoint: WebhookEndpoint,
+  params: { eventId: string; event: string; payload: string },
+): Promise<WebhookDelivery> {
+  const delivery = await db.webhookDelivery.create({
+    data: {
+      ...params,
+      endpointId: endpoint.id,
+      // 创建即领取，避免定时任务同时发送
+      nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS),
+    },
+  });
+
+  return attemptDelivery(db, { ...delivery, endpoint });
+}
+
+/**
+ * 发送测试事件（不要求订阅，停用状态下也可发送）
+ */
+export async function sendTestWebhook(
+  db: DbClient,
+  userId: string,
+  endpointId: string,
+): Promise<WebhookDelivery> {
+  const endpoint = await findUserEndpoint(db, userId, endpointId);
+  const payload = buildPayload(WEBHOOK_TEST_EVENT, {
+    message: "这是一条测试事件",
+    webhook: { id: endpoint.id, name: endpoint.name },
+  });
+
+  return createAndDeliver(db, endpoint, {
+    eventId: payload.id,
+    event: payload.type,
+    payload: JSON.stringify(payload),
+  });
+}
+
+/**
+ * 重新投递历史事件（请求体和事件 ID 不变，接收方可据此去重）
+ */
+export async function redeliverWebhook(
+  db: DbClient,
+  userId: string,
+  deliveryId: string,
+): Promise<WebhookDelivery> {
+  const original = await db.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  });
+  if (!original || original.endpoint.userId !== userId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "投递记录不存在或无权限访问",
+    });
+  }
+
+  return createAndDeliver(db, original.endpoint, {
+    eventId: original.eventId,
+    event: original.event,
+    payload: original.payload,
+  });
+}
+
+/**
+ * 删除早于指定时间的投递记录（不包括仍在重试中的记录）
+ */
+export async function purgeWebhookDeliveries(
+  db: DbClient,
+  before: Date,
+): Promise<number> {
+  const result = await db.webhookDelivery.deleteMany({
+    where: {
+      createdAt: { lt: before },
+      status: { not: WebhookDeliveryStatus.PENDING },
+    },
+  });
+  return result.count;
+}
@@ -0,0 +1,293 @@
+/**
+ * 周回顾服务
+ *
+ * 功能：
+ * 1. 按步骤查询需要回顾的事项（收集箱、下一步行动、等待清单、缺少下一步的项目、将来/也许、未来日程）
+ * 2. 统计各步骤的事项数量，在开始和完成回顾时各保存一份快照
+ * 3. 开始或继续进行中的回顾、完成回顾并记录笔记和用时
+ */
+
+import {
+  type Prisma,
+  type PrismaClient,
+  type WeeklyReview,
+  TaskStatus,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import {
+  WEEKLY_REVIEW_CALENDAR_DAYS,
+  WEEKLY_REVIEW_STEPS,
+  type WeeklyReviewStep,
+} from "@/server/api/schemas/weekly-review";
+import { markSomedayReviewed } from "@/server/services/someday";
+import {
+  getNextActionTaskWhere,
+  getProjectsWithoutNextActionWhere,
+} from "@/server/services/stalled-projects";
+import { getNotDeferredTaskWhere } from "@/server/services/task-defer";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 每个步骤最多列出的事项数量
+const STEP_ITEM_LIMIT = 100;
+
+export type WeeklyReviewCounts = Record<WeeklyReviewStep, number>;
+
+export interface WeeklyReviewCountsSnapshot {
+  before: WeeklyReviewCounts | null;
+  after: WeeklyReviewCounts | null;
+}
+
+/**
+ * 各任务类步骤的查询条件，项目步骤单独处理
+ */
+function getStepTaskWhere(
+  step: Exclude<WeeklyReviewStep, "projects">,
+  userId: string,
+  now: Date,
+): Prisma.TaskWhereInput {
+  const base = { createdById: userId, deletedAt: null };
+
+  switch (step) {
+    case "inbox":
+      return {
+        ...base,
+        status: TaskStatus.IDEA,
+        ...getNotDeferredTaskWhere(now),
+      };
+    case "nextActions":
+      return { ...base, ...getNextActionTaskWhere(now) };
+    case "waiting":
+      return { ...base, status: TaskStatus.WAITING };
+    case "someday":
+      return { ...base, status: TaskStatus.SOMEDAY };
+    case "calendar": {
+      // 已逾期或即将到期的任务，以及即将重新出现的推迟任务
+      const until = new Date(
+        now.getTime() + WEEKLY_REVIEW_CALENDAR_DAYS * DAY_MS,
+      );
+      return {
+        ...base,
+        status: { notIn: [TaskStatus.DONE, TaskStatus.ARCHIVED] },
+        OR: [
+          { dueDate: { lte: until } },
+          { deferUntil: { gt: now, lte: until } },
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * 获取某一步骤需要回顾的事项
+ */
+export async function getWeeklyReviewStepItems(
+  db: DbClient,
+  userId: string,
+  step: WeeklyReviewStep,
+  now = new Date(),
+) {
+  if (step === "projects") {
+    const where = getProjectsWithoutNextActionWhere(userId, now);
+    const [projects, totalCount] = await Promise.all([
+      db.project.findMany({
+        where,
+        take: STEP_ITEM_LIMIT,
+        orderBy: { updatedAt: "asc" },
+        include: {
+          _count: {
+            select: {
+              tasks: {
+                where: {
+                  deletedAt: null,
+                  status: { notIn: [TaskStatus.DONE, TaskStatus.ARCHIVED] },
+                },
+              },
+            },
+          },
+        },
+      }),
+      db.project.count({ where }),
+    ]);
+
+    return { tasks: [], projects, totalCount };
+  }
+
+  const where = getStepTaskWhere(step, userId, now);
+  const orderBy: Prisma.TaskOrderByWithRelationInput[] =
+    step === "calendar"
+      ? [{ dueDate: { sort: "asc", nulls: "last" } }, { deferUntil: "asc" }]
+      : [{ updatedAt: "asc" }];
+
+  const [tasks, totalCount] = await Promise.all([
+    db.task.findMany({
+      where,
+      take: STEP_ITEM_LIMIT,
+      orderBy,
+      include: {
+        project: true,
+        waitingFor: true,
+        tags: {
+          include: {
+            tag: true,
+          },
+          orderBy: { sortOrder: "asc" },
+        },
+      },
+    }),
+    db.task.count({ where }),
+  ]);
+
+  return { tasks, projects: [], totalCount };
+}
+
+/**
+ * 统计各步骤的事项数量
+ */
+export async function getWeeklyReviewCounts(
+  db: DbClient,
+  userId: string,
+  now = new Date(),
+): Promise<WeeklyReviewCounts> {
+  const counts = await Promise.all(
+    WEEKLY_REVIEW_STEPS.map((step) =>
+      step === "projects"
+        ? db.project.count({
+            where: getProjectsWithoutNextActionWhere(userId, now),
+          })
+        : db.task.count({ where: getStepTaskWhere(step, userId, now) }),
+    ),
+  );
+
+  return Object.fromEntries(
+    WEEKLY_REVIEW_STEPS.map((step, index) => [step, counts[index] ?? 0]),
+  ) as WeeklyReviewCounts;
+}
+
+/**
+ * 解析保存的数量快照，格式不正确时返回空快照
+ */
+export function parseWeeklyReviewCounts(
+  counts: string | null,
+): WeeklyReviewCountsSnapshot {
+  if (counts) {
+    try {
+      const parsed = JSON.parse(counts) as Partial<WeeklyReviewCountsSnapshot>;
+      return { before: parsed.before ?? null, after: parsed.after ?? null };
+    } catch {
+      // 解析失败，返回空快照
+    }
+  }
+  return { before: null, after: null };
+}
+
+/**
+ * 查找用户进行中的回顾
+ */
+export async function findWeeklyReviewInProgress(
+  db: DbClient,
+  userId: string,
+): Promise<WeeklyReview | null> {
+  return db.weeklyReview.findFirst({
+    where: { userId, completedAt: null },
+    orderBy: { startedAt: "desc" },
+  });
+}
+
+/**
+ * 开始回顾：已有进行中的回顾时继续它，否则新建并保存开始时的数量快照
+ */
+export async function startWeeklyReview(
+  db: DbClient,
+  userId: string,
+  now = new Date(),
+): Promise<{ review: WeeklyReview; resumed: boolean }> {
+  const existing = await findWeeklyReviewInProgress(db, userId);
+  if (existing) {
+    return { review: existing, resumed: true };
+  }
+
+  const before = await getWeeklyReviewCounts(db, userId, now);
+  const review = await db.weeklyReview.create({
+    data: {
+      userId,
+      startedAt: now,
+      currentStep: WEEKLY_REVIEW_STEPS[0],
+      counts: JSON.stringify({ before, after: null }),
+    },
+  });
+
+  return { review, resumed: false };
+}
+
+/**
+ * 获取用户自己进行中的回顾，不存在或已完成时抛出错误
+ */
+export async function getOwnWeeklyReviewInProgress(
+  db: DbClient,
+  userId: string,
+  reviewId: string,
+): Promise<WeeklyReview> {
+  const review = await db.weeklyReview.findFirst({
+    where: { id: reviewId, userId },
+  });
+
+  if (!review) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "回顾不存在或无权限访问",
+    });
+  }
+
+  if (review.completedAt) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "这次回顾已经完成",
+    });
+  }
+
+  return review;
+}
+
+/**
+ * 完成回顾：记录笔记、用时和完成时的数量快照
+ * 回顾过将来/也许步骤时同时更新将来/也许清单的回顾时间
+ */
+export async function completeWeeklyReview(
+  db: DbClient,
+  userId: string,
+  reviewId: string,
+  notes?: string,
+  now = new Date(),
+): Promise<WeeklyReview> {
+  const review = await getOwnWeeklyReviewInProgress(db, userId, reviewId);
+
+  const { before } = parseWeeklyReviewCounts(review.counts);
+  const after = await getWeeklyReviewCounts(db, userId, now);
+  const completedSteps = Array.from(
+    new Set([...review.completedSteps, review.currentStep]),
+  );
+
+  const completed = await db.weeklyReview.update({
+    where: { id: review.id },
+    data: {
+      completedAt: now,
+      durationSeconds: Math.max(
+        0,
+        Math.round((now.getTime() - review.startedAt.getTime()) / 1000),
+      ),
+      completedSteps,
+      counts: JSON.stringify({ before, after }),
+      ...(notes !== undefined && { notes: notes.trim() || null }),
+    },
+  });
+
+  if (completedSteps.includes("someday")) {
+    await markSomedayReviewed(db, userId, now);
+  }
+
+  return completed;
+}
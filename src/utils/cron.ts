@@ -0,0 +1,290 @@
+/**
+ * Cron 表达式解析工具
+ *
+ * 支持标准五段式 "分 时 日 月 周"：
+ * - 通配符 *、列表 1,15、范围 1-5、步长 *\/15 或 0-30/5
+ * - 月份名称 JAN-DEC、星期名称 SUN-SAT（0 和 7 均表示周日）
+ * - 预定义 @yearly、@monthly、@weekly、@daily、@hourly
+ * - 日和周同时限定时，满足其一即可（与 Vixie cron 一致）
+ *
+ * 下次执行时间按指定时区的墙上时间计算，客户端（管理页面校验）与服务端（调度器）共用；
+ * 夏令时开始时跳过的时间（如纽约 2:30）在跳过后的第一分钟执行
+ */
+
+import { getZonedDateTime } from "@/utils/timezone";
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: string[];
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: "分钟", min: 0, max: 59 },
+  { name: "小时", min: 0, max: 23 },
+  { name: "日期", min: 1, max: 31 },
+  {
+    name: "月份",
+    min: 1,
+    max: 12,
+    aliases: [
+      "JAN",
+      "FEB",
+      "MAR",
+      "APR",
+      "MAY",
+      "JUN",
+      "JUL",
+      "AUG",
+      "SEP",
+      "OCT",
+      "NOV",
+      "DEC",
+    ],
+  },
+  {
+    name: "星期",
+    min: 0,
+    max: 7,
+    aliases: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+// 最多向后查找的步数，防止 2 月 30 日这类永远无法触发的表达式死循环
+const MAX_SEARCH_STEPS = 100000;
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  const aliasIndex = spec.aliases?.indexOf(upper) ?? -1;
+  if (aliasIndex >= 0) {
+    return spec.name === "月份" ? aliasIndex + 1 : aliasIndex;
+  }
+
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw) || value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name}字段的取值 "${raw}" 无效`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart, extra] = part.split("/");
+    if (!rangePart || extra !== undefined) {
+      throw new Error(`${spec.name}字段 "${field}" 格式无效`);
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`${spec.name}字段的步长 "${stepPart}" 无效`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes("-")) {
+      const bounds = rangePart.split("-");
+      if (bounds.length !== 2) {
+        throw new Error(`${spec.name}字段的范围 "${rangePart}" 无效`);
+      }
+      start = parseValue(bounds[0]!, spec);
+      end = parseValue(bounds[1]!, spec);
+      if (start > end) {
+        throw new Error(`${spec.name}字段的范围 "${rangePart}" 无效`);
+      }
+    } else {
+      start = parseValue(rangePart, spec);
+      // "5/15" 表示从 5 开始每 15 个单位
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 解析 cron 表达式
+ * @throws 表达式无效时抛出带中文说明的 Error
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const normalized = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error("cron 表达式必须包含 5 个字段：分 时 日 月 周");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(field, FIELD_SPECS[index]!),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // 7 和 0 都表示周日
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2]!.startsWith("*"),
+    dayOfWeekRestricted: !fields[4]!.startsWith("*"),
+  };
+}
+
+/**
+ * 校验 cron 表达式
+ * @returns 有效时返回 null，否则返回错误信息
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCronExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "cron 表达式无效";
+  }
+}
+
+/**
+ * 校验时区名称（IANA，如 Asia/Shanghai）
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+/**
+ * 某一时刻在指定时区的墙上时间，以同样数值的 UTC 时刻表示，便于按分钟加减
+ */
+function getWallTime(time: number, timeZone?: string): number {
+  const zoned = getZonedDateTime(new Date(time), timeZone);
+  const [year, month, day] = zoned.date.split("-").map(Number);
+  return Date.UTC(year!, month! - 1, day, zoned.hour, zoned.minute);
+}
+
+function getWallParts(wallTime: number): ZonedParts {
+  const date = new Date(wallTime);
+  return {
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    weekday: date.getUTCDay(),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, parts: ZonedParts): boolean {
+  const domMatch = schedule.daysOfMonth.has(parts.day);
+  const dowMatch = schedule.daysOfWeek.has(parts.weekday);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  if (schedule.dayOfMonthRestricted) return domMatch;
+  if (schedule.dayOfWeekRestricted) return dowMatch;
+  return true;
+}
+
+function matchesTime(schedule: CronSchedule, parts: ZonedParts): boolean {
+  return (
+    schedule.months.has(parts.month) &&
+    matchesDay(schedule, parts) &&
+    schedule.hours.has(parts.hour) &&
+    schedule.minutes.has(parts.minute)
+  );
+}
+
+/**
+ * 计算严格晚于 from 的下一次执行时间
+ * @param timeZone IANA 时区，未指定时使用进程本地时区
+ * @returns 找不到可执行时间（如 2 月 30 日）时返回 null
+ */
+export function getNextCronRun(
+  schedule: CronSchedule | string,
+  from: Date = new Date(),
+  timeZone?: string,
+): Date | null {
+  const cron =
+    typeof schedule === "string" ? parseCronExpression(schedule) : schedule;
+
+  // 从下一整分钟开始
+  let time = Math.floor(from.getTime() / 60000) * 60000;
+  let expectedWallTime = getWallTime(time, timeZone);
+  time += 60000;
+  expectedWallTime += 60000;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const wallTime = getWallTime(time, timeZone);
+
+    // 墙上时间比经过的时间走得多，说明跳过了夏令时开始时不存在的时间，
+    // 其中有应执行的时间时在跳过后的第一分钟执行
+    for (let skipped = expectedWallTime; skipped < wallTime; skipped += 60000) {
+      if (matchesTime(cron, getWallParts(skipped))) {
+        return new Date(time);
+      }
+    }
+
+    const parts = getWallParts(wallTime);
+    const previousTime = time;
+
+    // 按从大到小的粒度跳过不匹配的时间段，跳转后重新读取时区时间以兼容夏令时
+    if (!cron.months.has(parts.month) || !matchesDay(cron, parts)) {
+      time += ((23 - parts.hour) * 60 + (60 - parts.minute)) * 60000;
+    } else if (!cron.hours.has(parts.hour)) {
+      time += (60 - parts.minute) * 60000;
+    } else if (!cron.minutes.has(parts.minute)) {
+      time += 60000;
+    } else {
+      return new Date(time);
+    }
+    expectedWallTime = wallTime + (time - previousTime);
+  }
+
+  return null;
+}
@@ -165,6 +165,9 @@ export const serverLoggers = {
   journal: createServerModuleLogger("JOURNAL"),
   search: createServerModuleLogger("SEARCH"),
   project: createServerModuleLogger("PROJECT"),
+  auth: createServerModuleLogger("AUTH"),
+  mail: createServerModuleLogger("MAIL"),
+  webhook: createServerModuleLogger("WEBHOOK"),
 } as const;
 
 // 性能监控日志
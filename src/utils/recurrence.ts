@@ -0,0 +1,517 @@
+/**
+ * 重复规则引擎（兼容 RFC 5545 RRULE 子集）
+ * 支持 FREQ、INTERVAL、BYDAY（含序数，如 -1FR 表示最后一个周五）、
+ * BYMONTHDAY（含负数，-1 表示月末）、BYMONTH、COUNT、UNTIL
+ *
+ * 客户端（任务模态框预览）与服务端（生成下一个实例）共用
+ * 所有日期按 UTC 日历日处理，与任务 dueDate 的存储方式保持一致
+ */
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RecurrenceMode = "fixed" | "afterCompletion";
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0=Sunday, 6=Saturday
+  ordinal?: number; // 第 N 个（负数表示倒数第 N 个）
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+  count?: number;
+  until?: Date;
+}
+
+/**
+ * 任务上存储的重复设置（Task.recurringPattern 的 JSON 结构）
+ */
+export interface RecurringPattern {
+  type: "daily" | "weekly" | "monthly" | "yearly" | "custom";
+  interval: number;
+  time?: string;
+  daysOfWeek?: number[];
+  dayOfMonth?: number;
+  weekOfMonth?: number; // 配合 daysOfWeek 使用，-1 表示最后一个
+  rrule?: string; // type 为 custom 时使用的 RRULE
+  count?: number;
+  until?: string; // YYYY-MM-DD
+  startDate?: string; // YYYY-MM-DD，固定周期的起始日期
+  mode?: RecurrenceMode;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+const WEEKDAY_LABELS = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
+const FREQUENCIES: RecurrenceFrequency[] = [
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 最多向后查找约 100 年，防止规则永远无法匹配时死循环
+const MAX_SCAN_DAYS = 366 * 100;
+
+/**
+ * 转换为 UTC 零点的日历日
+ */
+export function toUTCDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+/**
+ * 解析 YYYY-MM-DD 为 UTC 日历日
+ */
+export function parseDateOnly(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const date = new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+  );
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 格式化 UTC 日历日为 YYYY-MM-DD
+ */
+export function formatDateOnly(date: Date): string {
+  return date.toISOString().split("T")[0]!;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function daysSinceEpoch(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+// 以周一为一周的开始（RRULE 默认 WKST=MO），1970-01-01 为周四
+function weekIndex(date: Date): number {
+  return Math.floor((daysSinceEpoch(date) + 3) / 7);
+}
+
+function monthIndex(date: Date): number {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+function dayOfYear(date: Date): number {
+  return (date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS + 1;
+}
+
+function daysInYear(year: number): number {
+  return (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS;
+}
+
+// 判断日期是否是周期内第 ordinal 个该星期几
+function matchesOrdinal(position: number, total: number, ordinal: number) {
+  return ordinal > 0
+    ? Math.floor((position - 1) / 7) + 1 === ordinal
+    : -(Math.floor((total - position) / 7) + 1) === ordinal;
+}
+
+function matchesRule(date: Date, rule: RecurrenceRule, start: Date): boolean {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  const weekday = date.getUTCDay();
+
+  // 1. 间隔
+  let periodDiff: number;
+  switch (rule.freq) {
+    case "DAILY":
+      periodDiff = daysSinceEpoch(date) - daysSinceEpoch(start);
+      break;
+    case "WEEKLY":
+      periodDiff = weekIndex(date) - weekIndex(start);
+      break;
+    case "MONTHLY":
+      periodDiff = monthIndex(date) - monthIndex(start);
+      break;
+    case "YEARLY":
+      periodDiff = year - start.getUTCFullYear();
+      break;
+  }
+  if (periodDiff % rule.interval !== 0) return false;
+
+  // 2. 月份
+  if (rule.byMonth.length > 0) {
+    if (!rule.byMonth.includes(month + 1)) return false;
+  } else if (
+    rule.freq === "YEARLY" &&
+    rule.byDay.length === 0 &&
+    rule.byMonthDay.length === 0 &&
+    month !== start.getUTCMonth()
+  ) {
+    return false;
+  }
+
+  // 3. 几号（负数表示从月末倒数）
+  if (rule.byMonthDay.length > 0) {
+    const total = daysInMonth(year, month);
+    const matched = rule.byMonthDay.some((monthDay) =>
+      monthDay > 0 ? monthDay === day : total + monthDay + 1 === day,
+    );
+    if (!matched) return false;
+  }
+
+  // 4. 星期几（可带序数）
+  if (rule.byDay.length > 0) {
+    const withinYear = rule.freq === "YEARLY" && rule.byMonth.length === 0;
+    const matched = rule.byDay.some((byDay) => {
+      if (byDay.weekday !== weekday) return false;
+      if (
+        byDay.ordinal === undefined ||
+        rule.freq === "DAILY" ||
+        rule.freq === "WEEKLY"
+      ) {
+        return true;
+      }
+      return withinYear
+        ? matchesOrdinal(dayOfYear(date), daysInYear(year), byDay.ordinal)
+        : matchesOrdinal(day, daysInMonth(year, month), byDay.ordinal);
+    });
+    if (!matched) return false;
+  }
+
+  // 5. 未指定 BYDAY/BYMONTHDAY 时，沿用起始日期的星期或日期
+  if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+    if (rule.freq === "WEEKLY") return weekday === start.getUTCDay();
+    if (rule.freq === "MONTHLY" || rule.freq === "YEARLY") {
+      return day === start.getUTCDate();
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 计算重复规则的发生日期
+ * @param start 起始日期（规则的 DTSTART），COUNT 从这里开始计数
+ * @param options.after 只返回严格晚于该日期的发生日期
+ * @param options.limit 最多返回的数量
+ */
+export function getOccurrences(
+  rule: RecurrenceRule,
+  start: Date,
+  options: { after?: Date; limit: number },
+): Date[] {
+  const startDay = toUTCDay(start);
+  const afterDay = options.after ? toUTCDay(options.after) : null;
+  const untilDay = rule.until ? toUTCDay(rule.until) : null;
+
+  const occurrences: Date[] = [];
+  let matchedCount = 0;
+
+  for (let offset = 0; offset < MAX_SCAN_DAYS; offset++) {
+    const date = new Date(startDay.getTime() + offset * DAY_MS);
+
+    if (untilDay && date > untilDay) break;
+    if (!matchesRule(date, rule, startDay)) continue;
+
+    matchedCount++;
+    if (rule.count !== undefined && matchedCount > rule.count) break;
+
+    if (!afterDay || date > afterDay) {
+      occurrences.push(date);
+      if (occurrences.length >= options.limit) break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * 解析 RRULE 字符串（可带 "RRULE:" 前缀）
+ * @throws 规则无效时抛出带中文说明的 Error
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const source = value.trim().replace(/^RRULE:/i, "");
+  if (!source) {
+    throw new Error("重复规则不能为空");
+  }
+
+  const rule: Partial<RecurrenceRule> & {
+    byDay: RecurrenceWeekday[];
+    byMonthDay: number[];
+    byMonth: number[];
+  } = { interval: 1, byDay: [], byMonthDay: [], byMonth: [] };
+
+  const parseIntList = (raw: string, min: number, max: number, key: string) =>
+    raw.split(",").map((item) => {
+      const num = Number(item);
+      if (!Number.isInteger(num) || num < min || num > max || num === 0) {
+        throw new Error(`${key} 的取值 "${item}" 无效`);
+      }
+      return num;
+    });
+
+  for (const part of source.split(";")) {
+    if (!part) continue;
+    const [rawKey, rawValue] = part.split("=");
+    const key = rawKey?.toUpperCase();
+    const val = rawValue?.toUpperCase();
+    if (!key || !val) {
+      throw new Error(`无法解析规则项 "${part}"`);
+    }
+
+    switch (key) {
+      case "FREQ":
+        if (!FREQUENCIES.includes(val as RecurrenceFrequency)) {
+          throw new Error(`不支持的重复频率 "${val}"`);
+        }
+        rule.freq = val as RecurrenceFrequency;
+        break;
+      case "INTERVAL":
+        rule.interval = parseIntList(val, 1, 999, key)[0];
+        break;
+      case "COUNT":
+        rule.count = parseIntList(val, 1, 1000, key)[0];
+        break;
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(val);
+        const until = match
+          ? parseDateOnly(`${match[1]}-${match[2]}-${match[3]}`)
+          : null;
+        if (!until) {
+          throw new Error(`UNTIL 的取值 "${val}" 无效`);
+        }
+        rule.until = until;
+        break;
+      }
+      case "BYDAY":
+        rule.byDay = val.split(",").map((item) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          const ordinal = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || ordinal === 0 || Math.abs(ordinal ?? 0) > 53) {
+            throw new Error(`BYDAY 的取值 "${item}" 无效`);
+          }
+          return {
+            weekday: WEEKDAY_CODES.indexOf(
+              match[2] as (typeof WEEKDAY_CODES)[number],
+            ),
+            ordinal,
+          };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(val, -31, 31, key);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseIntList(val, 1, 12, key);
+        break;
+      case "WKST":
+        if (val !== "MO") {
+          throw new Error("目前仅支持 WKST=MO");
+        }
+        break;
+      default:
+        throw new Error(`不支持的规则项 "${key}"`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error("重复规则缺少 FREQ");
+  }
+  if (rule.count !== undefined && rule.until) {
+    throw new Error("COUNT 和 UNTIL 不能同时使用");
+  }
+
+  return rule as RecurrenceRule;
+}
+
+/**
+ * 将重复规则格式化为 RRULE 字符串
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((byDay) => `${byDay.ordinal ?? ""}${WEEKDAY_CODES[byDay.weekday]}`)
+        .join(",")}`,
+    );
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    parts.push(`UNTIL=${formatDateOnly(rule.until).replace(/-/g, "")}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * 校验 RRULE 字符串
+ * @returns 有效时返回 null，否则返回错误信息
+ */
+export function validateRRule(value: string): string | null {
+  try {
+    parseRRule(value);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "重复规则无效";
+  }
+}
+
+/**
+ * 解析任务上存储的重复设置 JSON
+ * @returns 为空或格式无效时返回 null
+ */
+export function parseRecurringPattern(
+  value: string | null | undefined,
+): RecurringPattern | null {
+  if (!value) return null;
+
+  try {
+    const pattern = JSON.parse(value) as RecurringPattern;
+    return typeof pattern?.type === "string" && pattern.interval > 0
+      ? pattern
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 将任务上的重复设置转换为重复规则
+ * @param seriesStart 系列起始日期，按年重复且指定第几个星期几时取其月份
+ */
+export function patternToRule(
+  pattern: RecurringPattern,
+  seriesStart: Date,
+): RecurrenceRule {
+  const until = pattern.until ? parseDateOnly(pattern.until) : null;
+
+  if (pattern.type === "custom") {
+    const rule = parseRRule(pattern.rrule ?? "");
+    // 表单中单独设置的次数/截止日期优先
+    if (pattern.count !== undefined) {
+      return { ...rule, count: pattern.count, until: undefined };
+    }
+    if (until) {
+      return { ...rule, until, count: undefined };
+    }
+    return rule;
+  }
+
+  const freq = pattern.type.toUpperCase() as RecurrenceFrequency;
+  const ordinal =
+    (freq === "MONTHLY" || freq === "YEARLY") && pattern.weekOfMonth
+      ? pattern.weekOfMonth
+      : undefined;
+
+  return {
+    freq,
+    interval: pattern.interval,
+    byDay: (pattern.daysOfWeek ?? []).map((weekday) => ({ weekday, ordinal })),
+    byMonthDay:
+      freq === "MONTHLY" && pattern.dayOfMonth && !ordinal
+        ? [pattern.dayOfMonth]
+        : [],
+    // 不指定月份时序数按全年计算，"第2个星期二"应是起始月份的第2个星期二
+    byMonth:
+      freq === "YEARLY" && ordinal ? [seriesStart.getUTCMonth() + 1] : [],
+    count: pattern.count,
+    until: until ?? undefined,
+  };
+}
+
+/**
+ * 计算重复任务的下一个到期日期
+ * - 固定周期：从系列起始日期按规则排期，返回晚于当前实例到期日的第一个日期
+ * - 完成后重复：以完成日期为新的起点，返回之后的第一个日期
+ * @param context.completedCount 系列已生成的实例数，用于完成后重复模式的 COUNT 限制
+ * @returns 规则已结束时返回 null
+ */
+export function getNextOccurrence(
+  pattern: RecurringPattern,
+  context: {
+    seriesStart: Date;
+    currentDueDate?: Date | null;
+    completedAt: Date;
+    instanceCount: number;
+  },
+): Date | null {
+  const seriesStart = pattern.startDate
+    ? (parseDateOnly(pattern.startDate) ?? context.seriesStart)
+    : context.seriesStart;
+  const rule = patternToRule(pattern, seriesStart);
+
+  if (pattern.mode === "afterCompletion") {
+    if (rule.count !== undefined && context.instanceCount >= rule.count) {
+      return null;
+    }
+    const anchor = toUTCDay(context.completedAt);
+    const [next] = getOccurrences({ ...rule, count: undefined }, anchor, {
+      after: anchor,
+      limit: 1,
+    });
+    return next ?? null;
+  }
+
+  const [next] = getOccurrences(rule, seriesStart, {
+    after: context.currentDueDate ?? context.completedAt,
+    limit: 1,
+  });
+  return next ?? null;
+}
+
+/**
+ * 生成重复规则的中文描述
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const unitLabels: Record<RecurrenceFrequency, string> = {
+    DAILY: "天",
+    WEEKLY: "周",
+    MONTHLY: "个月",
+    YEARLY: "年",
+  };
+  const parts = [
+    rule.interval === 1
+      ? `每${unitLabels[rule.freq].replace("个", "")}`
+      : `每 ${rule.interval} ${unitLabels[rule.freq]}`,
+  ];
+
+  if (rule.byMonth.length > 0) {
+    parts.push(rule.byMonth.map((month) => `${month}月`).join("、"));
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(
+      rule.byMonthDay
+        .map((day) =>
+          day > 0 ? `${day}号` : day === -1 ? "最后一天" : `倒数第${-day}天`,
+        )
+        .join("、"),
+    );
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(
+      rule.byDay
+        .map((byDay) => {
+          const label = WEEKDAY_LABELS[byDay.weekday]!;
+          if (!byDay.ordinal) return label;
+          return byDay.ordinal > 0
+            ? `第${byDay.ordinal}个${label}`
+            : byDay.ordinal === -1
+              ? `最后一个${label}`
+              : `倒数第${-byDay.ordinal}个${label}`;
+        })
+        .join("、"),
+    );
+  }
+  if (rule.count !== undefined) parts.push(`共 ${rule.count} 次`);
+  if (rule.until) parts.push(`直到 ${formatDateOnly(rule.until)}`);
+
+  return parts.join("，");
+}
@@ -0,0 +1,119 @@
+/**
+ * 搜索高亮工具（服务端生成摘要和客户端高亮共用）
+ *
+ * 功能：
+ * 1. 将查询拆分为关键词
+ * 2. 按关键词把文本切分为普通片段和命中片段
+ * 3. 截取命中位置附近的内容作为摘要
+ */
+
+export interface HighlightFragment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchSnippet {
+  field: string;
+  fragments: HighlightFragment[];
+}
+
+const MAX_SEARCH_TERMS = 5;
+const SNIPPET_CONTEXT_CHARS = 60;
+
+/**
+ * 将查询拆分为关键词（去掉引号，最多 5 个）
+ */
+export function getSearchTerms(query?: string | null): string[] {
+  if (!query) return [];
+
+  const terms = query
+    .replace(/["“”]/g, " ")
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter((term) => term.length > 0);
+
+  return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS);
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 按关键词切分文本，命中部分标记为 match（不区分大小写）
+ */
+export function splitHighlightFragments(
+  text: string,
+  terms: string[],
+): HighlightFragment[] {
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  // 较长的关键词优先匹配，避免被其前缀截断
+  const pattern = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  const regex = new RegExp(pattern, "gi");
+
+  const fragments: HighlightFragment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(regex)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      fragments.push({ text: text.slice(lastIndex, index), match: false });
+    }
+    fragments.push({ text: match[0], match: true });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    fragments.push({ text: text.slice(lastIndex), match: false });
+  }
+
+  return fragments;
+}
+
+// 去掉常见的 Markdown 标记并合并空白，使摘要更易读
+function toPlainText(text: string) {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*_`~|]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 生成搜索摘要：按字段顺序找到第一个命中的字段，截取命中位置前后的内容并标记命中片段
+ * @returns 没有字段命中时返回 null
+ */
+export function buildSearchSnippet(
+  fields: Array<[field: string, text: string | null | undefined]>,
+  query?: string | null,
+): SearchSnippet | null {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return null;
+
+  const lowerTerms = terms.map((term) => term.toLowerCase());
+
+  for (const [field, rawText] of fields) {
+    if (!rawText) continue;
+
+    const text = toPlainText(rawText);
+    const lowerText = text.toLowerCase();
+    const positions = lowerTerms
+      .map((term) => lowerText.indexOf(term))
+      .filter((position) => position >= 0);
+    if (positions.length === 0) continue;
+
+    const firstMatch = Math.min(...positions);
+    const start = Math.max(0, firstMatch - SNIPPET_CONTEXT_CHARS);
+    const end = Math.min(text.length, firstMatch + SNIPPET_CONTEXT_CHARS * 2);
+    const excerpt = `${start > 0 ? "…" : ""}${text.slice(start, end)}${
+      end < text.length ? "…" : ""
+    }`;
+
+    return { field, fragments: splitHighlightFragments(excerpt, terms) };
+  }
+
+  return null;
+}
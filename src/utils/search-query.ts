@@ -0,0 +1,1063 @@
+/**
+ * 搜索查询语言
+ *
+ * 功能：
+ * 1. 将查询语句编译为高级搜索参数，语法错误带位置信息，便于在输入框下方提示
+ * 2. 将高级搜索参数还原为查询语句（用于展示保存的搜索）
+ * 3. 根据正在输入的内容提供条件名和取值的补全
+ * 4. 执行搜索时按当天计算相对日期条件（due:<7d、created:today 等）
+ *
+ * 语法示例：status:todo,waiting tag:@电脑 project:"Home" due:<7d -tag:someday is:overdue "free text"
+ * - key:value1,value2  多个取值为"任一"关系，取值含空格、逗号时用双引号
+ * - -key:value         排除
+ * - #标签              等同于 tag:标签
+ * - 其他词语或 "带引号的短语" 作为关键词
+ */
+
+import { Priority, TagType, TaskStatus, TaskType } from "@prisma/client";
+
+import { type AdvancedSearchInput } from "@/server/api/schemas/search";
+
+export type SearchQueryParams = Omit<AdvancedSearchInput, "limit" | "cursor">;
+
+type SearchIn = NonNullable<SearchQueryParams["searchIn"]>[number];
+type SortBy = NonNullable<SearchQueryParams["sortBy"]>;
+
+export interface SearchQueryLookup {
+  // 未加载时为空，此时不校验标签和项目名称
+  tags?: Array<{ id: string; name: string }>;
+  projects?: Array<{ id: string; name: string }>;
+}
+
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  params: SearchQueryParams;
+  errors: SearchQueryError[];
+  filterCount: number;
+}
+
+export interface SearchQueryCompletion {
+  label: string;
+  description?: string;
+  // 选择后的完整输入内容
+  value: string;
+}
+
+interface QueryToken {
+  kind: "text" | "filter";
+  negated: boolean;
+  key: string;
+  values: string[];
+  start: number;
+  end: number;
+  valueStart: number;
+}
+
+const ALL_SEARCH_IN: SearchIn[] = ["tasks", "notes", "projects", "journals"];
+
+// 取值别名（小写），第一个为还原查询语句时使用的写法
+const STATUS_ALIASES: Record<TaskStatus, string[]> = {
+  [TaskStatus.IDEA]: ["idea", "想法"],
+  [TaskStatus.TODO]: ["todo", "待办"],
+  [TaskStatus.IN_PROGRESS]: ["in_progress", "doing", "进行中"],
+  [TaskStatus.WAITING]: ["waiting", "等待", "等待中"],
+  [TaskStatus.SOMEDAY]: ["someday", "maybe", "将来", "也许", "将来/也许"],
+  [TaskStatus.DONE]: ["done", "完成", "已完成"],
+  [TaskStatus.ARCHIVED]: ["archived", "归档", "已归档"],
+};
+
+const TYPE_ALIASES: Record<TaskType, string[]> = {
+  [TaskType.NORMAL]: ["normal", "普通"],
+  [TaskType.DEADLINE]: ["deadline", "限时", "截止"],
+};
+
+const PRIORITY_ALIASES: Record<Priority, string[]> = {
+  [Priority.LOW]: ["low", "低"],
+  [Priority.MEDIUM]: ["medium", "中"],
+  [Priority.HIGH]: ["high", "高"],
+  [Priority.URGENT]: ["urgent", "紧急"],
+};
+
+const TAG_TYPE_ALIASES: Record<TagType, string[]> = {
+  [TagType.CONTEXT]: ["context", "情境"],
+  [TagType.PROJECT]: ["project", "项目"],
+  [TagType.CUSTOM]: ["custom", "自定义"],
+  [TagType.PRIORITY]: ["priority", "优先级"],
+};
+
+const SEARCH_IN_ALIASES: Record<SearchIn, string[]> = {
+  tasks: ["tasks", "task", "任务"],
+  notes: ["notes", "note", "笔记"],
+  projects: ["projects", "project", "项目"],
+  journals: ["journals", "journal", "日记"],
+};
+
+const SORT_ALIASES: Record<SortBy, string[]> = {
+  relevance: ["relevance", "相关度"],
+  createdAt: ["created", "创建时间"],
+  updatedAt: ["updated", "更新时间"],
+  dueDate: ["due", "截止日期"],
+  priority: ["priority", "优先级"],
+  title: ["title", "标题"],
+  timeSpent: ["time", "用时"],
+};
+
+const IS_VALUES = ["overdue", "completed", "recurring"] as const;
+const HAS_VALUES = ["description", "time"] as const;
+const DATE_EXAMPLES = ["today", "<7d", ">=-7d", "2025-01-01..2025-01-31"];
+const TIME_EXAMPLES = [">1h", "<30m", "30m..2h"];
+
+// 可用的条件名，用于补全和帮助提示
+export const SEARCH_QUERY_KEYS: Array<{ key: string; description: string }> = [
+  { key: "status", description: "任务状态" },
+  { key: "priority", description: "优先级" },
+  { key: "type", description: "任务类型" },
+  { key: "tag", description: "标签" },
+  { key: "tagtype", description: "标签类型" },
+  { key: "project", description: "项目" },
+  { key: "in", description: "搜索范围" },
+  { key: "due", description: "截止日期" },
+  { key: "created", description: "创建日期" },
+  { key: "updated", description: "更新日期" },
+  { key: "time", description: "用时" },
+  { key: "is", description: "overdue / completed / recurring" },
+  { key: "has", description: "description / time" },
+  { key: "sort", description: "排序字段" },
+  { key: "order", description: "asc / desc" },
+];
+
+const KEY_ALIASES: Record<string, string> = { p: "priority" };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RELATIVE_DAY_NAMES = [
+  "today",
+  "今天",
+  "tomorrow",
+  "明天",
+  "yesterday",
+  "昨天",
+];
+const DATE_FILTER_KEYS = ["created", "updated", "due"] as const;
+
+function isWhitespace(char: string | undefined) {
+  return char !== undefined && /\s/.test(char);
+}
+
+function readQuoted(input: string, start: number) {
+  let value = "";
+  let i = start + 1;
+  while (i < input.length) {
+    const char = input[i]!;
+    if (char === "\\" && i + 1 < input.length) {
+      value += input[i + 1];
+      i += 2;
+      continue;
+    }
+    if (char === '"') {
+      return { value, end: i + 1, closed: true };
+    }
+    value += char;
+    i++;
+  }
+  return { value, end: i, closed: false };
+}
+
+function tokenize(input: string) {
+  const tokens: QueryToken[] = [];
+  const errors: SearchQueryError[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (isWhitespace(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negated = false;
+    if (
+      input[i] === "-" &&
+      i + 1 < input.length &&
+      !isWhitespace(input[i + 1])
+    ) {
+      negated = true;
+      i++;
+    }
+
+    if (input[i] === '"') {
+      const quoted = readQuoted(input, i);
+      if (!quoted.closed) {
+        errors.push({ message: "引号未闭合", start, end: quoted.end });
+      }
+      tokens.push({
+        kind: "text",
+        negated,
+        key: "",
+        values: [quoted.value],
+        start,
+        end: quoted.end,
+        valueStart: i,
+      });
+      i = quoted.end;
+      continue;
+    }
+
+    let keyEnd = i;
+    while (
+      keyEnd < input.length &&
+      !isWhitespace(input[keyEnd]) &&
+      input[keyEnd] !== ":" &&
+      input[keyEnd] !== '"'
+    ) {
+      keyEnd++;
+    }
+
+    if (input[keyEnd] === ":" && keyEnd > i) {
+      const values: string[] = [];
+      const valueStart = keyEnd + 1;
+      let j = valueStart;
+      while (true) {
+        if (input[j] === '"') {
+          const quoted = readQuoted(input, j);
+          if (!quoted.closed) {
+            errors.push({ message: "引号未闭合", start: j, end: quoted.end });
+          }
+          values.push(quoted.value);
+          j = quoted.end;
+        } else {
+          let valueEnd = j;
+          while (
+            valueEnd < input.length &&
+            !isWhitespace(input[valueEnd]) &&
+            input[valueEnd] !== ","
+          ) {
+            valueEnd++;
+          }
+          values.push(input.slice(j, valueEnd));
+          j = valueEnd;
+        }
+        if (input[j] !== ",") break;
+        j++;
+      }
+
+      tokens.push({
+        kind: "filter",
+        negated,
+        key: input.slice(i, keyEnd).toLowerCase(),
+        values,
+        start,
+        end: j,
+        valueStart,
+      });
+      i = j;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !isWhitespace(input[end])) end++;
+    const word = input.slice(i, end);
+    // #标签 是 tag:标签 的简写
+    if (word.startsWith("#") && word.length > 1) {
+      tokens.push({
+        kind: "filter",
+        negated,
+        key: "tag",
+        values: [word.slice(1)],
+        start,
+        end,
+        valueStart: i + 1,
+      });
+    } else {
+      tokens.push({
+        kind: "text",
+        negated,
+        key: "",
+        values: [word],
+        start,
+        end,
+        valueStart: i,
+      });
+    }
+    i = end;
+  }
+
+  return { tokens, errors };
+}
+
+function matchAlias<T extends string>(
+  aliases: Record<T, string[]>,
+  value: string,
+): T | undefined {
+  const normalized = value.toLowerCase();
+  return (Object.keys(aliases) as T[]).find((key) =>
+    aliases[key].includes(normalized),
+  );
+}
+
+function startOfDay(date: Date) {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function endOfDay(date: Date) {
+  const result = new Date(date);
+  result.setHours(23, 59, 59, 999);
+  return result;
+}
+
+function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function formatDay(date: Date) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * 解析日期：today / tomorrow / yesterday、相对天数（7d、-2w、1m）、YYYY-MM-DD 或 ISO 时间
+ * @returns day 表示按整天处理，instant 表示精确时间
+ */
+function parseDateTerm(
+  term: string,
+  now: Date,
+): { day: Date } | { instant: Date } | null {
+  const normalized = term.toLowerCase();
+  const today = startOfDay(now);
+  if (normalized === "today" || normalized === "今天") return { day: today };
+  if (normalized === "tomorrow" || normalized === "明天") {
+    return { day: addDays(today, 1) };
+  }
+  if (normalized === "yesterday" || normalized === "昨天") {
+    return { day: addDays(today, -1) };
+  }
+
+  const relative = /^([+-]?)(\d+)([dwm])$/.exec(normalized);
+  if (relative) {
+    const amount = Number(relative[2]) * (relative[1] === "-" ? -1 : 1);
+    if (relative[3] === "m") {
+      const day = new Date(today);
+      day.setMonth(day.getMonth() + amount);
+      return { day };
+    }
+    return { day: addDays(today, relative[3] === "w" ? amount * 7 : amount) };
+  }
+
+  const dayMatch = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(normalized);
+  if (dayMatch) {
+    const day = new Date(
+      Number(dayMatch[1]),
+      Number(dayMatch[2]) - 1,
+      Number(dayMatch[3]),
+    );
+    return Number.isNaN(day.getTime()) ? null : { day };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}t/.test(normalized)) {
+    const instant = new Date(term);
+    return Number.isNaN(instant.getTime()) ? null : { instant };
+  }
+
+  return null;
+}
+
+// 日期条件是否包含相对日期（today、7d 等），相对日期需要保留原始写法，每次搜索时重新计算
+function isRelativeDateRange(value: string) {
+  return value
+    .replace(/^(<=|>=|<|>)/, "")
+    .split("..")
+    .some(
+      (term) =>
+        RELATIVE_DAY_NAMES.includes(term.toLowerCase()) ||
+        /^[+-]?\d+[dwm]$/i.test(term),
+    );
+}
+
+/**
+ * 解析日期条件：<D、<=D、>D、>=D、D、A..B
+ */
+function parseDateRange(
+  value: string,
+  now: Date,
+): { after?: Date; before?: Date } | string {
+  const range = value.split("..");
+  if (range.length === 2) {
+    const from = parseDateTerm(range[0]!, now);
+    const to = parseDateTerm(range[1]!, now);
+    if (!from || !to) return `无法识别的日期范围：${value}`;
+    return {
+      after: "day" in from ? startOfDay(from.day) : from.instant,
+      before: "day" in to ? endOfDay(to.day) : to.instant,
+    };
+  }
+
+  const match = /^(<=|>=|<|>)?(.+)$/.exec(value);
+  const operator = match?.[1];
+  const date = match ? parseDateTerm(match[2]!, now) : null;
+  if (!date) return `无法识别的日期：${value}`;
+
+  if ("instant" in date) {
+    const time = date.instant.getTime();
+    switch (operator) {
+      case "<":
+        return { before: new Date(time - 1) };
+      case "<=":
+        return { before: date.instant };
+      case ">":
+        return { after: new Date(time + 1) };
+      case ">=":
+        return { after: date.instant };
+      default:
+        return `精确时间需要配合比较符使用：${value}`;
+    }
+  }
+
+  switch (operator) {
+    case "<":
+      return { before: new Date(startOfDay(date.day).getTime() - 1) };
+    case "<=":
+      return { before: endOfDay(date.day) };
+    case ">":
+      return { after: startOfDay(addDays(date.day, 1)) };
+    case ">=":
+      return { after: startOfDay(date.day) };
+    default:
+      return { after: startOfDay(date.day), before: endOfDay(date.day) };
+  }
+}
+
+// 解析时长（秒）：90s、30m、1.5h，不带单位时按分钟
+function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)([smh]?)$/i.exec(value);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  const unit = match[2]!.toLowerCase();
+  const multiplier = unit === "s" ? 1 : unit === "h" ? 3600 : 60;
+  return Math.round(amount * multiplier);
+}
+
+function parseTimeRange(
+  value: string,
+): { min?: number; max?: number } | string {
+  const range = value.split("..");
+  if (range.length === 2) {
+    const min = parseDuration(range[0]!);
+    const max = parseDuration(range[1]!);
+    if (min === null || max === null) return `无法识别的时长范围：${value}`;
+    return { min, max };
+  }
+
+  const match = /^(<=|>=|<|>)(.+)$/.exec(value);
+  const duration = match ? parseDuration(match[2]!) : null;
+  if (!match || duration === null) {
+    return `时长需要比较符或范围，如 >1h、30m..2h：${value}`;
+  }
+  switch (match[1]) {
+    case "<":
+      return { max: Math.max(duration - 1, 0) };
+    case "<=":
+      return { max: duration };
+    case ">":
+      return { min: duration + 1 };
+    default:
+      return { min: duration };
+  }
+}
+
+function findByName(
+  items: Array<{ id: string; name: string }>,
+  name: string,
+): string[] {
+  const normalized = name.toLowerCase();
+  return items
+    .filter((item) => item.name.toLowerCase() === normalized)
+    .map((item) => item.id);
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+/**
+ * 将查询语句编译为高级搜索参数
+ * 出错的条件会被忽略，其余条件照常生效
+ */
+export function parseSearchQuery(
+  input: string,
+  lookup: SearchQueryLookup = {},
+  now: Date = new Date(),
+): ParsedSearchQuery {
+  const { tokens, errors } = tokenize(input);
+  const params: SearchQueryParams = {};
+  const textParts: string[] = [];
+  let filterCount = 0;
+
+  // 枚举类条件先收集包含和排除的取值，最后统一计算
+  const enumFilters = {
+    status: { include: [] as TaskStatus[], exclude: [] as TaskStatus[] },
+    type: { include: [] as TaskType[], exclude: [] as TaskType[] },
+    priority: { include: [] as Priority[], exclude: [] as Priority[] },
+    tagtype: { include: [] as TagType[], exclude: [] as TagType[] },
+    in: { include: [] as SearchIn[], exclude: [] as SearchIn[] },
+  };
+  const enumAliases = {
+    status: STATUS_ALIASES,
+    type: TYPE_ALIASES,
+    priority: PRIORITY_ALIASES,
+    tagtype: TAG_TYPE_ALIASES,
+    in: SEARCH_IN_ALIASES,
+  } as const;
+  const enumRanges: Partial<
+    Record<keyof typeof enumFilters, { start: number; end: number }>
+  > = {};
+
+  for (const token of tokens) {
+    const fail = (message: string) =>
+      errors.push({ message, start: token.start, end: token.end });
+
+    if (token.kind === "text") {
+      if (token.negated) {
+        fail(`不支持排除关键词：-${token.values[0]}`);
+      } else if (token.values[0]) {
+        textParts.push(token.values[0]);
+      }
+      continue;
+    }
+
+    const key = KEY_ALIASES[token.key] ?? token.key;
+    const values = token.values.filter(Boolean);
+    if (values.length === 0) {
+      fail(`${key}: 缺少取值`);
+      continue;
+    }
+    filterCount++;
+
+    switch (key) {
+      case "status":
+      case "type":
+      case "priority":
+      case "tagtype":
+      case "in": {
+        const aliases = enumAliases[key] as Record<string, string[]>;
+        const filter = enumFilters[key] as {
+          include: string[];
+          exclude: string[];
+        };
+        for (const value of values) {
+          const matched = matchAlias(aliases, value);
+          if (!matched) {
+            fail(
+              `${key}: 无法识别的取值 ${value}，可选：${Object.values(aliases)
+                .map((names) => names[0])
+                .join(", ")}`,
+            );
+            continue;
+          }
+          (token.negated ? filter.exclude : filter.include).push(matched);
+        }
+        enumRanges[key] = { start: token.start, end: token.end };
+        break;
+      }
+
+      case "tag":
+      case "project": {
+        const items = key === "tag" ? lookup.tags : lookup.projects;
+        if (!items) break;
+        const ids: string[] = [];
+        for (const value of values) {
+          const matched = findByName(items, value);
+          if (matched.length === 0) {
+            fail(`${key === "tag" ? "标签" : "项目"}不存在：${value}`);
+          }
+          ids.push(...matched);
+        }
+        if (ids.length === 0) break;
+        const field =
+          key === "tag"
+            ? token.negated
+              ? "excludeTagIds"
+              : "tagIds"
+            : token.negated
+              ? "excludeProjectIds"
+              : "projectIds";
+        params[field] = unique([...(params[field] ?? []), ...ids]);
+        break;
+      }
+
+      case "due":
+      case "created":
+      case "updated": {
+        if (token.negated) {
+          fail(`${key}: 不支持排除，请改用 < 或 >`);
+          break;
+        }
+        if (values.length > 1) {
+          fail(`${key}: 只能有一个取值`);
+          break;
+        }
+        const range = parseDateRange(values[0]!, now);
+        if (typeof range === "string") {
+          fail(range);
+          break;
+        }
+        if (isRelativeDateRange(values[0]!)) {
+          params.relativeDates = {
+            ...params.relativeDates,
+            [key]: values[0],
+          };
+          break;
+        }
+        if (range.after) params[`${key}After`] = range.after;
+        if (range.before) params[`${key}Before`] = range.before;
+        break;
+      }
+
+      case "time": {
+        if (token.negated || values.length > 1) {
+          fail("time: 只支持一个比较条件，如 time:>1h");
+          break;
+        }
+        const range = parseTimeRange(values[0]!);
+        if (typeof range === "string") {
+          fail(range);
+          break;
+        }
+        if (range.min !== undefined) params.minTimeSpent = range.min;
+        if (range.max !== undefined) params.maxTimeSpent = range.max;
+        break;
+      }
+
+      case "is":
+        for (const value of values.map((item) => item.toLowerCase())) {
+          if (value === "overdue") {
+            if (token.negated) {
+              fail("不支持 -is:overdue");
+            } else {
+              params.isOverdue = true;
+            }
+          } else if (value === "completed" || value === "done") {
+            params.isCompleted = !token.negated;
+          } else if (value === "recurring") {
+            params.isRecurring = !token.negated;
+          } else {
+            fail(`is: 无法识别的取值 ${value}，可选：${IS_VALUES.join(", ")}`);
+          }
+        }
+        break;
+
+      case "has":
+        for (const value of values.map((item) => item.toLowerCase())) {
+          if (value === "description") {
+            params.hasDescription = !token.negated;
+          } else if (value === "time") {
+            params.hasTimeTracking = !token.negated;
+          } else {
+            fail(
+              `has: 无法识别的取值 ${value}，可选：${HAS_VALUES.join(", ")}`,
+            );
+          }
+        }
+        break;
+
+      case "sort": {
+        const sortBy = matchAlias(SORT_ALIASES, values[0]!);
+        if (token.negated || values.length > 1 || !sortBy) {
+          fail(
+            `sort: 可选：${Object.values(SORT_ALIASES)
+              .map((names) => names[0])
+              .join(", ")}`,
+          );
+          break;
+        }
+        params.sortBy = sortBy;
+        break;
+      }
+
+      case "order": {
+        const order = values[0]!.toLowerCase();
+        if (
+          token.negated ||
+          values.length > 1 ||
+          !["asc", "desc"].includes(order)
+        ) {
+          fail("order: 可选：asc, desc");
+          break;
+        }
+        params.sortOrder = order as "asc" | "desc";
+        break;
+      }
+
+      default:
+        filterCount--;
+        fail(`未知的筛选条件：${token.key}（关键词中含冒号时请加引号）`);
+    }
+  }
+
+  // 计算枚举条件：有包含取值时在其中排除，否则从全部取值中排除
+  const resolveEnum = <T extends string>(
+    key: keyof typeof enumFilters,
+    allValues: T[],
+  ): T[] | undefined => {
+    const { include, exclude } = enumFilters[key] as {
+      include: T[];
+      exclude: T[];
+    };
+    if (include.length === 0 && exclude.length === 0) return undefined;
+    const result = (include.length > 0 ? unique(include) : allValues).filter(
+      (value) => !exclude.includes(value),
+    );
+    if (result.length === 0) {
+      const range = enumRanges[key]!;
+      errors.push({ message: `${key}: 排除后没有可选的取值`, ...range });
+      return undefined;
+    }
+    return result;
+  };
+
+  const taskStatus = resolveEnum("status", Object.values(TaskStatus));
+  if (taskStatus) params.taskStatus = taskStatus;
+  const taskType = resolveEnum("type", Object.values(TaskType));
+  if (taskType) params.taskType = taskType;
+  const priority = resolveEnum("priority", Object.values(Priority));
+  if (priority) params.priority = priority;
+  const tagTypes = resolveEnum("tagtype", Object.values(TagType));
+  if (tagTypes) params.tagTypes = tagTypes;
+  const searchIn = resolveEnum("in", ALL_SEARCH_IN);
+  if (searchIn) params.searchIn = searchIn;
+
+  const query = textParts.join(" ").trim();
+  if (query) params.query = query;
+
+  return {
+    params,
+    errors: errors.sort((a, b) => a.start - b.start),
+    filterCount,
+  };
+}
+
+/**
+ * 按当前日期计算相对日期条件，覆盖对应的日期参数
+ * 执行搜索（包括保存的搜索和智能列表）前调用，结果随日期变化
+ */
+export function resolveRelativeDates<T extends SearchQueryParams>(
+  params: T,
+  now: Date = new Date(),
+): T {
+  if (!params.relativeDates) return params;
+
+  const dates: Partial<
+    Pick<
+      SearchQueryParams,
+      `${(typeof DATE_FILTER_KEYS)[number]}${"After" | "Before"}`
+    >
+  > = {};
+  for (const key of DATE_FILTER_KEYS) {
+    const value = params.relativeDates[key];
+    const range = value ? parseDateRange(value, now) : null;
+    if (!range || typeof range === "string") continue;
+    if (range.after) dates[`${key}After`] = range.after;
+    if (range.before) dates[`${key}Before`] = range.before;
+  }
+  return { ...params, ...dates };
+}
+
+function formatQueryValue(value: string) {
+  return /[\s,":]/.test(value) || value === ""
+    ? `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+    : value;
+}
+
+function toDate(value: Date | string | undefined | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function formatDateRange(
+  after: Date | undefined,
+  before: Date | undefined,
+): string | null {
+  const afterIsDay = after && after.getTime() === startOfDay(after).getTime();
+  const beforeIsDay = before && before.getTime() === endOfDay(before).getTime();
+  const formatAfter = (date: Date) =>
+    afterIsDay ? formatDay(date) : date.toISOString();
+  const formatBefore = (date: Date) =>
+    beforeIsDay ? formatDay(date) : date.toISOString();
+
+  if (after && before) {
+    if (
+      afterIsDay &&
+      beforeIsDay &&
+      before.getTime() - after.getTime() === DAY_MS - 1
+    ) {
+      return formatDay(after);
+    }
+    return `${formatAfter(after)}..${formatBefore(before)}`;
+  }
+  if (after) return `>=${formatAfter(after)}`;
+  if (before) return `<=${formatBefore(before)}`;
+  return null;
+}
+
+function formatDuration(seconds: number) {
+  if (seconds > 0 && seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+/**
+ * 将高级搜索参数还原为查询语句
+ * 相对日期条件保持原来的写法，其余日期条件还原为具体日期；找不到名称的标签和项目会被省略
+ */
+export function formatSearchQuery(
+  params: Partial<
+    Omit<
+      SearchQueryParams,
+      | "createdAfter"
+      | "createdBefore"
+      | "updatedAfter"
+      | "updatedBefore"
+      | "dueAfter"
+      | "dueBefore"
+    >
+  > & {
+    createdAfter?: Date | string | null;
+    createdBefore?: Date | string | null;
+    updatedAfter?: Date | string | null;
+    updatedBefore?: Date | string | null;
+    dueAfter?: Date | string | null;
+    dueBefore?: Date | string | null;
+  },
+  lookup: SearchQueryLookup = {},
+): string {
+  const parts: string[] = [];
+
+  const pushEnum = <T extends string>(
+    key: string,
+    values: T[] | undefined,
+    aliases: Record<T, string[]>,
+  ) => {
+    if (values && values.length > 0) {
+      parts.push(
+        `${key}:${unique(values)
+          .map((value) => aliases[value]?.[0] ?? value)
+          .join(",")}`,
+      );
+    }
+  };
+
+  if (
+    params.searchIn &&
+    params.searchIn.length > 0 &&
+    !ALL_SEARCH_IN.every((type) => params.searchIn!.includes(type))
+  ) {
+    pushEnum("in", params.searchIn, SEARCH_IN_ALIASES);
+  }
+  pushEnum("status", params.taskStatus, STATUS_ALIASES);
+  pushEnum("type", params.taskType, TYPE_ALIASES);
+  pushEnum("priority", params.priority, PRIORITY_ALIASES);
+  pushEnum("tagtype", params.tagTypes, TAG_TYPE_ALIASES);
+
+  const pushNames = (
+    key: string,
+    ids: string[] | undefined,
+    items: Array<{ id: string; name: string }> | undefined,
+  ) => {
+    const names = unique(
+      (ids ?? []).flatMap((id) => {
+        const name = items?.find((item) => item.id === id)?.name;
+        return name ? [formatQueryValue(name)] : [];
+      }),
+    );
+    if (names.length > 0) parts.push(`${key}:${names.join(",")}`);
+  };
+
+  pushNames("tag", params.tagIds, lookup.tags);
+  pushNames("-tag", params.excludeTagIds, lookup.tags);
+  pushNames("project", params.projectIds, lookup.projects);
+  pushNames("-project", params.excludeProjectIds, lookup.projects);
+
+  for (const key of ["due", "created", "updated"] as const) {
+    const relative = params.relativeDates?.[key];
+    const range = relative
+      ? formatQueryValue(relative)
+      : formatDateRange(
+          toDate(params[`${key}After`]),
+          toDate(params[`${key}Before`]),
+        );
+    if (range) parts.push(`${key}:${range}`);
+  }
+
+  const { minTimeSpent, maxTimeSpent } = params;
+  if (minTimeSpent != null && maxTimeSpent != null) {
+    parts.push(
+      `time:${formatDuration(minTimeSpent)}..${formatDuration(maxTimeSpent)}`,
+    );
+  } else if (minTimeSpent != null) {
+    // time:>1h 编译为 3601 秒，还原时保持原来的写法
+    parts.push(
+      (minTimeSpent - 1) % 60 === 0 && minTimeSpent > 1
+        ? `time:>${formatDuration(minTimeSpent - 1)}`
+        : `time:>=${formatDuration(minTimeSpent)}`,
+    );
+  } else if (maxTimeSpent != null) {
+    parts.push(
+      (maxTimeSpent + 1) % 60 === 0
+        ? `time:<${formatDuration(maxTimeSpent + 1)}`
+        : `time:<=${formatDuration(maxTimeSpent)}`,
+    );
+  }
+
+  if (params.isOverdue) parts.push("is:overdue");
+  const pushFlag = (flag: string, value: boolean | null | undefined) => {
+    if (value === true) parts.push(flag);
+    if (value === false) parts.push(`-${flag}`);
+  };
+  pushFlag("is:completed", params.isCompleted);
+  pushFlag("is:recurring", params.isRecurring);
+  pushFlag("has:description", params.hasDescription);
+  pushFlag("has:time", params.hasTimeTracking);
+
+  if (params.sortBy && params.sortBy !== "relevance") {
+    parts.push(`sort:${SORT_ALIASES[params.sortBy][0]}`);
+  }
+  if (params.sortOrder === "asc") parts.push("order:asc");
+
+  const query = params.query?.trim();
+  if (query) {
+    // 关键词可能被误认为筛选条件时整体加引号
+    const needsQuote = query
+      .split(/\s+/)
+      .some((word) => /[:"]/.test(word) || /^[-#]/.test(word));
+    parts.push(needsQuote ? formatQueryValue(query) : query);
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * 根据输入框末尾正在输入的条件提供补全
+ */
+export function getSearchQueryCompletions(
+  input: string,
+  lookup: SearchQueryLookup = {},
+  limit = 8,
+): SearchQueryCompletion[] {
+  if (input === "" || isWhitespace(input[input.length - 1])) return [];
+
+  const { tokens } = tokenize(input);
+  const token = tokens[tokens.length - 1];
+  if (!token || token.end !== input.length) return [];
+
+  const prefix = input.slice(0, token.start) + (token.negated ? "-" : "");
+
+  // 正在输入条件名
+  if (token.kind === "text") {
+    const partial = token.values[0]!.toLowerCase();
+    if (!/^[a-z]+$/.test(partial)) return [];
+    return SEARCH_QUERY_KEYS.filter(
+      ({ key }) => key.startsWith(partial) && key !== partial,
+    )
+      .slice(0, limit)
+      .map(({ key, description }) => ({
+        label: `${key}:`,
+        description,
+        value: `${prefix}${key}:`,
+      }));
+  }
+
+  // 正在输入取值：只补全最后一个逗号之后的部分
+  const key = KEY_ALIASES[token.key] ?? token.key;
+  const raw = input.slice(token.valueStart);
+  const lastComma = raw.lastIndexOf(",");
+  const partial = (lastComma >= 0 ? raw.slice(lastComma + 1) : raw)
+    .replace(/^"/, "")
+    .toLowerCase();
+  // #标签 的写法补全为 tag:标签，避免名称含空格时无法识别
+  const valuePrefix =
+    input[token.valueStart - 1] === "#"
+      ? `${prefix}tag:`
+      : input.slice(0, token.valueStart + (lastComma >= 0 ? lastComma + 1 : 0));
+
+  const enumCandidates = (aliases: Record<string, string[]>) =>
+    Object.values(aliases).map((names) => ({
+      value: names[0]!,
+      description: names[names.length - 1],
+      match: names,
+    }));
+
+  let candidates: Array<{
+    value: string;
+    description?: string;
+    match: string[];
+  }> = [];
+  switch (key) {
+    case "status":
+      candidates = enumCandidates(STATUS_ALIASES);
+      break;
+    case "type":
+      candidates = enumCandidates(TYPE_ALIASES);
+      break;
+    case "priority":
+      candidates = enumCandidates(PRIORITY_ALIASES);
+      break;
+    case "tagtype":
+      candidates = enumCandidates(TAG_TYPE_ALIASES);
+      break;
+    case "in":
+      candidates = enumCandidates(SEARCH_IN_ALIASES);
+      break;
+    case "sort":
+      candidates = enumCandidates(SORT_ALIASES);
+      break;
+    case "order":
+      candidates = ["asc", "desc"].map((value) => ({ value, match: [value] }));
+      break;
+    case "is":
+      candidates = IS_VALUES.map((value) => ({ value, match: [value] }));
+      break;
+    case "has":
+      candidates = HAS_VALUES.map((value) => ({ value, match: [value] }));
+      break;
+    case "tag":
+    case "project":
+      candidates = ((key === "tag" ? lookup.tags : lookup.projects) ?? []).map(
+        (item) => ({ value: item.name, match: [item.name.toLowerCase()] }),
+      );
+      break;
+    case "due":
+    case "created":
+    case "updated":
+      candidates = DATE_EXAMPLES.map((value) => ({ value, match: [value] }));
+      break;
+    case "time":
+      candidates = TIME_EXAMPLES.map((value) => ({ value, match: [value] }));
+      break;
+  }
+
+  const isFreeForm = key === "tag" || key === "project";
+  return candidates
+    .filter(({ match }) =>
+      match.some((name) =>
+        isFreeForm ? name.includes(partial) : name.startsWith(partial),
+      ),
+    )
+    .filter(({ value }) => value.toLowerCase() !== partial)
+    .slice(0, limit)
+    .map(({ value, description }) => ({
+      label: `${key}:${value}`,
+      description,
+      value: `${valuePrefix}${formatQueryValue(value)} `,
+    }));
+}
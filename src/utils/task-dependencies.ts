@@ -0,0 +1,32 @@
+/**
+ * 任务依赖工具
+ * 客户端（下一步行动、等待清单）与服务端（解除等待）共用
+ */
+
+import { type TaskStatus } from "@prisma/client";
+
+import { isTaskClosed } from "@/utils/task-progress";
+
+export interface TaskBlockerSource<
+  TBlocker extends { status: TaskStatus } = { status: TaskStatus },
+> {
+  blockedBy?: Array<{ blocker: TBlocker }>;
+}
+
+/**
+ * 获取任务尚未完成的前置任务
+ */
+export function getOpenBlockers<TBlocker extends { status: TaskStatus }>(
+  task: TaskBlockerSource<TBlocker>,
+): TBlocker[] {
+  return (task.blockedBy ?? [])
+    .map((dependency) => dependency.blocker)
+    .filter((blocker) => !isTaskClosed(blocker.status));
+}
+
+/**
+ * 判断任务是否仍被前置任务阻塞
+ */
+export function hasOpenBlockers(task: TaskBlockerSource): boolean {
+  return getOpenBlockers(task).length > 0;
+}
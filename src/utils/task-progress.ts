@@ -0,0 +1,54 @@
+/**
+ * 子任务与检查项进度计算工具
+ * 客户端（看板卡片、任务模态框）与服务端（自动完成父任务）共用
+ */
+
+import { TaskStatus } from "@prisma/client";
+
+export interface TaskProgressSource {
+  subtasks?: Array<{ status: TaskStatus }>;
+  checklistItems?: Array<{ isCompleted: boolean }>;
+}
+
+export interface TaskProgress {
+  total: number;
+  completed: number;
+  percent: number;
+}
+
+// 视为已关闭的任务状态，计算子任务进度时都算作已完成
+export const CLOSED_TASK_STATUSES: TaskStatus[] = [
+  TaskStatus.DONE,
+  TaskStatus.ARCHIVED,
+];
+
+/**
+ * 判断任务是否视为已关闭（已完成或已归档）
+ */
+export function isTaskClosed(status: TaskStatus): boolean {
+  return CLOSED_TASK_STATUSES.includes(status);
+}
+
+/**
+ * 计算任务的子项完成进度
+ * @returns 没有任何子任务或检查项时返回 null
+ */
+export function getTaskProgress(task: TaskProgressSource): TaskProgress | null {
+  const subtasks = task.subtasks ?? [];
+  const checklistItems = task.checklistItems ?? [];
+
+  const total = subtasks.length + checklistItems.length;
+  if (total === 0) {
+    return null;
+  }
+
+  const completed =
+    subtasks.filter((subtask) => isTaskClosed(subtask.status)).length +
+    checklistItems.filter((item) => item.isCompleted).length;
+
+  return {
+    total,
+    completed,
+    percent: Math.round((completed / total) * 100),
+  };
+}
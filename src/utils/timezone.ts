@@ -214,3 +214,98 @@ export function getLocalTodayRange() {
 
   return { start, end };
 }
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  hour: number;
+  minute: number;
+  weekday: number; // 0为周日
+}
+
+const zonedFormatterCache = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/**
+ * 获取某一时刻在指定时区的日期、时间和星期
+ * @param date 时刻
+ * @param timeZone IANA 时区名称，不传时使用运行环境的时区
+ */
+export function getZonedDateTime(date: Date, timeZone?: string): ZonedDateTime {
+  const key = timeZone ?? "";
+  let formatter = zonedFormatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    zonedFormatterCache.set(key, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_INDEX[parts.weekday ?? ""] ?? 0,
+  };
+}
+
+/**
+ * 本地时间是否到了每天的指定时间（允许延后1分钟，兼容调度延迟；跨整点、跨零点时同样适用）
+ * @param time 每天的时间 (HH:mm)
+ * @param local 当前的本地时间，通常来自 getZonedDateTime
+ */
+export function isTimeOfDayDue(
+  time: string,
+  local: { hour: number; minute: number },
+): boolean {
+  const [hour, minute] = time.split(":").map(Number);
+  if (hour === undefined || minute === undefined) {
+    return false;
+  }
+  const diff =
+    (local.hour * 60 + local.minute - (hour * 60 + minute) + 1440) % 1440;
+  return diff <= 1;
+}
+
+/**
+ * 获取指定时区某一天零点对应的时刻
+ * @param dateString 日期字符串 (YYYY-MM-DD)
+ * @param timeZone IANA 时区名称，不传时使用运行环境的时区
+ */
+export function getZonedStartOfDay(
+  dateString: string,
+  timeZone?: string,
+): Date {
+  const [year, month, day] = dateString.split("-").map(Number);
+  const target = Date.UTC(year!, month! - 1, day);
+
+  // 先按 UTC 零点估算，再根据该时刻在目标时区的墙上时间修正偏移；修正两次以兼容夏令时切换
+  let time = target;
+  for (let i = 0; i < 2; i++) {
+    const zoned = getZonedDateTime(new Date(time), timeZone);
+    const [y, m, d] = zoned.date.split("-").map(Number);
+    const wallTime = Date.UTC(y!, m! - 1, d, zoned.hour, zoned.minute);
+    time -= wallTime - target;
+  }
+
+  return new Date(time);
+}